@@ -14,110 +14,68 @@ $$ language plpgsql;
 create or replace function public.ensure_guest_not_banned()
 returns trigger as $$
 declare
-  ban_until timestamptz;
-  ban_reason text;
+  active_ban record;
   guest_name text;
-  bicycle_ban boolean;
-  meal_ban boolean;
-  shower_ban boolean;
-  laundry_ban boolean;
-  has_program_specific boolean;
-  normalized_service text;
-  formatted_until text;
   service_label text;
+  normalized_service text;
+  service_key text;
+  is_blanket boolean;
 begin
   if new.guest_id is null then
     return new;
   end if;
 
-  select g.banned_until, g.ban_reason, g.full_name,
-         g.banned_from_bicycle, g.banned_from_meals,
-         g.banned_from_shower, g.banned_from_laundry
-    into ban_until, ban_reason, guest_name,
-         bicycle_ban, meal_ban, shower_ban, laundry_ban
-  from public.guests g
-  where g.id = new.guest_id;
-
-  if ban_until is null then
-    return new;
-  end if;
-
-  if ban_until <= now() then
+  -- merge_guests re-points past records; moving history is not a new visit
+  if TG_OP = 'UPDATE' and current_setting('app.guest_merge', true) = 'on' then
     return new;
   end if;
 
-  formatted_until := to_char(ban_until at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI"Z"');
-
-  has_program_specific := coalesce(bicycle_ban, false)
-    or coalesce(meal_ban, false)
-    or coalesce(shower_ban, false)
-    or coalesce(laundry_ban, false);
-
   service_label := CASE WHEN TG_NARGS > 0 THEN TG_ARGV[0] ELSE NULL END;
   normalized_service := lower(trim(coalesce(service_label, '')));
-
-  if has_program_specific then
-    if normalized_service in ('meals', 'meal service', 'meal') then
-      if meal_ban then
-        raise exception using
-          message = format(
-            'Guest %s is banned from meals until %s',
-            coalesce(guest_name, new.guest_id::text),
-            formatted_until
-          ),
-          detail = coalesce(ban_reason, ''),
-          hint = 'Update the guest''s ban settings or wait until it expires.';
-      end if;
-      return new;
-    elsif normalized_service in ('shower', 'showers', 'shower booking', 'shower bookings') then
-      if shower_ban then
-        raise exception using
-          message = format(
-            'Guest %s is banned from showers until %s',
-            coalesce(guest_name, new.guest_id::text),
-            formatted_until
-          ),
-          detail = coalesce(ban_reason, ''),
-          hint = 'Update the guest''s ban settings or wait until it expires.';
-      end if;
-      return new;
-    elsif normalized_service in ('laundry', 'laundry booking', 'laundry bookings') then
-      if laundry_ban then
-        raise exception using
-          message = format(
-            'Guest %s is banned from laundry until %s',
-            coalesce(guest_name, new.guest_id::text),
-            formatted_until
-          ),
-          detail = coalesce(ban_reason, ''),
-          hint = 'Update the guest''s ban settings or wait until it expires.';
-      end if;
-      return new;
-    elsif normalized_service in ('bicycle repairs', 'bicycle repair', 'bicycle') then
-      if bicycle_ban then
-        raise exception using
-          message = format(
-            'Guest %s is banned from bicycle repairs until %s',
-            coalesce(guest_name, new.guest_id::text),
-            formatted_until
-          ),
-          detail = coalesce(ban_reason, ''),
-          hint = 'Update the guest''s ban settings or wait until it expires.';
-      end if;
-      return new;
-    else
-      return new;
+  service_key := case
+    when normalized_service in ('meals', 'meal service', 'meal') then 'meals'
+    when normalized_service in ('shower', 'showers', 'shower booking', 'shower bookings') then 'showers'
+    when normalized_service in ('laundry', 'laundry booking', 'laundry bookings') then 'laundry'
+    when normalized_service in ('bicycle repairs', 'bicycle repair', 'bicycle') then 'bicycle repairs'
+    else null
+  end;
+
+  -- Bans come from guest_bans history; lifted and expired rows never block
+  for active_ban in
+    select b.reason, b.ends_at,
+           b.banned_from_bicycle, b.banned_from_meals,
+           b.banned_from_shower, b.banned_from_laundry
+    from public.guest_bans b
+    where b.guest_id = new.guest_id
+      and b.lifted_at is null
+      and b.starts_at <= now()
+      and b.ends_at > now()
+    order by b.ends_at desc
+  loop
+    -- No program flags means a blanket ban from every service
+    is_blanket := not (active_ban.banned_from_bicycle or active_ban.banned_from_meals
+      or active_ban.banned_from_shower or active_ban.banned_from_laundry);
+
+    if is_blanket
+       or (service_key = 'meals' and active_ban.banned_from_meals)
+       or (service_key = 'showers' and active_ban.banned_from_shower)
+       or (service_key = 'laundry' and active_ban.banned_from_laundry)
+       or (service_key = 'bicycle repairs' and active_ban.banned_from_bicycle) then
+      select g.full_name into guest_name from public.guests g where g.id = new.guest_id;
+
+      raise exception using
+        message = format(
+          'Guest %s is banned from %s until %s',
+          coalesce(guest_name, new.guest_id::text),
+          case when is_blanket then 'services' else service_key end,
+          to_char(active_ban.ends_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI"Z"')
+        ),
+        detail = coalesce(active_ban.reason, ''),
+        hint = 'Update the guest''s ban settings or wait until it expires.';
     end if;
-  end if;
+  end loop;
 
-  raise exception using
-    message = format(
-      'Guest %s is banned from services until %s',
-      coalesce(guest_name, new.guest_id::text),
-      formatted_until
-    ),
-    detail = coalesce(ban_reason, ''),
-    hint = 'Update the guest''s ban settings or wait until it expires.';
+  return new;
 end;
 $$ language plpgsql;
 
@@ -143,7 +101,8 @@ END$$;
 DO $$ BEGIN
   IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'laundry_status_enum') THEN
     CREATE TYPE public.laundry_status_enum AS enum (
-      'waiting','washer','dryer','done','picked_up','pending','transported','returned','offsite_picked_up'
+      'waiting','washer','dryer','done','picked_up','pending','transported','returned','offsite_picked_up',
+      'waitlisted','cancelled','no_show'
     );
   END IF;
 END$$;
@@ -393,9 +352,17 @@ create policy "Authenticated users can view guests"
   to authenticated, anon
   using (true);
 
+-- Deletes (and merges, section 8s) are gated by guests.delete in section 8b
 drop policy if exists "Authenticated users can manage guests" on public.guests;
-create policy "Authenticated users can manage guests"
-  on public.guests for all
+drop policy if exists "Authenticated users can insert guests" on public.guests;
+create policy "Authenticated users can insert guests"
+  on public.guests for insert
+  to authenticated, anon
+  with check (true);
+
+drop policy if exists "Authenticated users can update guests" on public.guests;
+create policy "Authenticated users can update guests"
+  on public.guests for update
   to authenticated, anon
   using (true)
   with check (true);
@@ -587,17 +554,9 @@ create policy "Enable read access for authenticated users"
   to authenticated, anon
   using (true);
 
+-- Inserts and deletes are gated by slots.block in section 8b
 drop policy if exists "Enable insert access for authenticated users" on public.blocked_slots;
-create policy "Enable insert access for authenticated users"
-  on public.blocked_slots for insert
-  to authenticated, anon
-  with check (true);
-
 drop policy if exists "Enable delete access for authenticated users" on public.blocked_slots;
-create policy "Enable delete access for authenticated users"
-  on public.blocked_slots for delete
-  to authenticated, anon
-  using (true);
 
 create table if not exists public.bicycle_repairs (
   id uuid primary key default gen_random_uuid(),
@@ -822,11 +781,12 @@ create policy "Authenticated users can view donations"
   to authenticated, anon
   using (true);
 
+-- Updates and deletes are gated by donations.edit in section 8b
 drop policy if exists "Authenticated users can manage donations" on public.donations;
-create policy "Authenticated users can manage donations"
-  on public.donations for all
+drop policy if exists "Authenticated users can insert donations" on public.donations;
+create policy "Authenticated users can insert donations"
+  on public.donations for insert
   to authenticated, anon
-  using (true)
   with check (true);
 
 -- 5. Settings store (single row replacing Firestore doc appSettings/global)
@@ -1249,236 +1209,2324 @@ before update on public.profiles
 for each row execute function public.touch_updated_at();
 
 -- ============================================
--- 9. SLOT CAPACITY CONSTRAINTS
--- Prevents race conditions when multiple staff book the same slot simultaneously
+-- 8b. ROLE PERMISSIONS
+-- Fine-grained actions gated per role. Keep the seed in sync with
+-- ROLE_PERMISSIONS in src/lib/auth/permissions.ts.
+-- reports.export is enforced in the app only (exports read data every role can already select).
 -- ============================================
+create table if not exists public.role_permissions (
+  role text not null check (role in ('checkin', 'staff', 'admin', 'board')),
+  permission text not null,
+  created_at timestamptz not null default now(),
+  primary key (role, permission)
+);
 
--- SHOWER SLOT CAPACITY CONSTRAINT
--- Limits to 2 guests per slot (configurable)
-create or replace function public.check_shower_slot_capacity()
-returns trigger as $$
+insert into public.role_permissions (role, permission) values
+  ('admin', 'guests.ban'),
+  ('admin', 'guests.delete'),
+  ('admin', 'donations.edit'),
+  ('admin', 'slots.block'),
+  ('admin', 'reports.export'),
+  ('admin', 'users.manage'),
+  ('admin', 'audit.view'),
+  ('admin', 'settings.manage'),
+  ('admin', 'inventory.manage'),
+  ('admin', 'guests.photos'),
+  ('staff', 'guests.ban'),
+  ('staff', 'donations.edit'),
+  ('staff', 'slots.block'),
+  ('staff', 'reports.export'),
+  ('staff', 'settings.manage'),
+  ('staff', 'inventory.manage'),
+  ('staff', 'guests.photos'),
+  ('board', 'reports.export')
+on conflict (role, permission) do nothing;
+
+alter table public.role_permissions enable row level security;
+
+drop policy if exists "Authenticated users can view role permissions" on public.role_permissions;
+create policy "Authenticated users can view role permissions"
+  on public.role_permissions for select
+  to authenticated
+  using (true);
+
+-- Role of the calling user: profiles.role, else the same email-prefix rule as inferRole()
+create or replace function public.current_app_role()
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
 declare
-    slot_count integer;
-    max_capacity integer := 2; -- Configure max guests per shower slot
+  profile_role text;
+  email text;
 begin
-    -- Only check for new bookings and status changes to active statuses
-    if new.status in ('booked', 'waitlisted') then
-        -- Count existing active bookings for this slot
-        select count(*) into slot_count
-        from public.shower_reservations
-        where scheduled_for = new.scheduled_for
-          and scheduled_time = new.scheduled_time
-          and scheduled_time is not null
-          and status in ('booked')
-          and id != coalesce(new.id, '00000000-0000-0000-0000-000000000000'::uuid);
-        
-        -- For new 'booked' records, check capacity
-        if new.status = 'booked' and slot_count >= max_capacity then
-            raise exception 'Shower slot % on % is at full capacity (% of % slots taken)', 
-                new.scheduled_time, new.scheduled_for, slot_count, max_capacity
-                using errcode = 'P0001';
-        end if;
-    end if;
-    
-    return new;
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  select p.role into profile_role from public.profiles p where p.id = auth.uid();
+  if profile_role is not null then
+    return profile_role;
+  end if;
+
+  email := lower(coalesce(auth.jwt() ->> 'email', ''));
+  if email like 'admin%' then return 'admin'; end if;
+  if email like 'board%' then return 'board'; end if;
+  if email like 'checkin%' then return 'checkin'; end if;
+  return 'staff';
 end;
-$$ language plpgsql;
+$$;
+
+create or replace function public.has_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.role_permissions rp
+    where rp.role = public.current_app_role()
+      and rp.permission = p_permission
+  );
+$$;
 
-drop trigger if exists trg_shower_slot_capacity on public.shower_reservations;
-create trigger trg_shower_slot_capacity
-before insert or update on public.shower_reservations
-for each row execute function public.check_shower_slot_capacity();
+comment on function public.has_permission(text) is 'True when the calling user''s role grants the permission in role_permissions';
 
-comment on function public.check_shower_slot_capacity() is 
-'Trigger function to enforce max 2 guests per shower time slot. Prevents race conditions when multiple staff book simultaneously.';
+-- Guests: deleting requires guests.delete; changing ban columns requires guests.ban
+drop policy if exists "Users with guests.delete can delete guests" on public.guests;
+create policy "Users with guests.delete can delete guests"
+  on public.guests for delete
+  to authenticated
+  using (public.has_permission('guests.delete'));
 
--- LAUNDRY SLOT CAPACITY CONSTRAINT  
--- Limits to 2 guests per slot for onsite laundry
-create or replace function public.check_laundry_slot_capacity()
-returns trigger as $$
-declare
-    slot_count integer;
-    max_capacity integer := 2; -- Configure max guests per laundry slot
+create or replace function public.enforce_guest_ban_permission()
+returns trigger
+language plpgsql
+as $$
 begin
-    -- Only check for onsite laundry with a slot
-    if new.laundry_type = 'onsite' and new.slot_label is not null then
-        -- Only check active statuses
-        if new.status in ('waiting', 'washer', 'dryer') then
-            -- Count existing active bookings for this slot
-            select count(*) into slot_count
-            from public.laundry_bookings
-            where scheduled_for = new.scheduled_for
-              and slot_label = new.slot_label
-              and laundry_type = 'onsite'
-              and status in ('waiting', 'washer', 'dryer')
-              and id != coalesce(new.id, '00000000-0000-0000-0000-000000000000'::uuid);
-            
-            if slot_count >= max_capacity then
-                raise exception 'Laundry slot % on % is at full capacity (% of % slots taken)', 
-                    new.slot_label, new.scheduled_for, slot_count, max_capacity
-                    using errcode = 'P0001';
-            end if;
-        end if;
-    end if;
-    
+  if auth.role() = 'service_role' then
     return new;
+  end if;
+
+  if (new.banned_until, new.banned_at, new.ban_reason,
+      new.banned_from_bicycle, new.banned_from_meals,
+      new.banned_from_shower, new.banned_from_laundry)
+     is distinct from
+     (old.banned_until, old.banned_at, old.ban_reason,
+      old.banned_from_bicycle, old.banned_from_meals,
+      old.banned_from_shower, old.banned_from_laundry)
+     and not public.has_permission('guests.ban') then
+    raise exception using
+      errcode = '42501',
+      message = 'Your role is not allowed to ban or unban guests';
+  end if;
+
+  return new;
 end;
-$$ language plpgsql;
+$$;
 
-drop trigger if exists trg_laundry_slot_capacity on public.laundry_bookings;
-create trigger trg_laundry_slot_capacity
-before insert or update on public.laundry_bookings
-for each row execute function public.check_laundry_slot_capacity();
+drop trigger if exists trg_guests_ban_permission on public.guests;
+create trigger trg_guests_ban_permission
+before update on public.guests
+for each row execute function public.enforce_guest_ban_permission();
 
-comment on function public.check_laundry_slot_capacity() is 
-'Trigger function to enforce max 2 guests per laundry time slot for onsite laundry. Prevents race conditions when multiple staff book simultaneously.';
+-- Donations: editing or deleting existing records requires donations.edit
+drop policy if exists "Users with donations.edit can update donations" on public.donations;
+create policy "Users with donations.edit can update donations"
+  on public.donations for update
+  to authenticated
+  using (public.has_permission('donations.edit'))
+  with check (public.has_permission('donations.edit'));
 
--- HELPER FUNCTION: Get available shower slots
--- Returns slots that have capacity available
-create or replace function public.get_available_shower_slots(
-    check_date date,
-    max_per_slot integer default 2
-)
-returns table (
-    slot_time text,
-    current_count bigint,
-    available_spots integer
-) as $$
+drop policy if exists "Users with donations.edit can delete donations" on public.donations;
+create policy "Users with donations.edit can delete donations"
+  on public.donations for delete
+  to authenticated
+  using (public.has_permission('donations.edit'));
+
+-- Blocked slots: blocking and unblocking require slots.block
+drop policy if exists "Users with slots.block can block slots" on public.blocked_slots;
+create policy "Users with slots.block can block slots"
+  on public.blocked_slots for insert
+  to authenticated
+  with check (public.has_permission('slots.block'));
+
+drop policy if exists "Users with slots.block can unblock slots" on public.blocked_slots;
+create policy "Users with slots.block can unblock slots"
+  on public.blocked_slots for delete
+  to authenticated
+  using (public.has_permission('slots.block'));
+
+-- ============================================
+-- 8c. AUDIT LOG
+-- Server-side history of guest and service mutations, written by triggers.
+-- Rows are append-only; readable by roles with audit.view.
+-- ============================================
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  table_name text not null,
+  record_id text,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  guest_id uuid, -- no FK: history must outlive deleted guests
+  actor_id uuid,
+  actor_email text,
+  actor_role text,
+  old_data jsonb,
+  new_data jsonb
+);
+
+create index if not exists idx_audit_log_occurred_at
+  on public.audit_log (occurred_at desc);
+
+create index if not exists idx_audit_log_guest
+  on public.audit_log (guest_id, occurred_at desc);
+
+create index if not exists idx_audit_log_actor
+  on public.audit_log (actor_id, occurred_at desc);
+
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Users with audit.view can read audit log" on public.audit_log;
+create policy "Users with audit.view can read audit log"
+  on public.audit_log for select
+  to authenticated
+  using (public.has_permission('audit.view'));
+
+create or replace function public.log_audit_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  new_row jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  row_data jsonb := coalesce(new_row, old_row);
+  claims jsonb := auth.jwt();
 begin
-    return query
-    with all_slots as (
-        -- Generate common time slots (7:30 AM to 11:30 AM in 30-min increments)
-        select unnest(array[
-            '07:30', '08:00', '08:30', '09:00', '09:30', 
-            '10:00', '10:30', '11:00', '11:30'
-        ]) as time_slot
-    ),
-    booked_slots as (
-        select 
-            scheduled_time,
-            count(*) as booked_count
-        from public.shower_reservations
-        where scheduled_for = check_date
-          and status in ('booked')
-          and scheduled_time is not null
-        group by scheduled_time
-    )
-    select 
-        all_slots.time_slot as slot_time,
-        coalesce(booked_slots.booked_count, 0) as current_count,
-        (max_per_slot - coalesce(booked_slots.booked_count, 0))::integer as available_spots
-    from all_slots
-    left join booked_slots on all_slots.time_slot = booked_slots.scheduled_time
-    order by all_slots.time_slot;
+  -- Skip updates that only touched updated_at
+  if tg_op = 'UPDATE' and (old_row - 'updated_at') = (new_row - 'updated_at') then
+    return null;
+  end if;
+
+  insert into public.audit_log (
+    table_name, record_id, action, guest_id,
+    actor_id, actor_email, actor_role, old_data, new_data
+  ) values (
+    tg_table_name,
+    row_data ->> 'id',
+    lower(tg_op),
+    case when tg_table_name = 'guests'
+      then (row_data ->> 'id')::uuid
+      else (row_data ->> 'guest_id')::uuid
+    end,
+    auth.uid(),
+    claims ->> 'email',
+    coalesce(public.current_app_role(), claims ->> 'role'),
+    old_row,
+    new_row
+  );
+
+  return null;
 end;
-$$ language plpgsql;
+$$;
 
--- HELPER FUNCTION: Get available laundry slots
--- Returns slots that have capacity available
-create or replace function public.get_available_laundry_slots(
-    check_date date,
-    max_per_slot integer default 2
-)
-returns table (
-    slot_label text,
-    current_count bigint,
-    available_spots integer
-) as $$
+comment on function public.log_audit_event() is 'Trigger function recording row changes with the acting user into audit_log';
+
+do $$
+declare
+  audited_table text;
 begin
-    return query
-    with all_slots as (
-        -- Generate common time slots
-        select unnest(array[
-            '07:30', '08:00', '08:30', '09:00', '09:30', 
-            '10:00', '10:30', '11:00'
-        ]) as time_slot
-    ),
-    booked_slots as (
-        select 
-            lb.slot_label as slot,
-            count(*) as booked_count
-        from public.laundry_bookings lb
-        where lb.scheduled_for = check_date
-          and lb.laundry_type = 'onsite'
-          and lb.status in ('waiting', 'washer', 'dryer')
-          and lb.slot_label is not null
-        group by lb.slot_label
-    )
-    select 
-        all_slots.time_slot as slot_label,
-        coalesce(booked_slots.booked_count, 0) as current_count,
-        (max_per_slot - coalesce(booked_slots.booked_count, 0))::integer as available_spots
-    from all_slots
-    left join booked_slots on all_slots.time_slot = booked_slots.slot
-    order by all_slots.time_slot;
-end;
-$$ language plpgsql;
+  foreach audited_table in array array[
+    'guests',
+    'meal_attendance',
+    'shower_reservations',
+    'laundry_bookings',
+    'bicycle_repairs',
+    'donations',
+    'guest_warnings',
+    'service_waivers'
+  ]
+  loop
+    execute format('drop trigger if exists trg_%s_audit on public.%I', audited_table, audited_table);
+    execute format(
+      'create trigger trg_%s_audit after insert or update or delete on public.%I '
+      'for each row execute function public.log_audit_event()',
+      audited_table, audited_table
+    );
+  end loop;
+end $$;
 
 -- ============================================
--- 9b. DAILY NOTES (for operational context in analytics)
--- Stores per-day-per-service notes explaining data anomalies
+-- 8d. ITEM CATALOG
+-- Items handed out during showers and their per-guest cooldown policy.
+-- Deactivate items instead of deleting them so past distributions keep their label.
 -- ============================================
-
-create table if not exists public.daily_notes (
-  id uuid primary key default gen_random_uuid(),
-  note_date date not null,
-  service_type text not null check (service_type in ('meals', 'showers', 'laundry', 'general')),
-  note_text text not null,
-  created_by text,
-  updated_by text,
+create table if not exists public.item_catalog (
+  key text primary key check (key ~ '^[a-z0-9_]+$'),
+  label text not null,
+  icon text not null default 'package',
+  cooldown_type text not null default 'rolling_days'
+    check (cooldown_type in ('rolling_days', 'weekly_reset', 'monthly_cap', 'unlimited')),
+  cooldown_days integer check (cooldown_days > 0),
+  reset_weekday smallint check (reset_weekday between 0 and 6), -- 0 = Sunday
+  monthly_limit integer check (monthly_limit > 0),
+  active boolean not null default true,
+  sort_order integer not null default 0,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now(),
-  
-  constraint daily_notes_unique_per_day unique (note_date, service_type)
+  constraint item_catalog_policy_complete check (
+    (cooldown_type <> 'rolling_days' or cooldown_days is not null)
+    and (cooldown_type <> 'weekly_reset' or reset_weekday is not null)
+    and (cooldown_type <> 'monthly_cap' or monthly_limit is not null)
+  )
 );
 
-comment on table public.daily_notes is 'Stores daily operational notes for meals, showers, laundry, and general services to explain data anomalies in reports.';
-
-drop trigger if exists trg_daily_notes_updated_at on public.daily_notes;
-create trigger trg_daily_notes_updated_at
-before update on public.daily_notes
+drop trigger if exists trg_item_catalog_updated_at on public.item_catalog;
+create trigger trg_item_catalog_updated_at
+before update on public.item_catalog
 for each row execute function public.touch_updated_at();
 
--- Performance indexes
-create index if not exists daily_notes_date_idx on public.daily_notes (note_date desc);
-create index if not exists daily_notes_service_date_idx on public.daily_notes (service_type, note_date desc);
-
--- RLS policies
-alter table public.daily_notes enable row level security;
-
-drop policy if exists "Authenticated users can view daily notes" on public.daily_notes;
-create policy "Authenticated users can view daily notes"
-  on public.daily_notes for select
+-- Seed mirrors the rules that used to be hard-coded in useItemsStore.checkAvailability
+insert into public.item_catalog (key, label, icon, cooldown_type, cooldown_days, reset_weekday, active, sort_order) values
+  ('tshirt', 'T-Shirt', 'shirt', 'weekly_reset', null, 1, true, 10),
+  ('jacket', 'Jacket', 'jacket', 'rolling_days', 15, null, true, 20),
+  ('tent', 'Tent', 'tent', 'rolling_days', 30, null, true, 30),
+  ('sleeping_bag', 'Sleeping Bag', 'package', 'rolling_days', 30, null, true, 40),
+  ('backpack', 'Backpack', 'package', 'rolling_days', 30, null, true, 50),
+  ('flipflops', 'Flip Flops', 'footprints', 'rolling_days', 30, null, true, 60),
+  ('flip_flops', 'Flip Flops (legacy)', 'footprints', 'rolling_days', 30, null, false, 61),
+  ('shoes', 'Shoes', 'footprints', 'rolling_days', 30, null, false, 70),
+  ('blanket', 'Blanket', 'package', 'rolling_days', 30, null, false, 80)
+on conflict (key) do nothing;
+
+alter table public.item_catalog enable row level security;
+
+drop policy if exists "Authenticated users can view item catalog" on public.item_catalog;
+create policy "Authenticated users can view item catalog"
+  on public.item_catalog for select
   to authenticated, anon
   using (true);
 
-drop policy if exists "Authenticated users can manage daily notes" on public.daily_notes;
-create policy "Authenticated users can manage daily notes"
-  on public.daily_notes for all
-  to authenticated, anon
-  using (true)
-  with check (true);
+drop policy if exists "Users with settings.manage can manage item catalog" on public.item_catalog;
+create policy "Users with settings.manage can manage item catalog"
+  on public.item_catalog for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
 
 -- ============================================
--- 10. ENABLE REALTIME FOR TABLES
--- Required for Supabase Realtime subscriptions (cross-device sync)
--- Note: If tables are already in the publication, these will error safely
+-- 8e. ITEM INVENTORY
+-- Stock on hand per catalog item, kept in step with a movement ledger.
+-- Distributions and undos move stock automatically; restocks and recounts
+-- are inserted by staff. A null stock_on_hand means the item is not tracked.
 -- ============================================
+alter table public.item_catalog
+  add column if not exists stock_on_hand integer,
+  add column if not exists low_stock_threshold integer not null default 5
+    check (low_stock_threshold >= 0);
 
--- Enable realtime for critical tables
-do $$
+create table if not exists public.item_stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  item_key text not null references public.item_catalog(key) on update cascade,
+  delta integer not null check (delta <> 0),
+  reason text not null check (reason in ('donation', 'adjustment', 'distribution', 'undo')),
+  donor text,
+  note text,
+  distribution_id uuid,            -- items_distributed row (no FK: undo deletes it)
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists item_stock_movements_item_idx
+  on public.item_stock_movements (item_key, created_at desc);
+
+-- Apply each movement to the catalog; the first restock or recount starts tracking
+create or replace function public.apply_item_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
 begin
-  -- Add tables to realtime publication if not already added
-  if not exists (
-    select 1 from pg_publication_tables 
-    where pubname = 'supabase_realtime' and tablename = 'shower_reservations'
-  ) then
-    alter publication supabase_realtime add table public.shower_reservations;
-  end if;
-  
-  if not exists (
-    select 1 from pg_publication_tables 
-    where pubname = 'supabase_realtime' and tablename = 'laundry_bookings'
+  update public.item_catalog
+     set stock_on_hand = coalesce(stock_on_hand, 0) + new.delta
+   where key = new.item_key;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_item_stock_movements_apply on public.item_stock_movements;
+create trigger trg_item_stock_movements_apply
+after insert on public.item_stock_movements
+for each row execute function public.apply_item_stock_movement();
+
+-- Take one item out of stock per distribution and refuse it when none are left
+create or replace function public.track_item_distribution_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_stock integer;
+begin
+  if tg_op = 'INSERT' then
+    select stock_on_hand into current_stock
+      from public.item_catalog
+     where key = new.item_key
+       for update;
+
+    if current_stock is null then
+      return new;
+    end if;
+    if current_stock <= 0 then
+      raise exception 'Out of stock: %', new.item_key;
+    end if;
+
+    insert into public.item_stock_movements (item_key, delta, reason, distribution_id)
+    values (new.item_key, -1, 'distribution', new.id);
+    return new;
+  end if;
+
+  -- Rows removed by a guest delete cascade are gone with the guest, not back on the shelf
+  if not exists (select 1 from public.guests where id = old.guest_id) then
+    return old;
+  end if;
+
+  if exists (select 1 from public.item_catalog where key = old.item_key and stock_on_hand is not null) then
+    insert into public.item_stock_movements (item_key, delta, reason, distribution_id)
+    values (old.item_key, 1, 'undo', old.id);
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists trg_items_distributed_stock on public.items_distributed;
+create trigger trg_items_distributed_stock
+after insert or delete on public.items_distributed
+for each row execute function public.track_item_distribution_stock();
+
+alter table public.item_stock_movements enable row level security;
+
+drop policy if exists "Authenticated users can view item stock movements" on public.item_stock_movements;
+create policy "Authenticated users can view item stock movements"
+  on public.item_stock_movements for select
+  to authenticated
+  using (true);
+
+-- Distribution and undo rows come from the trigger above; staff only record restocks and recounts
+drop policy if exists "Users with inventory.manage can record stock changes" on public.item_stock_movements;
+create policy "Users with inventory.manage can record stock changes"
+  on public.item_stock_movements for insert
+  to authenticated
+  with check (
+    public.has_permission('inventory.manage')
+    and reason in ('donation', 'adjustment')
+  );
+
+-- ============================================
+-- 8f. SERVICE SCHEDULE
+-- Weekly hours per service. Rows with starts_on/ends_on are seasonal
+-- overrides for that weekday and win over the regular row inside their range.
+-- ============================================
+create table if not exists public.service_schedule (
+  id uuid primary key default gen_random_uuid(),
+  service text not null check (service in ('meals', 'showers', 'laundry')),
+  weekday smallint not null check (weekday between 0 and 6), -- 0 = Sunday
+  starts_on date,
+  ends_on date,
+  season_label text,
+  is_open boolean not null default true,
+  start_time time,
+  end_time time,
+  slot_minutes integer check (slot_minutes > 0),            -- minutes between slot start times
+  slot_duration_minutes integer check (slot_duration_minutes > 0), -- laundry: length of each window
+  slot_capacity integer not null default 1 check (slot_capacity > 0),
+  custom_slots text[],                                      -- hand-picked slot labels, used as-is
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint service_schedule_season_range check (
+    (starts_on is null) = (ends_on is null) and (ends_on is null or ends_on >= starts_on)
+  ),
+  constraint service_schedule_open_hours check (
+    not is_open or (start_time is not null and end_time is not null and end_time > start_time)
+  ),
+  constraint service_schedule_unique_day unique nulls not distinct (service, weekday, starts_on)
+);
+
+drop trigger if exists trg_service_schedule_updated_at on public.service_schedule;
+create trigger trg_service_schedule_updated_at
+before update on public.service_schedule
+for each row execute function public.touch_updated_at();
+
+-- Seed mirrors the hours that used to be hard-coded in mealServiceTime.ts and serviceSlots.ts
+insert into public.service_schedule
+  (service, weekday, is_open, start_time, end_time, slot_minutes, slot_duration_minutes, slot_capacity, custom_slots) values
+  ('meals', 0, false, null, null, null, null, 1, null),
+  ('meals', 1, true, '08:00', '09:00', null, null, 1, null),
+  ('meals', 2, false, null, null, null, null, 1, null),
+  ('meals', 3, true, '08:00', '09:00', null, null, 1, null),
+  ('meals', 4, false, null, null, null, null, 1, null),
+  ('meals', 5, true, '07:30', '08:30', null, null, 1, null),
+  ('meals', 6, true, '08:00', '10:00', null, null, 1, null),
+  ('showers', 0, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 1, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 2, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 3, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 4, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 5, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 6, true, '08:30', '13:30', 30, null, 2, null),
+  ('laundry', 0, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 1, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 2, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 3, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 4, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 5, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 6, true, '08:30', '12:00', 30, 90, 1, null)
+on conflict on constraint service_schedule_unique_day do nothing;
+
+-- Effective hours for a service on a date (seasonal override first, then the weekly row)
+create or replace function public.service_hours_for(p_service text, p_date date)
+returns public.service_schedule
+language sql
+stable
+as $$
+  select s.*
+    from public.service_schedule s
+   where s.service = p_service
+     and s.weekday = extract(dow from p_date)::int
+     and (s.starts_on is null or p_date between s.starts_on and s.ends_on)
+   order by s.starts_on desc nulls last
+   limit 1;
+$$;
+
+-- Slot labels offered on a date: "HH:MM" for showers, "HH:MM - HH:MM" windows for laundry
+create or replace function public.service_slot_labels(p_service text, p_date date)
+returns setof text
+language plpgsql
+stable
+as $$
+declare
+  hours public.service_schedule;
+  start_min integer;
+  end_min integer;
+  step integer;
+  window_min integer;
+  m integer;
+begin
+  hours := public.service_hours_for(p_service, p_date);
+  if hours.id is null or not hours.is_open then
+    return;
+  end if;
+
+  if coalesce(array_length(hours.custom_slots, 1), 0) > 0 then
+    return query select unnest(hours.custom_slots);
+    return;
+  end if;
+
+  start_min := extract(hour from hours.start_time)::int * 60 + extract(minute from hours.start_time)::int;
+  end_min := extract(hour from hours.end_time)::int * 60 + extract(minute from hours.end_time)::int;
+  step := coalesce(hours.slot_minutes, 30);
+  window_min := coalesce(hours.slot_duration_minutes, step);
+
+  m := start_min;
+  if p_service = 'laundry' then
+    while m + window_min <= end_min loop
+      return next to_char(make_time(m / 60, m % 60, 0), 'HH24:MI')
+        || ' - ' || to_char(make_time((m + window_min) / 60, (m + window_min) % 60, 0), 'HH24:MI');
+      m := m + step;
+    end loop;
+  else
+    while m < end_min loop
+      return next to_char(make_time(m / 60, m % 60, 0), 'HH24:MI');
+      m := m + step;
+    end loop;
+  end if;
+end;
+$$;
+
+alter table public.service_schedule enable row level security;
+
+drop policy if exists "Authenticated users can view service schedule" on public.service_schedule;
+create policy "Authenticated users can view service schedule"
+  on public.service_schedule for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage service schedule" on public.service_schedule;
+create policy "Users with settings.manage can manage service schedule"
+  on public.service_schedule for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
+
+-- ============================================
+-- 8g. SERVICE CLOSURES
+-- Holidays and one-off closures. A row with service null closes every
+-- service that day; otherwise only the named service is closed.
+-- ============================================
+create table if not exists public.service_closures (
+  id uuid primary key default gen_random_uuid(),
+  closed_on date not null,
+  service text check (service in ('meals', 'showers', 'laundry')),
+  reason text not null check (length(trim(reason)) > 0),
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  constraint service_closures_unique_day unique nulls not distinct (closed_on, service)
+);
+
+create index if not exists idx_service_closures_closed_on
+  on public.service_closures(closed_on);
+
+-- Closure in effect for a service on a date (a full-day closure wins)
+create or replace function public.service_closure_for(p_service text, p_date date)
+returns public.service_closures
+language sql
+stable
+as $$
+  select c.*
+    from public.service_closures c
+   where c.closed_on = p_date
+     and (c.service is null or c.service = p_service)
+   order by c.service nulls first
+   limit 1;
+$$;
+
+-- Rejects bookings on closed days; TG_ARGV[0] names the service
+create or replace function public.reject_closed_service_booking()
+returns trigger
+language plpgsql
+as $$
+declare
+  closure public.service_closures;
+begin
+  if tg_op = 'UPDATE' and old.scheduled_for is not distinct from new.scheduled_for then
+    return new;
+  end if;
+
+  closure := public.service_closure_for(tg_argv[0], new.scheduled_for);
+  if closure.id is not null then
+    raise exception '% closed on %: %', initcap(tg_argv[0]), new.scheduled_for, closure.reason
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_shower_reservations_closed on public.shower_reservations;
+create trigger trg_shower_reservations_closed
+before insert or update of scheduled_for on public.shower_reservations
+for each row execute function public.reject_closed_service_booking('showers');
+
+drop trigger if exists trg_laundry_bookings_closed on public.laundry_bookings;
+create trigger trg_laundry_bookings_closed
+before insert or update of scheduled_for on public.laundry_bookings
+for each row execute function public.reject_closed_service_booking('laundry');
+
+alter table public.service_closures enable row level security;
+
+drop policy if exists "Authenticated users can view service closures" on public.service_closures;
+create policy "Authenticated users can view service closures"
+  on public.service_closures for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with slots.block can manage service closures" on public.service_closures;
+create policy "Users with slots.block can manage service closures"
+  on public.service_closures for all
+  to authenticated
+  using (public.has_permission('slots.block'))
+  with check (public.has_permission('slots.block'));
+
+-- ============================================
+-- 8h. AUTOMATIC MEAL RULES
+-- Recurring bulk meal entries (RV deliveries, lunch bags, ...). The daily
+-- record_automatic_meals() job inserts one meal_attendance row per rule and
+-- day, catching up on missed days since the rule took effect; deduplication
+-- keys keep reruns harmless.
+-- ============================================
+create table if not exists public.automatic_meal_rules (
+  id uuid primary key default gen_random_uuid(),
+  weekday smallint not null check (weekday between 0 and 6), -- 0 = Sunday
+  meal_type public.meal_type_enum not null check (meal_type <> 'guest'),
+  quantity smallint not null check (quantity > 0),
+  note text,
+  starts_on date,
+  ends_on date,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint automatic_meal_rules_range check (ends_on is null or starts_on is null or ends_on >= starts_on)
+);
+
+drop trigger if exists trg_automatic_meal_rules_updated_at on public.automatic_meal_rules;
+create trigger trg_automatic_meal_rules_updated_at
+before update on public.automatic_meal_rules
+for each row execute function public.touch_updated_at();
+
+-- First day a rule records meals. Set when the rule is created and again when
+-- what it records changes, so the catch-up never backfills or rewrites earlier days.
+alter table public.automatic_meal_rules
+  add column if not exists effective_from date;
+
+update public.automatic_meal_rules
+   set effective_from = (created_at at time zone 'America/Los_Angeles')::date
+ where effective_from is null;
+
+alter table public.automatic_meal_rules
+  alter column effective_from set default (now() at time zone 'America/Los_Angeles')::date,
+  alter column effective_from set not null;
+
+create or replace function public.set_automatic_meal_rule_effective_from()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT'
+     or new.weekday is distinct from old.weekday
+     or new.meal_type is distinct from old.meal_type
+     or new.quantity is distinct from old.quantity
+     or (new.active and not old.active) then
+    new.effective_from := (now() at time zone 'America/Los_Angeles')::date;
+  else
+    new.effective_from := old.effective_from;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_automatic_meal_rules_effective_from on public.automatic_meal_rules;
+create trigger trg_automatic_meal_rules_effective_from
+before insert or update on public.automatic_meal_rules
+for each row execute function public.set_automatic_meal_rule_effective_from();
+
+-- Seed mirrors the entries that used to be hard-coded in checkAndAddAutomaticMeals
+insert into public.automatic_meal_rules (weekday, meal_type, quantity, note)
+select v.weekday, v.meal_type::public.meal_type_enum, v.quantity, v.note
+  from (values
+    (1, 'rv', 100, 'Automatic Entry (Mon)'),
+    (3, 'rv', 40, 'Automatic Entry (Wed)'),
+    (4, 'rv', 100, 'Automatic Entry (Thu)'),
+    (6, 'lunch_bag', 100, 'Automatic Entry (Sat)'),
+    (6, 'rv', 100, 'Automatic Entry (Sat)'),
+    (6, 'day_worker', 50, 'Automatic Entry (Sat)')
+  ) as v(weekday, meal_type, quantity, note)
+ where not exists (select 1 from public.automatic_meal_rules);
+
+-- Which rule created an automatic entry (null for entries made by hand)
+alter table public.meal_attendance
+  add column if not exists automatic_rule_id uuid references public.automatic_meal_rules(id) on delete set null;
+
+create index if not exists meal_attendance_automatic_rule_idx
+  on public.meal_attendance (automatic_rule_id, served_on desc)
+  where automatic_rule_id is not null;
+
+-- Record every rule due from p_days_back days ago through p_through.
+-- Skips closed days and days with no service scheduled; returns rows inserted.
+create or replace function public.record_automatic_meals(
+  p_through date default (now() at time zone 'America/Los_Angeles')::date,
+  p_days_back integer default 7
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  insert into public.meal_attendance
+    (guest_id, meal_type, quantity, served_on, notes, deduplication_key, automatic_rule_id)
+  select null, r.meal_type, r.quantity, d.day, coalesce(nullif(trim(r.note), ''), 'Automatic Entry'),
+         'auto_' || r.id::text || '_' || d.day::text, r.id
+    from generate_series(p_through - p_days_back, p_through, interval '1 day') as g(ts)
+   cross join lateral (select g.ts::date as day) d
+    join public.automatic_meal_rules r
+      on r.active
+     and r.weekday = extract(dow from d.day)::int
+     and d.day >= r.effective_from
+     and (r.starts_on is null or d.day >= r.starts_on)
+     and (r.ends_on is null or d.day <= r.ends_on)
+   where (public.service_closure_for('meals', d.day)).id is null
+     and exists (
+       select 1 from unnest(array['meals', 'showers', 'laundry']) as s(service)
+        where (public.service_hours_for(s.service, d.day)).is_open
+     )
+     -- Entries the app recorded before rules existed used "<meal_type>_<date>" keys
+     and not exists (
+       select 1 from public.meal_attendance m
+        where m.deduplication_key = r.meal_type::text || '_' || d.day::text
+     )
+  on conflict (deduplication_key) do nothing;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+comment on function public.record_automatic_meals(date, integer) is 'Inserts due automatic meal entries (idempotent); run daily by pg_cron and on app start';
+
+grant execute on function public.record_automatic_meals(date, integer) to authenticated;
+
+-- Daily at 15:15 UTC (early morning Pacific) when pg_cron is available
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('record-automatic-meals', '15 15 * * *', 'select public.record_automatic_meals()');
+  end if;
+end;
+$$;
+
+alter table public.automatic_meal_rules enable row level security;
+
+drop policy if exists "Authenticated users can view automatic meal rules" on public.automatic_meal_rules;
+create policy "Authenticated users can view automatic meal rules"
+  on public.automatic_meal_rules for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage automatic meal rules" on public.automatic_meal_rules;
+create policy "Users with settings.manage can manage automatic meal rules"
+  on public.automatic_meal_rules for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
+
+-- ============================================
+-- 8i. BICYCLE REPAIR PARTS AND LABOR
+-- Parts consumed ([{name, quantity, unit_cost}]), the mechanic and minutes
+-- spent per repair, for parts cost and labor hours reporting.
+-- ============================================
+alter table public.bicycle_repairs
+  add column if not exists parts jsonb not null default '[]'::jsonb,
+  add column if not exists mechanic_name text,
+  add column if not exists labor_minutes integer;
+
+alter table public.bicycle_repairs
+  drop constraint if exists bicycle_repairs_parts_is_array,
+  add constraint bicycle_repairs_parts_is_array check (jsonb_typeof(parts) = 'array');
+
+alter table public.bicycle_repairs
+  drop constraint if exists bicycle_repairs_labor_minutes_check,
+  add constraint bicycle_repairs_labor_minutes_check check (labor_minutes is null or labor_minutes >= 0);
+
+-- ============================================
+-- 8j. BICYCLE REPAIR TYPES
+-- Repair types offered when logging a bicycle repair. Repairs keep the type
+-- label; retire types instead of deleting them so older repairs still resolve.
+-- ============================================
+create table if not exists public.bicycle_repair_types (
+  key text primary key check (key ~ '^[a-z0-9_]+$'),
+  label text not null,
+  category text not null default 'repair'
+    check (category in ('repair', 'maintenance', 'accessory', 'new_bicycle', 'other')),
+  default_priority integer not null default 0,
+  estimated_minutes integer check (estimated_minutes >= 0),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists bicycle_repair_types_label_key
+  on public.bicycle_repair_types (lower(label));
+
+drop trigger if exists trg_bicycle_repair_types_updated_at on public.bicycle_repair_types;
+create trigger trg_bicycle_repair_types_updated_at
+before update on public.bicycle_repair_types
+for each row execute function public.touch_updated_at();
+
+-- Seed mirrors the list that used to be hard-coded in BicycleRepairBookingModal
+insert into public.bicycle_repair_types (key, label, category, estimated_minutes, sort_order) values
+  ('new_bicycle', 'New Bicycle', 'new_bicycle', null, 10),
+  ('flat_tire', 'Flat Tire', 'repair', 15, 20),
+  ('brake_adjustment', 'Brake Adjustment', 'maintenance', 15, 30),
+  ('gear_adjustment', 'Gear Adjustment', 'maintenance', 20, 40),
+  ('chain_replacement', 'Chain Replacement', 'repair', 20, 50),
+  ('wheel_truing', 'Wheel Truing', 'repair', 30, 60),
+  ('basic_tune_up', 'Basic Tune Up', 'maintenance', 45, 70),
+  ('drivetrain_cleaning', 'Drivetrain Cleaning', 'maintenance', 30, 80),
+  ('cable_replacement', 'Cable Replacement', 'repair', 20, 90),
+  ('headset_adjustment', 'Headset Adjustment', 'maintenance', 15, 100),
+  ('seat_adjustment', 'Seat Adjustment', 'maintenance', 5, 110),
+  ('kickstand', 'Kickstand', 'accessory', 10, 120),
+  ('basket_rack', 'Basket/Rack', 'accessory', 15, 130),
+  ('bike_lights', 'Bike Lights', 'accessory', 5, 140),
+  ('lock', 'Lock', 'accessory', 5, 150),
+  ('new_tube', 'New Tube', 'repair', 15, 160),
+  ('new_tire', 'New Tire', 'repair', 20, 170),
+  ('other', 'Other', 'other', null, 1000)
+on conflict (key) do nothing;
+
+-- Repairs store type labels, so carry a rename through to existing repairs
+create or replace function public.rename_bicycle_repair_type()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.label is distinct from old.label then
+    update public.bicycle_repairs
+       set repair_types = array_replace(repair_types, old.label, new.label),
+           completed_repairs = array_replace(completed_repairs, old.label, new.label),
+           repair_type = case when repair_type = old.label then new.label else repair_type end
+     where old.label = any(repair_types) or repair_type = old.label;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_bicycle_repair_types_rename on public.bicycle_repair_types;
+create trigger trg_bicycle_repair_types_rename
+after update of label on public.bicycle_repair_types
+for each row execute function public.rename_bicycle_repair_type();
+
+alter table public.bicycle_repair_types enable row level security;
+
+drop policy if exists "Authenticated users can view bicycle repair types" on public.bicycle_repair_types;
+create policy "Authenticated users can view bicycle repair types"
+  on public.bicycle_repair_types for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage bicycle repair types" on public.bicycle_repair_types;
+create policy "Users with settings.manage can manage bicycle repair types"
+  on public.bicycle_repair_types for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
+
+-- ============================================
+-- 8k. OFF-SITE LAUNDRY BATCHES
+-- A vendor run groups a day's off-site bags. advance_laundry_batch() moves the
+-- batch and its bookings together; bags not checked back in on return stay
+-- transported so they show as missing from the batch.
+-- ============================================
+create table if not exists public.laundry_batches (
+  id uuid primary key default gen_random_uuid(),
+  service_date date not null,
+  vendor text not null check (length(trim(vendor)) > 0),
+  status text not null default 'open' check (status in ('open', 'transported', 'returned')),
+  transported_at timestamptz,
+  returned_at timestamptz,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_laundry_batches_service_date
+  on public.laundry_batches(service_date desc);
+
+drop trigger if exists trg_laundry_batches_updated_at on public.laundry_batches;
+create trigger trg_laundry_batches_updated_at
+before update on public.laundry_batches
+for each row execute function public.touch_updated_at();
+
+alter table public.laundry_bookings
+  add column if not exists batch_id uuid references public.laundry_batches(id) on delete set null;
+
+create index if not exists laundry_batch_id_idx
+  on public.laundry_bookings (batch_id)
+  where batch_id is not null;
+
+-- Mark a batch transported or returned along with its bookings. On return,
+-- p_returned_ids lists the bags that came back (null means all of them).
+create or replace function public.advance_laundry_batch(
+  p_batch_id uuid,
+  p_status text,
+  p_returned_ids uuid[] default null
+)
+returns public.laundry_batches
+language plpgsql
+as $$
+declare
+  batch public.laundry_batches;
+begin
+  select * into batch from public.laundry_batches where id = p_batch_id for update;
+  if batch.id is null then
+    raise exception 'Laundry batch % not found', p_batch_id using errcode = 'P0002';
+  end if;
+
+  if p_status = 'transported' and batch.status = 'open' then
+    update public.laundry_bookings
+       set status = 'transported'
+     where batch_id = p_batch_id
+       and status in ('pending', 'waiting');
+    update public.laundry_batches
+       set status = 'transported', transported_at = now()
+     where id = p_batch_id
+    returning * into batch;
+  elsif p_status = 'returned' and batch.status = 'transported' then
+    update public.laundry_bookings
+       set status = 'returned'
+     where batch_id = p_batch_id
+       and status = 'transported'
+       and (p_returned_ids is null or id = any(p_returned_ids));
+    update public.laundry_batches
+       set status = 'returned', returned_at = now()
+     where id = p_batch_id
+    returning * into batch;
+  else
+    raise exception 'Cannot mark a % batch as %', batch.status, p_status using errcode = 'P0001';
+  end if;
+
+  return batch;
+end;
+$$;
+
+alter table public.laundry_batches enable row level security;
+
+drop policy if exists "Authenticated users can view laundry batches" on public.laundry_batches;
+create policy "Authenticated users can view laundry batches"
+  on public.laundry_batches for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Authenticated users can manage laundry batches" on public.laundry_batches;
+create policy "Authenticated users can manage laundry batches"
+  on public.laundry_batches for all
+  to authenticated, anon
+  using (true)
+  with check (true);
+
+-- ============================================
+-- 8l. LAUNDRY MACHINES
+-- Washer and dryer registry with cycle lengths. On-site loads in the washer
+-- or dryer record the machine and when the cycle started.
+-- ============================================
+create table if not exists public.laundry_machines (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('washer', 'dryer')),
+  number smallint not null check (number > 0),
+  cycle_minutes smallint not null check (cycle_minutes > 0),
+  out_of_service boolean not null default false,
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint laundry_machines_unique_number unique (kind, number)
+);
+
+drop trigger if exists trg_laundry_machines_updated_at on public.laundry_machines;
+create trigger trg_laundry_machines_updated_at
+before update on public.laundry_machines
+for each row execute function public.touch_updated_at();
+
+alter table public.laundry_bookings
+  add column if not exists machine_id uuid references public.laundry_machines(id) on delete set null,
+  add column if not exists cycle_started_at timestamptz;
+
+alter table public.laundry_machines enable row level security;
+
+drop policy if exists "Authenticated users can view laundry machines" on public.laundry_machines;
+create policy "Authenticated users can view laundry machines"
+  on public.laundry_machines for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage laundry machines" on public.laundry_machines;
+create policy "Users with settings.manage can manage laundry machines"
+  on public.laundry_machines for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
+
+-- ============================================
+-- 8m. SHOWER STALLS
+-- Which stall a guest is in, when they started and finished, and when the
+-- stall was cleaned afterwards. Stall count follows the shower slot capacity.
+-- ============================================
+alter table public.shower_reservations
+  add column if not exists stall_number smallint check (stall_number > 0),
+  add column if not exists started_at timestamptz,
+  add column if not exists finished_at timestamptz,
+  add column if not exists stall_cleaned_at timestamptz;
+
+-- A stall holds one guest at a time
+create unique index if not exists shower_stall_in_use
+  on public.shower_reservations (scheduled_for, stall_number)
+  where stall_number is not null and started_at is not null and finished_at is null;
+
+-- ============================================
+-- 8n. WAITLIST PROMOTIONS
+-- When a booked shower or a waiting onsite laundry load is cancelled or
+-- marked no-show, the next waitlisted guest for that day and site takes the
+-- freed slot (unless the slot is blocked or the capacity check refuses it).
+-- Each promotion is logged.
+-- ============================================
+create table if not exists public.waitlist_promotions (
+  id uuid primary key default gen_random_uuid(),
+  service_type text not null default 'shower' check (service_type in ('shower', 'laundry')),
+  record_id uuid not null,          -- booking that came off the waitlist
+  guest_id uuid references public.guests(id) on delete cascade,
+  freed_record_id uuid,             -- booking that was cancelled or marked no-show
+  freed_status text not null,
+  scheduled_for date not null,
+  slot_label text not null,
+  promoted_at timestamptz not null default now()
+);
+
+create index if not exists waitlist_promotions_date_idx
+  on public.waitlist_promotions (scheduled_for desc, promoted_at desc);
+
+alter table public.waitlist_promotions enable row level security;
+
+drop policy if exists "Authenticated users can view waitlist promotions" on public.waitlist_promotions;
+create policy "Authenticated users can view waitlist promotions"
+  on public.waitlist_promotions for select
+  to authenticated, anon
+  using (true);
+
+-- Rows are only written by promote_shower_waitlist() and promote_laundry_waitlist()
+create or replace function public.promote_shower_waitlist()
+returns trigger as $$
+declare
+    candidate record;
+begin
+    if old.status <> 'booked' or new.status not in ('cancelled', 'no_show')
+       or old.scheduled_time is null then
+        return new;
+    end if;
+
+    -- A blocked slot is not offered to anyone
+    if exists (
+        select 1 from public.blocked_slots
+        where service_type = 'shower'
+          and date = old.scheduled_for::text
+          and slot_time = old.scheduled_time
+    ) then
+        return new;
+    end if;
+
+    for candidate in
+        select id, guest_id
+        from public.shower_reservations
+        where scheduled_for = old.scheduled_for
+          and site_id = old.site_id
+          and status = 'waitlisted'
+        order by waitlist_position nulls last, created_at
+        for update skip locked
+    loop
+        begin
+            -- Capacity and ban checks run in the row triggers; a refusal moves on to the next guest
+            update public.shower_reservations
+            set status = 'booked',
+                scheduled_time = old.scheduled_time,
+                waitlist_position = null
+            where id = candidate.id;
+
+            insert into public.waitlist_promotions
+                (service_type, record_id, guest_id, freed_record_id, freed_status, scheduled_for, slot_label)
+            values
+                ('shower', candidate.id, candidate.guest_id, old.id, new.status::text, old.scheduled_for, old.scheduled_time);
+
+            return new;
+        exception when raise_exception then
+            continue;
+        end;
+    end loop;
+
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_shower_waitlist_promotion on public.shower_reservations;
+create trigger trg_shower_waitlist_promotion
+after update of status on public.shower_reservations
+for each row execute function public.promote_shower_waitlist();
+
+-- Laundry waitlist entries are onsite loads without a slot until promoted
+alter type public.laundry_status_enum add value if not exists 'waitlisted';
+alter type public.laundry_status_enum add value if not exists 'cancelled';
+alter type public.laundry_status_enum add value if not exists 'no_show';
+
+alter table public.laundry_bookings
+  add column if not exists waitlist_position smallint;
+
+create or replace function public.promote_laundry_waitlist()
+returns trigger as $$
+declare
+    candidate record;
+begin
+    if old.status <> 'waiting' or new.status not in ('cancelled', 'no_show')
+       or old.laundry_type <> 'onsite' or old.slot_label is null then
+        return new;
+    end if;
+
+    -- A blocked slot is not offered to anyone
+    if exists (
+        select 1 from public.blocked_slots
+        where service_type = 'laundry'
+          and date = old.scheduled_for::text
+          and slot_time = old.slot_label
+    ) then
+        return new;
+    end if;
+
+    for candidate in
+        select id, guest_id
+        from public.laundry_bookings
+        where scheduled_for = old.scheduled_for
+          and site_id = old.site_id
+          and status = 'waitlisted'
+        order by waitlist_position nulls last, created_at
+        for update skip locked
+    loop
+        begin
+            -- Capacity and ban checks run in the row triggers; a refusal moves on to the next guest
+            update public.laundry_bookings
+            set status = 'waiting',
+                laundry_type = 'onsite',
+                slot_label = old.slot_label,
+                waitlist_position = null
+            where id = candidate.id;
+
+            insert into public.waitlist_promotions
+                (service_type, record_id, guest_id, freed_record_id, freed_status, scheduled_for, slot_label)
+            values
+                ('laundry', candidate.id, candidate.guest_id, old.id, new.status::text, old.scheduled_for, old.slot_label);
+
+            return new;
+        exception when raise_exception then
+            continue;
+        end;
+    end loop;
+
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_laundry_waitlist_promotion on public.laundry_bookings;
+create trigger trg_laundry_waitlist_promotion
+after update of status on public.laundry_bookings
+for each row execute function public.promote_laundry_waitlist();
+
+-- ============================================
+-- 8o. NO-SHOW POLICY
+-- Shower no-shows within a rolling window that put a guest on
+-- waitlist-only, and for how long. Evaluated by the app from
+-- shower_reservations rows with status 'no_show'.
+-- ============================================
+alter table public.app_settings
+  add column if not exists no_show_policy jsonb not null default jsonb_build_object(
+    'enabled', true,
+    'threshold', 3,
+    'windowDays', 30,
+    'restrictionDays', 7
+  );
+
+-- Counting no-shows per guest over a date range
+create index if not exists shower_no_show_idx
+  on public.shower_reservations (guest_id, scheduled_for)
+  where status = 'no_show';
+
+-- ============================================
+-- 8p. GUEST BAN HISTORY
+-- Every ban issued, with its scope, reason, who issued it, start/end and who
+-- lifted it. ensure_guest_not_banned reads active rows from here, so a ban
+-- stops applying once ends_at passes. The ban columns on guests hold the
+-- current ban for display and are maintained by sync_guest_current_ban().
+-- ============================================
+create table if not exists public.guest_bans (
+  id uuid primary key default gen_random_uuid(),
+  guest_id uuid not null references public.guests(id) on delete cascade,
+  reason text,
+  -- All four false means a blanket ban from every service
+  banned_from_bicycle boolean not null default false,
+  banned_from_meals boolean not null default false,
+  banned_from_shower boolean not null default false,
+  banned_from_laundry boolean not null default false,
+  issued_by text,
+  starts_at timestamptz not null default now(),
+  ends_at timestamptz not null,
+  lifted_at timestamptz,
+  lifted_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint guest_bans_window_valid check (ends_at > starts_at)
+);
+
+create index if not exists guest_bans_guest_idx
+  on public.guest_bans (guest_id, starts_at desc);
+
+create index if not exists guest_bans_active_idx
+  on public.guest_bans (guest_id, ends_at)
+  where lifted_at is null;
+
+drop trigger if exists trg_guest_bans_updated_at on public.guest_bans;
+create trigger trg_guest_bans_updated_at
+before update on public.guest_bans
+for each row execute function public.touch_updated_at();
+
+alter table public.guest_bans enable row level security;
+
+drop policy if exists "Authenticated users can view guest bans" on public.guest_bans;
+create policy "Authenticated users can view guest bans"
+  on public.guest_bans for select
+  to authenticated
+  using (true);
+
+-- No delete policy: lifting a ban sets lifted_at so the history survives
+drop policy if exists "Users with guests.ban can issue bans" on public.guest_bans;
+create policy "Users with guests.ban can issue bans"
+  on public.guest_bans for insert
+  to authenticated
+  with check (public.has_permission('guests.ban'));
+
+drop policy if exists "Users with guests.ban can update bans" on public.guest_bans;
+create policy "Users with guests.ban can update bans"
+  on public.guest_bans for update
+  to authenticated
+  using (public.has_permission('guests.ban'))
+  with check (public.has_permission('guests.ban'));
+
+-- Copy the guest's latest unlifted, unexpired ban onto the guests row so
+-- guest lists keep their ban columns; an empty result clears them
+create or replace function public.sync_guest_current_ban()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_ban public.guest_bans%rowtype;
+begin
+  select * into current_ban
+  from public.guest_bans
+  where guest_id = new.guest_id
+    and lifted_at is null
+    and ends_at > now()
+  order by starts_at desc
+  limit 1;
+
+  update public.guests
+  set ban_reason = current_ban.reason,
+      banned_at = current_ban.starts_at,
+      banned_until = current_ban.ends_at,
+      banned_from_bicycle = coalesce(current_ban.banned_from_bicycle, false),
+      banned_from_meals = coalesce(current_ban.banned_from_meals, false),
+      banned_from_shower = coalesce(current_ban.banned_from_shower, false),
+      banned_from_laundry = coalesce(current_ban.banned_from_laundry, false)
+  where id = new.guest_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_guest_bans_sync_guest on public.guest_bans;
+create trigger trg_guest_bans_sync_guest
+after insert or update on public.guest_bans
+for each row execute function public.sync_guest_current_ban();
+
+-- ============================================
+-- 8q. GUEST PHOTOS
+-- Identification photos taken at the check-in tablet. Files live in the
+-- private guest-photos storage bucket; only roles with guests.photos can
+-- upload or read them.
+-- ============================================
+alter table public.guests
+  add column if not exists photo_path text;
+
+comment on column public.guests.photo_path is 'Object path of the guest''s identification photo in the guest-photos storage bucket';
+
+-- Private bucket: photos are served through short-lived signed URLs
+insert into storage.buckets (id, name, public)
+values ('guest-photos', 'guest-photos', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Users with guests.photos can manage guest photos" on storage.objects;
+create policy "Users with guests.photos can manage guest photos"
+  on storage.objects for all
+  to authenticated
+  using (bucket_id = 'guest-photos' and public.has_permission('guests.photos'))
+  with check (bucket_id = 'guest-photos' and public.has_permission('guests.photos'));
+
+-- ============================================
+-- 8r. HOUSEHOLDS
+-- Families and other households served together. Unlike guest_proxies
+-- (pickup partners, capped at three), a household has any number of
+-- members, a head of household, member roles and an optional combined
+-- daily meal allowance, enforced on meal_attendance by
+-- check_household_meal_allowance(). A guest belongs to at most one household.
+-- ============================================
+create table if not exists public.households (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  head_guest_id uuid references public.guests(id) on delete set null,
+  -- Base meals per day for all members together; null = per-guest limits only
+  meal_allowance integer,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint households_name_present check (length(trim(name)) > 0),
+  constraint households_meal_allowance_positive check (meal_allowance is null or meal_allowance > 0)
+);
+
+create table if not exists public.household_members (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households(id) on delete cascade,
+  guest_id uuid not null references public.guests(id) on delete cascade,
+  role text not null default 'other',
+  created_at timestamptz not null default now(),
+  constraint household_members_role_valid check (role in ('head', 'partner', 'child', 'parent', 'relative', 'other')),
+  constraint household_members_one_household unique (guest_id)
+);
+
+create index if not exists household_members_household_idx
+  on public.household_members (household_id);
+
+create unique index if not exists household_members_one_head_idx
+  on public.household_members (household_id)
+  where role = 'head';
+
+drop trigger if exists trg_households_updated_at on public.households;
+create trigger trg_households_updated_at
+before update on public.households
+for each row execute function public.touch_updated_at();
+
+-- Keep households.head_guest_id in step with the member flagged as head
+create or replace function public.sync_household_head()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (TG_OP in ('UPDATE', 'DELETE')) and old.role = 'head' then
+    update public.households
+    set head_guest_id = null
+    where id = old.household_id and head_guest_id = old.guest_id;
+  end if;
+
+  if (TG_OP in ('INSERT', 'UPDATE')) and new.role = 'head' then
+    update public.households
+    set head_guest_id = new.guest_id
+    where id = new.household_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_household_members_sync_head on public.household_members;
+create trigger trg_household_members_sync_head
+after insert or update or delete on public.household_members
+for each row execute function public.sync_household_head();
+
+alter table public.households enable row level security;
+alter table public.household_members enable row level security;
+
+drop policy if exists "Authenticated users can view households" on public.households;
+create policy "Authenticated users can view households"
+  on public.households for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated users can manage households" on public.households;
+create policy "Authenticated users can manage households"
+  on public.households for all
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "Authenticated users can view household members" on public.household_members;
+create policy "Authenticated users can view household members"
+  on public.household_members for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated users can manage household members" on public.household_members;
+create policy "Authenticated users can manage household members"
+  on public.household_members for all
+  to authenticated
+  using (true)
+  with check (true);
+
+-- Hold a household to its combined daily meal allowance. Only guest meals
+-- count, the same base meals the app adds up across the household's members.
+create or replace function public.check_household_meal_allowance()
+returns trigger
+language plpgsql
+as $$
+declare
+  member_household uuid;
+  allowance integer;
+  used integer;
+begin
+  if new.meal_type <> 'guest' or new.guest_id is null then
+    return new;
+  end if;
+
+  select h.id, h.meal_allowance into member_household, allowance
+  from public.household_members hm
+  join public.households h on h.id = hm.household_id
+  where hm.guest_id = new.guest_id;
+
+  if allowance is null then
+    return new;
+  end if;
+
+  -- Check-ins for the same household wait their turn so two devices can't both take the last meal
+  perform 1 from public.households where id = member_household for update;
+
+  select coalesce(sum(m.quantity), 0) into used
+  from public.meal_attendance m
+  join public.household_members hm on hm.guest_id = m.guest_id
+  where hm.household_id = member_household
+    and m.served_on = new.served_on
+    and m.meal_type = 'guest'
+    and m.id <> new.id;
+
+  if used + new.quantity > allowance then
+    raise exception 'Household already has % meal% on % (allowance %)',
+      used, case when used = 1 then '' else 's' end, new.served_on, allowance
+      using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Merges move meals between guests, so guest_id changes are left out
+drop trigger if exists trg_meal_attendance_household_allowance on public.meal_attendance;
+create trigger trg_meal_attendance_household_allowance
+before insert or update of quantity, served_on, meal_type on public.meal_attendance
+for each row execute function public.check_household_meal_allowance();
+
+-- ============================================
+-- 8s. GUEST MERGES
+-- Duplicate records are merged by merge_guests(): every service record,
+-- warning, reminder, ban, waiver, proxy link and household membership of
+-- the duplicate moves to the kept guest, the chosen field values are
+-- applied and the duplicate is deleted. guest_merges keeps what was moved
+-- so undo_guest_merge() can split them again within the undo window.
+-- ============================================
+create table if not exists public.guest_merges (
+  id uuid primary key default gen_random_uuid(),
+  kept_guest_id uuid not null references public.guests(id) on delete cascade,
+  merged_guest_id uuid not null,           -- the deleted duplicate
+  merged_guest jsonb not null,             -- its guests row as it was
+  kept_guest_before jsonb not null,        -- the kept guests row before field changes
+  moved_rows jsonb not null default '{}',  -- {"table.column": [ids]} re-pointed rows
+  converted_meal_ids uuid[] not null default '{}',    -- same-day guest meals turned into extras
+  dismissed_waiver_ids uuid[] not null default '{}',  -- active waivers the kept guest already had
+  removed_proxies jsonb not null default '[]',        -- links that would have become duplicates or self-links
+  removed_household_member jsonb,                     -- membership dropped when both were in a household
+  merged_by text,
+  merged_at timestamptz not null default now(),
+  undo_until timestamptz not null default now() + interval '24 hours',
+  undone_at timestamptz
+);
+
+create index if not exists guest_merges_merged_at_idx
+  on public.guest_merges (merged_at desc);
+
+alter table public.guest_merges enable row level security;
+
+-- Rows are only written by merge_guests() and undo_guest_merge()
+drop policy if exists "Users with guests.delete can view guest merges" on public.guest_merges;
+create policy "Users with guests.delete can view guest merges"
+  on public.guest_merges for select
+  to authenticated
+  using (public.has_permission('guests.delete'));
+
+create or replace function public.merge_guests(
+  p_keep_id uuid,
+  p_merge_id uuid,
+  p_fields jsonb default '{}',
+  p_merged_by text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  kept public.guests%rowtype;
+  duplicate public.guests%rowtype;
+  target text;
+  moved_ids jsonb;
+  moved jsonb := '{}';
+  converted uuid[];
+  dismissed uuid[];
+  proxies jsonb;
+  membership jsonb;
+  clash date;
+  merge_id uuid;
+begin
+  if not public.has_permission('guests.delete') then
+    raise exception 'Merging guests requires the guests.delete permission';
+  end if;
+  if p_keep_id = p_merge_id then
+    raise exception 'Cannot merge a guest into itself';
+  end if;
+
+  select * into kept from public.guests where id = p_keep_id for update;
+  select * into duplicate from public.guests where id = p_merge_id for update;
+  if kept.id is null or duplicate.id is null then
+    raise exception 'Guest not found';
+  end if;
+
+  -- One shower and one laundry booking per guest per day: staff pick which to keep
+  select s.scheduled_for into clash
+  from public.shower_reservations s
+  join public.shower_reservations k on k.scheduled_for = s.scheduled_for and k.guest_id = p_keep_id
+  where s.guest_id = p_merge_id
+  limit 1;
+  if clash is not null then
+    raise exception 'Both guests have a shower booking on %; cancel one before merging', clash;
+  end if;
+
+  select l.scheduled_for into clash
+  from public.laundry_bookings l
+  join public.laundry_bookings k on k.scheduled_for = l.scheduled_for and k.guest_id = p_keep_id
+  where l.guest_id = p_merge_id
+  limit 1;
+  if clash is not null then
+    raise exception 'Both guests have a laundry booking on %; cancel one before merging', clash;
+  end if;
+
+  perform set_config('app.guest_merge', 'on', true);
+
+  -- A second primary meal on the same day was still served; keep it as an extra
+  with changed as (
+    update public.meal_attendance m
+    set meal_type = 'extra'
+    where m.guest_id = p_merge_id
+      and m.meal_type = 'guest'
+      and exists (
+        select 1 from public.meal_attendance k
+        where k.guest_id = p_keep_id and k.meal_type = 'guest' and k.served_on = m.served_on
+      )
+    returning m.id
+  )
+  select coalesce(array_agg(id), '{}') into converted from changed;
+
+  -- The kept guest's active waiver wins; the duplicate's is kept as dismissed
+  with changed as (
+    update public.service_waivers w
+    set dismissed_at = now(),
+        dismissed_reason = 'Merged duplicate guest record'
+    where w.guest_id = p_merge_id
+      and w.dismissed_at is null
+      and exists (
+        select 1 from public.service_waivers k
+        where k.guest_id = p_keep_id and k.service_type = w.service_type and k.dismissed_at is null
+      )
+    returning w.id
+  )
+  select coalesce(array_agg(id), '{}') into dismissed from changed;
+
+  -- Links between the two guests, or to someone the kept guest is already linked with
+  select coalesce(jsonb_agg(to_jsonb(p)), '[]') into proxies
+  from public.guest_proxies p
+  where (p.guest_id = p_merge_id and (p.proxy_id = p_keep_id or p.proxy_id in (
+          select proxy_id from public.guest_proxies where guest_id = p_keep_id)))
+     or (p.proxy_id = p_merge_id and (p.guest_id = p_keep_id or p.guest_id in (
+          select guest_id from public.guest_proxies where proxy_id = p_keep_id)));
+  delete from public.guest_proxies
+  where id in (select (value->>'id')::uuid from jsonb_array_elements(proxies));
+
+  -- A guest belongs to one household; the kept guest's membership wins
+  select to_jsonb(h) into membership
+  from public.household_members h
+  where h.guest_id = p_merge_id
+    and exists (select 1 from public.household_members k where k.guest_id = p_keep_id);
+  if membership is not null then
+    delete from public.household_members where id = (membership->>'id')::uuid;
+  end if;
+
+  foreach target in array array[
+    'meal_attendance.guest_id',
+    'meal_attendance.picked_up_by_guest_id',
+    'shower_reservations.guest_id',
+    'laundry_bookings.guest_id',
+    'bicycle_repairs.guest_id',
+    'holiday_visits.guest_id',
+    'haircut_visits.guest_id',
+    'items_distributed.guest_id',
+    'guest_warnings.guest_id',
+    'guest_reminders.guest_id',
+    'guest_bans.guest_id',
+    'service_waivers.guest_id',
+    'waitlist_promotions.guest_id',
+    'guest_proxies.guest_id',
+    'guest_proxies.proxy_id',
+    'household_members.guest_id'
+  ] loop
+    execute format(
+      'with moved as (update public.%I set %I = $1 where %I = $2 returning id) '
+      'select coalesce(jsonb_agg(id), ''[]'') from moved',
+      split_part(target, '.', 1), split_part(target, '.', 2), split_part(target, '.', 2)
+    ) into moved_ids using p_keep_id, p_merge_id;
+    if jsonb_array_length(moved_ids) > 0 then
+      moved := moved || jsonb_build_object(target, moved_ids);
+    end if;
+  end loop;
+
+  update public.guests g
+  set first_name = coalesce(p_fields->>'first_name', g.first_name),
+      last_name = coalesce(p_fields->>'last_name', g.last_name),
+      full_name = trim(coalesce(p_fields->>'first_name', g.first_name) || ' ' || coalesce(p_fields->>'last_name', g.last_name)),
+      preferred_name = case when p_fields ? 'preferred_name' then p_fields->>'preferred_name' else g.preferred_name end,
+      housing_status = coalesce((p_fields->>'housing_status')::public.housing_status_enum, g.housing_status),
+      age_group = coalesce((p_fields->>'age_group')::public.age_group_enum, g.age_group),
+      gender = coalesce((p_fields->>'gender')::public.gender_enum, g.gender),
+      location = coalesce(p_fields->>'location', g.location),
+      notes = case when p_fields ? 'notes' then p_fields->>'notes' else g.notes end,
+      bicycle_description = case when p_fields ? 'bicycle_description' then p_fields->>'bicycle_description' else g.bicycle_description end,
+      photo_path = case when p_fields ? 'photo_path' then p_fields->>'photo_path' else g.photo_path end
+  where g.id = p_keep_id;
+
+  delete from public.guests where id = p_merge_id;
+
+  insert into public.guest_merges (
+    kept_guest_id, merged_guest_id, merged_guest, kept_guest_before, moved_rows,
+    converted_meal_ids, dismissed_waiver_ids, removed_proxies, removed_household_member, merged_by
+  ) values (
+    p_keep_id, p_merge_id, to_jsonb(duplicate), to_jsonb(kept), moved,
+    converted, dismissed, proxies, membership, p_merged_by
+  )
+  returning id into merge_id;
+
+  perform set_config('app.guest_merge', 'off', true);
+
+  return jsonb_build_object(
+    'merge', (select to_jsonb(m) from public.guest_merges m where m.id = merge_id),
+    'kept', (select to_jsonb(g) from public.guests g where g.id = p_keep_id)
+  );
+end;
+$$;
+
+comment on function public.merge_guests(uuid, uuid, jsonb, text) is 'Moves every record of p_merge_id onto p_keep_id, applies p_fields to the kept guest and deletes the duplicate; undo with undo_guest_merge()';
+
+create or replace function public.undo_guest_merge(p_merge_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.guest_merges%rowtype;
+  before public.guests%rowtype;
+  moved record;
+begin
+  if not public.has_permission('guests.delete') then
+    raise exception 'Undoing a merge requires the guests.delete permission';
+  end if;
+
+  select * into m from public.guest_merges where id = p_merge_id for update;
+  if m.id is null then
+    raise exception 'Merge not found';
+  end if;
+  if m.undone_at is not null then
+    raise exception 'This merge was already undone';
+  end if;
+  if m.undo_until <= now() then
+    raise exception 'The undo window for this merge has closed';
+  end if;
+
+  perform set_config('app.guest_merge', 'on', true);
+
+  insert into public.guests
+  select * from jsonb_populate_record(null::public.guests, m.merged_guest);
+
+  -- Only rows moved by the merge go back; records added since stay with the kept guest
+  for moved in select key, value from jsonb_each(m.moved_rows) loop
+    execute format(
+      'update public.%I set %I = $1 where id = any($2)',
+      split_part(moved.key, '.', 1), split_part(moved.key, '.', 2)
+    ) using m.merged_guest_id, array(select jsonb_array_elements_text(moved.value))::uuid[];
+  end loop;
+
+  update public.meal_attendance set meal_type = 'guest' where id = any(m.converted_meal_ids);
+  update public.service_waivers
+  set dismissed_at = null, dismissed_reason = null
+  where id = any(m.dismissed_waiver_ids);
+
+  insert into public.guest_proxies
+  select * from jsonb_populate_recordset(null::public.guest_proxies, m.removed_proxies)
+  on conflict do nothing;
+
+  if m.removed_household_member is not null then
+    insert into public.household_members
+    select * from jsonb_populate_record(null::public.household_members, m.removed_household_member);
+  end if;
+
+  -- Field choices and the ban copy (bans moved back above) return to their old values
+  before := jsonb_populate_record(null::public.guests, m.kept_guest_before);
+  update public.guests g
+  set first_name = before.first_name,
+      last_name = before.last_name,
+      full_name = before.full_name,
+      preferred_name = before.preferred_name,
+      housing_status = before.housing_status,
+      age_group = before.age_group,
+      gender = before.gender,
+      location = before.location,
+      notes = before.notes,
+      bicycle_description = before.bicycle_description,
+      photo_path = before.photo_path,
+      ban_reason = before.ban_reason,
+      banned_at = before.banned_at,
+      banned_until = before.banned_until,
+      banned_from_bicycle = before.banned_from_bicycle,
+      banned_from_meals = before.banned_from_meals,
+      banned_from_shower = before.banned_from_shower,
+      banned_from_laundry = before.banned_from_laundry
+  where g.id = m.kept_guest_id;
+
+  update public.guest_merges set undone_at = now() where id = m.id;
+
+  perform set_config('app.guest_merge', 'off', true);
+
+  return jsonb_build_object(
+    'kept', (select to_jsonb(g) from public.guests g where g.id = m.kept_guest_id),
+    'restored', (select to_jsonb(g) from public.guests g where g.id = m.merged_guest_id)
+  );
+end;
+$$;
+
+comment on function public.undo_guest_merge(uuid) is 'Restores the duplicate removed by merge_guests() and moves its records back, within the merge''s undo window';
+
+grant execute on function public.merge_guests(uuid, uuid, jsonb, text) to authenticated;
+grant execute on function public.undo_guest_merge(uuid) to authenticated;
+
+-- ============================================
+-- 8t. GUEST ID FORMAT
+-- How the app builds external_id for new guests: prefix, optional site
+-- code and an optional Luhn mod 36 check character. Printed guest cards
+-- carry external_id as a QR code. Existing IDs are never rewritten.
+-- ============================================
+alter table public.app_settings
+  add column if not exists guest_id_format jsonb not null default jsonb_build_object(
+    'prefix', 'G',
+    'siteCode', '',
+    'checkDigit', false
+  );
+
+-- ============================================
+-- 8u. SITES
+-- Places services run: the main site plus pop-up locations. Every service
+-- record carries the site it happened at (rows written without one belong
+-- to the default site). service_schedule rows with a site_id replace the
+-- shared hours (site_id null) for that site, day and season, and slot
+-- capacity is counted per site.
+-- ============================================
+create table if not exists public.sites (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  code text not null,
+  address text,
+  is_default boolean not null default false,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint sites_name_present check (length(trim(name)) > 0),
+  constraint sites_code_format check (code ~ '^[A-Z0-9]{1,4}$'),
+  constraint sites_unique_name unique (name),
+  constraint sites_unique_code unique (code)
+);
+
+-- At most one default site
+create unique index if not exists sites_one_default_idx
+  on public.sites (is_default)
+  where is_default;
+
+drop trigger if exists trg_sites_updated_at on public.sites;
+create trigger trg_sites_updated_at
+before update on public.sites
+for each row execute function public.touch_updated_at();
+
+insert into public.sites (name, code, is_default)
+select 'Mountain View', 'MV', true
+ where not exists (select 1 from public.sites);
+
+-- The site records belong to when the app does not say (falls back to the oldest site)
+create or replace function public.default_site_id()
+returns uuid
+language sql
+stable
+as $$
+  select id from public.sites order by is_default desc, created_at limit 1;
+$$;
+
+alter table public.meal_attendance
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.shower_reservations
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.laundry_bookings
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.bicycle_repairs
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.haircut_visits
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.holiday_visits
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.items_distributed
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+
+-- Everything recorded before sites existed happened at the main site
+update public.meal_attendance set site_id = public.default_site_id() where site_id is null;
+update public.shower_reservations set site_id = public.default_site_id() where site_id is null;
+update public.laundry_bookings set site_id = public.default_site_id() where site_id is null;
+update public.bicycle_repairs set site_id = public.default_site_id() where site_id is null;
+update public.haircut_visits set site_id = public.default_site_id() where site_id is null;
+update public.holiday_visits set site_id = public.default_site_id() where site_id is null;
+update public.items_distributed set site_id = public.default_site_id() where site_id is null;
+
+alter table public.meal_attendance alter column site_id set not null;
+alter table public.shower_reservations alter column site_id set not null;
+alter table public.laundry_bookings alter column site_id set not null;
+alter table public.bicycle_repairs alter column site_id set not null;
+alter table public.haircut_visits alter column site_id set not null;
+alter table public.holiday_visits alter column site_id set not null;
+alter table public.items_distributed alter column site_id set not null;
+
+create index if not exists meal_attendance_site_idx on public.meal_attendance (site_id, served_on desc);
+create index if not exists shower_reservations_site_idx on public.shower_reservations (site_id, scheduled_for desc);
+create index if not exists laundry_bookings_site_idx on public.laundry_bookings (site_id, scheduled_for desc);
+create index if not exists bicycle_repairs_site_idx on public.bicycle_repairs (site_id, requested_at desc);
+create index if not exists haircut_visits_site_idx on public.haircut_visits (site_id, served_at desc);
+create index if not exists holiday_visits_site_idx on public.holiday_visits (site_id, served_at desc);
+create index if not exists items_distributed_site_idx on public.items_distributed (site_id, distributed_at desc);
+
+-- Each site numbers its own stalls, so stall 1 can be in use at every site
+drop index if exists public.shower_stall_in_use;
+create unique index shower_stall_in_use
+  on public.shower_reservations (site_id, scheduled_for, stall_number)
+  where stall_number is not null and started_at is not null and finished_at is null;
+
+-- Per-site hours: null site_id rows are the shared schedule every site starts from
+alter table public.service_schedule
+  add column if not exists site_id uuid references public.sites(id) on delete cascade;
+
+alter table public.service_schedule drop constraint if exists service_schedule_unique_day;
+alter table public.service_schedule
+  add constraint service_schedule_unique_day unique nulls not distinct (site_id, service, weekday, starts_on);
+
+-- Effective hours for a service on a date at a site: seasonal override
+-- first, then the weekly row; at each level the site's own row wins over
+-- the shared one
+drop function if exists public.service_hours_for(text, date);
+create or replace function public.service_hours_for(p_service text, p_date date, p_site_id uuid default null)
+returns public.service_schedule
+language sql
+stable
+as $$
+  select s.*
+    from public.service_schedule s
+   where s.service = p_service
+     and s.weekday = extract(dow from p_date)::int
+     and (s.starts_on is null or p_date between s.starts_on and s.ends_on)
+     and (s.site_id is null or s.site_id = p_site_id)
+   order by s.starts_on desc nulls last, s.site_id nulls last
+   limit 1;
+$$;
+
+drop function if exists public.service_slot_labels(text, date);
+create or replace function public.service_slot_labels(p_service text, p_date date, p_site_id uuid default null)
+returns setof text
+language plpgsql
+stable
+as $$
+declare
+  hours public.service_schedule;
+  start_min integer;
+  end_min integer;
+  step integer;
+  window_min integer;
+  m integer;
+begin
+  hours := public.service_hours_for(p_service, p_date, p_site_id);
+  if hours.id is null or not hours.is_open then
+    return;
+  end if;
+
+  if coalesce(array_length(hours.custom_slots, 1), 0) > 0 then
+    return query select unnest(hours.custom_slots);
+    return;
+  end if;
+
+  start_min := extract(hour from hours.start_time)::int * 60 + extract(minute from hours.start_time)::int;
+  end_min := extract(hour from hours.end_time)::int * 60 + extract(minute from hours.end_time)::int;
+  step := coalesce(hours.slot_minutes, 30);
+  window_min := coalesce(hours.slot_duration_minutes, step);
+
+  m := start_min;
+  if p_service = 'laundry' then
+    while m + window_min <= end_min loop
+      return next to_char(make_time(m / 60, m % 60, 0), 'HH24:MI')
+        || ' - ' || to_char(make_time((m + window_min) / 60, (m + window_min) % 60, 0), 'HH24:MI');
+      m := m + step;
+    end loop;
+  else
+    while m < end_min loop
+      return next to_char(make_time(m / 60, m % 60, 0), 'HH24:MI');
+      m := m + step;
+    end loop;
+  end if;
+end;
+$$;
+
+alter table public.sites enable row level security;
+
+drop policy if exists "Authenticated users can view sites" on public.sites;
+create policy "Authenticated users can view sites"
+  on public.sites for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage sites" on public.sites;
+create policy "Users with settings.manage can manage sites"
+  on public.sites for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
+
+-- ============================================
+-- 8v. LAUNDRY BAG NUMBERS
+-- Bag numbers run 1, 2, 3... each service day. assign_laundry_bag_number()
+-- hands out the next one on the server; the unique index also stops two
+-- bookings sharing a typed-in number.
+-- ============================================
+-- Existing duplicates get a suffix so the unique index can be built
+with dupes as (
+  select id, row_number() over (partition by scheduled_for, bag_number order by created_at, id) as n
+  from public.laundry_bookings
+  where bag_number is not null and bag_number <> ''
+)
+update public.laundry_bookings lb
+   set bag_number = lb.bag_number || '-' || dupes.n
+  from dupes
+ where dupes.id = lb.id and dupes.n > 1;
+
+-- Tags print as LB-<date>-<bag>, so a bag number is only used once a day across every site
+create unique index if not exists laundry_bag_number_per_day
+  on public.laundry_bookings (scheduled_for, bag_number)
+  where bag_number is not null and bag_number <> '';
+
+-- Give a booking the next numeric bag number for its day. Bookings that already
+-- have a bag keep it, so a retried call is harmless.
+create or replace function public.assign_laundry_bag_number(p_booking_id uuid)
+returns public.laundry_bookings
+language plpgsql
+as $$
+declare
+  booking public.laundry_bookings;
+  next_bag integer;
+begin
+  select * into booking from public.laundry_bookings where id = p_booking_id;
+  if booking.id is null then
+    raise exception 'Laundry booking % not found', p_booking_id using errcode = 'P0002';
+  end if;
+
+  if coalesce(booking.bag_number, '') <> '' then
+    return booking;
+  end if;
+
+  -- One assignment per day at a time, so two devices never hand out the same number
+  perform pg_advisory_xact_lock(hashtext('laundry_bag_number'), booking.scheduled_for - date '2000-01-01');
+
+  select coalesce(max(bag_number::integer), 0) + 1 into next_bag
+  from public.laundry_bookings
+  where scheduled_for = booking.scheduled_for
+    and bag_number ~ '^\d{1,9}$';
+
+  update public.laundry_bookings
+     set bag_number = next_bag::text
+   where id = p_booking_id
+     and coalesce(bag_number, '') = ''
+  returning * into booking;
+
+  -- Another device numbered it while we waited for the lock
+  if booking.id is null then
+    select * into booking from public.laundry_bookings where id = p_booking_id;
+  end if;
+
+  return booking;
+end;
+$$;
+
+-- ============================================
+-- 9. SLOT CAPACITY CONSTRAINTS
+-- Prevents race conditions when multiple staff book the same slot simultaneously
+-- ============================================
+
+-- SHOWER SLOT CAPACITY CONSTRAINT
+-- Limits guests per slot at a site to the site's slot_capacity in service_schedule (2 if unset)
+create or replace function public.check_shower_slot_capacity()
+returns trigger as $$
+declare
+    slot_count integer;
+    max_capacity integer;
+begin
+    -- Only check for new bookings and status changes to active statuses
+    if new.status in ('booked', 'waitlisted') then
+        -- Rows already holding this slot (e.g. notes edits) do not take another spot
+        if tg_op = 'UPDATE' and old.status = 'booked'
+           and old.scheduled_for = new.scheduled_for
+           and old.scheduled_time is not distinct from new.scheduled_time
+           and old.site_id is not distinct from new.site_id then
+            return new;
+        end if;
+
+        max_capacity := coalesce(
+            (public.service_hours_for('showers', new.scheduled_for, new.site_id)).slot_capacity,
+            2
+        );
+
+        -- Count existing active bookings for this slot at the same site
+        select count(*) into slot_count
+        from public.shower_reservations
+        where scheduled_for = new.scheduled_for
+          and site_id is not distinct from new.site_id
+          and scheduled_time = new.scheduled_time
+          and scheduled_time is not null
+          and status in ('booked')
+          and id != coalesce(new.id, '00000000-0000-0000-0000-000000000000'::uuid);
+        
+        -- For new 'booked' records, check capacity
+        if new.status = 'booked' and slot_count >= max_capacity then
+            raise exception 'Shower slot % on % is at full capacity (% of % slots taken)', 
+                new.scheduled_time, new.scheduled_for, slot_count, max_capacity
+                using errcode = 'P0001';
+        end if;
+    end if;
+    
+    return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_shower_slot_capacity on public.shower_reservations;
+create trigger trg_shower_slot_capacity
+before insert or update on public.shower_reservations
+for each row execute function public.check_shower_slot_capacity();
+
+comment on function public.check_shower_slot_capacity() is 
+'Trigger function to enforce the scheduled number of guests per shower time slot. Prevents race conditions when multiple staff book simultaneously.';
+
+-- LAUNDRY SLOT CAPACITY CONSTRAINT  
+-- Limits guests per onsite slot at a site to the site's slot_capacity in service_schedule (2 if unset)
+create or replace function public.check_laundry_slot_capacity()
+returns trigger as $$
+declare
+    slot_count integer;
+    max_capacity integer;
+begin
+    -- Only check for onsite laundry with a slot
+    if new.laundry_type = 'onsite' and new.slot_label is not null then
+        -- Only check active statuses
+        if new.status in ('waiting', 'washer', 'dryer') then
+            -- Moving a load through washer/dryer keeps the spot it already holds
+            if tg_op = 'UPDATE' and old.status in ('waiting', 'washer', 'dryer')
+               and old.laundry_type = 'onsite'
+               and old.scheduled_for = new.scheduled_for
+               and old.slot_label is not distinct from new.slot_label
+               and old.site_id is not distinct from new.site_id then
+                return new;
+            end if;
+
+            max_capacity := coalesce(
+                (public.service_hours_for('laundry', new.scheduled_for, new.site_id)).slot_capacity,
+                2
+            );
+
+            -- Count existing active bookings for this slot at the same site
+            select count(*) into slot_count
+            from public.laundry_bookings
+            where scheduled_for = new.scheduled_for
+              and site_id is not distinct from new.site_id
+              and slot_label = new.slot_label
+              and laundry_type = 'onsite'
+              and status in ('waiting', 'washer', 'dryer')
+              and id != coalesce(new.id, '00000000-0000-0000-0000-000000000000'::uuid);
+            
+            if slot_count >= max_capacity then
+                raise exception 'Laundry slot % on % is at full capacity (% of % slots taken)', 
+                    new.slot_label, new.scheduled_for, slot_count, max_capacity
+                    using errcode = 'P0001';
+            end if;
+        end if;
+    end if;
+    
+    return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_laundry_slot_capacity on public.laundry_bookings;
+create trigger trg_laundry_slot_capacity
+before insert or update on public.laundry_bookings
+for each row execute function public.check_laundry_slot_capacity();
+
+comment on function public.check_laundry_slot_capacity() is 
+'Trigger function to enforce the scheduled number of guests per onsite laundry slot. Prevents race conditions when multiple staff book simultaneously.';
+
+-- HELPER FUNCTION: Get available shower slots
+-- Returns a site's scheduled slots for a date with remaining capacity (none on closed days)
+drop function if exists public.get_available_shower_slots(date, integer);
+create or replace function public.get_available_shower_slots(
+    check_date date,
+    max_per_slot integer default null, -- defaults to the scheduled slot_capacity
+    p_site_id uuid default null        -- defaults to the default site
+)
+returns table (
+    slot_time text,
+    current_count bigint,
+    available_spots integer
+) as $$
+declare
+    site uuid := coalesce(p_site_id, public.default_site_id());
+    capacity integer := coalesce(
+        max_per_slot,
+        (public.service_hours_for('showers', check_date, site)).slot_capacity,
+        2
+    );
+begin
+    return query
+    with all_slots as (
+        select labels.time_slot
+        from public.service_slot_labels('showers', check_date, site) as labels(time_slot)
+        where (public.service_closure_for('showers', check_date)).id is null
+    ),
+    booked_slots as (
+        select 
+            scheduled_time,
+            count(*) as booked_count
+        from public.shower_reservations
+        where scheduled_for = check_date
+          and site_id = site
+          and status in ('booked')
+          and scheduled_time is not null
+        group by scheduled_time
+    )
+    select 
+        all_slots.time_slot as slot_time,
+        coalesce(booked_slots.booked_count, 0) as current_count,
+        (capacity - coalesce(booked_slots.booked_count, 0))::integer as available_spots
+    from all_slots
+    left join booked_slots on all_slots.time_slot = booked_slots.scheduled_time
+    order by all_slots.time_slot;
+end;
+$$ language plpgsql;
+
+-- HELPER FUNCTION: Get available laundry slots
+-- Returns a site's scheduled onsite slots for a date with remaining capacity (none on closed days)
+drop function if exists public.get_available_laundry_slots(date, integer);
+create or replace function public.get_available_laundry_slots(
+    check_date date,
+    max_per_slot integer default null, -- defaults to the scheduled slot_capacity
+    p_site_id uuid default null        -- defaults to the default site
+)
+returns table (
+    slot_label text,
+    current_count bigint,
+    available_spots integer
+) as $$
+declare
+    site uuid := coalesce(p_site_id, public.default_site_id());
+    capacity integer := coalesce(
+        max_per_slot,
+        (public.service_hours_for('laundry', check_date, site)).slot_capacity,
+        2
+    );
+begin
+    return query
+    with all_slots as (
+        select labels.time_slot
+        from public.service_slot_labels('laundry', check_date, site) as labels(time_slot)
+        where (public.service_closure_for('laundry', check_date)).id is null
+    ),
+    booked_slots as (
+        select 
+            lb.slot_label as slot,
+            count(*) as booked_count
+        from public.laundry_bookings lb
+        where lb.scheduled_for = check_date
+          and lb.site_id = site
+          and lb.laundry_type = 'onsite'
+          and lb.status in ('waiting', 'washer', 'dryer')
+          and lb.slot_label is not null
+        group by lb.slot_label
+    )
+    select 
+        all_slots.time_slot as slot_label,
+        coalesce(booked_slots.booked_count, 0) as current_count,
+        (capacity - coalesce(booked_slots.booked_count, 0))::integer as available_spots
+    from all_slots
+    left join booked_slots on all_slots.time_slot = booked_slots.slot
+    order by all_slots.time_slot;
+end;
+$$ language plpgsql;
+
+-- ============================================
+-- 9b. DAILY NOTES (for operational context in analytics)
+-- Stores per-day-per-service notes explaining data anomalies
+-- ============================================
+
+create table if not exists public.daily_notes (
+  id uuid primary key default gen_random_uuid(),
+  note_date date not null,
+  service_type text not null check (service_type in ('meals', 'showers', 'laundry', 'general')),
+  note_text text not null,
+  created_by text,
+  updated_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  
+  constraint daily_notes_unique_per_day unique (note_date, service_type)
+);
+
+comment on table public.daily_notes is 'Stores daily operational notes for meals, showers, laundry, and general services to explain data anomalies in reports.';
+
+drop trigger if exists trg_daily_notes_updated_at on public.daily_notes;
+create trigger trg_daily_notes_updated_at
+before update on public.daily_notes
+for each row execute function public.touch_updated_at();
+
+-- Performance indexes
+create index if not exists daily_notes_date_idx on public.daily_notes (note_date desc);
+create index if not exists daily_notes_service_date_idx on public.daily_notes (service_type, note_date desc);
+
+-- RLS policies
+alter table public.daily_notes enable row level security;
+
+drop policy if exists "Authenticated users can view daily notes" on public.daily_notes;
+create policy "Authenticated users can view daily notes"
+  on public.daily_notes for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Authenticated users can manage daily notes" on public.daily_notes;
+create policy "Authenticated users can manage daily notes"
+  on public.daily_notes for all
+  to authenticated, anon
+  using (true)
+  with check (true);
+
+-- ============================================
+-- 10. ENABLE REALTIME FOR TABLES
+-- Required for Supabase Realtime subscriptions (cross-device sync)
+-- Note: If tables are already in the publication, these will error safely
+-- ============================================
+
+-- Enable realtime for critical tables
+do $$
+begin
+  -- Add tables to realtime publication if not already added
+  if not exists (
+    select 1 from pg_publication_tables 
+    where pubname = 'supabase_realtime' and tablename = 'shower_reservations'
+  ) then
+    alter publication supabase_realtime add table public.shower_reservations;
+  end if;
+  
+  if not exists (
+    select 1 from pg_publication_tables 
+    where pubname = 'supabase_realtime' and tablename = 'laundry_bookings'
   ) then
     alter publication supabase_realtime add table public.laundry_bookings;
   end if;
@@ -1545,4 +3593,11 @@ begin
   ) then
     alter publication supabase_realtime add table public.donations;
   end if;
+
+  if not exists (
+    select 1 from pg_publication_tables 
+    where pubname = 'supabase_realtime' and tablename = 'waitlist_promotions'
+  ) then
+    alter publication supabase_realtime add table public.waitlist_promotions;
+  end if;
 end $$;
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+// Rules enforced in the database. There is no Postgres in the test run, so these
+// check that database/schema.sql and the migration that ships each rule agree.
+const read = (path: string) => readFileSync(resolve(process.cwd(), path), 'utf8');
+
+const schema = read('database/schema.sql');
+
+// Last definition of a function, since later sections replace earlier ones
+const functionBody = (sql: string, name: string) => {
+    const start = sql.lastIndexOf(`create or replace function public.${name}(`);
+    expect(start, `${name} is defined`).toBeGreaterThanOrEqual(0);
+    return sql.slice(start, sql.indexOf('$$ language plpgsql', start));
+};
+
+const lastIndex = (sql: string, name: string) => {
+    const start = sql.lastIndexOf(`create unique index ${name}`);
+    expect(start, `${name} is created`).toBeGreaterThanOrEqual(0);
+    return sql.slice(start, sql.indexOf(';', start)).replace(/\s+/g, ' ');
+};
+
+describe('database schema', () => {
+    describe('sites', () => {
+        const migration = read('supabase/migrations/20261020040000_add_sites.sql');
+
+        it('lets every site use the same stall number on the same day', () => {
+            for (const sql of [schema, migration]) {
+                expect(lastIndex(sql, 'shower_stall_in_use')).toContain('(site_id, scheduled_for, stall_number)');
+            }
+        });
+
+        it('only promotes shower waitlist guests at the site where the slot was freed', () => {
+            for (const sql of [schema, migration]) {
+                expect(functionBody(sql, 'promote_shower_waitlist')).toMatch(/and site_id = old\.site_id/);
+            }
+        });
+    });
+
+    describe('laundry waitlist', () => {
+        const migration = read('supabase/migrations/20261020050000_add_laundry_waitlist_promotions.sql');
+
+        it('accepts the statuses the app writes for waitlisted, cancelled and no-show loads', () => {
+            const created = schema.slice(schema.indexOf('CREATE TYPE public.laundry_status_enum'));
+            for (const status of ['waitlisted', 'cancelled', 'no_show']) {
+                expect(created.slice(0, created.indexOf(');'))).toContain(`'${status}'`);
+                for (const sql of [schema, migration]) {
+                    expect(sql).toContain(`alter type public.laundry_status_enum add value if not exists '${status}'`);
+                }
+            }
+        });
+
+        it('promotes the next waitlisted laundry guest at the same site into the freed slot', () => {
+            for (const sql of [schema, migration]) {
+                const body = functionBody(sql, 'promote_laundry_waitlist');
+                expect(body).toMatch(/new\.status not in \('cancelled', 'no_show'\)/);
+                expect(body).toMatch(/and site_id = old\.site_id/);
+                expect(body).toMatch(/slot_label = old\.slot_label/);
+                expect(body).toContain("('laundry', candidate.id");
+                expect(sql).toMatch(/create trigger trg_laundry_waitlist_promotion\s+after update of status on public\.laundry_bookings/);
+            }
+        });
+    });
+
+    describe('laundry bag numbers', () => {
+        const migration = read('supabase/migrations/20261020060000_add_laundry_bag_number_sequence.sql');
+
+        it('allows each bag number once per service day', () => {
+            for (const sql of [schema, migration]) {
+                const index = sql.slice(sql.indexOf('create unique index if not exists laundry_bag_number_per_day'));
+                expect(index.slice(0, index.indexOf(';')).replace(/\s+/g, ' '))
+                    .toContain("(scheduled_for, bag_number) where bag_number is not null and bag_number <> ''");
+            }
+        });
+
+        it('numbers bags on the server one day at a time', () => {
+            for (const sql of [schema, migration]) {
+                const start = sql.indexOf('create or replace function public.assign_laundry_bag_number(');
+                expect(start).toBeGreaterThanOrEqual(0);
+                const body = sql.slice(start, sql.indexOf('$$;', sql.indexOf('as $$', start)));
+                expect(body).toContain('pg_advisory_xact_lock');
+                expect(body).toMatch(/max\(bag_number::integer\), 0\) \+ 1/);
+                expect(body).toMatch(/where scheduled_for = booking\.scheduled_for/);
+            }
+        });
+    });
+
+    describe('automatic meal rules', () => {
+        const migration = read('supabase/migrations/20261020080000_add_automatic_meal_rule_effective_from.sql');
+
+        it('does not backfill a rule created today', () => {
+            for (const sql of [schema, migration]) {
+                const start = sql.lastIndexOf('create or replace function public.record_automatic_meals(');
+                expect(start).toBeGreaterThanOrEqual(0);
+                expect(sql.slice(start, sql.indexOf('$$;', start))).toContain('and d.day >= r.effective_from');
+
+                const stamp = sql.slice(sql.indexOf('create or replace function public.set_automatic_meal_rule_effective_from('));
+                const body = stamp.slice(0, stamp.indexOf('$$;'));
+                expect(body).toMatch(/if tg_op = 'INSERT'/);
+                expect(body).toMatch(/new\.weekday is distinct from old\.weekday/);
+                expect(body).toMatch(/new\.quantity is distinct from old\.quantity/);
+                expect(body).toContain("new.effective_from := (now() at time zone 'America/Los_Angeles')::date");
+                expect(sql).toMatch(/create trigger trg_automatic_meal_rules_effective_from\s+before insert or update on public\.automatic_meal_rules/);
+            }
+        });
+    });
+
+    describe('households', () => {
+        const migration = read('supabase/migrations/20261020070000_enforce_household_meal_allowance.sql');
+
+        it('refuses guest meals past the combined household allowance', () => {
+            for (const sql of [schema, migration]) {
+                const start = sql.indexOf('create or replace function public.check_household_meal_allowance(');
+                expect(start).toBeGreaterThanOrEqual(0);
+                const body = sql.slice(start, sql.indexOf('$$;', sql.indexOf('as $$', start)));
+                expect(body).toMatch(/where hm\.household_id = member_household\s+and m\.served_on = new\.served_on\s+and m\.meal_type = 'guest'/);
+                expect(body).toMatch(/if used \+ new\.quantity > allowance then\s+raise exception/);
+                expect(sql).toMatch(/create trigger trg_meal_attendance_household_allowance\s+before insert or update of quantity, served_on, meal_type on public\.meal_attendance/);
+            }
+        });
+    });
+});
@@ -85,4 +85,11 @@ describe('proxy', () => {
         const res = await proxy(buildRequest('/services') as any);
         expect(res).toEqual({ type: 'next' });
     });
+
+    it('lets API routes through for signed-in users so handlers can authorize', async () => {
+        mocks.auth.mockResolvedValue({ user: { role: 'staff' } });
+        const res = await proxy(buildRequest('/api/admin/users') as any);
+        expect(mocks.canAccessRoute).not.toHaveBeenCalled();
+        expect(res).toEqual({ type: 'next' });
+    });
 });
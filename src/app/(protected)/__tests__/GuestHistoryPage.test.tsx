@@ -0,0 +1,40 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import GuestHistoryPage from '../guests/[id]/page';
+
+const mockEnsureLoaded = vi.fn();
+const guestsState = {
+    guests: [
+        { id: 'g1', guestId: 'HC-0042', name: 'Jane Doe', preferredName: 'JD', housingStatus: 'Unhoused', location: 'Mountain View' },
+    ],
+    ensureLoaded: mockEnsureLoaded,
+};
+
+vi.mock('next/navigation', () => ({
+    useParams: () => ({ id: 'g1' }),
+}));
+
+vi.mock('@/stores/useGuestsStore', () => ({
+    useGuestsStore: (selector: (state: typeof guestsState) => unknown) => selector(guestsState),
+}));
+
+vi.mock('@/components/guests/GuestTimeline', () => ({
+    GuestTimeline: ({ guestId }: { guestId: string }) => <div data-testid="timeline">{guestId}</div>,
+}));
+
+describe('GuestHistoryPage', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('shows the guest and their timeline', () => {
+        render(<GuestHistoryPage />);
+
+        expect(mockEnsureLoaded).toHaveBeenCalled();
+        expect(screen.getByText('JD')).toBeDefined();
+        expect(screen.getByText('HC-0042')).toBeDefined();
+        expect(screen.getByTestId('timeline').textContent).toBe('g1');
+        expect(screen.getByText('Back to check-in').closest('a')?.getAttribute('href')).toBe('/check-in');
+    });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import React from 'react';
 import ProtectedLayout from '../layout';
+import { getSupabaseAccessToken, setSupabaseAccessToken } from '@/lib/supabase/client';
 
 // Mock next/navigation
 const mockReplace = vi.fn();
@@ -263,4 +264,43 @@ describe('ProtectedLayout - Client-Side Auth', () => {
             expect(mockReplace).toHaveBeenCalledWith('/login');
         });
     });
+
+    describe('Supabase session token', () => {
+        it('forwards the session access token to the browser Supabase client', () => {
+            mockUseSession.mockReturnValue({
+                data: { user: { id: 'u1', role: 'staff', accessToken: 'user-jwt' } },
+                status: 'authenticated'
+            });
+
+            render(
+                <ProtectedLayout>
+                    <div data-testid="protected-content">Protected Content</div>
+                </ProtectedLayout>
+            );
+
+            expect(setSupabaseAccessToken).toHaveBeenCalledWith('user-jwt');
+        });
+
+        it('sets the token once per session before children render, not on every render', () => {
+            mockUseSession.mockReturnValue({
+                data: { user: { id: 'u1', role: 'staff', accessToken: 'user-jwt' } },
+                status: 'authenticated'
+            });
+            setSupabaseAccessToken(null);
+            vi.mocked(setSupabaseAccessToken).mockClear();
+            const tokensSeenByChild: (string | null)[] = [];
+            const Child = () => {
+                tokensSeenByChild.push(getSupabaseAccessToken());
+                return <div data-testid="protected-content">Protected Content</div>;
+            };
+
+            const { rerender } = render(<ProtectedLayout><Child /></ProtectedLayout>);
+            rerender(<ProtectedLayout><Child /></ProtectedLayout>);
+
+            expect(screen.getByTestId('protected-content')).toBeDefined();
+            expect(tokensSeenByChild.length).toBeGreaterThan(0);
+            expect(tokensSeenByChild.every((token) => token === 'user-jwt')).toBe(true);
+            expect(setSupabaseAccessToken).toHaveBeenCalledTimes(1);
+        });
+    });
 });
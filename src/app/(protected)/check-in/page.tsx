@@ -1,14 +1,19 @@
 'use client';
 
 import { useState, useMemo, useCallback, useEffect, useRef, useDeferredValue, useTransition } from 'react';
-import { Search, UserPlus, X, Users, Loader2 } from 'lucide-react';
+import { Search, UserPlus, X, Users, Loader2, ScanLine } from 'lucide-react';
 import { useGuestsStore, Guest } from '@/stores/useGuestsStore';
 import { useMealsStore } from '@/stores/useMealsStore';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { useRemindersStore } from '@/stores/useRemindersStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useDailyNotesStore } from '@/stores/useDailyNotesStore';
+import { useHouseholdsStore } from '@/stores/useHouseholdsStore';
+import { useActionHistoryStore } from '@/stores/useActionHistoryStore';
 import { flexibleNameSearch } from '@/lib/utils/flexibleNameSearch';
 import { findFuzzySuggestions, type FuzzySuggestion } from '@/lib/utils/fuzzyMatch';
+import { findGuestByScannedCode, normalizeScannedCode } from '@/lib/utils/guestScan';
+import { isGuestBannedFromMeals } from '@/lib/utils/guestBans';
 import { GuestCard } from '@/components/guests/GuestCard';
 import { GuestCreateModal } from '@/components/guests/GuestCreateModal';
 import { ServiceStatusOverview } from '@/components/checkin/ServiceStatusOverview';
@@ -16,6 +21,7 @@ import { KeyboardShortcutsBar } from '@/components/checkin/KeyboardShortcutsBar'
 import { MealServiceTimer } from '@/components/checkin/MealServiceTimer';
 import { TodayStats } from '@/components/checkin/TodayStats';
 import { DailyNotesSection } from '@/components/checkin/DailyNotesSection';
+import { GuestScanBar } from '@/components/checkin/GuestScanBar';
 import { useTodayStatusMaps } from '@/stores/selectors/todayStatusSelectors';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
@@ -46,6 +52,9 @@ export default function CheckInPage() {
     const [defaultLocation, setDefaultLocation] = useState('');
     const [scrollMargin, setScrollMargin] = useState(0);
     const [fuzzySuggestions, setFuzzySuggestions] = useState<FuzzySuggestion[]>([]);
+    const [scanMode, setScanMode] = useState(false);
+    const [autoAddMeal, setAutoAddMeal] = useState(false);
+    const [scannedGuestId, setScannedGuestId] = useState<string | null>(null);
     const [, startTransition] = useTransition();
     const searchInputRef = useRef<HTMLInputElement>(null);
     const guestCardRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
@@ -77,8 +86,13 @@ export default function CheckInPage() {
         }))
     );
     const ensureMealsLoaded = useMealsStore((s) => s.ensureLoaded);
+    const addMealRecord = useMealsStore((s) => s.addMealRecord);
+    const addAction = useActionHistoryStore((s) => s.addAction);
     const ensureServicesLoaded = useServicesStore((s) => s.ensureLoaded);
     const loadReminders = useRemindersStore((s) => s.loadFromSupabase);
+    const { loadSettings } = useSettingsStore();
+    // Households carry the combined meal allowance checked when a meal is added
+    const ensureHouseholdsLoaded = useHouseholdsStore((s) => s.ensureLoaded);
     const { ensureLoaded: ensureDailyNotesLoaded, subscribeToRealtime: subscribeDailyNotes } = useDailyNotesStore(
         useShallow((s) => ({ ensureLoaded: s.ensureLoaded, subscribeToRealtime: s.subscribeToRealtime }))
     );
@@ -95,9 +109,11 @@ export default function CheckInPage() {
             ensureMealsLoaded(),
             ensureServicesLoaded(),
             loadReminders(),
-            ensureDailyNotesLoaded()
+            ensureDailyNotesLoaded(),
+            loadSettings(),
+            ensureHouseholdsLoaded()
         ]);
-    }, [ensureGuestsLoaded, loadGuestWarningsFromSupabase, loadGuestProxiesFromSupabase, ensureMealsLoaded, ensureServicesLoaded, loadReminders, ensureDailyNotesLoaded]);
+    }, [ensureGuestsLoaded, loadGuestWarningsFromSupabase, loadGuestProxiesFromSupabase, ensureMealsLoaded, ensureServicesLoaded, loadReminders, ensureDailyNotesLoaded, loadSettings, ensureHouseholdsLoaded]);
 
     // Initial data load
     useEffect(() => {
@@ -126,7 +142,9 @@ export default function CheckInPage() {
     // Deduplicate results to prevent duplicate key React errors
     const filteredGuests = useMemo(() => {
         if (!deferredSearchQuery.trim()) {
-            return [];
+            // With nothing typed, show the guest whose card was scanned last
+            const scanned = scannedGuestId ? guests.find((g: Guest) => g.id === scannedGuestId) : null;
+            return scanned ? [scanned] : [];
         }
         const results = flexibleNameSearch(deferredSearchQuery, guests);
         // Deduplicate by guest ID to prevent React key warnings
@@ -138,7 +156,7 @@ export default function CheckInPage() {
             seen.add(guest.id);
             return true;
         });
-    }, [guests, deferredSearchQuery]);
+    }, [guests, deferredSearchQuery, scannedGuestId]);
 
     // Apply sorting
     const sortedGuests = useMemo(() => {
@@ -248,11 +266,50 @@ export default function CheckInPage() {
 
     const handleClearSearch = useCallback(() => {
         setSearchQuery('');
+        setScannedGuestId(null);
         setSelectedIndex(-1);
         searchInputRef.current?.focus();
         window.scrollTo({ top: 0, behavior: 'smooth' });
     }, []);
 
+    // Scanned card: show and select that guest, then log their meal if auto-add is on
+    const handleScan = useCallback(async (code: string) => {
+        const guest = findGuestByScannedCode(guests, code);
+        if (!guest) {
+            toast.error(`No guest found for card ${normalizeScannedCode(code)}`);
+            return;
+        }
+        setSearchQuery('');
+        setScannedGuestId(guest.id);
+        setSelectedIndex(0);
+        if (!autoAddMeal) return;
+
+        const name = guest.preferredName || guest.firstName;
+        if (isGuestBannedFromMeals(guest)) {
+            toast.error(`${name} is banned from meals`);
+            return;
+        }
+        if (mealStatus.get(guest.id)?.hasMeal) {
+            toast.error(`${name} already has a meal today`);
+            return;
+        }
+        try {
+            const record = await addMealRecord(guest.id, 1);
+            addAction('MEAL_ADDED', { recordId: record.id, guestId: guest.id });
+            toast.success(`Meal logged for ${name}`);
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to log meal');
+        }
+    }, [guests, autoAddMeal, mealStatus, addMealRecord, addAction]);
+
+    // Bring the scanned guest's card into view; keyboard focus stays in the scan field
+    useEffect(() => {
+        if (!scannedGuestId) return;
+        requestAnimationFrame(() => {
+            guestCardRefs.current[scannedGuestId]?.scrollIntoView?.({ block: 'nearest', behavior: 'smooth' });
+        });
+    }, [scannedGuestId]);
+
     const handleSort = (key: SortKey) => {
         setSortConfig(prev => {
             if (prev.key === key) {
@@ -403,6 +460,7 @@ export default function CheckInPage() {
                                     markPerf('checkin:first-search-interaction');
                                 }
                                 setSearchQuery(e.target.value);
+                                setScannedGuestId(null);
                                 setSelectedIndex(-1);
                             }}
                             onKeyDown={(e) => {
@@ -423,6 +481,7 @@ export default function CheckInPage() {
                                     exit={prefersReducedMotion ? undefined : { scale: 0.5, opacity: 0 }}
                                     onClick={() => {
                                         setSearchQuery('');
+                                        setScannedGuestId(null);
                                         setSelectedIndex(-1);
                                     }}
                                     className="absolute right-5 p-1.5 bg-gray-200 text-gray-500 hover:bg-gray-300 hover:text-gray-700 rounded-full transition-all"
@@ -434,6 +493,19 @@ export default function CheckInPage() {
                     </div>
                 </div>
 
+                {scanMode && (
+                    <GuestScanBar
+                        className="mt-4"
+                        onScan={handleScan}
+                        autoAddMeal={autoAddMeal}
+                        onAutoAddMealChange={setAutoAddMeal}
+                        onClose={() => {
+                            setScanMode(false);
+                            searchInputRef.current?.focus();
+                        }}
+                    />
+                )}
+
                 {/* Keyboard Shortcuts Bar */}
                 <KeyboardShortcutsBar className="mt-4 hidden sm:flex" />
 
@@ -445,6 +517,17 @@ export default function CheckInPage() {
                         <UserPlus size={18} />
                         New Guest
                     </button>
+                    <button
+                        onClick={() => setScanMode((prev) => !prev)}
+                        aria-pressed={scanMode}
+                        className={cn(
+                            'inline-flex items-center gap-2 px-5 py-2.5 rounded-xl transition-all text-sm font-bold active:scale-95',
+                            scanMode ? 'bg-emerald-600 text-white hover:bg-emerald-700' : 'bg-white border-2 border-gray-200 text-gray-700 hover:border-gray-300'
+                        )}
+                    >
+                        <ScanLine size={18} />
+                        Scan Cards
+                    </button>
                     <span className="hidden sm:inline-flex items-center gap-1 text-xs text-gray-400">
                         <kbd className="px-1.5 py-0.5 text-[10px] font-bold text-gray-400 bg-gray-100 rounded border border-gray-200">⌘⌥G</kbd>
                     </span>
@@ -511,10 +594,12 @@ export default function CheckInPage() {
                                 </div>
                                 <div>
                                     <span className="font-bold text-gray-900">{sortedGuests.length} guest{sortedGuests.length !== 1 ? 's' : ''} found</span>
-                                    {searchQuery && (
+                                    {searchQuery ? (
                                         <span className="text-gray-400 ml-2 text-sm">
                                             Searching for &quot;{searchQuery}&quot;
                                         </span>
+                                    ) : scannedGuestId && (
+                                        <span className="text-gray-400 ml-2 text-sm">From scanned card</span>
                                     )}
                                 </div>
                             </div>
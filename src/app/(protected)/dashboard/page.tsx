@@ -8,15 +8,22 @@ import {
     Activity,
     Utensils,
     ClipboardList,
-    FileText
+    FileText,
+    UserCog,
+    History,
+    Settings,
+    Users
 } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { useSession } from 'next-auth/react';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useMealsStore } from '@/stores/useMealsStore';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useSitesStore } from '@/stores/useSitesStore';
 import { cn } from '@/lib/utils/cn';
+import { hasPermission, type Permission } from '@/lib/auth/permissions';
 import { useCallback, useRef } from 'react';
 
 const TabSkeleton = () => <div className="h-80 w-full animate-pulse rounded-2xl bg-gray-100" />;
@@ -25,13 +32,21 @@ const DataExportSection = dynamic(() => import('@/components/admin/DataExportSec
 const MealReport = dynamic(() => import('@/components/admin/reports/MealReport').then((m) => m.MealReport), { loading: TabSkeleton });
 const MonthlySummaryReport = dynamic(() => import('@/components/admin/reports/MonthlySummaryReport'), { loading: TabSkeleton });
 const MonthlyReportGenerator = dynamic(() => import('@/components/admin/reports/MonthlyReportGenerator'), { loading: TabSkeleton });
+const ServiceSettingsSection = dynamic(() => import('@/components/admin/ServiceSettingsSection').then((m) => m.ServiceSettingsSection), { loading: TabSkeleton });
+const AuditLogSection = dynamic(() => import('@/components/admin/AuditLogSection').then((m) => m.AuditLogSection), { loading: TabSkeleton });
+const DuplicateReviewSection = dynamic(() => import('@/components/admin/DuplicateReviewSection').then((m) => m.DuplicateReviewSection), { loading: TabSkeleton });
+const UserManagementSection = dynamic(() => import('@/components/admin/UserManagementSection').then((m) => m.UserManagementSection), { loading: TabSkeleton });
 
-const DASHBOARD_TABS = [
+const DASHBOARD_TABS: { id: string; label: string; icon: typeof Activity; color: string; permission?: Permission }[] = [
     { id: 'analytics', label: 'Analytics', icon: Activity, color: 'text-blue-600' },
     { id: 'monthly-report', label: 'Monthly Report', icon: FileText, color: 'text-purple-600' },
     { id: 'meal-report', label: 'Meal Report', icon: Utensils, color: 'text-orange-600' },
     { id: 'monthly-summary', label: 'Summary', icon: ClipboardList, color: 'text-emerald-600' },
     { id: 'export', label: 'Data Export', icon: Download, color: 'text-gray-600' },
+    { id: 'settings', label: 'Settings', icon: Settings, color: 'text-gray-600', permission: 'settings.manage' },
+    { id: 'duplicates', label: 'Duplicates', icon: Users, color: 'text-amber-600', permission: 'guests.delete' },
+    { id: 'audit', label: 'Audit Log', icon: History, color: 'text-slate-600', permission: 'audit.view' },
+    { id: 'users', label: 'Users', icon: UserCog, color: 'text-rose-600', permission: 'users.manage' },
 ];
 
 const REPORT_TAB_IDS = new Set(['monthly-report', 'meal-report', 'monthly-summary', 'export']);
@@ -39,6 +54,16 @@ const REPORT_TAB_IDS = new Set(['monthly-report', 'meal-report', 'monthly-summar
 const REPORT_BASELINE_YEAR = 2025;
 
 export default function DashboardPage() {
+    const { data: session } = useSession();
+    const role = session?.user?.role;
+    const canManageUsers = hasPermission(role, 'users.manage');
+    const canViewAudit = hasPermission(role, 'audit.view');
+    const canManageSettings = hasPermission(role, 'settings.manage');
+    const canMergeGuests = hasPermission(role, 'guests.delete');
+    const visibleTabs = useMemo(
+        () => DASHBOARD_TABS.filter((tab) => !tab.permission || hasPermission(role, tab.permission)),
+        [role]
+    );
     const [activeTab, setActiveTab] = useState('analytics');
     const currentYear = new Date().getFullYear();
     const [preloadYear, setPreloadYear] = useState(currentYear);
@@ -56,6 +81,7 @@ export default function DashboardPage() {
     const ensureMealsLoaded = useMealsStore((s) => s.ensureLoaded);
     const ensureServicesLoaded = useServicesStore((s) => s.ensureLoaded);
     const ensureGuestsLoaded = useGuestsStore((s) => s.ensureLoaded);
+    const { sites, reportSiteId, setReportSite, ensureLoaded: ensureSitesLoaded } = useSitesStore();
     const preloadYearOptions = useMemo(() => {
         const years = new Set<number>([currentYear, currentYear - 1, REPORT_BASELINE_YEAR]);
         return Array.from(years).filter((year) => year >= REPORT_BASELINE_YEAR).sort((a, b) => b - a);
@@ -104,7 +130,8 @@ export default function DashboardPage() {
         ensureMealsLoaded();
         ensureServicesLoaded();
         ensureGuestsLoaded();
-    }, [loadSettings, ensureMealsLoaded, ensureServicesLoaded, ensureGuestsLoaded]);
+        ensureSitesLoaded();
+    }, [loadSettings, ensureMealsLoaded, ensureServicesLoaded, ensureGuestsLoaded, ensureSitesLoaded]);
 
     useEffect(() => {
         // Warm selected year's report window in the background.
@@ -198,6 +225,10 @@ export default function DashboardPage() {
             case 'meal-report': return <MealReport />;
             case 'monthly-summary': return <MonthlySummaryReport />;
             case 'export': return <DataExportSection />;
+            case 'settings': return canManageSettings ? <ServiceSettingsSection /> : <AnalyticsSection />;
+            case 'duplicates': return canMergeGuests ? <DuplicateReviewSection /> : <AnalyticsSection />;
+            case 'audit': return canViewAudit ? <AuditLogSection /> : <AnalyticsSection />;
+            case 'users': return canManageUsers ? <UserManagementSection /> : <AnalyticsSection />;
             default: return <AnalyticsSection />;
         }
     };
@@ -236,8 +267,26 @@ export default function DashboardPage() {
                             ))}
                         </select>
                     </div>
+                    {sites.length > 1 && (
+                        <div className="flex items-center gap-2 rounded-xl border border-gray-200 bg-white px-3 py-2">
+                            <label htmlFor="report-site" className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+                                Site
+                            </label>
+                            <select
+                                id="report-site"
+                                value={reportSiteId ?? ''}
+                                onChange={(e) => setReportSite(e.target.value || null)}
+                                className="rounded-md border border-gray-200 bg-white px-2 py-1 text-sm font-semibold text-gray-700 outline-none focus:border-emerald-500"
+                            >
+                                <option value="">All sites</option>
+                                {sites.map((site) => (
+                                    <option key={site.id} value={site.id}>{site.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                     <div className="flex p-1.5 bg-gray-100 rounded-2xl gap-1">
-                    {DASHBOARD_TABS.map((tab) => {
+                    {visibleTabs.map((tab) => {
                         const Icon = tab.icon;
                         const isActive = activeTab === tab.id;
                         return (
@@ -277,9 +326,27 @@ export default function DashboardPage() {
                         <option key={year} value={year}>{year}</option>
                     ))}
                 </select>
+                {sites.length > 1 && (
+                    <>
+                        <label htmlFor="report-site-mobile" className="ml-2 text-xs font-bold text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                            Site
+                        </label>
+                        <select
+                            id="report-site-mobile"
+                            value={reportSiteId ?? ''}
+                            onChange={(e) => setReportSite(e.target.value || null)}
+                            className="rounded-md border border-gray-200 bg-white px-2 py-1 text-sm font-semibold text-gray-700 outline-none focus:border-emerald-500"
+                        >
+                            <option value="">All sites</option>
+                            {sites.map((site) => (
+                                <option key={site.id} value={site.id}>{site.name}</option>
+                            ))}
+                        </select>
+                    </>
+                )}
             </div>
             <div className="lg:hidden flex overflow-x-auto gap-2 pb-2 scrollbar-hide -mx-4 px-4">
-                {DASHBOARD_TABS.map((tab) => {
+                {visibleTabs.map((tab) => {
                     const Icon = tab.icon;
                     const isActive = activeTab === tab.id;
                     return (
@@ -0,0 +1,50 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { ArrowLeft, History, Home, MapPin } from 'lucide-react';
+import { useGuestsStore } from '@/stores/useGuestsStore';
+import { GuestTimeline } from '@/components/guests/GuestTimeline';
+
+export default function GuestHistoryPage() {
+    const { id } = useParams<{ id: string }>();
+    const guest = useGuestsStore((s) => s.guests.find((g) => g.id === id));
+    const ensureGuestsLoaded = useGuestsStore((s) => s.ensureLoaded);
+
+    useEffect(() => {
+        ensureGuestsLoaded();
+    }, [ensureGuestsLoaded]);
+
+    const displayName = guest ? guest.preferredName || guest.name : 'Guest';
+
+    return (
+        <div className="space-y-4">
+            <Link
+                href="/check-in"
+                prefetch={false}
+                className="inline-flex items-center gap-1 text-sm font-bold text-emerald-700 hover:text-emerald-800"
+            >
+                <ArrowLeft size={16} /> Back to check-in
+            </Link>
+
+            <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-emerald-100 text-emerald-700">
+                    <History size={20} />
+                </div>
+                <div>
+                    <h2 className="text-xl font-black text-gray-900">{displayName}</h2>
+                    {guest && (
+                        <p className="text-sm text-gray-500 font-medium flex flex-wrap items-center gap-x-3">
+                            <span>{guest.guestId}</span>
+                            {guest.housingStatus && <span className="inline-flex items-center gap-1"><Home size={12} />{guest.housingStatus}</span>}
+                            {guest.location && <span className="inline-flex items-center gap-1"><MapPin size={12} />{guest.location}</span>}
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            <GuestTimeline guestId={id} />
+        </div>
+    );
+}
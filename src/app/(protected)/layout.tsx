@@ -2,8 +2,13 @@
 
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
-import { useEffect } from 'react';
+import { useEffect, useSyncExternalStore } from 'react';
 import MainLayout from '@/components/layouts/MainLayout';
+import {
+    getSupabaseAccessToken,
+    setSupabaseAccessToken,
+    subscribeToSupabaseAccessToken,
+} from '@/lib/supabase/client';
 
 export default function ProtectedLayout({
     children,
@@ -12,6 +17,16 @@ export default function ProtectedLayout({
 }) {
     const { data: session, status } = useSession();
     const router = useRouter();
+    const accessToken = session?.user?.accessToken;
+    const appliedToken = useSyncExternalStore(subscribeToSupabaseAccessToken, getSupabaseAccessToken, () => null);
+
+    // Authenticate browser Supabase requests as this user so RLS can enforce role
+    // permissions on writes. Children's effects run before this one, so they only
+    // mount once a token is in place; later refreshes swap it underneath them.
+    useEffect(() => {
+        setSupabaseAccessToken(accessToken);
+    }, [accessToken]);
+    const tokenReady = !accessToken || appliedToken !== null;
 
     useEffect(() => {
         // Only redirect if we're sure there's no session
@@ -21,7 +36,7 @@ export default function ProtectedLayout({
     }, [status, router]);
 
     // Show loading state while checking auth
-    if (status === 'loading') {
+    if (status === 'loading' || (session && !tokenReady)) {
         return (
             <div className="min-h-screen bg-emerald-50 flex items-center justify-center">
                 <div className="flex flex-col items-center gap-4">
@@ -10,7 +10,8 @@ import {
     Bike,
     History,
     Utensils,
-    Heart
+    Heart,
+    Boxes
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
@@ -31,6 +32,7 @@ const TABS = [
     { id: 'laundry', label: 'Laundry', icon: WashingMachine, color: 'text-purple-600', bg: 'bg-purple-50' },
     { id: 'bicycles', label: 'Bicycles', icon: Bike, color: 'text-amber-600', bg: 'bg-amber-50' },
     { id: 'donations', label: 'Donations', icon: Heart, color: 'text-rose-600', bg: 'bg-rose-50' },
+    { id: 'inventory', label: 'Inventory', icon: Boxes, color: 'text-teal-600', bg: 'bg-teal-50' },
 ];
 
 import { useSearchParams, useRouter } from 'next/navigation';
@@ -43,6 +45,7 @@ const BicycleSection = dynamic(() => import('@/components/services/BicycleSectio
 const TimelineSection = dynamic(() => import('@/components/services/TimelineSection').then((m) => m.TimelineSection), { loading: TabSkeleton });
 const MealsSection = dynamic(() => import('@/components/services/MealsSection').then((m) => m.MealsSection), { loading: TabSkeleton });
 const DonationsSection = dynamic(() => import('@/components/services/DonationsSection').then((m) => m.DonationsSection), { loading: TabSkeleton });
+const InventorySection = dynamic(() => import('@/components/services/InventorySection').then((m) => m.InventorySection), { loading: TabSkeleton });
 
 export default function ServicesPage() {
     const searchParams = useSearchParams();
@@ -203,6 +206,7 @@ export default function ServicesPage() {
             case 'timeline': return <TimelineSection />;
             case 'meals': return <MealsSection />;
             case 'donations': return <DonationsSection />;
+            case 'inventory': return <InventorySection />;
             default: return <OverviewSection metrics={metrics} setActiveTab={setActiveTab} />;
         }
     };
@@ -0,0 +1,40 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { useServicesStore } from '@/stores/useServicesStore';
+import { useGuestsStore } from '@/stores/useGuestsStore';
+import { ShowerStallBoard } from '@/components/services/ShowerStallBoard';
+import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
+
+// Full-screen stall board for a wall-mounted tablet; realtime sync keeps it current
+export default function ShowerBoardPage() {
+    const showerRecords = useServicesStore((s) => s.showerRecords);
+    const ensureServicesLoaded = useServicesStore((s) => s.ensureLoaded);
+    const ensureGuestsLoaded = useGuestsStore((s) => s.ensureLoaded);
+
+    useEffect(() => {
+        ensureServicesLoaded();
+        ensureGuestsLoaded();
+    }, [ensureServicesLoaded, ensureGuestsLoaded]);
+
+    const today = todayPacificDateString();
+    const todaysShowers = useMemo(
+        () => showerRecords.filter((r) => (r.dateKey || pacificDateStringFrom(r.date)) === today),
+        [showerRecords, today]
+    );
+
+    return (
+        <div className="space-y-4">
+            <Link
+                href="/services?tab=showers"
+                prefetch={false}
+                className="inline-flex items-center gap-1 text-sm font-bold text-sky-700 hover:text-sky-800"
+            >
+                <ArrowLeft size={16} /> Back to showers
+            </Link>
+            <ShowerStallBoard showers={todaysShowers} kiosk />
+        </div>
+    );
+}
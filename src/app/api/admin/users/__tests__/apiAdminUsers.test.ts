@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+    auth: vi.fn(),
+    listManagedUsers: vi.fn(),
+    updateProfileRole: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/config', () => ({
+    auth: mocks.auth,
+}));
+
+vi.mock('@/lib/auth/profiles', () => ({
+    listManagedUsers: mocks.listManagedUsers,
+    updateProfileRole: mocks.updateProfileRole,
+}));
+
+vi.mock('@/lib/supabase/admin', () => ({
+    createAdminClient: vi.fn(() => ({ type: 'admin-client' })),
+}));
+
+import { GET, PATCH } from '../route';
+
+const patchRequest = (body: unknown) =>
+    new Request('https://example.org/api/admin/users', {
+        method: 'PATCH',
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+describe('/api/admin/users', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('rejects unauthenticated requests', async () => {
+        mocks.auth.mockResolvedValue(null);
+        const res = await GET();
+        expect(res.status).toBe(401);
+    });
+
+    it('rejects non-admin roles', async () => {
+        mocks.auth.mockResolvedValue({ user: { id: 'u', role: 'staff' } });
+        const res = await GET();
+        expect(res.status).toBe(403);
+        expect(mocks.listManagedUsers).not.toHaveBeenCalled();
+    });
+
+    it('lists users for admins', async () => {
+        mocks.auth.mockResolvedValue({ user: { id: 'u', role: 'admin' } });
+        mocks.listManagedUsers.mockResolvedValue([{ id: 'a', role: 'staff' }]);
+        const res = await GET();
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ users: [{ id: 'a', role: 'staff' }] });
+    });
+
+    it('returns 500 when listing fails', async () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        mocks.auth.mockResolvedValue({ user: { id: 'u', role: 'admin' } });
+        mocks.listManagedUsers.mockRejectedValue(new Error('boom'));
+        const res = await GET();
+        expect(res.status).toBe(500);
+        errorSpy.mockRestore();
+    });
+
+    it('updates a role for admins', async () => {
+        mocks.auth.mockResolvedValue({ user: { id: 'u', role: 'admin' } });
+        mocks.updateProfileRole.mockResolvedValue(undefined);
+        const res = await PATCH(patchRequest({ id: 'target', role: 'board', email: 't@example.com' }));
+        expect(res.status).toBe(200);
+        expect(mocks.updateProfileRole).toHaveBeenCalledWith({ type: 'admin-client' }, 'target', 'board', 't@example.com');
+    });
+
+    it('validates the role value', async () => {
+        mocks.auth.mockResolvedValue({ user: { id: 'u', role: 'admin' } });
+        const res = await PATCH(patchRequest({ id: 'target', role: 'owner' }));
+        expect(res.status).toBe(400);
+        expect(mocks.updateProfileRole).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed JSON', async () => {
+        mocks.auth.mockResolvedValue({ user: { id: 'u', role: 'admin' } });
+        const res = await PATCH(patchRequest('{not json'));
+        expect(res.status).toBe(400);
+    });
+
+    it('does not allow non-admins to change roles', async () => {
+        mocks.auth.mockResolvedValue({ user: { id: 'u', role: 'checkin' } });
+        const res = await PATCH(patchRequest({ id: 'u', role: 'admin' }));
+        expect(res.status).toBe(403);
+        expect(mocks.updateProfileRole).not.toHaveBeenCalled();
+    });
+});
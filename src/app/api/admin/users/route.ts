@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth/config';
+import { isUserRole } from '@/lib/auth/types';
+import { hasPermission } from '@/lib/auth/permissions';
+import { listManagedUsers, updateProfileRole } from '@/lib/auth/profiles';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+export const dynamic = 'force-dynamic';
+
+async function requireUserManager() {
+    const session = await auth();
+    if (!session?.user) {
+        return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+    if (!hasPermission(session.user.role, 'users.manage')) {
+        return NextResponse.json({ error: 'Not allowed to manage users' }, { status: 403 });
+    }
+    return null;
+}
+
+export async function GET() {
+    const denied = await requireUserManager();
+    if (denied) return denied;
+
+    try {
+        const users = await listManagedUsers(createAdminClient());
+        return NextResponse.json({ users });
+    } catch (error) {
+        console.error('Failed to list users:', error);
+        return NextResponse.json({ error: 'Failed to load users' }, { status: 500 });
+    }
+}
+
+export async function PATCH(request: Request) {
+    const denied = await requireUserManager();
+    if (denied) return denied;
+
+    let body: { id?: unknown; role?: unknown; email?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    if (typeof body.id !== 'string' || !body.id || !isUserRole(body.role)) {
+        return NextResponse.json({ error: 'A user id and valid role are required' }, { status: 400 });
+    }
+
+    try {
+        await updateProfileRole(
+            createAdminClient(),
+            body.id,
+            body.role,
+            typeof body.email === 'string' ? body.email : undefined
+        );
+        return NextResponse.json({ id: body.id, role: body.role });
+    } catch (error) {
+        console.error('Failed to update user role:', error);
+        return NextResponse.json({ error: 'Failed to update role' }, { status: 500 });
+    }
+}
@@ -722,6 +722,7 @@ export function LaundrySectionStory({
       laundryRecords: laundryRecords as any,
       updateLaundryStatus: (async () => true) as any,
       updateLaundryBagNumber: (async () => true) as any,
+      assignLaundryBagNumber: (async () => '1') as any,
       cancelMultipleLaundry: (async () => true) as any,
       loadFromSupabase: (async () => undefined) as any,
       addLaundryRecord: (async (
@@ -32,16 +32,19 @@ import {
     Check,
     MapPin,
     Home,
-    UserCheck
+    UserCheck,
+    Timer
 } from 'lucide-react';
 import { useMealsStore } from '@/stores/useMealsStore';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { useGuestsStore } from '@/stores/useGuestsStore';
 import { useDailyNotesStore, DailyNote } from '@/stores/useDailyNotesStore';
 import { useModalStore } from '@/stores/useModalStore';
+import { useReportSiteRecords } from '@/hooks/useSiteRecords';
 import { cn } from '@/lib/utils/cn';
 import { useShallow } from 'zustand/react/shallow';
 import { pacificDateStringFrom, todayPacificDateString } from '@/lib/utils/date';
+import { showerDurationStats } from '@/lib/utils/showerStalls';
 import {
     HOUSING_STATUSES,
     AGE_GROUPS,
@@ -105,7 +108,7 @@ export function AnalyticsSection() {
         shelterMealRecords,
         unitedEffortMealRecords,
         lunchBagRecords,
-    } = useMealsStore(
+    } = useReportSiteRecords(useMealsStore(
         useShallow((s) => ({
             mealRecords: s.mealRecords,
             rvMealRecords: s.rvMealRecords,
@@ -117,15 +120,15 @@ export function AnalyticsSection() {
             unitedEffortMealRecords: s.unitedEffortMealRecords,
             lunchBagRecords: s.lunchBagRecords,
         }))
-    );
+    ));
 
-    const { showerRecords, laundryRecords, bicycleRecords } = useServicesStore(
+    const { showerRecords, laundryRecords, bicycleRecords } = useReportSiteRecords(useServicesStore(
         useShallow((s) => ({
             showerRecords: s.showerRecords,
             laundryRecords: s.laundryRecords,
             bicycleRecords: s.bicycleRecords,
         }))
-    );
+    ));
 
     const guests = useGuestsStore((s) => s.guests);
 
@@ -318,6 +321,11 @@ export function AnalyticsSection() {
         return { meals, showers, laundry, bicycles, bicycleServices, haircuts, holidays, uniqueGuests: guestIds.size };
     }, [dateRange, mealRecords, rvMealRecords, extraMealRecords, dayWorkerMealRecords, shelterMealRecords, unitedEffortMealRecords, lunchBagRecords, showerRecords, laundryRecords, bicycleRecords, haircutRecords, holidayRecords, isInRange, dateKeyOf, countBicycleServices]);
 
+    // Time in the stall for completed showers that were started on the stall board
+    const showerDurations = useMemo(() => showerDurationStats(
+        showerRecords.filter((r) => r.status === 'done' && isInRange(dateKeyOf(r), dateRange.start, dateRange.end))
+    ), [showerRecords, dateRange, isInRange, dateKeyOf]);
+
     // Calculate comparison metrics (previous period)
     const prevPeriod = useMemo(() => {
         const { start, days } = dateRange;
@@ -642,6 +650,41 @@ export function AnalyticsSection() {
                 </p>
             </div>
 
+            {/* Shower Durations */}
+            {selectedPrograms.includes('showers') && showerDurations.count > 0 && (
+                <div className="bg-white rounded-2xl p-6 border border-sky-100">
+                    <div className="flex items-center gap-3 mb-4">
+                        <Timer size={20} className="text-sky-600" />
+                        <h3 className="text-sm font-black text-sky-800 uppercase tracking-wider">
+                            Shower Durations ({showerDurations.count} timed)
+                        </h3>
+                    </div>
+                    <div className="grid grid-cols-3 gap-4">
+                        <div>
+                            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">Average</p>
+                            <p className="text-2xl font-black text-sky-900">{showerDurations.averageMinutes} min</p>
+                        </div>
+                        <div>
+                            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">Median</p>
+                            <p className="text-2xl font-black text-sky-900">{showerDurations.medianMinutes} min</p>
+                        </div>
+                        <div>
+                            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">Longest</p>
+                            <p className="text-2xl font-black text-sky-900">{showerDurations.longestMinutes} min</p>
+                        </div>
+                    </div>
+                    {showerDurations.byStall.length > 1 && (
+                        <div className="flex flex-wrap gap-2 mt-4">
+                            {showerDurations.byStall.map((stall) => (
+                                <span key={stall.stallNumber} className="px-2.5 py-1 rounded-full bg-sky-50 text-xs font-bold text-sky-700">
+                                    Stall {stall.stallNumber}: {stall.averageMinutes} min avg · {stall.count}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Daily Notes Summary */}
             {notesInRange.length > 0 && (
                 <div className="bg-amber-50 rounded-2xl p-6 border border-amber-200">
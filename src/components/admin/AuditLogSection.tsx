@@ -0,0 +1,289 @@
+'use client';
+
+import { Fragment, useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, History, Loader2, RefreshCw, Search, X } from 'lucide-react';
+import { useAuditLogStore, AUDITED_TABLES, AUDIT_LOG_PAGE_SIZE, type AuditLogEntry, type AuditedTable } from '@/stores/useAuditLogStore';
+import { useGuestsStore, type Guest } from '@/stores/useGuestsStore';
+import { flexibleNameSearch } from '@/lib/utils/flexibleNameSearch';
+import { cn } from '@/lib/utils/cn';
+
+const TABLE_LABELS: Record<AuditedTable, string> = {
+    guests: 'Guest',
+    meal_attendance: 'Meal',
+    shower_reservations: 'Shower',
+    laundry_bookings: 'Laundry',
+    bicycle_repairs: 'Bicycle',
+    donations: 'Donation',
+    guest_warnings: 'Warning',
+    service_waivers: 'Waiver',
+};
+
+const ACTION_STYLES: Record<AuditLogEntry['action'], string> = {
+    insert: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    update: 'bg-blue-50 text-blue-700 border-blue-200',
+    delete: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const ACTION_LABELS: Record<AuditLogEntry['action'], string> = {
+    insert: 'Created',
+    update: 'Updated',
+    delete: 'Deleted',
+};
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+export interface AuditFieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+// Fields that differ between the before and after snapshots of an entry
+export const getChangedFields = (entry: Pick<AuditLogEntry, 'oldData' | 'newData'>): AuditFieldChange[] => {
+    const before = entry.oldData || {};
+    const after = entry.newData || {};
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+    return fields
+        .filter((field) => !IGNORED_FIELDS.has(field))
+        .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+        .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+const formatValue = (value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+export function AuditLogSection() {
+    const { entries, filters, loading, setFilters, fetchEntries } = useAuditLogStore();
+    const guests = useGuestsStore((s) => s.guests);
+    const [guestQuery, setGuestQuery] = useState('');
+    const deferredGuestQuery = useDeferredValue(guestQuery);
+    const [actorQuery, setActorQuery] = useState(filters.actorEmail || '');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [filters, fetchEntries]);
+
+    // Debounce the free-text user filter so typing doesn't query on every keystroke
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            const current = useAuditLogStore.getState().filters;
+            if ((current.actorEmail || '') !== actorQuery.trim()) {
+                setFilters({ ...current, actorEmail: actorQuery.trim() || undefined });
+            }
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [actorQuery, setFilters]);
+
+    const guestNames = useMemo(() => {
+        const map = new Map<string, string>();
+        guests.forEach((g) => map.set(g.id, g.preferredName || g.name));
+        return map;
+    }, [guests]);
+
+    const guestMatches = useMemo(() => {
+        if (!deferredGuestQuery.trim()) return [];
+        return flexibleNameSearch(deferredGuestQuery, guests).slice(0, 8);
+    }, [guests, deferredGuestQuery]);
+
+    const selectGuest = (guest: Guest) => {
+        setGuestQuery('');
+        setFilters({ ...filters, guestId: guest.id });
+    };
+
+    const guestNameFor = (entry: AuditLogEntry) => {
+        if (!entry.guestId) return null;
+        const snapshot = entry.newData || entry.oldData;
+        const snapshotName = entry.tableName === 'guests' ? (snapshot?.full_name as string | undefined) : undefined;
+        return guestNames.get(entry.guestId) || snapshotName || 'Deleted guest';
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-slate-100 text-slate-600">
+                        <History size={20} />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-black text-gray-900">Audit Log</h2>
+                        <p className="text-sm text-gray-500 font-medium">
+                            Every change to guests and service records, recorded by the database with who made it.
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={() => fetchEntries()}
+                    disabled={loading}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm font-bold text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                >
+                    <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                    Refresh
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
+                <div className="relative lg:col-span-2">
+                    {filters.guestId ? (
+                        <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl border border-blue-200 bg-blue-50 text-sm font-bold text-blue-700">
+                            <span className="truncate">Guest: {guestNames.get(filters.guestId) || 'Unknown guest'}</span>
+                            <button
+                                onClick={() => setFilters({ ...filters, guestId: undefined })}
+                                aria-label="Clear guest filter"
+                                className="p-1 rounded-lg hover:bg-blue-100"
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                    ) : (
+                        <>
+                            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                            <input
+                                type="text"
+                                value={guestQuery}
+                                onChange={(e) => setGuestQuery(e.target.value)}
+                                placeholder="Filter by guest..."
+                                aria-label="Filter by guest"
+                                className="w-full pl-9 pr-3 py-2 rounded-xl border border-gray-200 text-sm font-medium outline-none focus:border-blue-500"
+                            />
+                            {guestMatches.length > 0 && (
+                                <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-xl shadow-lg divide-y divide-gray-100 overflow-hidden">
+                                    {guestMatches.map((g) => (
+                                        <button
+                                            key={g.id}
+                                            onClick={() => selectGuest(g)}
+                                            className="w-full px-3 py-2 text-left text-sm hover:bg-blue-50"
+                                        >
+                                            <span className="font-bold text-gray-900">{g.preferredName || g.name}</span>
+                                            <span className="ml-2 text-xs text-gray-500">{g.guestId}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+                <input
+                    type="text"
+                    value={actorQuery}
+                    onChange={(e) => setActorQuery(e.target.value)}
+                    placeholder="Filter by user email..."
+                    aria-label="Filter by user"
+                    className="px-3 py-2 rounded-xl border border-gray-200 text-sm font-medium outline-none focus:border-blue-500"
+                />
+                <select
+                    value={filters.tableName || ''}
+                    onChange={(e) => setFilters({ ...filters, tableName: (e.target.value || undefined) as AuditedTable | undefined })}
+                    aria-label="Filter by record type"
+                    className="px-3 py-2 rounded-xl border border-gray-200 text-sm font-medium outline-none focus:border-blue-500"
+                >
+                    <option value="">All record types</option>
+                    {AUDITED_TABLES.map((table) => (
+                        <option key={table} value={table}>{TABLE_LABELS[table]}</option>
+                    ))}
+                </select>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="date"
+                        value={filters.since || ''}
+                        onChange={(e) => setFilters({ ...filters, since: e.target.value || undefined })}
+                        aria-label="From date"
+                        className="w-full px-2 py-2 rounded-xl border border-gray-200 text-xs font-medium outline-none focus:border-blue-500"
+                    />
+                    <input
+                        type="date"
+                        value={filters.until || ''}
+                        onChange={(e) => setFilters({ ...filters, until: e.target.value || undefined })}
+                        aria-label="To date"
+                        className="w-full px-2 py-2 rounded-xl border border-gray-200 text-xs font-medium outline-none focus:border-blue-500"
+                    />
+                </div>
+            </div>
+
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+                {loading ? (
+                    <div className="h-40 flex items-center justify-center text-gray-400">
+                        <Loader2 className="animate-spin" />
+                    </div>
+                ) : entries.length === 0 ? (
+                    <div className="p-8 text-center text-sm font-medium text-gray-500">No changes match these filters.</div>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 text-[10px] font-black uppercase tracking-widest text-gray-500">
+                            <tr>
+                                <th className="px-4 py-3 text-left">When</th>
+                                <th className="px-4 py-3 text-left">Change</th>
+                                <th className="px-4 py-3 text-left">Guest</th>
+                                <th className="px-4 py-3 text-left hidden md:table-cell">By</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {entries.map((entry) => {
+                                const isExpanded = expandedId === entry.id;
+                                const changes = isExpanded ? getChangedFields(entry) : [];
+                                return (
+                                    <Fragment key={entry.id}>
+                                        <tr
+                                            onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                                            className="cursor-pointer hover:bg-gray-50"
+                                        >
+                                            <td className="px-4 py-3 text-xs text-gray-500 whitespace-nowrap">
+                                                <span className="inline-flex items-center gap-1">
+                                                    {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                                                    {new Date(entry.occurredAt).toLocaleString()}
+                                                </span>
+                                            </td>
+                                            <td className="px-4 py-3">
+                                                <span className={cn('px-2 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-wider', ACTION_STYLES[entry.action])}>
+                                                    {ACTION_LABELS[entry.action]}
+                                                </span>
+                                                <span className="ml-2 font-bold text-gray-900">
+                                                    {TABLE_LABELS[entry.tableName as AuditedTable] || entry.tableName}
+                                                </span>
+                                            </td>
+                                            <td className="px-4 py-3 text-gray-700">{guestNameFor(entry) || '—'}</td>
+                                            <td className="px-4 py-3 text-xs text-gray-500 hidden md:table-cell">
+                                                {entry.actorEmail || (entry.actorRole === 'service_role' ? 'System' : 'Unknown')}
+                                            </td>
+                                        </tr>
+                                        {isExpanded && (
+                                            <tr className="bg-gray-50/50">
+                                                <td colSpan={4} className="px-4 py-3">
+                                                    {changes.length === 0 ? (
+                                                        <p className="text-xs text-gray-500">No field changes recorded.</p>
+                                                    ) : (
+                                                        <dl className="grid grid-cols-[max-content_1fr_1fr] gap-x-4 gap-y-1 text-xs">
+                                                            {changes.map((change) => (
+                                                                <Fragment key={change.field}>
+                                                                    <dt className="font-bold text-gray-600">{change.field}</dt>
+                                                                    <dd className="text-red-600 line-through break-all">{formatValue(change.before)}</dd>
+                                                                    <dd className="text-emerald-700 break-all">{formatValue(change.after)}</dd>
+                                                                </Fragment>
+                                                            ))}
+                                                        </dl>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {entries.length >= AUDIT_LOG_PAGE_SIZE && (
+                <p className="text-xs text-center text-gray-400 font-medium">
+                    Showing the latest {AUDIT_LOG_PAGE_SIZE} changes. Narrow the filters to see older history.
+                </p>
+            )}
+        </div>
+    );
+}
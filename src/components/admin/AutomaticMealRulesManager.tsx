@@ -0,0 +1,313 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Pencil, Play, Plus, Repeat } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAutomaticMealRulesStore } from '@/stores/useAutomaticMealRulesStore';
+import {
+    AUTOMATIC_MEAL_TYPES,
+    describeRule,
+    mealTypeLabel,
+    type AutomaticMealRule,
+    type AutomaticMealType,
+} from '@/lib/utils/automaticMealRules';
+import { WEEKDAY_NAMES } from '@/lib/utils/serviceSchedule';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+import { cn } from '@/lib/utils/cn';
+
+const EMPTY_RULE: AutomaticMealRule = {
+    weekday: 1,
+    mealType: 'rv',
+    quantity: 100,
+    note: '',
+    startsOn: null,
+    endsOn: null,
+    active: true,
+};
+
+// Return an error message for an invalid rule, or null when it can be saved
+export const validateRule = (rule: AutomaticMealRule): string | null => {
+    if (!Number.isInteger(rule.quantity) || rule.quantity < 1) return 'Quantity must be a whole number above zero';
+    if (rule.startsOn && rule.endsOn && rule.endsOn < rule.startsOn) return 'End date must be on or after the start date';
+    return null;
+};
+
+const formatDay = (date: string) =>
+    new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const describeRange = (rule: AutomaticMealRule) => {
+    if (rule.startsOn && rule.endsOn) return `${formatDay(rule.startsOn)} – ${formatDay(rule.endsOn)}`;
+    if (rule.startsOn) return `From ${formatDay(rule.startsOn)}`;
+    if (rule.endsOn) return `Until ${formatDay(rule.endsOn)}`;
+    return 'Every week';
+};
+
+/**
+ * AutomaticMealRulesManager - Weekly bulk meal entries (RV deliveries, lunch
+ * bags, ...). The database records them daily, so a day nobody opened the
+ * app is still counted; the history shows which rule created each entry.
+ */
+export function AutomaticMealRulesManager() {
+    const { rules, history, isLoading, ensureLoaded, saveRule, loadHistory, recordDueMeals } = useAutomaticMealRulesStore();
+    const canEdit = usePermission('settings.manage');
+    const [view, setView] = useState<'rules' | 'history'>('rules');
+    const [draft, setDraft] = useState<AutomaticMealRule | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [recording, setRecording] = useState(false);
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    useEffect(() => {
+        if (view === 'history') loadHistory();
+    }, [view, loadHistory]);
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const error = validateRule(draft);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+
+        setSaving(true);
+        const ok = await saveRule(draft);
+        setSaving(false);
+        if (ok) {
+            toast.success('Rule saved');
+            setDraft(null);
+        }
+    };
+
+    const handleToggle = async (rule: AutomaticMealRule) => {
+        const ok = await saveRule({ ...rule, active: !rule.active });
+        if (ok) toast.success(rule.active ? 'Rule paused' : 'Rule resumed');
+    };
+
+    const handleRecordNow = async () => {
+        setRecording(true);
+        const count = await recordDueMeals();
+        setRecording(false);
+        if (count === null) return;
+        toast.success(count === 0 ? 'Automatic meals are up to date' : `Recorded ${count} automatic ${count === 1 ? 'entry' : 'entries'}`);
+    };
+
+    const ruleFor = (ruleId: string | null) => rules.find((r) => r.id === ruleId);
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-purple-500 text-white">
+                        <Repeat size={20} />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-gray-900 leading-tight">Automatic Meals</h3>
+                        <p className="text-xs text-gray-500 font-medium">Bulk meal entries recorded every week</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="flex rounded-xl bg-gray-200/70 p-1">
+                        {(['rules', 'history'] as const).map((option) => (
+                            <button
+                                key={option}
+                                onClick={() => setView(option)}
+                                className={cn(
+                                    'px-3 py-1 rounded-lg text-xs font-bold capitalize',
+                                    view === option ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                                )}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                    {canEdit && (
+                        <button
+                            onClick={handleRecordNow}
+                            disabled={recording}
+                            className="inline-flex items-center gap-2 px-3 py-2 rounded-xl border border-purple-200 text-purple-700 text-xs font-bold hover:bg-purple-50 disabled:opacity-50"
+                        >
+                            {recording ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />} Record Now
+                        </button>
+                    )}
+                    {canEdit && !draft && view === 'rules' && (
+                        <button
+                            onClick={() => setDraft({ ...EMPTY_RULE })}
+                            className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-purple-600 text-white text-xs font-bold hover:bg-purple-700"
+                        >
+                            <Plus size={14} /> Add Rule
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {!canEdit && <PermissionNotice permission="settings.manage" className="m-4 mb-0" />}
+
+            {draft && view === 'rules' && (
+                <div className="p-4 border-b border-gray-100 bg-purple-50/40 grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <label className="text-xs font-bold text-gray-600">
+                        Day
+                        <select
+                            value={draft.weekday}
+                            onChange={(e) => setDraft({ ...draft, weekday: Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        >
+                            {WEEKDAY_NAMES.map((name, day) => (
+                                <option key={name} value={day}>{name}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Meal type
+                        <select
+                            value={draft.mealType}
+                            onChange={(e) => setDraft({ ...draft, mealType: e.target.value as AutomaticMealType })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        >
+                            {AUTOMATIC_MEAL_TYPES.map((opt) => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Quantity
+                        <input
+                            type="number"
+                            min={1}
+                            value={draft.quantity}
+                            onChange={(e) => setDraft({ ...draft, quantity: Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Note
+                        <input
+                            type="text"
+                            value={draft.note || ''}
+                            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                            placeholder="Automatic Entry (Mon)"
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Starts on
+                        <input
+                            type="date"
+                            value={draft.startsOn || ''}
+                            onChange={(e) => setDraft({ ...draft, startsOn: e.target.value || null })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Ends on
+                        <input
+                            type="date"
+                            min={draft.startsOn || undefined}
+                            value={draft.endsOn || ''}
+                            onChange={(e) => setDraft({ ...draft, endsOn: e.target.value || null })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        />
+                        <span className="mt-1 block text-[10px] text-gray-400">Leave empty to keep it running</span>
+                    </label>
+                    <div className="flex items-end justify-between gap-2 md:col-span-3">
+                        <label className="inline-flex items-center gap-2 text-xs font-bold text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={draft.active}
+                                onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+                            />
+                            Active
+                        </label>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setDraft(null)}
+                                disabled={saving}
+                                className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={saving}
+                                className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-purple-600 text-white text-xs font-bold hover:bg-purple-700 disabled:opacity-50"
+                            >
+                                {saving && <Loader2 size={14} className="animate-spin" />}
+                                Save Rule
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {view === 'rules' ? (
+                isLoading && rules.length === 0 ? (
+                    <div className="h-32 flex items-center justify-center text-gray-400">
+                        <Loader2 className="animate-spin" />
+                    </div>
+                ) : rules.length === 0 ? (
+                    <p className="p-6 text-center text-sm text-gray-400 font-medium">No automatic meal rules</p>
+                ) : (
+                    <ul className="divide-y divide-gray-100">
+                        {rules.map((rule) => (
+                            <li key={rule.id} className={cn('px-4 py-3 flex items-center gap-3', !rule.active && 'opacity-60')}>
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-bold text-sm text-gray-900">{describeRule(rule)}</p>
+                                    <p className="text-xs text-gray-500 font-medium truncate">
+                                        {describeRange(rule)}
+                                        {rule.note && ` · ${rule.note}`}
+                                    </p>
+                                </div>
+                                {!rule.active && (
+                                    <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400">Paused</span>
+                                )}
+                                {canEdit && (
+                                    <>
+                                        <button
+                                            onClick={() => handleToggle(rule)}
+                                            className="px-2 py-1 rounded-lg text-xs font-bold text-gray-500 hover:bg-gray-100"
+                                        >
+                                            {rule.active ? 'Pause' : 'Resume'}
+                                        </button>
+                                        <button
+                                            onClick={() => setDraft({ ...rule })}
+                                            aria-label={`Edit ${describeRule(rule)}`}
+                                            className="p-2 rounded-lg text-gray-400 hover:text-purple-600 hover:bg-purple-50"
+                                        >
+                                            <Pencil size={14} />
+                                        </button>
+                                    </>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )
+            ) : history.length === 0 ? (
+                <p className="p-6 text-center text-sm text-gray-400 font-medium">No automatic entries recorded yet</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-[10px] font-bold uppercase tracking-wider text-gray-400">
+                        <tr>
+                            <th className="px-4 py-2 text-left">Date</th>
+                            <th className="px-4 py-2 text-left">Entry</th>
+                            <th className="px-4 py-2 text-left">Rule</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {history.map((entry) => {
+                            const rule = ruleFor(entry.ruleId);
+                            return (
+                                <tr key={entry.id}>
+                                    <td className="px-4 py-2 font-medium text-gray-900">{formatDay(entry.servedOn)}</td>
+                                    <td className="px-4 py-2 text-gray-600">{entry.quantity} {mealTypeLabel(entry.mealType)}</td>
+                                    <td className="px-4 py-2 text-gray-500">{rule ? describeRule(rule) : 'Removed rule'}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Bike, Loader2, Pencil, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+    BICYCLE_REPAIR_CATEGORIES,
+    toRepairTypeKey,
+    useBicycleRepairTypesStore,
+    type BicycleRepairCategory,
+    type BicycleRepairType,
+} from '@/stores/useBicycleRepairTypesStore';
+import { formatLaborMinutes } from '@/lib/utils/bicycleRepairs';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+import { cn } from '@/lib/utils/cn';
+
+const EMPTY_TYPE: BicycleRepairType = {
+    key: '',
+    label: '',
+    category: 'repair',
+    defaultPriority: 0,
+    estimatedMinutes: null,
+    active: true,
+    sortOrder: 500,
+};
+
+const categoryLabel = (category: BicycleRepairCategory) =>
+    BICYCLE_REPAIR_CATEGORIES.find((c) => c.value === category)?.label || category;
+
+// Return an error message for an invalid draft, or null when it can be saved
+export const validateRepairType = (draft: BicycleRepairType, existing: BicycleRepairType[], isNew: boolean): string | null => {
+    if (!draft.label.trim()) return 'Label is required';
+    if (!draft.key) return 'Label must contain letters or numbers';
+    if (isNew && existing.some((t) => t.key === draft.key)) return 'A repair type with this name already exists';
+    const label = draft.label.trim().toLowerCase();
+    if (existing.some((t) => t.key !== draft.key && t.label.toLowerCase() === label)) {
+        return 'Another repair type already uses this label';
+    }
+    if (draft.estimatedMinutes !== null && !(Number(draft.estimatedMinutes) >= 0)) return 'Estimated minutes cannot be negative';
+    return null;
+};
+
+/**
+ * BicycleRepairTypesManager - The repair types offered when logging a bicycle
+ * repair. Types are retired rather than deleted so older repairs keep their label.
+ */
+export function BicycleRepairTypesManager() {
+    const { types, isLoading, ensureLoaded, saveType } = useBicycleRepairTypesStore();
+    const canEdit = usePermission('settings.manage');
+    const [draft, setDraft] = useState<BicycleRepairType | null>(null);
+    const [isNew, setIsNew] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    const startEdit = (repairType: BicycleRepairType) => {
+        setDraft({ ...repairType });
+        setIsNew(false);
+    };
+
+    const startNew = () => {
+        setDraft({ ...EMPTY_TYPE });
+        setIsNew(true);
+    };
+
+    const updateDraft = (changes: Partial<BicycleRepairType>) => {
+        setDraft((prev) => {
+            if (!prev) return prev;
+            const next = { ...prev, ...changes };
+            // New types take their key from the label; existing keys never change
+            if (isNew && changes.label !== undefined) next.key = toRepairTypeKey(changes.label);
+            return next;
+        });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const error = validateRepairType(draft, types, isNew);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+
+        setSaving(true);
+        const ok = await saveType({
+            ...draft,
+            label: draft.label.trim(),
+            defaultPriority: Number(draft.defaultPriority) || 0,
+            estimatedMinutes: draft.estimatedMinutes === null ? null : Math.round(Number(draft.estimatedMinutes)),
+            sortOrder: Number(draft.sortOrder) || 0,
+        });
+        setSaving(false);
+        if (ok) {
+            toast.success(`${draft.label.trim()} saved`);
+            setDraft(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-amber-500 text-white">
+                        <Bike size={20} />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-gray-900 leading-tight">Bicycle Repair Types</h3>
+                        <p className="text-xs text-gray-500 font-medium">Repairs offered when logging a bicycle, with time estimates and board priority</p>
+                    </div>
+                </div>
+                {canEdit && !draft && (
+                    <button
+                        onClick={startNew}
+                        className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-amber-600 text-white text-xs font-bold hover:bg-amber-700"
+                    >
+                        <Plus size={14} /> Add Type
+                    </button>
+                )}
+            </div>
+
+            {!canEdit && <PermissionNotice permission="settings.manage" className="m-4 mb-0" />}
+
+            {draft && (
+                <div className="p-4 border-b border-gray-100 bg-amber-50/40 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                    <label className="text-xs font-bold text-gray-600">
+                        Label
+                        <input
+                            type="text"
+                            value={draft.label}
+                            onChange={(e) => updateDraft({ label: e.target.value })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-amber-500"
+                            autoFocus
+                        />
+                        {isNew && draft.key && <span className="mt-1 block text-[10px] text-gray-400">Key: {draft.key}</span>}
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Category
+                        <select
+                            value={draft.category}
+                            onChange={(e) => updateDraft({ category: e.target.value as BicycleRepairCategory })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-amber-500"
+                        >
+                            {BICYCLE_REPAIR_CATEGORIES.map((opt) => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Estimated minutes
+                        <input
+                            type="number"
+                            min={0}
+                            value={draft.estimatedMinutes ?? ''}
+                            onChange={(e) => updateDraft({ estimatedMinutes: e.target.value === '' ? null : Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-amber-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Default priority
+                        <input
+                            type="number"
+                            value={draft.defaultPriority}
+                            onChange={(e) => updateDraft({ defaultPriority: Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-amber-500"
+                        />
+                        <span className="mt-1 block text-[10px] text-gray-400">Lower numbers are worked on first</span>
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Sort order
+                        <input
+                            type="number"
+                            value={draft.sortOrder}
+                            onChange={(e) => updateDraft({ sortOrder: Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-amber-500"
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-bold text-gray-600 self-end pb-2">
+                        <input
+                            type="checkbox"
+                            checked={draft.active}
+                            onChange={(e) => updateDraft({ active: e.target.checked })}
+                            className="w-4 h-4 rounded border-gray-300 text-amber-600"
+                        />
+                        Offered when logging repairs
+                    </label>
+                    <div className="flex items-end justify-end gap-2 md:col-span-2 lg:col-span-4">
+                        <button
+                            onClick={() => setDraft(null)}
+                            disabled={saving}
+                            className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-amber-600 text-white text-xs font-bold hover:bg-amber-700 disabled:opacity-50"
+                        >
+                            {saving && <Loader2 size={14} className="animate-spin" />}
+                            Save Type
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {isLoading && types.length === 0 ? (
+                <div className="h-32 flex items-center justify-center text-gray-400">
+                    <Loader2 className="animate-spin" />
+                </div>
+            ) : (
+                <ul className="divide-y divide-gray-100">
+                    {types.map((repairType) => (
+                        <li key={repairType.key} className={cn('px-4 py-3 flex items-center gap-3', !repairType.active && 'opacity-50')}>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold text-sm text-gray-900 truncate">{repairType.label}</p>
+                                <p className="text-[10px] text-gray-400 font-medium">{categoryLabel(repairType.category)}</p>
+                            </div>
+                            {repairType.estimatedMinutes !== null && (
+                                <span className="text-xs font-bold text-gray-600">~{formatLaborMinutes(repairType.estimatedMinutes)}</span>
+                            )}
+                            {repairType.defaultPriority !== 0 && (
+                                <span className="text-xs font-bold text-gray-500">Priority {repairType.defaultPriority}</span>
+                            )}
+                            {!repairType.active && (
+                                <span className="px-2 py-0.5 rounded-md bg-gray-100 text-[10px] font-bold uppercase tracking-wider text-gray-500">
+                                    Retired
+                                </span>
+                            )}
+                            {canEdit && (
+                                <button
+                                    onClick={() => startEdit(repairType)}
+                                    aria-label={`Edit ${repairType.label}`}
+                                    className="p-2 rounded-lg text-gray-400 hover:text-amber-600 hover:bg-amber-50"
+                                >
+                                    <Pencil size={14} />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
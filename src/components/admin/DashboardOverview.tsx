@@ -15,6 +15,7 @@ import {
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useMealsStore } from '@/stores/useMealsStore';
 import { useServicesStore } from '@/stores/useServicesStore';
+import { useReportSiteRecords } from '@/hooks/useSiteRecords';
 import { cn } from '@/lib/utils/cn';
 import toast from 'react-hot-toast';
 
@@ -79,8 +80,8 @@ function MetricCard({ title, icon: Icon, value, target, color }: MetricCardProps
 
 export function DashboardOverview() {
     const { targets, updateTargets } = useSettingsStore();
-    const { mealRecords, rvMealRecords, extraMealRecords, unitedEffortMealRecords } = useMealsStore();
-    const { showerRecords, laundryRecords, bicycleRecords } = useServicesStore();
+    const { mealRecords, rvMealRecords, extraMealRecords, unitedEffortMealRecords } = useReportSiteRecords(useMealsStore());
+    const { showerRecords, laundryRecords, bicycleRecords } = useReportSiteRecords(useServicesStore());
 
     const [isEditing, setIsEditing] = useState(false);
     const [editedTargets, setEditedTargets] = useState(targets);
@@ -19,9 +19,15 @@ import toast from 'react-hot-toast';
 import { useGuestsStore } from '@/stores/useGuestsStore';
 import { useMealsStore } from '@/stores/useMealsStore';
 import { useServicesStore } from '@/stores/useServicesStore';
+import { useReportSiteRecords } from '@/hooks/useSiteRecords';
 import { useDonationsStore } from '@/stores/useDonationsStore';
+import { useItemCatalogStore } from '@/stores/useItemCatalogStore';
+import { useBicycleRepairTypesStore } from '@/stores/useBicycleRepairTypesStore';
 import { todayPacificDateString } from '@/lib/utils/date';
+import { describeParts, partsCost } from '@/lib/utils/bicycleRepairs';
 import { createClient } from '@/lib/supabase/client';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
 
 // Helper to convert data to CSV and trigger download
 function exportToCSV(data: Record<string, unknown>[], filename: string) {
@@ -71,12 +77,16 @@ const EXPORT_OPTIONS = [
 
 export function DataExportSection() {
     const { guests } = useGuestsStore();
-    const { mealRecords } = useMealsStore();
-    const { showerRecords, laundryRecords, bicycleRecords } = useServicesStore();
+    const { mealRecords } = useReportSiteRecords(useMealsStore());
+    const { showerRecords, laundryRecords, bicycleRecords } = useReportSiteRecords(useServicesStore());
     const { donationRecords } = useDonationsStore();
+    const ensureCatalogLoaded = useItemCatalogStore((s) => s.ensureLoaded);
+    const ensureRepairTypesLoaded = useBicycleRepairTypesStore((s) => s.ensureLoaded);
     const [exporting, setExporting] = useState<string | null>(null);
+    const canExport = usePermission('reports.export');
 
     const handleExport = async (id: string) => {
+        if (!canExport) return;
         setExporting(id);
 
         try {
@@ -184,19 +194,32 @@ export function DataExportSection() {
                     );
                     break;
 
-                case 'bicycles':
+                case 'bicycles': {
+                    await ensureRepairTypesLoaded();
+                    const { resolveType } = useBicycleRepairTypesStore.getState();
                     exportToCSV(
-                        bicycleRecords.map(r => ({
-                            Date: new Date(r.date).toLocaleDateString(),
-                            'Guest ID': r.guestId,
-                            'Guest Name': guests.find(g => g.id === r.guestId)?.name || 'Unknown',
-                            'Repair Types': r.repairTypes?.join(', ') || r.repairType || '-',
-                            Status: r.status || '-',
-                            Notes: r.notes?.replace(/\n/g, ' ') || '-',
-                        })),
+                        bicycleRecords.map(r => {
+                            const types: string[] = r.repairTypes?.length ? r.repairTypes : [r.repairType].filter(Boolean);
+                            // Retired types still resolve; strings missing from the catalog export as stored
+                            const resolved = types.map((type) => ({ type, catalogType: resolveType(type) }));
+                            return {
+                                Date: new Date(r.date).toLocaleDateString(),
+                                'Guest ID': r.guestId,
+                                'Guest Name': guests.find(g => g.id === r.guestId)?.name || 'Unknown',
+                                'Repair Types': resolved.map(({ type, catalogType }) => catalogType?.label || type).join(', ') || '-',
+                                Categories: [...new Set(resolved.map(({ catalogType }) => catalogType?.category || 'uncategorized'))].join(', ') || '-',
+                                Status: r.status || '-',
+                                Mechanic: r.mechanicName || '-',
+                                'Labor Minutes': r.laborMinutes ?? '',
+                                Parts: describeParts(r.parts) || '-',
+                                'Parts Cost': partsCost(r.parts).toFixed(2),
+                                Notes: r.notes?.replace(/\n/g, ' ') || '-',
+                            };
+                        }),
                         `hopes-corner-bicycles-${today}.csv`
                     );
                     break;
+                }
 
                 case 'donations':
                     exportToCSV(
@@ -221,24 +244,15 @@ export function DataExportSection() {
 
                     if (supplyError) throw supplyError;
 
-                    const ITEM_LABELS: Record<string, string> = {
-                        tshirt: 'T-Shirt',
-                        jacket: 'Jacket',
-                        tent: 'Tent',
-                        sleeping_bag: 'Sleeping Bag',
-                        backpack: 'Backpack',
-                        flipflops: 'Flip Flops',
-                        flip_flops: 'Flip Flops',
-                        shoes: 'Shoes',
-                        blanket: 'Blanket',
-                    };
+                    await ensureCatalogLoaded();
+                    const { getItemLabel } = useItemCatalogStore.getState();
 
                     exportToCSV(
                         (supplyData || []).map(r => ({
                             Date: new Date(r.distributed_at).toLocaleDateString(),
                             'Guest ID': r.guest_id,
                             'Guest Name': guests.find(g => g.id === r.guest_id)?.name || 'Unknown',
-                            Item: ITEM_LABELS[r.item_key] || r.item_key.replace(/_/g, ' '),
+                            Item: getItemLabel(r.item_key),
                             'Item Key': r.item_key,
                         })),
                         `hopes-corner-shower-supplies-${today}.csv`
@@ -277,6 +291,8 @@ export function DataExportSection() {
                 </div>
             </div>
 
+            {!canExport && <PermissionNotice permission="reports.export" />}
+
             {/* Export Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                 {EXPORT_OPTIONS.map((opt) => {
@@ -297,7 +313,7 @@ export function DataExportSection() {
 
                             <button
                                 onClick={() => handleExport(opt.id)}
-                                disabled={isExporting}
+                                disabled={isExporting || !canExport}
                                 className="w-full py-3 rounded-xl bg-gray-900 text-white text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 hover:bg-black transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                             >
                                 {isExporting ? (
@@ -0,0 +1,343 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { GitMerge, Loader2, RotateCcw, ScanSearch, Users, X } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { useGuestsStore, type Guest } from '@/stores/useGuestsStore';
+import { useGuestMergeStore } from '@/stores/useGuestMergeStore';
+import { findDuplicateCandidates, duplicatePairKey, type DuplicateCandidate } from '@/lib/utils/duplicateDetection';
+import {
+    MERGE_FIELDS,
+    buildMergeFieldsPayload,
+    getDefaultMergeSelection,
+    getMergeFieldValue,
+    isMergeUndoable,
+    orderMergePair,
+    type MergeFieldKey,
+    type MergeFieldSelection,
+} from '@/lib/utils/guestMerge';
+import { cn } from '@/lib/utils/cn';
+import toast from 'react-hot-toast';
+
+// Below this the scan mostly finds relatives sharing a last name
+const MIN_CONFIDENCE = 0.75;
+
+const guestLabel = (guest?: Pick<Guest, 'firstName' | 'lastName' | 'preferredName'>) =>
+    guest ? `${guest.firstName} ${guest.lastName}`.trim() + (guest.preferredName ? ` (${guest.preferredName})` : '') : 'Unknown Guest';
+
+const displayValue = (guest: Guest, key: MergeFieldKey) => {
+    const value = getMergeFieldValue(guest, key);
+    if (!value) return '—';
+    return key === 'photoPath' ? 'Photo on file' : value;
+};
+
+const formatTimeLeft = (undoUntil: string, now: number) => {
+    const minutes = Math.max(0, Math.round((new Date(undoUntil).getTime() - now) / 60000));
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+export function DuplicateReviewSection() {
+    const { data: session } = useSession();
+    const staffEmail = session?.user?.email || null;
+    const guests = useGuestsStore((s) => s.guests);
+    const { recentMerges, dismissedPairs, loadRecentMerges, mergeGuests, undoMerge, dismissPair } = useGuestMergeStore();
+
+    const [candidates, setCandidates] = useState<DuplicateCandidate<Guest>[] | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const [keptId, setKeptId] = useState<string | null>(null);
+    const [selection, setSelection] = useState<MergeFieldSelection | null>(null);
+    const [isPending, setIsPending] = useState(false);
+    const [now, setNow] = useState(() => Date.now());
+
+    useEffect(() => {
+        loadRecentMerges();
+    }, [loadRecentMerges]);
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 60000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const guestsById = useMemo(() => new Map(guests.map((g) => [g.id, g])), [guests]);
+
+    // Drop pairs that were dismissed or merged since the scan
+    const openCandidates = useMemo(() => {
+        if (!candidates) return null;
+        const dismissed = new Set(dismissedPairs);
+        return candidates.filter((c) =>
+            !dismissed.has(duplicatePairKey(c.a.id, c.b.id)) && guestsById.has(c.a.id) && guestsById.has(c.b.id)
+        );
+    }, [candidates, dismissedPairs, guestsById]);
+
+    const selected = openCandidates?.find((c) => duplicatePairKey(c.a.id, c.b.id) === selectedKey) || null;
+    const [kept, merged] = useMemo(() => {
+        if (!selected) return [null, null];
+        const a = guestsById.get(selected.a.id)!;
+        const b = guestsById.get(selected.b.id)!;
+        return keptId === b.id ? [b, a] : keptId === a.id ? [a, b] : orderMergePair(a, b);
+    }, [selected, keptId, guestsById]);
+
+    const handleScan = () => {
+        setIsScanning(true);
+        setSelectedKey(null);
+        // Let the spinner paint before the scan blocks the main thread
+        setTimeout(() => {
+            setCandidates(findDuplicateCandidates(guests, {
+                minConfidence: MIN_CONFIDENCE,
+                excludePairs: new Set(useGuestMergeStore.getState().dismissedPairs),
+            }));
+            setIsScanning(false);
+        }, 0);
+    };
+
+    const openPair = (candidate: DuplicateCandidate<Guest>) => {
+        const [a, b] = orderMergePair(candidate.a, candidate.b);
+        setSelectedKey(duplicatePairKey(a.id, b.id));
+        setKeptId(a.id);
+        setSelection(getDefaultMergeSelection(a, b));
+    };
+
+    const chooseKept = (guest: Guest) => {
+        if (!selected || guest.id === kept?.id) return;
+        const other = guest.id === selected.a.id ? selected.b : selected.a;
+        setKeptId(guest.id);
+        setSelection(getDefaultMergeSelection(guest, guestsById.get(other.id)!));
+    };
+
+    const chooseField = (key: MergeFieldKey, source: 'kept' | 'merged') => {
+        setSelection((current) => (current ? { ...current, [key]: source } : current));
+    };
+
+    const handleDismiss = () => {
+        if (!selected) return;
+        dismissPair(selected.a.id, selected.b.id);
+        setSelectedKey(null);
+        toast.success('Marked as different guests');
+    };
+
+    const handleMerge = async () => {
+        if (!kept || !merged || !selection || isPending) return;
+        if (!confirm(`Merge ${guestLabel(merged)} into ${guestLabel(kept)}? All of their records move to ${guestLabel(kept)}. You can undo this for 24 hours.`)) return;
+
+        setIsPending(true);
+        try {
+            const result = await mergeGuests(kept.id, merged.id, buildMergeFieldsPayload(kept, merged, selection), staffEmail);
+            if (result) {
+                toast.success(`Merged into ${guestLabel(kept)}`);
+                setSelectedKey(null);
+            }
+        } finally {
+            setIsPending(false);
+        }
+    };
+
+    const handleUndo = async (mergeId: string) => {
+        if (isPending) return;
+        setIsPending(true);
+        try {
+            if (await undoMerge(mergeId)) toast.success('Merge undone');
+        } finally {
+            setIsPending(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-amber-100 text-amber-600">
+                        <Users size={20} />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-black text-gray-900">Duplicate Review</h2>
+                        <p className="text-sm text-gray-500 font-medium">
+                            Find guests entered twice and merge them into one record with all of their history.
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={handleScan}
+                    disabled={isScanning}
+                    className="flex items-center gap-2 px-4 py-2 rounded-xl bg-amber-600 text-white text-sm font-bold hover:bg-amber-700 disabled:opacity-50"
+                >
+                    {isScanning ? <Loader2 size={16} className="animate-spin" /> : <ScanSearch size={16} />}
+                    Scan for Duplicates
+                </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-2">
+                    <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+                        {openCandidates ? `Possible Duplicates (${openCandidates.length})` : 'Possible Duplicates'}
+                    </h3>
+                    {!openCandidates ? (
+                        <p className="text-sm text-gray-400 italic py-6 text-center">Run a scan to find possible duplicates.</p>
+                    ) : openCandidates.length === 0 ? (
+                        <p className="text-sm text-gray-400 italic py-6 text-center">No possible duplicates found.</p>
+                    ) : (
+                        <div className="space-y-1 max-h-[32rem] overflow-y-auto">
+                            {openCandidates.map((candidate) => {
+                                const key = duplicatePairKey(candidate.a.id, candidate.b.id);
+                                return (
+                                    <button
+                                        key={key}
+                                        onClick={() => openPair(candidate)}
+                                        className={cn(
+                                            'w-full text-left p-3 rounded-xl border transition-colors',
+                                            key === selectedKey ? 'border-amber-300 bg-amber-50' : 'border-gray-100 hover:bg-gray-50'
+                                        )}
+                                    >
+                                        <p className="text-sm font-bold text-gray-800">
+                                            {guestLabel(candidate.a)} / {guestLabel(candidate.b)}
+                                        </p>
+                                        <p className="text-xs text-gray-500 font-medium">
+                                            {candidate.reason} · {Math.round(candidate.confidence * 100)}%
+                                        </p>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                <div className="lg:col-span-2 bg-white rounded-2xl border border-gray-100 shadow-sm p-4">
+                    {!kept || !merged || !selection ? (
+                        <p className="text-sm text-gray-400 italic py-6 text-center">Select a pair to compare the two records.</p>
+                    ) : (
+                        <div className="space-y-4">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr>
+                                        <th className="w-32" />
+                                        {[kept, merged].map((guest) => (
+                                            <th key={guest.id} className="p-2 text-left align-top">
+                                                <label className="flex items-start gap-2 cursor-pointer">
+                                                    <input
+                                                        type="radio"
+                                                        name="kept-guest"
+                                                        checked={guest.id === kept.id}
+                                                        onChange={() => chooseKept(guest)}
+                                                        aria-label={`Keep ${guestLabel(guest)}`}
+                                                        className="mt-1"
+                                                    />
+                                                    <span>
+                                                        <span className="block font-black text-gray-900">{guestLabel(guest)}</span>
+                                                        <span className="block text-[11px] font-medium text-gray-400">
+                                                            {guest.guestId}
+                                                            {guest.createdAt && ` · Added ${new Date(guest.createdAt).toLocaleDateString()}`}
+                                                        </span>
+                                                        <span className={cn('block text-[10px] font-black uppercase tracking-wider', guest.id === kept.id ? 'text-emerald-600' : 'text-red-500')}>
+                                                            {guest.id === kept.id ? 'Keep' : 'Merge & remove'}
+                                                        </span>
+                                                    </span>
+                                                </label>
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {MERGE_FIELDS.map(({ key, label }) => {
+                                        const differs = getMergeFieldValue(kept, key) !== getMergeFieldValue(merged, key);
+                                        return (
+                                            <tr key={key} className={cn('border-t border-gray-100', differs && 'bg-amber-50/50')}>
+                                                <td className="p-2 text-xs font-bold text-gray-500 uppercase tracking-wider">{label}</td>
+                                                {(['kept', 'merged'] as const).map((source) => {
+                                                    const guest = source === 'kept' ? kept : merged;
+                                                    return (
+                                                        <td key={source} className="p-2">
+                                                            {differs ? (
+                                                                <label className="flex items-start gap-2 cursor-pointer">
+                                                                    <input
+                                                                        type="radio"
+                                                                        name={`field-${key}`}
+                                                                        checked={selection[key] === source}
+                                                                        onChange={() => chooseField(key, source)}
+                                                                        aria-label={`Use ${label} from ${guestLabel(guest)}`}
+                                                                        className="mt-1"
+                                                                    />
+                                                                    <span className="font-medium text-gray-800 break-words">{displayValue(guest, key)}</span>
+                                                                </label>
+                                                            ) : (
+                                                                <span className="text-gray-500">{displayValue(guest, key)}</span>
+                                                            )}
+                                                        </td>
+                                                    );
+                                                })}
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+
+                            <p className="text-xs text-gray-500 font-medium">
+                                Meals, showers, laundry, haircuts, holidays, bicycle repairs, items, warnings, reminders, bans, waivers,
+                                linked guests and household membership all move to the kept record.
+                            </p>
+
+                            <div className="flex flex-wrap justify-end gap-2">
+                                <button
+                                    onClick={() => setSelectedKey(null)}
+                                    className="flex items-center gap-1.5 px-3 py-2 text-sm font-bold text-gray-500 hover:bg-gray-100 rounded-xl"
+                                >
+                                    <X size={14} />
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleDismiss}
+                                    disabled={isPending}
+                                    className="px-3 py-2 text-sm font-bold text-gray-700 border border-gray-200 hover:bg-gray-50 rounded-xl"
+                                >
+                                    Not a Duplicate
+                                </button>
+                                <button
+                                    onClick={handleMerge}
+                                    disabled={isPending}
+                                    className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold text-white bg-amber-600 hover:bg-amber-700 rounded-xl disabled:opacity-50"
+                                >
+                                    <GitMerge size={14} />
+                                    Merge Guests
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 space-y-2">
+                <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Recent Merges</h3>
+                {recentMerges.length === 0 ? (
+                    <p className="text-sm text-gray-400 italic py-4 text-center">No merges yet.</p>
+                ) : recentMerges.map((merge) => {
+                    const keptGuest = guestsById.get(merge.keptGuestId);
+                    return (
+                        <div key={merge.id} className="flex items-center justify-between gap-4 p-3 rounded-xl border border-gray-100">
+                            <div>
+                                <p className="text-sm font-bold text-gray-800">
+                                    {merge.mergedGuestName || 'Deleted guest'} → {guestLabel(keptGuest)}
+                                </p>
+                                <p className="text-xs text-gray-500 font-medium">
+                                    {new Date(merge.mergedAt).toLocaleString()}
+                                    {merge.mergedBy && ` · ${merge.mergedBy}`}
+                                    {` · ${merge.movedRecordCount} record${merge.movedRecordCount === 1 ? '' : 's'} moved`}
+                                    {merge.undoneAt && ' · Undone'}
+                                </p>
+                            </div>
+                            {isMergeUndoable(merge, now) && (
+                                <button
+                                    onClick={() => handleUndo(merge.id)}
+                                    disabled={isPending}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-bold text-amber-700 border border-amber-200 hover:bg-amber-50 rounded-lg disabled:opacity-50"
+                                    title={`Undo available for ${formatTimeLeft(merge.undoUntil, now)}`}
+                                >
+                                    <RotateCcw size={12} />
+                                    Undo ({formatTimeLeft(merge.undoUntil, now)})
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { IdCard, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import {
+    exampleGuestId,
+    normalizeGuestIdFormat,
+    validateGuestIdFormat,
+    type GuestIdFormat,
+} from '@/lib/utils/guestIdFormat';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+
+const CODE_FIELDS: { key: 'prefix' | 'siteCode'; label: string; placeholder: string }[] = [
+    { key: 'prefix', label: 'Prefix', placeholder: 'G' },
+    { key: 'siteCode', label: 'Site code', placeholder: 'None' },
+];
+
+/**
+ * GuestIdFormatManager - The pattern new guest IDs follow. The ID is what
+ * printed guest cards carry as a QR code.
+ */
+export function GuestIdFormatManager() {
+    const { guestIdFormat, loadSettings, updateGuestIdFormat } = useSettingsStore();
+    const canEdit = usePermission('settings.manage');
+    const [draft, setDraft] = useState<GuestIdFormat | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        loadSettings();
+    }, [loadSettings]);
+
+    const saved = normalizeGuestIdFormat(guestIdFormat);
+    const current = draft || saved;
+
+    const updateDraft = (changes: Partial<GuestIdFormat>) => {
+        setDraft({ ...current, ...changes });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const error = validateGuestIdFormat(draft);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+
+        setSaving(true);
+        const ok = await updateGuestIdFormat(draft);
+        setSaving(false);
+        if (ok) {
+            toast.success('Guest ID format saved');
+            setDraft(null);
+        } else {
+            toast.error('Failed to save guest ID format');
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-indigo-500 text-white">
+                    <IdCard size={20} />
+                </div>
+                <div>
+                    <h3 className="font-bold text-gray-900 leading-tight">Guest ID Format</h3>
+                    <p className="text-xs text-gray-500 font-medium">
+                        New guests get IDs like <span className="font-mono font-bold text-gray-700">{exampleGuestId(saved)}</span>. Existing IDs don&apos;t change.
+                    </p>
+                </div>
+            </div>
+
+            {!canEdit && <PermissionNotice permission="settings.manage" className="m-4 mb-0" />}
+
+            <div className="p-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                {CODE_FIELDS.map(({ key, label, placeholder }) => (
+                    <label key={key} className="text-xs font-bold text-gray-600">
+                        {label}
+                        <input
+                            type="text"
+                            maxLength={4}
+                            value={current[key]}
+                            placeholder={placeholder}
+                            disabled={!canEdit}
+                            onChange={(e) => updateDraft({ [key]: e.target.value.toUpperCase() })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-mono font-medium uppercase outline-none focus:border-indigo-500 disabled:bg-gray-50"
+                        />
+                    </label>
+                ))}
+                <label className="flex items-center gap-2 text-xs font-bold text-gray-600 self-end pb-2">
+                    <input
+                        type="checkbox"
+                        checked={current.checkDigit}
+                        disabled={!canEdit}
+                        onChange={(e) => updateDraft({ checkDigit: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300 text-indigo-600"
+                    />
+                    Check character
+                </label>
+                {canEdit && draft && (
+                    <div className="flex items-center justify-between gap-2 md:col-span-3">
+                        <p className="text-xs text-gray-500 font-medium">
+                            Preview: <span className="font-mono font-bold text-gray-700">{exampleGuestId(normalizeGuestIdFormat(draft))}</span>
+                        </p>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setDraft(null)}
+                                disabled={saving}
+                                className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={saving}
+                                className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+                            >
+                                {saving && <Loader2 size={14} className="animate-spin" />}
+                                Save Format
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
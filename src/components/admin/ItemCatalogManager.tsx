@@ -0,0 +1,284 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Package, Pencil, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useItemCatalogStore, toItemKey, type CatalogItem } from '@/stores/useItemCatalogStore';
+import { describeCooldown, type ItemCooldownType } from '@/lib/utils/itemCooldown';
+import { ITEM_ICONS, getItemIcon } from '@/components/icons/itemIcons';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+import { cn } from '@/lib/utils/cn';
+
+const COOLDOWN_OPTIONS: { value: ItemCooldownType; label: string }[] = [
+    { value: 'rolling_days', label: 'Every N days' },
+    { value: 'weekly_reset', label: 'Once a week' },
+    { value: 'monthly_cap', label: 'N per month' },
+    { value: 'unlimited', label: 'Unlimited' },
+];
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const EMPTY_ITEM: CatalogItem = {
+    key: '',
+    label: '',
+    icon: 'package',
+    cooldownType: 'rolling_days',
+    cooldownDays: 30,
+    resetWeekday: 1,
+    monthlyLimit: 1,
+    active: true,
+    sortOrder: 100,
+    stockOnHand: null,
+    lowStockThreshold: 5,
+};
+
+// Return an error message for an invalid draft, or null when it can be saved
+export const validateCatalogItem = (draft: CatalogItem, existingKeys: string[], isNew: boolean): string | null => {
+    if (!draft.label.trim()) return 'Label is required';
+    if (!draft.key) return 'Label must contain letters or numbers';
+    if (isNew && existingKeys.includes(draft.key)) return 'An item with this name already exists';
+    if (draft.cooldownType === 'rolling_days' && !(Number(draft.cooldownDays) > 0)) return 'Days must be at least 1';
+    if (draft.cooldownType === 'monthly_cap' && !(Number(draft.monthlyLimit) > 0)) return 'Monthly limit must be at least 1';
+    return null;
+};
+
+export function ItemCatalogManager() {
+    const { items, isLoading, ensureLoaded, saveItem } = useItemCatalogStore();
+    const canEdit = usePermission('settings.manage');
+    const [draft, setDraft] = useState<CatalogItem | null>(null);
+    const [isNew, setIsNew] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    const startEdit = (item: CatalogItem) => {
+        setDraft({ ...item });
+        setIsNew(false);
+    };
+
+    const startNew = () => {
+        setDraft({ ...EMPTY_ITEM });
+        setIsNew(true);
+    };
+
+    const updateDraft = (changes: Partial<CatalogItem>) => {
+        setDraft((prev) => {
+            if (!prev) return prev;
+            const next = { ...prev, ...changes };
+            // New items take their key from the label; existing keys never change
+            if (isNew && changes.label !== undefined) next.key = toItemKey(changes.label);
+            return next;
+        });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const error = validateCatalogItem(draft, items.map((i) => i.key), isNew);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+
+        setSaving(true);
+        const ok = await saveItem({
+            ...draft,
+            cooldownDays: draft.cooldownDays ? Number(draft.cooldownDays) : null,
+            monthlyLimit: draft.monthlyLimit ? Number(draft.monthlyLimit) : null,
+            sortOrder: Number(draft.sortOrder) || 0,
+            lowStockThreshold: Math.max(0, Number(draft.lowStockThreshold) || 0),
+        });
+        setSaving(false);
+        if (ok) {
+            toast.success(`${draft.label.trim()} saved`);
+            setDraft(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-purple-500 text-white">
+                        <Package size={20} />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-gray-900 leading-tight">Item Catalog</h3>
+                        <p className="text-xs text-gray-500 font-medium">Items handed out during showers and how often each guest can receive them</p>
+                    </div>
+                </div>
+                {canEdit && !draft && (
+                    <button
+                        onClick={startNew}
+                        className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-purple-600 text-white text-xs font-bold hover:bg-purple-700"
+                    >
+                        <Plus size={14} /> Add Item
+                    </button>
+                )}
+            </div>
+
+            {!canEdit && <PermissionNotice permission="settings.manage" className="m-4 mb-0" />}
+
+            {draft && (
+                <div className="p-4 border-b border-gray-100 bg-purple-50/40 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                    <label className="text-xs font-bold text-gray-600">
+                        Label
+                        <input
+                            type="text"
+                            value={draft.label}
+                            onChange={(e) => updateDraft({ label: e.target.value })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                            autoFocus
+                        />
+                        {isNew && draft.key && <span className="mt-1 block text-[10px] text-gray-400">Key: {draft.key}</span>}
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Icon
+                        <select
+                            value={draft.icon}
+                            onChange={(e) => updateDraft({ icon: e.target.value })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        >
+                            {Object.entries(ITEM_ICONS).map(([key, { label }]) => (
+                                <option key={key} value={key}>{label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Limit
+                        <select
+                            value={draft.cooldownType}
+                            onChange={(e) => updateDraft({ cooldownType: e.target.value as ItemCooldownType })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        >
+                            {COOLDOWN_OPTIONS.map((opt) => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {draft.cooldownType === 'rolling_days' && (
+                        <label className="text-xs font-bold text-gray-600">
+                            Days between
+                            <input
+                                type="number"
+                                min={1}
+                                value={draft.cooldownDays ?? ''}
+                                onChange={(e) => updateDraft({ cooldownDays: e.target.value === '' ? null : Number(e.target.value) })}
+                                className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                            />
+                        </label>
+                    )}
+                    {draft.cooldownType === 'weekly_reset' && (
+                        <label className="text-xs font-bold text-gray-600">
+                            Resets on
+                            <select
+                                value={draft.resetWeekday ?? 1}
+                                onChange={(e) => updateDraft({ resetWeekday: Number(e.target.value) })}
+                                className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                            >
+                                {WEEKDAYS.map((day, index) => (
+                                    <option key={day} value={index}>{day}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                    {draft.cooldownType === 'monthly_cap' && (
+                        <label className="text-xs font-bold text-gray-600">
+                            Per month
+                            <input
+                                type="number"
+                                min={1}
+                                value={draft.monthlyLimit ?? ''}
+                                onChange={(e) => updateDraft({ monthlyLimit: e.target.value === '' ? null : Number(e.target.value) })}
+                                className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                            />
+                        </label>
+                    )}
+                    <label className="text-xs font-bold text-gray-600">
+                        Sort order
+                        <input
+                            type="number"
+                            value={draft.sortOrder}
+                            onChange={(e) => updateDraft({ sortOrder: Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Low stock alert at
+                        <input
+                            type="number"
+                            min={0}
+                            value={draft.lowStockThreshold}
+                            onChange={(e) => updateDraft({ lowStockThreshold: Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-purple-500"
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-bold text-gray-600 self-end pb-2">
+                        <input
+                            type="checkbox"
+                            checked={draft.active}
+                            onChange={(e) => updateDraft({ active: e.target.checked })}
+                            className="w-4 h-4 rounded border-gray-300 text-purple-600"
+                        />
+                        Offered at showers
+                    </label>
+                    <div className="flex items-end justify-end gap-2 md:col-span-2 lg:col-span-4">
+                        <button
+                            onClick={() => setDraft(null)}
+                            disabled={saving}
+                            className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-purple-600 text-white text-xs font-bold hover:bg-purple-700 disabled:opacity-50"
+                        >
+                            {saving && <Loader2 size={14} className="animate-spin" />}
+                            Save Item
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {isLoading && items.length === 0 ? (
+                <div className="h-32 flex items-center justify-center text-gray-400">
+                    <Loader2 className="animate-spin" />
+                </div>
+            ) : (
+                <ul className="divide-y divide-gray-100">
+                    {items.map((item) => {
+                        const Icon = getItemIcon(item.icon);
+                        return (
+                            <li key={item.key} className={cn('px-4 py-3 flex items-center gap-3', !item.active && 'opacity-50')}>
+                                <Icon size={20} className="text-purple-600 shrink-0" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-bold text-sm text-gray-900 truncate">{item.label}</p>
+                                    <p className="text-[10px] text-gray-400 font-medium">{item.key}</p>
+                                </div>
+                                <span className="text-xs font-bold text-gray-600">{describeCooldown(item)}</span>
+                                {!item.active && (
+                                    <span className="px-2 py-0.5 rounded-md bg-gray-100 text-[10px] font-bold uppercase tracking-wider text-gray-500">
+                                        Inactive
+                                    </span>
+                                )}
+                                {canEdit && (
+                                    <button
+                                        onClick={() => startEdit(item)}
+                                        aria-label={`Edit ${item.label}`}
+                                        className="p-2 rounded-lg text-gray-400 hover:text-purple-600 hover:bg-purple-50"
+                                    >
+                                        <Pencil size={14} />
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
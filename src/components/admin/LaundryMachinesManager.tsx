@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, Pencil, Plus, WashingMachine } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLaundryMachinesStore } from '@/stores/useLaundryMachinesStore';
+import {
+    DEFAULT_CYCLE_MINUTES,
+    machineLabel,
+    nextMachineNumber,
+    type LaundryMachine,
+    type LaundryMachineKind,
+} from '@/lib/utils/laundryMachines';
+import { newClientId } from '@/lib/utils/offlineQueue';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+import { cn } from '@/lib/utils/cn';
+
+// Return an error message for an invalid draft, or null when it can be saved
+export const validateMachine = (draft: LaundryMachine, existing: LaundryMachine[]): string | null => {
+    if (!Number.isInteger(Number(draft.number)) || Number(draft.number) < 1) return 'Machine number must be a whole number above 0';
+    if (existing.some((m) => m.id !== draft.id && m.kind === draft.kind && m.number === Number(draft.number))) {
+        return `${machineLabel(draft)} already exists`;
+    }
+    if (!(Number(draft.cycleMinutes) >= 1)) return 'Cycle length must be at least 1 minute';
+    return null;
+};
+
+/**
+ * LaundryMachinesManager - The numbered washers and dryers loads are assigned to,
+ * with each machine's cycle length. Broken machines are marked out of service.
+ */
+export function LaundryMachinesManager() {
+    const { machines, isLoading, ensureLoaded, saveMachine } = useLaundryMachinesStore();
+    const canEdit = usePermission('settings.manage');
+    const [draft, setDraft] = useState<LaundryMachine | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    const startNew = (kind: LaundryMachineKind) => {
+        setDraft({
+            id: newClientId(),
+            kind,
+            number: nextMachineNumber(machines, kind),
+            cycleMinutes: DEFAULT_CYCLE_MINUTES[kind],
+            outOfService: false,
+            note: '',
+        });
+    };
+
+    const updateDraft = (changes: Partial<LaundryMachine>) => {
+        setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const error = validateMachine(draft, machines);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+
+        const machine = {
+            ...draft,
+            number: Number(draft.number),
+            cycleMinutes: Math.round(Number(draft.cycleMinutes)),
+        };
+        setSaving(true);
+        const ok = await saveMachine(machine);
+        setSaving(false);
+        if (ok) {
+            toast.success(`${machineLabel(machine)} saved`);
+            setDraft(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-indigo-500 text-white">
+                        <WashingMachine size={20} />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-gray-900 leading-tight">Laundry Machines</h3>
+                        <p className="text-xs text-gray-500 font-medium">Washers and dryers loads are assigned to, with cycle lengths for the countdown</p>
+                    </div>
+                </div>
+                {canEdit && !draft && (
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => startNew('washer')}
+                            className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700"
+                        >
+                            <Plus size={14} /> Add Washer
+                        </button>
+                        <button
+                            onClick={() => startNew('dryer')}
+                            className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700"
+                        >
+                            <Plus size={14} /> Add Dryer
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {!canEdit && <PermissionNotice permission="settings.manage" className="m-4 mb-0" />}
+
+            {draft && (
+                <div className="p-4 border-b border-gray-100 bg-indigo-50/40 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                    <label className="text-xs font-bold text-gray-600">
+                        {draft.kind === 'washer' ? 'Washer' : 'Dryer'} number
+                        <input
+                            type="number"
+                            min={1}
+                            value={draft.number}
+                            onChange={(e) => updateDraft({ number: Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-indigo-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Cycle minutes
+                        <input
+                            type="number"
+                            min={1}
+                            value={draft.cycleMinutes}
+                            onChange={(e) => updateDraft({ cycleMinutes: Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-indigo-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Note
+                        <input
+                            type="text"
+                            value={draft.note || ''}
+                            onChange={(e) => updateDraft({ note: e.target.value })}
+                            placeholder="e.g. Door sticks"
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-indigo-500"
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-bold text-gray-600 self-end pb-2">
+                        <input
+                            type="checkbox"
+                            checked={draft.outOfService}
+                            onChange={(e) => updateDraft({ outOfService: e.target.checked })}
+                            className="w-4 h-4 rounded border-gray-300 text-indigo-600"
+                        />
+                        Out of service
+                    </label>
+                    <div className="flex items-end justify-end gap-2 md:col-span-2 lg:col-span-4">
+                        <button
+                            onClick={() => setDraft(null)}
+                            disabled={saving}
+                            className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 disabled:opacity-50"
+                        >
+                            {saving && <Loader2 size={14} className="animate-spin" />}
+                            Save Machine
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {isLoading && machines.length === 0 ? (
+                <div className="h-32 flex items-center justify-center text-gray-400">
+                    <Loader2 className="animate-spin" />
+                </div>
+            ) : machines.length === 0 ? (
+                <p className="p-4 text-sm text-gray-400">No machines yet. Loads can still be moved without one.</p>
+            ) : (
+                <ul className="divide-y divide-gray-100">
+                    {machines.map((machine) => (
+                        <li key={machine.id} className={cn('px-4 py-3 flex items-center gap-3', machine.outOfService && 'opacity-50')}>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold text-sm text-gray-900 truncate">{machineLabel(machine)}</p>
+                                {machine.note && <p className="text-[10px] text-gray-400 font-medium truncate">{machine.note}</p>}
+                            </div>
+                            <span className="text-xs font-bold text-gray-600">{machine.cycleMinutes} min cycle</span>
+                            {machine.outOfService && (
+                                <span className="px-2 py-0.5 rounded-md bg-gray-100 text-[10px] font-bold uppercase tracking-wider text-gray-500">
+                                    Out of service
+                                </span>
+                            )}
+                            {canEdit && (
+                                <button
+                                    onClick={() => setDraft({ ...machine })}
+                                    aria-label={`Edit ${machineLabel(machine)}`}
+                                    className="p-2 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50"
+                                >
+                                    <Pencil size={14} />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, UserX } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import {
+    describeNoShowPolicy,
+    normalizeNoShowPolicy,
+    validateNoShowPolicy,
+    type NoShowPolicy,
+} from '@/lib/utils/noShowPolicy';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+
+const NUMBER_FIELDS: { key: 'threshold' | 'windowDays' | 'restrictionDays'; label: string }[] = [
+    { key: 'threshold', label: 'No-show limit' },
+    { key: 'windowDays', label: 'Within days' },
+    { key: 'restrictionDays', label: 'Waitlist-only days' },
+];
+
+/**
+ * NoShowPolicyManager - How many shower no-shows in a rolling window put a
+ * guest on waitlist-only, and for how long
+ */
+export function NoShowPolicyManager() {
+    const { noShowPolicy, loadSettings, updateNoShowPolicy } = useSettingsStore();
+    const canEdit = usePermission('settings.manage');
+    const [draft, setDraft] = useState<NoShowPolicy | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        loadSettings();
+    }, [loadSettings]);
+
+    const saved = normalizeNoShowPolicy(noShowPolicy);
+    const current = draft || saved;
+
+    const updateDraft = (changes: Partial<NoShowPolicy>) => {
+        setDraft({ ...current, ...changes });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const error = validateNoShowPolicy(draft);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+
+        setSaving(true);
+        const ok = await updateNoShowPolicy(draft);
+        setSaving(false);
+        if (ok) {
+            toast.success('No-show policy saved');
+            setDraft(null);
+        } else {
+            toast.error('Failed to save no-show policy');
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-rose-500 text-white">
+                    <UserX size={20} />
+                </div>
+                <div>
+                    <h3 className="font-bold text-gray-900 leading-tight">No-Show Policy</h3>
+                    <p className="text-xs text-gray-500 font-medium">
+                        {saved.enabled ? describeNoShowPolicy(saved) : 'Off — no-shows are counted but never limit booking'}
+                    </p>
+                </div>
+            </div>
+
+            {!canEdit && <PermissionNotice permission="settings.manage" className="m-4 mb-0" />}
+
+            <div className="p-4 grid grid-cols-1 md:grid-cols-4 gap-3">
+                <label className="flex items-center gap-2 text-xs font-bold text-gray-600 self-end pb-2">
+                    <input
+                        type="checkbox"
+                        checked={current.enabled}
+                        disabled={!canEdit}
+                        onChange={(e) => updateDraft({ enabled: e.target.checked })}
+                        className="w-4 h-4 rounded border-gray-300 text-rose-600"
+                    />
+                    Policy on
+                </label>
+                {NUMBER_FIELDS.map(({ key, label }) => (
+                    <label key={key} className="text-xs font-bold text-gray-600">
+                        {label}
+                        <input
+                            type="number"
+                            min={1}
+                            value={current[key]}
+                            disabled={!canEdit || !current.enabled}
+                            onChange={(e) => updateDraft({ [key]: Number(e.target.value) })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-rose-500 disabled:bg-gray-50"
+                        />
+                    </label>
+                ))}
+                {canEdit && draft && (
+                    <div className="flex items-end justify-end gap-2 md:col-span-4">
+                        <button
+                            onClick={() => setDraft(null)}
+                            disabled={saving}
+                            className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-rose-600 text-white text-xs font-bold hover:bg-rose-700 disabled:opacity-50"
+                        >
+                            {saving && <Loader2 size={14} className="animate-spin" />}
+                            Save Policy
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarOff, Loader2, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useServiceClosuresStore } from '@/stores/useServiceClosuresStore';
+import { closureDateRange, type ServiceClosure } from '@/lib/utils/serviceClosures';
+import { SCHEDULED_SERVICES, type ScheduledService } from '@/lib/utils/serviceSchedule';
+import { todayPacificDateString } from '@/lib/utils/date';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+
+interface ClosureDraft {
+    firstDay: string;
+    lastDay: string;
+    service: ScheduledService | '';
+    reason: string;
+}
+
+const EMPTY_DRAFT: ClosureDraft = { firstDay: '', lastDay: '', service: '', reason: '' };
+
+// Longest closure that can be added in one go
+const MAX_CLOSURE_DAYS = 31;
+
+// Return an error message for an invalid draft, or null when it can be saved
+export const validateClosure = (draft: ClosureDraft): string | null => {
+    if (!draft.firstDay) return 'Choose the day you are closed';
+    if (draft.lastDay && draft.lastDay < draft.firstDay) return 'Last day must be on or after the first day';
+    if (!draft.reason.trim()) return 'Reason is required';
+    if (closureDateRange(draft.firstDay, draft.lastDay).length > MAX_CLOSURE_DAYS) {
+        return `Closures can span at most ${MAX_CLOSURE_DAYS} days`;
+    }
+    return null;
+};
+
+const serviceLabel = (closure: ServiceClosure) =>
+    closure.service ? SCHEDULED_SERVICES.find((s) => s.value === closure.service)?.label : 'All services';
+
+const formatDay = (date: string) =>
+    new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * ServiceClosureManager - Holidays and one-off closures. Closed days take
+ * no shower or laundry bookings and record no automatic meals.
+ */
+export function ServiceClosureManager() {
+    const { closures, isLoading, ensureLoaded, addClosures, removeClosure } = useServiceClosuresStore();
+    const canEdit = usePermission('slots.block');
+    const [draft, setDraft] = useState<ClosureDraft | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    const today = todayPacificDateString();
+    const upcoming = closures.filter((c) => c.closedOn >= today);
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const error = validateClosure(draft);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+
+        const dates = closureDateRange(draft.firstDay, draft.lastDay);
+        setSaving(true);
+        const ok = await addClosures({ dates, service: draft.service || null, reason: draft.reason });
+        setSaving(false);
+        if (ok) {
+            toast.success(dates.length === 1 ? 'Closure added' : `${dates.length} days closed`);
+            setDraft(null);
+        }
+    };
+
+    const handleRemove = async (closure: ServiceClosure) => {
+        if (!window.confirm(`Reopen ${serviceLabel(closure)?.toLowerCase()} on ${formatDay(closure.closedOn)}?`)) return;
+        const ok = await removeClosure(closure.id);
+        if (ok) toast.success('Closure removed');
+    };
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-rose-500 text-white">
+                        <CalendarOff size={20} />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-gray-900 leading-tight">Closures</h3>
+                        <p className="text-xs text-gray-500 font-medium">Holidays and other days a service is closed</p>
+                    </div>
+                </div>
+                {canEdit && !draft && (
+                    <button
+                        onClick={() => setDraft({ ...EMPTY_DRAFT })}
+                        className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-rose-600 text-white text-xs font-bold hover:bg-rose-700"
+                    >
+                        <Plus size={14} /> Add Closure
+                    </button>
+                )}
+            </div>
+
+            {!canEdit && <PermissionNotice permission="slots.block" className="m-4 mb-0" />}
+
+            {draft && (
+                <div className="p-4 border-b border-gray-100 bg-rose-50/40 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                    <label className="text-xs font-bold text-gray-600">
+                        First day
+                        <input
+                            type="date"
+                            min={today}
+                            value={draft.firstDay}
+                            onChange={(e) => setDraft({ ...draft, firstDay: e.target.value })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-rose-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Last day
+                        <input
+                            type="date"
+                            min={draft.firstDay || today}
+                            value={draft.lastDay}
+                            onChange={(e) => setDraft({ ...draft, lastDay: e.target.value })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-rose-500"
+                        />
+                        <span className="mt-1 block text-[10px] text-gray-400">Leave empty for a single day</span>
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Closed service
+                        <select
+                            value={draft.service}
+                            onChange={(e) => setDraft({ ...draft, service: e.target.value as ScheduledService | '' })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-rose-500"
+                        >
+                            <option value="">All services</option>
+                            {SCHEDULED_SERVICES.map((opt) => (
+                                <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Reason
+                        <input
+                            type="text"
+                            value={draft.reason}
+                            onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+                            placeholder="Thanksgiving"
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-rose-500"
+                        />
+                    </label>
+                    <div className="flex items-end justify-end gap-2 md:col-span-2 lg:col-span-4">
+                        <button
+                            onClick={() => setDraft(null)}
+                            disabled={saving}
+                            className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-rose-600 text-white text-xs font-bold hover:bg-rose-700 disabled:opacity-50"
+                        >
+                            {saving && <Loader2 size={14} className="animate-spin" />}
+                            Save Closure
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {isLoading && closures.length === 0 ? (
+                <div className="h-32 flex items-center justify-center text-gray-400">
+                    <Loader2 className="animate-spin" />
+                </div>
+            ) : upcoming.length === 0 ? (
+                <p className="p-6 text-center text-sm text-gray-400 font-medium">No upcoming closures</p>
+            ) : (
+                <ul className="divide-y divide-gray-100">
+                    {upcoming.map((closure) => (
+                        <li key={closure.id} className="px-4 py-3 flex items-center gap-3">
+                            <div className="w-36 shrink-0">
+                                <p className="font-bold text-sm text-gray-900">{formatDay(closure.closedOn)}</p>
+                                <p className="text-[10px] font-bold uppercase tracking-wider text-rose-600">{serviceLabel(closure)}</p>
+                            </div>
+                            <p className="flex-1 min-w-0 text-sm text-gray-600 font-medium truncate">{closure.reason}</p>
+                            {canEdit && (
+                                <button
+                                    onClick={() => handleRemove(closure)}
+                                    aria-label={`Remove closure on ${closure.closedOn}`}
+                                    className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,496 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarClock, Loader2, Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useServiceScheduleStore } from '@/stores/useServiceScheduleStore';
+import { useSitesStore } from '@/stores/useSitesStore';
+import {
+    SCHEDULED_SERVICES,
+    WEEKDAY_NAMES,
+    buildServiceSlots,
+    resolveSiteSchedule,
+    toMinutes,
+    type ScheduledService,
+    type ServiceScheduleEntry,
+} from '@/lib/utils/serviceSchedule';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+import { cn } from '@/lib/utils/cn';
+
+interface Season {
+    startsOn: string;
+    endsOn: string | null;
+    seasonLabel: string | null;
+}
+
+interface SeasonDraft {
+    label: string;
+    startsOn: string;
+    endsOn: string;
+}
+
+// Custom laundry windows are edited as comma-separated text
+type DraftRow = ServiceScheduleEntry & { customSlotsText: string };
+
+const SLOT_LABEL_PATTERN = /^\d{2}:\d{2} - \d{2}:\d{2}$/;
+
+const parseCustomSlots = (text: string) =>
+    text.split(',').map((slot) => slot.trim()).filter(Boolean);
+
+// Seven rows for a service and period, filling missing season days from the regular week
+export const scheduleRowsFor = (
+    entries: ServiceScheduleEntry[],
+    service: ScheduledService,
+    season: Season | null
+): ServiceScheduleEntry[] =>
+    WEEKDAY_NAMES.map((_, weekday) => {
+        const regular = entries.find((e) => e.service === service && e.weekday === weekday && !e.startsOn);
+        if (!season) {
+            return regular || {
+                service, weekday, startsOn: null, endsOn: null, seasonLabel: null, isOpen: false,
+                startTime: null, endTime: null, slotMinutes: null, slotDurationMinutes: null, slotCapacity: 1, customSlots: [],
+            };
+        }
+        const seasonal = entries.find((e) => e.service === service && e.weekday === weekday && e.startsOn === season.startsOn);
+        if (seasonal) return seasonal;
+        return {
+            ...(regular || scheduleRowsFor(entries, service, null)[weekday]),
+            id: undefined,
+            startsOn: season.startsOn,
+            endsOn: season.endsOn,
+            seasonLabel: season.seasonLabel,
+        };
+    });
+
+// Rows a site inherits from the shared schedule are saved as new rows of its own
+const ownedBy = (rows: ServiceScheduleEntry[], siteId: string | null): ServiceScheduleEntry[] =>
+    rows.map((row) => ((row.siteId || null) === siteId ? row : { ...row, id: undefined, siteId }));
+
+// Return an error message for an invalid day, or null when it can be saved
+export const validateScheduleRow = (row: ServiceScheduleEntry): string | null => {
+    const day = WEEKDAY_NAMES[row.weekday];
+    if (!row.isOpen) return null;
+    if (!row.startTime || !row.endTime) return `${day}: opening and closing times are required`;
+    if (toMinutes(row.endTime) <= toMinutes(row.startTime)) return `${day}: closing time must be after opening time`;
+    if (row.service === 'meals') return null;
+    if (!(Number(row.slotCapacity) > 0)) return `${day}: capacity must be at least 1`;
+    if (row.customSlots.length > 0) {
+        const invalid = row.customSlots.find((slot) => !SLOT_LABEL_PATTERN.test(slot));
+        return invalid ? `${day}: "${invalid}" is not a window like 07:30 - 08:30` : null;
+    }
+    if (!(Number(row.slotMinutes) >= 5)) return `${day}: slots must be at least 5 minutes apart`;
+    if (buildServiceSlots(row).length === 0) return `${day}: hours are too short for a single slot`;
+    return null;
+};
+
+const inputClass = 'w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-sky-500 disabled:bg-gray-50 disabled:text-gray-400';
+
+function WeekEditor({
+    service,
+    rows,
+    siteId,
+    canEdit,
+}: {
+    service: ScheduledService;
+    rows: ServiceScheduleEntry[];
+    siteId: string | null;
+    canEdit: boolean;
+}) {
+    const saveEntries = useServiceScheduleStore((s) => s.saveEntries);
+    const [draft, setDraft] = useState<DraftRow[]>(() =>
+        rows.map((row) => ({ ...row, customSlotsText: row.customSlots.join(', ') }))
+    );
+    const [saving, setSaving] = useState(false);
+
+    const updateRow = (weekday: number, changes: Partial<DraftRow>) => {
+        setDraft((prev) => prev.map((row) => (row.weekday === weekday ? { ...row, ...changes } : row)));
+    };
+
+    const handleSave = async () => {
+        const toSave: ServiceScheduleEntry[] = draft.map(({ customSlotsText, ...row }) => ({
+            ...row,
+            slotMinutes: row.slotMinutes ? Number(row.slotMinutes) : null,
+            slotDurationMinutes: row.slotDurationMinutes ? Number(row.slotDurationMinutes) : null,
+            slotCapacity: Number(row.slotCapacity) || 0,
+            customSlots: service === 'laundry' ? parseCustomSlots(customSlotsText) : [],
+        }));
+        const error = toSave.map(validateScheduleRow).find(Boolean);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+
+        setSaving(true);
+        const ok = await saveEntries(ownedBy(toSave, siteId));
+        setSaving(false);
+        if (ok) toast.success('Hours saved');
+    };
+
+    const hasSlots = service !== 'meals';
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-[10px] font-bold uppercase tracking-wider text-gray-400">
+                        <th className="px-4 py-2">Day</th>
+                        <th className="px-2 py-2">Open</th>
+                        <th className="px-2 py-2">Opens</th>
+                        <th className="px-2 py-2">Closes</th>
+                        {hasSlots && <th className="px-2 py-2">Slot every (min)</th>}
+                        {service === 'laundry' && <th className="px-2 py-2">Window (min)</th>}
+                        {hasSlots && <th className="px-2 py-2">Per slot</th>}
+                        {service === 'laundry' && <th className="px-2 py-2">Custom windows</th>}
+                        {hasSlots && <th className="px-4 py-2 text-right">Slots</th>}
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                    {draft.map((row) => {
+                        const day = WEEKDAY_NAMES[row.weekday];
+                        const disabled = !canEdit || !row.isOpen;
+                        const customSlots = parseCustomSlots(row.customSlotsText);
+                        const slotCount = row.isOpen ? buildServiceSlots({ ...row, customSlots }).length : 0;
+                        return (
+                            <tr key={row.weekday} className={cn(!row.isOpen && 'bg-gray-50/60')}>
+                                <td className="px-4 py-2 font-bold text-gray-900">{day}</td>
+                                <td className="px-2 py-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={row.isOpen}
+                                        disabled={!canEdit}
+                                        onChange={(e) => updateRow(row.weekday, { isOpen: e.target.checked })}
+                                        aria-label={`${day} open`}
+                                        className="w-4 h-4 rounded border-gray-300 text-sky-600"
+                                    />
+                                </td>
+                                <td className="px-2 py-2">
+                                    <input
+                                        type="time"
+                                        value={row.startTime ?? ''}
+                                        disabled={disabled}
+                                        onChange={(e) => updateRow(row.weekday, { startTime: e.target.value || null })}
+                                        aria-label={`${day} opens`}
+                                        className={inputClass}
+                                    />
+                                </td>
+                                <td className="px-2 py-2">
+                                    <input
+                                        type="time"
+                                        value={row.endTime ?? ''}
+                                        disabled={disabled}
+                                        onChange={(e) => updateRow(row.weekday, { endTime: e.target.value || null })}
+                                        aria-label={`${day} closes`}
+                                        className={inputClass}
+                                    />
+                                </td>
+                                {hasSlots && (
+                                    <td className="px-2 py-2">
+                                        <input
+                                            type="number"
+                                            min={5}
+                                            value={row.slotMinutes ?? ''}
+                                            disabled={disabled}
+                                            onChange={(e) => updateRow(row.weekday, { slotMinutes: e.target.value === '' ? null : Number(e.target.value) })}
+                                            aria-label={`${day} slot minutes`}
+                                            className={inputClass}
+                                        />
+                                    </td>
+                                )}
+                                {service === 'laundry' && (
+                                    <td className="px-2 py-2">
+                                        <input
+                                            type="number"
+                                            min={5}
+                                            value={row.slotDurationMinutes ?? ''}
+                                            disabled={disabled}
+                                            onChange={(e) => updateRow(row.weekday, { slotDurationMinutes: e.target.value === '' ? null : Number(e.target.value) })}
+                                            aria-label={`${day} window minutes`}
+                                            placeholder="Same"
+                                            className={inputClass}
+                                        />
+                                    </td>
+                                )}
+                                {hasSlots && (
+                                    <td className="px-2 py-2">
+                                        <input
+                                            type="number"
+                                            min={1}
+                                            value={row.slotCapacity}
+                                            disabled={disabled}
+                                            onChange={(e) => updateRow(row.weekday, { slotCapacity: Number(e.target.value) })}
+                                            aria-label={`${day} capacity`}
+                                            className={inputClass}
+                                        />
+                                    </td>
+                                )}
+                                {service === 'laundry' && (
+                                    <td className="px-2 py-2 min-w-[16rem]">
+                                        <input
+                                            type="text"
+                                            value={row.customSlotsText}
+                                            disabled={disabled}
+                                            onChange={(e) => updateRow(row.weekday, { customSlotsText: e.target.value })}
+                                            aria-label={`${day} custom windows`}
+                                            placeholder="07:30 - 08:30, 08:00 - 09:00"
+                                            className={inputClass}
+                                        />
+                                    </td>
+                                )}
+                                {hasSlots && (
+                                    <td className="px-4 py-2 text-right text-xs font-bold text-gray-500">
+                                        {row.isOpen ? `${slotCount} slot${slotCount === 1 ? '' : 's'}` : 'Closed'}
+                                    </td>
+                                )}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            {canEdit && (
+                <div className="p-4 flex justify-end">
+                    <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-sky-600 text-white text-xs font-bold hover:bg-sky-700 disabled:opacity-50"
+                    >
+                        {saving && <Loader2 size={14} className="animate-spin" />}
+                        Save Hours
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * ServiceScheduleManager - Weekly opening hours, slot length and capacity
+ * for each service, with dated seasonal overrides. With several sites, each
+ * site can replace any day of the shared schedule with its own hours.
+ */
+export function ServiceScheduleManager() {
+    const { entries, ensureLoaded, saveEntries, deleteSeason } = useServiceScheduleStore();
+    const sites = useSitesStore((s) => s.sites);
+    const canEdit = usePermission('settings.manage');
+    const [siteId, setSiteId] = useState<string | null>(null);
+    const [service, setService] = useState<ScheduledService>('showers');
+    const [seasonStart, setSeasonStart] = useState<string | null>(null);
+    const [seasonDraft, setSeasonDraft] = useState<SeasonDraft | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    // null edits the shared schedule every site falls back to
+    const siteEntries = siteId ? resolveSiteSchedule(entries, siteId) : entries.filter((e) => !e.siteId);
+
+    const seasons: Season[] = [];
+    siteEntries.forEach((e) => {
+        if (e.service === service && e.startsOn && !seasons.some((s) => s.startsOn === e.startsOn)) {
+            seasons.push({ startsOn: e.startsOn, endsOn: e.endsOn, seasonLabel: e.seasonLabel });
+        }
+    });
+    seasons.sort((a, b) => a.startsOn.localeCompare(b.startsOn));
+
+    const season = seasons.find((s) => s.startsOn === seasonStart) || null;
+    const rows = scheduleRowsFor(siteEntries, service, season);
+    // A site can only delete its own seasons; shared ones are removed from the shared schedule
+    const ownsSeason = !!season && entries.some((e) =>
+        e.service === service && e.startsOn === season.startsOn && (e.siteId || null) === siteId
+    );
+
+    const selectService = (value: ScheduledService) => {
+        setService(value);
+        setSeasonStart(null);
+        setSeasonDraft(null);
+    };
+
+    const selectSite = (value: string | null) => {
+        setSiteId(value);
+        setSeasonStart(null);
+        setSeasonDraft(null);
+    };
+
+    const handleAddSeason = async () => {
+        if (!seasonDraft) return;
+        if (!seasonDraft.startsOn) {
+            toast.error('Choose the first day of the season');
+            return;
+        }
+        if (seasonDraft.endsOn && seasonDraft.endsOn < seasonDraft.startsOn) {
+            toast.error('Season must end on or after its first day');
+            return;
+        }
+        if (seasons.some((s) => s.startsOn === seasonDraft.startsOn)) {
+            toast.error('A season already starts on that day');
+            return;
+        }
+
+        // New seasons start as a copy of the regular week
+        const newSeason: Season = {
+            startsOn: seasonDraft.startsOn,
+            endsOn: seasonDraft.endsOn || null,
+            seasonLabel: seasonDraft.label.trim() || null,
+        };
+        setSaving(true);
+        const ok = await saveEntries(ownedBy(scheduleRowsFor(siteEntries, service, newSeason), siteId));
+        setSaving(false);
+        if (ok) {
+            toast.success('Season added');
+            setSeasonDraft(null);
+            setSeasonStart(newSeason.startsOn);
+        }
+    };
+
+    const handleDeleteSeason = async (target: Season) => {
+        if (!window.confirm(`Delete ${target.seasonLabel || 'this season'}? The regular week will apply again.`)) return;
+        const ok = await deleteSeason(service, target.startsOn, siteId);
+        if (ok) {
+            toast.success('Season deleted');
+            setSeasonStart(null);
+        }
+    };
+
+    const describeSeason = (s: Season) =>
+        `${s.seasonLabel || 'Season'} (${s.startsOn} – ${s.endsOn || 'open-ended'})`;
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-sky-500 text-white">
+                        <CalendarClock size={20} />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-gray-900 leading-tight">Service Hours</h3>
+                        <p className="text-xs text-gray-500 font-medium">Opening hours, slot length and capacity for each day of the week</p>
+                    </div>
+                </div>
+                <div className="flex bg-white border border-gray-200 rounded-xl p-1">
+                    {SCHEDULED_SERVICES.map((opt) => (
+                        <button
+                            key={opt.value}
+                            onClick={() => selectService(opt.value)}
+                            className={cn(
+                                'px-3 py-1.5 rounded-lg text-xs font-bold transition-colors',
+                                service === opt.value ? 'bg-sky-600 text-white' : 'text-gray-500 hover:bg-gray-100'
+                            )}
+                        >
+                            {opt.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {!canEdit && <PermissionNotice permission="settings.manage" className="m-4 mb-0" />}
+
+            <div className="p-4 border-b border-gray-100 flex flex-wrap items-center gap-2">
+                {sites.length > 1 && (
+                    <label className="text-xs font-bold text-gray-600 flex items-center gap-2">
+                        Site
+                        <select
+                            value={siteId ?? ''}
+                            onChange={(e) => selectSite(e.target.value || null)}
+                            className="px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-sky-500"
+                        >
+                            <option value="">All sites (shared)</option>
+                            {sites.map((s) => (
+                                <option key={s.id} value={s.id}>{s.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                <label className="text-xs font-bold text-gray-600 flex items-center gap-2">
+                    Applies to
+                    <select
+                        value={seasonStart ?? ''}
+                        onChange={(e) => setSeasonStart(e.target.value || null)}
+                        className="px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-sky-500"
+                    >
+                        <option value="">Regular week</option>
+                        {seasons.map((s) => (
+                            <option key={s.startsOn} value={s.startsOn}>{describeSeason(s)}</option>
+                        ))}
+                    </select>
+                </label>
+                {canEdit && season && ownsSeason && (
+                    <button
+                        onClick={() => handleDeleteSeason(season)}
+                        className="inline-flex items-center gap-1 px-3 py-2 rounded-xl text-xs font-bold text-red-600 hover:bg-red-50"
+                    >
+                        <Trash2 size={14} /> Delete Season
+                    </button>
+                )}
+                {canEdit && !seasonDraft && (
+                    <button
+                        onClick={() => setSeasonDraft({ label: '', startsOn: '', endsOn: '' })}
+                        className="ml-auto inline-flex items-center gap-2 px-3 py-2 rounded-xl border border-sky-200 text-sky-700 text-xs font-bold hover:bg-sky-50"
+                    >
+                        <Plus size={14} /> Add Season
+                    </button>
+                )}
+            </div>
+
+            {seasonDraft && (
+                <div className="p-4 border-b border-gray-100 bg-sky-50/40 grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <label className="text-xs font-bold text-gray-600">
+                        Season name
+                        <input
+                            type="text"
+                            value={seasonDraft.label}
+                            onChange={(e) => setSeasonDraft({ ...seasonDraft, label: e.target.value })}
+                            placeholder="Winter hours"
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-sky-500"
+                            autoFocus
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Starts on
+                        <input
+                            type="date"
+                            value={seasonDraft.startsOn}
+                            onChange={(e) => setSeasonDraft({ ...seasonDraft, startsOn: e.target.value })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-sky-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Ends on
+                        <input
+                            type="date"
+                            value={seasonDraft.endsOn}
+                            onChange={(e) => setSeasonDraft({ ...seasonDraft, endsOn: e.target.value })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-sky-500"
+                        />
+                    </label>
+                    <div className="flex items-end justify-end gap-2">
+                        <button
+                            onClick={() => setSeasonDraft(null)}
+                            disabled={saving}
+                            className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleAddSeason}
+                            disabled={saving}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-sky-600 text-white text-xs font-bold hover:bg-sky-700 disabled:opacity-50"
+                        >
+                            {saving && <Loader2 size={14} className="animate-spin" />}
+                            Create Season
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Remount on every switch (and after saves) so the draft starts from the stored hours */}
+            <WeekEditor
+                key={`${siteId ?? 'shared'}-${service}-${seasonStart ?? 'regular'}-${rows.map((r) => r.id ?? '').join()}`}
+                service={service}
+                rows={rows}
+                siteId={siteId}
+                canEdit={canEdit}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { Settings } from 'lucide-react';
+import { ItemCatalogManager } from './ItemCatalogManager';
+import { ServiceScheduleManager } from './ServiceScheduleManager';
+import { ServiceClosureManager } from './ServiceClosureManager';
+import { AutomaticMealRulesManager } from './AutomaticMealRulesManager';
+import { BicycleRepairTypesManager } from './BicycleRepairTypesManager';
+import { LaundryMachinesManager } from './LaundryMachinesManager';
+import { NoShowPolicyManager } from './NoShowPolicyManager';
+import { GuestIdFormatManager } from './GuestIdFormatManager';
+import { SitesManager } from './SitesManager';
+
+/**
+ * ServiceSettingsSection - Dashboard tab grouping the editable
+ * configuration that drives day-to-day services
+ */
+export function ServiceSettingsSection() {
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-gray-100 text-gray-600">
+                    <Settings size={20} />
+                </div>
+                <div>
+                    <h2 className="text-xl font-black text-gray-900">Service Settings</h2>
+                    <p className="text-sm text-gray-500 font-medium">
+                        Changes apply to every device as soon as they are saved.
+                    </p>
+                </div>
+            </div>
+
+            <SitesManager />
+            <ServiceScheduleManager />
+            <ServiceClosureManager />
+            <AutomaticMealRulesManager />
+            <ItemCatalogManager />
+            <BicycleRepairTypesManager />
+            <LaundryMachinesManager />
+            <NoShowPolicyManager />
+            <GuestIdFormatManager />
+        </div>
+    );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Loader2, MapPin, Pencil, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useSitesStore } from '@/stores/useSitesStore';
+import { validateSite, type Site } from '@/lib/utils/sites';
+import { newClientId } from '@/lib/utils/offlineQueue';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+import { cn } from '@/lib/utils/cn';
+
+/**
+ * SitesManager - The locations services run at. Each device picks its site in
+ * the header; records, hours and reports are kept per site.
+ */
+export function SitesManager() {
+    const { sites, isLoading, ensureLoaded, saveSite } = useSitesStore();
+    const canEdit = usePermission('settings.manage');
+    const [draft, setDraft] = useState<Site | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    const startNew = () => {
+        setDraft({ id: newClientId(), name: '', code: '', address: '', isDefault: sites.length === 0, active: true });
+    };
+
+    const updateDraft = (changes: Partial<Site>) => {
+        setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const error = validateSite(draft, sites);
+        if (error) {
+            toast.error(error);
+            return;
+        }
+
+        setSaving(true);
+        const ok = await saveSite({ ...draft, name: draft.name.trim() });
+        setSaving(false);
+        if (ok) {
+            toast.success(`${draft.name.trim()} saved`);
+            setDraft(null);
+        }
+    };
+
+    // The current default can only stop being default by making another site the default
+    const wasDefault = !!draft && sites.some((s) => s.id === draft.id && s.isDefault);
+
+    return (
+        <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+            <div className="p-4 border-b border-gray-100 bg-gray-50 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-emerald-600 text-white">
+                        <MapPin size={20} />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-gray-900 leading-tight">Sites</h3>
+                        <p className="text-xs text-gray-500 font-medium">Locations services run at; each device records services at the site picked in the header</p>
+                    </div>
+                </div>
+                {canEdit && !draft && (
+                    <button
+                        onClick={startNew}
+                        className="inline-flex items-center gap-2 px-3 py-2 rounded-xl bg-emerald-600 text-white text-xs font-bold hover:bg-emerald-700"
+                    >
+                        <Plus size={14} /> Add Site
+                    </button>
+                )}
+            </div>
+
+            {!canEdit && <PermissionNotice permission="settings.manage" className="m-4 mb-0" />}
+
+            {draft && (
+                <div className="p-4 border-b border-gray-100 bg-emerald-50/40 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                    <label className="text-xs font-bold text-gray-600">
+                        Name
+                        <input
+                            type="text"
+                            value={draft.name}
+                            onChange={(e) => updateDraft({ name: e.target.value })}
+                            placeholder="e.g. San Jose"
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-emerald-500"
+                            autoFocus
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600">
+                        Code
+                        <input
+                            type="text"
+                            value={draft.code}
+                            maxLength={4}
+                            onChange={(e) => updateDraft({ code: e.target.value.toUpperCase() })}
+                            placeholder="SJ"
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-mono font-bold uppercase outline-none focus:border-emerald-500"
+                        />
+                    </label>
+                    <label className="text-xs font-bold text-gray-600 lg:col-span-2">
+                        Address
+                        <input
+                            type="text"
+                            value={draft.address || ''}
+                            onChange={(e) => updateDraft({ address: e.target.value })}
+                            className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-emerald-500"
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-bold text-gray-600">
+                        <input
+                            type="checkbox"
+                            checked={draft.isDefault}
+                            disabled={wasDefault}
+                            onChange={(e) => updateDraft({ isDefault: e.target.checked })}
+                            className="w-4 h-4 rounded border-gray-300 text-emerald-600"
+                        />
+                        Default site
+                    </label>
+                    <label className="flex items-center gap-2 text-xs font-bold text-gray-600">
+                        <input
+                            type="checkbox"
+                            checked={draft.active}
+                            onChange={(e) => updateDraft({ active: e.target.checked })}
+                            className="w-4 h-4 rounded border-gray-300 text-emerald-600"
+                        />
+                        Active
+                    </label>
+                    <div className="flex items-end justify-end gap-2 md:col-span-2">
+                        <button
+                            onClick={() => setDraft(null)}
+                            disabled={saving}
+                            className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 text-white text-xs font-bold hover:bg-emerald-700 disabled:opacity-50"
+                        >
+                            {saving && <Loader2 size={14} className="animate-spin" />}
+                            Save Site
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {isLoading && sites.length === 0 ? (
+                <div className="h-32 flex items-center justify-center text-gray-400">
+                    <Loader2 className="animate-spin" />
+                </div>
+            ) : sites.length === 0 ? (
+                <p className="p-4 text-sm text-gray-400">No sites yet. Services are recorded at the default location.</p>
+            ) : (
+                <ul className="divide-y divide-gray-100">
+                    {sites.map((site) => (
+                        <li key={site.id} className={cn('px-4 py-3 flex items-center gap-3', !site.active && 'opacity-50')}>
+                            <span className="px-2 py-0.5 rounded-md bg-emerald-50 text-xs font-mono font-bold text-emerald-700">{site.code}</span>
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold text-sm text-gray-900 truncate">{site.name}</p>
+                                {site.address && <p className="text-[10px] text-gray-400 font-medium truncate">{site.address}</p>}
+                            </div>
+                            {site.isDefault && (
+                                <span className="px-2 py-0.5 rounded-md bg-emerald-100 text-[10px] font-bold uppercase tracking-wider text-emerald-700">
+                                    Default
+                                </span>
+                            )}
+                            {!site.active && (
+                                <span className="px-2 py-0.5 rounded-md bg-gray-100 text-[10px] font-bold uppercase tracking-wider text-gray-500">
+                                    Inactive
+                                </span>
+                            )}
+                            {canEdit && (
+                                <button
+                                    onClick={() => setDraft({ ...site })}
+                                    aria-label={`Edit ${site.name}`}
+                                    className="p-2 rounded-lg text-gray-400 hover:text-emerald-600 hover:bg-emerald-50"
+                                >
+                                    <Pencil size={14} />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
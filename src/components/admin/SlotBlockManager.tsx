@@ -16,6 +16,9 @@ import { useServicesStore } from '@/stores/useServicesStore';
 import { pacificDateStringFrom } from '@/lib/utils/date';
 import { generateShowerSlots, generateLaundrySlots, formatSlotLabel } from '@/lib/utils/serviceSlots';
 import { cn } from '@/lib/utils/cn';
+import { usePermission } from '@/hooks/usePermission';
+import { useServiceSchedule } from '@/hooks/useServiceSchedule';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
 import toast from 'react-hot-toast';
 
 interface SlotBlockManagerProps {
@@ -24,10 +27,12 @@ interface SlotBlockManagerProps {
 
 export function SlotBlockManager({ serviceType }: SlotBlockManagerProps) {
     const [selectedDate, setSelectedDate] = useState(new Date());
+    const schedule = useServiceSchedule();
     const { fetchBlockedSlots, blockSlot, unblockSlot, isSlotBlocked } = useBlockedSlotsStore();
     const { showerRecords, laundryRecords } = useServicesStore();
     const [loading, setLoading] = useState(false);
     const [processingSlot, setProcessingSlot] = useState<string | null>(null);
+    const canBlock = usePermission('slots.block');
 
     // Format date specifically for our logic
     const getDateString = (date: Date) => pacificDateStringFrom(date);
@@ -57,7 +62,7 @@ export function SlotBlockManager({ serviceType }: SlotBlockManagerProps) {
     };
 
     const toggleSlotBlock = async (slotLabel: string) => {
-        if (processingSlot) return;
+        if (processingSlot || !canBlock) return;
 
         const isBlocked = isSlotBlocked(serviceType, slotLabel, dateStr);
         setProcessingSlot(slotLabel);
@@ -97,7 +102,9 @@ export function SlotBlockManager({ serviceType }: SlotBlockManagerProps) {
         }
     };
 
-    const slots = serviceType === 'shower' ? generateShowerSlots(selectedDate) : generateLaundrySlots(selectedDate);
+    const slots = serviceType === 'shower'
+        ? generateShowerSlots(selectedDate, schedule)
+        : generateLaundrySlots(selectedDate, schedule);
 
     return (
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden flex flex-col h-full">
@@ -138,6 +145,10 @@ export function SlotBlockManager({ serviceType }: SlotBlockManagerProps) {
                 </div>
             </div>
 
+            {!canBlock && (
+                <PermissionNotice permission="slots.block" className="m-4 mb-0" />
+            )}
+
             {/* Legend */}
             <div className="px-4 py-3 border-b border-gray-100 flex items-center gap-6 text-xs font-semibold text-gray-500 bg-white">
                 <div className="flex items-center gap-2">
@@ -179,10 +190,11 @@ export function SlotBlockManager({ serviceType }: SlotBlockManagerProps) {
                                 <button
                                     key={slot}
                                     onClick={() => toggleSlotBlock(slot)}
-                                    disabled={isProcessing}
+                                    disabled={isProcessing || !canBlock}
                                     className={cn(
                                         "relative flex flex-col items-center justify-center p-3 rounded-xl border-2 transition-all duration-200 min-h-[80px]",
                                         isProcessing && "opacity-70 cursor-wait",
+                                        !canBlock && "cursor-not-allowed",
                                         isBlocked
                                             ? "bg-red-50 border-red-200 text-red-700 shadow-sm"
                                             : "bg-white border-green-100 text-gray-700 hover:border-green-300 hover:shadow-md hover:-translate-y-0.5"
@@ -0,0 +1,161 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { Loader2, RefreshCw, ShieldCheck, UserCog } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getRoleLabel, USER_ROLES, type UserRole } from '@/lib/auth/types';
+import type { ManagedUser } from '@/lib/auth/profiles';
+import { cn } from '@/lib/utils/cn';
+
+const ROLE_BADGE_STYLES: Record<UserRole, string> = {
+    admin: 'bg-rose-50 text-rose-700 border-rose-200',
+    staff: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+    board: 'bg-indigo-50 text-indigo-700 border-indigo-200',
+    checkin: 'bg-amber-50 text-amber-700 border-amber-200',
+};
+
+export function UserManagementSection() {
+    const { data: session, update } = useSession();
+    const [users, setUsers] = useState<ManagedUser[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [savingId, setSavingId] = useState<string | null>(null);
+
+    const loadUsers = useCallback(async () => {
+        setLoading(true);
+        try {
+            const res = await fetch('/api/admin/users', { cache: 'no-store' });
+            if (!res.ok) throw new Error(`Request failed with ${res.status}`);
+            const body = await res.json();
+            setUsers(body.users || []);
+        } catch (error) {
+            console.error('Failed to load users:', error);
+            toast.error('Failed to load users');
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadUsers();
+    }, [loadUsers]);
+
+    const handleRoleChange = async (user: ManagedUser, role: UserRole) => {
+        if (role === user.role && user.roleSource === 'profile') return;
+        setSavingId(user.id);
+        try {
+            const res = await fetch('/api/admin/users', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ id: user.id, role, email: user.email }),
+            });
+            if (!res.ok) throw new Error(`Request failed with ${res.status}`);
+
+            setUsers((prev) =>
+                prev.map((u) => (u.id === user.id ? { ...u, role, roleSource: 'profile' } : u))
+            );
+            toast.success(`${user.email} is now ${getRoleLabel(role)}`);
+
+            // Refresh our own token immediately; everyone else picks it up on the next session refresh
+            if (session?.user?.id === user.id) {
+                await update();
+            }
+        } catch (error) {
+            console.error('Failed to update role:', error);
+            toast.error('Failed to update role');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 rounded-lg bg-rose-100 text-rose-600">
+                        <UserCog size={20} />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-black text-gray-900">User Management</h2>
+                        <p className="text-sm text-gray-500 font-medium">
+                            Roles are stored in the profiles table. Changes reach signed-in users within a few minutes.
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={loadUsers}
+                    disabled={loading}
+                    className="inline-flex items-center gap-2 px-4 py-2 rounded-xl border border-gray-200 bg-white text-sm font-bold text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                >
+                    <RefreshCw size={14} className={loading ? 'animate-spin' : ''} />
+                    Refresh
+                </button>
+            </div>
+
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+                {loading ? (
+                    <div className="h-40 flex items-center justify-center text-gray-400">
+                        <Loader2 className="animate-spin" />
+                    </div>
+                ) : users.length === 0 ? (
+                    <div className="p-8 text-center text-sm font-medium text-gray-500">No users found.</div>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 text-[10px] font-black uppercase tracking-widest text-gray-500">
+                            <tr>
+                                <th className="px-4 py-3 text-left">User</th>
+                                <th className="px-4 py-3 text-left">Role</th>
+                                <th className="px-4 py-3 text-left hidden md:table-cell">Last Sign-in</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {users.map((user) => {
+                                const isSaving = savingId === user.id;
+                                return (
+                                    <tr key={user.id}>
+                                        <td className="px-4 py-3">
+                                            <div className="font-bold text-gray-900">{user.name}</div>
+                                            <div className="text-xs text-gray-500">{user.email}</div>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex items-center gap-2">
+                                                <select
+                                                    aria-label={`Role for ${user.email}`}
+                                                    value={user.role}
+                                                    disabled={isSaving}
+                                                    onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+                                                    className={cn(
+                                                        'rounded-lg border px-2 py-1 text-xs font-bold outline-none',
+                                                        ROLE_BADGE_STYLES[user.role]
+                                                    )}
+                                                >
+                                                    {USER_ROLES.map((role) => (
+                                                        <option key={role} value={role}>{getRoleLabel(role)}</option>
+                                                    ))}
+                                                </select>
+                                                {isSaving ? (
+                                                    <Loader2 size={14} className="animate-spin text-gray-400" />
+                                                ) : user.roleSource === 'profile' ? (
+                                                    <span className="inline-flex items-center gap-1 text-[10px] font-bold text-emerald-600" title="Role assigned in profiles">
+                                                        <ShieldCheck size={12} /> Assigned
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-[10px] font-bold text-gray-400" title="No profile role yet; inferred from the email prefix">
+                                                        From email
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-3 text-xs text-gray-500 hidden md:table-cell">
+                                            {user.lastSignInAt ? new Date(user.lastSignInAt).toLocaleString() : 'Never'}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
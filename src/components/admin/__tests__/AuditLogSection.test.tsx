@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { AuditLogSection, getChangedFields } from '../AuditLogSection';
+import type { AuditLogEntry } from '@/stores/useAuditLogStore';
+
+const mockFetchEntries = vi.fn();
+const mockSetFilters = vi.fn();
+const storeState = {
+    entries: [] as AuditLogEntry[],
+    filters: {},
+    loading: false,
+    setFilters: mockSetFilters,
+    fetchEntries: mockFetchEntries,
+};
+
+vi.mock('@/stores/useAuditLogStore', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@/stores/useAuditLogStore')>();
+    const useAuditLogStore = Object.assign(() => storeState, { getState: () => storeState });
+    return { ...actual, useAuditLogStore };
+});
+
+vi.mock('@/stores/useGuestsStore', () => ({
+    useGuestsStore: (selector: (s: unknown) => unknown) =>
+        selector({
+            guests: [
+                { id: 'guest-1', guestId: 'G001', name: 'Jane Doe', firstName: 'Jane', lastName: 'Doe', preferredName: '' },
+            ],
+        }),
+}));
+
+const entry = (overrides: Partial<AuditLogEntry>): AuditLogEntry => ({
+    id: '1',
+    occurredAt: '2026-10-01T17:00:00Z',
+    tableName: 'guests',
+    recordId: 'guest-1',
+    action: 'update',
+    guestId: 'guest-1',
+    actorId: 'user-1',
+    actorEmail: 'staff@example.com',
+    actorRole: 'staff',
+    oldData: null,
+    newData: null,
+    ...overrides,
+});
+
+describe('getChangedFields', () => {
+    it('lists only fields whose values changed, ignoring updated_at', () => {
+        const changes = getChangedFields({
+            oldData: { ban_reason: null, notes: 'same', updated_at: 'a' },
+            newData: { ban_reason: 'Fighting', notes: 'same', updated_at: 'b' },
+        });
+
+        expect(changes).toEqual([{ field: 'ban_reason', before: null, after: 'Fighting' }]);
+    });
+
+    it('treats every field of a deleted row as removed', () => {
+        const changes = getChangedFields({ oldData: { id: 's1', status: 'booked' }, newData: null });
+
+        expect(changes.map((c) => c.field)).toEqual(['id', 'status']);
+        expect(changes.every((c) => c.after === undefined)).toBe(true);
+    });
+});
+
+describe('AuditLogSection', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        storeState.entries = [];
+        storeState.filters = {};
+        storeState.loading = false;
+    });
+
+    it('loads entries on mount and shows an empty state', () => {
+        render(<AuditLogSection />);
+
+        expect(mockFetchEntries).toHaveBeenCalled();
+        expect(screen.getByText('No changes match these filters.')).toBeDefined();
+    });
+
+    it('shows who changed what and expands to the field diff', () => {
+        storeState.entries = [
+            entry({
+                oldData: { ban_reason: null },
+                newData: { ban_reason: 'Fighting' },
+            }),
+        ];
+        render(<AuditLogSection />);
+
+        expect(screen.getByText('Updated')).toBeDefined();
+        expect(screen.getByText('Jane Doe')).toBeDefined();
+        expect(screen.getByText('staff@example.com')).toBeDefined();
+
+        fireEvent.click(screen.getByText('Jane Doe'));
+        expect(screen.getByText('ban_reason')).toBeDefined();
+        expect(screen.getByText('Fighting')).toBeDefined();
+    });
+
+    it('filters by record type', () => {
+        render(<AuditLogSection />);
+
+        fireEvent.change(screen.getByLabelText('Filter by record type'), { target: { value: 'shower_reservations' } });
+
+        expect(mockSetFilters).toHaveBeenCalledWith({ tableName: 'shower_reservations' });
+    });
+
+    it('filters by a guest picked from search', () => {
+        render(<AuditLogSection />);
+
+        fireEvent.change(screen.getByLabelText('Filter by guest'), { target: { value: 'Jane' } });
+        fireEvent.click(screen.getByText('G001'));
+
+        expect(mockSetFilters).toHaveBeenCalledWith({ guestId: 'guest-1' });
+    });
+});
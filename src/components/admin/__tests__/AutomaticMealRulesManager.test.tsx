@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import { AutomaticMealRulesManager, validateRule } from '../AutomaticMealRulesManager';
+import type { AutomaticMealEntry, AutomaticMealRule } from '@/lib/utils/automaticMealRules';
+
+const mockEnsureLoaded = vi.fn();
+const mockSaveRule = vi.fn();
+const mockLoadHistory = vi.fn();
+const mockRecordDueMeals = vi.fn();
+const storeState = {
+    rules: [] as AutomaticMealRule[],
+    history: [] as AutomaticMealEntry[],
+    isLoading: false,
+    ensureLoaded: mockEnsureLoaded,
+    saveRule: mockSaveRule,
+    loadHistory: mockLoadHistory,
+    recordDueMeals: mockRecordDueMeals,
+};
+
+vi.mock('@/stores/useAutomaticMealRulesStore', () => ({
+    useAutomaticMealRulesStore: Object.assign(() => storeState, { getState: () => storeState }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const MONDAY_RV: AutomaticMealRule = {
+    id: 'r1',
+    weekday: 1,
+    mealType: 'rv',
+    quantity: 100,
+    note: 'Automatic Entry (Mon)',
+    startsOn: null,
+    endsOn: null,
+    active: true,
+};
+
+describe('validateRule', () => {
+    it('requires a positive whole quantity and a forward date range', () => {
+        expect(validateRule({ ...MONDAY_RV, quantity: 0 })).toBe('Quantity must be a whole number above zero');
+        expect(validateRule({ ...MONDAY_RV, quantity: 2.5 })).toBe('Quantity must be a whole number above zero');
+        expect(validateRule({ ...MONDAY_RV, startsOn: '2025-06-01', endsOn: '2025-05-01' })).toBe('End date must be on or after the start date');
+        expect(validateRule(MONDAY_RV)).toBeNull();
+    });
+});
+
+describe('AutomaticMealRulesManager', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        storeState.rules = [
+            MONDAY_RV,
+            { ...MONDAY_RV, id: 'r2', weekday: 6, mealType: 'lunch_bag', note: null, active: false, endsOn: '2025-12-31' },
+        ];
+        storeState.history = [
+            { id: 'm1', mealType: 'rv', quantity: 100, servedOn: '2025-01-06', note: null, ruleId: 'r1', recordedAt: null },
+            { id: 'm2', mealType: 'rv', quantity: 40, servedOn: '2025-01-01', note: null, ruleId: null, recordedAt: null },
+        ];
+        mockSaveRule.mockResolvedValue(true);
+        mockRecordDueMeals.mockResolvedValue(3);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('reloads rules and lists them with their schedule', () => {
+        render(<AutomaticMealRulesManager />);
+
+        expect(mockEnsureLoaded).toHaveBeenCalledWith({ force: true });
+        expect(screen.getByText('100 RV Meals every Monday')).toBeDefined();
+        expect(screen.getByText('100 Lunch Bags every Saturday')).toBeDefined();
+        expect(screen.getByText('Paused')).toBeDefined();
+        expect(screen.getByText(/Until Dec 31, 2025/)).toBeDefined();
+    });
+
+    it('adds a rule', async () => {
+        render(<AutomaticMealRulesManager />);
+
+        fireEvent.click(screen.getByText('Add Rule'));
+        fireEvent.change(screen.getByLabelText('Day'), { target: { value: '3' } });
+        fireEvent.change(screen.getByLabelText('Quantity'), { target: { value: '40' } });
+        fireEvent.change(screen.getByLabelText('Note'), { target: { value: 'Automatic Entry (Wed)' } });
+        fireEvent.click(screen.getByText('Save Rule'));
+
+        await waitFor(() => expect(mockSaveRule).toHaveBeenCalled());
+        expect(mockSaveRule).toHaveBeenCalledWith(expect.objectContaining({
+            weekday: 3,
+            mealType: 'rv',
+            quantity: 40,
+            note: 'Automatic Entry (Wed)',
+            active: true,
+        }));
+        expect(mockSaveRule.mock.calls[0][0].id).toBeUndefined();
+        expect(toast.success).toHaveBeenCalledWith('Rule saved');
+    });
+
+    it('edits and pauses existing rules', async () => {
+        render(<AutomaticMealRulesManager />);
+
+        fireEvent.click(screen.getByLabelText('Edit 100 RV Meals every Monday'));
+        expect((screen.getByLabelText('Quantity') as HTMLInputElement).value).toBe('100');
+
+        fireEvent.click(screen.getByText('Pause'));
+        await waitFor(() => expect(mockSaveRule).toHaveBeenCalledWith({ ...MONDAY_RV, active: false }));
+        expect(toast.success).toHaveBeenCalledWith('Rule paused');
+    });
+
+    it('shows which rule created each automatic entry', () => {
+        render(<AutomaticMealRulesManager />);
+
+        fireEvent.click(screen.getByText('history'));
+
+        expect(mockLoadHistory).toHaveBeenCalled();
+        expect(screen.getByText('Jan 6, 2025')).toBeDefined();
+        expect(screen.getByText('100 RV Meals every Monday')).toBeDefined();
+        expect(screen.getByText('Removed rule')).toBeDefined();
+    });
+
+    it('records due meals on demand', async () => {
+        render(<AutomaticMealRulesManager />);
+
+        fireEvent.click(screen.getByText('Record Now'));
+
+        await waitFor(() => expect(toast.success).toHaveBeenCalledWith('Recorded 3 automatic entries'));
+    });
+
+    it('is read-only without permission to manage settings', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<AutomaticMealRulesManager />);
+
+        expect(screen.queryByText('Add Rule')).toBeNull();
+        expect(screen.queryByText('Record Now')).toBeNull();
+        expect(screen.queryByText('Pause')).toBeNull();
+    });
+});
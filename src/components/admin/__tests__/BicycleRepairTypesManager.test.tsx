@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import { BicycleRepairTypesManager, validateRepairType } from '../BicycleRepairTypesManager';
+import { DEFAULT_BICYCLE_REPAIR_TYPES, type BicycleRepairType } from '@/stores/useBicycleRepairTypesStore';
+
+const mockEnsureLoaded = vi.fn();
+const mockSaveType = vi.fn();
+const storeState = {
+    types: [
+        ...DEFAULT_BICYCLE_REPAIR_TYPES,
+        { key: 'fender', label: 'Fender', category: 'accessory', defaultPriority: 2, estimatedMinutes: 10, active: false, sortOrder: 200 },
+    ],
+    isLoading: false,
+    ensureLoaded: mockEnsureLoaded,
+    saveType: mockSaveType,
+};
+
+vi.mock('@/stores/useBicycleRepairTypesStore', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@/stores/useBicycleRepairTypesStore')>();
+    const useBicycleRepairTypesStore = Object.assign(() => storeState, { getState: () => storeState });
+    return { ...actual, useBicycleRepairTypesStore };
+});
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+describe('validateRepairType', () => {
+    const draft = (overrides: Partial<BicycleRepairType>): BicycleRepairType => ({
+        ...DEFAULT_BICYCLE_REPAIR_TYPES[1],
+        ...overrides,
+    });
+
+    it('requires a label and a unique key for new types', () => {
+        expect(validateRepairType(draft({ label: ' ' }), [], true)).toBe('Label is required');
+        expect(validateRepairType(draft({}), DEFAULT_BICYCLE_REPAIR_TYPES, true)).toBe('A repair type with this name already exists');
+        expect(validateRepairType(draft({}), DEFAULT_BICYCLE_REPAIR_TYPES, false)).toBeNull();
+    });
+
+    it('rejects a label another type already uses', () => {
+        expect(validateRepairType(draft({ label: 'new tube' }), DEFAULT_BICYCLE_REPAIR_TYPES, false))
+            .toBe('Another repair type already uses this label');
+    });
+
+    it('rejects negative estimates', () => {
+        expect(validateRepairType(draft({ estimatedMinutes: -5 }), [], false)).toBe('Estimated minutes cannot be negative');
+    });
+});
+
+describe('BicycleRepairTypesManager', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockSaveType.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('reloads the catalog and lists types with estimates and retired types', () => {
+        render(<BicycleRepairTypesManager />);
+
+        expect(mockEnsureLoaded).toHaveBeenCalledWith({ force: true });
+        expect(screen.getByText('Flat Tire')).toBeDefined();
+        expect(screen.getByText('~45m')).toBeDefined();
+        expect(screen.getByText('Priority 2')).toBeDefined();
+        expect(screen.getAllByText('Retired')).toHaveLength(1);
+    });
+
+    it('adds a new type with a key derived from its label', async () => {
+        render(<BicycleRepairTypesManager />);
+
+        fireEvent.click(screen.getByText('Add Type'));
+        fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'Bottom Bracket' } });
+        fireEvent.change(screen.getByLabelText('Category'), { target: { value: 'repair' } });
+        fireEvent.change(screen.getByLabelText('Estimated minutes'), { target: { value: '40' } });
+        fireEvent.change(screen.getByLabelText(/Default priority/), { target: { value: '1' } });
+        fireEvent.click(screen.getByText('Save Type'));
+
+        await waitFor(() => expect(mockSaveType).toHaveBeenCalled());
+        expect(mockSaveType).toHaveBeenCalledWith(expect.objectContaining({
+            key: 'bottom_bracket',
+            label: 'Bottom Bracket',
+            category: 'repair',
+            estimatedMinutes: 40,
+            defaultPriority: 1,
+        }));
+    });
+
+    it('retires a type without changing its key', async () => {
+        render(<BicycleRepairTypesManager />);
+
+        fireEvent.click(screen.getByLabelText('Edit Lock'));
+        fireEvent.click(screen.getByLabelText('Offered when logging repairs'));
+        fireEvent.click(screen.getByText('Save Type'));
+
+        await waitFor(() => expect(mockSaveType).toHaveBeenCalled());
+        expect(mockSaveType).toHaveBeenCalledWith(expect.objectContaining({ key: 'lock', active: false }));
+    });
+
+    it('is read-only without permission to change settings', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<BicycleRepairTypesManager />);
+
+        expect(screen.queryByText('Add Type')).toBeNull();
+        expect(screen.queryByLabelText('Edit Lock')).toBeNull();
+        expect(screen.getByText(/change service settings/i)).toBeDefined();
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import React from 'react';
+import { DataExportSection } from '../DataExportSection';
+import { useBicycleRepairTypesStore, DEFAULT_BICYCLE_REPAIR_TYPES } from '@/stores/useBicycleRepairTypesStore';
+
+const bicycleRecords = [
+    {
+        id: 'b1',
+        guestId: 'g1',
+        date: '2026-10-19T17:00:00Z',
+        repairTypes: ['flat tire', 'Lock', 'Spoke Repair'],
+        status: 'done',
+        notes: 'Front\nwheel',
+        parts: [{ name: 'Tube', quantity: 2, unitCost: 6 }],
+        mechanicName: 'Sam',
+        laborMinutes: 30,
+    },
+];
+
+vi.mock('@/stores/useServicesStore', () => ({
+    useServicesStore: vi.fn(() => ({ showerRecords: [], laundryRecords: [], bicycleRecords })),
+}));
+
+vi.mock('@/stores/useGuestsStore', () => ({
+    useGuestsStore: vi.fn(() => ({ guests: [{ id: 'g1', name: 'John Doe' }] })),
+}));
+
+vi.mock('@/stores/useMealsStore', () => ({
+    useMealsStore: vi.fn(() => ({ mealRecords: [] })),
+}));
+
+vi.mock('@/stores/useDonationsStore', () => ({
+    useDonationsStore: vi.fn(() => ({ donationRecords: [] })),
+}));
+
+describe('DataExportSection bicycle export', () => {
+    let csv = '';
+
+    beforeEach(() => {
+        csv = '';
+        vi.spyOn(globalThis, 'Blob').mockImplementation(function (this: unknown, parts?: BlobPart[]) {
+            csv = String(parts?.[0] ?? '');
+            return {} as Blob;
+        } as any);
+        URL.createObjectURL = vi.fn(() => 'blob:export');
+        URL.revokeObjectURL = vi.fn();
+        useBicycleRepairTypesStore.setState({
+            types: DEFAULT_BICYCLE_REPAIR_TYPES.map((t) => (t.key === 'lock' ? { ...t, active: false } : t)),
+            isLoaded: true,
+        });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('resolves repair types through the catalog and includes parts and labor', async () => {
+        render(<DataExportSection />);
+
+        const card = screen.getByText('Bicycle Repairs').closest('div') as HTMLElement;
+        fireEvent.click(within(card).getByText('Download CSV'));
+
+        await waitFor(() => expect(csv).not.toBe(''));
+        const [header, row] = csv.split('\n');
+        expect(header).toBe('Date,Guest ID,Guest Name,Repair Types,Categories,Status,Mechanic,Labor Minutes,Parts,Parts Cost,Notes');
+        // Retired types keep their label; unknown strings are exported as stored
+        expect(row).toContain('"Flat Tire, Lock, Spoke Repair"');
+        expect(row).toContain('"repair, accessory, uncategorized"');
+        expect(row).toContain(',Sam,30,2× Tube,12.00,Front wheel');
+    });
+});
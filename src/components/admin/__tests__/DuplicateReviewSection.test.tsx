@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { DuplicateReviewSection } from '../DuplicateReviewSection';
+import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useGuestMergeStore } from '@/stores/useGuestMergeStore';
+
+const guests = [
+    { id: 'g1', guestId: 'G001', firstName: 'Robert', lastName: 'Smith', preferredName: '', location: 'Mountain View', notes: '', createdAt: '2025-01-01T00:00:00Z' },
+    { id: 'g2', guestId: 'G002', firstName: 'Bob', lastName: 'Smith', preferredName: '', location: 'Mountain View', notes: 'Uses a walker', createdAt: '2025-06-01T00:00:00Z' },
+    { id: 'g3', guestId: 'G003', firstName: 'Maria', lastName: 'Lopez', preferredName: '', location: 'Mountain View', notes: '', createdAt: '2025-02-01T00:00:00Z' },
+];
+
+const mockLoadRecentMerges = vi.fn();
+const mockMergeGuests = vi.fn();
+const mockUndoMerge = vi.fn();
+
+const scan = async () => {
+    fireEvent.click(screen.getByText('Scan for Duplicates'));
+    await screen.findByText('Possible Duplicates (1)');
+};
+
+describe('DuplicateReviewSection', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockMergeGuests.mockResolvedValue({ id: 'm1' });
+        mockUndoMerge.mockResolvedValue(true);
+        useGuestsStore.setState({ guests: guests as any });
+        useGuestMergeStore.setState({
+            recentMerges: [],
+            dismissedPairs: [],
+            loadRecentMerges: mockLoadRecentMerges,
+            mergeGuests: mockMergeGuests,
+            undoMerge: mockUndoMerge,
+        });
+    });
+
+    it('lists likely duplicate pairs after a scan', async () => {
+        render(<DuplicateReviewSection />);
+        expect(mockLoadRecentMerges).toHaveBeenCalled();
+
+        await scan();
+        expect(screen.getByText('Robert Smith / Bob Smith')).toBeDefined();
+        expect(screen.getByText(/Nickname match/)).toBeDefined();
+    });
+
+    it('merges the newer record into the older one with the chosen fields', async () => {
+        vi.spyOn(window, 'confirm').mockReturnValue(true);
+        render(<DuplicateReviewSection />);
+        await scan();
+        fireEvent.click(screen.getByText('Robert Smith / Bob Smith'));
+
+        expect((screen.getByLabelText('Keep Robert Smith') as HTMLInputElement).checked).toBe(true);
+        // Blank notes on the kept record are filled from the duplicate by default
+        expect((screen.getByLabelText('Use Notes from Bob Smith') as HTMLInputElement).checked).toBe(true);
+        fireEvent.click(screen.getByLabelText('Use First Name from Bob Smith'));
+        fireEvent.click(screen.getByText('Merge Guests'));
+
+        await waitFor(() => {
+            expect(mockMergeGuests).toHaveBeenCalledWith('g1', 'g2', { first_name: 'Bob', notes: 'Uses a walker' }, 'test@example.com');
+        });
+    });
+
+    it('can keep the newer record instead', async () => {
+        vi.spyOn(window, 'confirm').mockReturnValue(true);
+        render(<DuplicateReviewSection />);
+        await scan();
+        fireEvent.click(screen.getByText('Robert Smith / Bob Smith'));
+        fireEvent.click(screen.getByLabelText('Keep Bob Smith'));
+        fireEvent.click(screen.getByText('Merge Guests'));
+
+        await waitFor(() => expect(mockMergeGuests).toHaveBeenCalledWith('g2', 'g1', {}, 'test@example.com'));
+    });
+
+    it('stops suggesting a pair marked as different guests', async () => {
+        render(<DuplicateReviewSection />);
+        await scan();
+        fireEvent.click(screen.getByText('Robert Smith / Bob Smith'));
+        fireEvent.click(screen.getByText('Not a Duplicate'));
+
+        expect(await screen.findByText('Possible Duplicates (0)')).toBeDefined();
+        expect(useGuestMergeStore.getState().dismissedPairs).toEqual(['g1:g2']);
+    });
+
+    it('offers undo only while the window is open', async () => {
+        useGuestMergeStore.setState({
+            recentMerges: [
+                { id: 'm1', keptGuestId: 'g1', mergedGuestId: 'gx', mergedGuestName: 'Bobby Smith', movedRecordCount: 4, mergedBy: 'staff@example.org', mergedAt: new Date().toISOString(), undoUntil: new Date(Date.now() + 3600000).toISOString(), undoneAt: null },
+                { id: 'm2', keptGuestId: 'g3', mergedGuestId: 'gy', mergedGuestName: 'Mari Lopez', movedRecordCount: 1, mergedBy: null, mergedAt: '2026-01-01T00:00:00Z', undoUntil: '2026-01-02T00:00:00Z', undoneAt: null },
+            ],
+        });
+        render(<DuplicateReviewSection />);
+
+        expect(screen.getByText('Bobby Smith → Robert Smith')).toBeDefined();
+        expect(screen.getAllByText(/^Undo/)).toHaveLength(1);
+        fireEvent.click(screen.getByText(/^Undo/));
+        await waitFor(() => expect(screen.getByText(/^Undo/).closest('button')?.disabled).toBe(false));
+        expect(mockUndoMerge).toHaveBeenCalledWith('m1');
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import toast from 'react-hot-toast';
+import { useSession } from 'next-auth/react';
+import { GuestIdFormatManager } from '../GuestIdFormatManager';
+import { DEFAULT_GUEST_ID_FORMAT } from '@/lib/utils/guestIdFormat';
+
+const mockLoadSettings = vi.fn();
+const mockUpdateGuestIdFormat = vi.fn();
+const storeState = {
+    guestIdFormat: DEFAULT_GUEST_ID_FORMAT,
+    loadSettings: mockLoadSettings,
+    updateGuestIdFormat: mockUpdateGuestIdFormat,
+};
+
+vi.mock('@/stores/useSettingsStore', () => ({
+    useSettingsStore: () => storeState,
+}));
+
+describe('GuestIdFormatManager', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockUpdateGuestIdFormat.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('loads settings and shows an example ID', () => {
+        render(<GuestIdFormatManager />);
+
+        expect(mockLoadSettings).toHaveBeenCalled();
+        expect(screen.getByText(/^G[A-Z0-9]+042$/)).toBeDefined();
+        expect(screen.queryByText('Save Format')).toBeNull();
+    });
+
+    it('saves a site code and check character', async () => {
+        render(<GuestIdFormatManager />);
+
+        fireEvent.change(screen.getByLabelText('Site code'), { target: { value: 'mv' } });
+        fireEvent.click(screen.getByLabelText('Check character'));
+        expect(screen.getByText(/^GMV[A-Z0-9]+042[A-Z0-9]$/)).toBeDefined();
+        fireEvent.click(screen.getByText('Save Format'));
+
+        await waitFor(() => expect(mockUpdateGuestIdFormat).toHaveBeenCalledWith({
+            prefix: 'G',
+            siteCode: 'MV',
+            checkDigit: true,
+        }));
+        expect(toast.success).toHaveBeenCalledWith('Guest ID format saved');
+    });
+
+    it('rejects an empty prefix without saving', () => {
+        render(<GuestIdFormatManager />);
+
+        fireEvent.change(screen.getByLabelText('Prefix'), { target: { value: '' } });
+        fireEvent.click(screen.getByText('Save Format'));
+
+        expect(toast.error).toHaveBeenCalledWith('Prefix is required');
+        expect(mockUpdateGuestIdFormat).not.toHaveBeenCalled();
+    });
+
+    it('is read-only without permission to change settings', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<GuestIdFormatManager />);
+
+        expect((screen.getByLabelText('Prefix') as HTMLInputElement).disabled).toBe(true);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import { ItemCatalogManager, validateCatalogItem } from '../ItemCatalogManager';
+import { DEFAULT_ITEM_CATALOG, type CatalogItem } from '@/stores/useItemCatalogStore';
+
+const mockEnsureLoaded = vi.fn();
+const mockSaveItem = vi.fn();
+const storeState = {
+    items: DEFAULT_ITEM_CATALOG,
+    isLoading: false,
+    ensureLoaded: mockEnsureLoaded,
+    saveItem: mockSaveItem,
+};
+
+vi.mock('@/stores/useItemCatalogStore', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@/stores/useItemCatalogStore')>();
+    const useItemCatalogStore = Object.assign(() => storeState, { getState: () => storeState });
+    return { ...actual, useItemCatalogStore };
+});
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+describe('validateCatalogItem', () => {
+    const draft = (overrides: Partial<CatalogItem>): CatalogItem => ({
+        ...DEFAULT_ITEM_CATALOG[1],
+        ...overrides,
+    });
+
+    it('requires a label and a unique key for new items', () => {
+        expect(validateCatalogItem(draft({ label: ' ' }), [], true)).toBe('Label is required');
+        expect(validateCatalogItem(draft({}), ['jacket'], true)).toBe('An item with this name already exists');
+        expect(validateCatalogItem(draft({}), ['jacket'], false)).toBeNull();
+    });
+
+    it('requires a positive limit for day and monthly policies', () => {
+        expect(validateCatalogItem(draft({ cooldownDays: 0 }), [], false)).toBe('Days must be at least 1');
+        expect(
+            validateCatalogItem(draft({ cooldownType: 'monthly_cap', monthlyLimit: null }), [], false)
+        ).toBe('Monthly limit must be at least 1');
+    });
+});
+
+describe('ItemCatalogManager', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockSaveItem.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('reloads the catalog and lists every item with its limit', () => {
+        render(<ItemCatalogManager />);
+
+        expect(mockEnsureLoaded).toHaveBeenCalledWith({ force: true });
+        expect(screen.getByText('T-Shirt')).toBeDefined();
+        expect(screen.getByText('Weekly (Mon)')).toBeDefined();
+        expect(screen.getByText('15 Days')).toBeDefined();
+        expect(screen.getAllByText('Inactive')).toHaveLength(3);
+    });
+
+    it('adds a new item with a key derived from its label', async () => {
+        render(<ItemCatalogManager />);
+
+        fireEvent.click(screen.getByText('Add Item'));
+        fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'Rain Poncho' } });
+        fireEvent.change(screen.getByLabelText('Limit'), { target: { value: 'monthly_cap' } });
+        fireEvent.change(screen.getByLabelText('Per month'), { target: { value: '2' } });
+        fireEvent.click(screen.getByText('Save Item'));
+
+        await waitFor(() => expect(mockSaveItem).toHaveBeenCalled());
+        expect(mockSaveItem).toHaveBeenCalledWith(
+            expect.objectContaining({ key: 'rain_poncho', label: 'Rain Poncho', cooldownType: 'monthly_cap', monthlyLimit: 2 })
+        );
+    });
+
+    it('edits an existing item without changing its key', async () => {
+        render(<ItemCatalogManager />);
+
+        fireEvent.click(screen.getByLabelText('Edit Jacket'));
+        fireEvent.change(screen.getByLabelText('Label'), { target: { value: 'Winter Jacket' } });
+        fireEvent.change(screen.getByLabelText('Days between'), { target: { value: '21' } });
+        fireEvent.click(screen.getByText('Save Item'));
+
+        await waitFor(() => expect(mockSaveItem).toHaveBeenCalled());
+        expect(mockSaveItem).toHaveBeenCalledWith(
+            expect.objectContaining({ key: 'jacket', label: 'Winter Jacket', cooldownDays: 21 })
+        );
+    });
+
+    it('is read-only without permission to change settings', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<ItemCatalogManager />);
+
+        expect(screen.queryByText('Add Item')).toBeNull();
+        expect(screen.queryByLabelText('Edit Jacket')).toBeNull();
+        expect(screen.getByText(/change service settings/i)).toBeDefined();
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import { LaundryMachinesManager, validateMachine } from '../LaundryMachinesManager';
+import type { LaundryMachine } from '@/lib/utils/laundryMachines';
+
+const machines: LaundryMachine[] = [
+    { id: 'w1', kind: 'washer', number: 1, cycleMinutes: 35, outOfService: false, note: null },
+    { id: 'w2', kind: 'washer', number: 2, cycleMinutes: 40, outOfService: true, note: 'Drum leaks' },
+    { id: 'd1', kind: 'dryer', number: 1, cycleMinutes: 50, outOfService: false, note: null },
+];
+
+const mockEnsureLoaded = vi.fn();
+const mockSaveMachine = vi.fn();
+const storeState = {
+    machines,
+    isLoading: false,
+    ensureLoaded: mockEnsureLoaded,
+    saveMachine: mockSaveMachine,
+};
+
+vi.mock('@/stores/useLaundryMachinesStore', () => {
+    const useLaundryMachinesStore = Object.assign(() => storeState, { getState: () => storeState });
+    return { useLaundryMachinesStore };
+});
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+describe('validateMachine', () => {
+    it('requires a positive, unused number and a cycle length', () => {
+        expect(validateMachine({ ...machines[0], id: 'new', number: 0 }, machines)).toBe('Machine number must be a whole number above 0');
+        expect(validateMachine({ ...machines[0], id: 'new', number: 2 }, machines)).toBe('Washer 2 already exists');
+        expect(validateMachine({ ...machines[0], cycleMinutes: 0 }, machines)).toBe('Cycle length must be at least 1 minute');
+        expect(validateMachine({ ...machines[0], id: 'new', kind: 'dryer', number: 2 }, machines)).toBeNull();
+    });
+});
+
+describe('LaundryMachinesManager', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockSaveMachine.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('reloads and lists machines with cycle lengths and out-of-service flags', () => {
+        render(<LaundryMachinesManager />);
+
+        expect(mockEnsureLoaded).toHaveBeenCalledWith({ force: true });
+        expect(screen.getByText('Washer 1')).toBeDefined();
+        expect(screen.getByText('Dryer 1')).toBeDefined();
+        expect(screen.getByText('40 min cycle')).toBeDefined();
+        expect(screen.getByText('Drum leaks')).toBeDefined();
+        expect(screen.getAllByText('Out of service')).toHaveLength(1);
+    });
+
+    it('adds the next washer number with the default cycle length', async () => {
+        render(<LaundryMachinesManager />);
+
+        fireEvent.click(screen.getByText('Add Washer'));
+        expect((screen.getByLabelText('Washer number') as HTMLInputElement).value).toBe('3');
+        fireEvent.click(screen.getByText('Save Machine'));
+
+        await waitFor(() => expect(mockSaveMachine).toHaveBeenCalled());
+        expect(mockSaveMachine).toHaveBeenCalledWith(expect.objectContaining({
+            kind: 'washer',
+            number: 3,
+            cycleMinutes: 35,
+            outOfService: false,
+        }));
+    });
+
+    it('marks a machine out of service', async () => {
+        render(<LaundryMachinesManager />);
+
+        fireEvent.click(screen.getByLabelText('Edit Dryer 1'));
+        fireEvent.click(screen.getByLabelText('Out of service'));
+        fireEvent.click(screen.getByText('Save Machine'));
+
+        await waitFor(() => expect(mockSaveMachine).toHaveBeenCalled());
+        expect(mockSaveMachine).toHaveBeenCalledWith(expect.objectContaining({ id: 'd1', outOfService: true }));
+    });
+
+    it('is read-only without permission to change settings', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<LaundryMachinesManager />);
+
+        expect(screen.queryByText('Add Washer')).toBeNull();
+        expect(screen.queryByLabelText('Edit Washer 1')).toBeNull();
+        expect(screen.getByText(/change service settings/i)).toBeDefined();
+    });
+});
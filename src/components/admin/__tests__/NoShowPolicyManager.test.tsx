@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import toast from 'react-hot-toast';
+import { useSession } from 'next-auth/react';
+import { NoShowPolicyManager } from '../NoShowPolicyManager';
+import { DEFAULT_NO_SHOW_POLICY } from '@/lib/utils/noShowPolicy';
+
+const mockLoadSettings = vi.fn();
+const mockUpdateNoShowPolicy = vi.fn();
+const storeState = {
+    noShowPolicy: DEFAULT_NO_SHOW_POLICY,
+    loadSettings: mockLoadSettings,
+    updateNoShowPolicy: mockUpdateNoShowPolicy,
+};
+
+vi.mock('@/stores/useSettingsStore', () => ({
+    useSettingsStore: () => storeState,
+}));
+
+describe('NoShowPolicyManager', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockUpdateNoShowPolicy.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('loads settings and describes the current policy', () => {
+        render(<NoShowPolicyManager />);
+
+        expect(mockLoadSettings).toHaveBeenCalled();
+        expect(screen.getByText('3 no-shows in 30 days → waitlist only for 7 days')).toBeDefined();
+        expect(screen.queryByText('Save Policy')).toBeNull();
+    });
+
+    it('saves an edited policy', async () => {
+        render(<NoShowPolicyManager />);
+
+        fireEvent.change(screen.getByLabelText('No-show limit'), { target: { value: '2' } });
+        fireEvent.change(screen.getByLabelText('Waitlist-only days'), { target: { value: '14' } });
+        fireEvent.click(screen.getByText('Save Policy'));
+
+        await waitFor(() => expect(mockUpdateNoShowPolicy).toHaveBeenCalledWith({
+            enabled: true,
+            threshold: 2,
+            windowDays: 30,
+            restrictionDays: 14,
+        }));
+        expect(toast.success).toHaveBeenCalledWith('No-show policy saved');
+    });
+
+    it('rejects an invalid policy without saving', () => {
+        render(<NoShowPolicyManager />);
+
+        fireEvent.change(screen.getByLabelText('Within days'), { target: { value: '0' } });
+        fireEvent.click(screen.getByText('Save Policy'));
+
+        expect(toast.error).toHaveBeenCalledWith('Window must be at least 1 day');
+        expect(mockUpdateNoShowPolicy).not.toHaveBeenCalled();
+    });
+
+    it('is read-only without permission to change settings', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<NoShowPolicyManager />);
+
+        expect((screen.getByLabelText('No-show limit') as HTMLInputElement).disabled).toBe(true);
+        expect(screen.getByText(/change service settings/i)).toBeDefined();
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import { ServiceClosureManager, validateClosure } from '../ServiceClosureManager';
+import type { ServiceClosure } from '@/lib/utils/serviceClosures';
+
+const mockEnsureLoaded = vi.fn();
+const mockAddClosures = vi.fn();
+const mockRemoveClosure = vi.fn();
+const storeState = {
+    closures: [] as ServiceClosure[],
+    isLoading: false,
+    ensureLoaded: mockEnsureLoaded,
+    addClosures: mockAddClosures,
+    removeClosure: mockRemoveClosure,
+};
+
+vi.mock('@/stores/useServiceClosuresStore', () => ({
+    useServiceClosuresStore: Object.assign(() => storeState, { getState: () => storeState }),
+}));
+
+vi.mock('@/lib/utils/date', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/utils/date')>()),
+    todayPacificDateString: () => '2025-11-20',
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+describe('validateClosure', () => {
+    const draft = { firstDay: '2025-11-27', lastDay: '', service: '' as const, reason: 'Thanksgiving' };
+
+    it('requires a first day and a reason', () => {
+        expect(validateClosure({ ...draft, firstDay: '' })).toBe('Choose the day you are closed');
+        expect(validateClosure({ ...draft, reason: '  ' })).toBe('Reason is required');
+        expect(validateClosure(draft)).toBeNull();
+    });
+
+    it('rejects backwards and overly long ranges', () => {
+        expect(validateClosure({ ...draft, lastDay: '2025-11-26' })).toBe('Last day must be on or after the first day');
+        expect(validateClosure({ ...draft, lastDay: '2026-01-27' })).toBe('Closures can span at most 31 days');
+    });
+});
+
+describe('ServiceClosureManager', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        storeState.closures = [
+            { id: 'past', closedOn: '2025-07-04', service: null, reason: 'Independence Day' },
+            { id: 'c1', closedOn: '2025-11-27', service: null, reason: 'Thanksgiving' },
+            { id: 'c2', closedOn: '2025-12-01', service: 'showers', reason: 'Plumbing repair' },
+        ];
+        mockAddClosures.mockResolvedValue(true);
+        mockRemoveClosure.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('reloads closures and lists upcoming ones', () => {
+        render(<ServiceClosureManager />);
+
+        expect(mockEnsureLoaded).toHaveBeenCalledWith({ force: true });
+        expect(screen.getByText('Thanksgiving')).toBeDefined();
+        expect(screen.getByText('All services')).toBeDefined();
+        expect(screen.getByText('Showers')).toBeDefined();
+        expect(screen.queryByText('Independence Day')).toBeNull();
+    });
+
+    it('closes a range of days for one service', async () => {
+        render(<ServiceClosureManager />);
+
+        fireEvent.click(screen.getByText('Add Closure'));
+        fireEvent.change(screen.getByLabelText('First day'), { target: { value: '2025-12-24' } });
+        fireEvent.change(screen.getByLabelText(/Last day/), { target: { value: '2025-12-26' } });
+        fireEvent.change(screen.getByLabelText('Closed service'), { target: { value: 'laundry' } });
+        fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'Winter break' } });
+        fireEvent.click(screen.getByText('Save Closure'));
+
+        await waitFor(() => expect(mockAddClosures).toHaveBeenCalled());
+        expect(mockAddClosures).toHaveBeenCalledWith({
+            dates: ['2025-12-24', '2025-12-25', '2025-12-26'],
+            service: 'laundry',
+            reason: 'Winter break',
+        });
+        expect(toast.success).toHaveBeenCalledWith('3 days closed');
+    });
+
+    it('does not save a closure without a reason', () => {
+        render(<ServiceClosureManager />);
+
+        fireEvent.click(screen.getByText('Add Closure'));
+        fireEvent.change(screen.getByLabelText('First day'), { target: { value: '2025-12-24' } });
+        fireEvent.click(screen.getByText('Save Closure'));
+
+        expect(mockAddClosures).not.toHaveBeenCalled();
+        expect(toast.error).toHaveBeenCalledWith('Reason is required');
+    });
+
+    it('removes a closure after confirmation', async () => {
+        vi.spyOn(window, 'confirm').mockReturnValue(true);
+        render(<ServiceClosureManager />);
+
+        fireEvent.click(screen.getByLabelText('Remove closure on 2025-12-01'));
+
+        await waitFor(() => expect(mockRemoveClosure).toHaveBeenCalledWith('c2'));
+    });
+
+    it('is read-only without permission to block slots', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<ServiceClosureManager />);
+
+        expect(screen.queryByText('Add Closure')).toBeNull();
+        expect(screen.queryByLabelText('Remove closure on 2025-12-01')).toBeNull();
+        expect(screen.getByText(/block service slots/i)).toBeDefined();
+    });
+});
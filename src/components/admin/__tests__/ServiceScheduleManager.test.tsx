@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import { ServiceScheduleManager, scheduleRowsFor, validateScheduleRow } from '../ServiceScheduleManager';
+import { DEFAULT_SERVICE_SCHEDULE, type ServiceScheduleEntry } from '@/lib/utils/serviceSchedule';
+import { useSitesStore } from '@/stores/useSitesStore';
+
+const mockEnsureLoaded = vi.fn();
+const mockSaveEntries = vi.fn();
+const mockDeleteSeason = vi.fn();
+const storeState = {
+    entries: DEFAULT_SERVICE_SCHEDULE as ServiceScheduleEntry[],
+    ensureLoaded: mockEnsureLoaded,
+    saveEntries: mockSaveEntries,
+    deleteSeason: mockDeleteSeason,
+};
+
+vi.mock('@/stores/useServiceScheduleStore', () => ({
+    useServiceScheduleStore: Object.assign(
+        (selector?: (state: typeof storeState) => unknown) => (selector ? selector(storeState) : storeState),
+        { getState: () => storeState }
+    ),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const showersMonday = DEFAULT_SERVICE_SCHEDULE.find((e) => e.service === 'showers' && e.weekday === 1)!;
+
+describe('validateScheduleRow', () => {
+    it('requires closing after opening on open days', () => {
+        expect(validateScheduleRow({ ...showersMonday, endTime: '07:00' })).toBe('Monday: closing time must be after opening time');
+        expect(validateScheduleRow({ ...showersMonday, isOpen: false, endTime: null })).toBeNull();
+    });
+
+    it('checks slot settings and custom windows', () => {
+        expect(validateScheduleRow({ ...showersMonday, slotCapacity: 0 })).toBe('Monday: capacity must be at least 1');
+        expect(validateScheduleRow({ ...showersMonday, slotMinutes: 0 })).toBe('Monday: slots must be at least 5 minutes apart');
+        expect(
+            validateScheduleRow({ ...showersMonday, service: 'laundry', customSlots: ['7:30-8:30'] })
+        ).toBe('Monday: "7:30-8:30" is not a window like 07:30 - 08:30');
+    });
+});
+
+describe('scheduleRowsFor', () => {
+    it('fills days missing from a season with the regular week', () => {
+        const season = { startsOn: '2025-12-01', endsOn: null, seasonLabel: 'Winter' };
+        const rows = scheduleRowsFor(DEFAULT_SERVICE_SCHEDULE, 'showers', season);
+
+        expect(rows).toHaveLength(7);
+        expect(rows[1]).toMatchObject({ startTime: '07:30', startsOn: '2025-12-01', seasonLabel: 'Winter' });
+    });
+});
+
+describe('ServiceScheduleManager', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        storeState.entries = DEFAULT_SERVICE_SCHEDULE;
+        mockSaveEntries.mockResolvedValue(true);
+        mockDeleteSeason.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+        useSitesStore.setState({ sites: [] });
+    });
+
+    it('reloads the schedule and shows the regular shower week', () => {
+        render(<ServiceScheduleManager />);
+
+        expect(mockEnsureLoaded).toHaveBeenCalledWith({ force: true });
+        expect((screen.getByLabelText('Saturday opens') as HTMLInputElement).value).toBe('08:30');
+        expect(screen.getAllByText('10 slots')).toHaveLength(7);
+    });
+
+    it('saves edited hours for the whole week', async () => {
+        render(<ServiceScheduleManager />);
+
+        fireEvent.click(screen.getByLabelText('Sunday open'));
+        fireEvent.change(screen.getByLabelText('Monday capacity'), { target: { value: '3' } });
+        fireEvent.click(screen.getByText('Save Hours'));
+
+        await waitFor(() => expect(mockSaveEntries).toHaveBeenCalled());
+        const saved = mockSaveEntries.mock.calls[0][0] as ServiceScheduleEntry[];
+        expect(saved).toHaveLength(7);
+        expect(saved[0]).toMatchObject({ weekday: 0, isOpen: false });
+        expect(saved[1]).toMatchObject({ weekday: 1, slotCapacity: 3, startsOn: null });
+    });
+
+    it('does not save invalid hours', () => {
+        render(<ServiceScheduleManager />);
+
+        fireEvent.change(screen.getByLabelText('Monday closes'), { target: { value: '07:00' } });
+        fireEvent.click(screen.getByText('Save Hours'));
+
+        expect(mockSaveEntries).not.toHaveBeenCalled();
+        expect(toast.error).toHaveBeenCalledWith('Monday: closing time must be after opening time');
+    });
+
+    it('edits custom laundry windows', async () => {
+        render(<ServiceScheduleManager />);
+
+        fireEvent.click(screen.getByText('Laundry'));
+        fireEvent.change(screen.getByLabelText('Monday custom windows'), { target: { value: '08:00 - 09:00, 09:00 - 10:00' } });
+        fireEvent.click(screen.getByText('Save Hours'));
+
+        await waitFor(() => expect(mockSaveEntries).toHaveBeenCalled());
+        const saved = mockSaveEntries.mock.calls[0][0] as ServiceScheduleEntry[];
+        expect(saved[1]).toMatchObject({ service: 'laundry', customSlots: ['08:00 - 09:00', '09:00 - 10:00'] });
+    });
+
+    it('creates a season from the regular week', async () => {
+        render(<ServiceScheduleManager />);
+
+        fireEvent.click(screen.getByText('Add Season'));
+        fireEvent.change(screen.getByLabelText('Season name'), { target: { value: 'Winter hours' } });
+        fireEvent.change(screen.getByLabelText('Starts on'), { target: { value: '2025-12-01' } });
+        fireEvent.change(screen.getByLabelText('Ends on'), { target: { value: '2026-02-28' } });
+        fireEvent.click(screen.getByText('Create Season'));
+
+        await waitFor(() => expect(mockSaveEntries).toHaveBeenCalled());
+        const saved = mockSaveEntries.mock.calls[0][0] as ServiceScheduleEntry[];
+        expect(saved).toHaveLength(7);
+        expect(saved.every((e) => e.service === 'showers' && e.startsOn === '2025-12-01' && e.seasonLabel === 'Winter hours')).toBe(true);
+    });
+
+    it('deletes a season after confirmation', async () => {
+        storeState.entries = [
+            ...DEFAULT_SERVICE_SCHEDULE,
+            { ...showersMonday, startsOn: '2025-12-01', endsOn: null, seasonLabel: 'Winter' },
+        ];
+        vi.spyOn(window, 'confirm').mockReturnValue(true);
+        render(<ServiceScheduleManager />);
+
+        fireEvent.change(screen.getByLabelText('Applies to'), { target: { value: '2025-12-01' } });
+        fireEvent.click(screen.getByText('Delete Season'));
+
+        await waitFor(() => expect(mockDeleteSeason).toHaveBeenCalledWith('showers', '2025-12-01', null));
+    });
+
+    it('saves a site\'s own hours without touching the shared week', async () => {
+        useSitesStore.setState({
+            sites: [
+                { id: 'mv', name: 'Mountain View', code: 'MV', address: null, isDefault: true, active: true },
+                { id: 'sj', name: 'San Jose', code: 'SJ', address: null, isDefault: false, active: true },
+            ],
+        });
+        storeState.entries = [
+            ...DEFAULT_SERVICE_SCHEDULE,
+            { ...showersMonday, id: 'sj-monday', siteId: 'sj', slotCapacity: 4 },
+        ];
+        render(<ServiceScheduleManager />);
+
+        expect((screen.getByLabelText('Monday capacity') as HTMLInputElement).value).toBe('2');
+        fireEvent.change(screen.getByLabelText('Site'), { target: { value: 'sj' } });
+        expect((screen.getByLabelText('Monday capacity') as HTMLInputElement).value).toBe('4');
+
+        fireEvent.change(screen.getByLabelText('Tuesday capacity'), { target: { value: '1' } });
+        fireEvent.click(screen.getByText('Save Hours'));
+
+        await waitFor(() => expect(mockSaveEntries).toHaveBeenCalled());
+        const saved = mockSaveEntries.mock.calls[0][0] as ServiceScheduleEntry[];
+        expect(saved.every((e) => e.siteId === 'sj')).toBe(true);
+        expect(saved[1]).toMatchObject({ id: 'sj-monday', slotCapacity: 4 });
+        // Days inherited from the shared week become new rows for the site
+        expect(saved[2]).toMatchObject({ id: undefined, slotCapacity: 1 });
+    });
+
+    it('is read-only without permission to change settings', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<ServiceScheduleManager />);
+
+        expect(screen.queryByText('Save Hours')).toBeNull();
+        expect(screen.queryByText('Add Season')).toBeNull();
+        expect((screen.getByLabelText('Monday open') as HTMLInputElement).disabled).toBe(true);
+    });
+});
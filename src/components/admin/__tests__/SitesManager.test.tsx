@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import { SitesManager } from '../SitesManager';
+import type { Site } from '@/lib/utils/sites';
+
+const sites: Site[] = [
+    { id: 'mv', name: 'Mountain View', code: 'MV', address: '748 Mercy St', isDefault: true, active: true },
+    { id: 'sj', name: 'San Jose', code: 'SJ', address: null, isDefault: false, active: false },
+];
+
+const mockEnsureLoaded = vi.fn();
+const mockSaveSite = vi.fn();
+const storeState = {
+    sites,
+    isLoading: false,
+    ensureLoaded: mockEnsureLoaded,
+    saveSite: mockSaveSite,
+};
+
+vi.mock('@/stores/useSitesStore', () => {
+    const useSitesStore = Object.assign(() => storeState, { getState: () => storeState });
+    return { useSitesStore };
+});
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+describe('SitesManager', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockSaveSite.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('reloads and lists sites with their code, default and active state', () => {
+        render(<SitesManager />);
+
+        expect(mockEnsureLoaded).toHaveBeenCalledWith({ force: true });
+        expect(screen.getByText('Mountain View')).toBeDefined();
+        expect(screen.getByText('748 Mercy St')).toBeDefined();
+        expect(screen.getByText('SJ')).toBeDefined();
+        expect(screen.getByText('Default')).toBeDefined();
+        expect(screen.getByText('Inactive')).toBeDefined();
+    });
+
+    it('adds a site with an upper-case code', async () => {
+        render(<SitesManager />);
+
+        fireEvent.click(screen.getByText('Add Site'));
+        fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Sunnyvale ' } });
+        fireEvent.change(screen.getByLabelText('Code'), { target: { value: 'sv' } });
+        fireEvent.click(screen.getByText('Save Site'));
+
+        await waitFor(() => expect(mockSaveSite).toHaveBeenCalled());
+        expect(mockSaveSite).toHaveBeenCalledWith(expect.objectContaining({
+            name: 'Sunnyvale',
+            code: 'SV',
+            isDefault: false,
+            active: true,
+        }));
+    });
+
+    it('rejects a code another site already uses', () => {
+        render(<SitesManager />);
+
+        fireEvent.click(screen.getByText('Add Site'));
+        fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Santa Clara' } });
+        fireEvent.change(screen.getByLabelText('Code'), { target: { value: 'SJ' } });
+        fireEvent.click(screen.getByText('Save Site'));
+
+        expect(toast.error).toHaveBeenCalledWith('Code SJ is already used');
+        expect(mockSaveSite).not.toHaveBeenCalled();
+    });
+
+    it('is read-only without permission to change settings', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<SitesManager />);
+
+        expect(screen.queryByText('Add Site')).toBeNull();
+        expect(screen.queryByLabelText('Edit Mountain View')).toBeNull();
+        expect(screen.getByText(/change service settings/i)).toBeDefined();
+    });
+});
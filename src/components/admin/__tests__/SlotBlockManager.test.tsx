@@ -5,6 +5,7 @@ import { SlotBlockManager } from '../SlotBlockManager';
 import { generateShowerSlots, generateLaundrySlots, formatSlotLabel } from '@/lib/utils/serviceSlots';
 import { useServicesStore } from '@/stores/useServicesStore';
 import toast from 'react-hot-toast';
+import { useSession } from 'next-auth/react';
 
 // Mock stores
 const mockFetchBlockedSlots = vi.fn(() => Promise.resolve());
@@ -303,3 +304,33 @@ describe('SlotBlockManager — toggle interactions and booking warnings', () =>
         });
     });
 });
+
+describe('SlotBlockManager — permissions', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'board-1', role: 'board' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('is read-only for roles without slots.block', async () => {
+        await renderLoaded(<SlotBlockManager serviceType="shower" />);
+
+        expect(screen.getByRole('note').textContent).toContain("Your role can't block service slots");
+        const slotButtons = screen.getAllByRole('button').filter(b =>
+            b.textContent?.includes('Open')
+        );
+        expect(slotButtons.length).toBeGreaterThan(0);
+        expect((slotButtons[0] as HTMLButtonElement).disabled).toBe(true);
+
+        await act(async () => {
+            fireEvent.click(slotButtons[0]);
+        });
+        expect(mockBlockSlot).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { UserManagementSection } from '../UserManagementSection';
+import toast from 'react-hot-toast';
+
+const mockUpdate = vi.fn();
+
+vi.mock('next-auth/react', () => ({
+    useSession: () => ({ data: { user: { id: 'admin-1', role: 'admin' } }, update: mockUpdate }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const USERS = [
+    { id: 'admin-1', email: 'admin@example.com', name: 'admin', role: 'admin', roleSource: 'email', lastSignInAt: null, createdAt: null },
+    { id: 'vol-1', email: 'volunteer@example.com', name: 'Vol', role: 'checkin', roleSource: 'profile', lastSignInAt: '2026-01-01T10:00:00Z', createdAt: null },
+];
+
+describe('UserManagementSection', () => {
+    const fetchMock = vi.fn();
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        fetchMock.mockReset();
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('lists users with their role source', async () => {
+        fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({ users: USERS }) });
+        render(<UserManagementSection />);
+
+        expect(await screen.findByText('volunteer@example.com')).toBeDefined();
+        expect(screen.getByText('From email')).toBeDefined();
+        expect(screen.getByText('Assigned')).toBeDefined();
+    });
+
+    it('saves a role change through the admin API', async () => {
+        fetchMock
+            .mockResolvedValueOnce({ ok: true, json: async () => ({ users: USERS }) })
+            .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+        render(<UserManagementSection />);
+
+        const select = await screen.findByLabelText('Role for volunteer@example.com');
+        fireEvent.change(select, { target: { value: 'staff' } });
+
+        await waitFor(() => expect(toast.success).toHaveBeenCalled());
+        const [url, init] = fetchMock.mock.calls[1];
+        expect(url).toBe('/api/admin/users');
+        expect(init.method).toBe('PATCH');
+        expect(JSON.parse(init.body)).toEqual({ id: 'vol-1', role: 'staff', email: 'volunteer@example.com' });
+        expect(mockUpdate).not.toHaveBeenCalled();
+    });
+
+    it('refreshes the current session when changing your own role', async () => {
+        fetchMock
+            .mockResolvedValueOnce({ ok: true, json: async () => ({ users: USERS }) })
+            .mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+        render(<UserManagementSection />);
+
+        const select = await screen.findByLabelText('Role for admin@example.com');
+        fireEvent.change(select, { target: { value: 'staff' } });
+
+        await waitFor(() => expect(mockUpdate).toHaveBeenCalled());
+    });
+
+    it('shows an error toast when loading fails', async () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        fetchMock.mockResolvedValueOnce({ ok: false, status: 403 });
+        render(<UserManagementSection />);
+
+        await waitFor(() => expect(toast.error).toHaveBeenCalledWith('Failed to load users'));
+        errorSpy.mockRestore();
+    });
+});
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo, useRef, useCallback } from "react";
+import React, { useState, useMemo, useRef, useCallback, useEffect } from "react";
 import {
     Download,
     Utensils,
@@ -30,8 +30,11 @@ import {
 import toast from "react-hot-toast";
 import { useMealsStore } from "@/stores/useMealsStore";
 import { useGuestsStore } from "@/stores/useGuestsStore";
+import { useHouseholdsStore } from "@/stores/useHouseholdsStore";
+import { useReportSiteRecords } from '@/hooks/useSiteRecords';
 import { todayPacificDateString, parsePacificDateParts } from "@/lib/utils/date";
 import { exportToCSV } from "@/lib/utils/csv";
+import { countUnduplicatedHouseholds } from "@/lib/utils/households";
 import { cn } from "@/lib/utils/cn";
 import { useIsMobile } from "@/hooks/useIsMobile";
 
@@ -96,8 +99,18 @@ export const MealReport = () => {
     const {
         mealRecords, rvMealRecords, shelterMealRecords, unitedEffortMealRecords,
         extraMealRecords, dayWorkerMealRecords, lunchBagRecords
-    } = useMealsStore();
+    } = useReportSiteRecords(useMealsStore());
     const { guests } = useGuestsStore();
+    const { members: householdMembers, ensureLoaded: ensureHouseholdsLoaded } = useHouseholdsStore();
+
+    useEffect(() => {
+        ensureHouseholdsLoaded();
+    }, [ensureHouseholdsLoaded]);
+
+    const householdIdByGuest = useMemo(
+        () => new Map((householdMembers || []).map((m) => [m.guestId, m.householdId])),
+        [householdMembers]
+    );
     const chartRef = useRef<HTMLDivElement>(null);
 
     const currentDate = new Date();
@@ -217,6 +230,7 @@ export const MealReport = () => {
             ];
 
             const uniqueGuestIds = new Set(allRecords.map((r) => r.guestId).filter(Boolean));
+            const uniqueHouseholds = countUnduplicatedHouseholds(uniqueGuestIds, householdIdByGuest);
 
             // Age Groups
             const ageGroups: Record<string, number> = {
@@ -251,7 +265,7 @@ export const MealReport = () => {
                 dayWorkerMeals: dayWorkerMealsCount, shelterMeals: shelterMealsCount,
                 unitedEffortMeals: unitedEffortMealsCount, lunchBags: lunchBagsCount,
                 totalMeals: totalMealsServed, uniqueGuestsPerServiceDay,
-                uniqueGuests: uniqueGuestIds.size, validDaysCount, isCurrentMonth: monthOffset === 0,
+                uniqueGuests: uniqueGuestIds.size, uniqueHouseholds, validDaysCount, isCurrentMonth: monthOffset === 0,
                 ageGroups,
             });
         }
@@ -259,7 +273,7 @@ export const MealReport = () => {
         return results.reverse();
     }, [selectedYear, selectedMonth, selectedDays, comparisonMonths, mealRecords, rvMealRecords,
         shelterMealRecords, unitedEffortMealRecords, extraMealRecords, dayWorkerMealRecords,
-        lunchBagRecords, mealTypeFilters, months, guests]);
+        lunchBagRecords, mealTypeFilters, months, guests, householdIdByGuest]);
 
     const currentMonthData = useMemo(() => {
         if (!calculateMealData.length) return null;
@@ -309,6 +323,7 @@ export const MealReport = () => {
             "United Effort": m.unitedEffortMeals,
             "Lunch Bags": m.lunchBags,
             "Unique Guests": m.uniqueGuests,
+            "Unique Households": m.uniqueHouseholds,
             "Avg Guests/Day": m.uniqueGuestsPerServiceDay.toFixed(1),
             "Adults": m.ageGroups["Adult 18-59"],
             "Children": m.ageGroups["Child 0-17"],
@@ -572,6 +587,10 @@ export const MealReport = () => {
                                         <span className="text-gray-500">Total Unique Guests:</span>
                                         <span className="font-bold text-gray-900">{currentMonthData.uniqueGuests}</span>
                                     </div>
+                                    <div className="flex justify-between text-sm">
+                                        <span className="text-gray-500">Unduplicated Households:</span>
+                                        <span className="font-bold text-gray-900">{currentMonthData.uniqueHouseholds}</span>
+                                    </div>
                                 </div>
                             </div>
                         </div>
@@ -21,6 +21,8 @@ import toast from 'react-hot-toast';
 import { useMealsStore } from '@/stores/useMealsStore';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useBicycleRepairTypesStore } from '@/stores/useBicycleRepairTypesStore';
+import { useReportSiteRecords } from '@/hooks/useSiteRecords';
 import { cn } from '@/lib/utils/cn';
 import { parsePacificDateParts } from '@/lib/utils/date';
 
@@ -117,14 +119,14 @@ export default function MonthlyReportGenerator() {
         lunchBagRecords,
         shelterMealRecords,
         unitedEffortMealRecords,
-    } = useMealsStore();
+    } = useReportSiteRecords(useMealsStore());
 
     const {
         showerRecords,
         laundryRecords,
         bicycleRecords,
         haircutRecords,
-    } = useServicesStore();
+    } = useReportSiteRecords(useServicesStore());
 
     const { guests } = useGuestsStore();
 
@@ -190,15 +192,12 @@ export default function MonthlyReportGenerator() {
         const relevantBicycles = (bicycleRecords || [])
             .filter(r => inRange(r.date) && ['done', 'in_progress'].includes(r.status));
 
-        const bikeService = relevantBicycles.filter(r => {
-            const types = r.repairTypes || [];
-            return !types.includes('New Bicycle');
-        }).length;
+        const { isNewBicycleType } = useBicycleRepairTypesStore.getState();
+        const isNewBicycle = (r: { repairTypes?: string[] }) => (r.repairTypes || []).some(isNewBicycleType);
 
-        const newBicycles = relevantBicycles.filter(r => {
-            const types = r.repairTypes || [];
-            return types.includes('New Bicycle');
-        }).length;
+        const bikeService = relevantBicycles.filter(r => !isNewBicycle(r)).length;
+
+        const newBicycles = relevantBicycles.filter(isNewBicycle).length;
 
         // Haircuts
         const haircuts = (haircutRecords || []).filter(r => inRange(r.date)).length;
@@ -1,9 +1,10 @@
 'use client';
 
-import React, { useMemo, useCallback, useState } from 'react';
+import React, { useMemo, useCallback, useEffect, useState } from 'react';
 import {
     Bike,
     Download,
+    Home,
     Info,
     Lightbulb,
     ShowerHead,
@@ -11,7 +12,12 @@ import {
 import { useMealsStore } from '@/stores/useMealsStore';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useBicycleRepairTypesStore } from '@/stores/useBicycleRepairTypesStore';
+import { useHouseholdsStore } from '@/stores/useHouseholdsStore';
+import { useReportSiteFilter, useReportSiteRecords } from '@/hooks/useSiteRecords';
 import { pacificDateStringFrom, parsePacificDateParts } from '@/lib/utils/date';
+import { formatPartsCost, monthlyPartsAndLabor } from '@/lib/utils/bicycleRepairs';
+import { countUnduplicatedHouseholds } from '@/lib/utils/households';
 
 const MONTH_NAMES = [
     'January', 'February', 'March', 'April', 'May', 'June',
@@ -104,6 +110,16 @@ const MEAL_COLUMN_DEFINITIONS: MealColumnDefinition[] = [
         totalCellBg: 'bg-sky-50',
         isNumeric: true,
     },
+    {
+        key: 'uniqueHouseholds',
+        label: 'Households',
+        description: 'Unduplicated households that received meals this month. Guests not in a household count as their own.',
+        align: 'right',
+        headerBg: 'bg-emerald-50',
+        cellBg: 'bg-emerald-50/50',
+        totalCellBg: 'bg-emerald-50',
+        isNumeric: true,
+    },
     {
         key: 'proxyPickups',
         label: 'Proxy Pickups',
@@ -226,7 +242,7 @@ const MEAL_TABLE_GROUPS = [
         key: 'onsite',
         title: 'Onsite Operations',
         headerClass: 'bg-blue-50 text-blue-900',
-        columns: ['mondayMeals', 'wednesdayMeals', 'fridayMeals', 'saturdayMeals', 'uniqueGuests', 'newGuests', 'proxyPickups', 'onsiteHotMeals']
+        columns: ['mondayMeals', 'wednesdayMeals', 'fridayMeals', 'saturdayMeals', 'uniqueGuests', 'newGuests', 'uniqueHouseholds', 'proxyPickups', 'onsiteHotMeals']
     },
     {
         key: 'outreach',
@@ -279,7 +295,19 @@ export default function MonthlySummaryReport() {
         dayWorkerMealRecords,
         lunchBagRecords,
         shelterMealRecords
-    } = useMealsStore();
+    } = useReportSiteRecords(useMealsStore());
+    const bySite = useReportSiteFilter();
+
+    const { members: householdMembers, ensureLoaded: ensureHouseholdsLoaded } = useHouseholdsStore();
+
+    useEffect(() => {
+        ensureHouseholdsLoaded();
+    }, [ensureHouseholdsLoaded]);
+
+    const householdIdByGuest = useMemo(
+        () => new Map((householdMembers || []).map((m) => [m.guestId, m.householdId])),
+        [householdMembers]
+    );
 
     const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
     const currentYear = new Date().getFullYear();
@@ -394,6 +422,7 @@ export default function MonthlySummaryReport() {
             // Unique Guests
             const uniqueGuestIds = new Set(mealsInMonth.map(r => r.guestId).filter(Boolean));
             const uniqueGuests = uniqueGuestIds.size;
+            const uniqueHouseholds = countUnduplicatedHouseholds(uniqueGuestIds, householdIdByGuest);
 
             // New Guests: Count guests whose first-ever meal was in this month/year
             let newGuests = 0;
@@ -407,7 +436,7 @@ export default function MonthlySummaryReport() {
             months.push({
                 month: monthName,
                 mondayMeals, wednesdayMeals, fridayMeals, saturdayMeals,
-                uniqueGuests, newGuests, proxyPickups,
+                uniqueGuests, uniqueHouseholds, newGuests, proxyPickups,
                 onsiteHotMeals,
                 dayWorkerMeals: dayWorker,
                 rvWedSat, rvMonThu, rvOther,
@@ -434,6 +463,7 @@ export default function MonthlySummaryReport() {
             fridayMeals: months.reduce((s, m) => s + m.fridayMeals, 0),
             saturdayMeals: months.reduce((s, m) => s + m.saturdayMeals, 0),
             uniqueGuests: ytdUniqueGuestIds.size,
+            uniqueHouseholds: countUnduplicatedHouseholds(ytdUniqueGuestIds, householdIdByGuest),
             newGuests: months.reduce((s, m) => s + m.newGuests, 0),
             proxyPickups: months.reduce((s, m) => s + m.proxyPickups, 0),
             onsiteHotMeals: months.reduce((s, m) => s + m.onsiteHotMeals, 0),
@@ -449,11 +479,16 @@ export default function MonthlySummaryReport() {
         };
 
         return { months, totals };
-    }, [mealRecords, extraMealRecords, rvMealRecords, unitedEffortMealRecords, dayWorkerMealRecords, lunchBagRecords, shelterMealRecords, selectedYear, currentYear, currentMonth, guestFirstMealMonth, filterRecords]);
+    }, [mealRecords, extraMealRecords, rvMealRecords, unitedEffortMealRecords, dayWorkerMealRecords, lunchBagRecords, shelterMealRecords, selectedYear, currentYear, currentMonth, guestFirstMealMonth, filterRecords, householdIdByGuest]);
 
     // ============== BICYCLE SUMMARY DATA ==============
     const bicycleSummary = useMemo(() => {
-        const { showerRecords, laundryRecords, bicycleRecords } = useServicesStore.getState();
+        const services = useServicesStore.getState();
+        const showerRecords = bySite(services.showerRecords);
+        const laundryRecords = bySite(services.laundryRecords);
+        const bicycleRecords = bySite(services.bicycleRecords);
+        const partsAndLabor = monthlyPartsAndLabor(bicycleRecords || []);
+        const { isNewBicycleType } = useBicycleRepairTypesStore.getState();
 
         const months = MONTH_NAMES.map((monthName, monthIndex) => {
             const recordsForMonth = (bicycleRecords || []).filter((record: any) => {
@@ -476,7 +511,7 @@ export default function MonthlySummaryReport() {
                     return;
                 }
                 types.forEach((type: string) => {
-                    if (type.toLowerCase().includes('new bicycle') || type.toLowerCase().includes('new bike')) {
+                    if (isNewBicycleType(type)) {
                         newBikes++;
                     } else {
                         services++;
@@ -484,11 +519,15 @@ export default function MonthlySummaryReport() {
                 });
             });
 
+            const workTotals = partsAndLabor.get(`${selectedYear}-${String(monthIndex + 1).padStart(2, '0')}`);
+
             return {
                 month: monthName,
                 newBikes,
                 services,
                 total: newBikes + services,
+                partsCost: workTotals?.partsCost || 0,
+                laborHours: workTotals?.laborHours || 0,
             };
         });
 
@@ -502,17 +541,21 @@ export default function MonthlySummaryReport() {
                 newBikes: acc.newBikes + row.newBikes,
                 services: acc.services + row.services,
                 total: acc.total + row.total,
+                partsCost: Math.round((acc.partsCost + row.partsCost) * 100) / 100,
+                laborHours: Math.round((acc.laborHours + row.laborHours) * 10) / 10,
             }),
-            { newBikes: 0, services: 0, total: 0 }
+            { newBikes: 0, services: 0, total: 0, partsCost: 0, laborHours: 0 }
         );
 
         return { months: ytdMonths, totals };
-    }, [selectedYear, currentYear, currentMonth]);
+    }, [selectedYear, currentYear, currentMonth, bySite]);
 
     // ============== SHOWER & LAUNDRY SUMMARY DATA ==============
     // Pre-compute each guest's first-ever shower/laundry service date across ALL records
     const guestFirstShowerLaundry = useMemo(() => {
-        const { showerRecords, laundryRecords } = useServicesStore.getState();
+        const services = useServicesStore.getState();
+        const showerRecords = bySite(services.showerRecords);
+        const laundryRecords = bySite(services.laundryRecords);
         const completedLaundryStatuses = new Set(['done', 'picked_up', 'returned', 'offsite_picked_up', 'attended']);
         
         const firstServiceMap = new Map<string, { year: number; month: number }>();
@@ -559,10 +602,12 @@ export default function MonthlySummaryReport() {
         });
         
         return { firstServiceMap, firstLaundryMap };
-    }, []);
+    }, [bySite]);
 
     const showerLaundrySummary = useMemo(() => {
-        const { showerRecords, laundryRecords } = useServicesStore.getState();
+        const services = useServicesStore.getState();
+        const showerRecords = bySite(services.showerRecords);
+        const laundryRecords = bySite(services.laundryRecords);
         const { guests } = useGuestsStore.getState();
         const { firstServiceMap, firstLaundryMap } = guestFirstShowerLaundry;
 
@@ -758,7 +803,7 @@ export default function MonthlySummaryReport() {
         };
 
         return { months: ytdMonths, totals };
-    }, [selectedYear, currentYear, currentMonth]);
+    }, [selectedYear, currentYear, currentMonth, bySite]);
 
     return (
         <div className="space-y-6">
@@ -787,6 +832,14 @@ export default function MonthlySummaryReport() {
                     <p className="text-2xl font-bold text-gray-900">{formatNumber(monthlyData.totals.totalHotMeals)}</p>
                     <p className="text-xs text-gray-500 mt-1">Total meals served this year</p>
                 </div>
+                <div className="bg-white p-4 rounded-xl border border-gray-200 shadow-sm">
+                    <div className="flex items-center gap-2 mb-1">
+                        <Home size={16} className="text-emerald-500" />
+                        <span className="text-xs font-bold uppercase tracking-wider text-gray-500">YTD Households</span>
+                    </div>
+                    <p className="text-2xl font-bold text-gray-900">{formatNumber(monthlyData.totals.uniqueHouseholds)}</p>
+                    <p className="text-xs text-gray-500 mt-1">Unduplicated households served ({formatNumber(monthlyData.totals.uniqueGuests)} individuals)</p>
+                </div>
                 {/* Additional cards can be added here */}
             </div>
 
@@ -881,6 +934,8 @@ export default function MonthlySummaryReport() {
                                 <th className="p-3 text-right text-xs font-bold uppercase tracking-wider text-gray-700">New Bicycles</th>
                                 <th className="p-3 text-right text-xs font-bold uppercase tracking-wider text-gray-700">Services</th>
                                 <th className="p-3 text-right text-xs font-bold uppercase tracking-wider text-gray-700 bg-amber-100">Total</th>
+                                <th className="p-3 text-right text-xs font-bold uppercase tracking-wider text-gray-700">Parts Cost</th>
+                                <th className="p-3 text-right text-xs font-bold uppercase tracking-wider text-gray-700">Labor Hours</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-gray-100">
@@ -890,6 +945,8 @@ export default function MonthlySummaryReport() {
                                     <td className="p-3 text-right">{formatNumber(row.newBikes)}</td>
                                     <td className="p-3 text-right">{formatNumber(row.services)}</td>
                                     <td className="p-3 text-right font-bold bg-amber-50">{formatNumber(row.total)}</td>
+                                    <td className="p-3 text-right">{formatPartsCost(row.partsCost)}</td>
+                                    <td className="p-3 text-right">{formatNumber(row.laborHours)}</td>
                                 </tr>
                             ))}
                             <tr className="bg-gray-100 border-t-2 border-gray-200">
@@ -897,6 +954,8 @@ export default function MonthlySummaryReport() {
                                 <td className="p-3 text-right font-bold">{formatNumber(bicycleSummary.totals.newBikes)}</td>
                                 <td className="p-3 text-right font-bold">{formatNumber(bicycleSummary.totals.services)}</td>
                                 <td className="p-3 text-right font-black bg-amber-100">{formatNumber(bicycleSummary.totals.total)}</td>
+                                <td className="p-3 text-right font-bold">{formatPartsCost(bicycleSummary.totals.partsCost)}</td>
+                                <td className="p-3 text-right font-bold">{formatNumber(bicycleSummary.totals.laborHours)}</td>
                             </tr>
                         </tbody>
                     </table>
@@ -4,6 +4,8 @@ import React from 'react';
 import MonthlySummaryReport from '../MonthlySummaryReport';
 import { useMealsStore } from '@/stores/useMealsStore';
 import { useServicesStore } from '@/stores/useServicesStore';
+import { useBicycleRepairTypesStore, DEFAULT_BICYCLE_REPAIR_TYPES } from '@/stores/useBicycleRepairTypesStore';
+import { useHouseholdsStore } from '@/stores/useHouseholdsStore';
 
 // Mock the stores
 vi.mock('@/stores/useMealsStore', () => ({
@@ -20,6 +22,7 @@ vi.mock('@/stores/useServicesStore', () => ({
 vi.mock('lucide-react', () => ({
     Bike: () => <div data-testid="icon-bike" />,
     Download: () => <div data-testid="icon-download" />,
+    Home: () => <div data-testid="icon-home" />,
     Info: () => <div data-testid="icon-info" />,
     Lightbulb: () => <div data-testid="icon-lightbulb" />,
     ShowerHead: () => <div data-testid="icon-shower" />,
@@ -33,7 +36,7 @@ describe('MonthlySummaryReport', () => {
     ];
 
     const mockBikes = [
-        { date: `${currentYear}-01-10T12:00:00`, status: 'done', repairTypes: ['Flat tire'] },
+        { date: `${currentYear}-01-10T12:00:00`, status: 'done', repairTypes: ['Flat tire'], parts: [{ name: 'Tube', quantity: 2, unitCost: 6.25 }], laborMinutes: 90 },
         { date: `${currentYear}-01-11T12:00:00`, status: 'done', repairType: 'New Bicycle' },
     ];
 
@@ -82,6 +85,26 @@ describe('MonthlySummaryReport', () => {
         expect(janRow?.textContent).toContain('120'); // Wednesday meals
     });
 
+    it('counts unduplicated households alongside individuals', () => {
+        useHouseholdsStore.setState({
+            isLoaded: true,
+            households: [{ id: 'h1', name: 'Doe Household', headGuestId: 'g1', mealAllowance: null }],
+            members: [
+                { id: 'm1', householdId: 'h1', guestId: 'g1', role: 'head' },
+                { id: 'm2', householdId: 'h1', guestId: 'g2', role: 'child' },
+            ],
+        });
+
+        render(<MonthlySummaryReport />);
+        expect(screen.getByText('Unduplicated households served (2 individuals)')).toBeDefined();
+        const janRow = screen.getAllByText('January')[0].closest('tr');
+        const cells = Array.from(janRow?.querySelectorAll('td') || []).map((td) => td.textContent);
+        expect(cells[5]).toBe('2');
+        expect(cells[7]).toBe('1');
+
+        useHouseholdsStore.setState({ households: [], members: [] });
+    });
+
     it('calculates bicycle summary correctly', () => {
         render(<MonthlySummaryReport />);
         // Bicycle summary row for January
@@ -90,6 +113,33 @@ describe('MonthlySummaryReport', () => {
         expect(janRow?.textContent).toContain('1'); // Services
     });
 
+    it('counts new bicycles by repair type category', () => {
+        useBicycleRepairTypesStore.setState({
+            types: [...DEFAULT_BICYCLE_REPAIR_TYPES, { key: 'donated_bike', label: 'Donated Bike', category: 'new_bicycle', defaultPriority: 0, estimatedMinutes: null, active: false, sortOrder: 15 }],
+        });
+        vi.mocked(useServicesStore.getState).mockReturnValue({
+            bicycleRecords: [
+                { date: `${currentYear}-01-10T12:00:00`, status: 'done', repairTypes: ['Donated Bike'] },
+                { date: `${currentYear}-01-11T12:00:00`, status: 'done', repairTypes: ['New Bicycle', 'Lock'] },
+            ],
+            showerRecords: [],
+            laundryRecords: [],
+        } as any);
+
+        render(<MonthlySummaryReport />);
+        const janRow = screen.getAllByText('January').find(el => el.closest('table')?.textContent?.includes('New Bicycles'))?.closest('tr');
+        const cells = Array.from(janRow?.querySelectorAll('td') || []).map((td) => td.textContent);
+        expect(cells.slice(1, 4)).toEqual(['2', '1', '3']);
+        useBicycleRepairTypesStore.setState({ types: DEFAULT_BICYCLE_REPAIR_TYPES });
+    });
+
+    it('reports bicycle parts cost and labor hours per month', () => {
+        render(<MonthlySummaryReport />);
+        const janRow = screen.getAllByText('January').find(el => el.closest('table')?.textContent?.includes('Parts Cost'))?.closest('tr');
+        expect(janRow?.textContent).toContain('$12.50');
+        expect(janRow?.textContent).toContain('1.5');
+    });
+
     it('calculates shower and laundry summary correctly', () => {
         render(<MonthlySummaryReport />);
         const janRow = screen.getAllByText('January').find(el => el.closest('table')?.textContent?.includes('Shower'))?.closest('tr');
@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Camera, ScanLine, Utensils, X } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+// Browsers without the Shape Detection API (Firefox, desktop Safari) can still
+// use a hand-held scanner, which types the code like a keyboard
+interface DetectedBarcode {
+    rawValue: string;
+}
+interface BarcodeDetectorInstance {
+    detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 300;
+// A card held in front of the camera is detected on every frame; ignore repeats
+const REPEAT_SCAN_COOLDOWN_MS = 3000;
+
+interface GuestScanBarProps {
+    onScan: (code: string) => void;
+    autoAddMeal: boolean;
+    onAutoAddMealChange: (value: boolean) => void;
+    onClose: () => void;
+    className?: string;
+}
+
+/**
+ * GuestScanBar - Scan a guest card with a hand-held scanner or the tablet
+ * camera. Focus stays in the scan field so the next card can go straight in.
+ */
+export function GuestScanBar({ onScan, autoAddMeal, onAutoAddMealChange, onClose, className }: GuestScanBarProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+    const onScanRef = useRef(onScan);
+    const [code, setCode] = useState('');
+    const [isStreaming, setIsStreaming] = useState(false);
+    const [cameraError, setCameraError] = useState<string | null>(null);
+
+    useEffect(() => {
+        onScanRef.current = onScan;
+    }, [onScan]);
+
+    const stopCamera = () => {
+        if (timerRef.current) clearInterval(timerRef.current);
+        timerRef.current = null;
+        streamRef.current?.getTracks().forEach((track) => track.stop());
+        streamRef.current = null;
+        setIsStreaming(false);
+    };
+
+    useEffect(() => () => {
+        if (timerRef.current) clearInterval(timerRef.current);
+        streamRef.current?.getTracks().forEach((track) => track.stop());
+    }, []);
+
+    const startCamera = async () => {
+        setCameraError(null);
+        const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+        if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+            setCameraError('Camera scanning is not supported in this browser');
+            return;
+        }
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({
+                video: { facingMode: 'environment' },
+                audio: false,
+            });
+            streamRef.current = stream;
+            setIsStreaming(true);
+            if (videoRef.current) {
+                videoRef.current.srcObject = stream;
+                await videoRef.current.play().catch(() => undefined);
+            }
+        } catch {
+            setCameraError('Camera permission was denied');
+            return;
+        }
+
+        const detector = new Detector({ formats: ['qr_code', 'code_128'] });
+        let detecting = false;
+        timerRef.current = setInterval(async () => {
+            const video = videoRef.current;
+            if (detecting || !video || !video.videoWidth) return;
+            detecting = true;
+            try {
+                const [barcode] = await detector.detect(video);
+                const value = barcode?.rawValue?.trim();
+                if (!value) return;
+                const now = Date.now();
+                const last = lastScanRef.current;
+                if (last && last.code === value && now - last.at < REPEAT_SCAN_COOLDOWN_MS) return;
+                lastScanRef.current = { code: value, at: now };
+                onScanRef.current(value);
+            } catch {
+                // A frame the detector can't read; try the next one
+            } finally {
+                detecting = false;
+            }
+        }, SCAN_INTERVAL_MS);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const value = code.trim();
+        setCode('');
+        inputRef.current?.focus();
+        if (value) onScan(value);
+    };
+
+    return (
+        <div className={cn('rounded-2xl border-2 border-emerald-200 bg-emerald-50/50 p-4 space-y-3', className)}>
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                <form onSubmit={handleSubmit} className="relative flex-1">
+                    <ScanLine size={20} className="absolute left-4 top-1/2 -translate-y-1/2 text-emerald-500" />
+                    <input
+                        ref={inputRef}
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        placeholder="Scan a guest card"
+                        aria-label="Scan a guest card"
+                        autoComplete="off"
+                        autoFocus
+                        className="w-full pl-12 pr-4 py-3 rounded-xl border-2 border-emerald-200 bg-white text-lg font-mono font-bold uppercase outline-none focus:border-emerald-500 focus:ring-4 focus:ring-emerald-500/10"
+                    />
+                </form>
+                <div className="flex items-center gap-2">
+                    <button
+                        type="button"
+                        onClick={isStreaming ? stopCamera : startCamera}
+                        className={cn(
+                            'inline-flex items-center gap-2 px-4 py-3 rounded-xl text-sm font-bold transition-all',
+                            isStreaming ? 'bg-emerald-600 text-white hover:bg-emerald-700' : 'bg-white border-2 border-gray-200 text-gray-700 hover:border-gray-300'
+                        )}
+                    >
+                        <Camera size={16} />
+                        {isStreaming ? 'Stop Camera' : 'Use Camera'}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => {
+                            stopCamera();
+                            onClose();
+                        }}
+                        aria-label="Close scanner"
+                        className="p-3 rounded-xl text-gray-500 hover:bg-gray-100"
+                    >
+                        <X size={18} />
+                    </button>
+                </div>
+            </div>
+
+            <video
+                ref={videoRef}
+                muted
+                playsInline
+                aria-label="Camera preview"
+                className={cn('w-full max-h-64 rounded-xl bg-black object-cover', !isStreaming && 'hidden')}
+            />
+            {cameraError && <p className="text-xs text-amber-700 font-medium">{cameraError} — use a hand-held scanner instead.</p>}
+
+            <label className="inline-flex items-center gap-2 text-sm font-bold text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={autoAddMeal}
+                    onChange={(e) => onAutoAddMealChange(e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-300 text-emerald-600"
+                />
+                <Utensils size={14} className="text-emerald-600" />
+                Add a meal when a card is scanned
+            </label>
+        </div>
+    );
+}
@@ -4,26 +4,30 @@ import { useEffect, useState } from 'react';
 import { Clock } from 'lucide-react';
 import { getMealServiceStatus, MealServiceStatus } from '@/lib/utils/mealServiceTime';
 import { cn } from '@/lib/utils/cn';
+import { useServiceSchedule } from '@/hooks/useServiceSchedule';
+import { useServiceClosures } from '@/hooks/useServiceClosures';
 
 export function MealServiceTimer() {
     const [status, setStatus] = useState<MealServiceStatus | null>(null);
+    const schedule = useServiceSchedule();
+    const closures = useServiceClosures();
 
     useEffect(() => {
         // Initial set
         const timer = setTimeout(() => {
-            setStatus(getMealServiceStatus());
+            setStatus(getMealServiceStatus(new Date(), schedule, closures));
         }, 0);
 
         // Update every minute (or 30s)
         const interval = setInterval(() => {
-            setStatus(getMealServiceStatus());
+            setStatus(getMealServiceStatus(new Date(), schedule, closures));
         }, 30 * 1000);
 
         return () => {
             clearTimeout(timer);
             clearInterval(interval);
         };
-    }, []);
+    }, [schedule, closures]);
 
     if (!status || status.type === 'no-service') return null;
 
@@ -39,6 +43,8 @@ export function MealServiceTimer() {
                     return 'text-orange-700 bg-orange-50 border-orange-200';
                 }
                 return 'text-emerald-700 bg-emerald-50 border-emerald-200';
+            case 'closed':
+                return 'text-rose-700 bg-rose-50 border-rose-200';
             case 'ended':
                 return 'text-gray-500 bg-gray-50 border-gray-200';
             default:
@@ -9,7 +9,9 @@ import { useServicesStore } from '@/stores/useServicesStore';
 import { useSettingsStore } from '@/stores/useSettingsStore';
 import { useBlockedSlotsStore } from '@/stores/useBlockedSlotsStore';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
-import { generateShowerSlots, generateLaundrySlots, formatSlotLabel } from '@/lib/utils/serviceSlots';
+import { generateShowerSlots, generateLaundrySlots, getSlotCapacity, formatSlotLabel } from '@/lib/utils/serviceSlots';
+import { useServiceSchedule } from '@/hooks/useServiceSchedule';
+import { useCurrentSiteRecords } from '@/hooks/useSiteRecords';
 
 // Subscribe to array lengths to ensure re-renders when records change
 // This is a workaround for potential subscription issues with complex selectors
@@ -84,7 +86,9 @@ const CardContent = ({ stats, nextSlotLabel, type }: CardContentProps) => {
 };
 
 export function ServiceStatusOverview({ onShowerClick, onLaundryClick }: ServiceStatusOverviewProps) {
-    const { showerRecords, laundryRecords } = useServicesStore();
+    const { showerRecords: allShowerRecords, laundryRecords: allLaundryRecords } = useServicesStore();
+    const showerRecords = useCurrentSiteRecords(allShowerRecords);
+    const laundryRecords = useCurrentSiteRecords(allLaundryRecords);
     const { targets } = useSettingsStore();
     const todayString = todayPacificDateString();
     const getRecordDate = (record: { date?: string | null; scheduledFor?: string | null }) =>
@@ -94,8 +98,10 @@ export function ServiceStatusOverview({ onShowerClick, onLaundryClick }: Service
     const showerRecordsLength = useShowerRecordsLength();
     const laundryRecordsLength = useLaundryRecordsLength();
 
-    const allShowerSlots = useMemo(() => generateShowerSlots(), []);
-    const allLaundrySlots = useMemo(() => generateLaundrySlots(), []);
+    const schedule = useServiceSchedule();
+    const allShowerSlots = useMemo(() => generateShowerSlots(new Date(), schedule), [schedule]);
+    const allLaundrySlots = useMemo(() => generateLaundrySlots(new Date(), schedule), [schedule]);
+    const showerSlotCapacity = useMemo(() => getSlotCapacity('showers', new Date(), schedule), [schedule]);
     const { isSlotBlocked, blockedSlots } = useBlockedSlotsStore();
 
     // Count blocked shower slots for today
@@ -122,8 +128,8 @@ export function ServiceStatusOverview({ onShowerClick, onLaundryClick }: Service
         );
 
         const totalSlots = allShowerSlots?.length || 0;
-        const blockedCapacity = blockedShowerSlotsCount * 2;
-        const totalCapacity = (totalSlots * 2) - blockedCapacity;
+        const blockedCapacity = blockedShowerSlotsCount * showerSlotCapacity;
+        const totalCapacity = (totalSlots * showerSlotCapacity) - blockedCapacity;
         const booked = todaysRecords.length;
         const available = Math.max(totalCapacity - booked, 0);
         const waitlisted = (showerRecords || []).filter(
@@ -140,7 +146,7 @@ export function ServiceStatusOverview({ onShowerClick, onLaundryClick }: Service
             isFull: available === 0,
             isNearlyFull: available <= 2 && available > 0,
         };
-    }, [showerRecords, allShowerSlots, todayString, blockedShowerSlotsCount, showerRecordsLength]);
+    }, [showerRecords, allShowerSlots, showerSlotCapacity, todayString, blockedShowerSlotsCount, showerRecordsLength]);
 
     // Calculate laundry statistics
     const laundryStats = useMemo(() => {
@@ -180,10 +186,10 @@ export function ServiceStatusOverview({ onShowerClick, onLaundryClick }: Service
         });
         for (const slot of allShowerSlots) {
             if (!slot || isSlotBlocked('shower', slot, todayString)) continue;
-            if ((slotCounts[slot] || 0) < 2) return slot;
+            if ((slotCounts[slot] || 0) < showerSlotCapacity) return slot;
         }
         return null;
-    }, [allShowerSlots, showerRecords, todayString, showerStats.available, isSlotBlocked, showerRecordsLength]);
+    }, [allShowerSlots, showerSlotCapacity, showerRecords, todayString, showerStats.available, isSlotBlocked, showerRecordsLength]);
 
     // Find next available laundry slot (any unbooked slot regardless of time)
     const nextAvailableLaundrySlot = useMemo(() => {
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import { GuestScanBar } from '../GuestScanBar';
+
+const renderBar = (overrides: Partial<React.ComponentProps<typeof GuestScanBar>> = {}) => {
+    const props = {
+        onScan: vi.fn(),
+        autoAddMeal: false,
+        onAutoAddMealChange: vi.fn(),
+        onClose: vi.fn(),
+        ...overrides,
+    };
+    render(<GuestScanBar {...props} />);
+    return props;
+};
+
+describe('GuestScanBar', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        delete (window as any).BarcodeDetector;
+        delete (navigator as any).mediaDevices;
+    });
+
+    it('passes a hand-held scan on and clears the field for the next card', () => {
+        const { onScan } = renderBar();
+        const input = screen.getByLabelText('Scan a guest card') as HTMLInputElement;
+
+        fireEvent.change(input, { target: { value: 'GMV123' } });
+        fireEvent.submit(input);
+
+        expect(onScan).toHaveBeenCalledWith('GMV123');
+        expect(input.value).toBe('');
+        expect(document.activeElement).toBe(input);
+    });
+
+    it('ignores an empty scan', () => {
+        const { onScan } = renderBar();
+        fireEvent.submit(screen.getByLabelText('Scan a guest card'));
+        expect(onScan).not.toHaveBeenCalled();
+    });
+
+    it('toggles auto-add meal and closes', () => {
+        const { onAutoAddMealChange, onClose } = renderBar();
+
+        fireEvent.click(screen.getByLabelText(/Add a meal when a card is scanned/));
+        fireEvent.click(screen.getByLabelText('Close scanner'));
+
+        expect(onAutoAddMealChange).toHaveBeenCalledWith(true);
+        expect(onClose).toHaveBeenCalled();
+    });
+
+    it('explains when the browser cannot scan with the camera', async () => {
+        renderBar();
+        await act(async () => {
+            fireEvent.click(screen.getByText('Use Camera'));
+        });
+        expect(screen.getByText(/Camera scanning is not supported/)).toBeDefined();
+    });
+
+    it('reports a card seen by the camera once, not on every frame', async () => {
+        vi.useFakeTimers();
+        const stop = vi.fn();
+        const detect = vi.fn().mockResolvedValue([{ rawValue: 'GMV123' }]);
+        (window as any).BarcodeDetector = vi.fn(function BarcodeDetector() {
+            return { detect };
+        });
+        (navigator as any).mediaDevices = {
+            getUserMedia: vi.fn().mockResolvedValue({ getTracks: () => [{ stop }] }),
+        };
+        vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+        const { onScan } = renderBar();
+        Object.defineProperty(screen.getByLabelText('Camera preview'), 'videoWidth', { value: 640 });
+
+        await act(async () => {
+            fireEvent.click(screen.getByText('Use Camera'));
+        });
+        await act(async () => {
+            await vi.advanceTimersByTimeAsync(1000);
+        });
+
+        expect(detect.mock.calls.length).toBeGreaterThan(1);
+        expect(onScan).toHaveBeenCalledTimes(1);
+        expect(onScan).toHaveBeenCalledWith('GMV123');
+
+        fireEvent.click(screen.getByText('Stop Camera'));
+        expect(stop).toHaveBeenCalled();
+    });
+});
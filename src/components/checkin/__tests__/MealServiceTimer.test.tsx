@@ -221,6 +221,26 @@ describe('MealServiceTimer Component', () => {
         });
     });
 
+    describe('Closed State', () => {
+        it('shows the closure reason with rose styling', () => {
+            mockGetMealServiceStatus.mockReturnValue({
+                type: 'closed',
+                message: 'Meals closed today: Thanksgiving',
+                timeRemaining: null,
+            });
+
+            const { container } = render(<MealServiceTimer />);
+
+            act(() => {
+                vi.advanceTimersByTime(0);
+            });
+
+            expect(screen.getByText('Meals closed today: Thanksgiving')).toBeDefined();
+            const element = container.firstChild as HTMLElement;
+            expect(element.className).toContain('text-rose-700');
+        });
+    });
+
     describe('Timer Updates', () => {
         it('updates status every 30 seconds', () => {
             mockGetMealServiceStatus.mockReturnValue({
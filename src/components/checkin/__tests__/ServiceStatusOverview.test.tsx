@@ -38,6 +38,7 @@ vi.mock('@/lib/utils/date', () => ({
 vi.mock('@/lib/utils/serviceSlots', () => ({
     generateShowerSlots: vi.fn(() => ['07:30', '08:00', '08:30', '09:00', '09:30', '10:00']),
     generateLaundrySlots: vi.fn(() => ['07:30 - 08:30', '08:30 - 09:30', '09:30 - 10:30']),
+    getSlotCapacity: vi.fn(() => 2),
     formatSlotLabel: vi.fn((slot) => slot),
 }));
 
@@ -26,9 +26,15 @@ import {
     Scissors,
     Gift,
     RotateCcw,
-    Bell
+    Bell,
+    History,
+    UserX,
+    IdCard
 } from 'lucide-react';
+import Link from 'next/link';
 import LinkedGuestsList from './LinkedGuestsList';
+import HouseholdPanel from './HouseholdPanel';
+import { GuestPhoto } from './GuestPhoto';
 import { cn } from '@/lib/utils/cn';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
 import { useMealsStore } from '@/stores/useMealsStore';
@@ -38,10 +44,15 @@ import { useModalStore } from '@/stores/useModalStore';
 import { useActionHistoryStore } from '@/stores/useActionHistoryStore';
 import { GuestEditModal } from '@/components/modals/GuestEditModal';
 import { BanManagementModal } from '@/components/modals/BanManagementModal';
+import { usePermission } from '@/hooks/usePermission';
 import { WarningManagementModal } from '@/components/modals/WarningManagementModal';
 import { ReminderManagementModal } from '@/components/modals/ReminderManagementModal';
 import { MobileServiceSheet } from '@/components/checkin/MobileServiceSheet';
 import { useRemindersStore } from '@/stores/useRemindersStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { guestNoShowStanding, normalizeNoShowPolicy, type NoShowStanding } from '@/lib/utils/noShowPolicy';
+import { isGuestBanActive } from '@/lib/utils/guestBans';
+import { printGuestCards, toGuestCard } from '@/lib/utils/guestCards';
 import type { 
     MealStatusMap, 
     ServiceStatusMap, 
@@ -104,6 +115,8 @@ type PureGuestCardProps = GuestCardProps & {
     addAction: (type: any, data?: any) => void;
     undoAction: (actionId: string) => Promise<any>;
     getActionsForGuestToday: (guestId: string) => any[];
+
+    noShowStanding?: NoShowStanding;
 };
 
 const EMPTY_ARRAY: any[] = [];
@@ -165,6 +178,7 @@ function PureGuestCard({
     addAction,
     undoAction,
     getActionsForGuestToday,
+    noShowStanding,
 }: PureGuestCardProps) {
     const [isExpanded, setIsExpanded] = useState(false);
     const [isPending, setIsPending] = useState(false);
@@ -174,6 +188,7 @@ function PureGuestCard({
     const [showReminderModal, setShowReminderModal] = useState(false);
     const [showMobileSheet, setShowMobileSheet] = useState(false);
     const prefersReducedMotion = useReducedMotion();
+    const canBan = usePermission('guests.ban');
 
     const warningBadgeCount = warningsCount ?? 0;
     const linkedBadgeCount = linkedGuestsCount ?? 0;
@@ -286,7 +301,7 @@ function PureGuestCard({
     const holidayAction = actionStatus.holidayActionId ? { id: actionStatus.holidayActionId } : undefined;
 
     const hasServiceToday = !!todayMeal || todayShower || todayLaundry || todayBicycle;
-    const isBanned = guest.isBanned;
+    const isBanned = isGuestBanActive(guest);
 
     // Check program-specific bans
     const isBannedFromMeals = isBanned && (guest.bannedFromMeals || (!guest.bannedFromMeals && !guest.bannedFromShower && !guest.bannedFromLaundry && !guest.bannedFromBicycle));
@@ -443,11 +458,11 @@ function PureGuestCard({
                 {/* Left: Avatar & Info */}
                 <div className="flex items-center gap-3 flex-1 min-w-0">
                     <div className={cn(
-                        'flex items-center justify-center rounded-xl border shrink-0 transition-transform group-hover:scale-105',
+                        'flex items-center justify-center rounded-xl border shrink-0 overflow-hidden transition-transform group-hover:scale-105',
                         compact ? 'w-10 h-10' : 'w-12 h-12',
                         isBanned ? 'bg-red-50 border-red-100 text-red-600' : 'bg-emerald-50 border-emerald-100 text-emerald-600'
                     )}>
-                        <User size={compact ? 20 : 24} />
+                        <GuestPhoto guest={guest} fallback={<User size={compact ? 20 : 24} />} />
                     </div>
 
                     <div className="flex-1 min-w-0">
@@ -496,6 +511,23 @@ function PureGuestCard({
                                         BANNED
                                     </span>
                                 )}
+                                {noShowStanding?.restricted ? (
+                                    <span
+                                        title={`${noShowStanding.count} shower no-shows recently — waitlist only`}
+                                        className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-rose-50 text-rose-700 border border-rose-200 text-[10px] font-bold"
+                                    >
+                                        <UserX size={10} />
+                                        WAITLIST ONLY
+                                    </span>
+                                ) : noShowStanding && noShowStanding.count > 0 ? (
+                                    <span
+                                        title="Recent shower no-shows"
+                                        className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-gray-50 text-gray-600 border border-gray-200 text-[10px] font-bold"
+                                    >
+                                        <UserX size={10} />
+                                        {noShowStanding.count} NO-SHOW{noShowStanding.count === 1 ? '' : 'S'}
+                                    </span>
+                                ) : null}
                                 {/* Recent Badge (Active in last 7 days) - uses precomputed map for efficiency */}
                                 {(() => {
                                     // Use precomputed map if available, otherwise compute locally
@@ -923,6 +955,9 @@ function PureGuestCard({
                             {/* Linked Guests Manager */}
                             <LinkedGuestsList guestId={guest.id} className="mb-4" />
 
+                            {/* Household */}
+                            <HouseholdPanel guestId={guest.id} className="mb-4" />
+
                             {/* Warnings (store-driven, mounted only when expanded) */}
                             <GuestWarningsPanel guestId={guest.id} />
 
@@ -1014,6 +1049,15 @@ function PureGuestCard({
                                     <AlertTriangle size={14} />
                                     Warnings
                                 </button>
+                                <Link
+                                    href={`/guests/${guest.id}`}
+                                    prefetch={false}
+                                    onClick={(e) => e.stopPropagation()}
+                                    className="inline-flex items-center gap-2 px-3 py-2 text-xs font-bold text-emerald-700 hover:bg-emerald-50 rounded-lg transition-colors"
+                                >
+                                    <History size={14} />
+                                    History
+                                </Link>
                                 <button
                                     onClick={(e) => { e.stopPropagation(); setShowEditModal(true); }}
                                     className="inline-flex items-center gap-2 px-3 py-2 text-xs font-bold text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
@@ -1021,18 +1065,30 @@ function PureGuestCard({
                                     <Edit size={14} />
                                     Edit
                                 </button>
-                                <button
-                                    onClick={(e) => { e.stopPropagation(); setShowBanModal(true); }}
-                                    className={cn(
-                                        "inline-flex items-center gap-2 px-3 py-2 text-xs font-bold rounded-lg transition-colors",
-                                        isBanned
-                                            ? "text-emerald-600 hover:bg-emerald-50"
-                                            : "text-red-600 hover:bg-red-50"
-                                    )}
-                                >
-                                    <Ban size={14} />
-                                    {isBanned ? 'Manage Ban' : 'Ban'}
-                                </button>
+                                {guest.guestId && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); printGuestCards([toGuestCard(guest)]); }}
+                                        className="inline-flex items-center gap-2 px-3 py-2 text-xs font-bold text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                                        title="Print a wallet-size card with a QR code of the guest ID"
+                                    >
+                                        <IdCard size={14} />
+                                        Print Card
+                                    </button>
+                                )}
+                                {canBan && (
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); setShowBanModal(true); }}
+                                        className={cn(
+                                            "inline-flex items-center gap-2 px-3 py-2 text-xs font-bold rounded-lg transition-colors",
+                                            isBanned
+                                                ? "text-emerald-600 hover:bg-emerald-50"
+                                                : "text-red-600 hover:bg-red-50"
+                                        )}
+                                    >
+                                        <Ban size={14} />
+                                        {isBanned ? 'Manage Ban' : 'Ban'}
+                                    </button>
+                                )}
                             </div>
                         </div>
                     </motion.div>
@@ -1143,6 +1199,12 @@ function GuestCardImpl(props: GuestCardProps) {
         return (s.reminders || []).filter((r: any) => r.guestId === guest.id && !r.dismissedAt).length;
     });
 
+    const { noShowPolicy } = useSettingsStore();
+    const policy = useMemo(() => normalizeNoShowPolicy(noShowPolicy), [noShowPolicy]);
+    const noShowStanding = useServicesStore(
+        useShallow((s) => guestNoShowStanding(s.showerRecords || EMPTY_ARRAY, guest.id, policy, todayPacificDateString()))
+    );
+
     return (
         <PureGuestCard
             {...props}
@@ -1166,6 +1228,7 @@ function GuestCardImpl(props: GuestCardProps) {
             warningsCount={warningsCount}
             linkedGuestsCount={linkedGuestsCount}
             activeRemindersCount={activeRemindersCount}
+            noShowStanding={noShowStanding}
         />
     );
 }
@@ -1227,7 +1290,9 @@ export const GuestCard = memo(GuestCardImpl, (prev, next) => {
         prev.guest?.location === next.guest?.location &&
         prev.guest?.gender === next.guest?.gender &&
         prev.guest?.age === next.guest?.age &&
-        prev.guest?.isBanned === next.guest?.isBanned;
+        prev.guest?.isBanned === next.guest?.isBanned &&
+        prev.guest?.bannedUntil === next.guest?.bannedUntil &&
+        prev.guest?.photoPath === next.guest?.photoPath;
 
     return (
         guestFieldsEqual &&
@@ -3,8 +3,11 @@
 import { useState, useMemo, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useReducedMotion } from '@/hooks/useReducedMotion';
-import { X, UserPlus, Loader2, Home, MapPin, User, Users, Info, AlertCircle } from 'lucide-react';
+import { X, UserPlus, Loader2, Home, MapPin, User, Users, Info, AlertCircle, Camera } from 'lucide-react';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useGuestPhotosStore } from '@/stores/useGuestPhotosStore';
+import { usePermission } from '@/hooks/usePermission';
+import { GuestPhotoCapture } from './GuestPhotoCapture';
 import { HOUSING_STATUSES, AGE_GROUPS, GENDERS } from '@/lib/constants/constants';
 import toast from 'react-hot-toast';
 import { findPotentialDuplicates } from '@/lib/utils/duplicateDetection';
@@ -27,6 +30,9 @@ export function GuestCreateModal({ onClose, initialName = '', defaultLocation =
     const prefersReducedMotion = useReducedMotion();
 
     const { guests, addGuest } = useGuestsStore();
+    const { saveGuestPhoto } = useGuestPhotosStore();
+    const canTakePhoto = usePermission('guests.photos');
+    const [photo, setPhoto] = useState<{ blob: Blob; previewUrl: string } | null>(null);
 
     const nameParts = useMemo(() => initialName.trim().split(/\s+/), [initialName]);
     const initialFirstName = nameParts[0] || '';
@@ -77,8 +83,12 @@ export function GuestCreateModal({ onClose, initialName = '', defaultLocation =
 
         setIsSubmitting(true);
         try {
-            await addGuest(formData);
-            toast.success('Guest added successfully');
+            const guest = await addGuest(formData);
+            if (photo && guest?.id && !(await saveGuestPhoto(guest.id, photo.blob))) {
+                toast.error('Guest added, but the photo could not be saved');
+            } else {
+                toast.success('Guest added successfully');
+            }
             onClose();
         } catch (error: any) {
             toast.error(error.message || 'Failed to add guest');
@@ -215,6 +225,20 @@ export function GuestCreateModal({ onClose, initialName = '', defaultLocation =
                         </div>
                     </div>
 
+                    {canTakePhoto && (
+                        <div className="space-y-4">
+                            <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                                <Camera size={14} /> Photo
+                            </h3>
+                            <GuestPhotoCapture
+                                previewUrl={photo?.previewUrl || null}
+                                onCapture={(blob, previewUrl) => setPhoto({ blob, previewUrl })}
+                                onRemove={() => setPhoto(null)}
+                                disabled={isSubmitting}
+                            />
+                        </div>
+                    )}
+
                     {/* Location & Utilities */}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-2">
                         <div className="space-y-4">
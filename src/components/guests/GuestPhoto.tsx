@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, type ReactNode } from 'react';
+import { usePermission } from '@/hooks/usePermission';
+import { useGuestPhotosStore } from '@/stores/useGuestPhotosStore';
+import { cn } from '@/lib/utils/cn';
+
+interface GuestPhotoProps {
+    guest: { photoPath?: string | null; preferredName?: string; name?: string };
+    fallback: ReactNode;
+    className?: string;
+}
+
+/**
+ * GuestPhoto - The guest's identification photo, or the fallback when there is
+ * none or the signed-in role lacks guests.photos
+ */
+export function GuestPhoto({ guest, fallback, className }: GuestPhotoProps) {
+    const canView = usePermission('guests.photos');
+    const path = canView ? guest.photoPath || null : null;
+    const url = useGuestPhotosStore((s) => s.getPhotoUrl(path));
+    const requestPhotoUrls = useGuestPhotosStore((s) => s.requestPhotoUrls);
+
+    useEffect(() => {
+        if (path && !url) requestPhotoUrls([path]);
+    }, [path, url, requestPhotoUrls]);
+
+    if (!url) return <>{fallback}</>;
+
+    return (
+        <img
+            src={url}
+            alt={`Photo of ${guest.preferredName || guest.name || 'guest'}`}
+            className={cn('w-full h-full object-cover', className)}
+        />
+    );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Camera, ImagePlus, RotateCcw, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+import { readPhotoAsDataUrl } from '@/lib/supabase/guestPhotos';
+
+// Photos are only for recognising a guest at the desk; keep them small
+const PHOTO_SIZE = 480;
+const JPEG_QUALITY = 0.85;
+
+interface GuestPhotoCaptureProps {
+    previewUrl: string | null;
+    onCapture: (photo: Blob, previewUrl: string) => void;
+    onRemove?: () => void;
+    disabled?: boolean;
+    className?: string;
+}
+
+/**
+ * GuestPhotoCapture - Take an identification photo with the tablet camera,
+ * falling back to the file picker (which opens the camera on most phones)
+ */
+export function GuestPhotoCapture({ previewUrl, onCapture, onRemove, disabled, className }: GuestPhotoCaptureProps) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const [isStreaming, setIsStreaming] = useState(false);
+    const [cameraError, setCameraError] = useState<string | null>(null);
+
+    const stopCamera = () => {
+        streamRef.current?.getTracks().forEach((track) => track.stop());
+        streamRef.current = null;
+        setIsStreaming(false);
+    };
+
+    useEffect(() => () => {
+        streamRef.current?.getTracks().forEach((track) => track.stop());
+    }, []);
+
+    const startCamera = async () => {
+        setCameraError(null);
+        if (!navigator.mediaDevices?.getUserMedia) {
+            setCameraError('Camera not available on this device');
+            return;
+        }
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({
+                video: { facingMode: 'user', width: { ideal: 960 } },
+                audio: false,
+            });
+            streamRef.current = stream;
+            setIsStreaming(true);
+            if (videoRef.current) {
+                videoRef.current.srcObject = stream;
+                await videoRef.current.play().catch(() => undefined);
+            }
+        } catch {
+            setCameraError('Camera permission was denied');
+        }
+    };
+
+    const takePhoto = () => {
+        const video = videoRef.current;
+        if (!video || !video.videoWidth) return;
+
+        // Square centre crop, scaled down
+        const side = Math.min(video.videoWidth, video.videoHeight);
+        const canvas = document.createElement('canvas');
+        canvas.width = PHOTO_SIZE;
+        canvas.height = PHOTO_SIZE;
+        canvas.getContext('2d')?.drawImage(
+            video,
+            (video.videoWidth - side) / 2,
+            (video.videoHeight - side) / 2,
+            side,
+            side,
+            0,
+            0,
+            PHOTO_SIZE,
+            PHOTO_SIZE
+        );
+        const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+        canvas.toBlob((blob) => {
+            if (blob) onCapture(blob, dataUrl);
+        }, 'image/jpeg', JPEG_QUALITY);
+        stopCamera();
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        onCapture(file, await readPhotoAsDataUrl(file));
+    };
+
+    return (
+        <div className={cn('flex items-center gap-4', className)}>
+            <div className="w-24 h-24 rounded-2xl overflow-hidden border-2 border-gray-200 bg-gray-50 flex items-center justify-center shrink-0">
+                <video
+                    ref={videoRef}
+                    muted
+                    playsInline
+                    aria-label="Camera preview"
+                    className={cn('w-full h-full object-cover -scale-x-100', !isStreaming && 'hidden')}
+                />
+                {!isStreaming && (previewUrl ? (
+                    <img src={previewUrl} alt="Guest photo" className="w-full h-full object-cover" />
+                ) : (
+                    <Camera size={28} className="text-gray-300" />
+                ))}
+            </div>
+
+            <div className="flex flex-col gap-2 min-w-0">
+                {isStreaming ? (
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={takePhoto}
+                            className="px-4 py-2 rounded-xl bg-emerald-600 text-white text-sm font-bold hover:bg-emerald-700 flex items-center gap-2"
+                        >
+                            <Camera size={16} /> Capture
+                        </button>
+                        <button
+                            type="button"
+                            onClick={stopCamera}
+                            aria-label="Close camera"
+                            className="p-2 rounded-xl text-gray-500 hover:bg-gray-100"
+                        >
+                            <X size={18} />
+                        </button>
+                    </div>
+                ) : (
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            type="button"
+                            onClick={startCamera}
+                            disabled={disabled}
+                            className="px-4 py-2 rounded-xl border-2 border-gray-200 text-sm font-bold text-gray-700 hover:border-gray-300 disabled:opacity-50 flex items-center gap-2"
+                        >
+                            {previewUrl ? <RotateCcw size={16} /> : <Camera size={16} />}
+                            {previewUrl ? 'Retake Photo' : 'Take Photo'}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={disabled}
+                            className="px-3 py-2 rounded-xl text-sm font-bold text-gray-500 hover:bg-gray-100 disabled:opacity-50 flex items-center gap-2"
+                        >
+                            <ImagePlus size={16} /> Upload
+                        </button>
+                        {previewUrl && onRemove && (
+                            <button
+                                type="button"
+                                onClick={onRemove}
+                                disabled={disabled}
+                                className="px-3 py-2 rounded-xl text-sm font-bold text-red-600 hover:bg-red-50 disabled:opacity-50 flex items-center gap-2"
+                            >
+                                <Trash2 size={16} /> Remove
+                            </button>
+                        )}
+                    </div>
+                )}
+                {cameraError && <p className="text-xs text-amber-700 font-medium">{cameraError} — use Upload instead.</p>}
+                <p className="text-xs text-gray-400">Used only to tell guests with similar names apart.</p>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    capture="user"
+                    onChange={handleFile}
+                    aria-label="Upload guest photo"
+                    className="hidden"
+                />
+            </div>
+        </div>
+    );
+}
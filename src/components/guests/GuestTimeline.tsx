@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+    AlertTriangle,
+    Bell,
+    Bike,
+    FileText,
+    Gift,
+    Loader2,
+    Package,
+    Scissors,
+    ShowerHead,
+    Utensils,
+    WashingMachine,
+} from 'lucide-react';
+import { useGuestTimelineStore } from '@/stores/useGuestTimelineStore';
+import {
+    filterTimeline,
+    monthlyVisitCounts,
+    TIMELINE_CATEGORIES,
+    type TimelineCategory,
+    type TimelineEvent,
+} from '@/lib/utils/guestTimeline';
+import { cn } from '@/lib/utils/cn';
+
+const CATEGORY_STYLES: Record<TimelineCategory, { icon: React.ElementType; color: string }> = {
+    meal: { icon: Utensils, color: 'bg-orange-100 text-orange-600' },
+    shower: { icon: ShowerHead, color: 'bg-sky-100 text-sky-600' },
+    laundry: { icon: WashingMachine, color: 'bg-indigo-100 text-indigo-600' },
+    bicycle: { icon: Bike, color: 'bg-amber-100 text-amber-600' },
+    haircut: { icon: Scissors, color: 'bg-purple-100 text-purple-600' },
+    holiday: { icon: Gift, color: 'bg-pink-100 text-pink-600' },
+    item: { icon: Package, color: 'bg-emerald-100 text-emerald-600' },
+    warning: { icon: AlertTriangle, color: 'bg-red-100 text-red-600' },
+    reminder: { icon: Bell, color: 'bg-blue-100 text-blue-600' },
+    waiver: { icon: FileText, color: 'bg-gray-100 text-gray-600' },
+};
+
+// Months shown in the visit chart
+const CHART_MONTHS = 12;
+
+const formatDay = (dateKey: string) =>
+    new Date(`${dateKey}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatMonth = (month: string) =>
+    new Date(`${month}-15T12:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
+/**
+ * GuestTimeline - Every service, item, warning, reminder and waiver for one
+ * guest in date order, with category and date filters and visits per month.
+ */
+export function GuestTimeline({ guestId }: { guestId: string }) {
+    const timeline = useGuestTimelineStore((s) => s.timelines[guestId]);
+    const isLoading = useGuestTimelineStore((s) => s.loadingGuestId === guestId);
+    const loadTimeline = useGuestTimelineStore((s) => s.loadTimeline);
+    const [categories, setCategories] = useState<TimelineCategory[]>([]);
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+
+    useEffect(() => {
+        loadTimeline(guestId);
+    }, [guestId, loadTimeline]);
+
+    const events = useMemo(() => timeline || [], [timeline]);
+    const visible = useMemo(() => filterTimeline(events, { categories, from, to }), [events, categories, from, to]);
+    const monthly = useMemo(() => monthlyVisitCounts(events).slice(-CHART_MONTHS), [events]);
+    const maxVisits = Math.max(1, ...monthly.map((m) => m.visits));
+
+    const days = useMemo(() => {
+        const grouped = new Map<string, TimelineEvent[]>();
+        for (const e of visible) {
+            if (!grouped.has(e.dateKey)) grouped.set(e.dateKey, []);
+            grouped.get(e.dateKey)!.push(e);
+        }
+        return [...grouped.entries()];
+    }, [visible]);
+
+    const toggleCategory = (category: TimelineCategory) =>
+        setCategories((current) =>
+            current.includes(category) ? current.filter((c) => c !== category) : [...current, category]
+        );
+
+    if (isLoading && !timeline) {
+        return (
+            <div className="h-48 flex items-center justify-center text-gray-400">
+                <Loader2 className="animate-spin" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <section className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4">
+                <h3 className="text-xs font-bold uppercase tracking-wider text-gray-400 mb-3">Visits per month</h3>
+                {monthly.length === 0 ? (
+                    <p className="text-sm text-gray-400 font-medium">No visits recorded</p>
+                ) : (
+                    <div className="flex items-end gap-2 h-32" role="list" aria-label="Visits per month">
+                        {monthly.map(({ month, visits }) => (
+                            <div key={month} role="listitem" className="flex-1 min-w-0 flex flex-col items-center justify-end h-full gap-1">
+                                <span className="text-[10px] font-bold text-gray-600">{visits}</span>
+                                <div
+                                    className="w-full max-w-8 rounded-t-md bg-emerald-500"
+                                    style={{ height: `${(visits / maxVisits) * 100}%` }}
+                                    title={`${visits} visit${visits === 1 ? '' : 's'} in ${formatMonth(month)}`}
+                                />
+                                <span className="text-[10px] text-gray-400 whitespace-nowrap">{formatMonth(month)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </section>
+
+            <section className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+                <div className="p-4 border-b border-gray-100 bg-gray-50 space-y-3">
+                    <div className="flex flex-wrap gap-2">
+                        {TIMELINE_CATEGORIES.map(({ value, label }) => (
+                            <button
+                                key={value}
+                                onClick={() => toggleCategory(value)}
+                                aria-pressed={categories.includes(value)}
+                                className={cn(
+                                    'px-3 py-1 rounded-full text-xs font-bold border transition-colors',
+                                    categories.includes(value)
+                                        ? 'bg-emerald-600 border-emerald-600 text-white'
+                                        : 'bg-white border-gray-200 text-gray-600 hover:border-emerald-300'
+                                )}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap items-end gap-3">
+                        <label className="text-xs font-bold text-gray-600">
+                            From
+                            <input
+                                type="date"
+                                value={from}
+                                onChange={(e) => setFrom(e.target.value)}
+                                className="mt-1 block px-3 py-1.5 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-emerald-500"
+                            />
+                        </label>
+                        <label className="text-xs font-bold text-gray-600">
+                            To
+                            <input
+                                type="date"
+                                value={to}
+                                min={from || undefined}
+                                onChange={(e) => setTo(e.target.value)}
+                                className="mt-1 block px-3 py-1.5 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-emerald-500"
+                            />
+                        </label>
+                        {(categories.length > 0 || from || to) && (
+                            <button
+                                onClick={() => { setCategories([]); setFrom(''); setTo(''); }}
+                                className="px-3 py-1.5 rounded-lg text-xs font-bold text-gray-500 hover:bg-gray-200"
+                            >
+                                Clear filters
+                            </button>
+                        )}
+                        <span className="ml-auto text-xs text-gray-400 font-medium">
+                            {visible.length} of {events.length} entries
+                        </span>
+                    </div>
+                </div>
+
+                {days.length === 0 ? (
+                    <p className="p-6 text-center text-sm text-gray-400 font-medium">No history matches these filters</p>
+                ) : (
+                    <ol className="divide-y divide-gray-100">
+                        {days.map(([dateKey, dayEvents]) => (
+                            <li key={dateKey} className="px-4 py-3">
+                                <p className="text-xs font-bold text-gray-500 mb-2">{formatDay(dateKey)}</p>
+                                <ul className="space-y-2">
+                                    {dayEvents.map((e) => {
+                                        const { icon: Icon, color } = CATEGORY_STYLES[e.category];
+                                        return (
+                                            <li key={e.id} className="flex items-start gap-3">
+                                                <span className={cn('p-1.5 rounded-lg shrink-0', color)}>
+                                                    <Icon size={14} />
+                                                </span>
+                                                <div className="min-w-0">
+                                                    <p className="text-sm font-bold text-gray-900">{e.title}</p>
+                                                    {e.detail && <p className="text-xs text-gray-500 font-medium">{e.detail}</p>}
+                                                </div>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            </li>
+                        ))}
+                    </ol>
+                )}
+            </section>
+        </div>
+    );
+}
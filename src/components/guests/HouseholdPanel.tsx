@@ -0,0 +1,290 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Home, Plus, Search, Trash2, X, Pencil, Utensils } from 'lucide-react';
+import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useHouseholdsStore } from '@/stores/useHouseholdsStore';
+import { useMealsStore } from '@/stores/useMealsStore';
+import { HOUSEHOLD_ROLES, HOUSEHOLD_ROLE_LABELS, type HouseholdRole } from '@/lib/utils/households';
+import { todayPacificDateString } from '@/lib/utils/date';
+import toast from 'react-hot-toast';
+
+interface HouseholdPanelProps {
+    guestId: string;
+    className?: string;
+}
+
+const guestLabel = (g?: { preferredName?: string; firstName?: string; lastName?: string; name?: string }) =>
+    g ? g.preferredName || `${g.firstName || ''} ${g.lastName || ''}`.trim() || g.name || 'Unknown Guest' : 'Unknown Guest';
+
+const parseAllowance = (value: string) => {
+    const n = parseInt(value, 10);
+    return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+/**
+ * HouseholdPanel - The guest's household: head, members with their roles and
+ * the combined daily meal allowance. Shown in the expanded guest card.
+ */
+export default function HouseholdPanel({ guestId, className = '' }: HouseholdPanelProps) {
+    const allGuests = useGuestsStore((s) => s.guests) || [];
+    const {
+        ensureLoaded,
+        createHousehold,
+        updateHousehold,
+        deleteHousehold,
+        addMember,
+        setMemberRole,
+        removeMember,
+        getHouseholdForGuest,
+    } = useHouseholdsStore();
+    const { getHouseholdMealUsage } = useMealsStore();
+
+    const [mode, setMode] = useState<'view' | 'create' | 'edit' | 'add'>('view');
+    const [name, setName] = useState('');
+    const [allowance, setAllowance] = useState('');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [newRole, setNewRole] = useState<HouseholdRole>('child');
+    const [isPending, setIsPending] = useState(false);
+
+    useEffect(() => {
+        ensureLoaded();
+    }, [ensureLoaded]);
+
+    const membership = getHouseholdForGuest(guestId);
+    const guest = allGuests.find((g) => g.id === guestId);
+    const mealUsage = membership ? getHouseholdMealUsage(guestId, todayPacificDateString()) : null;
+
+    const candidates = useMemo(() => {
+        if (searchTerm.length < 2) return [];
+        const term = searchTerm.toLowerCase();
+        const memberIds = new Set(membership?.members.map((m) => m.guestId));
+        return allGuests
+            .filter((g) => g && !memberIds.has(g.id) &&
+                [g.preferredName, g.firstName, g.lastName].some((part) => (part || '').toLowerCase().includes(term)))
+            .slice(0, 5);
+    }, [searchTerm, allGuests, membership]);
+
+    const run = async (action: () => Promise<unknown>) => {
+        if (isPending) return;
+        setIsPending(true);
+        try {
+            await action();
+        } finally {
+            setIsPending(false);
+        }
+    };
+
+    const openForm = (next: 'create' | 'edit') => {
+        setName(next === 'edit' ? membership?.household.name || '' : `${guest?.lastName || guestLabel(guest)} Household`);
+        setAllowance(next === 'edit' ? String(membership?.household.mealAllowance ?? '') : '');
+        setMode(next);
+    };
+
+    const handleSave = () => run(async () => {
+        if (!name.trim()) {
+            toast.error('Household name is required');
+            return;
+        }
+        const input = { name, mealAllowance: parseAllowance(allowance) };
+        const saved = mode === 'edit' && membership
+            ? await updateHousehold(membership.household.id, input)
+            : Boolean(await createHousehold(input, guestId));
+        if (saved) {
+            toast.success(mode === 'edit' ? 'Household updated' : 'Household created');
+            setMode('view');
+        }
+    });
+
+    const handleAddMember = (memberGuestId: string) => run(async () => {
+        if (!membership) return;
+        if (await addMember(membership.household.id, memberGuestId, newRole)) {
+            toast.success('Added to household');
+            setSearchTerm('');
+            setMode('view');
+        }
+    });
+
+    const handleDelete = () => run(async () => {
+        if (!membership || !confirm(`Delete ${membership.household.name}? Members stay as individual guests.`)) return;
+        if (await deleteHousehold(membership.household.id)) toast.success('Household deleted');
+    });
+
+    if (!membership && mode !== 'create') {
+        return (
+            <div className={`mt-2 ${className}`}>
+                <button
+                    onClick={() => openForm('create')}
+                    className="text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1.5"
+                >
+                    <Home size={14} />
+                    Create Household
+                </button>
+            </div>
+        );
+    }
+
+    const isForm = mode === 'create' || mode === 'edit';
+
+    return (
+        <div className={`mt-4 pt-4 border-t border-gray-100 ${className}`}>
+            <div className="flex items-center justify-between mb-3">
+                <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-2">
+                    <Home size={12} />
+                    {membership ? `${membership.household.name} (${membership.members.length})` : 'New Household'}
+                </h4>
+                {membership && mode === 'view' && (
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={() => openForm('edit')}
+                            className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-all"
+                            title="Edit Household"
+                        >
+                            <Pencil size={14} />
+                        </button>
+                        <button
+                            onClick={handleDelete}
+                            disabled={isPending}
+                            className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-all"
+                            title="Delete Household"
+                        >
+                            <Trash2 size={14} />
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {mealUsage && !isForm && (
+                <p className={`mb-2 text-xs font-bold flex items-center gap-1.5 ${mealUsage.used >= mealUsage.allowance ? 'text-red-600' : 'text-gray-500'}`}>
+                    <Utensils size={12} />
+                    Household meals today: {mealUsage.used}/{mealUsage.allowance}
+                </p>
+            )}
+
+            {isForm ? (
+                <div className="bg-white p-3 rounded-lg border border-blue-100 shadow-sm space-y-2">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Household name"
+                        aria-label="Household name"
+                        className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <input
+                        type="number"
+                        min={1}
+                        value={allowance}
+                        onChange={(e) => setAllowance(e.target.value)}
+                        placeholder="No shared limit"
+                        aria-label="Household meals per day"
+                        className="w-full px-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <p className="text-[11px] text-gray-400">Meals per day for the whole household. Leave empty to use per-guest limits only.</p>
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setMode('view')} className="px-3 py-1.5 text-xs font-bold text-gray-500 hover:bg-gray-100 rounded-md">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={isPending}
+                            className="px-3 py-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-md disabled:opacity-50"
+                        >
+                            {mode === 'edit' ? 'Save Household' : 'Create Household'}
+                        </button>
+                    </div>
+                </div>
+            ) : membership && (
+                <div className="space-y-2">
+                    {membership.members.map((member) => {
+                        const memberGuest = allGuests.find((g) => g.id === member.guestId);
+                        return (
+                            <div key={member.id} className="flex items-center justify-between bg-gray-50 p-2 rounded-lg border border-gray-100">
+                                <span className={`text-sm font-medium ${member.guestId === guestId ? 'text-blue-700' : 'text-gray-700'}`}>
+                                    {guestLabel(memberGuest)}
+                                    {memberGuest?.age === 'Child 0-17' && <span className="ml-1.5 text-[10px] text-gray-400 font-bold">CHILD</span>}
+                                </span>
+                                <div className="flex items-center gap-1.5">
+                                    <select
+                                        value={member.role}
+                                        onChange={(e) => run(() => setMemberRole(member.id, e.target.value as HouseholdRole))}
+                                        disabled={isPending}
+                                        aria-label={`Role for ${guestLabel(memberGuest)}`}
+                                        className="text-xs border border-gray-200 rounded-md px-1.5 py-1 bg-white"
+                                    >
+                                        {HOUSEHOLD_ROLES.map((role) => (
+                                            <option key={role} value={role}>{HOUSEHOLD_ROLE_LABELS[role]}</option>
+                                        ))}
+                                    </select>
+                                    <button
+                                        onClick={() => run(() => removeMember(member.id))}
+                                        disabled={isPending}
+                                        className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded transition-all"
+                                        title="Remove from Household"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+
+                    {mode === 'add' ? (
+                        <div className="bg-white p-3 rounded-lg border border-blue-100 shadow-sm">
+                            <div className="flex items-center gap-2 mb-2">
+                                <div className="relative flex-1">
+                                    <Search size={14} className="absolute left-2.5 top-2.5 text-gray-400" />
+                                    <input
+                                        type="text"
+                                        placeholder="Search by name..."
+                                        value={searchTerm}
+                                        onChange={(e) => setSearchTerm(e.target.value)}
+                                        className="w-full pl-8 pr-3 py-2 text-sm border border-gray-200 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                        autoFocus
+                                    />
+                                </div>
+                                <select
+                                    value={newRole}
+                                    onChange={(e) => setNewRole(e.target.value as HouseholdRole)}
+                                    aria-label="Role for new member"
+                                    className="text-xs border border-gray-200 rounded-md px-1.5 py-2 bg-white"
+                                >
+                                    {HOUSEHOLD_ROLES.filter((role) => role !== 'head').map((role) => (
+                                        <option key={role} value={role}>{HOUSEHOLD_ROLE_LABELS[role]}</option>
+                                    ))}
+                                </select>
+                                <button onClick={() => setMode('view')} className="text-gray-400 hover:text-gray-600" title="Cancel">
+                                    <X size={14} />
+                                </button>
+                            </div>
+                            {searchTerm.length >= 2 && (
+                                <div className="space-y-1 max-h-40 overflow-y-auto">
+                                    {candidates.length === 0 ? (
+                                        <p className="text-xs text-gray-500 p-2 text-center italic">No guests found</p>
+                                    ) : candidates.map((c) => (
+                                        <button
+                                            key={c.id}
+                                            onClick={() => handleAddMember(c.id)}
+                                            disabled={isPending}
+                                            className="w-full text-left p-2 hover:bg-blue-50 rounded text-sm font-medium text-gray-700"
+                                        >
+                                            {c.preferredName ? `${c.preferredName} (${c.firstName} ${c.lastName})` : `${c.firstName} ${c.lastName}`}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <button
+                            onClick={() => setMode('add')}
+                            className="text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                        >
+                            <Plus size={12} />
+                            Add Household Member
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
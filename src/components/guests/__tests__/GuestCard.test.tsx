@@ -1,7 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import React from 'react';
+import { useSession } from 'next-auth/react';
 import { GuestCard } from '../GuestCard';
+import { useGuestPhotosStore } from '@/stores/useGuestPhotosStore';
+import { printGuestCards } from '@/lib/utils/guestCards';
 
 // Mock dependencies
 vi.mock('next-auth/react', () => ({
@@ -25,6 +28,7 @@ const mockGetActionsForGuestToday = vi.fn().mockReturnValue([]);
 
 const mockWarnings = [{ id: 'w1', guestId: 'g1', message: 'Test warning', active: true }];
 const mockGuestProxies: any[] = [];
+const mockShowerRecords: any[] = [];
 
 vi.mock('@/stores/useMealsStore', () => ({
     useMealsStore: (selector: any) => {
@@ -41,7 +45,7 @@ vi.mock('@/stores/useMealsStore', () => ({
 vi.mock('@/stores/useServicesStore', () => ({
     useServicesStore: (selector: any) => {
         const state = {
-            showerRecords: [],
+            showerRecords: mockShowerRecords,
             laundryRecords: [],
             bicycleRecords: [],
             haircutRecords: [],
@@ -106,6 +110,11 @@ vi.mock('@/components/modals/BanManagementModal', () => ({
     BanManagementModal: ({ onClose }: any) => <div data-testid="ban-modal"><button onClick={onClose}>Close Ban</button></div>,
 }));
 
+vi.mock('@/lib/utils/guestCards', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/utils/guestCards')>()),
+    printGuestCards: vi.fn(),
+}));
+
 vi.mock('@/components/modals/WarningManagementModal', () => ({
     WarningManagementModal: ({ onClose }: any) => <div data-testid="warning-modal"><button onClick={onClose}>Close Warning</button></div>,
 }));
@@ -310,6 +319,23 @@ describe('GuestCard Component', () => {
             expect(screen.getByTestId('linked-guests-list')).toBeDefined();
         });
 
+        it('links to the guest history when expanded', () => {
+            render(<GuestCard guest={baseGuest} />);
+
+            fireEvent.click(screen.getByText('Johnny'));
+
+            expect(screen.getByText('History').closest('a')?.getAttribute('href')).toBe(`/guests/${baseGuest.id}`);
+        });
+
+        it('prints a guest card with the guest ID', () => {
+            render(<GuestCard guest={{ ...baseGuest, guestId: 'GMV123' }} />);
+
+            fireEvent.click(screen.getByText('Johnny'));
+            fireEvent.click(screen.getByText('Print Card'));
+
+            expect(printGuestCards).toHaveBeenCalledWith([{ code: 'GMV123', displayName: 'Johnny', legalName: 'John Doe' }]);
+        });
+
         it('calls onSelect when clicked', () => {
             const mockOnSelect = vi.fn();
             render(<GuestCard guest={baseGuest} onSelect={mockOnSelect} />);
@@ -320,6 +346,68 @@ describe('GuestCard Component', () => {
         });
     });
 
+    describe('No-show Badge', () => {
+        const daysAgo = (n: number) => {
+            const d = new Date();
+            d.setDate(d.getDate() - n);
+            return d.toISOString();
+        };
+
+        afterEach(() => {
+            mockShowerRecords.length = 0;
+        });
+
+        it('shows the no-show count below the policy limit', () => {
+            mockShowerRecords.push({ id: 's1', guestId: 'g1', status: 'no_show', date: daysAgo(2) });
+            render(<GuestCard guest={baseGuest} />);
+            expect(screen.getByText('1 NO-SHOW')).toBeDefined();
+            expect(screen.queryByText('WAITLIST ONLY')).toBeNull();
+        });
+
+        it('shows WAITLIST ONLY once the guest reaches the limit', () => {
+            mockShowerRecords.push(
+                { id: 's1', guestId: 'g1', status: 'no_show', date: daysAgo(1) },
+                { id: 's2', guestId: 'g1', status: 'no_show', date: daysAgo(4) },
+                { id: 's3', guestId: 'g1', status: 'no_show', date: daysAgo(8) },
+            );
+            render(<GuestCard guest={baseGuest} />);
+            expect(screen.getByText('WAITLIST ONLY')).toBeDefined();
+        });
+    });
+
+    describe('Photo Thumbnail', () => {
+        const photoGuest = { ...baseGuest, photoPath: 'g1/1.jpg' };
+
+        beforeEach(() => {
+            useGuestPhotosStore.setState({
+                urls: { 'g1/1.jpg': { url: 'https://signed/g1', expiresAt: Date.now() + 60_000 } },
+            });
+        });
+
+        afterEach(() => {
+            useGuestPhotosStore.setState({ urls: {} });
+            vi.mocked(useSession).mockReturnValue({
+                data: { user: { role: 'admin' } },
+                status: 'authenticated',
+            } as never);
+        });
+
+        it('shows the guest photo for roles allowed to view photos', () => {
+            render(<GuestCard guest={photoGuest} />);
+            const img = screen.getByAltText(`Photo of ${baseGuest.preferredName || baseGuest.name}`);
+            expect(img.getAttribute('src')).toBe('https://signed/g1');
+        });
+
+        it('hides the photo from roles without guests.photos', () => {
+            vi.mocked(useSession).mockReturnValue({
+                data: { user: { role: 'checkin' } },
+                status: 'authenticated',
+            } as never);
+            render(<GuestCard guest={photoGuest} />);
+            expect(screen.queryByAltText(/^Photo of/)).toBeNull();
+        });
+    });
+
     describe('NEW Badge', () => {
         it('shows NEW badge for guests created today', () => {
             const newGuest = { ...baseGuest, createdAt: new Date().toISOString() };
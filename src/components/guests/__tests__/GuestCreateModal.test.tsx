@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import React from 'react';
 import { GuestCreateModal } from '../GuestCreateModal';
+import { useGuestPhotosStore } from '@/stores/useGuestPhotosStore';
 
 // Mock dependencies
 vi.mock('next-auth/react', () => ({
@@ -241,6 +242,33 @@ describe('GuestCreateModal Component', () => {
         });
     });
 
+    describe('Photo', () => {
+        it('saves the uploaded photo for the new guest', async () => {
+            const saveGuestPhoto = vi.fn().mockResolvedValue(true);
+            useGuestPhotosStore.setState({ saveGuestPhoto });
+            mockAddGuest.mockResolvedValueOnce({ id: 'new-guest' });
+            render(<GuestCreateModal onClose={mockOnClose} />);
+
+            const photo = new File(['x'], 'guest.jpg', { type: 'image/jpeg' });
+            fireEvent.change(screen.getByLabelText('Upload guest photo'), { target: { files: [photo] } });
+            await waitFor(() => expect(screen.getByAltText('Guest photo')).toBeDefined());
+
+            fireEvent.change(screen.getByPlaceholderText('e.g. John'), { target: { value: 'Test' } });
+            fireEvent.change(screen.getByPlaceholderText('e.g. Smith'), { target: { value: 'User' } });
+            fireEvent.click(screen.getByText('Create Guest'));
+
+            await waitFor(() => {
+                expect(saveGuestPhoto).toHaveBeenCalledWith('new-guest', photo);
+                expect(mockOnClose).toHaveBeenCalled();
+            });
+        });
+
+        it('offers the camera to roles allowed to take photos', () => {
+            render(<GuestCreateModal onClose={mockOnClose} />);
+            expect(screen.getByText('Take Photo')).toBeDefined();
+        });
+    });
+
     describe('Duplicate Detection', () => {
         beforeEach(() => {
             vi.useFakeTimers();
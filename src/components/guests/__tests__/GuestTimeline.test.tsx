@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import React from 'react';
+import { GuestTimeline } from '../GuestTimeline';
+import type { TimelineEvent } from '@/lib/utils/guestTimeline';
+
+const mockLoadTimeline = vi.fn();
+const storeState = {
+    timelines: {} as Record<string, TimelineEvent[]>,
+    loadingGuestId: null as string | null,
+    loadTimeline: mockLoadTimeline,
+};
+
+vi.mock('@/stores/useGuestTimelineStore', () => ({
+    useGuestTimelineStore: Object.assign(
+        (selector: (state: typeof storeState) => unknown) => selector(storeState),
+        { getState: () => storeState }
+    ),
+}));
+
+const EVENTS: TimelineEvent[] = [
+    { id: 'item:i1', category: 'item', occurredAt: '2025-02-03T17:30:00Z', dateKey: '2025-02-03', title: 'Tshirt' },
+    { id: 'warning:w1', category: 'warning', occurredAt: '2025-02-03T17:00:00Z', dateKey: '2025-02-03', title: 'Warning', detail: 'Argued with staff' },
+    { id: 'meal:m1', category: 'meal', occurredAt: '2025-01-06T20:00:00Z', dateKey: '2025-01-06', title: '1 meal' },
+    { id: 'shower:s1', category: 'shower', occurredAt: '2025-01-06T20:00:00Z', dateKey: '2025-01-06', title: 'Shower', detail: '08:00 · Done' },
+];
+
+describe('GuestTimeline', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        storeState.timelines = { g1: EVENTS };
+        storeState.loadingGuestId = null;
+    });
+
+    it('loads the guest history and groups it by day', () => {
+        render(<GuestTimeline guestId="g1" />);
+
+        expect(mockLoadTimeline).toHaveBeenCalledWith('g1');
+        expect(screen.getByText('Mon, Feb 3, 2025')).toBeDefined();
+        expect(screen.getByText('Argued with staff')).toBeDefined();
+        expect(screen.getByText('08:00 · Done')).toBeDefined();
+        expect(screen.getByText('4 of 4 entries')).toBeDefined();
+    });
+
+    it('charts visit days per month', () => {
+        render(<GuestTimeline guestId="g1" />);
+
+        const months = within(screen.getByRole('list', { name: 'Visits per month' })).getAllByRole('listitem');
+        expect(months.map((m) => m.textContent)).toEqual(['1Jan 25', '1Feb 25']);
+    });
+
+    it('filters by category and date', () => {
+        render(<GuestTimeline guestId="g1" />);
+
+        fireEvent.click(screen.getByRole('button', { name: 'Meals' }));
+        expect(screen.getByText('1 of 4 entries')).toBeDefined();
+        expect(screen.queryByText('Tshirt')).toBeNull();
+
+        fireEvent.click(screen.getByText('Clear filters'));
+        fireEvent.change(screen.getByLabelText('From'), { target: { value: '2025-02-01' } });
+        expect(screen.getByText('2 of 4 entries')).toBeDefined();
+        expect(screen.queryByText('1 meal')).toBeNull();
+    });
+
+    it('shows a spinner until the first load finishes', () => {
+        storeState.timelines = {};
+        storeState.loadingGuestId = 'g1';
+
+        render(<GuestTimeline guestId="g1" />);
+
+        expect(screen.queryByText(/entries/)).toBeNull();
+    });
+});
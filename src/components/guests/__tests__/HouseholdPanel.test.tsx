@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import HouseholdPanel from '../HouseholdPanel';
+import { useHouseholdsStore } from '@/stores/useHouseholdsStore';
+import { useMealsStore } from '@/stores/useMealsStore';
+
+vi.mock('@/stores/useGuestsStore', () => ({
+    useGuestsStore: (selector: any) => {
+        const state = {
+            guests: [
+                { id: 'g1', firstName: 'Maria', lastName: 'Lopez', preferredName: '', age: 'Adult 18-59' },
+                { id: 'g2', firstName: 'Ana', lastName: 'Lopez', preferredName: '', age: 'Child 0-17' },
+                { id: 'g3', firstName: 'Luis', lastName: 'Lopez', preferredName: '', age: 'Child 0-17' },
+            ],
+        };
+        return typeof selector === 'function' ? selector(state) : state;
+    },
+}));
+
+const mockCreateHousehold = vi.fn();
+const mockAddMember = vi.fn();
+const mockSetMemberRole = vi.fn();
+
+const household = { id: 'h1', name: 'Lopez Household', headGuestId: 'g1', mealAllowance: 3 };
+
+describe('HouseholdPanel', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockCreateHousehold.mockResolvedValue(household);
+        mockAddMember.mockResolvedValue(true);
+        mockSetMemberRole.mockResolvedValue(true);
+        useHouseholdsStore.setState({
+            households: [],
+            members: [],
+            isLoaded: true,
+            createHousehold: mockCreateHousehold,
+            addMember: mockAddMember,
+            setMemberRole: mockSetMemberRole,
+        });
+        useMealsStore.setState({ mealRecords: [], extraMealRecords: [] });
+    });
+
+    it('offers to create a household with the guest as head', async () => {
+        render(<HouseholdPanel guestId="g1" />);
+        fireEvent.click(screen.getByText('Create Household'));
+
+        expect((screen.getByLabelText('Household name') as HTMLInputElement).value).toBe('Lopez Household');
+        fireEvent.change(screen.getByLabelText('Household meals per day'), { target: { value: '3' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Create Household' }));
+
+        await waitFor(() => {
+            expect(mockCreateHousehold).toHaveBeenCalledWith({ name: 'Lopez Household', mealAllowance: 3 }, 'g1');
+        });
+    });
+
+    describe('with a household', () => {
+        beforeEach(() => {
+            useHouseholdsStore.setState({
+                households: [household],
+                members: [
+                    { id: 'm2', householdId: 'h1', guestId: 'g2', role: 'child' },
+                    { id: 'm1', householdId: 'h1', guestId: 'g1', role: 'head' },
+                ],
+            });
+        });
+
+        it('lists members with the head first and their roles', () => {
+            render(<HouseholdPanel guestId="g2" />);
+
+            expect(screen.getByText('Lopez Household (2)')).toBeDefined();
+            const roles = screen.getAllByRole('combobox') as HTMLSelectElement[];
+            expect(roles.map((r) => r.getAttribute('aria-label'))).toEqual(['Role for Maria Lopez', 'Role for Ana Lopez']);
+            expect(roles.map((r) => r.value)).toEqual(['head', 'child']);
+        });
+
+        it('shows meals used against the household allowance', () => {
+            useMealsStore.setState({
+                mealRecords: [{ id: 'meal-1', guestId: 'g1', count: 2, date: new Date().toISOString() }] as any,
+            });
+            render(<HouseholdPanel guestId="g1" />);
+            expect(screen.getByText('Household meals today: 2/3')).toBeDefined();
+        });
+
+        it('changes a member role', async () => {
+            render(<HouseholdPanel guestId="g1" />);
+            fireEvent.change(screen.getByLabelText('Role for Ana Lopez'), { target: { value: 'head' } });
+            await waitFor(() => expect(mockSetMemberRole).toHaveBeenCalledWith('m2', 'head'));
+        });
+
+        it('adds another guest as a member', async () => {
+            render(<HouseholdPanel guestId="g1" />);
+            fireEvent.click(screen.getByText('Add Household Member'));
+            fireEvent.change(screen.getByPlaceholderText('Search by name...'), { target: { value: 'Lu' } });
+            fireEvent.click(screen.getByText('Luis Lopez'));
+
+            await waitFor(() => expect(mockAddMember).toHaveBeenCalledWith('h1', 'g3', 'child'));
+        });
+    });
+});
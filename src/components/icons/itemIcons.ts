@@ -0,0 +1,22 @@
+import type { ComponentType } from 'react';
+import { Backpack, BedDouble, Footprints, Gift, Glasses, Package, Shirt, Sparkles, Tent, Umbrella } from 'lucide-react';
+import { JacketIcon } from './JacketIcon';
+
+type ItemIcon = ComponentType<{ size?: number; className?: string }>;
+
+// Icons selectable for item catalog entries; `icon` in item_catalog stores the key
+export const ITEM_ICONS: Record<string, { label: string; icon: ItemIcon }> = {
+    package: { label: 'Package', icon: Package },
+    shirt: { label: 'Shirt', icon: Shirt },
+    jacket: { label: 'Jacket', icon: JacketIcon },
+    tent: { label: 'Tent', icon: Tent },
+    footprints: { label: 'Shoes', icon: Footprints },
+    backpack: { label: 'Backpack', icon: Backpack },
+    bed: { label: 'Bedding', icon: BedDouble },
+    umbrella: { label: 'Rain gear', icon: Umbrella },
+    glasses: { label: 'Glasses', icon: Glasses },
+    sparkles: { label: 'Hygiene', icon: Sparkles },
+    gift: { label: 'Gift', icon: Gift },
+};
+
+export const getItemIcon = (key: string): ItemIcon => (ITEM_ICONS[key] || ITEM_ICONS.package).icon;
@@ -7,6 +7,8 @@ import { usePathname } from 'next/navigation';
 import { ClipboardList, BarChart3, UserPlus, HelpCircle, LogOut, Menu, X } from 'lucide-react';
 import { getDefaultRoute, getRoleLabel, ROLE_ACCESS, type UserRole } from '@/lib/auth/types';
 import { AppVersion } from '@/components/pwa/AppVersion';
+import { SyncStatusIndicator } from '@/components/pwa/SyncStatusIndicator';
+import { SiteSelector } from './SiteSelector';
 import { TutorialModal } from '@/components/modals/TutorialModal';
 import { useRealtimeSync } from '@/hooks/useRealtimeSync';
 
@@ -152,6 +154,12 @@ export default function MainLayout({ children }: { children: React.ReactNode })
                             </div>
                         </nav>
 
+                        {/* Location this device is serving (only with several sites) */}
+                        <SiteSelector />
+
+                        {/* Offline / pending sync status (all sizes) */}
+                        <SyncStatusIndicator />
+
                         {/* Right Zone: User Controls (desktop only) */}
                         <div className="hidden md:flex items-center gap-2 shrink-0">
                             <span className="px-2 py-1 rounded-md text-emerald-200/80 text-[11px] font-medium bg-emerald-800/30">
@@ -0,0 +1,38 @@
+'use client';
+
+import { useEffect } from 'react';
+import { MapPin } from 'lucide-react';
+import { useSitesStore } from '@/stores/useSitesStore';
+
+/**
+ * SiteSelector - Which location this device is serving. New meals, showers,
+ * laundry and other services are recorded at the chosen site, and the service
+ * screens show only that site's queues. Hidden while there is a single site.
+ */
+export function SiteSelector() {
+    const { sites, currentSiteId, ensureLoaded, setCurrentSite } = useSitesStore();
+
+    useEffect(() => {
+        ensureLoaded();
+    }, [ensureLoaded]);
+
+    const activeSites = sites.filter((s) => s.active);
+    if (activeSites.length < 2) return null;
+
+    return (
+        <label className="inline-flex items-center gap-1.5 mr-2 px-2 py-1 rounded-lg bg-emerald-900/50 text-emerald-100 shrink-0">
+            <MapPin size={14} aria-hidden="true" />
+            <span className="sr-only">Site</span>
+            <select
+                value={currentSiteId ?? ''}
+                onChange={(e) => setCurrentSite(e.target.value)}
+                aria-label="Site"
+                className="bg-transparent text-xs font-bold text-white outline-none cursor-pointer [&>option]:text-gray-900"
+            >
+                {activeSites.map((site) => (
+                    <option key={site.id} value={site.id}>{site.name}</option>
+                ))}
+            </select>
+        </label>
+    );
+}
@@ -52,6 +52,11 @@ vi.mock('@/components/pwa/AppVersion', () => ({
     AppVersion: () => <div data-testid="app-version" />,
 }));
 
+// Mock SyncStatusIndicator
+vi.mock('@/components/pwa/SyncStatusIndicator', () => ({
+    SyncStatusIndicator: () => <div data-testid="sync-status" />,
+}));
+
 describe('MainLayout', () => {
     beforeEach(() => {
         vi.clearAllMocks();
@@ -93,6 +98,17 @@ describe('MainLayout', () => {
         expect(screen.getAllByText('Dashboard')[0]).toBeDefined();
     });
 
+    it('shows the offline sync status in the header', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { role: 'checkin', name: 'Checkin' } },
+            status: 'authenticated',
+        } as any);
+
+        render(<MainLayout>Content</MainLayout>);
+
+        expect(screen.getByTestId('sync-status')).toBeDefined();
+    });
+
     it('filters navigation for non-admin roles', () => {
         vi.mocked(useSession).mockReturnValue({
             data: { user: { role: 'checkin', name: 'Checkin Staff' } },
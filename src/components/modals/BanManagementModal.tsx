@@ -1,19 +1,79 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { X, Ban, Loader2, AlertTriangle, ShowerHead, WashingMachine, Utensils, Bike, Calendar } from 'lucide-react';
+import { useSession } from 'next-auth/react';
+import { X, Ban, Loader2, AlertTriangle, ShowerHead, WashingMachine, Utensils, Bike, Calendar, History } from 'lucide-react';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
 import toast from 'react-hot-toast';
 import { cn } from '@/lib/utils/cn';
+import { formatDateForDisplay } from '@/lib/utils/date';
+import {
+    banScopeLabel,
+    banState,
+    isGuestBanActive,
+    type GuestBan,
+    type GuestBanState,
+} from '@/lib/utils/guestBans';
 
 interface BanManagementModalProps {
     guest: any;
     onClose: () => void;
 }
 
+const STATE_STYLES: Record<GuestBanState, { label: string; className: string }> = {
+    active: { label: 'Active', className: 'bg-red-100 text-red-700' },
+    scheduled: { label: 'Scheduled', className: 'bg-amber-100 text-amber-700' },
+    expired: { label: 'Expired', className: 'bg-gray-100 text-gray-600' },
+    lifted: { label: 'Lifted', className: 'bg-emerald-100 text-emerald-700' },
+};
+
+const formatBanDate = (value: string) => formatDateForDisplay(value, { month: 'short', day: 'numeric', year: 'numeric' });
+
+function BanHistory({ bans }: { bans: GuestBan[] }) {
+    return (
+        <div>
+            <label className="block text-xs font-black text-gray-500 uppercase tracking-wider mb-3 flex items-center gap-2">
+                <History size={14} />
+                Ban History
+            </label>
+            {bans.length === 0 ? (
+                <p className="text-xs text-gray-400">No previous bans.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {bans.map((ban) => {
+                        const state = STATE_STYLES[banState(ban)];
+                        return (
+                            <li key={ban.id} className="p-3 rounded-xl border border-gray-100 bg-gray-50 text-xs space-y-1">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-bold text-gray-800">
+                                        {formatBanDate(ban.startsAt)} – {formatBanDate(ban.endsAt)}
+                                    </span>
+                                    <span className={cn('px-2 py-0.5 rounded-full font-black uppercase tracking-wide text-[10px]', state.className)}>
+                                        {state.label}
+                                    </span>
+                                </div>
+                                <p className="text-gray-600 font-medium">{banScopeLabel(ban)}{ban.reason ? ` · ${ban.reason}` : ''}</p>
+                                <p className="text-gray-400">
+                                    Issued by {ban.issuedBy || 'Unknown'}
+                                    {ban.liftedAt && ` · Lifted ${formatBanDate(ban.liftedAt)} by ${ban.liftedBy || 'Unknown'}`}
+                                </p>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
+
 export function BanManagementModal({ guest, onClose }: BanManagementModalProps) {
-    const { banGuest, clearGuestBan } = useGuestsStore();
+    const { banGuest, clearGuestBan, loadGuestBans, guestBans } = useGuestsStore();
+    const canBan = usePermission('guests.ban');
+    const { data: session } = useSession();
+    const staffEmail = session?.user?.email || null;
     const [isPending, setIsPending] = useState(false);
     const [banUntil, setBanUntil] = useState(() => {
         // Default to 1 month from now
@@ -21,18 +81,26 @@ export function BanManagementModal({ guest, onClose }: BanManagementModalProps)
         date.setMonth(date.getMonth() + 1);
         return date.toISOString().split('T')[0];
     });
-    const [banReason, setBanReason] = useState(guest.banReason || '');
+    // An expired ban is history, not a starting point for the form
+    const isBanned = isGuestBanActive(guest);
+    const [banReason, setBanReason] = useState(isBanned ? guest.banReason || '' : '');
 
     // Program-specific bans
-    const [bannedFromMeals, setBannedFromMeals] = useState(guest.bannedFromMeals || false);
-    const [bannedFromShower, setBannedFromShower] = useState(guest.bannedFromShower || false);
-    const [bannedFromLaundry, setBannedFromLaundry] = useState(guest.bannedFromLaundry || false);
-    const [bannedFromBicycle, setBannedFromBicycle] = useState(guest.bannedFromBicycle || false);
+    const [bannedFromMeals, setBannedFromMeals] = useState(isBanned && (guest.bannedFromMeals || false));
+    const [bannedFromShower, setBannedFromShower] = useState(isBanned && (guest.bannedFromShower || false));
+    const [bannedFromLaundry, setBannedFromLaundry] = useState(isBanned && (guest.bannedFromLaundry || false));
+    const [bannedFromBicycle, setBannedFromBicycle] = useState(isBanned && (guest.bannedFromBicycle || false));
+
+    useEffect(() => {
+        loadGuestBans(guest.id);
+    }, [guest.id, loadGuestBans]);
 
-    const isBanned = guest.isBanned;
+    const history = (guestBans || []).filter((b) => b.guestId === guest.id);
+    const currentBan = history.find((b) => banState(b) === 'active');
     const hasAnyProgramBan = bannedFromMeals || bannedFromShower || bannedFromLaundry || bannedFromBicycle;
 
     const handleBan = async () => {
+        if (!canBan) return;
         if (!banReason.trim()) {
             toast.error('Please provide a reason for the ban');
             return;
@@ -41,6 +109,8 @@ export function BanManagementModal({ guest, onClose }: BanManagementModalProps)
         setIsPending(true);
         try {
             await banGuest(guest.id, {
+                banId: isBanned ? currentBan?.id : undefined,
+                issuedBy: staffEmail,
                 bannedUntil: banUntil,
                 banReason: banReason.trim(),
                 bannedFromMeals: hasAnyProgramBan ? bannedFromMeals : true,
@@ -58,9 +128,10 @@ export function BanManagementModal({ guest, onClose }: BanManagementModalProps)
     };
 
     const handleLiftBan = async () => {
+        if (!canBan) return;
         setIsPending(true);
         try {
-            await clearGuestBan(guest.id);
+            await clearGuestBan(guest.id, { liftedBy: staffEmail });
             toast.success(`Ban lifted for ${guest.preferredName || guest.name}`);
             onClose();
         } catch (error: any) {
@@ -110,7 +181,9 @@ export function BanManagementModal({ guest, onClose }: BanManagementModalProps)
                 </div>
 
                 {/* Content */}
-                <div className="p-6 space-y-6">
+                <div className="p-6 space-y-6 max-h-[65vh] overflow-y-auto">
+                    {!canBan && <PermissionNotice permission="guests.ban" />}
+
                     {isBanned && (
                         <div className="p-4 rounded-xl bg-red-50 border border-red-200 flex items-start gap-3">
                             <AlertTriangle size={20} className="text-red-500 mt-0.5 shrink-0" />
@@ -216,6 +289,8 @@ export function BanManagementModal({ guest, onClose }: BanManagementModalProps)
                             </label>
                         </div>
                     </div>
+
+                    <BanHistory bans={history} />
                 </div>
 
                 {/* Footer */}
@@ -223,7 +298,7 @@ export function BanManagementModal({ guest, onClose }: BanManagementModalProps)
                     {isBanned && (
                         <button
                             onClick={handleLiftBan}
-                            disabled={isPending}
+                            disabled={isPending || !canBan}
                             className="px-5 py-2.5 rounded-xl text-sm font-bold bg-emerald-100 hover:bg-emerald-200 text-emerald-700 transition-all disabled:opacity-50"
                         >
                             Lift Ban
@@ -239,7 +314,7 @@ export function BanManagementModal({ guest, onClose }: BanManagementModalProps)
                         </button>
                         <button
                             onClick={handleBan}
-                            disabled={isPending}
+                            disabled={isPending || !canBan}
                             className="px-5 py-2.5 rounded-xl text-sm font-bold bg-red-600 hover:bg-red-700 text-white transition-all disabled:opacity-50 flex items-center gap-2"
                         >
                             {isPending && <Loader2 size={16} className="animate-spin" />}
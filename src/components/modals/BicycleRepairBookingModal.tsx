@@ -1,37 +1,18 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import { X, Bike, Star, AlertCircle, CheckCircle, Loader2, ClipboardList, Info } from 'lucide-react';
 import { useModalStore } from '@/stores/useModalStore';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { useGuestsStore } from '@/stores/useGuestsStore';
 import { useActionHistoryStore } from '@/stores/useActionHistoryStore';
+import { useBicycleRepairTypesStore } from '@/stores/useBicycleRepairTypesStore';
 import { ServiceCardReminder } from '@/components/ui/ReminderIndicator';
+import { formatLaborMinutes } from '@/lib/utils/bicycleRepairs';
 import { cn } from '@/lib/utils/cn';
 import toast from 'react-hot-toast';
 
-const REPAIR_TYPES = [
-    "New Bicycle",
-    "Flat Tire",
-    "Brake Adjustment",
-    "Gear Adjustment",
-    "Chain Replacement",
-    "Wheel Truing",
-    "Basic Tune Up",
-    "Drivetrain Cleaning",
-    "Cable Replacement",
-    "Headset Adjustment",
-    "Seat Adjustment",
-    "Kickstand",
-    "Basket/Rack",
-    "Bike Lights",
-    "Lock",
-    "New Tube",
-    "New Tire",
-    "Other",
-];
-
 export function BicycleRepairBookingModal() {
     const { bicyclePickerGuest, setBicyclePickerGuest } = useModalStore();
     const { addBicycleRecord } = useServicesStore();
@@ -41,6 +22,21 @@ export function BicycleRepairBookingModal() {
     const [selectedRepairTypes, setSelectedRepairTypes] = useState<string[]>([]);
     const [notes, setNotes] = useState('');
     const [isPending, setIsPending] = useState(false);
+    const repairTypes = useBicycleRepairTypesStore((s) => s.types);
+    const ensureRepairTypesLoaded = useBicycleRepairTypesStore((s) => s.ensureLoaded);
+
+    useEffect(() => {
+        if (bicyclePickerGuest) ensureRepairTypesLoaded();
+    }, [bicyclePickerGuest, ensureRepairTypesLoaded]);
+
+    const activeTypes = useMemo(() => repairTypes.filter((t) => t.active), [repairTypes]);
+    const selectedTypes = useMemo(
+        () => repairTypes.filter((t) => selectedRepairTypes.includes(t.label)),
+        [repairTypes, selectedRepairTypes]
+    );
+    // Types in the "other" category need notes so the mechanic knows what to do
+    const needsNotes = selectedTypes.some((t) => t.category === 'other');
+    const estimatedMinutes = selectedTypes.reduce((sum, t) => sum + (t.estimatedMinutes || 0), 0);
 
     if (!bicyclePickerGuest) return null;
 
@@ -69,7 +65,7 @@ export function BicycleRepairBookingModal() {
             return;
         }
 
-        if (selectedRepairTypes.includes("Other") && !notes.trim()) {
+        if (needsNotes && !notes.trim()) {
             toast.error("Please add notes for 'Other' repair type.");
             return;
         }
@@ -79,6 +75,8 @@ export function BicycleRepairBookingModal() {
             const record = await addBicycleRecord(guest.id, {
                 repairTypes: selectedRepairTypes,
                 notes,
+                // The most urgent selected type decides where the repair sits on the board
+                priority: selectedTypes.length > 0 ? Math.min(...selectedTypes.map((t) => t.defaultPriority)) : 0,
             });
             if (record && record.id) {
                 addAction('BICYCLE_LOGGED', { recordId: record.id, guestId: guest.id });
@@ -154,17 +152,22 @@ export function BicycleRepairBookingModal() {
                     <div className="space-y-4">
                         <h3 className="text-sm font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
                             <ClipboardList size={14} /> Select Repair Items
+                            {estimatedMinutes > 0 && (
+                                <span className="ml-auto normal-case tracking-normal text-xs font-bold text-gray-500">
+                                    Est. {formatLaborMinutes(estimatedMinutes)}
+                                </span>
+                            )}
                         </h3>
 
                         <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
-                            {REPAIR_TYPES.map((type) => {
-                                const isSelected = selectedRepairTypes.includes(type);
-                                const isNew = type === "New Bicycle";
+                            {activeTypes.map(({ key, label, category }) => {
+                                const isSelected = selectedRepairTypes.includes(label);
+                                const isNew = category === 'new_bicycle';
 
                                 return (
                                     <button
-                                        key={type}
-                                        onClick={() => toggleRepairType(type)}
+                                        key={key}
+                                        onClick={() => toggleRepairType(label)}
                                         className={cn(
                                             'flex items-center gap-3 p-3 rounded-xl border-2 transition-all text-left',
                                             isSelected
@@ -188,7 +191,7 @@ export function BicycleRepairBookingModal() {
                                             'text-sm font-bold',
                                             isSelected ? 'font-black' : 'text-gray-600'
                                         )}>
-                                            {type}
+                                            {label}
                                         </span>
                                         {isNew && <Star size={14} className="ml-auto text-amber-500 fill-amber-500" />}
                                     </button>
@@ -202,11 +205,11 @@ export function BicycleRepairBookingModal() {
                         <textarea
                             value={notes}
                             onChange={(e) => setNotes(e.target.value)}
-                            placeholder={selectedRepairTypes.includes("Other") ? "Notes are required for 'Other' repairs..." : "Any extra details for the mechanic..."}
+                            placeholder={needsNotes ? "Notes are required for 'Other' repairs..." : "Any extra details for the mechanic..."}
                             rows={3}
                             className={cn(
                                 "w-full p-4 rounded-xl border-2 bg-gray-50 focus:bg-white transition-all font-medium outline-none",
-                                selectedRepairTypes.includes("Other") && !notes.trim() ? "border-amber-200" : "border-gray-100 focus:border-amber-400"
+                                needsNotes && !notes.trim() ? "border-amber-200" : "border-gray-100 focus:border-amber-400"
                             )}
                         />
                     </div>
@@ -222,7 +225,7 @@ export function BicycleRepairBookingModal() {
                     </button>
                     <button
                         onClick={handleBook}
-                        disabled={isPending || !bikeDescription || selectedRepairTypes.length === 0 || (selectedRepairTypes.includes("Other") && !notes.trim())}
+                        disabled={isPending || !bikeDescription || selectedRepairTypes.length === 0 || (needsNotes && !notes.trim())}
                         className="px-8 py-2.5 rounded-xl bg-amber-600 text-white text-sm font-black shadow-lg shadow-amber-200 hover:bg-amber-700 hover:shadow-amber-300 transition-all flex items-center gap-2 disabled:opacity-50 disabled:grayscale disabled:shadow-none"
                     >
                         {isPending ? <Loader2 size={18} className="animate-spin" /> : <Bike size={18} />}
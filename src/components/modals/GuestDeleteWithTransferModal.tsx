@@ -23,6 +23,8 @@ import {
 import { useGuestsStore, Guest, GuestRecordCounts } from '@/stores/useGuestsStore';
 import { flexibleNameSearch } from '@/lib/utils/flexibleNameSearch';
 import { cn } from '@/lib/utils/cn';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
 import toast from 'react-hot-toast';
 
 interface GuestDeleteWithTransferModalProps {
@@ -37,6 +39,7 @@ export function GuestDeleteWithTransferModal({
     onDeleted 
 }: GuestDeleteWithTransferModalProps) {
     const { guests, checkGuestHasRecords, deleteGuestWithTransfer } = useGuestsStore();
+    const canDelete = usePermission('guests.delete');
     
     const [isLoading, setIsLoading] = useState(true);
     const [isPending, setIsPending] = useState(false);
@@ -77,6 +80,7 @@ export function GuestDeleteWithTransferModal({
     const hasRecords = recordCounts && recordCounts.total > 0;
 
     const handleDelete = async () => {
+        if (!canDelete) return;
         if (hasRecords && !selectedTransferGuest) {
             toast.error('Please select a guest to transfer records to');
             return;
@@ -179,6 +183,8 @@ export function GuestDeleteWithTransferModal({
 
                 {/* Content */}
                 <div className="p-6">
+                    {!canDelete && <PermissionNotice permission="guests.delete" className="mb-4" />}
+
                     {isLoading ? (
                         <div className="flex items-center justify-center py-8">
                             <Loader2 size={32} className="animate-spin text-gray-400" />
@@ -315,6 +321,7 @@ export function GuestDeleteWithTransferModal({
                     <button
                         onClick={handleDelete}
                         disabled={
+                            !canDelete ||
                             isPending || 
                             isLoading || 
                             (!!hasRecords && !selectedTransferGuest) ||
@@ -1,10 +1,13 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { X, User, Loader2, Bike, Trash2 } from 'lucide-react';
+import { X, User, Loader2, Bike, Trash2, Camera } from 'lucide-react';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useGuestPhotosStore } from '@/stores/useGuestPhotosStore';
 import { GuestDeleteWithTransferModal } from './GuestDeleteWithTransferModal';
+import { GuestPhotoCapture } from '@/components/guests/GuestPhotoCapture';
+import { usePermission } from '@/hooks/usePermission';
 import toast from 'react-hot-toast';
 
 interface GuestEditModalProps {
@@ -26,6 +29,11 @@ const toTitleCase = (str: string) => {
 
 export function GuestEditModal({ guest, onClose }: GuestEditModalProps) {
     const { updateGuest } = useGuestsStore();
+    const { saveGuestPhoto, removeGuestPhoto, getPhotoUrl, requestPhotoUrls } = useGuestPhotosStore();
+    const canDelete = usePermission('guests.delete');
+    const canTakePhoto = usePermission('guests.photos');
+    // undefined = unchanged, null = remove the current photo
+    const [photo, setPhoto] = useState<{ blob: Blob; previewUrl: string } | null | undefined>(undefined);
     const [isPending, setIsPending] = useState(false);
     const [showDeleteModal, setShowDeleteModal] = useState(false);
     const [formData, setFormData] = useState({
@@ -40,6 +48,12 @@ export function GuestEditModal({ guest, onClose }: GuestEditModalProps) {
         bicycleDescription: guest.bicycleDescription || '',
     });
 
+    const currentPhotoUrl = canTakePhoto ? getPhotoUrl(guest.photoPath) : null;
+
+    useEffect(() => {
+        if (canTakePhoto && guest.photoPath) requestPhotoUrls([guest.photoPath]);
+    }, [canTakePhoto, guest.photoPath, requestPhotoUrls]);
+
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target;
         const transformed =
@@ -72,7 +86,16 @@ export function GuestEditModal({ guest, onClose }: GuestEditModalProps) {
                 name: `${toTitleCase(formData.firstName.trim())} ${toTitleCase(formData.lastName.trim())}`.trim(),
             };
             await updateGuest(guest.id, updates);
-            toast.success('Guest updated');
+            const photoSaved = photo === undefined
+                ? true
+                : photo
+                    ? await saveGuestPhoto(guest.id, photo.blob)
+                    : await removeGuestPhoto(guest.id);
+            if (photoSaved) {
+                toast.success('Guest updated');
+            } else {
+                toast.error('Guest updated, but the photo could not be saved');
+            }
             onClose();
         } catch (error: any) {
             toast.error(error.message || 'Failed to update guest');
@@ -230,6 +253,21 @@ export function GuestEditModal({ guest, onClose }: GuestEditModalProps) {
                         />
                     </div>
 
+                    {canTakePhoto && (
+                        <div>
+                            <label className="block text-xs font-black text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-2">
+                                <Camera size={14} />
+                                Photo
+                            </label>
+                            <GuestPhotoCapture
+                                previewUrl={photo === undefined ? currentPhotoUrl : photo?.previewUrl || null}
+                                onCapture={(blob, previewUrl) => setPhoto({ blob, previewUrl })}
+                                onRemove={() => setPhoto(null)}
+                                disabled={isPending}
+                            />
+                        </div>
+                    )}
+
                     {/* Bicycle Description */}
                     <div>
                         <label className="block text-xs font-black text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-2">
@@ -249,15 +287,19 @@ export function GuestEditModal({ guest, onClose }: GuestEditModalProps) {
 
                 {/* Footer */}
                 <div className="p-6 border-t border-gray-100 bg-gray-50 flex items-center justify-between">
-                    <button
-                        type="button"
-                        onClick={() => setShowDeleteModal(true)}
-                        disabled={isPending}
-                        className="px-4 py-2.5 rounded-xl text-sm font-bold text-red-600 hover:bg-red-50 border-2 border-red-200 hover:border-red-300 transition-all disabled:opacity-50 flex items-center gap-2"
-                    >
-                        <Trash2 size={16} />
-                        Delete Guest
-                    </button>
+                    {canDelete ? (
+                        <button
+                            type="button"
+                            onClick={() => setShowDeleteModal(true)}
+                            disabled={isPending}
+                            className="px-4 py-2.5 rounded-xl text-sm font-bold text-red-600 hover:bg-red-50 border-2 border-red-200 hover:border-red-300 transition-all disabled:opacity-50 flex items-center gap-2"
+                        >
+                            <Trash2 size={16} />
+                            Delete Guest
+                        </button>
+                    ) : (
+                        <span />
+                    )}
                     <div className="flex items-center gap-3">
                         <button
                             type="button"
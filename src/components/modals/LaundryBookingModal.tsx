@@ -6,12 +6,20 @@ import { X, WashingMachine, Clock, Loader2, Package, Zap } from 'lucide-react';
 import { useModalStore } from '@/stores/useModalStore';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { useActionHistoryStore } from '@/stores/useActionHistoryStore';
-import { generateLaundrySlots, formatSlotLabel } from '@/lib/utils/serviceSlots';
+import { generateLaundrySlots, getSlotCapacity, formatSlotLabel } from '@/lib/utils/serviceSlots';
+import { useCurrentSiteRecords } from '@/hooks/useSiteRecords';
+import { useServiceSchedule } from '@/hooks/useServiceSchedule';
+import { useServiceClosures } from '@/hooks/useServiceClosures';
+import { getServiceClosure } from '@/lib/utils/serviceClosures';
+import { ServiceClosedNotice } from '@/components/ui/ServiceClosedNotice';
 import { cn } from '@/lib/utils/cn';
 import { useSession } from 'next-auth/react';
 import { type UserRole } from '@/lib/auth/types';
 import { ShieldAlert } from 'lucide-react';
 import { useBlockedSlotsStore } from '@/stores/useBlockedSlotsStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { guestNoShowStanding, normalizeNoShowPolicy } from '@/lib/utils/noShowPolicy';
+import { NoShowNotice } from '@/components/ui/NoShowNotice';
 import { ServiceCardReminder } from '@/components/ui/ReminderIndicator';
 import toast from 'react-hot-toast';
 import { useEffect } from 'react';
@@ -19,9 +27,12 @@ import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date'
 
 export function LaundryBookingModal() {
     const { laundryPickerGuest, setLaundryPickerGuest } = useModalStore();
-    const { laundryRecords, addLaundryRecord } = useServicesStore();
+    const { laundryRecords, showerRecords, addLaundryRecord } = useServicesStore();
+    // Slots fill per site; no-show standing follows the guest everywhere
+    const siteLaundryRecords = useCurrentSiteRecords(laundryRecords || []);
     const { addAction } = useActionHistoryStore();
     const { fetchBlockedSlots, isSlotBlocked } = useBlockedSlotsStore();
+    const { noShowPolicy } = useSettingsStore();
 
     useEffect(() => {
         fetchBlockedSlots();
@@ -36,17 +47,22 @@ export function LaundryBookingModal() {
     const isCheckinRole = role === 'checkin';
 
     const today = todayPacificDateString();
-    const allSlots = generateLaundrySlots();
+    const schedule = useServiceSchedule();
+    const allSlots = useMemo(() => generateLaundrySlots(new Date(), schedule), [schedule]);
+    const slotCapacity = getSlotCapacity('laundry', new Date(), schedule);
+    const closures = useServiceClosures();
+    const closure = getServiceClosure(closures, 'laundry', today);
 
     const slotsWithStatus = useMemo(() => {
         if (!laundryPickerGuest) return [];
         return allSlots.map((slotLabel) => {
-            const isBooked = (laundryRecords || []).some(
+            const bookedCount = siteLaundryRecords.filter(
                 (r) =>
                     r.time === slotLabel &&
                     r.laundryType === 'onsite' &&
                     pacificDateStringFrom(r.date) === today
-            );
+            ).length;
+            const isBooked = bookedCount >= slotCapacity;
             const isBlocked = isSlotBlocked('laundry', slotLabel, today);
 
             return {
@@ -55,12 +71,19 @@ export function LaundryBookingModal() {
                 isBlocked
             };
         });
-    }, [allSlots, laundryRecords, laundryPickerGuest, isSlotBlocked, today]);
+    }, [allSlots, slotCapacity, siteLaundryRecords, laundryPickerGuest, isSlotBlocked, today]);
 
     const nextAvailableSlot = useMemo(() => {
         return slotsWithStatus.find(s => !s.isBooked && !s.isBlocked);
     }, [slotsWithStatus]);
 
+    const policy = useMemo(() => normalizeNoShowPolicy(noShowPolicy), [noShowPolicy]);
+    const guestId = laundryPickerGuest?.id || '';
+    const noShowStanding = useMemo(
+        () => guestNoShowStanding(showerRecords || [], guestId, policy, today),
+        [showerRecords, guestId, policy, today]
+    );
+
     if (!laundryPickerGuest) return null;
 
     const handleBook = async (slotLabel?: string) => {
@@ -115,8 +138,11 @@ export function LaundryBookingModal() {
                 <div className="flex-1 overflow-y-auto p-6">
                     {/* Guest Reminders */}
                     <ServiceCardReminder guestId={laundryPickerGuest.id} serviceType="laundry" />
+                    {!closure && <NoShowNotice standing={noShowStanding} policy={policy} service="laundry" />}
                     
-                    {isCheckinRole ? (
+                    {closure ? (
+                        <ServiceClosedNotice closure={closure} />
+                    ) : isCheckinRole ? (
                         <div className="space-y-8">
                             <div className="flex p-1 bg-gray-100 rounded-2xl">
                                 {(['onsite', 'offsite'] as const).map((type) => (
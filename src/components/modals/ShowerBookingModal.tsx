@@ -8,22 +8,33 @@ import { useServicesStore } from '@/stores/useServicesStore';
 import { useGuestsStore } from '@/stores/useGuestsStore';
 import { useActionHistoryStore } from '@/stores/useActionHistoryStore';
 import { ServiceCardReminder } from '@/components/ui/ReminderIndicator';
-import { generateShowerSlots, formatSlotLabel } from '@/lib/utils/serviceSlots';
+import { generateShowerSlots, getSlotCapacity, formatSlotLabel } from '@/lib/utils/serviceSlots';
+import { useCurrentSiteRecords } from '@/hooks/useSiteRecords';
+import { useServiceSchedule } from '@/hooks/useServiceSchedule';
+import { useServiceClosures } from '@/hooks/useServiceClosures';
+import { getServiceClosure } from '@/lib/utils/serviceClosures';
+import { ServiceClosedNotice } from '@/components/ui/ServiceClosedNotice';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
 import { cn } from '@/lib/utils/cn';
 import { useSession } from 'next-auth/react';
 import { type UserRole } from '@/lib/auth/types';
 import { ShieldAlert } from 'lucide-react';
 import { useBlockedSlotsStore } from '@/stores/useBlockedSlotsStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { guestNoShowStanding, normalizeNoShowPolicy } from '@/lib/utils/noShowPolicy';
+import { NoShowNotice } from '@/components/ui/NoShowNotice';
 import toast from 'react-hot-toast';
 import { useEffect } from 'react';
 
 export function ShowerBookingModal() {
     const { showerPickerGuest, setShowerPickerGuest } = useModalStore();
     const { showerRecords, addShowerRecord, addShowerWaitlist } = useServicesStore();
+    // Slots fill per site; no-show standing follows the guest everywhere
+    const siteShowerRecords = useCurrentSiteRecords(showerRecords || []);
     const { guests } = useGuestsStore();
     const { addAction } = useActionHistoryStore();
     const { fetchBlockedSlots, isSlotBlocked } = useBlockedSlotsStore();
+    const { noShowPolicy } = useSettingsStore();
 
     useEffect(() => {
         fetchBlockedSlots();
@@ -36,12 +47,16 @@ export function ShowerBookingModal() {
     const isCheckinRole = role === 'checkin';
 
     const today = todayPacificDateString();
-    const allSlots = generateShowerSlots();
+    const schedule = useServiceSchedule();
+    const allSlots = useMemo(() => generateShowerSlots(new Date(), schedule), [schedule]);
+    const slotCapacity = getSlotCapacity('showers', new Date(), schedule);
+    const closures = useServiceClosures();
+    const closure = getServiceClosure(closures, 'showers', today);
 
     const slotsWithDetails = useMemo(() => {
         if (!showerPickerGuest) return [];
         return allSlots.map((slotTime) => {
-            const todaysRecords = (showerRecords || []).filter(
+            const todaysRecords = siteShowerRecords.filter(
                 (record) =>
                     record.time === slotTime &&
                     pacificDateStringFrom(record.date) === today &&
@@ -61,17 +76,26 @@ export function ShowerBookingModal() {
                 label: formatSlotLabel(slotTime),
                 count,
                 guests: guestsInSlot,
-                isFull: count >= 2,
-                isNearlyFull: count === 1,
+                isFull: count >= slotCapacity,
+                isNearlyFull: count === slotCapacity - 1,
                 isBlocked,
             };
         });
-    }, [allSlots, showerRecords, today, guests, showerPickerGuest, isSlotBlocked]);
+    }, [allSlots, slotCapacity, siteShowerRecords, today, guests, showerPickerGuest, isSlotBlocked]);
 
     const nextAvailableSlot = useMemo(() => {
         return slotsWithDetails.find(s => !s.isFull && !s.isBlocked);
     }, [slotsWithDetails]);
 
+    const policy = useMemo(() => normalizeNoShowPolicy(noShowPolicy), [noShowPolicy]);
+    const guestId = showerPickerGuest?.id || '';
+    const noShowStanding = useMemo(
+        () => guestNoShowStanding(showerRecords || [], guestId, policy, today),
+        [showerRecords, guestId, policy, today]
+    );
+    // Check-in staff can only waitlist a guest under the no-show policy
+    const waitlistOnly = isCheckinRole && noShowStanding.restricted;
+
     if (!showerPickerGuest) return null;
 
     const handleBook = async (slotTime: string) => {
@@ -141,16 +165,19 @@ export function ShowerBookingModal() {
                 <div className="flex-1 overflow-y-auto p-6">
                     {/* Guest Reminders */}
                     <ServiceCardReminder guestId={showerPickerGuest.id} serviceType="shower" />
+                    {!closure && <NoShowNotice standing={noShowStanding} policy={policy} service="shower" />}
                     
-                    {isCheckinRole ? (
+                    {closure ? (
+                        <ServiceClosedNotice closure={closure} />
+                    ) : isCheckinRole ? (
                         <div className="space-y-6">
                             <div className="p-8 rounded-2xl bg-sky-50 border-2 border-sky-100 flex flex-col items-center text-center space-y-4">
                                 <div className="p-4 rounded-full bg-white shadow-sm text-sky-500">
                                     <Clock size={48} />
                                 </div>
                                 <div className="space-y-2">
-                                    <h3 className="text-xl font-black text-gray-900">Book Next Slot</h3>
-                                    {nextAvailableSlot ? (
+                                    <h3 className="text-xl font-black text-gray-900">{waitlistOnly ? 'Waitlist Only' : 'Book Next Slot'}</h3>
+                                    {waitlistOnly ? null : nextAvailableSlot ? (
                                         <>
                                             <p className="text-gray-500 text-sm font-medium">
                                                 The next available shower is at
@@ -164,7 +191,7 @@ export function ShowerBookingModal() {
                                     )}
                                 </div>
 
-                                {nextAvailableSlot ? (
+                                {nextAvailableSlot && !waitlistOnly ? (
                                     <button
                                         onClick={() => handleBook(nextAvailableSlot.slotTime)}
                                         disabled={isPending}
@@ -241,7 +268,7 @@ export function ShowerBookingModal() {
                                     <div className="flex items-center justify-between mb-2">
                                         <h3 className="text-sm font-black text-gray-400 uppercase tracking-widest">Select an available time</h3>
                                         <span className="text-[10px] font-bold text-sky-600 bg-sky-50 px-2 py-0.5 rounded-full border border-sky-100">
-                                            2 GUESTS PER SLOT
+                                            {slotCapacity} {slotCapacity === 1 ? 'GUEST' : 'GUESTS'} PER SLOT
                                         </span>
                                     </div>
 
@@ -275,7 +302,7 @@ export function ShowerBookingModal() {
                                                 ) : (
                                                     <div className="flex items-center gap-1 mt-1">
                                                         <Users size={12} className={slot.isFull ? 'text-gray-300' : 'text-sky-500'} />
-                                                        <span className="text-[10px] font-bold text-gray-500">{slot.count}/2</span>
+                                                        <span className="text-[10px] font-bold text-gray-500">{slot.count}/{slotCapacity}</span>
                                                     </div>
                                                 )}
                                             </button>
@@ -1,17 +1,22 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import React from 'react';
 import { BanManagementModal } from '../BanManagementModal';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useSession } from 'next-auth/react';
 
 // Mock dependencies
 const mockBanGuest = vi.fn();
 const mockClearGuestBan = vi.fn();
+const mockLoadGuestBans = vi.fn();
+const mockGuestBans: any[] = [];
 
 vi.mock('@/stores/useGuestsStore', () => ({
     useGuestsStore: vi.fn(() => ({
         banGuest: mockBanGuest,
         clearGuestBan: mockClearGuestBan,
+        loadGuestBans: mockLoadGuestBans,
+        guestBans: mockGuestBans,
     })),
 }));
 
@@ -99,7 +104,7 @@ describe('BanManagementModal Component', () => {
         fireEvent.click(screen.getByRole('button', { name: 'Lift Ban' }));
 
         await waitFor(() => {
-            expect(mockClearGuestBan).toHaveBeenCalledWith('123');
+            expect(mockClearGuestBan).toHaveBeenCalledWith('123', { liftedBy: 'test@example.com' });
             expect(mockOnClose).toHaveBeenCalled();
         });
     });
@@ -133,6 +138,8 @@ describe('BanManagementModal Component', () => {
         vi.mocked(useGuestsStore).mockReturnValue({
             banGuest: errorMockBanGuest,
             clearGuestBan: mockClearGuestBan,
+            loadGuestBans: mockLoadGuestBans,
+            guestBans: mockGuestBans,
         } as any);
 
         const { unmount } = render(<BanManagementModal guest={mockGuest} onClose={mockOnClose} />);
@@ -154,6 +161,8 @@ describe('BanManagementModal Component', () => {
         vi.mocked(useGuestsStore).mockReturnValue({
             banGuest: mockBanGuest,
             clearGuestBan: errorMockClearGuestBan,
+            loadGuestBans: mockLoadGuestBans,
+            guestBans: mockGuestBans,
         } as any);
 
         const bannedGuest = { ...mockGuest, isBanned: true };
@@ -166,6 +175,65 @@ describe('BanManagementModal Component', () => {
         });
     });
 
+    describe('ban history', () => {
+        const bans = [
+            {
+                id: 'ban-2', guestId: '123', reason: 'Fighting', bannedFromMeals: false, bannedFromShower: true,
+                bannedFromLaundry: false, bannedFromBicycle: false, issuedBy: 'staff@example.com',
+                startsAt: '2026-10-01T00:00:00Z', endsAt: '2099-01-01T00:00:00Z', liftedAt: null, liftedBy: null,
+            },
+            {
+                id: 'ban-1', guestId: '123', reason: 'Theft', bannedFromMeals: false, bannedFromShower: false,
+                bannedFromLaundry: false, bannedFromBicycle: false, issuedBy: null,
+                startsAt: '2025-01-01T00:00:00Z', endsAt: '2025-02-01T00:00:00Z', liftedAt: '2025-01-10T00:00:00Z', liftedBy: 'admin@example.com',
+            },
+        ];
+
+        beforeEach(() => {
+            mockGuestBans.push(...bans);
+        });
+
+        afterEach(() => {
+            mockGuestBans.length = 0;
+        });
+
+        it('loads and lists past and current bans', () => {
+            render(<BanManagementModal guest={mockGuest} onClose={mockOnClose} />);
+
+            expect(mockLoadGuestBans).toHaveBeenCalledWith('123');
+            expect(screen.getByText('Ban History')).toBeDefined();
+            expect(screen.getByText('Showers · Fighting')).toBeDefined();
+            expect(screen.getByText('All services · Theft')).toBeDefined();
+            expect(screen.getByText('Active')).toBeDefined();
+            expect(screen.getByText('Lifted')).toBeDefined();
+            expect(screen.getByText(/Lifted .* by admin@example.com/)).toBeDefined();
+        });
+
+        it('updates the current ban instead of issuing a new one', async () => {
+            const bannedGuest = { ...mockGuest, isBanned: true, banReason: 'Fighting', bannedUntil: '2099-01-01T00:00:00Z', bannedFromShower: true };
+            render(<BanManagementModal guest={bannedGuest} onClose={mockOnClose} />);
+
+            fireEvent.click(screen.getByRole('button', { name: 'Update Ban' }));
+
+            await waitFor(() => {
+                expect(mockBanGuest).toHaveBeenCalledWith('123', expect.objectContaining({
+                    banId: 'ban-2',
+                    issuedBy: 'test@example.com',
+                    bannedFromShower: true,
+                }));
+            });
+        });
+    });
+
+    it('treats an expired ban as no longer active', () => {
+        const expiredGuest = { ...mockGuest, isBanned: true, banReason: 'Old', bannedUntil: '2020-01-01T00:00:00Z' };
+        render(<BanManagementModal guest={expiredGuest} onClose={mockOnClose} />);
+
+        expect(screen.getByRole('heading', { name: 'Ban Guest' })).toBeDefined();
+        expect(screen.queryByText('Currently Banned')).toBeNull();
+        expect(screen.queryByRole('button', { name: 'Lift Ban' })).toBeNull();
+    });
+
     it('updates inputs correctly', () => {
         const { container } = render(<BanManagementModal guest={mockGuest} onClose={mockOnClose} />);
 
@@ -182,4 +250,31 @@ describe('BanManagementModal Component', () => {
         const bicycleCheckbox = screen.getByLabelText(/Bicycle/i);
         fireEvent.click(bicycleCheckbox);
     });
+
+    describe('without the guests.ban permission', () => {
+        beforeEach(() => {
+            vi.mocked(useSession).mockReturnValue({
+                data: { user: { id: 'vol-1', role: 'checkin' }, expires: '2099-01-01' },
+                status: 'authenticated',
+            } as any);
+        });
+
+        afterEach(() => {
+            vi.mocked(useSession).mockReset();
+        });
+
+        it('explains the restriction and disables ban actions', () => {
+            const bannedGuest = { ...mockGuest, isBanned: true };
+            render(<BanManagementModal guest={bannedGuest} onClose={mockOnClose} />);
+
+            expect(screen.getByRole('note').textContent).toContain("Your role can't ban or unban guests");
+            const updateButton = screen.getByRole('button', { name: 'Update Ban' }) as HTMLButtonElement;
+            const liftButton = screen.getByRole('button', { name: 'Lift Ban' }) as HTMLButtonElement;
+            expect(updateButton.disabled).toBe(true);
+            expect(liftButton.disabled).toBe(true);
+
+            fireEvent.click(liftButton);
+            expect(mockClearGuestBan).not.toHaveBeenCalled();
+        });
+    });
 });
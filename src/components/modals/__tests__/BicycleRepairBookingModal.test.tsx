@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import React from 'react';
 import { BicycleRepairBookingModal } from '../BicycleRepairBookingModal';
+import { useBicycleRepairTypesStore, DEFAULT_BICYCLE_REPAIR_TYPES } from '@/stores/useBicycleRepairTypesStore';
 
 // Mock framer-motion
 vi.mock('framer-motion', () => ({
@@ -63,6 +64,7 @@ describe('BicycleRepairBookingModal', () => {
         vi.clearAllMocks();
         mockGuests = [];
         mockBicyclePickerGuest = null;
+        useBicycleRepairTypesStore.setState({ types: DEFAULT_BICYCLE_REPAIR_TYPES, isLoaded: true });
     });
 
     it('does not render when no bicyclePickerGuest is set', () => {
@@ -143,4 +145,60 @@ describe('BicycleRepairBookingModal', () => {
             }));
         });
     });
+
+    describe('repair type catalog', () => {
+        const guest = { id: 'g1', firstName: 'Mike', name: 'Mike Jones', bicycleDescription: 'Red Trek' };
+
+        beforeEach(() => {
+            mockBicyclePickerGuest = guest;
+            mockGuests = [guest];
+            useBicycleRepairTypesStore.setState({
+                types: [
+                    { key: 'flat_tire', label: 'Flat Tire', category: 'repair', defaultPriority: 2, estimatedMinutes: 15, active: true, sortOrder: 10 },
+                    { key: 'wheel_truing', label: 'Wheel Truing', category: 'repair', defaultPriority: 1, estimatedMinutes: 30, active: true, sortOrder: 20 },
+                    { key: 'lock', label: 'Lock', category: 'accessory', defaultPriority: 0, estimatedMinutes: 5, active: false, sortOrder: 30 },
+                    { key: 'mystery', label: 'Something Else', category: 'other', defaultPriority: 0, estimatedMinutes: null, active: true, sortOrder: 40 },
+                ],
+                isLoaded: true,
+            });
+        });
+
+        it('offers only active types and totals their estimates', () => {
+            render(<BicycleRepairBookingModal />);
+
+            expect(screen.getByText('Wheel Truing')).toBeDefined();
+            expect(screen.queryByText('Lock')).toBeNull();
+
+            fireEvent.click(screen.getByText('Flat Tire'));
+            fireEvent.click(screen.getByText('Wheel Truing'));
+            expect(screen.getByText('Est. 45m')).toBeDefined();
+        });
+
+        it('uses the most urgent default priority of the selected types', async () => {
+            mockAddBicycleRecord.mockResolvedValue({ id: 'r1' });
+            render(<BicycleRepairBookingModal />);
+
+            fireEvent.click(screen.getByText('Flat Tire'));
+            fireEvent.click(screen.getByText('Wheel Truing'));
+            fireEvent.click(screen.getByText('Log Repair'));
+
+            await waitFor(() => {
+                expect(mockAddBicycleRecord).toHaveBeenCalledWith('g1', expect.objectContaining({
+                    repairTypes: ['Flat Tire', 'Wheel Truing'],
+                    priority: 1,
+                }));
+            });
+        });
+
+        it('requires notes for types in the other category', () => {
+            render(<BicycleRepairBookingModal />);
+
+            fireEvent.click(screen.getByText('Something Else'));
+            const logButton = screen.getByText('Log Repair').closest('button') as HTMLButtonElement;
+            expect(logButton.disabled).toBe(true);
+
+            fireEvent.change(screen.getByPlaceholderText(/Notes are required/), { target: { value: 'Squeaky fender' } });
+            expect(logButton.disabled).toBe(false);
+        });
+    });
 });
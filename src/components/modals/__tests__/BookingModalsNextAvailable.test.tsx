@@ -1,10 +1,13 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import React from 'react';
 import { ShowerBookingModal } from '../ShowerBookingModal';
 import { LaundryBookingModal } from '../LaundryBookingModal';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { generateShowerSlots, generateLaundrySlots, formatSlotLabel } from '@/lib/utils/serviceSlots';
+import { useServiceClosuresStore } from '@/stores/useServiceClosuresStore';
+import { useSettingsStore } from '@/stores/useSettingsStore';
+import { todayPacificDateString } from '@/lib/utils/date';
 
 let mockRole: 'checkin' | 'staff' = 'staff';
 
@@ -454,3 +457,100 @@ describe('LaundryBookingModal — Staff Offsite & Blocked Slots', () => {
         expect(mockAddLaundryRecord).toHaveBeenCalledWith('g1', 'onsite', expect.any(String), 'BAG-42');
     });
 });
+
+describe('Booking modals — Closed Days', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockRole = 'staff';
+        mockShowerRecords.length = 0;
+        mockLaundryRecords.length = 0;
+        useServiceClosuresStore.setState({
+            closures: [{ id: 'c1', closedOn: todayPacificDateString(), service: 'showers', reason: 'Plumbing repair' }],
+            isLoaded: true,
+        });
+    });
+
+    afterEach(() => {
+        useServiceClosuresStore.setState({ closures: [], isLoaded: false });
+    });
+
+    it('shows the closure instead of shower slots', () => {
+        render(<ShowerBookingModal />);
+
+        expect(screen.getByText('Showers closed today')).toBeDefined();
+        expect(screen.getByText('Plumbing repair')).toBeDefined();
+        expect(screen.queryByText('Book Next Available Slot')).toBeNull();
+        expect(screen.queryByText('Add to Waitlist')).toBeNull();
+    });
+
+    it('hides booking options for check-in staff too', () => {
+        mockRole = 'checkin';
+        render(<ShowerBookingModal />);
+
+        expect(screen.getByText('Showers closed today')).toBeDefined();
+        expect(screen.queryByText('Confirm Booking')).toBeNull();
+        expect(screen.queryByText('Join Waitlist')).toBeNull();
+    });
+
+    it('leaves laundry open when only showers are closed', () => {
+        render(<LaundryBookingModal />);
+        expect(screen.getByText('Book Next Available Slot')).toBeDefined();
+    });
+
+    it('closes laundry on a full-day closure', () => {
+        useServiceClosuresStore.setState({
+            closures: [{ id: 'c2', closedOn: todayPacificDateString(), service: null, reason: 'Thanksgiving' }],
+        });
+        render(<LaundryBookingModal />);
+
+        expect(screen.getByText('All services closed today')).toBeDefined();
+        expect(screen.queryByText('Book Next Available Slot')).toBeNull();
+    });
+});
+
+describe('Booking modals — No-show policy', () => {
+    const recentNoShows = () => {
+        const today = todayPacificDateString();
+        return [1, 4, 8].map((daysAgo) => {
+            const [y, m, d] = today.split('-').map(Number);
+            const dateKey = new Date(Date.UTC(y, m - 1, d - daysAgo)).toISOString().slice(0, 10);
+            return { id: `ns${daysAgo}`, guestId: 'g1', status: 'no_show', date: `${dateKey}T17:00:00.000Z`, dateKey };
+        });
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockRole = 'checkin';
+        mockShowerRecords.length = 0;
+        mockLaundryRecords.length = 0;
+        useServiceClosuresStore.setState({ closures: [] });
+        useSettingsStore.setState({ noShowPolicy: { enabled: true, threshold: 3, windowDays: 30, restrictionDays: 7 } });
+    });
+
+    it('only offers the waitlist to check-in staff for a guest under the policy', () => {
+        mockShowerRecords.push(...recentNoShows());
+        render(<ShowerBookingModal />);
+
+        expect(screen.getByRole('alert').textContent).toContain('3 shower no-shows in the last 30 days');
+        expect(screen.getByText('Waitlist Only')).toBeDefined();
+        expect(screen.queryByText('Confirm Booking')).toBeNull();
+
+        fireEvent.click(screen.getByText('Join Waitlist'));
+        expect(mockAddShowerWaitlist).toHaveBeenCalledWith('g1');
+    });
+
+    it('books normally below the threshold', () => {
+        mockShowerRecords.push(...recentNoShows().slice(0, 2));
+        render(<ShowerBookingModal />);
+
+        expect(screen.queryByRole('alert')).toBeNull();
+        expect(screen.getByText('Confirm Booking')).toBeDefined();
+    });
+
+    it('warns when booking laundry for a guest under the policy', () => {
+        mockShowerRecords.push(...recentNoShows());
+        render(<LaundryBookingModal />);
+
+        expect(screen.getByRole('alert').textContent).toContain('Check with a coordinator before booking laundry');
+    });
+});
@@ -44,6 +44,8 @@ vi.mock('@/stores/useGuestsStore', () => ({
         deleteGuest: vi.fn(),
         banGuest: vi.fn(),
         clearGuestBan: vi.fn(),
+        loadGuestBans: vi.fn(),
+        guestBans: [],
         getWarningsForGuest: vi.fn(() => []),
         addGuestWarning: vi.fn(),
         removeGuestWarning: vi.fn(),
@@ -2,13 +2,17 @@
 
 import { SessionProvider } from 'next-auth/react';
 
+// Re-fetch the session periodically so role changes made by an admin
+// reach open tabs without a sign-out (the JWT callback re-reads profiles).
+const SESSION_REFETCH_INTERVAL_SECONDS = 5 * 60;
+
 export default function NextAuthProvider({
     children,
 }: {
     children: React.ReactNode;
 }) {
     return (
-        <SessionProvider refetchOnWindowFocus={false} refetchInterval={0}>
+        <SessionProvider refetchOnWindowFocus={false} refetchInterval={SESSION_REFETCH_INTERVAL_SECONDS}>
             {children}
         </SessionProvider>
     );
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CloudOff, Loader2, RefreshCw } from 'lucide-react';
+import { useSyncQueueStore } from '@/stores/useSyncQueueStore';
+
+// How often to retry while changes are waiting and the browser thinks it is online
+const RETRY_INTERVAL_MS = 30_000;
+
+/**
+ * SyncStatusIndicator - Shows when the device is offline or has check-ins
+ * waiting to reach the server, and replays them when the connection returns.
+ */
+export function SyncStatusIndicator() {
+    const { pending, isSyncing, hydrate, flush } = useSyncQueueStore();
+    const [isOnline, setIsOnline] = useState(true);
+
+    useEffect(() => {
+        hydrate().then(() => flush());
+    }, [hydrate, flush]);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setIsOnline(navigator.onLine !== false), 0);
+        const handleOnline = () => {
+            setIsOnline(true);
+            flush();
+        };
+        const handleOffline = () => setIsOnline(false);
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            clearTimeout(timer);
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [flush]);
+
+    useEffect(() => {
+        if (pending.length === 0 || !isOnline) return undefined;
+        const interval = setInterval(() => flush(), RETRY_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [pending.length, isOnline, flush]);
+
+    if (isOnline && pending.length === 0) return null;
+
+    const count = pending.length;
+    const label = count > 0
+        ? `${count} change${count !== 1 ? 's' : ''} pending sync`
+        : 'Offline';
+
+    return (
+        <button
+            type="button"
+            onClick={() => flush()}
+            disabled={!isOnline || isSyncing}
+            role="status"
+            title={isOnline ? 'Sync now' : 'Changes are saved on this device and will sync when the connection returns'}
+            className="inline-flex items-center gap-1.5 mr-2 px-2.5 py-1 rounded-full bg-amber-400/90 text-amber-950 text-[11px] font-bold shrink-0 disabled:cursor-default hover:bg-amber-300"
+        >
+            {isSyncing ? (
+                <Loader2 size={12} className="animate-spin" />
+            ) : isOnline ? (
+                <RefreshCw size={12} />
+            ) : (
+                <CloudOff size={12} />
+            )}
+            <span>{label}</span>
+        </button>
+    );
+}
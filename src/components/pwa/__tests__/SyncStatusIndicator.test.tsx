@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import { SyncStatusIndicator } from '../SyncStatusIndicator';
+import type { QueuedMutation } from '@/lib/utils/offlineQueue';
+
+const mockHydrate = vi.fn();
+const mockFlush = vi.fn();
+const storeState = {
+    pending: [] as QueuedMutation[],
+    isSyncing: false,
+    hydrate: mockHydrate,
+    flush: mockFlush,
+};
+
+vi.mock('@/stores/useSyncQueueStore', () => ({
+    useSyncQueueStore: Object.assign(() => storeState, { getState: () => storeState }),
+}));
+
+const queued = (id: string): QueuedMutation => ({
+    id,
+    seq: 1,
+    table: 'meal_attendance',
+    payload: { id },
+    label: 'Meal',
+    queuedAt: '2025-01-06T16:00:00Z',
+    attempts: 0,
+});
+
+describe('SyncStatusIndicator', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        storeState.pending = [];
+        storeState.isSyncing = false;
+        mockHydrate.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('loads the queue and replays it on mount', async () => {
+        render(<SyncStatusIndicator />);
+        await act(async () => {});
+
+        expect(mockHydrate).toHaveBeenCalled();
+        expect(mockFlush).toHaveBeenCalled();
+    });
+
+    it('renders nothing while online with nothing pending', async () => {
+        const { container } = render(<SyncStatusIndicator />);
+        await act(async () => { vi.runOnlyPendingTimers(); });
+
+        expect(container.firstChild).toBeNull();
+    });
+
+    it('shows how many changes are waiting and syncs on click', async () => {
+        storeState.pending = [queued('m1'), queued('m2')];
+        render(<SyncStatusIndicator />);
+        await act(async () => { vi.runOnlyPendingTimers(); });
+        mockFlush.mockClear();
+
+        fireEvent.click(screen.getByRole('status'));
+
+        expect(screen.getByText('2 changes pending sync')).toBeDefined();
+        expect(mockFlush).toHaveBeenCalledTimes(1);
+    });
+
+    it('shows offline status and replays when the connection returns', async () => {
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        render(<SyncStatusIndicator />);
+        await act(async () => { vi.runOnlyPendingTimers(); });
+
+        expect(screen.getByText('Offline')).toBeDefined();
+        mockFlush.mockClear();
+
+        await act(async () => { window.dispatchEvent(new Event('online')); });
+
+        expect(mockFlush).toHaveBeenCalled();
+        expect(screen.queryByText('Offline')).toBeNull();
+    });
+
+    it('retries periodically while changes are pending', async () => {
+        storeState.pending = [queued('m1')];
+        render(<SyncStatusIndicator />);
+        await act(async () => { vi.runOnlyPendingTimers(); });
+        mockFlush.mockClear();
+
+        await act(async () => { vi.advanceTimersByTime(30_000); });
+
+        expect(mockFlush).toHaveBeenCalledTimes(1);
+    });
+});
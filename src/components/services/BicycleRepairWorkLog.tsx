@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import {
+    COMMON_BICYCLE_PARTS,
+    formatPartsCost,
+    partsCost,
+    type BicycleRepairPart,
+} from '@/lib/utils/bicycleRepairs';
+
+export interface BicycleWorkUpdates {
+    parts?: BicycleRepairPart[];
+    mechanicName?: string | null;
+    laborMinutes?: number | null;
+}
+
+interface BicycleRepairWorkLogProps {
+    recordId: string;
+    parts: BicycleRepairPart[];
+    mechanicName: string | null;
+    laborMinutes: number | null;
+    onSave: (updates: BicycleWorkUpdates) => void | Promise<void>;
+}
+
+const inputClass = 'w-full border border-gray-200 rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-sky-400';
+const labelClass = 'block text-[10px] font-bold text-gray-500 mb-1 uppercase tracking-wide';
+
+/**
+ * BicycleRepairWorkLog - Mechanic, minutes spent and parts used on one repair.
+ * Text fields save when they lose focus; parts save as they are added or removed.
+ */
+export function BicycleRepairWorkLog({ recordId, parts, mechanicName, laborMinutes, onSave }: BicycleRepairWorkLogProps) {
+    const [mechanic, setMechanic] = useState(mechanicName || '');
+    const [minutes, setMinutes] = useState(laborMinutes != null ? String(laborMinutes) : '');
+    const [partName, setPartName] = useState('');
+    const [quantity, setQuantity] = useState('1');
+    const [unitCost, setUnitCost] = useState('');
+
+    const saveMechanic = () => {
+        const next = mechanic.trim() || null;
+        if (next !== (mechanicName || null)) onSave({ mechanicName: next });
+    };
+
+    const saveMinutes = () => {
+        const parsed = minutes.trim() === '' ? null : Math.max(0, Math.round(Number(minutes)));
+        if (parsed !== null && Number.isNaN(parsed)) {
+            setMinutes(laborMinutes != null ? String(laborMinutes) : '');
+            return;
+        }
+        if (parsed !== laborMinutes) onSave({ laborMinutes: parsed });
+    };
+
+    const addPart = () => {
+        const name = partName.trim();
+        if (!name) return;
+        const part: BicycleRepairPart = {
+            name,
+            quantity: Math.max(1, Math.round(Number(quantity)) || 1),
+            unitCost: Math.max(0, Number(unitCost) || 0),
+        };
+        onSave({ parts: [...parts, part] });
+        setPartName('');
+        setQuantity('1');
+        setUnitCost('');
+    };
+
+    const removePart = (index: number) => onSave({ parts: parts.filter((_, i) => i !== index) });
+
+    const partsListId = `bicycle-parts-${recordId}`;
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+                <div>
+                    <label htmlFor={`${recordId}-mechanic`} className={labelClass}>Mechanic</label>
+                    <input
+                        id={`${recordId}-mechanic`}
+                        value={mechanic}
+                        onChange={(e) => setMechanic(e.target.value)}
+                        onBlur={saveMechanic}
+                        placeholder="Name"
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label htmlFor={`${recordId}-minutes`} className={labelClass}>Minutes</label>
+                    <input
+                        id={`${recordId}-minutes`}
+                        type="number"
+                        min={0}
+                        value={minutes}
+                        onChange={(e) => setMinutes(e.target.value)}
+                        onBlur={saveMinutes}
+                        placeholder="0"
+                        className={inputClass}
+                    />
+                </div>
+            </div>
+
+            <div>
+                <div className={labelClass}>
+                    Parts used{parts.length > 0 && ` · ${formatPartsCost(partsCost(parts))}`}
+                </div>
+                {parts.length > 0 && (
+                    <ul className="space-y-1 mb-2">
+                        {parts.map((part, index) => (
+                            <li key={`${part.name}-${index}`} className="flex items-center justify-between gap-2 text-xs bg-gray-50 rounded px-2 py-1">
+                                <span className="text-gray-700 truncate">
+                                    {part.quantity} × {part.name}
+                                    <span className="text-gray-400"> @ {formatPartsCost(part.unitCost)}</span>
+                                </span>
+                                <button
+                                    type="button"
+                                    onClick={() => removePart(index)}
+                                    aria-label={`Remove ${part.name}`}
+                                    className="text-gray-400 hover:text-red-600"
+                                >
+                                    <X size={12} />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="flex items-end gap-1.5">
+                    <input
+                        value={partName}
+                        onChange={(e) => setPartName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') addPart(); }}
+                        list={partsListId}
+                        placeholder="Part"
+                        aria-label="Part name"
+                        className={`${inputClass} flex-1 min-w-0`}
+                    />
+                    <datalist id={partsListId}>
+                        {COMMON_BICYCLE_PARTS.map((p) => <option key={p} value={p} />)}
+                    </datalist>
+                    <input
+                        type="number"
+                        min={1}
+                        value={quantity}
+                        onChange={(e) => setQuantity(e.target.value)}
+                        aria-label="Quantity"
+                        className={`${inputClass} w-12`}
+                    />
+                    <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={unitCost}
+                        onChange={(e) => setUnitCost(e.target.value)}
+                        placeholder="$ each"
+                        aria-label="Cost each"
+                        className={`${inputClass} w-16`}
+                    />
+                    <button
+                        type="button"
+                        onClick={addPart}
+                        disabled={!partName.trim()}
+                        aria-label="Add part"
+                        className="p-1.5 rounded-lg bg-sky-600 text-white hover:bg-sky-700 disabled:opacity-40"
+                    >
+                        <Plus size={14} />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
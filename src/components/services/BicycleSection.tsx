@@ -1,18 +1,22 @@
 'use client';
 
-import { useState, useMemo, useCallback, useRef } from 'react';
+import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     Bike, Clock, CheckCircle, Wrench, Trash2, ChevronDown, ChevronUp,
     ChevronLeft, ChevronRight, GripVertical, LayoutGrid, List
 } from 'lucide-react';
 import { useServicesStore } from '@/stores/useServicesStore';
+import { useCurrentSiteRecords } from '@/hooks/useSiteRecords';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useBicycleRepairTypesStore, type BicycleRepairType } from '@/stores/useBicycleRepairTypesStore';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
 import { cn } from '@/lib/utils/cn';
 import toast from 'react-hot-toast';
 import { CompactWaiverIndicator } from '@/components/ui/CompactWaiverIndicator';
 import { ReminderIndicator } from '@/components/ui/ReminderIndicator';
+import { BicycleRepairWorkLog, type BicycleWorkUpdates } from './BicycleRepairWorkLog';
+import { describeParts, formatLaborMinutes, formatPartsCost, partsCost } from '@/lib/utils/bicycleRepairs';
 
 const BICYCLE_REPAIR_STATUS = {
     PENDING: 'pending',
@@ -51,8 +55,17 @@ const STATUS_COLUMNS = [
 ];
 
 export function BicycleSection() {
-    const { bicycleRecords, updateBicycleRecord, deleteBicycleRecord } = useServicesStore();
+    const { bicycleRecords: allBicycleRecords, updateBicycleRecord, deleteBicycleRecord } = useServicesStore();
+    const bicycleRecords = useCurrentSiteRecords(allBicycleRecords);
     const { guests } = useGuestsStore();
+    // Subscribing to the catalog re-renders cards when types are renamed or retired
+    useBicycleRepairTypesStore((s) => s.types);
+    const resolveRepairType = useBicycleRepairTypesStore((s) => s.resolveType);
+    const ensureRepairTypesLoaded = useBicycleRepairTypesStore((s) => s.ensureLoaded);
+
+    useEffect(() => {
+        ensureRepairTypesLoaded();
+    }, [ensureRepairTypesLoaded]);
 
     // View mode state
     const [viewMode, setViewMode] = useState<'kanban' | 'list'>('kanban');
@@ -154,6 +167,15 @@ export function BicycleSection() {
         }
     }, [updateBicycleRecord]);
 
+    // Save parts, mechanic and labor
+    const handleWorkSave = useCallback(async (recordId: string, updates: BicycleWorkUpdates) => {
+        try {
+            await updateBicycleRecord(recordId, updates);
+        } catch {
+            toast.error('Failed to save repair details');
+        }
+    }, [updateBicycleRecord]);
+
     // Drag handlers
     const handleDragStart = useCallback((e: React.DragEvent, record: any) => {
         draggedItemRef.current = record;
@@ -326,6 +348,7 @@ export function BicycleSection() {
                                                 key={record.id}
                                                 record={record}
                                                 guestDetails={getGuestDetails(record.guestId)}
+                                                resolveRepairType={resolveRepairType}
                                                 isExpanded={expandedCards[record.id]}
                                                 isDragging={draggedItem?.id === record.id}
                                                 onToggle={() => toggleCard(record.id)}
@@ -333,6 +356,7 @@ export function BicycleSection() {
                                                 onDragEnd={handleDragEnd}
                                                 onRepairToggle={(type) => handleRepairToggle(record, type)}
                                                 onStatusChange={(status) => handleStatusChange(record.id, status)}
+                                                onWorkSave={(updates) => handleWorkSave(record.id, updates)}
                                                 onDelete={() => deleteBicycleRecord(record.id)}
                                             />
                                         ))}
@@ -364,6 +388,7 @@ export function BicycleSection() {
                                     key={record.id}
                                     record={record}
                                     guestDetails={getGuestDetails(record.guestId)}
+                                    resolveRepairType={resolveRepairType}
                                     isExpanded={expandedCards[record.id]}
                                     isDragging={false}
                                     isListView
@@ -372,6 +397,7 @@ export function BicycleSection() {
                                     onDragEnd={() => { }}
                                     onRepairToggle={(type) => handleRepairToggle(record, type)}
                                     onStatusChange={(status) => handleStatusChange(record.id, status)}
+                                    onWorkSave={(updates) => handleWorkSave(record.id, updates)}
                                     onDelete={() => deleteBicycleRecord(record.id)}
                                 />
                             ))
@@ -386,6 +412,7 @@ export function BicycleSection() {
 interface BicycleCardProps {
     record: any;
     guestDetails: { name: string; legalName?: string; hasPreferred?: boolean; bicycleDescription: string | null };
+    resolveRepairType: (value: string) => BicycleRepairType | undefined;
     isExpanded: boolean;
     isDragging: boolean;
     isListView?: boolean;
@@ -394,12 +421,14 @@ interface BicycleCardProps {
     onDragEnd: () => void;
     onRepairToggle: (type: string) => void;
     onStatusChange: (status: string) => void;
+    onWorkSave: (updates: BicycleWorkUpdates) => void;
     onDelete: () => void;
 }
 
 function BicycleCard({
     record,
     guestDetails,
+    resolveRepairType,
     isExpanded,
     isDragging,
     isListView,
@@ -408,10 +437,16 @@ function BicycleCard({
     onDragEnd,
     onRepairToggle,
     onStatusChange,
+    onWorkSave,
     onDelete
 }: BicycleCardProps) {
     const repairTypes = record.repairTypes || [record.repairType].filter(Boolean);
     const completedRepairs = record.completedRepairs || [];
+    const parts = record.parts || [];
+    const estimatedMinutes = repairTypes.reduce(
+        (sum: number, type: string) => sum + (resolveRepairType(type)?.estimatedMinutes || 0),
+        0
+    );
     const isDone = record.status === BICYCLE_REPAIR_STATUS.DONE;
 
     return (
@@ -465,9 +500,11 @@ function BicycleCard({
                     <div className="space-y-0.5 bg-gray-50 rounded-lg p-2 border border-gray-200 mb-3">
                         <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wide px-1.5 mb-1">
                             Repairs ({completedRepairs.length}/{repairTypes.length})
+                            {estimatedMinutes > 0 && <span className="normal-case tracking-normal font-medium text-gray-400"> · est. {formatLaborMinutes(estimatedMinutes)}</span>}
                         </div>
                         {repairTypes.map((type: string, index: number) => {
                             const isCompleted = completedRepairs.includes(type);
+                            const catalogType = resolveRepairType(type);
                             return (
                                 <label
                                     key={`${record.id}-${type}-${index}`}
@@ -484,14 +521,34 @@ function BicycleCard({
                                         className="w-3.5 h-3.5 text-sky-600 border-gray-300 rounded flex-shrink-0"
                                     />
                                     <span className={isCompleted ? 'line-through text-gray-400' : 'text-gray-700'}>
-                                        {type}
+                                        {catalogType?.label || type}
                                     </span>
+                                    {catalogType && !catalogType.active && (
+                                        <span className="ml-auto text-[9px] font-bold uppercase text-gray-400">Retired</span>
+                                    )}
                                 </label>
                             );
                         })}
                     </div>
                 )}
 
+                {/* Parts and Labor */}
+                {(parts.length > 0 || record.laborMinutes || record.mechanicName) && (
+                    <div className="text-xs mb-3 space-y-0.5">
+                        {parts.length > 0 && (
+                            <div>
+                                <span className="font-bold text-gray-700">Parts: </span>
+                                <span className="text-gray-600">{describeParts(parts)} ({formatPartsCost(partsCost(parts))})</span>
+                            </div>
+                        )}
+                        {(record.laborMinutes || record.mechanicName) && (
+                            <div className="text-gray-500">
+                                {[record.mechanicName, record.laborMinutes ? formatLaborMinutes(record.laborMinutes) : null].filter(Boolean).join(' · ')}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Notes */}
                 {record.notes && (
                     <div className="text-xs mb-3">
@@ -516,6 +573,14 @@ function BicycleCard({
                             </select>
                         </div>
 
+                        <BicycleRepairWorkLog
+                            recordId={record.id}
+                            parts={parts}
+                            mechanicName={record.mechanicName || null}
+                            laborMinutes={record.laborMinutes ?? null}
+                            onSave={onWorkSave}
+                        />
+
                         <button
                             onClick={() => {
                                 if (window.confirm(`Delete repair record for ${guestDetails.name}?`)) {
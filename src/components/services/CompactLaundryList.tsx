@@ -8,6 +8,8 @@ import { todayPacificDateString, pacificDateStringFrom, formatPacificTimeString
 import { CompactWaiverIndicator } from '@/components/ui/CompactWaiverIndicator';
 import { ReminderIndicator } from '@/components/ui/ReminderIndicator';
 import { cn } from '@/lib/utils/cn';
+import { isMachineStatus } from '@/lib/utils/laundryMachines';
+import { useLaundryMachinePicker } from './LaundryMachinePicker';
 import toast from 'react-hot-toast';
 
 // Status Constants
@@ -168,12 +170,20 @@ function getNextStatusLabel(nextStatus: string): string {
 // Shared status change hook
 function useStatusChange(recordId: string, readOnly: boolean) {
     const [isUpdating, setIsUpdating] = useState(false);
-    const { updateLaundryStatus, updateLaundryBagNumber } = useServicesStore();
+    const { laundryRecords, updateLaundryStatus, updateLaundryBagNumber } = useServicesStore();
+    const { hasMachines, pickMachine, machinePicker } = useLaundryMachinePicker();
 
     const handleStatusChange = useCallback(async (e: React.MouseEvent | React.ChangeEvent<HTMLSelectElement>, newStatus: string, currentRecord?: LaundryBooking) => {
         if ('stopPropagation' in e) e.stopPropagation();
         if (readOnly || isUpdating) return;
 
+        // Ask which washer/dryer the load goes into once machines are registered
+        let machineId: string | null | undefined;
+        if (isMachineStatus(newStatus) && hasMachines(newStatus)) {
+            machineId = await pickMachine(newStatus, laundryRecords || []);
+            if (machineId === undefined) return;
+        }
+
         // Check if bag number is needed (moving out of waiting/pending without one)
         if (currentRecord && !currentRecord.bagNumber) {
             const isOffsite = currentRecord.laundryType === 'offsite';
@@ -190,7 +200,11 @@ function useStatusChange(recordId: string, readOnly: boolean) {
                     return;
                 }
                 try {
-                    await updateLaundryBagNumber(recordId, trimmedBag);
+                    // Fails when another booking already has this number today
+                    if (!(await updateLaundryBagNumber(recordId, trimmedBag))) {
+                        toast.error('Failed to save bag number');
+                        return;
+                    }
                     toast.success('Bag number saved');
                 } catch {
                     toast.error('Failed to save bag number');
@@ -201,16 +215,20 @@ function useStatusChange(recordId: string, readOnly: boolean) {
 
         setIsUpdating(true);
         try {
-            await updateLaundryStatus(recordId, newStatus);
+            if (machineId === undefined) {
+                await updateLaundryStatus(recordId, newStatus);
+            } else {
+                await updateLaundryStatus(recordId, newStatus, machineId);
+            }
             toast.success('Status updated');
         } catch {
             toast.error('Failed to update status');
         } finally {
             setIsUpdating(false);
         }
-    }, [recordId, readOnly, isUpdating, updateLaundryStatus, updateLaundryBagNumber]);
+    }, [recordId, readOnly, isUpdating, laundryRecords, updateLaundryStatus, updateLaundryBagNumber, hasMachines, pickMachine]);
 
-    return { isUpdating, handleStatusChange };
+    return { isUpdating, handleStatusChange, machinePicker };
 }
 
 // Memoized active laundry row
@@ -219,7 +237,7 @@ const ActiveLaundryRow = memo(({ booking, onGuestClick, readOnly = false }: { bo
         onGuestClick?.(booking.guestId, booking.id);
     }, [onGuestClick, booking.guestId, booking.id]);
 
-    const { isUpdating, handleStatusChange } = useStatusChange(booking.id, readOnly);
+    const { isUpdating, handleStatusChange, machinePicker } = useStatusChange(booking.id, readOnly);
     const isOffsite = booking.laundryType === 'offsite';
     const nextStatus = getNextStatus(booking.status, isOffsite);
     const statusOptions = isOffsite ? OFFSITE_STATUS_OPTIONS : ONSITE_STATUS_OPTIONS;
@@ -278,6 +296,7 @@ const ActiveLaundryRow = memo(({ booking, onGuestClick, readOnly = false }: { bo
 
                 {readOnly && <LaundryStatusBadge status={booking.status} />}
             </div>
+            {machinePicker}
         </div>
     );
 });
@@ -289,7 +308,7 @@ const DoneLaundryRow = memo(({ booking, onGuestClick, readOnly = false }: { book
         onGuestClick?.(booking.guestId, booking.id);
     }, [onGuestClick, booking.guestId, booking.id]);
 
-    const { isUpdating, handleStatusChange } = useStatusChange(booking.id, readOnly);
+    const { isUpdating, handleStatusChange, machinePicker } = useStatusChange(booking.id, readOnly);
     const statusOptions = ONSITE_STATUS_OPTIONS;
 
     return (
@@ -330,6 +349,7 @@ const DoneLaundryRow = memo(({ booking, onGuestClick, readOnly = false }: { book
                 )}
                 {readOnly && <LaundryStatusBadge status={booking.status} />}
             </div>
+            {machinePicker}
         </div>
     );
 });
@@ -25,6 +25,7 @@ import {
 } from '@/lib/utils/donationUtils';
 import { todayPacificDateString, pacificDateStringFrom, formatTimeInPacific } from '@/lib/utils/date';
 import { cn } from '@/lib/utils/cn';
+import { usePermission } from '@/hooks/usePermission';
 
 // Helper to safely format a date string (YYYY-MM-DD) for display
 const formatDisplayDate = (dateString: string) => {
@@ -174,8 +175,8 @@ const GroupedDonationCard = ({
     onDelete
 }: {
     group: GroupedDonation;
-    onEdit: (record: DonationRecord) => void;
-    onDelete: (id: string) => void;
+    onEdit?: (record: DonationRecord) => void;
+    onDelete?: (id: string) => void;
 }) => {
     const [isExpanded, setIsExpanded] = useState(group.entries.length === 1);
     const hasMultipleEntries = group.entries.length > 1;
@@ -221,7 +222,7 @@ const GroupedDonationCard = ({
                             {isExpanded ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
                         </button>
                     )}
-                    {!hasMultipleEntries && (
+                    {!hasMultipleEntries && onEdit && onDelete && (
                         <div className="flex gap-1">
                             <button
                                 onClick={(e) => { e.stopPropagation(); onEdit(group.entries[0]); }}
@@ -271,22 +272,24 @@ const GroupedDonationCard = ({
                                     <span className="text-xs text-gray-400">• {entry.temperature}</span>
                                 )}
                             </div>
-                            <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                <button
-                                    onClick={() => onEdit(entry)}
-                                    className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
-                                    aria-label="Edit entry"
-                                >
-                                    <Pencil size={14} />
-                                </button>
-                                <button
-                                    onClick={() => onDelete(entry.id)}
-                                    className="p-1.5 hover:bg-red-50 text-red-600 rounded-lg transition-colors"
-                                    aria-label="Delete entry"
-                                >
-                                    <Trash2 size={14} />
-                                </button>
-                            </div>
+                            {onEdit && onDelete && (
+                                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button
+                                        onClick={() => onEdit(entry)}
+                                        className="p-1.5 hover:bg-blue-50 text-blue-600 rounded-lg transition-colors"
+                                        aria-label="Edit entry"
+                                    >
+                                        <Pencil size={14} />
+                                    </button>
+                                    <button
+                                        onClick={() => onDelete(entry.id)}
+                                        className="p-1.5 hover:bg-red-50 text-red-600 rounded-lg transition-colors"
+                                        aria-label="Delete entry"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -302,8 +305,8 @@ const DonorGroupCard = ({
     onDelete
 }: {
     donorGroup: DonorGroup;
-    onEdit: (record: DonationRecord) => void;
-    onDelete: (id: string) => void;
+    onEdit?: (record: DonationRecord) => void;
+    onDelete?: (id: string) => void;
 }) => {
     const [isExpanded, setIsExpanded] = useState(true);
     const donorLabel = donorGroup.donor || 'Unknown Donor';
@@ -400,6 +403,7 @@ export const DonationsSection = () => {
         updateDonation,
         deleteDonation
     } = useDonationsStore();
+    const canEditDonations = usePermission('donations.edit');
     const [selectedDate, setSelectedDate] = useState(todayPacificDateString());
     const [loading, setLoading] = useState(false);
     const [editingId, setEditingId] = useState<string | null>(null);
@@ -759,8 +763,8 @@ export const DonationsSection = () => {
                                 <DonorGroupCard
                                     key={donorGroup.donor || '__unknown__'}
                                     donorGroup={donorGroup}
-                                    onEdit={handleEdit}
-                                    onDelete={handleDelete}
+                                    onEdit={canEditDonations ? handleEdit : undefined}
+                                    onDelete={canEditDonations ? handleDelete : undefined}
                                 />
                             ))
                         )}
@@ -161,7 +161,7 @@ export function EndServiceDayPanel({
                                     ) : (
                                         <>
                                             This will cancel all <strong>{pendingLaundryCount}</strong> pending
-                                            on-site laundry loads.
+                                            on-site laundry loads (waiting and waitlisted).
                                         </>
                                     )}
                                 </p>
@@ -0,0 +1,203 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Boxes, Loader2, PackagePlus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useItemCatalogStore, type CatalogItem, type StockChangeReason } from '@/stores/useItemCatalogStore';
+import { getItemIcon } from '@/components/icons/itemIcons';
+import { usePermission } from '@/hooks/usePermission';
+import { PermissionNotice } from '@/components/ui/PermissionNotice';
+import { cn } from '@/lib/utils/cn';
+
+interface StockDraft {
+    itemKey: string;
+    reason: StockChangeReason;
+    amount: string;
+    donor: string;
+    note: string;
+}
+
+function StockBadge({ item }: { item: CatalogItem }) {
+    if (item.stockOnHand === null) {
+        return <span className="text-xs font-medium text-gray-400">Not tracked</span>;
+    }
+    const isOut = item.stockOnHand <= 0;
+    const isLow = !isOut && item.stockOnHand <= item.lowStockThreshold;
+    return (
+        <span
+            className={cn(
+                'px-2.5 py-1 rounded-lg text-xs font-black',
+                isOut ? 'bg-red-50 text-red-700' : isLow ? 'bg-amber-50 text-amber-700' : 'bg-emerald-50 text-emerald-700'
+            )}
+        >
+            {isOut ? 'Out of stock' : `${item.stockOnHand} in stock`}
+        </span>
+    );
+}
+
+/**
+ * InventorySection - Stock on hand for each item handed out at showers,
+ * with restocks (donations) and shelf recounts
+ */
+export function InventorySection() {
+    const { items, isLoading, ensureLoaded, recordStockChange } = useItemCatalogStore();
+    const canManage = usePermission('inventory.manage');
+    const [draft, setDraft] = useState<StockDraft | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    const activeItems = items.filter((item) => item.active);
+
+    const openDraft = (itemKey: string, reason: StockChangeReason) => {
+        setDraft({ itemKey, reason, amount: '', donor: '', note: '' });
+    };
+
+    const handleSave = async (item: CatalogItem) => {
+        if (!draft) return;
+        const amount = Number(draft.amount);
+        if (draft.amount === '' || !Number.isInteger(amount) || amount < 0 || (draft.reason === 'donation' && amount === 0)) {
+            toast.error(draft.reason === 'donation' ? 'Enter how many were received' : 'Enter the number on the shelf');
+            return;
+        }
+
+        // Recounts are stored as the difference from the current count
+        const delta = draft.reason === 'donation' ? amount : amount - (item.stockOnHand ?? 0);
+        if (delta === 0) {
+            toast.success(`${item.label} count unchanged`);
+            setDraft(null);
+            return;
+        }
+
+        setSaving(true);
+        const ok = await recordStockChange({
+            itemKey: item.key,
+            delta,
+            reason: draft.reason,
+            donor: draft.reason === 'donation' ? draft.donor : undefined,
+            note: draft.note,
+        });
+        setSaving(false);
+        if (ok) {
+            toast.success(draft.reason === 'donation' ? `Added ${amount} ${item.label}` : `${item.label} count set to ${amount}`);
+            setDraft(null);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-3">
+                <div className="p-2 rounded-lg bg-teal-50 text-teal-600">
+                    <Boxes size={20} />
+                </div>
+                <div>
+                    <h2 className="text-xl font-black text-gray-900">Item Inventory</h2>
+                    <p className="text-sm text-gray-500 font-medium">
+                        Items handed out at showers come off the shelf automatically; undoing one puts it back.
+                    </p>
+                </div>
+            </div>
+
+            {!canManage && <PermissionNotice permission="inventory.manage" />}
+
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden">
+                {isLoading && items.length === 0 ? (
+                    <div className="h-32 flex items-center justify-center text-gray-400">
+                        <Loader2 className="animate-spin" />
+                    </div>
+                ) : (
+                    <ul className="divide-y divide-gray-100">
+                        {activeItems.map((item) => {
+                            const Icon = getItemIcon(item.icon);
+                            const isEditing = draft?.itemKey === item.key;
+                            return (
+                                <li key={item.key} className="px-4 py-3">
+                                    <div className="flex items-center gap-3">
+                                        <Icon size={20} className="text-teal-600 shrink-0" />
+                                        <p className="flex-1 min-w-0 font-bold text-sm text-gray-900 truncate">{item.label}</p>
+                                        <StockBadge item={item} />
+                                        {canManage && !isEditing && (
+                                            <div className="flex items-center gap-1">
+                                                <button
+                                                    onClick={() => openDraft(item.key, 'donation')}
+                                                    aria-label={`Restock ${item.label}`}
+                                                    className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-bold text-teal-700 hover:bg-teal-50"
+                                                >
+                                                    <PackagePlus size={14} /> Restock
+                                                </button>
+                                                <button
+                                                    onClick={() => openDraft(item.key, 'adjustment')}
+                                                    aria-label={`Recount ${item.label}`}
+                                                    className="px-3 py-1.5 rounded-lg text-xs font-bold text-gray-500 hover:bg-gray-100"
+                                                >
+                                                    Recount
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {isEditing && draft && (
+                                        <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-3 p-3 rounded-xl bg-teal-50/40 border border-teal-100">
+                                            <label className="text-xs font-bold text-gray-600">
+                                                {draft.reason === 'donation' ? 'Quantity received' : 'Count on shelf'}
+                                                <input
+                                                    type="number"
+                                                    min={draft.reason === 'donation' ? 1 : 0}
+                                                    value={draft.amount}
+                                                    onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+                                                    className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-teal-500"
+                                                    autoFocus
+                                                />
+                                            </label>
+                                            {draft.reason === 'donation' && (
+                                                <label className="text-xs font-bold text-gray-600">
+                                                    Donor
+                                                    <input
+                                                        type="text"
+                                                        value={draft.donor}
+                                                        onChange={(e) => setDraft({ ...draft, donor: e.target.value })}
+                                                        placeholder="Optional"
+                                                        className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-teal-500"
+                                                    />
+                                                </label>
+                                            )}
+                                            <label className="text-xs font-bold text-gray-600">
+                                                Note
+                                                <input
+                                                    type="text"
+                                                    value={draft.note}
+                                                    onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+                                                    placeholder="Optional"
+                                                    className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm font-medium outline-none focus:border-teal-500"
+                                                />
+                                            </label>
+                                            <div className="flex items-end justify-end gap-2">
+                                                <button
+                                                    onClick={() => setDraft(null)}
+                                                    disabled={saving}
+                                                    className="px-4 py-2 rounded-xl text-xs font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                                                >
+                                                    Cancel
+                                                </button>
+                                                <button
+                                                    onClick={() => handleSave(item)}
+                                                    disabled={saving}
+                                                    className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-teal-600 text-white text-xs font-bold hover:bg-teal-700 disabled:opacity-50"
+                                                >
+                                                    {saving && <Loader2 size={14} className="animate-spin" />}
+                                                    Save
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+}
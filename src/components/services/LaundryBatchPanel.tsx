@@ -0,0 +1,288 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Layers, Loader2, Printer, Trash2, Truck, Undo2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLaundryBatchesStore } from '@/stores/useLaundryBatchesStore';
+import { useGuestsStore } from '@/stores/useGuestsStore';
+import {
+    bookingsInBatch,
+    missingFromBatch,
+    printBatchManifest,
+    unbatchedOffsiteBookings,
+    type LaundryBatch,
+    type LaundryBatchBooking,
+} from '@/lib/utils/laundryBatches';
+import { cn } from '@/lib/utils/cn';
+
+interface LaundryBatchPanelProps {
+    serviceDate: string;
+    bookings: LaundryBatchBooking[];   // the day's off-site bookings
+    readOnly?: boolean;
+}
+
+const STATUS_BADGES: Record<LaundryBatch['status'], { label: string; className: string }> = {
+    open: { label: 'Open', className: 'bg-amber-100 text-amber-700' },
+    transported: { label: 'With vendor', className: 'bg-blue-100 text-blue-700' },
+    returned: { label: 'Returned', className: 'bg-emerald-100 text-emerald-700' },
+};
+
+const bagLabel = (booking: LaundryBatchBooking) => (booking.bagNumber ? `#${booking.bagNumber}` : 'No bag #');
+
+/**
+ * LaundryBatchPanel - Groups the day's off-site bags into vendor runs, prints
+ * their manifests and moves each run through transported and returned at once.
+ */
+export function LaundryBatchPanel({ serviceDate, bookings, readOnly = false }: LaundryBatchPanelProps) {
+    const { batches, ensureLoaded, createBatch, markTransported, markReturned, deleteBatch } = useLaundryBatchesStore();
+    const { guests } = useGuestsStore();
+    const [vendor, setVendor] = useState('');
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [returningBatchId, setReturningBatchId] = useState<string | null>(null);
+    const [returnedIds, setReturnedIds] = useState<string[]>([]);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    const guestMap = useMemo(() => new Map((guests || []).map((g) => [g.id, g])), [guests]);
+    const guestName = (guestId: string) => {
+        const guest = guestMap.get(guestId);
+        return guest?.preferredName || guest?.name || 'Unknown Guest';
+    };
+
+    const dayBatches = batches.filter((b) => b.serviceDate === serviceDate);
+    const unbatched = unbatchedOffsiteBookings(bookings);
+    const vendors = Array.from(new Set(batches.map((b) => b.vendor)));
+
+    const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]);
+
+    const handleCreate = async () => {
+        if (!vendor.trim()) {
+            toast.error('Vendor is required');
+            return;
+        }
+        if (selectedIds.length === 0) {
+            toast.error('Select at least one bag');
+            return;
+        }
+        setBusyId('new');
+        const batch = await createBatch(serviceDate, vendor, selectedIds);
+        setBusyId(null);
+        if (batch) {
+            toast.success(`Batch created with ${selectedIds.length} bag${selectedIds.length === 1 ? '' : 's'}`);
+            setSelectedIds([]);
+        }
+    };
+
+    const handleTransported = async (batch: LaundryBatch) => {
+        setBusyId(batch.id);
+        if (await markTransported(batch.id)) toast.success(`${batch.vendor} batch marked transported`);
+        setBusyId(null);
+    };
+
+    const startReturn = (batch: LaundryBatch) => {
+        setReturningBatchId(batch.id);
+        setReturnedIds(bookingsInBatch(bookings, batch.id).filter((b) => b.status === 'transported').map((b) => b.id));
+    };
+
+    const handleReturned = async (batch: LaundryBatch) => {
+        setBusyId(batch.id);
+        const ok = await markReturned(batch.id, returnedIds);
+        setBusyId(null);
+        if (!ok) return;
+        setReturningBatchId(null);
+        const expected = bookingsInBatch(bookings, batch.id).filter((b) => b.status === 'transported').length;
+        const missing = expected - returnedIds.length;
+        if (missing > 0) {
+            toast.error(`${missing} bag${missing === 1 ? '' : 's'} not returned with the batch`);
+        } else {
+            toast.success(`${batch.vendor} batch returned`);
+        }
+    };
+
+    const handleDelete = async (batch: LaundryBatch) => {
+        if (!confirm(`Delete the ${batch.vendor} batch? Its bags go back to unbatched.`)) return;
+        setBusyId(batch.id);
+        await deleteBatch(batch.id);
+        setBusyId(null);
+    };
+
+    const handlePrint = async (batch: LaundryBatch) => {
+        try {
+            await printBatchManifest(batch, bookingsInBatch(bookings, batch.id).map((b) => ({
+                bagNumber: b.bagNumber || '',
+                guestId: guestMap.get(b.guestId)?.guestId || '',
+                guestName: guestName(b.guestId),
+                status: b.status,
+            })));
+        } catch (error) {
+            console.error('Failed to print laundry manifest:', error);
+            toast.error('Failed to print manifest');
+        }
+    };
+
+    return (
+        <div className="bg-white border border-blue-100 rounded-xl overflow-hidden" data-testid="laundry-batch-panel">
+            <div className="px-4 py-3 bg-blue-50/60 border-b border-blue-100 flex items-center gap-2">
+                <Layers size={16} className="text-blue-600" />
+                <h3 className="text-sm font-bold text-blue-900">Vendor Batches</h3>
+                <span className="text-xs text-blue-600">{dayBatches.length} batch{dayBatches.length === 1 ? '' : 'es'}</span>
+            </div>
+
+            <div className="divide-y divide-gray-100">
+                {dayBatches.map((batch) => {
+                    const batchBookings = bookingsInBatch(bookings, batch.id);
+                    const missing = missingFromBatch(batch, bookings);
+                    const badge = STATUS_BADGES[batch.status];
+                    const isReturning = returningBatchId === batch.id;
+                    const isBusy = busyId === batch.id;
+
+                    return (
+                        <div key={batch.id} className="px-4 py-3 space-y-2">
+                            <div className="flex items-center gap-2 flex-wrap">
+                                <span className="font-bold text-sm text-gray-900">{batch.vendor}</span>
+                                <span className={cn('px-2 py-0.5 rounded-full text-[10px] font-bold', badge.className)}>{badge.label}</span>
+                                <span className="text-xs text-gray-500">{batchBookings.length} bag{batchBookings.length === 1 ? '' : 's'}</span>
+                                <div className="ml-auto flex items-center gap-1.5">
+                                    <button
+                                        onClick={() => handlePrint(batch)}
+                                        className="flex items-center gap-1 px-2 py-1 rounded-lg border text-xs font-medium text-gray-600 hover:bg-gray-50"
+                                    >
+                                        <Printer size={12} /> Manifest
+                                    </button>
+                                    {!readOnly && batch.status === 'open' && (
+                                        <>
+                                            <button
+                                                onClick={() => handleTransported(batch)}
+                                                disabled={isBusy}
+                                                className="flex items-center gap-1 px-2 py-1 rounded-lg bg-blue-600 text-white text-xs font-bold hover:bg-blue-700 disabled:opacity-50"
+                                            >
+                                                {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Truck size={12} />} Mark Transported
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(batch)}
+                                                disabled={isBusy}
+                                                aria-label={`Delete ${batch.vendor} batch`}
+                                                className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50"
+                                            >
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </>
+                                    )}
+                                    {!readOnly && batch.status === 'transported' && !isReturning && (
+                                        <button
+                                            onClick={() => startReturn(batch)}
+                                            className="flex items-center gap-1 px-2 py-1 rounded-lg bg-purple-600 text-white text-xs font-bold hover:bg-purple-700"
+                                        >
+                                            <Undo2 size={12} /> Mark Returned
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {!isReturning && (
+                                <p className="text-xs text-gray-500">
+                                    {batchBookings.map((b) => `${bagLabel(b)} ${guestName(b.guestId)}`).join(' · ') || 'No bags'}
+                                </p>
+                            )}
+
+                            {isReturning && (
+                                <div className="rounded-lg border border-purple-100 bg-purple-50/50 p-3 space-y-2">
+                                    <p className="text-xs font-bold text-purple-800">Untick bags that did not come back</p>
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                                        {batchBookings.filter((b) => b.status === 'transported').map((b) => (
+                                            <label key={b.id} className="flex items-center gap-2 text-xs text-gray-700">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={returnedIds.includes(b.id)}
+                                                    onChange={() => setReturnedIds((ids) => toggle(ids, b.id))}
+                                                    className="w-3.5 h-3.5 rounded border-gray-300 text-purple-600"
+                                                />
+                                                {bagLabel(b)} {guestName(b.guestId)}
+                                            </label>
+                                        ))}
+                                    </div>
+                                    <div className="flex justify-end gap-2">
+                                        <button
+                                            onClick={() => setReturningBatchId(null)}
+                                            className="px-3 py-1 rounded-lg text-xs font-bold text-gray-600 hover:bg-gray-200"
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            onClick={() => handleReturned(batch)}
+                                            disabled={isBusy}
+                                            className="px-3 py-1 rounded-lg bg-purple-600 text-white text-xs font-bold hover:bg-purple-700 disabled:opacity-50"
+                                        >
+                                            Confirm Return
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {missing.length > 0 && (
+                                <div className="flex items-start gap-1.5 text-xs text-red-700 bg-red-50 border border-red-100 rounded px-2 py-1.5">
+                                    <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+                                    <span>
+                                        Not returned: {missing.map((b) => `${bagLabel(b)} ${guestName(b.guestId)}`).join(', ')}
+                                    </span>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+
+                {!readOnly && unbatched.length > 0 && (
+                    <div className="px-4 py-3 space-y-2">
+                        <p className="text-xs font-bold uppercase tracking-widest text-gray-500">New Batch</p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-1">
+                            {unbatched.map((b) => (
+                                <label key={b.id} className="flex items-center gap-2 text-xs text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedIds.includes(b.id)}
+                                        onChange={() => setSelectedIds((ids) => toggle(ids, b.id))}
+                                        className="w-3.5 h-3.5 rounded border-gray-300 text-blue-600"
+                                    />
+                                    {bagLabel(b)} {guestName(b.guestId)}
+                                </label>
+                            ))}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setSelectedIds(selectedIds.length === unbatched.length ? [] : unbatched.map((b) => b.id))}
+                                className="text-xs text-blue-600 hover:underline"
+                            >
+                                {selectedIds.length === unbatched.length ? 'Clear' : 'Select all'}
+                            </button>
+                            <input
+                                value={vendor}
+                                onChange={(e) => setVendor(e.target.value)}
+                                list="laundry-vendors"
+                                placeholder="Vendor"
+                                aria-label="Vendor"
+                                className="flex-1 max-w-xs px-2 py-1.5 rounded-lg border border-gray-200 text-xs focus:outline-none focus:ring-2 focus:ring-blue-400"
+                            />
+                            <datalist id="laundry-vendors">
+                                {vendors.map((v) => <option key={v} value={v} />)}
+                            </datalist>
+                            <button
+                                onClick={handleCreate}
+                                disabled={busyId === 'new'}
+                                className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-bold hover:bg-blue-700 disabled:opacity-50"
+                            >
+                                Create Batch
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {dayBatches.length === 0 && (readOnly || unbatched.length === 0) && (
+                    <p className="px-4 py-3 text-xs text-gray-400">No vendor batches for this day</p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Bell, Wind, WashingMachine, Wrench } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useLaundryMachinesStore } from '@/stores/useLaundryMachinesStore';
+import { useGuestsStore } from '@/stores/useGuestsStore';
+import {
+    cycleRemainingMs,
+    formatCycleRemaining,
+    loadInMachine,
+    machineLabel,
+    type MachineLoad,
+} from '@/lib/utils/laundryMachines';
+import { cn } from '@/lib/utils/cn';
+
+interface LaundryMachineBoardProps {
+    loads: MachineLoad[];
+}
+
+/**
+ * LaundryMachineBoard - One tile per washer and dryer with the load inside and
+ * a countdown to the end of its cycle. Staff get a single alert per finished load.
+ */
+export function LaundryMachineBoard({ loads }: LaundryMachineBoardProps) {
+    const { machines, ensureLoaded } = useLaundryMachinesStore();
+    const { guests } = useGuestsStore();
+    const [now, setNow] = useState(() => Date.now());
+    const alertedRef = useRef(new Set<string>());
+
+    useEffect(() => {
+        ensureLoaded({ force: true });
+    }, [ensureLoaded]);
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const guestMap = useMemo(() => new Map((guests || []).map((g) => [g.id, g])), [guests]);
+    const guestName = useCallback((guestId: string) => {
+        const guest = guestMap.get(guestId);
+        return guest?.preferredName || guest?.name || 'Unknown Guest';
+    }, [guestMap]);
+
+    const tiles = useMemo(() => machines.map((machine) => {
+        const load = loadInMachine(machine, loads);
+        const remaining = load ? cycleRemainingMs(load, machine, now) : null;
+        return { machine, load, remaining, finished: remaining !== null && remaining <= 0 };
+    }), [machines, loads, now]);
+
+    // Alert once per load and machine when its cycle runs out
+    useEffect(() => {
+        tiles.forEach(({ machine, load, finished }) => {
+            if (!finished || !load || machine.outOfService) return;
+            const key = `${load.id}:${machine.id}`;
+            if (alertedRef.current.has(key)) return;
+            alertedRef.current.add(key);
+            toast.success(`${machineLabel(machine)} finished — move ${guestName(load.guestId)}'s load`, { icon: '🔔' });
+        });
+    }, [tiles, guestName]);
+
+    if (machines.length === 0) return null;
+
+    return (
+        <div data-testid="laundry-machine-board" className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+            {tiles.map(({ machine, load, remaining, finished }) => {
+                const Icon = machine.kind === 'washer' ? WashingMachine : Wind;
+                return (
+                    <div
+                        key={machine.id}
+                        className={cn(
+                            'rounded-xl border-2 px-3 py-2',
+                            machine.outOfService
+                                ? 'border-gray-200 bg-gray-50 text-gray-400'
+                                : finished
+                                    ? 'border-red-300 bg-red-50 text-red-700'
+                                    : load
+                                        ? 'border-purple-200 bg-purple-50 text-purple-800'
+                                        : 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                        )}
+                    >
+                        <div className="flex items-center gap-1.5 text-xs font-bold">
+                            <Icon size={14} className="flex-shrink-0" />
+                            {machineLabel(machine)}
+                            {finished && <Bell size={12} className="ml-auto flex-shrink-0" />}
+                            {machine.outOfService && <Wrench size={12} className="ml-auto flex-shrink-0" />}
+                        </div>
+                        <div className="text-[11px] font-medium truncate">
+                            {machine.outOfService
+                                ? 'Out of service'
+                                : load
+                                    ? guestName(load.guestId)
+                                    : 'Free'}
+                        </div>
+                        {load && !machine.outOfService && (
+                            <div className="text-sm font-black tabular-nums">
+                                {remaining === null ? '—' : formatCycleRemaining(remaining)}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { Wind, WashingMachine, X } from 'lucide-react';
+import { useLaundryMachinesStore } from '@/stores/useLaundryMachinesStore';
+import {
+    cycleRemainingMs,
+    formatCycleRemaining,
+    loadInMachine,
+    machineLabel,
+    type LaundryMachine,
+    type LaundryMachineKind,
+    type MachineLoad,
+} from '@/lib/utils/laundryMachines';
+import { cn } from '@/lib/utils/cn';
+
+/** string = chosen machine, null = no machine recorded, undefined = move cancelled */
+export type MachineChoice = string | null | undefined;
+
+interface PickerRequest {
+    kind: LaundryMachineKind;
+    loads: MachineLoad[];
+    openedAt: number;
+    resolve: (choice: MachineChoice) => void;
+}
+
+/**
+ * useLaundryMachinePicker - Ask which washer or dryer a load is going into.
+ * `hasMachines` is false until machines are registered, in which case callers
+ * move loads without asking. Render `machinePicker` wherever the hook is used.
+ */
+export function useLaundryMachinePicker() {
+    const { machines } = useLaundryMachinesStore();
+    const [request, setRequest] = useState<PickerRequest | null>(null);
+
+    const hasMachines = useCallback(
+        (kind: LaundryMachineKind) => machines.some((m) => m.kind === kind),
+        [machines]
+    );
+
+    const pickMachine = useCallback(
+        (kind: LaundryMachineKind, loads: MachineLoad[]) =>
+            new Promise<MachineChoice>((resolve) => setRequest({ kind, loads, openedAt: Date.now(), resolve })),
+        []
+    );
+
+    const finish = (choice: MachineChoice) => {
+        request?.resolve(choice);
+        setRequest(null);
+    };
+
+    const machinePicker = request ? (
+        <MachinePickerDialog
+            kind={request.kind}
+            machines={machines.filter((m) => m.kind === request.kind)}
+            loads={request.loads}
+            now={request.openedAt}
+            onChoose={finish}
+        />
+    ) : null;
+
+    return { hasMachines, pickMachine, machinePicker };
+}
+
+interface MachinePickerDialogProps {
+    kind: LaundryMachineKind;
+    machines: LaundryMachine[];
+    loads: MachineLoad[];
+    now: number;
+    onChoose: (choice: MachineChoice) => void;
+}
+
+function MachinePickerDialog({ kind, machines, loads, now, onChoose }: MachinePickerDialogProps) {
+    const Icon = kind === 'washer' ? WashingMachine : Wind;
+
+    return (
+        <div
+            className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40"
+            onClick={(e) => e.stopPropagation()}
+            role="dialog"
+            aria-label={`Choose a ${kind}`}
+        >
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden">
+                <div className="px-4 py-3 border-b border-gray-100 flex items-center justify-between">
+                    <h3 className="font-bold text-gray-900 flex items-center gap-2">
+                        <Icon size={18} className="text-purple-600" />
+                        Which {kind}?
+                    </h3>
+                    <button onClick={() => onChoose(undefined)} aria-label="Cancel" className="text-gray-400 hover:text-gray-600">
+                        <X size={18} />
+                    </button>
+                </div>
+                <div className="p-4 grid grid-cols-2 gap-2">
+                    {machines.map((machine) => {
+                        const load = loadInMachine(machine, loads);
+                        const remaining = load ? cycleRemainingMs(load, machine, now) : null;
+                        const unavailable = machine.outOfService || Boolean(load);
+                        return (
+                            <button
+                                key={machine.id}
+                                onClick={() => onChoose(machine.id)}
+                                disabled={unavailable}
+                                className={cn(
+                                    'px-3 py-2 rounded-xl border text-left transition-colors',
+                                    unavailable
+                                        ? 'border-gray-100 bg-gray-50 text-gray-400 cursor-not-allowed'
+                                        : 'border-purple-200 hover:bg-purple-50 text-gray-900'
+                                )}
+                            >
+                                <span className="block text-sm font-bold">{machineLabel(machine)}</span>
+                                <span className="block text-[10px] font-medium">
+                                    {machine.outOfService
+                                        ? 'Out of service'
+                                        : load
+                                            ? `In use${remaining !== null ? ` · ${formatCycleRemaining(remaining)}` : ''}`
+                                            : `Free · ${machine.cycleMinutes} min cycle`}
+                                </span>
+                            </button>
+                        );
+                    })}
+                </div>
+                <div className="px-4 pb-4">
+                    <button
+                        onClick={() => onChoose(null)}
+                        className="w-full px-3 py-2 rounded-xl text-xs font-bold text-gray-600 bg-gray-100 hover:bg-gray-200"
+                    >
+                        Move without a machine
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useMemo, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { WashingMachine, Clock, Wind, Package, CheckCircle, Trash2, User, Timer, Edit3, Save, ChevronDown, ChevronUp, GripVertical, AlertTriangle } from 'lucide-react';
+import { WashingMachine, Clock, Wind, Package, CheckCircle, Trash2, User, Timer, Edit3, Save, ChevronDown, ChevronUp, GripVertical, AlertTriangle, Printer, ScanLine, Tag } from 'lucide-react';
 import {
     DndContext,
     DragOverlay,
@@ -17,9 +17,16 @@ import {
 } from '@dnd-kit/core';
 import { useDroppable, useDraggable } from '@dnd-kit/core';
 import { useServicesStore } from '@/stores/useServicesStore';
+import { useCurrentSiteRecords } from '@/hooks/useSiteRecords';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useLaundryBatchesStore } from '@/stores/useLaundryBatchesStore';
+import { useLaundryMachinesStore } from '@/stores/useLaundryMachinesStore';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
 import { generateLaundrySlots } from '@/lib/utils/serviceSlots';
+import { missingFromBatch } from '@/lib/utils/laundryBatches';
+import { findLaundryByTag, nextBagNumber, nextLaundryStatus, printBagTags, toBagTag } from '@/lib/utils/laundryBags';
+import { isMachineStatus, machineLabel } from '@/lib/utils/laundryMachines';
+import { useServiceSchedule } from '@/hooks/useServiceSchedule';
 import { cn } from '@/lib/utils/cn';
 import toast from 'react-hot-toast';
 import { CompactWaiverIndicator } from '@/components/ui/CompactWaiverIndicator';
@@ -27,8 +34,12 @@ import CompactLaundryList from './CompactLaundryList';
 import { LayoutGrid, List, Settings } from 'lucide-react';
 import { SlotBlockModal } from '../admin/SlotBlockModal';
 import { EndServiceDayPanel } from './EndServiceDayPanel';
+import { LaundryBatchPanel } from './LaundryBatchPanel';
+import { LaundryMachineBoard } from './LaundryMachineBoard';
+import { useLaundryMachinePicker } from './LaundryMachinePicker';
 import { ServiceDatePicker } from './ServiceDatePicker';
 import { useSession } from 'next-auth/react';
+import { hasPermission } from '@/lib/auth/permissions';
 
 const STATUS_COLUMNS = [
     { id: 'waiting', title: 'Waiting', icon: Clock, color: 'text-amber-600', bg: 'bg-amber-50', border: 'border-amber-200', badgeClass: 'bg-amber-100 text-amber-700' },
@@ -71,8 +82,12 @@ const formatTimeElapsed = (isoTimestamp: string | null): string | null => {
 };
 
 export function LaundrySection() {
-    const { laundryRecords, updateLaundryStatus, updateLaundryBagNumber, cancelMultipleLaundry, loadFromSupabase, addLaundryRecord } = useServicesStore();
+    const { laundryRecords: allLaundryRecords, updateLaundryStatus, updateLaundryBagNumber, assignLaundryBagNumber, cancelMultipleLaundry, loadFromSupabase, addLaundryRecord } = useServicesStore();
+    const laundryRecords = useCurrentSiteRecords(allLaundryRecords);
     const { guests } = useGuestsStore();
+    const { batches: laundryBatches } = useLaundryBatchesStore();
+    const { hasMachines, pickMachine, machinePicker } = useLaundryMachinePicker();
+    const schedule = useServiceSchedule();
     const { data: session } = useSession();
 
     const today = todayPacificDateString();
@@ -84,10 +99,12 @@ export function LaundrySection() {
     const [isAddingBackfill, setIsAddingBackfill] = useState(false);
     const [showAddForm, setShowAddForm] = useState(false);
     const [showLegacySection, setShowLegacySection] = useState(true);
+    const [tagCode, setTagCode] = useState('');
 
     // Check if user is admin/staff
     const userRole = (session?.user as any)?.role || '';
     const isAdmin = ['admin', 'board', 'staff'].includes(userRole);
+    const canBlockSlots = hasPermission(userRole, 'slots.block');
 
     // Check if viewing historical data
     const isViewingPast = selectedDate !== today;
@@ -116,10 +133,15 @@ export function LaundrySection() {
     const onsiteLaundry = activeLaundry.filter(r => r.laundryType === 'onsite' || !r.laundryType);
     const offsiteLaundry = activeLaundry.filter(r => r.laundryType === 'offsite');
 
+    // Off-site bags still out after their vendor batch came back
+    const missingBagIds = useMemo(() => new Set(
+        laundryBatches.flatMap((batch) => missingFromBatch(batch, laundryRecords).map((r) => r.id))
+    ), [laundryBatches, laundryRecords]);
+
     const selectedDateLaundrySlots = useMemo(() => {
         const selectedDateObject = new Date(`${selectedDate}T12:00:00`);
-        return generateLaundrySlots(selectedDateObject);
-    }, [selectedDate]);
+        return generateLaundrySlots(selectedDateObject, schedule);
+    }, [selectedDate, schedule]);
 
     const selectableGuests = useMemo(() => {
         return (guests || [])
@@ -131,10 +153,11 @@ export function LaundrySection() {
             });
     }, [guests]);
 
-    // Calculate pending on-site laundry for End Service Day (only 'waiting' status, only for today)
+    // Calculate pending on-site laundry for End Service Day (waiting and waitlisted, only for today).
+    // Waitlisted guests are cancelled in the same update so the freed slots don't promote them after closing.
     const todaysRecords = laundryRecords.filter(r => pacificDateStringFrom(r.date) === today);
-    const pendingOnsiteLaundry = todaysRecords.filter(r => 
-        (r.laundryType === 'onsite' || !r.laundryType) && r.status === 'waiting'
+    const pendingOnsiteLaundry = todaysRecords.filter(r =>
+        (r.laundryType === 'onsite' || !r.laundryType) && (r.status === 'waiting' || r.status === 'waitlisted')
     );
 
     const handleEndLaundryDay = async () => {
@@ -263,30 +286,49 @@ export function LaundrySection() {
             (r: any) => r.id === record.id
         ) || record;
 
-        // Check if we need to prompt for bag number
+        // Ask which washer/dryer the load goes into once machines are registered
+        let machineId: string | null | undefined;
+        if (isMachineStatus(newStatus) && hasMachines(newStatus)) {
+            machineId = await pickMachine(newStatus, useServicesStore.getState().laundryRecords);
+            if (machineId === undefined) return;
+        }
+
+        // Check if we need to prompt for bag number, suggesting the next one for the record's day
         if (requiresBagPrompt(freshRecord, newStatus)) {
-            const manualBag = window.prompt('A bag number is required before moving out of waiting. Enter one to continue.');
+            const suggestedBag = nextBagNumber(useServicesStore.getState().laundryRecords, pacificDateStringFrom(freshRecord.date));
+            const manualBag = window.prompt('A bag number is required before moving out of waiting. Enter one to continue.', suggestedBag);
             const trimmedBag = (manualBag || '').trim();
             if (!trimmedBag) {
                 toast.error('Please enter a bag number to continue');
                 return;
             }
+            // Keeping the suggestion lets the server number the bag, since another device may have used it meanwhile
+            let savedBag: string | null = null;
             try {
-                await updateLaundryBagNumber(record.id, trimmedBag);
-                toast.success('Bag number saved');
+                savedBag = trimmedBag === suggestedBag
+                    ? await assignLaundryBagNumber(record.id)
+                    : (await updateLaundryBagNumber(record.id, trimmedBag)) ? trimmedBag : null;
             } catch {
+                savedBag = null;
+            }
+            if (!savedBag) {
                 toast.error('Failed to save bag number');
                 return;
             }
+            toast.success(savedBag === trimmedBag ? 'Bag number saved' : `Bag #${savedBag} assigned`);
         }
 
         try {
-            await updateLaundryStatus(record.id, newStatus);
+            if (machineId === undefined) {
+                await updateLaundryStatus(record.id, newStatus);
+            } else {
+                await updateLaundryStatus(record.id, newStatus, machineId);
+            }
             toast.success('Status updated');
         } catch {
             toast.error('Failed to update status');
         }
-    }, [requiresBagPrompt, updateLaundryBagNumber, updateLaundryStatus, isViewingPast]);
+    }, [requiresBagPrompt, updateLaundryBagNumber, assignLaundryBagNumber, updateLaundryStatus, isViewingPast, hasMachines, pickMachine]);
 
     // @dnd-kit drag handlers
     const handleDragStart = useCallback((event: DragStartEvent) => {
@@ -318,6 +360,43 @@ export function LaundrySection() {
         return { guest, legalName, preferredName, hasPreferred, primaryName };
     }, [guestMap]);
 
+    // Scanned or typed tag: move the booking it belongs to on to its next status
+    const handleTagSubmit = useCallback(async (event: React.FormEvent) => {
+        event.preventDefault();
+        const code = tagCode.trim();
+        if (!code) return;
+        setTagCode('');
+
+        const record = findLaundryByTag(laundryRecords, code, today);
+        if (!record) {
+            toast.error(`No laundry found for tag ${code}`);
+            return;
+        }
+        const { primaryName } = getGuestNameDetails(record.guestId);
+        const nextStatus = nextLaundryStatus(record);
+        if (!nextStatus) {
+            toast.error(`${primaryName}'s laundry has already been picked up`);
+            return;
+        }
+        await handleStatusChange(record, nextStatus);
+    }, [tagCode, laundryRecords, today, getGuestNameDetails, handleStatusChange]);
+
+    const handlePrintTags = useCallback(async () => {
+        const tags = activeLaundry
+            .filter((r) => r.status !== 'cancelled' && String(r.bagNumber ?? '').trim())
+            .map((r) => toBagTag(r, getGuestNameDetails(r.guestId).primaryName));
+        if (tags.length === 0) {
+            toast.error('No bagged laundry to print tags for');
+            return;
+        }
+        try {
+            await printBagTags(tags);
+        } catch (error) {
+            console.error('Failed to print bag tags:', error);
+            toast.error('Failed to print bag tags');
+        }
+    }, [activeLaundry, getGuestNameDetails]);
+
     return (
         <div className="space-y-8">
             {/* Historical Data Warning Banner */}
@@ -420,6 +499,7 @@ export function LaundrySection() {
                             selectedDate={selectedDate}
                             onDateChange={setSelectedDate}
                             isAdmin={isAdmin}
+                            service="laundry"
                         />
                         <div>
                             <h2 className="text-xl font-black text-gray-900 flex items-center gap-3">
@@ -433,6 +513,25 @@ export function LaundrySection() {
                     </div>
                     <div className="flex items-center gap-3">
                         {!isViewingPast && (
+                            <form onSubmit={handleTagSubmit} className="relative">
+                                <ScanLine size={16} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+                                <input
+                                    value={tagCode}
+                                    onChange={(e) => setTagCode(e.target.value)}
+                                    placeholder="Scan or type bag tag"
+                                    aria-label="Scan or type bag tag"
+                                    className="w-48 pl-8 pr-3 py-1.5 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-purple-400"
+                                />
+                            </form>
+                        )}
+                        <button
+                            onClick={handlePrintTags}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-white text-gray-700 rounded-lg border hover:bg-gray-50 transition-colors text-sm font-medium"
+                        >
+                            <Printer className="w-4 h-4" />
+                            Print Tags
+                        </button>
+                        {!isViewingPast && canBlockSlots && (
                             <button
                                 onClick={() => setShowSlotManager(true)}
                                 className="flex items-center gap-2 px-3 py-1.5 bg-white text-gray-700 rounded-lg border hover:bg-gray-50 transition-colors text-sm font-medium"
@@ -469,6 +568,8 @@ export function LaundrySection() {
                     </div>
                 </div>
 
+                {!isViewingPast && <LaundryMachineBoard loads={laundryRecords} />}
+
                 {viewMode === 'list' ? (
                     <CompactLaundryList readOnly={isViewingPast} />
                 ) : (
@@ -684,6 +785,8 @@ export function LaundrySection() {
                         </span>
                     </div>
 
+                    <LaundryBatchPanel serviceDate={selectedDate} bookings={offsiteLaundry} readOnly={isViewingPast} />
+
                     <DndContext
                         sensors={sensors}
                         collisionDetection={closestCenter}
@@ -734,6 +837,7 @@ export function LaundrySection() {
                                                     onStatusChange={(newStatus) => handleStatusChange(record, newStatus)}
                                                     columns={OFFSITE_STATUS_COLUMNS}
                                                     isOffsite
+                                                    missingFromBatch={missingBagIds.has(record.id)}
                                                     readOnly={isViewingPast}
                                                 />
                                             ))}
@@ -771,6 +875,8 @@ export function LaundrySection() {
                 onClose={() => setShowSlotManager(false)}
                 serviceType="laundry"
             />
+
+            {machinePicker}
         </div>
     );
 }
@@ -796,10 +902,11 @@ interface DraggableLaundryCardProps {
     onStatusChange: (newStatus: string) => void;
     columns: typeof STATUS_COLUMNS;
     isOffsite?: boolean;
+    missingFromBatch?: boolean;
     readOnly?: boolean;
 }
 
-function DraggableLaundryCard({ record, guestDetails, isDragging, onStatusChange, columns, isOffsite = false, readOnly = false }: DraggableLaundryCardProps) {
+function DraggableLaundryCard({ record, guestDetails, isDragging, onStatusChange, columns, isOffsite = false, missingFromBatch = false, readOnly = false }: DraggableLaundryCardProps) {
     const { attributes, listeners, setNodeRef, transform } = useDraggable({
         id: record.id,
         disabled: readOnly,
@@ -819,6 +926,7 @@ function DraggableLaundryCard({ record, guestDetails, isDragging, onStatusChange
                 onStatusChange={onStatusChange}
                 columns={columns}
                 isOffsite={isOffsite}
+                missingFromBatch={missingFromBatch}
                 readOnly={readOnly}
             />
         </div>
@@ -833,21 +941,30 @@ interface LaundryCardProps {
     onStatusChange: (newStatus: string) => void;
     columns: typeof STATUS_COLUMNS;
     isOffsite?: boolean;
+    missingFromBatch?: boolean;
     readOnly?: boolean;
 }
 
-function LaundryCard({ record, guestDetails, isDragging, dragListeners, onStatusChange, columns, isOffsite = false, readOnly = false }: LaundryCardProps) {
+function LaundryCard({ record, guestDetails, isDragging, dragListeners, onStatusChange, columns, isOffsite = false, missingFromBatch = false, readOnly = false }: LaundryCardProps) {
     const [isExpanded, setIsExpanded] = useState(false);
     const [isEditingBag, setIsEditingBag] = useState(false);
     const [bagValue, setBagValue] = useState(record.bagNumber || '');
-    const { updateLaundryBagNumber, deleteLaundryRecord } = useServicesStore();
+    const { updateLaundryBagNumber, assignLaundryBagNumber, deleteLaundryRecord } = useServicesStore();
+    const { machines } = useLaundryMachinesStore();
 
     const isCompleted = record.status === 'picked_up' || record.status === 'offsite_picked_up';
+    const machine = isMachineStatus(record.status)
+        ? machines.find((m) => m.id === record.machineId && m.kind === record.status)
+        : undefined;
 
     const handleSaveBag = async () => {
         if (readOnly) return;
         try {
-            await updateLaundryBagNumber(record.id, bagValue);
+            // Fails when another booking already has this number today
+            if (!(await updateLaundryBagNumber(record.id, bagValue))) {
+                toast.error('Failed to save bag number');
+                return;
+            }
             setIsEditingBag(false);
             toast.success('Bag number saved');
         } catch {
@@ -855,6 +972,26 @@ function LaundryCard({ record, guestDetails, isDragging, dragListeners, onStatus
         }
     };
 
+    const handleAssignBag = async () => {
+        if (readOnly) return;
+        const bagNumber = await assignLaundryBagNumber(record.id);
+        if (!bagNumber) {
+            toast.error('Failed to assign bag number');
+            return;
+        }
+        setBagValue(bagNumber);
+        toast.success(`Bag #${bagNumber} assigned`);
+    };
+
+    const handlePrintTag = async () => {
+        try {
+            await printBagTags([toBagTag(record, guestDetails.primaryName)]);
+        } catch (error) {
+            console.error('Failed to print bag tag:', error);
+            toast.error('Failed to print bag tag');
+        }
+    };
+
     return (
         <div
             {...(!readOnly && dragListeners ? dragListeners : {})}
@@ -917,12 +1054,28 @@ function LaundryCard({ record, guestDetails, isDragging, dragListeners, onStatus
                         </div>
                     )}
 
+                    {machine && (
+                        <div className="flex items-center gap-1.5 text-xs text-gray-600 bg-indigo-50 border border-indigo-100 rounded px-2 py-1">
+                            {machine.kind === 'washer'
+                                ? <WashingMachine size={12} className="text-indigo-600 flex-shrink-0" />
+                                : <Wind size={12} className="text-indigo-600 flex-shrink-0" />}
+                            <span>{machineLabel(machine)}</span>
+                        </div>
+                    )}
+
                     {isOffsite && (
                         <div className="text-xs bg-blue-50 border border-blue-100 rounded px-2 py-1">
                             <span className="font-semibold text-blue-700">Off-site laundry</span>
                         </div>
                     )}
 
+                    {missingFromBatch && (
+                        <div className="flex items-center gap-1.5 text-xs bg-red-50 border border-red-100 rounded px-2 py-1 text-red-700 font-semibold">
+                            <AlertTriangle size={12} className="flex-shrink-0" />
+                            Not returned with batch
+                        </div>
+                    )}
+
                     {/* Time tracking indicator */}
                     {!isCompleted && (record.createdAt || record.lastUpdated) && (
                         <div
@@ -976,6 +1129,28 @@ function LaundryCard({ record, guestDetails, isDragging, dragListeners, onStatus
                                         )}
                                     </div>
                                 )}
+                                <div className="flex gap-1.5 mt-1.5">
+                                    {!record.bagNumber && !readOnly && (
+                                        <button
+                                            type="button"
+                                            onClick={handleAssignBag}
+                                            className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded border border-purple-200 bg-purple-50 text-[10px] font-bold text-purple-700 hover:bg-purple-100"
+                                        >
+                                            <Tag size={10} />
+                                            Assign Next Bag #
+                                        </button>
+                                    )}
+                                    {record.bagNumber && (
+                                        <button
+                                            type="button"
+                                            onClick={handlePrintTag}
+                                            className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded border border-gray-200 text-[10px] font-bold text-gray-600 hover:bg-gray-50"
+                                        >
+                                            <Printer size={10} />
+                                            Print Tag
+                                        </button>
+                                    )}
+                                </div>
                             </div>
 
                             {!readOnly && (
@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect } from 'react';
 import {
     Users,
     Utensils,
@@ -7,9 +8,12 @@ import {
     WashingMachine,
     Clock,
     Bike,
-    History
+    History,
+    AlertTriangle
 } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
+import { useItemCatalogStore } from '@/stores/useItemCatalogStore';
+import { useShallow } from 'zustand/react/shallow';
 
 interface MetricCardProps {
     title: string;
@@ -69,6 +73,46 @@ function QuickLink({ title, description, icon: Icon, color, onClick }: QuickLink
     );
 }
 
+function LowStockList({ onRestock }: { onRestock: () => void }) {
+    const lowStockItems = useItemCatalogStore(useShallow((s) => s.getLowStockItems()));
+    const ensureCatalogLoaded = useItemCatalogStore((s) => s.ensureLoaded);
+
+    useEffect(() => {
+        ensureCatalogLoaded();
+    }, [ensureCatalogLoaded]);
+
+    if (lowStockItems.length === 0) return null;
+
+    return (
+        <div className="bg-amber-50 border border-amber-100 rounded-2xl p-5">
+            <div className="flex items-center justify-between gap-3 mb-3">
+                <h3 className="flex items-center gap-2 text-sm font-black text-amber-800">
+                    <AlertTriangle size={16} /> Running low
+                </h3>
+                <button
+                    onClick={onRestock}
+                    className="text-xs font-bold text-amber-700 hover:text-amber-900 hover:underline"
+                >
+                    Restock
+                </button>
+            </div>
+            <ul className="flex flex-wrap gap-2">
+                {lowStockItems.map((item) => (
+                    <li
+                        key={item.key}
+                        className={cn(
+                            "px-3 py-1.5 rounded-lg bg-white border text-xs font-bold",
+                            (item.stockOnHand ?? 0) <= 0 ? "border-red-200 text-red-700" : "border-amber-200 text-amber-800"
+                        )}
+                    >
+                        {item.label}: {(item.stockOnHand ?? 0) <= 0 ? 'out' : `${item.stockOnHand} left`}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
+
 export function OverviewSection({
     metrics,
     setActiveTab
@@ -130,6 +174,8 @@ export function OverviewSection({
                 />
             </div>
 
+            <LowStockList onRestock={() => setActiveTab('inventory')} />
+
             {/* Large Quick Access Blocks */}
             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
                 <QuickLink
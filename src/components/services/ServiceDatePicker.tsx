@@ -4,21 +4,26 @@ import { useState, useRef, useEffect } from 'react';
 import { Calendar, ChevronLeft, ChevronRight, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
+import { useServiceClosures } from '@/hooks/useServiceClosures';
+import { describeClosure, getClosuresOn, getServiceClosure } from '@/lib/utils/serviceClosures';
+import type { ScheduledService } from '@/lib/utils/serviceSchedule';
 
 interface ServiceDatePickerProps {
     selectedDate: string; // YYYY-MM-DD format
     onDateChange: (date: string) => void;
     isAdmin: boolean;
+    service?: ScheduledService; // greys out days closed for this service (any closure when omitted)
 }
 
 /**
  * A date picker for staff/admin to view historical service data.
  * Shows "Today" by default with options to navigate to past dates.
  */
-export function ServiceDatePicker({ selectedDate, onDateChange, isAdmin }: ServiceDatePickerProps) {
+export function ServiceDatePicker({ selectedDate, onDateChange, isAdmin, service }: ServiceDatePickerProps) {
     const [isCalendarOpen, setIsCalendarOpen] = useState(false);
     const calendarRef = useRef<HTMLDivElement>(null);
     const today = todayPacificDateString();
+    const closures = useServiceClosures();
 
     // Close calendar when clicking outside
     useEffect(() => {
@@ -122,7 +127,10 @@ export function ServiceDatePicker({ selectedDate, onDateChange, isAdmin }: Servi
         }
     };
 
-    const calendarDays = generateCalendarDays();
+    const closureOn = (date: string) =>
+        service ? getServiceClosure(closures, service, date) : getClosuresOn(closures, date)[0] || null;
+
+    const calendarDays = generateCalendarDays().map((day) => ({ ...day, closure: closureOn(day.date) }));
     const monthYear = new Date(selectedDate + 'T12:00:00').toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
 
     return (
@@ -232,9 +240,11 @@ export function ServiceDatePicker({ selectedDate, onDateChange, isAdmin }: Servi
                                     }
                                 }}
                                 disabled={day.isDisabled}
+                                title={day.closure ? describeClosure(day.closure) : undefined}
                                 className={cn(
                                     "w-8 h-8 rounded-lg text-sm font-medium transition-all",
                                     day.isDisabled && "text-gray-300 cursor-not-allowed",
+                                    !day.isDisabled && day.closure && day.date !== selectedDate && "bg-gray-100 text-gray-300 line-through",
                                     !day.isDisabled && day.date === selectedDate && "bg-emerald-500 text-white",
                                     !day.isDisabled && day.date === today && day.date !== selectedDate && "ring-2 ring-emerald-300",
                                     !day.isDisabled && day.date !== selectedDate && "hover:bg-gray-100",
@@ -1,12 +1,14 @@
 'use client';
 
 import React, { useEffect, useState } from 'react';
-import { X, Shirt, Package, Tent, Footprints, AlertCircle, CheckCircle, Loader2, Clock, Undo2, Check } from 'lucide-react';
-import { JacketIcon } from '@/components/icons/JacketIcon';
+import { X, Package, AlertCircle, CheckCircle, Loader2, Clock, Undo2, Check } from 'lucide-react';
+import { getItemIcon } from '@/components/icons/itemIcons';
 import { motion, AnimatePresence } from 'framer-motion';
 import { WaiverBadge } from '@/components/ui/WaiverBadge';
 import { ServiceCardReminder } from '@/components/ui/ReminderIndicator';
 import { useItemsStore } from '@/stores/useItemsStore';
+import { useItemCatalogStore } from '@/stores/useItemCatalogStore';
+import { describeCooldown } from '@/lib/utils/itemCooldown';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { formatTimeElapsed } from '@/lib/utils/date';
 import { cn } from '@/lib/utils/cn';
@@ -19,20 +21,11 @@ interface ShowerDetailModalProps {
     guest: any;
 }
 
-// Items with cooldown limits - socks and underwear are unlimited/always available
-// so they are not shown here (guests can get them anytime without tracking)
-const AMENITY_ITEMS = [
-    { key: 'tshirt', label: 'T-Shirt', icon: Shirt, limit: 'Weekly (Mon)' },
-    { key: 'jacket', label: 'Jacket', icon: JacketIcon, limit: '15 Days' },
-    { key: 'tent', label: 'Tent', icon: Tent, limit: '30 Days' },
-    { key: 'sleeping_bag', label: 'Sleeping Bag', icon: Package, limit: '30 Days' },
-    { key: 'backpack', label: 'Backpack', icon: Package, limit: '30 Days' },
-    { key: 'flipflops', label: 'Flip Flops', icon: Footprints, limit: '30 Days' },
-];
-
 export function ShowerDetailModal({ isOpen, onClose, record, guest }: ShowerDetailModalProps) {
     const { fetchItemsForGuest, checkAvailability, giveItem, undoItem, distributedItems, isLoading } = useItemsStore();
     const { updateShowerStatus } = useServicesStore();
+    const catalogItems = useItemCatalogStore((s) => s.items);
+    const ensureCatalogLoaded = useItemCatalogStore((s) => s.ensureLoaded);
     const [localLoading, setLocalLoading] = useState<string | null>(null);
     const [undoLoading, setUndoLoading] = useState<string | null>(null);
     const [markingDone, setMarkingDone] = useState(false);
@@ -44,6 +37,14 @@ export function ShowerDetailModal({ isOpen, onClose, record, guest }: ShowerDeta
         }
     }, [isOpen, guest?.id, fetchItemsForGuest]);
 
+    useEffect(() => {
+        if (isOpen) {
+            ensureCatalogLoaded();
+        }
+    }, [isOpen, ensureCatalogLoaded]);
+
+    const amenityItems = catalogItems.filter((item) => item.active);
+
     // Hide this modal when waiver modal is open to prevent stacking
     if (!isOpen || !record || !guest || isWaiverModalOpen) return null;
 
@@ -54,6 +55,10 @@ export function ShowerDetailModal({ isOpen, onClose, record, guest }: ShowerDeta
             const result = await giveItem(guest.id, itemKey);
             if (result) {
                 toast.success(`Gave ${itemName} to ${guest.firstName}`);
+            } else if (useItemsStore.getState().error?.startsWith('Out of stock')) {
+                // Someone else handed out the last one; pick up the current count
+                toast.error(`${itemName} is out of stock`);
+                ensureCatalogLoaded({ force: true });
             } else {
                 toast.error('Failed to log item distribution');
             }
@@ -198,11 +203,14 @@ export function ShowerDetailModal({ isOpen, onClose, record, guest }: ShowerDeta
                         </h3>
 
                         <div className="grid grid-cols-2 gap-3">
-                            {AMENITY_ITEMS.map((item) => {
+                            {amenityItems.map((item) => {
                                 const availability = checkAvailability(guest.id, item.key);
-                                const isAvailable = availability.available;
+                                const isTracked = item.stockOnHand !== null;
+                                const isOutOfStock = isTracked && (item.stockOnHand ?? 0) <= 0;
+                                const isLowStock = isTracked && !isOutOfStock && (item.stockOnHand ?? 0) <= item.lowStockThreshold;
+                                const isAvailable = availability.available && !isOutOfStock;
                                 const isProcessing = localLoading === item.key;
-                                const Icon = item.icon;
+                                const Icon = getItemIcon(item.icon);
 
                                 return (
                                     <button
@@ -224,12 +232,17 @@ export function ShowerDetailModal({ isOpen, onClose, record, guest }: ShowerDeta
 
                                         <span className="font-bold text-sm text-gray-900">{item.label}</span>
 
-                                        {!isAvailable && availability.daysRemaining !== undefined && (
+                                        {isOutOfStock && (
+                                            <span className="text-[10px] font-bold text-red-600 mt-1">
+                                                Out of stock
+                                            </span>
+                                        )}
+                                        {!isOutOfStock && !availability.available && availability.daysRemaining !== undefined && (
                                             <span className="text-[10px] font-bold text-amber-600 mt-1 flex items-center gap-1">
                                                 <Clock size={10} /> {availability.daysRemaining}d left
                                             </span>
                                         )}
-                                        {!isAvailable && availability.daysRemaining === undefined && (
+                                        {!isOutOfStock && !availability.available && availability.daysRemaining === undefined && (
                                             <span className="text-[10px] text-gray-400 mt-1 font-medium">
                                                 Limit reached
                                             </span>
@@ -237,7 +250,15 @@ export function ShowerDetailModal({ isOpen, onClose, record, guest }: ShowerDeta
 
                                         {isAvailable && (
                                             <span className="text-[10px] text-gray-400 mt-1 font-medium">
-                                                {item.limit}
+                                                {describeCooldown(item)}
+                                            </span>
+                                        )}
+                                        {isTracked && !isOutOfStock && (
+                                            <span className={cn(
+                                                "text-[10px] font-bold mt-0.5",
+                                                isLowStock ? "text-amber-600" : "text-gray-500"
+                                            )}>
+                                                {item.stockOnHand} in stock
                                             </span>
                                         )}
                                     </button>
@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Loader2, Play, ShowerHead, Sparkles } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useServicesStore } from '@/stores/useServicesStore';
+import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useServiceSchedule } from '@/hooks/useServiceSchedule';
+import { getSlotCapacity, formatSlotLabel } from '@/lib/utils/serviceSlots';
+import {
+    buildStallBoard,
+    finishShowerChanges,
+    formatElapsed,
+    isInStall,
+    stallCleanedChanges,
+    stallCountFor,
+    startShowerChanges,
+    waitingShowers,
+    type StallShower,
+} from '@/lib/utils/showerStalls';
+import { cn } from '@/lib/utils/cn';
+
+interface ShowerStallBoardProps {
+    showers: StallShower[];   // today's shower records
+    kiosk?: boolean;          // large layout for a wall-mounted tablet
+    readOnly?: boolean;
+}
+
+/**
+ * ShowerStallBoard - Live view of who is in each shower stall, how long they
+ * have been in, and which stalls are waiting to be cleaned.
+ */
+export function ShowerStallBoard({ showers, kiosk = false, readOnly = false }: ShowerStallBoardProps) {
+    const updateShowerStall = useServicesStore((s) => s.updateShowerStall);
+    const guests = useGuestsStore((s) => s.guests);
+    const schedule = useServiceSchedule();
+    const [now, setNow] = useState(() => Date.now());
+    const [busyStall, setBusyStall] = useState<number | null>(null);
+    const [chosen, setChosen] = useState<Record<number, string>>({});
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const guestMap = useMemo(() => new Map((guests || []).map((g) => [g.id, g])), [guests]);
+    const guestName = (guestId: string) => {
+        const guest = guestMap.get(guestId);
+        return guest?.preferredName || guest?.name || 'Unknown Guest';
+    };
+
+    const stallCount = stallCountFor(getSlotCapacity('showers', new Date(now), schedule), showers);
+    const stalls = buildStallBoard(showers, stallCount);
+    const waiting = waitingShowers(showers);
+    const next = waiting[0];
+    const inShowerCount = showers.filter(isInStall).length;
+
+    const run = async (stallNumber: number, recordId: string, changes: Parameters<typeof updateShowerStall>[1], success: string) => {
+        setBusyStall(stallNumber);
+        const ok = await updateShowerStall(recordId, changes);
+        setBusyStall(null);
+        if (ok) toast.success(success);
+        else toast.error('Failed to update stall');
+    };
+
+    if (stallCount === 0) {
+        return (
+            <div data-testid="shower-stall-board" className="rounded-2xl border border-gray-100 bg-white p-6 text-center text-sm font-bold text-gray-400">
+                No shower service today
+            </div>
+        );
+    }
+
+    return (
+        <div data-testid="shower-stall-board" className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <h3 className={cn('font-black text-gray-900 flex items-center gap-2', kiosk ? 'text-2xl' : 'text-sm')}>
+                    <ShowerHead size={kiosk ? 28 : 18} className="text-sky-600" />
+                    Shower Stalls
+                </h3>
+                <p className={cn('font-bold text-gray-500', kiosk ? 'text-lg' : 'text-xs')}>
+                    {inShowerCount} in use · {waiting.length} waiting
+                    {next && <> · Next: <span className="text-sky-700">{guestName(next.guestId)}</span></>}
+                </p>
+            </div>
+
+            <div className={cn('grid gap-3', kiosk ? 'grid-cols-2 lg:grid-cols-3' : 'grid-cols-2 md:grid-cols-4')}>
+                {stalls.map((stall) => {
+                    const busy = busyStall === stall.number;
+                    const selectedId = waiting.some((s) => s.id === chosen[stall.number]) ? chosen[stall.number] : next?.id || '';
+                    return (
+                        <div
+                            key={stall.number}
+                            className={cn(
+                                'rounded-2xl border-2 flex flex-col gap-2',
+                                kiosk ? 'p-6 min-h-[220px]' : 'p-3',
+                                stall.state === 'occupied' && 'border-sky-300 bg-sky-50',
+                                stall.state === 'cleaning' && 'border-amber-300 bg-amber-50',
+                                stall.state === 'free' && 'border-emerald-200 bg-emerald-50'
+                            )}
+                        >
+                            <div className="flex items-center justify-between">
+                                <span className={cn('font-black text-gray-900', kiosk ? 'text-3xl' : 'text-sm')}>Stall {stall.number}</span>
+                                <span
+                                    className={cn(
+                                        'px-2 py-0.5 rounded-full font-black uppercase tracking-wider',
+                                        kiosk ? 'text-sm' : 'text-[10px]',
+                                        stall.state === 'occupied' && 'bg-sky-200 text-sky-800',
+                                        stall.state === 'cleaning' && 'bg-amber-200 text-amber-800',
+                                        stall.state === 'free' && 'bg-emerald-200 text-emerald-800'
+                                    )}
+                                >
+                                    {stall.state === 'occupied' ? 'In use' : stall.state === 'cleaning' ? 'Cleaning' : 'Free'}
+                                </span>
+                            </div>
+
+                            {stall.state === 'occupied' && stall.shower && (
+                                <>
+                                    <p className={cn('font-bold text-gray-800 truncate', kiosk ? 'text-2xl' : 'text-sm')}>{guestName(stall.shower.guestId)}</p>
+                                    <p className={cn('font-black tabular-nums text-sky-700', kiosk ? 'text-5xl' : 'text-xl')}>
+                                        {formatElapsed(now - new Date(stall.shower.startedAt!).getTime())}
+                                    </p>
+                                    {!readOnly && (
+                                        <button
+                                            disabled={busy}
+                                            onClick={() => run(stall.number, stall.shower!.id, finishShowerChanges(), `Stall ${stall.number} finished`)}
+                                            className={cn('mt-auto rounded-xl bg-emerald-500 text-white font-black hover:bg-emerald-600 flex items-center justify-center gap-2 disabled:opacity-50', kiosk ? 'py-4 text-lg' : 'py-2 text-xs')}
+                                        >
+                                            {busy ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle size={kiosk ? 20 : 14} />}
+                                            Finish
+                                        </button>
+                                    )}
+                                </>
+                            )}
+
+                            {stall.state === 'cleaning' && stall.shower && (
+                                <>
+                                    <p className={cn('font-medium text-amber-800 truncate', kiosk ? 'text-lg' : 'text-xs')}>
+                                        Last: {guestName(stall.shower.guestId)}
+                                    </p>
+                                    {!readOnly && (
+                                        <button
+                                            disabled={busy}
+                                            onClick={() => run(stall.number, stall.shower!.id, stallCleanedChanges(), `Stall ${stall.number} ready`)}
+                                            className={cn('mt-auto rounded-xl bg-amber-500 text-white font-black hover:bg-amber-600 flex items-center justify-center gap-2 disabled:opacity-50', kiosk ? 'py-4 text-lg' : 'py-2 text-xs')}
+                                        >
+                                            {busy ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={kiosk ? 20 : 14} />}
+                                            Mark Clean
+                                        </button>
+                                    )}
+                                </>
+                            )}
+
+                            {stall.state === 'free' && !readOnly && (
+                                waiting.length === 0 ? (
+                                    <p className={cn('font-medium text-emerald-700', kiosk ? 'text-lg' : 'text-xs')}>Nobody waiting</p>
+                                ) : (
+                                    <>
+                                        <select
+                                            value={selectedId}
+                                            onChange={(e) => setChosen((prev) => ({ ...prev, [stall.number]: e.target.value }))}
+                                            aria-label={`Guest for stall ${stall.number}`}
+                                            className={cn('w-full rounded-lg border border-emerald-200 bg-white font-medium', kiosk ? 'p-3 text-lg' : 'p-1.5 text-xs')}
+                                        >
+                                            {waiting.map((s) => (
+                                                <option key={s.id} value={s.id}>
+                                                    {guestName(s.guestId)}{s.time ? ` (${formatSlotLabel(s.time)})` : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            disabled={busy || !selectedId}
+                                            onClick={() => run(stall.number, selectedId, startShowerChanges(stall.number), `Stall ${stall.number} started`)}
+                                            className={cn('mt-auto rounded-xl bg-sky-600 text-white font-black hover:bg-sky-700 flex items-center justify-center gap-2 disabled:opacity-50', kiosk ? 'py-4 text-lg' : 'py-2 text-xs')}
+                                        >
+                                            {busy ? <Loader2 size={14} className="animate-spin" /> : <Play size={kiosk ? 20 : 14} />}
+                                            Start
+                                        </button>
+                                    </>
+                                )
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
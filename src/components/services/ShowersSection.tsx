@@ -2,12 +2,15 @@
 
 import { useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ShowerHead, Clock, CheckCircle, XCircle, ChevronRight, User, AlertCircle, Loader2, RotateCcw } from 'lucide-react';
+import { ShowerHead, Clock, CheckCircle, XCircle, ChevronRight, User, AlertCircle, Loader2, RotateCcw, MonitorPlay } from 'lucide-react';
+import Link from 'next/link';
 import { useServicesStore } from '@/stores/useServicesStore';
+import { useCurrentSiteRecords } from '@/hooks/useSiteRecords';
 import { useGuestsStore } from '@/stores/useGuestsStore';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
 import { formatSlotLabel } from '@/lib/utils/serviceSlots';
 import { generateShowerSlots } from '@/lib/utils/serviceSlots';
+import { useServiceSchedule } from '@/hooks/useServiceSchedule';
 import { cn } from '@/lib/utils/cn';
 import toast from 'react-hot-toast';
 import { CompactWaiverIndicator } from '@/components/ui/CompactWaiverIndicator';
@@ -16,11 +19,15 @@ import { ShowerDetailModal } from './ShowerDetailModal';
 import { SlotBlockModal } from '../admin/SlotBlockModal';
 import { EndServiceDayPanel } from './EndServiceDayPanel';
 import { ServiceDatePicker } from './ServiceDatePicker';
+import { ShowerStallBoard } from './ShowerStallBoard';
+import { finishShowerChanges, isInStall } from '@/lib/utils/showerStalls';
 import { LayoutGrid, List, Settings, ChevronDown } from 'lucide-react';
 import { useSession } from 'next-auth/react';
+import { hasPermission } from '@/lib/auth/permissions';
 
 export function ShowersSection() {
-    const showerRecords = useServicesStore((s) => s.showerRecords);
+    const showerRecords = useCurrentSiteRecords(useServicesStore((s) => s.showerRecords));
+    const schedule = useServiceSchedule();
     const cancelMultipleShowers = useServicesStore((s) => s.cancelMultipleShowers);
     const addShowerRecord = useServicesStore((s) => s.addShowerRecord);
     const addShowerWaitlist = useServicesStore((s) => s.addShowerWaitlist);
@@ -41,6 +48,7 @@ export function ShowersSection() {
     // Check if user is admin/staff
     const userRole = (session?.user as any)?.role || '';
     const isAdmin = ['admin', 'board', 'staff'].includes(userRole);
+    const canBlockSlots = hasPermission(userRole, 'slots.block');
 
     // Check if viewing historical data
     const isViewingPast = selectedDate !== today;
@@ -97,8 +105,8 @@ export function ShowersSection() {
 
     const selectedDateSlots = useMemo(() => {
         const selectedDateObject = new Date(`${selectedDate}T12:00:00`);
-        return generateShowerSlots(selectedDateObject);
-    }, [selectedDate]);
+        return generateShowerSlots(selectedDateObject, schedule);
+    }, [selectedDate, schedule]);
 
     const selectableGuests = useMemo(() => {
         return (guests || [])
@@ -333,6 +341,9 @@ export function ShowersSection() {
                 />
             )}
 
+            {/* Live stall occupancy - Only show for today */}
+            {!isViewingPast && <ShowerStallBoard showers={selectedDateRecords} />}
+
             <div className="flex items-center justify-between flex-wrap gap-4">
                 {/* Left side: Date picker + Tab Navigation */}
                 <div className="flex items-center gap-4 flex-wrap">
@@ -341,6 +352,7 @@ export function ShowersSection() {
                         selectedDate={selectedDate}
                         onDateChange={setSelectedDate}
                         isAdmin={isAdmin}
+                        service="showers"
                     />
 
                     {/* Tab Navigation - Desktop */}
@@ -388,14 +400,26 @@ export function ShowersSection() {
 
                 {/* Right side actions */}
                 <div className="flex items-center gap-4">
-                    {/* Manage Slots Button */}
-                    <button
-                        onClick={() => setShowSlotManager(true)}
+                    {/* Wall tablet view of the stall board */}
+                    <Link
+                        href="/services/shower-board"
+                        prefetch={false}
                         className="flex items-center gap-2 px-4 py-2 bg-white text-gray-700 rounded-lg border hover:bg-gray-50 transition-colors"
                     >
-                        <Settings className="w-4 h-4" />
-                        Manage Slots
-                    </button>
+                        <MonitorPlay className="w-4 h-4" />
+                        Stall Board
+                    </Link>
+
+                    {/* Manage Slots Button */}
+                    {canBlockSlots && (
+                        <button
+                            onClick={() => setShowSlotManager(true)}
+                            className="flex items-center gap-2 px-4 py-2 bg-white text-gray-700 rounded-lg border hover:bg-gray-50 transition-colors"
+                        >
+                            <Settings className="w-4 h-4" />
+                            Manage Slots
+                        </button>
+                    )}
 
                     {/* View Toggle */}
                     <div className="flex bg-gray-100 p-1 rounded-lg">
@@ -483,6 +507,8 @@ export function ShowersSection() {
 function ShowerListItem({ record, guest, onClick, readOnly = false, queuePosition }: { record: any, guest: any, onClick?: () => void, readOnly?: boolean, queuePosition?: number }) {
     const [isUpdating, setIsUpdating] = useState(false);
     const updateShowerStatus = useServicesStore((s) => s.updateShowerStatus);
+    const updateShowerStall = useServicesStore((s) => s.updateShowerStall);
+    const inStall = isInStall(record);
 
     const handleCancel = async () => {
         if (readOnly) return;
@@ -506,7 +532,12 @@ function ShowerListItem({ record, guest, onClick, readOnly = false, queuePositio
         if (readOnly) return;
         setIsUpdating(true);
         try {
-            await updateShowerStatus(record.id, newStatus);
+            // Completing a guest who is in a stall also records when they finished
+            if (newStatus === 'done' && inStall) {
+                await updateShowerStall(record.id, finishShowerChanges());
+            } else {
+                await updateShowerStatus(record.id, newStatus);
+            }
             toast.success(newStatus === 'done' ? 'Shower completed' : 'Status updated');
         } catch (error) {
             toast.error('Failed to update status');
@@ -557,6 +588,7 @@ function ShowerListItem({ record, guest, onClick, readOnly = false, queuePositio
                         <div className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-widest mt-0.5">
                             <Clock size={12} />
                             {record.time ? formatSlotLabel(record.time) : (record.status === 'waitlisted' ? (queuePosition != null ? `Queue #${queuePosition}` : 'Waitlisted') : 'No time')}
+                            {inStall && <span className="text-sky-600">· In stall {record.stallNumber}</span>}
                         </div>
                     </div>
                 </div>
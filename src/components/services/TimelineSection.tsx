@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     ShowerHead,
@@ -13,16 +13,21 @@ import {
     Calendar,
     User,
     Package,
-    ArrowRight
+    ArrowRight,
+    ArrowUpCircle
 } from 'lucide-react';
 import { useServicesStore } from '@/stores/useServicesStore';
+import { useCurrentSiteRecords } from '@/hooks/useSiteRecords';
 import { useGuestsStore } from '@/stores/useGuestsStore';
+import { useWaitlistPromotionsStore } from '@/stores/useWaitlistPromotionsStore';
+import { formatSlotLabel } from '@/lib/utils/serviceSlots';
+import { promotionReason } from '@/lib/utils/waitlistPromotions';
 import { todayPacificDateString, pacificDateStringFrom, formatTimeInPacific } from '@/lib/utils/date';
 import { cn } from '@/lib/utils/cn';
 
 interface TimelineEvent {
     id: string;
-    type: 'shower' | 'laundry' | 'bicycle' | 'waitlist';
+    type: 'shower' | 'laundry' | 'bicycle' | 'waitlist' | 'promotion';
     title: string;
     subtitle: string;
     timeLabel: string;
@@ -32,13 +37,22 @@ interface TimelineEvent {
 }
 
 export function TimelineSection() {
-    const { showerRecords, laundryRecords, bicycleRecords } = useServicesStore();
+    const { showerRecords: allShowerRecords, laundryRecords: allLaundryRecords, bicycleRecords: allBicycleRecords } = useServicesStore();
+    const showerRecords = useCurrentSiteRecords(allShowerRecords);
+    const laundryRecords = useCurrentSiteRecords(allLaundryRecords);
+    const bicycleRecords = useCurrentSiteRecords(allBicycleRecords);
     const { guests } = useGuestsStore();
+    const promotions = useWaitlistPromotionsStore((s) => s.promotions);
+    const ensurePromotionsLoaded = useWaitlistPromotionsStore((s) => s.ensureLoaded);
 
     const [filter, setFilter] = useState<'all' | 'showers' | 'laundry' | 'bicycles'>('all');
 
     const today = todayPacificDateString();
 
+    useEffect(() => {
+        ensurePromotionsLoaded({ force: true });
+    }, [ensurePromotionsLoaded]);
+
     const events = useMemo(() => {
         const allEvents: TimelineEvent[] = [];
 
@@ -91,13 +105,29 @@ export function TimelineSection() {
             });
         });
 
+        // Add waitlist promotions
+        promotions.forEach(p => {
+            if (p.serviceDate !== today) return;
+            const guest = guests.find(g => g.id === p.guestId);
+            allEvents.push({
+                id: `promotion-${p.id}`,
+                type: 'promotion',
+                title: guest ? (guest.preferredName || guest.name) : 'Unknown Guest',
+                subtitle: `Moved off the waitlist to ${formatSlotLabel(p.slotLabel)} after ${promotionReason(p)}`,
+                timeLabel: formatSlotLabel(p.slotLabel),
+                status: 'promoted',
+                timestamp: p.promotedAt,
+                guestId: p.guestId || ''
+            });
+        });
+
         // Sort by timestamp (newest first)
         return allEvents.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-    }, [showerRecords, laundryRecords, bicycleRecords, guests, today]);
+    }, [showerRecords, laundryRecords, bicycleRecords, promotions, guests, today]);
 
     const filteredEvents = events.filter(e => {
         if (filter === 'all') return true;
-        if (filter === 'showers') return e.type === 'shower' || e.type === 'waitlist';
+        if (filter === 'showers') return e.type === 'shower' || e.type === 'waitlist' || e.type === 'promotion';
         if (filter === 'laundry') return e.type === 'laundry';
         if (filter === 'bicycles') return e.type === 'bicycle';
         return true;
@@ -121,7 +151,7 @@ export function TimelineSection() {
                         <div className="bg-white/10 backdrop-blur-md rounded-2xl p-4 border border-white/10 min-w-[120px]">
                             <p className="text-[10px] font-black uppercase tracking-widest text-blue-200">Active</p>
                             <p className="text-2xl font-black mt-1">
-                                {events.filter(e => !['done', 'picked_up', 'cancelled'].includes(e.status)).length}
+                                {events.filter(e => !['done', 'picked_up', 'cancelled', 'promoted'].includes(e.status)).length}
                             </p>
                         </div>
                     </div>
@@ -171,6 +201,7 @@ function TimelineCard({ event, index }: { event: TimelineEvent, index: number })
     const Icon = {
         shower: ShowerHead,
         waitlist: Clock,
+        promotion: ArrowUpCircle,
         laundry: WashingMachine,
         bicycle: Bike
     }[event.type];
@@ -178,6 +209,7 @@ function TimelineCard({ event, index }: { event: TimelineEvent, index: number })
     const color = {
         shower: 'bg-sky-500',
         waitlist: 'bg-amber-500',
+        promotion: 'bg-emerald-500',
         laundry: 'bg-purple-500',
         bicycle: 'bg-amber-600'
     }[event.type];
@@ -204,7 +236,7 @@ function TimelineCard({ event, index }: { event: TimelineEvent, index: number })
                             <h4 className="font-black text-gray-900">{event.title}</h4>
                             <span className={cn(
                                 "px-2 py-0.5 rounded-full text-[10px] font-black uppercase tracking-widest",
-                                ['done', 'picked_up'].includes(event.status) ? "bg-emerald-50 text-emerald-600" : "bg-gray-50 text-gray-500"
+                                ['done', 'picked_up', 'promoted'].includes(event.status) ? "bg-emerald-50 text-emerald-600" : "bg-gray-50 text-gray-500"
                             )}>
                                 {event.status}
                             </span>
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { BicycleRepairWorkLog } from '../BicycleRepairWorkLog';
+
+const tube = { name: 'Tube', quantity: 2, unitCost: 6 };
+
+const renderLog = (overrides = {}) => {
+    const onSave = vi.fn();
+    render(
+        <BicycleRepairWorkLog
+            recordId="b1"
+            parts={[tube]}
+            mechanicName="Sam"
+            laborMinutes={30}
+            onSave={onSave}
+            {...overrides}
+        />
+    );
+    return onSave;
+};
+
+describe('BicycleRepairWorkLog', () => {
+    it('lists parts with the total cost', () => {
+        renderLog();
+        expect(screen.getByText('Parts used · $12.00')).toBeDefined();
+        expect(screen.getByText(/2 × Tube/)).toBeDefined();
+    });
+
+    it('adds a part with quantity and unit cost', () => {
+        const onSave = renderLog();
+        fireEvent.change(screen.getByLabelText('Part name'), { target: { value: 'Chain' } });
+        fireEvent.change(screen.getByLabelText('Quantity'), { target: { value: '1' } });
+        fireEvent.change(screen.getByLabelText('Cost each'), { target: { value: '18.5' } });
+        fireEvent.click(screen.getByRole('button', { name: 'Add part' }));
+
+        expect(onSave).toHaveBeenCalledWith({ parts: [tube, { name: 'Chain', quantity: 1, unitCost: 18.5 }] });
+        expect((screen.getByLabelText('Part name') as HTMLInputElement).value).toBe('');
+    });
+
+    it('does not add a part without a name', () => {
+        const onSave = renderLog();
+        expect((screen.getByRole('button', { name: 'Add part' }) as HTMLButtonElement).disabled).toBe(true);
+        fireEvent.keyDown(screen.getByLabelText('Part name'), { key: 'Enter' });
+        expect(onSave).not.toHaveBeenCalled();
+    });
+
+    it('removes a part', () => {
+        const onSave = renderLog();
+        fireEvent.click(screen.getByRole('button', { name: 'Remove Tube' }));
+        expect(onSave).toHaveBeenCalledWith({ parts: [] });
+    });
+
+    it('saves mechanic and minutes when the fields lose focus', () => {
+        const onSave = renderLog();
+        const mechanic = screen.getByLabelText('Mechanic');
+        fireEvent.change(mechanic, { target: { value: ' Alex ' } });
+        fireEvent.blur(mechanic);
+        expect(onSave).toHaveBeenCalledWith({ mechanicName: 'Alex' });
+
+        const minutes = screen.getByLabelText('Minutes');
+        fireEvent.change(minutes, { target: { value: '45' } });
+        fireEvent.blur(minutes);
+        expect(onSave).toHaveBeenCalledWith({ laborMinutes: 45 });
+    });
+
+    it('skips saving unchanged fields', () => {
+        const onSave = renderLog();
+        fireEvent.blur(screen.getByLabelText('Mechanic'));
+        fireEvent.blur(screen.getByLabelText('Minutes'));
+        expect(onSave).not.toHaveBeenCalled();
+    });
+});
@@ -1,7 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import React from 'react';
 import { BicycleSection } from '../BicycleSection';
+import { useBicycleRepairTypesStore, DEFAULT_BICYCLE_REPAIR_TYPES } from '@/stores/useBicycleRepairTypesStore';
 
 // Mock dependencies
 vi.mock('next-auth/react', () => ({
@@ -16,7 +17,10 @@ vi.mock('@/stores/useServicesStore', () => ({
         const state = {
             bicycleRecords: [
                 { id: 'b1', guestId: 'g1', status: 'pending', repairType: 'flat_tire', date: '2026-01-08', createdAt: '2026-01-08T10:00:00Z' },
-                { id: 'b2', guestId: 'g2', status: 'in_progress', repairType: 'brakes', date: '2026-01-08', createdAt: '2026-01-08T11:00:00Z' },
+                {
+                    id: 'b2', guestId: 'g2', status: 'in_progress', repairType: 'brakes', date: '2026-01-08', createdAt: '2026-01-08T11:00:00Z',
+                    parts: [{ name: 'Brake Pads', quantity: 2, unitCost: 4.5 }], mechanicName: 'Sam', laborMinutes: 75,
+                },
             ],
             updateBicycleRecord: vi.fn().mockResolvedValue(true),
             deleteBicycleRecord: vi.fn().mockResolvedValue(true),
@@ -107,6 +111,36 @@ describe('BicycleSection Component', () => {
         });
     });
 
+    describe('Parts and Labor', () => {
+        it('shows parts used, cost and labor on cards', () => {
+            render(<BicycleSection />);
+            expect(screen.getByText('2× Brake Pads ($9.00)')).toBeDefined();
+            expect(screen.getByText('Sam · 1h 15m')).toBeDefined();
+        });
+    });
+
+    describe('Repair Type Catalog', () => {
+        afterEach(() => {
+            useBicycleRepairTypesStore.setState({ types: DEFAULT_BICYCLE_REPAIR_TYPES });
+        });
+
+        it('resolves stored repair types to catalog labels and estimates', () => {
+            render(<BicycleSection />);
+            expect(screen.getByText('Flat Tire')).toBeDefined();
+            expect(screen.getByText(/est\. 15m/)).toBeDefined();
+            // Unknown strings are shown as stored
+            expect(screen.getByText('brakes')).toBeDefined();
+        });
+
+        it('marks retired repair types on older repairs', () => {
+            useBicycleRepairTypesStore.setState({
+                types: DEFAULT_BICYCLE_REPAIR_TYPES.map((t) => (t.key === 'flat_tire' ? { ...t, active: false } : t)),
+            });
+            render(<BicycleSection />);
+            expect(screen.getByText('Retired')).toBeDefined();
+        });
+    });
+
     describe('Waiver Indicators', () => {
         it('shows waiver indicators on cards', () => {
             render(<BicycleSection />);
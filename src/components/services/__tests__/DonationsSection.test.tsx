@@ -3,6 +3,7 @@ import { render, screen, fireEvent, act } from '@testing-library/react';
 import React from 'react';
 import { DonationsSection, groupDonationsByItem, groupDonationsByDonor, getRecentItemNames, QuickSelectItem, DonorGroup } from '../DonationsSection';
 import { DonationRecord } from '@/stores/useDonationsStore';
+import { useSession } from 'next-auth/react';
 
 // Mock the stores
 const mockDonationsStore = {
@@ -583,6 +584,23 @@ describe('DonationsSection Component', () => {
             expect(deleteButtons.length).toBeGreaterThan(0);
         });
 
+        it('hides edit/delete buttons without the donations.edit permission', async () => {
+            vi.mocked(useSession).mockReturnValue({
+                data: { user: { role: 'checkin' } },
+                status: 'authenticated',
+            } as any);
+            mockDonationsStore.donationRecords = [
+                createDonationRecord({ id: '1', itemName: 'Unique Item' })
+            ];
+
+            await act(async () => {
+                render(<DonationsSection />);
+            });
+
+            expect(screen.queryByLabelText('Edit entry')).not.toBeInTheDocument();
+            expect(screen.queryByLabelText('Delete entry')).not.toBeInTheDocument();
+        });
+
         it('auto-expands single entry groups', async () => {
             mockDonationsStore.donationRecords = [
                 createDonationRecord({ id: '1', itemName: 'Solo Item', donor: 'Donor1' })
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useSession } from 'next-auth/react';
+import { InventorySection } from '../InventorySection';
+import { OverviewSection } from '../OverviewSection';
+import { DEFAULT_ITEM_CATALOG, type CatalogItem } from '@/stores/useItemCatalogStore';
+
+const mockEnsureLoaded = vi.fn();
+const mockRecordStockChange = vi.fn();
+const storeState = {
+    items: [] as CatalogItem[],
+    isLoading: false,
+    ensureLoaded: mockEnsureLoaded,
+    recordStockChange: mockRecordStockChange,
+    getLowStockItems: () =>
+        storeState.items.filter((i) => i.active && i.stockOnHand !== null && i.stockOnHand <= i.lowStockThreshold),
+};
+
+vi.mock('@/stores/useItemCatalogStore', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('@/stores/useItemCatalogStore')>();
+    const useItemCatalogStore = Object.assign(
+        (selector?: (s: typeof storeState) => unknown) => (selector ? selector(storeState) : storeState),
+        { getState: () => storeState }
+    );
+    return { ...actual, useItemCatalogStore };
+});
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const withStock = (stock: Record<string, number>) =>
+    DEFAULT_ITEM_CATALOG.map((item) => (item.key in stock ? { ...item, stockOnHand: stock[item.key] } : item));
+
+describe('InventorySection', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockRecordStockChange.mockResolvedValue(true);
+        storeState.items = withStock({ tent: 0, jacket: 3, backpack: 20 });
+    });
+
+    afterEach(() => {
+        vi.mocked(useSession).mockReset();
+    });
+
+    it('shows stock for tracked items and marks untracked ones', () => {
+        render(<InventorySection />);
+
+        expect(mockEnsureLoaded).toHaveBeenCalledWith({ force: true });
+        expect(screen.getByText('Out of stock')).toBeDefined();
+        expect(screen.getByText('3 in stock')).toBeDefined();
+        expect(screen.getByText('20 in stock')).toBeDefined();
+        expect(screen.getAllByText('Not tracked')).toHaveLength(3);
+        // Inactive items are not listed
+        expect(screen.queryByText('Blanket')).toBeNull();
+    });
+
+    it('records a donated restock', async () => {
+        render(<InventorySection />);
+
+        fireEvent.click(screen.getByLabelText('Restock Tent'));
+        fireEvent.change(screen.getByLabelText('Quantity received'), { target: { value: '8' } });
+        fireEvent.change(screen.getByLabelText('Donor'), { target: { value: 'REI' } });
+        fireEvent.click(screen.getByText('Save'));
+
+        await waitFor(() => expect(mockRecordStockChange).toHaveBeenCalled());
+        expect(mockRecordStockChange).toHaveBeenCalledWith(
+            expect.objectContaining({ itemKey: 'tent', delta: 8, reason: 'donation', donor: 'REI' })
+        );
+    });
+
+    it('records a recount as the difference from the current count', async () => {
+        render(<InventorySection />);
+
+        fireEvent.click(screen.getByLabelText('Recount Backpack'));
+        fireEvent.change(screen.getByLabelText('Count on shelf'), { target: { value: '17' } });
+        fireEvent.change(screen.getByLabelText('Note'), { target: { value: 'Monthly count' } });
+        fireEvent.click(screen.getByText('Save'));
+
+        await waitFor(() => expect(mockRecordStockChange).toHaveBeenCalled());
+        expect(mockRecordStockChange).toHaveBeenCalledWith(
+            expect.objectContaining({ itemKey: 'backpack', delta: -3, reason: 'adjustment', note: 'Monthly count' })
+        );
+    });
+
+    it('is read-only without inventory.manage', () => {
+        vi.mocked(useSession).mockReturnValue({
+            data: { user: { id: 'checkin-1', role: 'checkin' }, expires: '2099-01-01' },
+            status: 'authenticated',
+        } as any);
+
+        render(<InventorySection />);
+
+        expect(screen.queryByLabelText('Restock Tent')).toBeNull();
+        expect(screen.getByRole('note').textContent).toContain("Your role can't restock or recount inventory");
+    });
+});
+
+describe('OverviewSection low stock', () => {
+    const metrics = {
+        totalGuests: 0,
+        housingStatusSummary: '',
+        mealsToday: 0,
+        uniqueGuestsToday: 0,
+        showersDone: 0,
+        showersActive: 0,
+        showerWaitlist: 0,
+        laundryTotal: 0,
+        laundryActive: 0,
+        bicyclesPending: 0,
+        bicyclesCompletedThisWeek: 0,
+        timelineCount: 0,
+    };
+
+    it('lists items at or below their threshold and links to inventory', () => {
+        storeState.items = withStock({ tent: 0, jacket: 3, backpack: 20 });
+        const setActiveTab = vi.fn();
+
+        render(<OverviewSection metrics={metrics} setActiveTab={setActiveTab} />);
+
+        expect(screen.getByText('Running low')).toBeDefined();
+        expect(screen.getByText('Tent: out')).toBeDefined();
+        expect(screen.getByText('Jacket: 3 left')).toBeDefined();
+        expect(screen.queryByText(/Backpack:/)).toBeNull();
+
+        fireEvent.click(screen.getByText('Restock'));
+        expect(setActiveTab).toHaveBeenCalledWith('inventory');
+    });
+
+    it('stays hidden when nothing is low', () => {
+        storeState.items = withStock({ backpack: 20 });
+
+        render(<OverviewSection metrics={metrics} setActiveTab={vi.fn()} />);
+
+        expect(screen.queryByText('Running low')).toBeNull();
+    });
+});
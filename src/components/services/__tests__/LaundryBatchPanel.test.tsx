@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import toast from 'react-hot-toast';
+import { LaundryBatchPanel } from '../LaundryBatchPanel';
+import { useLaundryBatchesStore } from '@/stores/useLaundryBatchesStore';
+import { printBatchManifest } from '@/lib/utils/laundryBatches';
+
+vi.mock('@/stores/useGuestsStore', () => ({
+    useGuestsStore: vi.fn(() => ({
+        guests: [
+            { id: 'g1', guestId: 'M100', name: 'John Doe', preferredName: 'Johnny' },
+            { id: 'g2', guestId: 'M200', name: 'Jane Smith', preferredName: '' },
+        ],
+    })),
+}));
+
+vi.mock('@/lib/utils/laundryBatches', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/utils/laundryBatches')>()),
+    printBatchManifest: vi.fn().mockResolvedValue(undefined),
+}));
+
+const createBatch = vi.fn();
+const markTransported = vi.fn();
+const markReturned = vi.fn();
+
+const offsite = (id: string, guestId: string, status: string, batchId: string | null = null) => ({
+    id, guestId, status, batchId, bagNumber: id.replace('l', ''), laundryType: 'offsite',
+});
+
+describe('LaundryBatchPanel', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        createBatch.mockResolvedValue({ id: 'b1' });
+        markTransported.mockResolvedValue(true);
+        markReturned.mockResolvedValue(true);
+        useLaundryBatchesStore.setState({
+            batches: [],
+            isLoaded: true,
+            ensureLoaded: vi.fn().mockResolvedValue(undefined),
+            createBatch,
+            markTransported,
+            markReturned,
+        });
+    });
+
+    it('creates a vendor batch from the selected bags', async () => {
+        render(
+            <LaundryBatchPanel
+                serviceDate="2026-10-19"
+                bookings={[offsite('l1', 'g1', 'pending'), offsite('l2', 'g2', 'waiting')]}
+            />
+        );
+
+        fireEvent.click(screen.getByLabelText('#1 Johnny'));
+        fireEvent.change(screen.getByLabelText('Vendor'), { target: { value: 'Clean Co' } });
+        fireEvent.click(screen.getByText('Create Batch'));
+
+        await waitFor(() => {
+            expect(createBatch).toHaveBeenCalledWith('2026-10-19', 'Clean Co', ['l1']);
+        });
+    });
+
+    it('requires a vendor before creating a batch', () => {
+        render(<LaundryBatchPanel serviceDate="2026-10-19" bookings={[offsite('l1', 'g1', 'pending')]} />);
+
+        fireEvent.click(screen.getByText('Select all'));
+        fireEvent.click(screen.getByText('Create Batch'));
+
+        expect(toast.error).toHaveBeenCalledWith('Vendor is required');
+        expect(createBatch).not.toHaveBeenCalled();
+    });
+
+    it('marks an open batch transported and prints its manifest', async () => {
+        useLaundryBatchesStore.setState({
+            batches: [{ id: 'b1', serviceDate: '2026-10-19', vendor: 'Clean Co', status: 'open' }],
+        });
+        render(
+            <LaundryBatchPanel
+                serviceDate="2026-10-19"
+                bookings={[offsite('l1', 'g1', 'pending', 'b1'), offsite('l2', 'g2', 'pending', 'b1')]}
+            />
+        );
+
+        fireEvent.click(screen.getByText('Manifest'));
+        fireEvent.click(screen.getByText('Mark Transported'));
+
+        await waitFor(() => expect(markTransported).toHaveBeenCalledWith('b1'));
+        expect(printBatchManifest).toHaveBeenCalledWith(
+            expect.objectContaining({ id: 'b1' }),
+            [
+                { bagNumber: '1', guestId: 'M100', guestName: 'Johnny', status: 'pending' },
+                { bagNumber: '2', guestId: 'M200', guestName: 'Jane Smith', status: 'pending' },
+            ]
+        );
+    });
+
+    it('returns only the ticked bags and reports the rest', async () => {
+        useLaundryBatchesStore.setState({
+            batches: [{ id: 'b1', serviceDate: '2026-10-19', vendor: 'Clean Co', status: 'transported' }],
+        });
+        render(
+            <LaundryBatchPanel
+                serviceDate="2026-10-19"
+                bookings={[offsite('l1', 'g1', 'transported', 'b1'), offsite('l2', 'g2', 'transported', 'b1')]}
+            />
+        );
+
+        fireEvent.click(screen.getByText('Mark Returned'));
+        fireEvent.click(screen.getByLabelText('#2 Jane Smith'));
+        fireEvent.click(screen.getByText('Confirm Return'));
+
+        await waitFor(() => expect(markReturned).toHaveBeenCalledWith('b1', ['l1']));
+        expect(toast.error).toHaveBeenCalledWith('1 bag not returned with the batch');
+    });
+
+    it('flags bags that did not come back with a returned batch', () => {
+        useLaundryBatchesStore.setState({
+            batches: [{ id: 'b1', serviceDate: '2026-10-19', vendor: 'Clean Co', status: 'returned' }],
+        });
+        render(
+            <LaundryBatchPanel
+                serviceDate="2026-10-19"
+                bookings={[offsite('l1', 'g1', 'returned', 'b1'), offsite('l2', 'g2', 'transported', 'b1')]}
+            />
+        );
+
+        expect(screen.getByText('Not returned: #2 Jane Smith')).toBeInTheDocument();
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import React from 'react';
+import toast from 'react-hot-toast';
+import { LaundryMachineBoard } from '../LaundryMachineBoard';
+import { useLaundryMachinesStore } from '@/stores/useLaundryMachinesStore';
+
+vi.mock('@/stores/useGuestsStore', () => ({
+    useGuestsStore: vi.fn(() => ({
+        guests: [{ id: 'g1', guestId: 'M100', name: 'John Doe', preferredName: 'Johnny' }],
+    })),
+}));
+
+const machines = [
+    { id: 'w1', kind: 'washer' as const, number: 1, cycleMinutes: 30, outOfService: false, note: null },
+    { id: 'w2', kind: 'washer' as const, number: 2, cycleMinutes: 30, outOfService: false, note: null },
+    { id: 'd1', kind: 'dryer' as const, number: 1, cycleMinutes: 45, outOfService: true, note: null },
+];
+
+describe('LaundryMachineBoard', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-10-19T17:28:00Z'));
+        useLaundryMachinesStore.setState({
+            machines,
+            isLoaded: true,
+            ensureLoaded: vi.fn().mockResolvedValue(undefined),
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('renders nothing until machines are registered', () => {
+        useLaundryMachinesStore.setState({ machines: [] });
+        render(<LaundryMachineBoard loads={[]} />);
+        expect(screen.queryByTestId('laundry-machine-board')).toBeNull();
+    });
+
+    it('shows each machine with its load and cycle countdown', () => {
+        render(
+            <LaundryMachineBoard
+                loads={[{ id: 'l1', guestId: 'g1', status: 'washer', machineId: 'w1', cycleStartedAt: '2026-10-19T17:00:00Z' }]}
+            />
+        );
+
+        expect(screen.getByText('Washer 1')).toBeDefined();
+        expect(screen.getByText('Johnny')).toBeDefined();
+        expect(screen.getByText('2:00')).toBeDefined();
+        expect(screen.getByText('Free')).toBeDefined();
+        expect(screen.getByText('Out of service')).toBeDefined();
+    });
+
+    it('alerts once when a cycle finishes', () => {
+        render(
+            <LaundryMachineBoard
+                loads={[{ id: 'l1', guestId: 'g1', status: 'washer', machineId: 'w1', cycleStartedAt: '2026-10-19T17:00:00Z' }]}
+            />
+        );
+        expect(toast.success).not.toHaveBeenCalled();
+
+        act(() => { vi.advanceTimersByTime(121_000); });
+        act(() => { vi.advanceTimersByTime(5_000); });
+
+        expect(screen.getByText('Done')).toBeDefined();
+        expect(toast.success).toHaveBeenCalledTimes(1);
+        expect(toast.success).toHaveBeenCalledWith("Washer 1 finished — move Johnny's load", { icon: '🔔' });
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React, { useState } from 'react';
+import { useLaundryMachinePicker, type MachineChoice } from '../LaundryMachinePicker';
+import { useLaundryMachinesStore } from '@/stores/useLaundryMachinesStore';
+
+const machines = [
+    { id: 'w1', kind: 'washer' as const, number: 1, cycleMinutes: 30, outOfService: false, note: null },
+    { id: 'w2', kind: 'washer' as const, number: 2, cycleMinutes: 30, outOfService: false, note: null },
+    { id: 'w3', kind: 'washer' as const, number: 3, cycleMinutes: 30, outOfService: true, note: null },
+];
+
+const loads = [{ id: 'l9', guestId: 'g9', status: 'washer', machineId: 'w1', cycleStartedAt: null }];
+
+function Harness() {
+    const { hasMachines, pickMachine, machinePicker } = useLaundryMachinePicker();
+    const [choice, setChoice] = useState<string>('none');
+    const record = (value: MachineChoice) => setChoice(value === undefined ? 'cancelled' : String(value));
+
+    return (
+        <div>
+            <span>{hasMachines('washer') ? 'has washers' : 'no washers'}</span>
+            <span>{hasMachines('dryer') ? 'has dryers' : 'no dryers'}</span>
+            <button onClick={() => pickMachine('washer', loads).then(record)}>Pick</button>
+            <span data-testid="choice">{choice}</span>
+            {machinePicker}
+        </div>
+    );
+}
+
+describe('useLaundryMachinePicker', () => {
+    beforeEach(() => {
+        useLaundryMachinesStore.setState({ machines });
+    });
+
+    it('only reports kinds with registered machines', () => {
+        render(<Harness />);
+        expect(screen.getByText('has washers')).toBeDefined();
+        expect(screen.getByText('no dryers')).toBeDefined();
+    });
+
+    it('disables machines that are busy or out of service', () => {
+        render(<Harness />);
+        fireEvent.click(screen.getByText('Pick'));
+
+        expect(screen.getByRole('dialog', { name: 'Choose a washer' })).toBeDefined();
+        expect((screen.getByText('Washer 1').closest('button') as HTMLButtonElement).disabled).toBe(true);
+        expect((screen.getByText('Washer 3').closest('button') as HTMLButtonElement).disabled).toBe(true);
+        expect(screen.getByText('In use')).toBeDefined();
+        expect(screen.getByText('Out of service')).toBeDefined();
+    });
+
+    it('resolves the chosen machine, no machine, or a cancel', async () => {
+        render(<Harness />);
+
+        fireEvent.click(screen.getByText('Pick'));
+        fireEvent.click(screen.getByText('Washer 2'));
+        await waitFor(() => expect(screen.getByTestId('choice').textContent).toBe('w2'));
+        expect(screen.queryByRole('dialog')).toBeNull();
+
+        fireEvent.click(screen.getByText('Pick'));
+        fireEvent.click(screen.getByText('Move without a machine'));
+        await waitFor(() => expect(screen.getByTestId('choice').textContent).toBe('null'));
+
+        fireEvent.click(screen.getByText('Pick'));
+        fireEvent.click(screen.getByLabelText('Cancel'));
+        await waitFor(() => expect(screen.getByTestId('choice').textContent).toBe('cancelled'));
+    });
+});
@@ -1,7 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import React from 'react';
+import toast from 'react-hot-toast';
 import { LaundrySection } from '../LaundrySection';
+import { printBagTags } from '@/lib/utils/laundryBags';
+import { useLaundryBatchesStore } from '@/stores/useLaundryBatchesStore';
+import { useLaundryMachinesStore } from '@/stores/useLaundryMachinesStore';
 
 const defaultLaundryRecords = [
     { id: 'l1', guestId: 'g1', status: 'waiting', time: '09:00-09:30', bagNumber: '1', date: '2026-01-08', laundryType: 'onsite', createdAt: '2026-01-08T09:00:00Z' },
@@ -13,6 +17,7 @@ const defaultStoreData = {
     addLaundryRecord: vi.fn().mockResolvedValue({ id: 'l3' }),
     updateLaundryStatus: vi.fn().mockResolvedValue(true),
     updateLaundryBagNumber: vi.fn().mockResolvedValue(true),
+    assignLaundryBagNumber: vi.fn().mockResolvedValue('3'),
     cancelMultipleLaundry: vi.fn().mockResolvedValue(true),
     loadFromSupabase: vi.fn().mockResolvedValue(undefined),
 };
@@ -57,11 +62,21 @@ vi.mock('@/lib/utils/date', () => ({
 }));
 
 vi.mock('../EndServiceDayPanel', () => ({
-    EndServiceDayPanel: ({ showLaundry, isAdmin }: any) => (
-        showLaundry && isAdmin ? <div data-testid="end-service-panel">End Service Panel</div> : null
+    EndServiceDayPanel: ({ showLaundry, isAdmin, onEndLaundryDay }: any) => (
+        showLaundry && isAdmin ? (
+            <div data-testid="end-service-panel">
+                End Service Panel
+                <button onClick={onEndLaundryDay}>End Laundry</button>
+            </div>
+        ) : null
     ),
 }));
 
+vi.mock('@/lib/utils/laundryBags', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/lib/utils/laundryBags')>()),
+    printBagTags: vi.fn().mockResolvedValue(undefined),
+}));
+
 vi.mock('../admin/SlotBlockModal', () => ({
     SlotBlockModal: () => null,
 }));
@@ -137,6 +152,26 @@ describe('LaundrySection Component', () => {
             render(<LaundrySection />);
             expect(screen.getByTestId('end-service-panel')).toBeDefined();
         });
+
+        it('cancels waitlisted guests with the waiting loads so nobody is promoted after closing', async () => {
+            const records = [
+                ...defaultLaundryRecords,
+                { id: 'w1', guestId: 'g2', status: 'waitlisted', time: null, bagNumber: '', date: '2026-01-08', laundryType: 'onsite', waitlistPosition: 1, createdAt: '2026-01-08T11:00:00Z' },
+            ];
+            const storeData = { ...defaultStoreData, laundryRecords: records };
+            mockUseServicesStore.mockReturnValue(storeData);
+            mockUseServicesStore.getState.mockReturnValue(storeData);
+
+            render(<LaundrySection />);
+            fireEvent.click(screen.getByText('End Laundry'));
+
+            // One bulk update, so the promotion trigger finds no waitlisted guest left to move
+            await waitFor(() => {
+                expect(storeData.cancelMultipleLaundry).toHaveBeenCalledTimes(1);
+            });
+            expect(storeData.cancelMultipleLaundry).toHaveBeenCalledWith(['l1', 'w1']);
+            expect(storeData.updateLaundryStatus).not.toHaveBeenCalled();
+        });
     });
 
     describe('Legacy Laundry Section', () => {
@@ -262,5 +297,186 @@ describe('LaundrySection Component', () => {
 
             promptSpy.mockRestore();
         });
+
+        it('lets the server number the bag when the suggested number is kept', async () => {
+            const records = [
+                { id: 'l1', guestId: 'g1', status: 'waiting', time: '09:00-09:30', bagNumber: '', date: '2026-01-08', laundryType: 'onsite', createdAt: '2026-01-08T09:00:00Z' },
+            ];
+            const storeData = { ...defaultStoreData, laundryRecords: records, assignLaundryBagNumber: vi.fn().mockResolvedValue('4') };
+            mockUseServicesStore.mockReturnValue(storeData);
+            mockUseServicesStore.getState.mockReturnValue(storeData);
+
+            const promptSpy = vi.spyOn(window, 'prompt').mockImplementation((_message, suggested) => suggested ?? null);
+            render(<LaundrySection />);
+
+            fireEvent.click(screen.getByLabelText('Expand laundry details'));
+            fireEvent.change(screen.getByDisplayValue('Waiting'), { target: { value: 'washer' } });
+
+            await waitFor(() => {
+                expect(storeData.assignLaundryBagNumber).toHaveBeenCalledWith('l1');
+                expect(storeData.updateLaundryStatus).toHaveBeenCalledWith('l1', 'washer');
+            });
+            expect(storeData.updateLaundryBagNumber).not.toHaveBeenCalled();
+            expect(toast.success).toHaveBeenCalledWith('Bag #4 assigned');
+
+            promptSpy.mockRestore();
+        });
+
+        it('keeps the load waiting when a typed bag number cannot be saved', async () => {
+            const records = [
+                { id: 'l1', guestId: 'g1', status: 'waiting', time: '09:00-09:30', bagNumber: '', date: '2026-01-08', laundryType: 'onsite', createdAt: '2026-01-08T09:00:00Z' },
+            ];
+            const storeData = { ...defaultStoreData, laundryRecords: records, updateLaundryBagNumber: vi.fn().mockResolvedValue(false) };
+            mockUseServicesStore.mockReturnValue(storeData);
+            mockUseServicesStore.getState.mockReturnValue(storeData);
+
+            const promptSpy = vi.spyOn(window, 'prompt').mockReturnValue('7');
+            render(<LaundrySection />);
+
+            fireEvent.click(screen.getByLabelText('Expand laundry details'));
+            fireEvent.change(screen.getByDisplayValue('Waiting'), { target: { value: 'washer' } });
+
+            await waitFor(() => {
+                expect(toast.error).toHaveBeenCalledWith('Failed to save bag number');
+            });
+            expect(storeData.updateLaundryStatus).not.toHaveBeenCalled();
+
+            promptSpy.mockRestore();
+        });
+    });
+
+    describe('Bag Tags', () => {
+        it('advances a booking to its next status when its tag is scanned', async () => {
+            render(<LaundrySection />);
+
+            const input = screen.getByLabelText('Scan or type bag tag');
+            fireEvent.change(input, { target: { value: 'LB-20260108-2' } });
+            fireEvent.submit(input.closest('form')!);
+
+            await waitFor(() => {
+                expect(defaultStoreData.updateLaundryStatus).toHaveBeenCalledWith('l2', 'dryer');
+            });
+            expect((input as HTMLInputElement).value).toBe('');
+        });
+
+        it('reports tags that match no booking', async () => {
+            render(<LaundrySection />);
+
+            const input = screen.getByLabelText('Scan or type bag tag');
+            fireEvent.change(input, { target: { value: '99' } });
+            fireEvent.submit(input.closest('form')!);
+
+            await waitFor(() => {
+                expect(toast.error).toHaveBeenCalledWith('No laundry found for tag 99');
+            });
+            expect(defaultStoreData.updateLaundryStatus).not.toHaveBeenCalled();
+        });
+
+        it('prints tags for the day\'s bagged laundry', async () => {
+            render(<LaundrySection />);
+
+            fireEvent.click(screen.getByText('Print Tags'));
+
+            await waitFor(() => {
+                expect(printBagTags).toHaveBeenCalledWith([
+                    expect.objectContaining({ code: 'LB-20260108-1', guestName: 'Johnny', slot: '09:00-09:30' }),
+                    expect.objectContaining({ code: 'LB-20260108-2', guestName: 'Jane Smith' }),
+                ]);
+            });
+        });
+
+        it('asks the server for the next bag number for the day', async () => {
+            const records = [
+                ...defaultLaundryRecords,
+                { id: 'l3', guestId: 'g1', status: 'waiting', time: '11:00-11:30', bagNumber: '', date: '2026-01-08', laundryType: 'onsite', createdAt: '2026-01-08T11:00:00Z' },
+            ];
+            const storeData = { ...defaultStoreData, laundryRecords: records };
+            mockUseServicesStore.mockReturnValue(storeData);
+            mockUseServicesStore.getState.mockReturnValue(storeData);
+
+            render(<LaundrySection />);
+            fireEvent.click(screen.getAllByLabelText('Expand laundry details')[1]);
+            fireEvent.click(screen.getByText('Assign Next Bag #'));
+
+            await waitFor(() => {
+                expect(storeData.assignLaundryBagNumber).toHaveBeenCalledWith('l3');
+            });
+            expect(storeData.updateLaundryBagNumber).not.toHaveBeenCalled();
+            expect(toast.success).toHaveBeenCalledWith('Bag #3 assigned');
+        });
+    });
+
+    describe('Vendor Batches', () => {
+        it('flags off-site bags that did not come back with their batch', () => {
+            useLaundryBatchesStore.setState({
+                batches: [{ id: 'b1', serviceDate: '2026-01-08', vendor: 'Clean Co', status: 'returned' }],
+                ensureLoaded: vi.fn().mockResolvedValue(undefined),
+            });
+            const records = [
+                ...defaultLaundryRecords,
+                { id: 'l3', guestId: 'g1', status: 'transported', bagNumber: '5', date: '2026-01-08', laundryType: 'offsite', batchId: 'b1', createdAt: '2026-01-08T11:00:00Z' },
+            ];
+            const storeData = { ...defaultStoreData, laundryRecords: records };
+            mockUseServicesStore.mockReturnValue(storeData);
+            mockUseServicesStore.getState.mockReturnValue(storeData);
+
+            render(<LaundrySection />);
+
+            expect(screen.getByTestId('laundry-batch-panel')).toBeInTheDocument();
+            expect(screen.getByText('Not returned with batch')).toBeInTheDocument();
+            expect(screen.getByText('Not returned: #5 Johnny')).toBeInTheDocument();
+        });
+    });
+
+    describe('Laundry Machines', () => {
+        beforeEach(() => {
+            useLaundryMachinesStore.setState({
+                machines: [
+                    { id: 'w1', kind: 'washer', number: 1, cycleMinutes: 35, outOfService: false, note: null },
+                    { id: 'w2', kind: 'washer', number: 2, cycleMinutes: 35, outOfService: false, note: null },
+                ],
+                ensureLoaded: vi.fn().mockResolvedValue(undefined),
+            });
+        });
+
+        afterEach(() => {
+            useLaundryMachinesStore.setState({ machines: [] });
+        });
+
+        it('asks which washer a load goes into and shows it on the card', async () => {
+            const records = [
+                { ...defaultLaundryRecords[0] },
+                { ...defaultLaundryRecords[1], machineId: 'w1', cycleStartedAt: new Date().toISOString() },
+            ];
+            const storeData = { ...defaultStoreData, laundryRecords: records };
+            mockUseServicesStore.mockReturnValue(storeData);
+            mockUseServicesStore.getState.mockReturnValue(storeData);
+
+            render(<LaundrySection />);
+
+            expect(screen.getByTestId('laundry-machine-board')).toBeInTheDocument();
+            expect(screen.getAllByText('Washer 1').length).toBeGreaterThan(0);
+
+            fireEvent.click(screen.getAllByLabelText('Expand laundry details')[0]);
+            fireEvent.change(screen.getByDisplayValue('Waiting'), { target: { value: 'washer' } });
+
+            const dialog = await screen.findByRole('dialog', { name: 'Choose a washer' });
+            fireEvent.click(within(dialog).getByText('Washer 2'));
+
+            await waitFor(() => {
+                expect(storeData.updateLaundryStatus).toHaveBeenCalledWith('l1', 'washer', 'w2');
+            });
+        });
+
+        it('leaves the load where it is when the machine choice is cancelled', async () => {
+            render(<LaundrySection />);
+
+            fireEvent.click(screen.getAllByLabelText('Expand laundry details')[0]);
+            fireEvent.change(screen.getByDisplayValue('Waiting'), { target: { value: 'washer' } });
+            fireEvent.click(await screen.findByLabelText('Cancel'));
+
+            await waitFor(() => expect(screen.queryByRole('dialog')).toBeNull());
+            expect(defaultStoreData.updateLaundryStatus).not.toHaveBeenCalled();
+        });
     });
 });
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import { ServiceDatePicker } from '../ServiceDatePicker';
+import { useServiceClosuresStore } from '@/stores/useServiceClosuresStore';
 
 // Mock date utilities
 vi.mock('@/lib/utils/date', () => ({
@@ -170,4 +171,46 @@ describe('ServiceDatePicker', () => {
             expect(screen.getByLabelText('Next month')).toBeInTheDocument();
         });
     });
+
+    describe('Closed Days', () => {
+        beforeEach(() => {
+            useServiceClosuresStore.setState({
+                closures: [
+                    { id: 'c1', closedOn: '2024-01-01', service: null, reason: 'New Year' },
+                    { id: 'c2', closedOn: '2024-01-08', service: 'laundry', reason: 'Washer repair' },
+                ],
+                isLoaded: true,
+            });
+        });
+
+        it('greys out closed days with the reason as a tooltip', () => {
+            render(
+                <ServiceDatePicker
+                    selectedDate="2024-01-15"
+                    onDateChange={mockOnDateChange}
+                    isAdmin={true}
+                    service="showers"
+                />
+            );
+            fireEvent.click(screen.getByLabelText('Toggle calendar'));
+
+            const newYear = screen.getByTitle('All services closed: New Year');
+            expect(newYear).toHaveClass('line-through');
+            // Laundry-only closures do not grey out the showers calendar
+            expect(screen.queryByTitle('Laundry closed: Washer repair')).toBeNull();
+        });
+
+        it('shows closures for every service when no service is given', () => {
+            render(
+                <ServiceDatePicker
+                    selectedDate="2024-01-15"
+                    onDateChange={mockOnDateChange}
+                    isAdmin={true}
+                />
+            );
+            fireEvent.click(screen.getByLabelText('Toggle calendar'));
+
+            expect(screen.getByTitle('Laundry closed: Washer repair')).toHaveClass('line-through');
+        });
+    });
 });
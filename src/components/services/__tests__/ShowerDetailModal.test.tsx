@@ -1,7 +1,9 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import React from 'react';
 import { ShowerDetailModal } from '../ShowerDetailModal';
+import { useItemCatalogStore, DEFAULT_ITEM_CATALOG } from '@/stores/useItemCatalogStore';
+import toast from 'react-hot-toast';
 
 // Mock framer-motion
 vi.mock('framer-motion', () => ({
@@ -17,16 +19,20 @@ const mockCheckAvailability = vi.fn((_guestId: string, _itemKey: string) => ({ a
 const mockGiveItem = vi.fn();
 const mockUndoItem = vi.fn();
 let mockDistributedItems: any[] = [];
+let mockItemsError: string | null = null;
 
 vi.mock('@/stores/useItemsStore', () => ({
-    useItemsStore: () => ({
-        fetchItemsForGuest: mockFetchItemsForGuest,
-        checkAvailability: mockCheckAvailability,
-        giveItem: mockGiveItem,
-        undoItem: mockUndoItem,
-        distributedItems: mockDistributedItems,
-        isLoading: false,
-    }),
+    useItemsStore: Object.assign(
+        () => ({
+            fetchItemsForGuest: mockFetchItemsForGuest,
+            checkAvailability: mockCheckAvailability,
+            giveItem: mockGiveItem,
+            undoItem: mockUndoItem,
+            distributedItems: mockDistributedItems,
+            isLoading: false,
+        }),
+        { getState: () => ({ error: mockItemsError }) }
+    ),
 }));
 
 // Mock the services store
@@ -76,6 +82,7 @@ describe('ShowerDetailModal', () => {
     beforeEach(() => {
         vi.clearAllMocks();
         mockDistributedItems = [];
+        mockItemsError = null;
     });
 
     it('renders modal when open', () => {
@@ -184,6 +191,57 @@ describe('ShowerDetailModal', () => {
         });
     });
 
+    describe('Stock levels', () => {
+        const withStock = (stock: Record<string, number>) => {
+            useItemCatalogStore.setState({
+                isLoaded: true,
+                items: DEFAULT_ITEM_CATALOG.map((item) =>
+                    item.key in stock ? { ...item, stockOnHand: stock[item.key] } : item
+                ),
+            });
+        };
+
+        afterEach(() => {
+            useItemCatalogStore.setState({ items: DEFAULT_ITEM_CATALOG, isLoaded: false });
+        });
+
+        it('shows remaining stock on tracked items only', () => {
+            mockCheckAvailability.mockReturnValue({ available: true });
+            withStock({ tent: 12, jacket: 2 });
+
+            render(<ShowerDetailModal {...defaultProps} />);
+
+            expect(screen.getByText('12 in stock')).toBeDefined();
+            expect(screen.getByText('2 in stock').className).toContain('text-amber-600');
+            expect(screen.getAllByText(/in stock/)).toHaveLength(2);
+        });
+
+        it('disables items that are out of stock', () => {
+            mockCheckAvailability.mockReturnValue({ available: true });
+            withStock({ tent: 0 });
+
+            render(<ShowerDetailModal {...defaultProps} />);
+
+            const tentButton = screen.getByText('Tent').closest('button') as HTMLButtonElement;
+            expect(tentButton.disabled).toBe(true);
+            expect(screen.getByText('Out of stock')).toBeDefined();
+        });
+
+        it('reports when the last one was handed out elsewhere', async () => {
+            mockCheckAvailability.mockReturnValue({ available: true });
+            mockGiveItem.mockResolvedValue(null);
+            mockItemsError = 'Out of stock: tent';
+            withStock({ tent: 1 });
+
+            render(<ShowerDetailModal {...defaultProps} />);
+            fireEvent.click(screen.getByText('Tent').closest('button')!);
+
+            await waitFor(() => {
+                expect(toast.error).toHaveBeenCalledWith('Tent is out of stock');
+            });
+        });
+    });
+
     describe('Close functionality', () => {
         it('calls onClose when close button is clicked', () => {
             render(<ShowerDetailModal {...defaultProps} />);
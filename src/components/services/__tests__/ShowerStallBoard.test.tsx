@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
+import React from 'react';
+import toast from 'react-hot-toast';
+import { ShowerStallBoard } from '../ShowerStallBoard';
+
+const { mockUpdateShowerStall } = vi.hoisted(() => ({ mockUpdateShowerStall: vi.fn() }));
+
+vi.mock('@/stores/useServicesStore', () => ({
+    useServicesStore: vi.fn((selector) => {
+        const state = { updateShowerStall: mockUpdateShowerStall };
+        return typeof selector === 'function' ? selector(state) : state;
+    }),
+}));
+
+vi.mock('@/stores/useGuestsStore', () => ({
+    useGuestsStore: vi.fn((selector) => {
+        const state = {
+            guests: [
+                { id: 'g1', name: 'John Doe', preferredName: 'Johnny' },
+                { id: 'g2', name: 'Jane Smith', preferredName: null },
+                { id: 'g3', name: 'Bob Wilson', preferredName: null },
+            ],
+        };
+        return typeof selector === 'function' ? selector(state) : state;
+    }),
+}));
+
+vi.mock('@/hooks/useServiceSchedule', () => ({
+    useServiceSchedule: () => [],
+}));
+
+vi.mock('@/lib/utils/serviceSlots', () => ({
+    getSlotCapacity: vi.fn(() => 2),
+    formatSlotLabel: vi.fn((slot: string) => slot),
+}));
+
+describe('ShowerStallBoard', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.useFakeTimers({ shouldAdvanceTime: true });
+        vi.setSystemTime(new Date('2026-10-19T16:05:30Z'));
+        mockUpdateShowerStall.mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('shows who is in each stall with a running timer', () => {
+        render(
+            <ShowerStallBoard
+                showers={[
+                    { id: 's1', guestId: 'g1', status: 'booked', time: '08:00', stallNumber: 1, startedAt: '2026-10-19T16:00:00Z' },
+                    { id: 's2', guestId: 'g2', status: 'booked', time: '08:30' },
+                ]}
+            />
+        );
+
+        expect(screen.getByText('Stall 1')).toBeDefined();
+        expect(screen.getByText('Johnny')).toBeDefined();
+        expect(screen.getByText('5:30')).toBeDefined();
+        expect(screen.getByText(/1 in use · 1 waiting/)).toBeDefined();
+
+        act(() => { vi.advanceTimersByTime(2000); });
+        expect(screen.getByText('5:32')).toBeDefined();
+    });
+
+    it('starts the chosen guest in a free stall', async () => {
+        render(
+            <ShowerStallBoard
+                showers={[
+                    { id: 's2', guestId: 'g2', status: 'booked', time: '08:30' },
+                    { id: 's3', guestId: 'g3', status: 'booked', time: '09:00' },
+                ]}
+            />
+        );
+
+        fireEvent.change(screen.getByLabelText('Guest for stall 2'), { target: { value: 's3' } });
+        fireEvent.click(screen.getAllByText('Start')[1]);
+
+        await waitFor(() => expect(mockUpdateShowerStall).toHaveBeenCalled());
+        expect(mockUpdateShowerStall).toHaveBeenCalledWith('s3', {
+            stallNumber: 2,
+            startedAt: expect.any(String),
+            finishedAt: null,
+            stallCleanedAt: null,
+        });
+        expect(toast.success).toHaveBeenCalledWith('Stall 2 started');
+    });
+
+    it('finishes a shower and then marks the stall clean', async () => {
+        const { rerender } = render(
+            <ShowerStallBoard
+                showers={[{ id: 's1', guestId: 'g1', status: 'booked', stallNumber: 1, startedAt: '2026-10-19T16:00:00Z' }]}
+            />
+        );
+
+        fireEvent.click(screen.getByText('Finish'));
+        await waitFor(() => expect(mockUpdateShowerStall).toHaveBeenCalledWith('s1', {
+            status: 'done',
+            finishedAt: expect.any(String),
+        }));
+
+        rerender(
+            <ShowerStallBoard
+                showers={[{ id: 's1', guestId: 'g1', status: 'done', stallNumber: 1, startedAt: '2026-10-19T16:00:00Z', finishedAt: '2026-10-19T16:05:30Z' }]}
+            />
+        );
+        expect(screen.getByText('Cleaning')).toBeDefined();
+        expect(screen.getByText('Last: Johnny')).toBeDefined();
+
+        fireEvent.click(screen.getByText('Mark Clean'));
+        await waitFor(() => expect(mockUpdateShowerStall).toHaveBeenCalledWith('s1', expect.objectContaining({
+            stallCleanedAt: expect.any(String),
+        })));
+    });
+
+    it('reports a failed update', async () => {
+        mockUpdateShowerStall.mockResolvedValue(false);
+        render(<ShowerStallBoard showers={[{ id: 's2', guestId: 'g2', status: 'booked' }]} />);
+
+        fireEvent.click(screen.getAllByText('Start')[0]);
+
+        await waitFor(() => expect(toast.error).toHaveBeenCalledWith('Failed to update stall'));
+    });
+
+    it('hides controls when read-only', () => {
+        render(<ShowerStallBoard readOnly showers={[{ id: 's2', guestId: 'g2', status: 'booked' }]} />);
+        expect(screen.queryByText('Start')).toBeNull();
+    });
+});
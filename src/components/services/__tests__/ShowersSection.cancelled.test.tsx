@@ -96,6 +96,7 @@ vi.mock('@/lib/utils/date', () => ({
 vi.mock('@/lib/utils/serviceSlots', () => ({
     formatSlotLabel: vi.fn((slot: string) => slot),
     generateShowerSlots: vi.fn(() => ['09:00', '09:30', '10:00']),
+    getSlotCapacity: vi.fn(() => 2),
 }));
 
 describe('ShowersSection Cancelled Tab', () => {
@@ -0,0 +1,45 @@
+'use client';
+
+import { UserX } from 'lucide-react';
+import { formatDateForDisplay } from '@/lib/utils/date';
+import { addDays, describeNoShowPolicy, type NoShowPolicy, type NoShowStanding } from '@/lib/utils/noShowPolicy';
+import { cn } from '@/lib/utils/cn';
+
+interface NoShowNoticeProps {
+    standing: NoShowStanding;
+    policy: NoShowPolicy;
+    service: 'shower' | 'laundry';
+    className?: string;
+}
+
+/**
+ * NoShowNotice - Warns staff in a booking modal that the guest is under the
+ * repeat no-show policy
+ */
+export function NoShowNotice({ standing, policy, service, className }: NoShowNoticeProps) {
+    if (!standing.restricted || !standing.restrictedUntil) return null;
+
+    // restrictedUntil is the first day the guest can book again
+    const lastDay = formatDateForDisplay(addDays(standing.restrictedUntil, -1), { month: 'short', day: 'numeric' });
+
+    return (
+        <div
+            role="alert"
+            className={cn('mb-6 p-4 rounded-2xl bg-rose-50 border-2 border-rose-100 flex items-start gap-3', className)}
+        >
+            <div className="p-2 rounded-xl bg-white text-rose-500 shadow-sm shrink-0">
+                <UserX size={20} />
+            </div>
+            <div className="space-y-1">
+                <h3 className="text-sm font-black text-rose-800">Waitlist only through {lastDay}</h3>
+                <p className="text-xs text-rose-700 font-medium leading-relaxed">
+                    {standing.count} shower no-show{standing.count === 1 ? '' : 's'} in the last {policy.windowDays} days
+                    ({describeNoShowPolicy(policy)}).
+                    {service === 'shower'
+                        ? ' Add them to the waitlist instead of booking a slot.'
+                        : ' Check with a coordinator before booking laundry.'}
+                </p>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { Lock } from 'lucide-react';
+import { PERMISSION_LABELS, type Permission } from '@/lib/auth/permissions';
+import { cn } from '@/lib/utils/cn';
+
+interface PermissionNoticeProps {
+    permission: Permission;
+    className?: string;
+}
+
+/**
+ * PermissionNotice - Inline explanation shown in place of an action
+ * the current role is not allowed to perform
+ */
+export function PermissionNotice({ permission, className }: PermissionNoticeProps) {
+    return (
+        <div
+            role="note"
+            className={cn(
+                'flex items-start gap-3 p-4 rounded-xl border border-gray-200 bg-gray-50 text-gray-600',
+                className
+            )}
+        >
+            <Lock size={18} className="mt-0.5 shrink-0 text-gray-400" />
+            <p className="text-sm font-medium">
+                Your role can&apos;t {PERMISSION_LABELS[permission]}. Ask an admin if you need access.
+            </p>
+        </div>
+    );
+}
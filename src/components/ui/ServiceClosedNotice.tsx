@@ -0,0 +1,37 @@
+'use client';
+
+import { CalendarOff } from 'lucide-react';
+import { SCHEDULED_SERVICES } from '@/lib/utils/serviceSchedule';
+import type { ServiceClosure } from '@/lib/utils/serviceClosures';
+import { cn } from '@/lib/utils/cn';
+
+interface ServiceClosedNoticeProps {
+    closure: ServiceClosure;
+    className?: string;
+}
+
+/**
+ * ServiceClosedNotice - Shown in place of booking options on a day
+ * the closures calendar marks as closed
+ */
+export function ServiceClosedNotice({ closure, className }: ServiceClosedNoticeProps) {
+    const serviceLabel = closure.service
+        ? SCHEDULED_SERVICES.find((s) => s.value === closure.service)?.label
+        : 'All services';
+
+    return (
+        <div
+            role="status"
+            className={cn(
+                'p-8 rounded-2xl bg-rose-50 border-2 border-rose-100 flex flex-col items-center text-center space-y-3',
+                className
+            )}
+        >
+            <div className="p-4 rounded-full bg-white shadow-sm text-rose-500">
+                <CalendarOff size={40} />
+            </div>
+            <h3 className="text-xl font-black text-gray-900">{serviceLabel} closed today</h3>
+            <p className="text-sm text-rose-700 font-medium">{closure.reason}</p>
+        </div>
+    );
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vite
 import { renderHook, act, render } from '@testing-library/react';
 import { useRealtimeSync, RealtimeSyncProvider } from '../useRealtimeSync';
 import React from 'react';
+import toast from 'react-hot-toast';
 
 // Mock the realtime module
 const mockSubscribeToTable: Mock = vi.fn(() => vi.fn());
@@ -28,6 +29,7 @@ const mockDailyNotesLoadFromSupabase = vi.fn();
 const mockDailyNotesSetState = vi.fn();
 const mockDonationsLoadFromSupabase = vi.fn();
 const mockDonationsSetState = vi.fn();
+const mockReceivePromotion = vi.fn();
 
 vi.mock('@/stores/useServicesStore', () => ({
     useServicesStore: Object.assign(function useServicesStore(selector: any) {
@@ -65,7 +67,10 @@ vi.mock('@/stores/useGuestsStore', () => ({
             loadGuestWarningsFromSupabase: mockGuestsLoadWarnings,
             loadGuestProxiesFromSupabase: mockGuestsLoadProxies,
         };
-    }, { setState: (...args: any[]) => mockGuestsSetState(...args) }),
+    }, {
+        setState: (...args: any[]) => mockGuestsSetState(...args),
+        getState: () => ({ guests: [{ id: 'g-1', name: 'John Doe', preferredName: 'Johnny' }] }),
+    }),
 }));
 
 vi.mock('@/stores/useRemindersStore', () => ({
@@ -112,6 +117,12 @@ vi.mock('@/stores/useDonationsStore', () => ({
     }, { setState: (...args: any[]) => mockDonationsSetState(...args) }),
 }));
 
+vi.mock('@/stores/useWaitlistPromotionsStore', () => ({
+    useWaitlistPromotionsStore: {
+        getState: () => ({ receivePromotion: mockReceivePromotion }),
+    },
+}));
+
 describe('useRealtimeSync', () => {
     beforeEach(() => {
         vi.clearAllMocks();
@@ -159,13 +170,16 @@ describe('useRealtimeSync', () => {
         expect(mockSubscribeToTable).toHaveBeenCalledWith(
             expect.objectContaining({ table: 'donations' })
         );
+        expect(mockSubscribeToTable).toHaveBeenCalledWith(
+            expect.objectContaining({ table: 'waitlist_promotions', event: 'INSERT' })
+        );
     });
 
-    it('subscribes to 11 tables', () => {
+    it('subscribes to 12 tables', () => {
         renderHook(() => useRealtimeSync());
         
-        // 11 tables: showers, laundry, meals, bicycles, guests, warnings, proxies, reminders, blocked_slots, daily_notes, donations
-        expect(mockSubscribeToTable).toHaveBeenCalledTimes(11);
+        // 12 tables: showers, laundry, meals, bicycles, guests, warnings, proxies, reminders, blocked_slots, daily_notes, donations, waitlist_promotions
+        expect(mockSubscribeToTable).toHaveBeenCalledTimes(12);
     });
 
     it('cleans up subscriptions on unmount', () => {
@@ -290,6 +304,38 @@ describe('useRealtimeSync', () => {
         expect(mockGuestsSetState).toHaveBeenCalled();
         expect(mockGuestsLoadProxies).not.toHaveBeenCalled();
     });
+
+    it('announces each new waitlist promotion once', () => {
+        let capturedOnInsert: ((payload: any) => void) | undefined;
+        mockSubscribeToTable.mockImplementation((options: { table: string; onInsert?: (payload: any) => void }) => {
+            if (options.table === 'waitlist_promotions') {
+                capturedOnInsert = options.onInsert;
+            }
+            return vi.fn();
+        });
+
+        renderHook(() => useRealtimeSync());
+
+        const row = {
+            id: 'wp-1',
+            service_type: 'shower',
+            record_id: 's-2',
+            guest_id: 'g-1',
+            freed_record_id: 's-1',
+            freed_status: 'no_show',
+            scheduled_for: '2026-10-19',
+            slot_label: '09:00',
+            promoted_at: '2026-10-19T16:00:00Z',
+        };
+
+        mockReceivePromotion.mockReturnValueOnce(true).mockReturnValueOnce(false);
+        capturedOnInsert?.({ eventType: 'INSERT', new: row });
+        capturedOnInsert?.({ eventType: 'INSERT', new: row });
+
+        expect(mockReceivePromotion).toHaveBeenCalledWith(expect.objectContaining({ id: 'wp-1', slotLabel: '09:00' }));
+        expect(toast.success).toHaveBeenCalledTimes(1);
+        expect(toast.success).toHaveBeenCalledWith('Johnny moved off the waitlist to 9:00 AM', expect.objectContaining({ icon: '🎉' }));
+    });
 });
 
 describe('RealtimeSyncProvider', () => {
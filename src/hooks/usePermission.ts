@@ -0,0 +1,13 @@
+'use client';
+
+import { useSession } from 'next-auth/react';
+import { hasPermission, type Permission } from '@/lib/auth/permissions';
+
+/**
+ * Whether the signed-in user's role grants a permission.
+ * UI-side check only; Supabase RLS enforces the same matrix on writes.
+ */
+export function usePermission(permission: Permission): boolean {
+    const { data: session } = useSession();
+    return hasPermission(session?.user?.role, permission);
+}
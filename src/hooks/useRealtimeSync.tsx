@@ -1,6 +1,7 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
+import toast from 'react-hot-toast';
 import { subscribeToTable } from '@/lib/supabase/realtime';
 import {
     mapShowerRow,
@@ -13,7 +14,9 @@ import {
     mapGuestReminderRow,
     mapDailyNoteRow,
     mapDonationRow,
+    mapWaitlistPromotionRow,
 } from '@/lib/utils/mappers';
+import { promotionMessage, type WaitlistPromotion } from '@/lib/utils/waitlistPromotions';
 import { useServicesStore } from '@/stores/useServicesStore';
 import { useMealsStore } from '@/stores/useMealsStore';
 import { useGuestsStore } from '@/stores/useGuestsStore';
@@ -21,6 +24,7 @@ import { useRemindersStore } from '@/stores/useRemindersStore';
 import { useBlockedSlotsStore } from '@/stores/useBlockedSlotsStore';
 import { useDailyNotesStore } from '@/stores/useDailyNotesStore';
 import { useDonationsStore } from '@/stores/useDonationsStore';
+import { useWaitlistPromotionsStore } from '@/stores/useWaitlistPromotionsStore';
 
 /**
  * Hook to set up realtime subscriptions for all critical tables.
@@ -391,6 +395,26 @@ export function useRealtimeSync() {
             }),
         });
 
+        // Subscribe to waitlist promotions (a cancelled or no-show slot went to the next guest).
+        // Not debounced: every promotion gets its own toast.
+        const unsubPromotions = subscribeToTable({
+            table: 'waitlist_promotions',
+            event: 'INSERT',
+            onInsert: (payload) => {
+                try {
+                    const row = payload.new as any;
+                    if (!row?.id) throw new Error('missing waitlist promotion row payload');
+                    const promotion = mapWaitlistPromotionRow(row) as WaitlistPromotion;
+                    if (!useWaitlistPromotionsStore.getState().receivePromotion(promotion)) return;
+                    const guest = useGuestsStore.getState().guests.find((g: any) => g.id === promotion.guestId);
+                    const name = guest?.preferredName || guest?.name || 'A waitlisted guest';
+                    toast.success(promotionMessage(name, promotion), { icon: '🎉', duration: 6000 });
+                } catch (error) {
+                    console.error('[RealtimeSync] Waitlist promotion patch failed:', error);
+                }
+            },
+        });
+
         // Store unsubscribe functions
         subscriptionsRef.current = [
             unsubShowers,
@@ -404,6 +428,7 @@ export function useRealtimeSync() {
             unsubBlockedSlots,
             unsubDailyNotes,
             unsubDonations,
+            unsubPromotions,
         ];
 
         // Cleanup on unmount
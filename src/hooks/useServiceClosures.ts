@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useServiceClosuresStore } from '@/stores/useServiceClosuresStore';
+import type { ServiceClosure } from '@/lib/utils/serviceClosures';
+
+/**
+ * Holiday and one-off closures, loading them on first use.
+ */
+export function useServiceClosures(): ServiceClosure[] {
+    const closures = useServiceClosuresStore((s) => s.closures);
+    const ensureLoaded = useServiceClosuresStore((s) => s.ensureLoaded);
+
+    useEffect(() => {
+        ensureLoaded();
+    }, [ensureLoaded]);
+
+    return closures;
+}
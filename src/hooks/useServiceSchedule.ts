@@ -0,0 +1,22 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { useServiceScheduleStore } from '@/stores/useServiceScheduleStore';
+import { useSitesStore } from '@/stores/useSitesStore';
+import { resolveSiteSchedule, type ServiceScheduleEntry } from '@/lib/utils/serviceSchedule';
+
+/**
+ * Service schedule for the current site, loading it on first use.
+ * Components pass the result to the slot helpers so they re-render when hours change.
+ */
+export function useServiceSchedule(): ServiceScheduleEntry[] {
+    const entries = useServiceScheduleStore((s) => s.entries);
+    const ensureLoaded = useServiceScheduleStore((s) => s.ensureLoaded);
+    const currentSiteId = useSitesStore((s) => s.currentSiteId);
+
+    useEffect(() => {
+        ensureLoaded();
+    }, [ensureLoaded]);
+
+    return useMemo(() => resolveSiteSchedule(entries, currentSiteId), [entries, currentSiteId]);
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useSitesStore } from '@/stores/useSitesStore';
+import { filterBySite, getDefaultSite, type SiteScoped } from '@/lib/utils/sites';
+
+// Site to filter by, or null when there's nothing to separate
+const useSiteFilter = (pick: (siteId: string | null, reportSiteId: string | null) => string | null) => {
+    const { sites, currentSiteId, reportSiteId, ensureLoaded } = useSitesStore(
+        useShallow((s) => ({
+            sites: s.sites,
+            currentSiteId: s.currentSiteId,
+            reportSiteId: s.reportSiteId,
+            ensureLoaded: s.ensureLoaded,
+        }))
+    );
+
+    useEffect(() => {
+        ensureLoaded();
+    }, [ensureLoaded]);
+
+    if (sites.length < 2) return { siteId: null, defaultSiteId: null };
+    return { siteId: pick(currentSiteId, reportSiteId), defaultSiteId: getDefaultSite(sites)?.id ?? null };
+};
+
+/**
+ * Service records from the site this device is working at, for the
+ * day-of-service screens (queues, slots, timelines).
+ */
+export function useCurrentSiteRecords<T extends SiteScoped>(records: T[]): T[] {
+    const { siteId, defaultSiteId } = useSiteFilter((current) => current);
+    return filterBySite(records, siteId, defaultSiteId);
+}
+
+/**
+ * Filter for the site picked in the dashboard report filter, for reports that
+ * read records straight from store state. Passes records through when reports
+ * are rolled up across sites.
+ */
+export function useReportSiteFilter() {
+    const { siteId, defaultSiteId } = useSiteFilter((_, report) => report);
+    return useCallback(
+        <T extends SiteScoped>(records: T[]) => filterBySite(records, siteId, defaultSiteId),
+        [siteId, defaultSiteId]
+    );
+}
+
+/**
+ * Store state with every `...Records` array narrowed to the report site.
+ */
+export function useReportSiteRecords<S extends object>(state: S): S {
+    const bySite = useReportSiteFilter();
+    const filtered = { ...state } as Record<string, unknown>;
+    let changed = false;
+    Object.entries(state).forEach(([key, value]) => {
+        if (!key.endsWith('Records') || !Array.isArray(value)) return;
+        filtered[key] = bySite(value as SiteScoped[]);
+        changed = changed || filtered[key] !== value;
+    });
+    return changed ? (filtered as S) : state;
+}
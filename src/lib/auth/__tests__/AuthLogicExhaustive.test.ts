@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { inferRole, canAccessRoute, getDefaultRoute, getRoleLabel, UserRole } from '../types';
+import { inferRole, canAccessRoute, getDefaultRoute, getRoleLabel, isUserRole, resolveRole, UserRole } from '../types';
 
 describe('Auth Logic Exhaustive Tests', () => {
     describe('inferRole', () => {
@@ -33,6 +33,29 @@ describe('Auth Logic Exhaustive Tests', () => {
         });
     });
 
+    describe('isUserRole', () => {
+        it.each(['admin', 'staff', 'board', 'checkin'])('accepts %s', (value) => {
+            expect(isUserRole(value)).toBe(true);
+        });
+
+        it.each(['guest', 'ADMIN', '', null, undefined, 3])('rejects %s', (value) => {
+            expect(isUserRole(value)).toBe(false);
+        });
+    });
+
+    describe('resolveRole', () => {
+        it('prefers the profile role over the email prefix', () => {
+            expect(resolveRole('checkin', 'admin@hopes-corner.org')).toBe('checkin');
+            expect(resolveRole('admin', 'volunteer@hopes-corner.org')).toBe('admin');
+        });
+
+        it('falls back to the email prefix when the profile role is missing or invalid', () => {
+            expect(resolveRole(null, 'board@hopes-corner.org')).toBe('board');
+            expect(resolveRole(undefined, 'checkin@hopes-corner.org')).toBe('checkin');
+            expect(resolveRole('superuser', 'someone@hopes-corner.org')).toBe('staff');
+        });
+    });
+
     describe('canAccessRoute', () => {
         const routes = [
             { role: 'admin' as UserRole, route: '/check-in', expected: true },
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { ALL_PERMISSIONS, PERMISSION_LABELS, ROLE_PERMISSIONS, hasPermission } from '../permissions';
+import { USER_ROLES } from '../types';
+
+describe('permissions', () => {
+    it('grants admins every permission', () => {
+        ALL_PERMISSIONS.forEach((permission) => {
+            expect(hasPermission('admin', permission)).toBe(true);
+        });
+    });
+
+    it('lets staff run day-to-day admin actions but not delete guests or manage users', () => {
+        expect(hasPermission('staff', 'guests.ban')).toBe(true);
+        expect(hasPermission('staff', 'donations.edit')).toBe(true);
+        expect(hasPermission('staff', 'slots.block')).toBe(true);
+        expect(hasPermission('staff', 'reports.export')).toBe(true);
+        expect(hasPermission('staff', 'guests.delete')).toBe(false);
+        expect(hasPermission('staff', 'users.manage')).toBe(false);
+    });
+
+    it('limits board members to exporting reports', () => {
+        expect(hasPermission('board', 'reports.export')).toBe(true);
+        expect(hasPermission('board', 'guests.ban')).toBe(false);
+    });
+
+    it('gives check-in volunteers no elevated permissions', () => {
+        ALL_PERMISSIONS.forEach((permission) => {
+            expect(hasPermission('checkin', permission)).toBe(false);
+        });
+    });
+
+    it.each([null, undefined, '', 'superuser'])('denies everything for role %s', (role) => {
+        expect(hasPermission(role, 'reports.export')).toBe(false);
+    });
+
+    it('has a label for every permission', () => {
+        ALL_PERMISSIONS.forEach((permission) => {
+            expect(PERMISSION_LABELS[permission]).toBeTruthy();
+        });
+    });
+
+    it('matches the role_permissions seed in database/schema.sql', () => {
+        const schema = readFileSync(resolve(process.cwd(), 'database/schema.sql'), 'utf8');
+        const seed = schema.match(/insert into public\.role_permissions \(role, permission\) values([\s\S]*?)on conflict/);
+        expect(seed).not.toBeNull();
+
+        const seeded = Array.from(seed![1].matchAll(/\('(\w+)', '([\w.]+)'\)/g), (m) => `${m[1]}:${m[2]}`).sort();
+        const expected = USER_ROLES.flatMap((role) => ROLE_PERMISSIONS[role].map((p) => `${role}:${p}`)).sort();
+        expect(seeded).toEqual(expected);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchProfileRole, resolveUserRole, listManagedUsers, updateProfileRole } from '../profiles';
+
+const buildProfileLookup = (result: { data: unknown; error: unknown }) => {
+    const maybeSingle = vi.fn().mockResolvedValue(result);
+    const eq = vi.fn(() => ({ maybeSingle }));
+    const select = vi.fn(() => ({ eq }));
+    return { from: vi.fn(() => ({ select })), eq };
+};
+
+describe('auth profiles helpers', () => {
+    describe('fetchProfileRole', () => {
+        it('returns the stored role', async () => {
+            const supabase = buildProfileLookup({ data: { role: 'board' }, error: null });
+            await expect(fetchProfileRole(supabase as any, 'user-1')).resolves.toBe('board');
+            expect(supabase.from).toHaveBeenCalledWith('profiles');
+            expect(supabase.eq).toHaveBeenCalledWith('id', 'user-1');
+        });
+
+        it('returns null when no profile exists', async () => {
+            const supabase = buildProfileLookup({ data: null, error: null });
+            await expect(fetchProfileRole(supabase as any, 'user-1')).resolves.toBeNull();
+        });
+
+        it('returns null for unknown role values', async () => {
+            const supabase = buildProfileLookup({ data: { role: 'owner' }, error: null });
+            await expect(fetchProfileRole(supabase as any, 'user-1')).resolves.toBeNull();
+        });
+
+        it('throws when the lookup fails rather than reporting no profile', async () => {
+            const supabase = buildProfileLookup({ data: null, error: { message: 'boom' } });
+            await expect(fetchProfileRole(supabase as any, 'user-1')).rejects.toMatchObject({ message: 'boom' });
+        });
+    });
+
+    describe('resolveUserRole', () => {
+        it('uses the profile role when present', async () => {
+            const supabase = buildProfileLookup({ data: { role: 'checkin' }, error: null });
+            await expect(resolveUserRole(supabase as any, 'u', 'admin@example.com')).resolves.toBe('checkin');
+        });
+
+        it('falls back to the email prefix', async () => {
+            const supabase = buildProfileLookup({ data: null, error: null });
+            await expect(resolveUserRole(supabase as any, 'u', 'admin@example.com')).resolves.toBe('admin');
+        });
+
+        it('does not fall back to the email prefix when the profile lookup fails', async () => {
+            const supabase = buildProfileLookup({ data: null, error: { message: 'timeout' } });
+            await expect(resolveUserRole(supabase as any, 'u', 'admin@example.com')).rejects.toMatchObject({ message: 'timeout' });
+        });
+    });
+
+    describe('listManagedUsers', () => {
+        it('merges auth users with profile roles', async () => {
+            const supabase = {
+                auth: {
+                    admin: {
+                        listUsers: vi.fn().mockResolvedValue({
+                            data: {
+                                users: [
+                                    { id: 'b', email: 'staff.b@example.com', last_sign_in_at: '2026-01-02T00:00:00Z', created_at: '2025-01-01T00:00:00Z' },
+                                    { id: 'a', email: 'admin@example.com', last_sign_in_at: null, created_at: '2025-01-01T00:00:00Z' },
+                                ],
+                            },
+                            error: null,
+                        }),
+                    },
+                },
+                from: vi.fn(() => ({
+                    select: vi.fn().mockResolvedValue({
+                        data: [{ id: 'b', role: 'checkin', full_name: 'Bea' }],
+                        error: null,
+                    }),
+                })),
+            };
+
+            const users = await listManagedUsers(supabase as any);
+
+            expect(users.map((u) => u.id)).toEqual(['a', 'b']);
+            expect(users[0]).toMatchObject({ role: 'admin', roleSource: 'email', name: 'admin' });
+            expect(users[1]).toMatchObject({ role: 'checkin', roleSource: 'profile', name: 'Bea' });
+        });
+
+        it('throws when auth users cannot be listed', async () => {
+            const supabase = {
+                auth: { admin: { listUsers: vi.fn().mockResolvedValue({ data: null, error: new Error('denied') }) } },
+                from: vi.fn(() => ({ select: vi.fn().mockResolvedValue({ data: [], error: null }) })),
+            };
+            await expect(listManagedUsers(supabase as any)).rejects.toThrow('denied');
+        });
+    });
+
+    describe('updateProfileRole', () => {
+        it('upserts the role on the profile row', async () => {
+            const upsert = vi.fn().mockResolvedValue({ error: null });
+            const supabase = { from: vi.fn(() => ({ upsert })) };
+
+            await updateProfileRole(supabase as any, 'user-1', 'staff', 'x@example.com');
+
+            expect(upsert).toHaveBeenCalledWith(
+                { id: 'user-1', role: 'staff', email: 'x@example.com' },
+                { onConflict: 'id' }
+            );
+        });
+
+        it('throws on database error', async () => {
+            const supabase = { from: vi.fn(() => ({ upsert: vi.fn().mockResolvedValue({ error: new Error('nope') }) })) };
+            await expect(updateProfileRole(supabase as any, 'user-1', 'staff')).rejects.toThrow('nope');
+        });
+    });
+});
@@ -1,7 +1,7 @@
 import NextAuth from 'next-auth';
 import Credentials from 'next-auth/providers/credentials';
-import { createClient } from '@supabase/supabase-js';
-import { inferRole } from './types';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { resolveUserRole } from './profiles';
 
 // Extend the built-in session types
 declare module 'next-auth' {
@@ -11,6 +11,7 @@ declare module 'next-auth' {
             email: string;
             name: string;
             role: string;
+            accessToken?: string;
         };
     }
 
@@ -19,6 +20,9 @@ declare module 'next-auth' {
         email: string;
         name: string;
         role: string;
+        supabaseAccessToken?: string;
+        supabaseRefreshToken?: string;
+        supabaseExpiresAt?: number;
     }
 }
 
@@ -26,8 +30,19 @@ declare module 'next-auth' {
 interface ExtendedJWT {
     id?: string;
     role?: string;
+    roleCheckedAt?: number;
+    supabaseAccessToken?: string;
+    supabaseRefreshToken?: string;
+    supabaseExpiresAt?: number;
 }
 
+// How often an existing session re-reads its role from profiles
+export const ROLE_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Refresh the Supabase access token this long before it expires. Larger than the
+// client session refetch interval so open tabs never hold an expired token.
+const SUPABASE_TOKEN_REFRESH_MARGIN_MS = 10 * 60 * 1000;
+
 export const { handlers, signIn, signOut, auth } = NextAuth({
     secret: process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET,
     providers: [
@@ -44,15 +59,7 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
 
                 try {
                     // Create Supabase admin client
-                    const supabase = createClient(
-                        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-                        process.env.SUPABASE_SECRET_KEY!,
-                        {
-                            auth: {
-                                persistSession: false,
-                            },
-                        }
-                    );
+                    const supabase = createAdminClient();
 
                     // Authenticate with Supabase Auth
                     const { data, error } = await supabase.auth.signInWithPassword({
@@ -66,13 +73,18 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
                     }
 
                     const email = data.user.email || '';
-                    const role = inferRole(email);
+                    // A failed profile lookup throws, so sign-in fails rather than guessing a role
+                    const role = await resolveUserRole(supabase, data.user.id, email);
 
                     return {
                         id: data.user.id,
                         email: email,
                         name: email.split('@')[0] || 'User',
                         role: role,
+                        // Forwarded to the browser client so RLS can check role permissions
+                        supabaseAccessToken: data.session?.access_token,
+                        supabaseRefreshToken: data.session?.refresh_token,
+                        supabaseExpiresAt: data.session?.expires_at,
                     };
                 } catch (error) {
                     console.error('Auth error:', error);
@@ -82,17 +94,51 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
         }),
     ],
     callbacks: {
-        async jwt({ token, user }) {
+        async jwt({ token, user, trigger }) {
+            const extended = token as typeof token & ExtendedJWT;
             if (user) {
-                token.id = user.id;
-                token.role = user.role;
+                extended.id = user.id;
+                extended.role = user.role;
+                extended.roleCheckedAt = Date.now();
+                extended.supabaseAccessToken = user.supabaseAccessToken;
+                extended.supabaseRefreshToken = user.supabaseRefreshToken;
+                extended.supabaseExpiresAt = user.supabaseExpiresAt;
+                return extended;
+            }
+
+            const expiresAtMs = (extended.supabaseExpiresAt || 0) * 1000;
+            if (extended.supabaseRefreshToken && expiresAtMs - Date.now() < SUPABASE_TOKEN_REFRESH_MARGIN_MS) {
+                try {
+                    const { data, error } = await createAdminClient().auth.refreshSession({
+                        refresh_token: extended.supabaseRefreshToken,
+                    });
+                    if (error || !data.session) throw error || new Error('No session returned');
+                    extended.supabaseAccessToken = data.session.access_token;
+                    extended.supabaseRefreshToken = data.session.refresh_token;
+                    extended.supabaseExpiresAt = data.session.expires_at;
+                } catch (error) {
+                    console.error('Supabase token refresh error:', error);
+                }
+            }
+
+            // Pick up role changes made by an admin without forcing a new sign-in
+            const isStale = Date.now() - (extended.roleCheckedAt || 0) > ROLE_REFRESH_INTERVAL_MS;
+            if (extended.id && (trigger === 'update' || isStale)) {
+                try {
+                    extended.role = await resolveUserRole(createAdminClient(), extended.id, extended.email);
+                } catch (error) {
+                    // Keep the role the token already has until a later refresh succeeds
+                    console.error('Role refresh error:', error);
+                }
+                extended.roleCheckedAt = Date.now();
             }
-            return token;
+            return extended;
         },
         async session({ session, token }) {
             if (token && session.user) {
                 session.user.id = token.id as string;
                 session.user.role = token.role as string;
+                session.user.accessToken = (token as ExtendedJWT).supabaseAccessToken;
             }
             return session;
         },
@@ -0,0 +1,56 @@
+import type { UserRole } from './types';
+
+// Fine-grained actions gated independently of route access.
+// Keep in sync with the role_permissions seed in database/schema.sql.
+export type Permission =
+    | 'guests.ban'
+    | 'guests.delete'
+    | 'donations.edit'
+    | 'slots.block'
+    | 'reports.export'
+    | 'users.manage'
+    | 'audit.view'
+    | 'settings.manage'
+    | 'inventory.manage'
+    | 'guests.photos';
+
+export const ALL_PERMISSIONS: readonly Permission[] = [
+    'guests.ban',
+    'guests.delete',
+    'donations.edit',
+    'slots.block',
+    'reports.export',
+    'users.manage',
+    'audit.view',
+    'settings.manage',
+    'inventory.manage',
+    'guests.photos',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+    admin: ALL_PERMISSIONS,
+    staff: ['guests.ban', 'donations.edit', 'slots.block', 'reports.export', 'settings.manage', 'inventory.manage', 'guests.photos'],
+    board: ['reports.export'],
+    checkin: [],
+};
+
+// Human-readable labels for permission-denied messages
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    'guests.ban': 'ban or unban guests',
+    'guests.delete': 'delete guests',
+    'donations.edit': 'edit donations',
+    'slots.block': 'block service slots or close days',
+    'reports.export': 'export reports',
+    'users.manage': 'manage users',
+    'audit.view': 'view the audit log',
+    'settings.manage': 'change service settings',
+    'inventory.manage': 'restock or recount inventory',
+    'guests.photos': 'view or take guest photos',
+};
+
+// Check whether a role grants a permission; unknown roles get nothing
+export function hasPermission(role: UserRole | string | null | undefined, permission: Permission): boolean {
+    if (!role) return false;
+    const granted = ROLE_PERMISSIONS[role as UserRole];
+    return !!granted && granted.includes(permission);
+}
@@ -0,0 +1,95 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isUserRole, resolveRole, type UserRole } from './types';
+
+// Where a user's effective role came from
+export type RoleSource = 'profile' | 'email';
+
+export interface ManagedUser {
+    id: string;
+    email: string;
+    name: string;
+    role: UserRole;
+    roleSource: RoleSource;
+    lastSignInAt: string | null;
+    createdAt: string | null;
+}
+
+interface ProfileRow {
+    id: string;
+    role: string | null;
+    full_name: string | null;
+}
+
+// Read the stored role for a user; null when no profile row (or no valid role) exists.
+// A failed lookup throws, so callers never mistake an outage for "no profile".
+export async function fetchProfileRole(supabase: SupabaseClient, userId: string): Promise<UserRole | null> {
+    const { data, error } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', userId)
+        .maybeSingle();
+
+    if (error) throw error;
+
+    return isUserRole(data?.role) ? data.role : null;
+}
+
+// Effective role: profiles.role when set, otherwise the email-prefix rule.
+// Throws when the profile lookup fails; callers keep the role they already have.
+export async function resolveUserRole(
+    supabase: SupabaseClient,
+    userId: string,
+    email: string | null | undefined
+): Promise<UserRole> {
+    const profileRole = await fetchProfileRole(supabase, userId);
+    return resolveRole(profileRole, email);
+}
+
+// List every auth user together with their effective role (admin screen)
+export async function listManagedUsers(supabase: SupabaseClient): Promise<ManagedUser[]> {
+    const [{ data: usersData, error: usersError }, { data: profiles, error: profilesError }] = await Promise.all([
+        supabase.auth.admin.listUsers({ perPage: 1000 }),
+        supabase.from('profiles').select('id, role, full_name'),
+    ]);
+
+    if (usersError) throw usersError;
+    if (profilesError) throw profilesError;
+
+    const profileById = new Map<string, ProfileRow>(
+        ((profiles || []) as ProfileRow[]).map((p) => [p.id, p])
+    );
+
+    return (usersData?.users || [])
+        .map((user) => {
+            const email = user.email || '';
+            const profile = profileById.get(user.id);
+            const hasProfileRole = isUserRole(profile?.role);
+            return {
+                id: user.id,
+                email,
+                name: profile?.full_name || email.split('@')[0] || 'User',
+                role: resolveRole(profile?.role, email),
+                roleSource: (hasProfileRole ? 'profile' : 'email') as RoleSource,
+                lastSignInAt: user.last_sign_in_at || null,
+                createdAt: user.created_at || null,
+            };
+        })
+        .sort((a, b) => a.email.localeCompare(b.email));
+}
+
+// Persist a role for a user, creating the profile row if it does not exist yet
+export async function updateProfileRole(
+    supabase: SupabaseClient,
+    userId: string,
+    role: UserRole,
+    email?: string
+): Promise<void> {
+    const payload: Record<string, unknown> = { id: userId, role };
+    if (email) payload.email = email;
+
+    const { error } = await supabase
+        .from('profiles')
+        .upsert(payload, { onConflict: 'id' });
+
+    if (error) throw error;
+}
@@ -1,6 +1,9 @@
 // User roles for the application
 export type UserRole = 'admin' | 'staff' | 'board' | 'checkin';
 
+// All assignable roles (mirrors the profiles.role check constraint)
+export const USER_ROLES: readonly UserRole[] = ['admin', 'staff', 'board', 'checkin'];
+
 // User type extending NextAuth user
 export interface AppUser {
     id: string;
@@ -16,10 +19,10 @@ export interface SessionUser extends AppUser {
 
 // Role-based access configuration
 export const ROLE_ACCESS = {
-    admin: ['check-in', 'services', 'dashboard'],
-    staff: ['check-in', 'services', 'dashboard'],
+    admin: ['check-in', 'services', 'dashboard', 'guests'],
+    staff: ['check-in', 'services', 'dashboard', 'guests'],
     board: ['dashboard'],
-    checkin: ['check-in'],
+    checkin: ['check-in', 'guests'],
 } as const;
 
 // Infer role from email prefix (matching current app behavior)
@@ -31,6 +34,16 @@ export function inferRole(email: string | null | undefined): UserRole {
     return 'staff';
 }
 
+// Type guard for role values read from the profiles table or a JWT
+export function isUserRole(value: unknown): value is UserRole {
+    return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+// Prefer the role stored in profiles; fall back to the email prefix rule
+export function resolveRole(profileRole: unknown, email: string | null | undefined): UserRole {
+    return isUserRole(profileRole) ? profileRole : inferRole(email);
+}
+
 // Check if a role can access a specific route
 export function canAccessRoute(role: UserRole, route: string): boolean {
     const allowedRoutes = ROLE_ACCESS[role];
@@ -28,7 +28,12 @@ vi.mock('next/server', () => ({
     },
 }));
 
-import { createClient as createBrowserClient } from '../client';
+import {
+    createClient as createBrowserClient,
+    getSupabaseAccessToken,
+    setSupabaseAccessToken,
+    subscribeToSupabaseAccessToken,
+} from '../client';
 import { createClient as createServerClient } from '../server';
 import { updateSession } from '../middleware';
 
@@ -38,6 +43,21 @@ describe('Supabase Lib', () => {
         expect(client).toEqual({ type: 'browser-client' });
     });
 
+    it('notifies subscribers only when the access token changes', () => {
+        const listener = vi.fn();
+        const unsubscribe = subscribeToSupabaseAccessToken(listener);
+
+        setSupabaseAccessToken('user-jwt');
+        setSupabaseAccessToken('user-jwt');
+        expect(getSupabaseAccessToken()).toBe('user-jwt');
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        unsubscribe();
+        setSupabaseAccessToken(null);
+        expect(getSupabaseAccessToken()).toBeNull();
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
     it('creates a server client correctly', async () => {
         const client = await createServerClient();
         expect(client).toEqual({ type: 'server-client', auth: expect.any(Object) });
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { storageCalls, signedUrlsResult } = vi.hoisted(() => ({
+    storageCalls: [] as [string, unknown[]][],
+    signedUrlsResult: { data: null as unknown, error: null as unknown },
+}));
+
+vi.mock('../client', () => ({
+    createClient: () => ({
+        storage: {
+            from: (bucket: string) => {
+                storageCalls.push(['from', [bucket]]);
+                return {
+                    upload: async (...args: unknown[]) => {
+                        storageCalls.push(['upload', args]);
+                        return { error: null };
+                    },
+                    createSignedUrls: async (...args: unknown[]) => {
+                        storageCalls.push(['createSignedUrls', args]);
+                        return signedUrlsResult;
+                    },
+                    remove: async (...args: unknown[]) => {
+                        storageCalls.push(['remove', args]);
+                        return { error: null };
+                    },
+                };
+            },
+        },
+    }),
+}));
+
+import {
+    createLocalGuestPhotoStorage,
+    guestPhotoPath,
+    GUEST_PHOTO_BUCKET,
+    GUEST_PHOTO_URL_TTL_SECONDS,
+    supabaseGuestPhotoStorage,
+} from '../guestPhotos';
+
+describe('guestPhotos', () => {
+    beforeEach(() => {
+        storageCalls.length = 0;
+        signedUrlsResult.data = null;
+        signedUrlsResult.error = null;
+    });
+
+    it('keeps each guest\'s photos in their own folder', () => {
+        expect(guestPhotoPath('g1')).toMatch(/^g1\/\d+\.jpg$/);
+    });
+
+    it('uploads to the private bucket', async () => {
+        const photo = new Blob(['x'], { type: 'image/jpeg' });
+        await supabaseGuestPhotoStorage.upload('g1/1.jpg', photo);
+        expect(storageCalls).toEqual([
+            ['from', [GUEST_PHOTO_BUCKET]],
+            ['upload', ['g1/1.jpg', photo, { contentType: 'image/jpeg', upsert: true }]],
+        ]);
+    });
+
+    it('returns signed URLs keyed by path and skips unreadable ones', async () => {
+        signedUrlsResult.data = [
+            { path: 'g1/1.jpg', signedUrl: 'https://signed/1' },
+            { path: 'g2/2.jpg', signedUrl: null, error: 'Object not found' },
+        ];
+        const urls = await supabaseGuestPhotoStorage.getUrls(['g1/1.jpg', 'g2/2.jpg']);
+        expect(urls).toEqual({ 'g1/1.jpg': 'https://signed/1' });
+        expect(storageCalls[1]).toEqual(['createSignedUrls', [['g1/1.jpg', 'g2/2.jpg'], GUEST_PHOTO_URL_TTL_SECONDS]]);
+    });
+
+    it('throws when Storage refuses to sign', async () => {
+        signedUrlsResult.error = new Error('permission denied');
+        await expect(supabaseGuestPhotoStorage.getUrls(['g1/1.jpg'])).rejects.toThrow('permission denied');
+    });
+
+    it('local stand-in stores, serves and removes photos', async () => {
+        const storage = createLocalGuestPhotoStorage();
+        await storage.upload('g1/1.jpg', new Blob(['x'], { type: 'image/jpeg' }));
+
+        const urls = await storage.getUrls(['g1/1.jpg', 'missing.jpg']);
+        expect(Object.keys(urls)).toEqual(['g1/1.jpg']);
+        expect(urls['g1/1.jpg']).toMatch(/^data:image\/jpeg/);
+
+        await storage.remove(['g1/1.jpg']);
+        expect(await storage.getUrls(['g1/1.jpg'])).toEqual({});
+    });
+});
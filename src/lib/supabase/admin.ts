@@ -0,0 +1,15 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Service-role client for trusted server code (auth callbacks, admin API routes).
+// Never import this from client components: it bypasses RLS.
+export function createAdminClient() {
+    return createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SECRET_KEY!,
+        {
+            auth: {
+                persistSession: false,
+            },
+        }
+    );
+}
@@ -6,6 +6,28 @@ type PerfWindow = Window & {
     __hcSupabaseFetchesPerMinute?: number;
 };
 
+// Signed-in user's Supabase access token (from the NextAuth session). When set, it
+// replaces the publishable key as the bearer so RLS policies see the user's role.
+let userAccessToken: string | null = null;
+const accessTokenListeners = new Set<() => void>();
+
+export function setSupabaseAccessToken(token: string | null | undefined) {
+    const next = token || null;
+    if (next === userAccessToken) return;
+    userAccessToken = next;
+    accessTokenListeners.forEach((listener) => listener());
+}
+
+// For useSyncExternalStore: lets the app wait until requests carry the user's token
+export const getSupabaseAccessToken = () => userAccessToken;
+
+export function subscribeToSupabaseAccessToken(listener: () => void) {
+    accessTokenListeners.add(listener);
+    return () => {
+        accessTokenListeners.delete(listener);
+    };
+}
+
 const instrumentedFetch: typeof fetch = async (input, init) => {
     if (process.env.NODE_ENV !== 'production' && typeof window !== 'undefined') {
         const perfWindow = window as PerfWindow;
@@ -17,6 +39,11 @@ const instrumentedFetch: typeof fetch = async (input, init) => {
         const elapsedMs = Math.max(now - windowStart, 1);
         perfWindow.__hcSupabaseFetchesPerMinute = Math.round((nextCount * 60000) / elapsedMs);
     }
+    if (userAccessToken) {
+        const headers = new Headers(init?.headers);
+        headers.set('Authorization', `Bearer ${userAccessToken}`);
+        return fetch(input, { ...init, headers });
+    }
     return fetch(input, init);
 };
 
@@ -0,0 +1,82 @@
+import { createClient } from './client';
+
+// Private bucket; RLS on storage.objects requires guests.photos
+export const GUEST_PHOTO_BUCKET = 'guest-photos';
+
+// Signed URLs are short-lived so a photo can't be shared onward for long
+export const GUEST_PHOTO_URL_TTL_SECONDS = 60 * 60;
+
+export interface GuestPhotoStorage {
+    upload: (path: string, photo: Blob) => Promise<void>;
+    // Viewable URLs keyed by path; paths that can't be read are left out
+    getUrls: (paths: string[]) => Promise<Record<string, string>>;
+    remove: (paths: string[]) => Promise<void>;
+}
+
+export const guestPhotoPath = (guestId: string) => `${guestId}/${Date.now()}.jpg`;
+
+export const supabaseGuestPhotoStorage: GuestPhotoStorage = {
+    upload: async (path, photo) => {
+        const { error } = await createClient()
+            .storage.from(GUEST_PHOTO_BUCKET)
+            .upload(path, photo, { contentType: photo.type || 'image/jpeg', upsert: true });
+        if (error) throw error;
+    },
+
+    getUrls: async (paths) => {
+        const { data, error } = await createClient()
+            .storage.from(GUEST_PHOTO_BUCKET)
+            .createSignedUrls(paths, GUEST_PHOTO_URL_TTL_SECONDS);
+        if (error) throw error;
+
+        const urls: Record<string, string> = {};
+        (data || []).forEach((item) => {
+            if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+        });
+        return urls;
+    },
+
+    remove: async (paths) => {
+        const { error } = await createClient().storage.from(GUEST_PHOTO_BUCKET).remove(paths);
+        if (error) throw error;
+    },
+};
+
+export const readPhotoAsDataUrl = (photo: Blob) =>
+    new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(photo);
+    });
+
+// In-memory stand-in for tests and local development without Supabase Storage
+export function createLocalGuestPhotoStorage(): GuestPhotoStorage {
+    const photos = new Map<string, string>();
+    return {
+        upload: async (path, photo) => {
+            photos.set(path, await readPhotoAsDataUrl(photo));
+        },
+        getUrls: async (paths) => {
+            const urls: Record<string, string> = {};
+            paths.forEach((path) => {
+                const url = photos.get(path);
+                if (url) urls[path] = url;
+            });
+            return urls;
+        },
+        remove: async (paths) => {
+            paths.forEach((path) => photos.delete(path));
+        },
+    };
+}
+
+let activeStorage: GuestPhotoStorage = supabaseGuestPhotoStorage;
+
+export function getGuestPhotoStorage(): GuestPhotoStorage {
+    return activeStorage;
+}
+
+export function setGuestPhotoStorage(storage: GuestPhotoStorage) {
+    activeStorage = storage;
+}
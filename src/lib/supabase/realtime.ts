@@ -12,7 +12,8 @@ type TableName =
     | 'guest_reminders'
     | 'blocked_slots'
     | 'daily_notes'
-    | 'donations';
+    | 'donations'
+    | 'waitlist_promotions';
 
 type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE' | '*';
 
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+    describeRule,
+    mealTypeLabel,
+    ruleAppliesOn,
+    sortRules,
+    type AutomaticMealRule,
+} from '../automaticMealRules';
+
+const MONDAY_RV: AutomaticMealRule = {
+    id: 'r1',
+    weekday: 1,
+    mealType: 'rv',
+    quantity: 100,
+    note: 'Automatic Entry (Mon)',
+    startsOn: null,
+    endsOn: null,
+    active: true,
+};
+
+describe('automaticMealRules', () => {
+    it('describes a rule in words', () => {
+        expect(describeRule(MONDAY_RV)).toBe('100 RV Meals every Monday');
+        expect(describeRule({ weekday: 6, mealType: 'lunch_bag', quantity: 50 })).toBe('50 Lunch Bags every Saturday');
+    });
+
+    it('falls back to the raw meal type for unknown labels', () => {
+        expect(mealTypeLabel('guest')).toBe('guest');
+    });
+
+    it('applies only on its weekday within its date range', () => {
+        // 2025-01-06 is a Monday
+        expect(ruleAppliesOn(MONDAY_RV, '2025-01-06')).toBe(true);
+        expect(ruleAppliesOn(MONDAY_RV, '2025-01-07')).toBe(false);
+        expect(ruleAppliesOn({ ...MONDAY_RV, startsOn: '2025-01-07' }, '2025-01-06')).toBe(false);
+        expect(ruleAppliesOn({ ...MONDAY_RV, endsOn: '2025-01-06' }, '2025-01-06')).toBe(true);
+        expect(ruleAppliesOn({ ...MONDAY_RV, active: false }, '2025-01-06')).toBe(false);
+    });
+
+    it('does not backfill days before a rule took effect', () => {
+        // Created (or last changed) on Friday 2025-01-10: the previous Monday is not recorded
+        const createdFriday = { ...MONDAY_RV, effectiveFrom: '2025-01-10' };
+        expect(ruleAppliesOn(createdFriday, '2025-01-06')).toBe(false);
+        expect(ruleAppliesOn(createdFriday, '2025-01-13')).toBe(true);
+    });
+
+    it('sorts rules by weekday, then meal type', () => {
+        const saturdayBags = { ...MONDAY_RV, id: 'r2', weekday: 6, mealType: 'lunch_bag' as const };
+        const saturdayRv = { ...MONDAY_RV, id: 'r3', weekday: 6 };
+        expect(sortRules([saturdayRv, MONDAY_RV, saturdayBags]).map((r) => r.id)).toEqual(['r1', 'r2', 'r3']);
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+    describeParts,
+    formatLaborMinutes,
+    mapPartsFromRow,
+    monthlyPartsAndLabor,
+    partsCost,
+    partsToRow,
+} from '../bicycleRepairs';
+import { mapBicycleRow } from '../mappers';
+
+describe('mapPartsFromRow', () => {
+    it('maps stored parts and drops malformed entries', () => {
+        expect(mapPartsFromRow([
+            { name: ' Tube ', quantity: 2, unit_cost: 6.5 },
+            { name: 'Chain', quantity: '1', unit_cost: '18.999' },
+            { name: '', quantity: 1, unit_cost: 3 },
+            null,
+            'Brake Pads',
+        ])).toEqual([
+            { name: 'Tube', quantity: 2, unitCost: 6.5 },
+            { name: 'Chain', quantity: 1, unitCost: 19 },
+        ]);
+    });
+
+    it('returns an empty list for missing or non-array values', () => {
+        expect(mapPartsFromRow(null)).toEqual([]);
+        expect(mapPartsFromRow({ name: 'Tube' })).toEqual([]);
+    });
+
+    it('round-trips through partsToRow', () => {
+        const parts = [{ name: 'Brake Pads', quantity: 2, unitCost: 4.25 }];
+        expect(mapPartsFromRow(partsToRow(parts))).toEqual(parts);
+    });
+});
+
+describe('parts helpers', () => {
+    it('totals parts cost to the cent', () => {
+        expect(partsCost([
+            { name: 'Tube', quantity: 3, unitCost: 0.1 },
+            { name: 'Chain', quantity: 1, unitCost: 18 },
+        ])).toBe(18.3);
+        expect(partsCost(undefined)).toBe(0);
+    });
+
+    it('describes parts with quantities', () => {
+        expect(describeParts([
+            { name: 'Tube', quantity: 2, unitCost: 5 },
+            { name: 'Chain', quantity: 1, unitCost: 18 },
+        ])).toBe('2× Tube, Chain');
+    });
+
+    it('formats labor minutes as hours and minutes', () => {
+        expect(formatLaborMinutes(40)).toBe('40m');
+        expect(formatLaborMinutes(60)).toBe('1h');
+        expect(formatLaborMinutes(75)).toBe('1h 15m');
+        expect(formatLaborMinutes(null)).toBe('0m');
+    });
+});
+
+describe('monthlyPartsAndLabor', () => {
+    it('sums completed repairs per month', () => {
+        const totals = monthlyPartsAndLabor([
+            { date: '2026-09-03T18:00:00', status: 'done', parts: [{ name: 'Tube', quantity: 2, unitCost: 6 }], laborMinutes: 30 },
+            { date: '2026-09-20T18:00:00', status: 'done', parts: [], laborMinutes: 60 },
+            { date: '2026-09-21T18:00:00', status: 'in_progress', parts: [{ name: 'Chain', quantity: 1, unitCost: 18 }], laborMinutes: 90 },
+            { date: '2026-10-01T18:00:00', status: 'done', parts: [{ name: 'Chain', quantity: 1, unitCost: 18 }], laborMinutes: null },
+        ]);
+
+        expect(totals.get('2026-09')).toEqual({ partsCost: 12, laborHours: 1.5 });
+        expect(totals.get('2026-10')).toEqual({ partsCost: 18, laborHours: 0 });
+        expect(totals.size).toBe(2);
+    });
+});
+
+describe('mapBicycleRow parts and labor', () => {
+    it('maps the parts, mechanic and labor columns', () => {
+        const mapped = mapBicycleRow({
+            id: 'b1',
+            requested_at: '2026-10-19T17:00:00Z',
+            status: 'done',
+            parts: [{ name: 'Tube', quantity: 1, unit_cost: 6 }],
+            mechanic_name: 'Sam',
+            labor_minutes: 25,
+        });
+
+        expect(mapped.parts).toEqual([{ name: 'Tube', quantity: 1, unitCost: 6 }]);
+        expect(mapped.mechanicName).toBe('Sam');
+        expect(mapped.laborMinutes).toBe(25);
+    });
+
+    it('defaults older rows without parts or labor', () => {
+        const mapped = mapBicycleRow({ id: 'b2', requested_at: '2026-10-19T17:00:00Z', status: 'pending' });
+        expect(mapped.parts).toEqual([]);
+        expect(mapped.mechanicName).toBeNull();
+        expect(mapped.laborMinutes).toBeNull();
+    });
+});
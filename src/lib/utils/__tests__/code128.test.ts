@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { CODE128_PATTERNS, code128Values, encodeCode128 } from '../code128';
+
+describe('code128', () => {
+    it('has 11-module symbols and a 13-module stop', () => {
+        const widths = CODE128_PATTERNS.map((p) => p.split('').reduce((sum, w) => sum + Number(w), 0));
+        expect(widths.slice(0, 106).every((w) => w === 11)).toBe(true);
+        expect(widths[106]).toBe(13);
+        expect(new Set(CODE128_PATTERNS).size).toBe(CODE128_PATTERNS.length);
+    });
+
+    it('adds the start code and a weighted checksum', () => {
+        // (104 + 33 * 1 + 34 * 2) % 103 = 102
+        expect(code128Values('AB')).toEqual([104, 33, 34, 102]);
+    });
+
+    it('encodes start, data, checksum and stop widths', () => {
+        const widths = encodeCode128('LB-20261019-7');
+        expect(widths).toHaveLength((13 + 2) * 6 + 7);
+        expect(widths.slice(0, 6)).toEqual([2, 1, 1, 2, 1, 4]);
+        expect(widths.slice(-7)).toEqual([2, 3, 3, 1, 1, 1, 2]);
+    });
+
+    it('rejects characters outside code set B', () => {
+        expect(() => encodeCode128('Bag\n1')).toThrow('Cannot encode');
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { banScopeLabel, banState, isGuestBanActive, isGuestBannedFromMeals, sortBansNewestFirst, type GuestBan } from '../guestBans';
+import { mapGuestBanRow } from '../mappers';
+
+const NOW = new Date('2026-10-19T18:00:00Z').getTime();
+
+const makeBan = (overrides: Partial<GuestBan> = {}): GuestBan => ({
+    id: 'ban-1',
+    guestId: 'g1',
+    reason: 'Fighting',
+    bannedFromBicycle: false,
+    bannedFromMeals: false,
+    bannedFromShower: false,
+    bannedFromLaundry: false,
+    issuedBy: null,
+    startsAt: '2026-10-01T00:00:00Z',
+    endsAt: '2026-11-01T00:00:00Z',
+    liftedAt: null,
+    liftedBy: null,
+    ...overrides,
+});
+
+describe('guestBans', () => {
+    it('tells active, scheduled, expired and lifted bans apart', () => {
+        expect(banState(makeBan(), NOW)).toBe('active');
+        expect(banState(makeBan({ startsAt: '2026-10-20T00:00:00Z' }), NOW)).toBe('scheduled');
+        expect(banState(makeBan({ endsAt: '2026-10-19T17:59:00Z' }), NOW)).toBe('expired');
+        expect(banState(makeBan({ liftedAt: '2026-10-05T00:00:00Z' }), NOW)).toBe('lifted');
+    });
+
+    it('labels the ban scope', () => {
+        expect(banScopeLabel(makeBan())).toBe('All services');
+        expect(banScopeLabel(makeBan({ bannedFromShower: true, bannedFromMeals: true }))).toBe('Meals, Showers');
+    });
+
+    it('re-checks the end time instead of trusting a stale isBanned', () => {
+        expect(isGuestBanActive({ isBanned: true, bannedUntil: '2020-01-01T00:00:00Z' })).toBe(false);
+        expect(isGuestBanActive({ isBanned: false, bannedUntil: '2099-01-01T00:00:00Z' })).toBe(true);
+        expect(isGuestBanActive({ isBanned: false, bannedUntil: null })).toBe(false);
+        expect(isGuestBanActive({ isBanned: true })).toBe(true);
+    });
+
+    it('treats a ban without program flags as a meal ban', () => {
+        expect(isGuestBannedFromMeals({ isBanned: true })).toBe(true);
+        expect(isGuestBannedFromMeals({ isBanned: true, bannedFromMeals: true, bannedFromShower: true })).toBe(true);
+        expect(isGuestBannedFromMeals({ isBanned: true, bannedFromShower: true })).toBe(false);
+        expect(isGuestBannedFromMeals({ isBanned: true, bannedUntil: '2020-01-01T00:00:00Z', bannedFromMeals: true })).toBe(false);
+    });
+
+    it('sorts bans newest first', () => {
+        const older = makeBan({ id: 'old', startsAt: '2025-01-01T00:00:00Z' });
+        const newer = makeBan({ id: 'new' });
+        expect(sortBansNewestFirst([older, newer]).map((b) => b.id)).toEqual(['new', 'old']);
+    });
+
+    it('maps guest_bans rows', () => {
+        expect(mapGuestBanRow({
+            id: 'ban-1',
+            guest_id: 'g1',
+            reason: null,
+            banned_from_laundry: true,
+            issued_by: 'staff@example.com',
+            starts_at: '2026-10-01T00:00:00Z',
+            ends_at: '2026-11-01T00:00:00Z',
+            lifted_at: '2026-10-05T00:00:00Z',
+            lifted_by: 'admin@example.com',
+        })).toEqual(expect.objectContaining({
+            guestId: 'g1',
+            reason: '',
+            bannedFromLaundry: true,
+            bannedFromMeals: false,
+            issuedBy: 'staff@example.com',
+            endsAt: '2026-11-01T00:00:00Z',
+            liftedBy: 'admin@example.com',
+        }));
+    });
+});
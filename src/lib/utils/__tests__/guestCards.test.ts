@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { create } from 'qrcode';
+import { toGuestCard } from '../guestCards';
+
+describe('guestCards', () => {
+    it('shows the preferred name with the legal name underneath', () => {
+        expect(toGuestCard({ guestId: ' GMV123 ', firstName: 'John', lastName: 'Doe', preferredName: 'Johnny' }))
+            .toEqual({ code: 'GMV123', displayName: 'Johnny', legalName: 'John Doe' });
+    });
+
+    it('omits the legal name when it is the display name', () => {
+        expect(toGuestCard({ guestId: 'G1', firstName: 'John', lastName: 'Doe', preferredName: '' }))
+            .toEqual({ code: 'G1', displayName: 'John Doe', legalName: null });
+        expect(toGuestCard({ guestId: 'G2', name: 'Maria Lopez' }).displayName).toBe('Maria Lopez');
+    });
+
+    it('fits a guest ID in a small QR code', () => {
+        // Version 2 (25 x 25 modules) stays scannable at wallet size
+        expect(create('HCMVMGX4E9K0042Z', { errorCorrectionLevel: 'M' }).modules.size).toBeLessThanOrEqual(25);
+    });
+});
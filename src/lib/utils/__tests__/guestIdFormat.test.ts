@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildGuestId,
+    computeCheckCharacter,
+    exampleGuestId,
+    hasValidCheckCharacter,
+    normalizeGuestIdFormat,
+    validateGuestIdFormat,
+} from '../guestIdFormat';
+
+const now = Date.UTC(2026, 9, 19);
+const time = now.toString(36).toUpperCase();
+
+describe('guestIdFormat', () => {
+    it('keeps the original scheme by default', () => {
+        expect(buildGuestId(normalizeGuestIdFormat(null), now, 0.042)).toBe(`G${time}042`);
+    });
+
+    it('adds the site code and check character', () => {
+        const id = buildGuestId({ prefix: 'HC', siteCode: 'MV', checkDigit: true }, now, 0.5);
+        expect(id.slice(0, -1)).toBe(`HCMV${time}500`);
+        expect(hasValidCheckCharacter(id)).toBe(true);
+    });
+
+    it('catches a mistyped character or swapped neighbours', () => {
+        const id = `HCMV${time}500` + computeCheckCharacter(`HCMV${time}500`);
+        const typo = id.replace('500', '600');
+        const swapped = id.replace('MV', 'VM');
+
+        expect(hasValidCheckCharacter(typo)).toBe(false);
+        expect(hasValidCheckCharacter(swapped)).toBe(false);
+        expect(hasValidCheckCharacter(id.toLowerCase())).toBe(true);
+    });
+
+    it('fills missing fields and upper-cases codes', () => {
+        expect(normalizeGuestIdFormat({ prefix: ' hc ', checkDigit: true })).toEqual({ prefix: 'HC', siteCode: '', checkDigit: true });
+    });
+
+    it('validates prefix and site code', () => {
+        expect(validateGuestIdFormat({ prefix: '', siteCode: '', checkDigit: false })).toBe('Prefix is required');
+        expect(validateGuestIdFormat({ prefix: 'G-1', siteCode: '', checkDigit: false })).toBe('Prefix must be 1-4 letters or digits');
+        expect(validateGuestIdFormat({ prefix: 'G', siteCode: 'MTVIEW', checkDigit: false })).toBe('Site code must be up to 4 letters or digits');
+        expect(validateGuestIdFormat({ prefix: 'G', siteCode: 'MV', checkDigit: true })).toBeNull();
+    });
+
+    it('shows a stable example', () => {
+        expect(exampleGuestId({ prefix: 'G', siteCode: 'SJ', checkDigit: false })).toMatch(/^GSJ[A-Z0-9]+042$/);
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicateCandidates, duplicatePairKey } from '../duplicateDetection';
+import {
+    buildMergeFieldsPayload,
+    getDefaultMergeSelection,
+    getDifferingMergeFields,
+    isMergeUndoable,
+    orderMergePair,
+} from '../guestMerge';
+import { mapGuestMergeRow } from '../mappers';
+
+const robert = { id: 'g1', firstName: 'Robert', lastName: 'Smith', preferredName: '', notes: '', location: 'Mountain View', createdAt: '2025-01-01' };
+const bob = { id: 'g2', firstName: 'Bob', lastName: 'Smith', preferredName: '', notes: 'Uses a walker', location: 'Palo Alto', createdAt: '2025-06-01' };
+const maria = { id: 'g3', firstName: 'Maria', lastName: 'Lopez', preferredName: '', createdAt: '2025-02-01' };
+const mariaTypo = { id: 'g4', firstName: 'Maira', lastName: 'Lopez', preferredName: '', createdAt: '2025-03-01' };
+const sam = { id: 'g5', firstName: 'Sam', lastName: 'Jones', preferredName: '', createdAt: '2025-04-01' };
+
+describe('findDuplicateCandidates', () => {
+    it('pairs nicknames and typos once each, best match first', () => {
+        const pairs = findDuplicateCandidates([robert, bob, maria, mariaTypo, sam]);
+
+        expect(pairs.map((p) => duplicatePairKey(p.a.id, p.b.id))).toEqual(['g1:g2', 'g3:g4']);
+        expect(pairs[0].reason).toBe('Nickname match');
+        expect(pairs[0].confidence).toBeGreaterThan(pairs[1].confidence);
+    });
+
+    it('matches a preferred name in either direction', () => {
+        const preferred = { id: 'g6', firstName: 'Alejandro', lastName: 'Ruiz', preferredName: 'Tito' };
+        const entered = { id: 'g7', firstName: 'Tito', lastName: 'Ruiz', preferredName: '' };
+
+        expect(findDuplicateCandidates([preferred, entered])[0].reason).toBe('Matches preferred name');
+        expect(findDuplicateCandidates([entered, preferred])[0].reason).toBe('Matches preferred name');
+    });
+
+    it('skips reviewed pairs and weak matches', () => {
+        expect(findDuplicateCandidates([robert, bob], { excludePairs: new Set([duplicatePairKey('g2', 'g1')]) })).toEqual([]);
+        expect(findDuplicateCandidates([maria, mariaTypo], { minConfidence: 0.95 })).toEqual([]);
+    });
+});
+
+describe('guestMerge', () => {
+    it('keeps the older record first', () => {
+        expect(orderMergePair(bob, robert).map((g) => g.id)).toEqual(['g1', 'g2']);
+    });
+
+    it('keeps the kept record values and fills its blanks from the duplicate', () => {
+        const selection = getDefaultMergeSelection(robert, bob);
+
+        expect(getDifferingMergeFields(robert, bob).map((f) => f.key)).toEqual(['firstName', 'location', 'notes']);
+        expect(selection.firstName).toBe('kept');
+        expect(selection.location).toBe('kept');
+        expect(selection.notes).toBe('merged');
+        expect(buildMergeFieldsPayload(robert, bob, selection)).toEqual({ notes: 'Uses a walker' });
+    });
+
+    it('sends only the fields taken from the duplicate', () => {
+        const payload = buildMergeFieldsPayload(bob, robert, { firstName: 'merged', notes: 'merged', location: 'kept' });
+        expect(payload).toEqual({ first_name: 'Robert', notes: null });
+    });
+
+    it('allows undo until the window closes', () => {
+        const now = new Date('2026-10-19T12:00:00Z').getTime();
+        expect(isMergeUndoable({ undoneAt: null, undoUntil: '2026-10-20T11:00:00Z' }, now)).toBe(true);
+        expect(isMergeUndoable({ undoneAt: null, undoUntil: '2026-10-19T11:00:00Z' }, now)).toBe(false);
+        expect(isMergeUndoable({ undoneAt: '2026-10-19T11:30:00Z', undoUntil: '2026-10-20T11:00:00Z' }, now)).toBe(false);
+    });
+
+    it('maps merge log rows', () => {
+        expect(mapGuestMergeRow({
+            id: 'm1',
+            kept_guest_id: 'g1',
+            merged_guest_id: 'g2',
+            merged_guest: { first_name: 'bob', last_name: 'smith' },
+            moved_rows: { 'meal_attendance.guest_id': ['a', 'b'], 'guest_warnings.guest_id': ['c'] },
+            merged_at: '2026-10-19T12:00:00Z',
+            undo_until: '2026-10-20T12:00:00Z',
+        })).toEqual(expect.objectContaining({ mergedGuestName: 'Bob Smith', movedRecordCount: 3, mergedBy: null, undoneAt: null }));
+    });
+});
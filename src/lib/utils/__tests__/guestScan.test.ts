@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { findGuestByScannedCode, normalizeScannedCode } from '../guestScan';
+
+const guests = [
+    { id: 'g1', guestId: 'GMVK9X2A042' },
+    { id: 'g2', guestId: 'G123' },
+    { id: 'g3', guestId: '' },
+];
+
+describe('guestScan', () => {
+    it('strips whitespace, scanner prefixes and case', () => {
+        expect(normalizeScannedCode('  gmvk9x2a042\n')).toBe('GMVK9X2A042');
+        expect(normalizeScannedCode(']Q1GMVK9X2A042')).toBe('GMVK9X2A042');
+        expect(normalizeScannedCode(']C0G123')).toBe('G123');
+    });
+
+    it('finds the guest by external ID', () => {
+        expect(findGuestByScannedCode(guests, 'gmvk9x2a042')?.id).toBe('g1');
+        expect(findGuestByScannedCode(guests, ']Q1G123\r')?.id).toBe('g2');
+    });
+
+    it('never matches a partial code or an empty scan', () => {
+        expect(findGuestByScannedCode(guests, 'G12')).toBeNull();
+        expect(findGuestByScannedCode(guests, 'GMVK9X2A04')).toBeNull();
+        expect(findGuestByScannedCode(guests, '   ')).toBeNull();
+    });
+});
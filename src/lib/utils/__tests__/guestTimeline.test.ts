@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { buildGuestTimeline, filterTimeline, monthlyVisitCounts } from '../guestTimeline';
+
+const ROWS = {
+    meal_attendance: [
+        { id: 'm1', meal_type: 'guest', quantity: 2, served_on: '2025-01-06' },
+        { id: 'm2', meal_type: 'extra', quantity: 1, served_on: '2025-01-06' },
+    ],
+    shower_reservations: [{ id: 's1', scheduled_for: '2025-01-06', scheduled_time: '08:00', status: 'done' }],
+    laundry_bookings: [{ id: 'l1', scheduled_for: '2025-02-03', laundry_type: 'offsite', bag_number: '12', status: 'picked_up' }],
+    bicycle_repairs: [{ id: 'b1', requested_at: '2025-02-10T17:00:00Z', repair_types: ['Flat Tire', 'Brakes'], status: 'done' }],
+    haircut_visits: [{ id: 'h1', served_at: '2024-12-20T18:00:00Z' }],
+    holiday_visits: [{ id: 'hv1', served_at: '2024-12-24T18:00:00Z' }],
+    items_distributed: [{ id: 'i1', item_key: 'tshirt', distributed_at: '2025-02-03T17:30:00Z' }],
+    guest_warnings: [{ id: 'w1', message: 'Argued with staff', created_at: '2025-02-03T18:00:00Z', active: false }],
+    guest_reminders: [{ id: 'r1', message: 'Bring ID', created_at: '2025-01-06T16:00:00Z', dismissed_at: '2025-02-03T16:00:00Z' }],
+    service_waivers: [{ id: 'sw1', service_type: 'shower', signed_at: '2025-01-06T15:30:00Z' }],
+};
+
+describe('guestTimeline', () => {
+    const timeline = buildGuestTimeline(ROWS);
+
+    it('merges every source newest first', () => {
+        expect(timeline).toHaveLength(12);
+        expect(timeline[0]).toMatchObject({ category: 'bicycle', title: 'Bicycle repair', detail: 'Flat Tire, Brakes · Done' });
+        expect(timeline[timeline.length - 1]).toMatchObject({ category: 'haircut', dateKey: '2024-12-20' });
+        const times = timeline.map((e) => e.occurredAt);
+        expect([...times].sort().reverse()).toEqual(times);
+    });
+
+    it('describes each kind of entry', () => {
+        const byId = Object.fromEntries(timeline.map((e) => [e.id, e]));
+        expect(byId['meal:m1']).toMatchObject({ title: '2 meals', dateKey: '2025-01-06' });
+        expect(byId['meal:m2'].title).toBe('1 Extra Meals');
+        expect(byId['shower:s1'].detail).toBe('08:00 · Done');
+        expect(byId['laundry:l1']).toMatchObject({ title: 'Offsite laundry', detail: 'Bag 12 · Picked Up' });
+        expect(byId['item:i1'].title).toBe('Tshirt');
+        expect(byId['warning:w1']).toMatchObject({ title: 'Warning (cleared)', detail: 'Argued with staff' });
+        expect(byId['reminder:r1:dismissed']).toMatchObject({ title: 'Reminder dismissed', dateKey: '2025-02-03' });
+        expect(byId['waiver:sw1'].title).toBe('Shower waiver signed');
+    });
+
+    it('filters by category and date range', () => {
+        expect(filterTimeline(timeline, { categories: ['meal', 'shower'] }).map((e) => e.id).sort())
+            .toEqual(['meal:m1', 'meal:m2', 'shower:s1']);
+        expect(filterTimeline(timeline, { from: '2025-02-01', to: '2025-02-05' }).every((e) => e.dateKey === '2025-02-03')).toBe(true);
+        expect(filterTimeline(timeline, {})).toHaveLength(timeline.length);
+    });
+
+    it('counts distinct visit days per month, ignoring warnings, reminders and waivers', () => {
+        expect(monthlyVisitCounts(timeline)).toEqual([
+            { month: '2024-12', visits: 2 },
+            { month: '2025-01', visits: 1 },
+            { month: '2025-02', visits: 2 },
+        ]);
+    });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { countUnduplicatedHouseholds, sortHouseholdMembers, type HouseholdMember } from '../households';
+import { mapHouseholdMemberRow, mapHouseholdRow } from '../mappers';
+
+describe('households', () => {
+    it('counts each household once and unaffiliated guests individually', () => {
+        const householdIdByGuest = new Map([
+            ['g1', 'h1'],
+            ['g2', 'h1'],
+            ['g3', 'h2'],
+        ]);
+        expect(countUnduplicatedHouseholds(['g1', 'g2', 'g3', 'g4', 'g5'], householdIdByGuest)).toBe(4);
+        expect(countUnduplicatedHouseholds(new Set(['g1', 'g2']), householdIdByGuest)).toBe(1);
+        expect(countUnduplicatedHouseholds([], householdIdByGuest)).toBe(0);
+    });
+
+    it('lists the head of household first', () => {
+        const members: HouseholdMember[] = [
+            { id: 'm1', householdId: 'h1', guestId: 'g1', role: 'child' },
+            { id: 'm2', householdId: 'h1', guestId: 'g2', role: 'head' },
+            { id: 'm3', householdId: 'h1', guestId: 'g3', role: 'partner' },
+        ];
+        expect(sortHouseholdMembers(members).map((m) => m.id)).toEqual(['m2', 'm3', 'm1']);
+    });
+
+    it('maps household rows', () => {
+        expect(mapHouseholdRow({ id: 'h1', name: 'Lopez Household', head_guest_id: 'g1', meal_allowance: 4 }))
+            .toEqual(expect.objectContaining({ headGuestId: 'g1', mealAllowance: 4, notes: null }));
+        expect(mapHouseholdRow({ id: 'h2', name: 'Kim Household' }).mealAllowance).toBeNull();
+        expect(mapHouseholdMemberRow({ id: 'm1', household_id: 'h1', guest_id: 'g1' }))
+            .toEqual(expect.objectContaining({ householdId: 'h1', guestId: 'g1', role: 'other' }));
+    });
+});
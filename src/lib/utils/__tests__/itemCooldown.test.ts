@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getItemAvailability, describeCooldown } from '../itemCooldown';
+
+// Local dates so the tests do not depend on the runner's timezone
+const day = (y: number, m: number, d: number) => new Date(y, m - 1, d, 10, 0, 0);
+
+describe('getItemAvailability', () => {
+    it('is available with no history or an unlimited policy', () => {
+        expect(getItemAvailability({ cooldownType: 'rolling_days', cooldownDays: 30 }, [])).toEqual({ available: true });
+        expect(
+            getItemAvailability({ cooldownType: 'unlimited' }, [day(2026, 10, 19)], day(2026, 10, 19))
+        ).toEqual({ available: true });
+    });
+
+    it('waits the configured number of days after the last distribution', () => {
+        const policy = { cooldownType: 'rolling_days' as const, cooldownDays: 15 };
+        const history = [day(2026, 9, 1), day(2026, 10, 10)];
+
+        const blocked = getItemAvailability(policy, history, day(2026, 10, 19));
+        expect(blocked.available).toBe(false);
+        expect(blocked.daysRemaining).toBe(6);
+        expect(blocked.nextAvailable?.getDate()).toBe(25);
+
+        expect(getItemAvailability(policy, history, day(2026, 10, 25)).available).toBe(true);
+    });
+
+    it('resets on the configured weekday after the last distribution', () => {
+        // 2026-10-14 is a Wednesday; the next Monday is 2026-10-19
+        const policy = { cooldownType: 'weekly_reset' as const, resetWeekday: 1 };
+        const history = [day(2026, 10, 14)];
+
+        const blocked = getItemAvailability(policy, history, day(2026, 10, 18));
+        expect(blocked).toMatchObject({ available: false, daysRemaining: 1 });
+
+        expect(getItemAvailability(policy, history, day(2026, 10, 19)).available).toBe(true);
+    });
+
+    it('waits a full week when given on the reset day itself', () => {
+        const policy = { cooldownType: 'weekly_reset' as const, resetWeekday: 1 };
+
+        const blocked = getItemAvailability(policy, [day(2026, 10, 19)], day(2026, 10, 19));
+        expect(blocked).toMatchObject({ available: false, daysRemaining: 7 });
+    });
+
+    it('allows up to the monthly limit within a calendar month', () => {
+        const policy = { cooldownType: 'monthly_cap' as const, monthlyLimit: 2 };
+        const now = day(2026, 10, 19);
+
+        expect(getItemAvailability(policy, [day(2026, 9, 30), day(2026, 10, 2)], now).available).toBe(true);
+
+        const blocked = getItemAvailability(policy, [day(2026, 10, 2), day(2026, 10, 9)], now);
+        expect(blocked.available).toBe(false);
+        expect(blocked.nextAvailable).toEqual(new Date(2026, 10, 1));
+        expect(blocked.daysRemaining).toBe(13);
+    });
+});
+
+describe('describeCooldown', () => {
+    it('summarizes each policy type', () => {
+        expect(describeCooldown({ cooldownType: 'rolling_days', cooldownDays: 15 })).toBe('15 Days');
+        expect(describeCooldown({ cooldownType: 'weekly_reset', resetWeekday: 1 })).toBe('Weekly (Mon)');
+        expect(describeCooldown({ cooldownType: 'monthly_cap', monthlyLimit: 2 })).toBe('2 / Month');
+        expect(describeCooldown({ cooldownType: 'unlimited' })).toBe('Unlimited');
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+    findLaundryByTag,
+    formatBagTagCode,
+    nextBagNumber,
+    nextLaundryStatus,
+    parseBagTagCode,
+    toBagTag,
+} from '../laundryBags';
+
+const record = (id: string, date: string, bagNumber: string, overrides: Record<string, any> = {}) => ({
+    id,
+    guestId: `g-${id}`,
+    date: `${date}T18:00:00Z`,
+    status: 'waiting',
+    bagNumber,
+    laundryType: 'onsite',
+    ...overrides,
+});
+
+describe('nextBagNumber', () => {
+    it('continues from the highest numeric bag on the same day', () => {
+        const records = [
+            record('a', '2026-10-19', '3'),
+            record('b', '2026-10-19', '12'),
+            record('c', '2026-10-19', 'BLUE'),
+            record('d', '2026-10-18', '40'),
+        ];
+        expect(nextBagNumber(records, '2026-10-19')).toBe('13');
+    });
+
+    it('starts at 1 for a new day', () => {
+        expect(nextBagNumber([record('d', '2026-10-18', '40')], '2026-10-19')).toBe('1');
+    });
+});
+
+describe('bag tag codes', () => {
+    it('round-trips the service day and bag number', () => {
+        const code = formatBagTagCode('2026-10-19', '7');
+        expect(code).toBe('LB-20261019-7');
+        expect(parseBagTagCode(code)).toEqual({ dateKey: '2026-10-19', bagNumber: '7' });
+    });
+
+    it('treats anything else as a typed bag number', () => {
+        expect(parseBagTagCode(' #12 ')).toEqual({ dateKey: null, bagNumber: '12' });
+        expect(parseBagTagCode('   ')).toBeNull();
+    });
+
+    it('builds a tag from a record', () => {
+        expect(toBagTag(record('a', '2026-10-19', '4', { time: '09:00 - 09:30' }), 'Johnny')).toEqual({
+            code: 'LB-20261019-4',
+            bagNumber: '4',
+            guestName: 'Johnny',
+            slot: '09:00 - 09:30',
+            laundryType: 'onsite',
+            dateKey: '2026-10-19',
+        });
+    });
+});
+
+describe('findLaundryByTag', () => {
+    const records = [
+        record('old', '2026-10-17', '5', { status: 'done' }),
+        record('older', '2026-10-16', '5', { status: 'picked_up' }),
+        record('today', '2026-10-19', '2'),
+        record('cancelled', '2026-10-19', '9', { status: 'cancelled' }),
+    ];
+
+    it('matches a scanned tag on its own day only', () => {
+        expect(findLaundryByTag(records, 'LB-20261019-2', '2026-10-19')?.id).toBe('today');
+        expect(findLaundryByTag(records, 'LB-20261018-2', '2026-10-19')).toBeNull();
+    });
+
+    it('matches typed numbers against today first, then unfinished earlier bookings', () => {
+        expect(findLaundryByTag(records, '2', '2026-10-19')?.id).toBe('today');
+        expect(findLaundryByTag(records, '5', '2026-10-19')?.id).toBe('old');
+    });
+
+    it('ignores cancelled bookings', () => {
+        expect(findLaundryByTag(records, '9', '2026-10-19')).toBeNull();
+    });
+});
+
+describe('nextLaundryStatus', () => {
+    it('walks the on-site flow', () => {
+        expect(nextLaundryStatus({ status: 'waiting', laundryType: 'onsite' })).toBe('washer');
+        expect(nextLaundryStatus({ status: 'done', laundryType: 'onsite' })).toBe('picked_up');
+        expect(nextLaundryStatus({ status: 'picked_up', laundryType: 'onsite' })).toBeNull();
+    });
+
+    it('walks the off-site flow, including older waiting bookings', () => {
+        expect(nextLaundryStatus({ status: 'waiting', laundryType: 'offsite' })).toBe('transported');
+        expect(nextLaundryStatus({ status: 'returned', laundryType: 'offsite' })).toBe('offsite_picked_up');
+        expect(nextLaundryStatus({ status: 'offsite_picked_up', laundryType: 'offsite' })).toBeNull();
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { bookingsInBatch, missingFromBatch, unbatchedOffsiteBookings, type LaundryBatch } from '../laundryBatches';
+import { mapLaundryRow } from '../mappers';
+
+const booking = (id: string, status: string, overrides: Record<string, any> = {}) => ({
+    id,
+    guestId: `g-${id}`,
+    status,
+    laundryType: 'offsite',
+    bagNumber: id,
+    batchId: null as string | null,
+    ...overrides,
+});
+
+const batch = (status: LaundryBatch['status']): LaundryBatch => ({
+    id: 'b1',
+    serviceDate: '2026-10-19',
+    vendor: 'Clean Co',
+    status,
+});
+
+describe('unbatchedOffsiteBookings', () => {
+    it('keeps off-site bags that have not left and are not in a run', () => {
+        const bookings = [
+            booking('1', 'pending'),
+            booking('2', 'waiting'),
+            booking('3', 'pending', { batchId: 'b1' }),
+            booking('4', 'transported'),
+            booking('5', 'waiting', { laundryType: 'onsite' }),
+        ];
+        expect(unbatchedOffsiteBookings(bookings).map((b) => b.id)).toEqual(['1', '2']);
+    });
+});
+
+describe('missingFromBatch', () => {
+    const bookings = [
+        booking('1', 'returned', { batchId: 'b1' }),
+        booking('2', 'transported', { batchId: 'b1' }),
+        booking('3', 'cancelled', { batchId: 'b1' }),
+        booking('4', 'transported', { batchId: 'other' }),
+    ];
+
+    it('flags bags still transported once the batch is back', () => {
+        expect(missingFromBatch(batch('returned'), bookings).map((b) => b.id)).toEqual(['2']);
+    });
+
+    it('flags nothing while the batch is still with the vendor', () => {
+        expect(missingFromBatch(batch('transported'), bookings)).toEqual([]);
+    });
+
+    it('lists the batch bookings without cancelled ones', () => {
+        expect(bookingsInBatch(bookings, 'b1').map((b) => b.id)).toEqual(['1', '2']);
+    });
+});
+
+describe('mapLaundryRow batch', () => {
+    it('maps batch_id and defaults to null', () => {
+        const row = { id: 'l1', guest_id: 'g1', laundry_type: 'offsite' as const, status: 'pending', scheduled_for: '2026-10-19' };
+        expect(mapLaundryRow({ ...row, batch_id: 'b1' }).batchId).toBe('b1');
+        expect(mapLaundryRow(row).batchId).toBeNull();
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+    cycleRemainingMs,
+    formatCycleRemaining,
+    loadInMachine,
+    machineLabel,
+    nextMachineNumber,
+    sortMachines,
+    type LaundryMachine,
+} from '../laundryMachines';
+import { mapLaundryMachineRow, mapLaundryRow } from '../mappers';
+
+const machine = (id: string, kind: LaundryMachine['kind'], number: number, overrides: Partial<LaundryMachine> = {}): LaundryMachine => ({
+    id,
+    kind,
+    number,
+    cycleMinutes: 30,
+    outOfService: false,
+    ...overrides,
+});
+
+describe('laundryMachines', () => {
+    it('labels and sorts machines washers first', () => {
+        const sorted = sortMachines([machine('d1', 'dryer', 1), machine('w2', 'washer', 2), machine('w1', 'washer', 1)]);
+        expect(sorted.map(machineLabel)).toEqual(['Washer 1', 'Washer 2', 'Dryer 1']);
+    });
+
+    it('finds the load in a machine only while its status matches the machine kind', () => {
+        const washer = machine('w1', 'washer', 1);
+        const loads = [
+            { id: 'l1', guestId: 'g1', status: 'dryer', machineId: 'w1' },
+            { id: 'l2', guestId: 'g2', status: 'washer', machineId: 'w1' },
+        ];
+        expect(loadInMachine(washer, loads)?.id).toBe('l2');
+        expect(loadInMachine(washer, loads.slice(0, 1))).toBeNull();
+    });
+
+    it('counts down from the cycle start', () => {
+        const washer = machine('w1', 'washer', 1);
+        const load = { id: 'l1', guestId: 'g1', status: 'washer', machineId: 'w1', cycleStartedAt: '2026-10-19T17:00:00Z' };
+        const now = new Date('2026-10-19T17:17:26Z').getTime();
+
+        expect(cycleRemainingMs(load, washer, now)).toBe((12 * 60 + 34) * 1000);
+        expect(cycleRemainingMs({ ...load, cycleStartedAt: null }, washer, now)).toBeNull();
+    });
+
+    it('formats remaining and finished cycles', () => {
+        expect(formatCycleRemaining(754_000)).toBe('12:34');
+        expect(formatCycleRemaining(59_500)).toBe('1:00');
+        expect(formatCycleRemaining(0)).toBe('Done');
+        expect(formatCycleRemaining(-3 * 60_000 - 5_000)).toBe('Done 3m ago');
+    });
+
+    it('numbers new machines after the highest of their kind', () => {
+        const machines = [machine('w1', 'washer', 1), machine('w4', 'washer', 4), machine('d1', 'dryer', 1)];
+        expect(nextMachineNumber(machines, 'washer')).toBe(5);
+        expect(nextMachineNumber(machines, 'dryer')).toBe(2);
+        expect(nextMachineNumber([], 'dryer')).toBe(1);
+    });
+
+    it('maps machine rows and machine assignment on bookings', () => {
+        expect(mapLaundryMachineRow({
+            id: 'w1', kind: 'washer', number: 1, cycle_minutes: 35, out_of_service: true, note: 'Leaks',
+        } as any)).toEqual(expect.objectContaining({ id: 'w1', kind: 'washer', number: 1, cycleMinutes: 35, outOfService: true, note: 'Leaks' }));
+
+        const booking = mapLaundryRow({
+            id: 'l1', guest_id: 'g1', status: 'washer', machine_id: 'w1', cycle_started_at: '2026-10-19T17:00:00Z',
+        } as any);
+        expect(booking.machineId).toBe('w1');
+        expect(booking.cycleStartedAt).toBe('2026-10-19T17:00:00Z');
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_NO_SHOW_POLICY,
+    addDays,
+    describeNoShowPolicy,
+    guestNoShowStanding,
+    normalizeNoShowPolicy,
+    validateNoShowPolicy,
+} from '../noShowPolicy';
+
+const noShow = (dateKey: string, guestId = 'g1') => ({ guestId, status: 'no_show', date: `${dateKey}T16:00:00.000Z`, dateKey });
+
+describe('noShowPolicy', () => {
+    it('adds days across month ends', () => {
+        expect(addDays('2026-10-30', 3)).toBe('2026-11-02');
+        expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    });
+
+    it('counts no-shows inside the rolling window', () => {
+        const standing = guestNoShowStanding(
+            [noShow('2026-09-01'), noShow('2026-10-01'), noShow('2026-10-18'), noShow('2026-10-18', 'g2'), { ...noShow('2026-10-17'), status: 'done' }],
+            'g1',
+            DEFAULT_NO_SHOW_POLICY,
+            '2026-10-19'
+        );
+        expect(standing).toEqual({ count: 2, restricted: false, restrictedUntil: null });
+    });
+
+    it('limits a guest to the waitlist after reaching the threshold', () => {
+        const records = [noShow('2026-10-01'), noShow('2026-10-10'), noShow('2026-10-15')];
+
+        expect(guestNoShowStanding(records, 'g1', DEFAULT_NO_SHOW_POLICY, '2026-10-19')).toEqual({
+            count: 3,
+            restricted: true,
+            restrictedUntil: '2026-10-22',
+        });
+        expect(guestNoShowStanding(records, 'g1', DEFAULT_NO_SHOW_POLICY, '2026-10-22').restricted).toBe(false);
+    });
+
+    it('ignores no-shows that were spread beyond the window', () => {
+        const records = [noShow('2026-08-01'), noShow('2026-09-01'), noShow('2026-10-15')];
+        expect(guestNoShowStanding(records, 'g1', DEFAULT_NO_SHOW_POLICY, '2026-10-16').restricted).toBe(false);
+    });
+
+    it('does nothing when the policy is off', () => {
+        const records = [noShow('2026-10-01'), noShow('2026-10-10'), noShow('2026-10-15')];
+        expect(guestNoShowStanding(records, 'g1', { ...DEFAULT_NO_SHOW_POLICY, enabled: false }, '2026-10-19').count).toBe(0);
+    });
+
+    it('fills a partial stored policy with defaults', () => {
+        expect(normalizeNoShowPolicy({ threshold: 2, windowDays: 0 })).toEqual({ ...DEFAULT_NO_SHOW_POLICY, threshold: 2 });
+        expect(normalizeNoShowPolicy(null)).toEqual(DEFAULT_NO_SHOW_POLICY);
+    });
+
+    it('validates and describes a policy', () => {
+        expect(validateNoShowPolicy(DEFAULT_NO_SHOW_POLICY)).toBeNull();
+        expect(validateNoShowPolicy({ ...DEFAULT_NO_SHOW_POLICY, threshold: 0 })).toBe('No-show limit must be at least 1');
+        expect(validateNoShowPolicy({ ...DEFAULT_NO_SHOW_POLICY, restrictionDays: 1.5 })).toBe('Waitlist-only period must be at least 1 day');
+        expect(describeNoShowPolicy(DEFAULT_NO_SHOW_POLICY)).toBe('3 no-shows in 30 days → waitlist only for 7 days');
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+    isAlreadyApplied,
+    isNetworkError,
+    mealLimitConflict,
+    newClientId,
+    nextQueueSeq,
+    readQueuedMutations,
+    removeQueuedMutation,
+    writeQueuedMutation,
+    type QueuedMutation,
+} from '../offlineQueue';
+
+const mutation = (id: string, seq: number): QueuedMutation => ({
+    id,
+    seq,
+    table: 'meal_attendance',
+    payload: { id, guest_id: 'g1', quantity: 1, served_on: '2025-01-06' },
+    label: 'Meal',
+    queuedAt: '2025-01-06T16:00:00Z',
+    attempts: 0,
+});
+
+describe('offlineQueue', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('stores queued mutations and reads them back in replay order', async () => {
+        await writeQueuedMutation(mutation('b', 2));
+        await writeQueuedMutation(mutation('a', 1));
+
+        expect((await readQueuedMutations()).map((m) => m.id)).toEqual(['a', 'b']);
+
+        await removeQueuedMutation('a');
+        await removeQueuedMutation('b');
+        expect(await readQueuedMutations()).toEqual([]);
+    });
+
+    it('hands out strictly increasing sequence numbers', () => {
+        const first = nextQueueSeq();
+        expect(nextQueueSeq()).toBeGreaterThan(first);
+    });
+
+    it('generates uuid client ids', () => {
+        expect(newClientId()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    });
+
+    it('tells network failures from server rejections', () => {
+        expect(isNetworkError({ message: 'TypeError: Failed to fetch' })).toBe(true);
+        expect(isNetworkError({ message: 'new row violates row-level security policy' })).toBe(false);
+
+        vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+        expect(isNetworkError({ message: 'anything' })).toBe(true);
+    });
+
+    it('treats a duplicate primary key as already synced', () => {
+        expect(isAlreadyApplied({ code: '23505', message: 'duplicate key value violates unique constraint "meal_attendance_pkey"' })).toBe(true);
+        expect(isAlreadyApplied({ code: '23505', message: 'duplicate key value violates unique constraint "meal_attendance_guest_unique"' })).toBe(false);
+    });
+
+    describe('mealLimitConflict', () => {
+        it('rejects a base meal over the daily limit', () => {
+            expect(mealLimitConflict([{ meal_type: 'guest', quantity: 2 }], { quantity: 1 })).toBe('guest already had 2 base meals that day');
+            expect(mealLimitConflict([{ meal_type: 'guest', quantity: 1 }], { quantity: 1 })).toBeNull();
+        });
+
+        it('rejects extra meals over the extra and total limits', () => {
+            expect(mealLimitConflict([{ meal_type: 'extra', quantity: 2 }], { meal_type: 'extra', quantity: 1 }))
+                .toBe('guest already had 2 extra meals that day');
+            expect(mealLimitConflict([{ meal_type: 'guest', quantity: 3 }], { meal_type: 'extra', quantity: 2 }))
+                .toBe('guest already had 3 meals that day');
+        });
+
+        it('ignores bulk meal types', () => {
+            expect(mealLimitConflict([{ meal_type: 'guest', quantity: 2 }], { meal_type: 'lunch_bag', quantity: 1 })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+    closureDateRange,
+    describeClosure,
+    getClosuresOn,
+    getServiceClosure,
+    type ServiceClosure,
+} from '../serviceClosures';
+import { DEFAULT_SERVICE_SCHEDULE } from '../serviceSchedule';
+import { getMealServiceStatus } from '../mealServiceTime';
+
+const THANKSGIVING: ServiceClosure = { id: 'c1', closedOn: '2025-11-27', service: null, reason: 'Thanksgiving' };
+const NO_SHOWERS: ServiceClosure = { id: 'c2', closedOn: '2025-12-01', service: 'showers', reason: 'Plumbing repair' };
+const SHOWERS_THANKSGIVING: ServiceClosure = { id: 'c3', closedOn: '2025-11-27', service: 'showers', reason: 'Water off' };
+
+describe('serviceClosures', () => {
+    describe('getServiceClosure', () => {
+        it('closes every service on a full-day closure', () => {
+            expect(getServiceClosure([THANKSGIVING], 'meals', '2025-11-27')).toBe(THANKSGIVING);
+            expect(getServiceClosure([THANKSGIVING], 'laundry', new Date(2025, 10, 27, 12))).toBe(THANKSGIVING);
+            expect(getServiceClosure([THANKSGIVING], 'meals', '2025-11-28')).toBeNull();
+        });
+
+        it('closes only the named service on a per-service closure', () => {
+            expect(getServiceClosure([NO_SHOWERS], 'showers', '2025-12-01')).toBe(NO_SHOWERS);
+            expect(getServiceClosure([NO_SHOWERS], 'laundry', '2025-12-01')).toBeNull();
+        });
+
+        it('prefers the full-day closure when both apply', () => {
+            expect(getServiceClosure([SHOWERS_THANKSGIVING, THANKSGIVING], 'showers', '2025-11-27')).toBe(THANKSGIVING);
+        });
+    });
+
+    it('lists closures on a date, optionally for one service', () => {
+        const closures = [THANKSGIVING, NO_SHOWERS];
+        expect(getClosuresOn(closures, '2025-12-01')).toEqual([NO_SHOWERS]);
+        expect(getClosuresOn(closures, '2025-12-01', 'meals')).toEqual([]);
+    });
+
+    it('describes a closure for tooltips', () => {
+        expect(describeClosure(THANKSGIVING)).toBe('All services closed: Thanksgiving');
+        expect(describeClosure(NO_SHOWERS)).toBe('Showers closed: Plumbing repair');
+    });
+
+    it('expands a closure range into days, across month ends', () => {
+        expect(closureDateRange('2025-11-29', '2025-12-02')).toEqual(['2025-11-29', '2025-11-30', '2025-12-01', '2025-12-02']);
+        expect(closureDateRange('2025-11-27', '')).toEqual(['2025-11-27']);
+    });
+
+    it('reports meal service as closed on a closed meal day', () => {
+        // Monday, December 1, 2025 at 8:30 (meals normally run 8:00-9:00)
+        const monday = new Date(2025, 11, 1, 8, 30);
+        const closed = { ...NO_SHOWERS, service: 'meals' as const, reason: 'Staff training' };
+
+        expect(getMealServiceStatus(monday, DEFAULT_SERVICE_SCHEDULE, [closed])).toMatchObject({
+            type: 'closed',
+            message: 'Meals closed today: Staff training',
+        });
+        expect(getMealServiceStatus(monday, DEFAULT_SERVICE_SCHEDULE, [NO_SHOWERS]).type).toBe('during-service');
+    });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEFAULT_SERVICE_SCHEDULE,
+    buildServiceSlots,
+    getServiceHours,
+    isServiceDay,
+    resolveSiteSchedule,
+    type ServiceScheduleEntry,
+} from '../serviceSchedule';
+import { generateShowerSlots, generateLaundrySlots, getSlotCapacity } from '../serviceSlots';
+import { getMealServiceInfo } from '../mealServiceTime';
+
+const MONDAY = new Date(2025, 11, 22, 12); // December 22, 2025
+const WEDNESDAY = new Date(2025, 11, 24, 12);
+
+// Holiday week: showers run short, every other service is closed on Wednesday
+const holidayWeek = (overrides: Partial<ServiceScheduleEntry>): ServiceScheduleEntry => ({
+    service: 'showers',
+    weekday: 1,
+    startsOn: '2025-12-22',
+    endsOn: '2025-12-28',
+    seasonLabel: 'Holiday week',
+    isOpen: true,
+    startTime: '09:00',
+    endTime: '10:00',
+    slotMinutes: 20,
+    slotDurationMinutes: null,
+    slotCapacity: 3,
+    customSlots: [],
+    ...overrides,
+});
+
+describe('serviceSchedule', () => {
+    describe('getServiceHours', () => {
+        it('uses the regular weekly row by default', () => {
+            expect(getServiceHours(DEFAULT_SERVICE_SCHEDULE, 'showers', MONDAY)).toMatchObject({
+                startTime: '07:30',
+                endTime: '12:30',
+                slotCapacity: 2,
+            });
+            expect(getServiceHours(DEFAULT_SERVICE_SCHEDULE, 'meals', new Date(2025, 11, 23, 12))).toBeNull();
+        });
+
+        it('prefers a season covering the date over the regular week', () => {
+            const schedule = [...DEFAULT_SERVICE_SCHEDULE, holidayWeek({})];
+
+            expect(getServiceHours(schedule, 'showers', MONDAY)).toMatchObject({ startTime: '09:00', seasonLabel: 'Holiday week' });
+            // Outside the season the regular week applies again
+            expect(getServiceHours(schedule, 'showers', new Date(2025, 11, 29, 12))).toMatchObject({ startTime: '07:30' });
+        });
+
+        it('lets the latest-starting season win when seasons overlap', () => {
+            const schedule = [
+                ...DEFAULT_SERVICE_SCHEDULE,
+                holidayWeek({ startsOn: '2025-12-01', endsOn: null, seasonLabel: 'Winter', startTime: '08:00' }),
+                holidayWeek({}),
+            ];
+
+            expect(getServiceHours(schedule, 'showers', MONDAY)?.seasonLabel).toBe('Holiday week');
+            expect(getServiceHours(schedule, 'showers', new Date(2025, 11, 15, 12))?.seasonLabel).toBe('Winter');
+        });
+
+        it('treats a closed season day as closed', () => {
+            const schedule = [...DEFAULT_SERVICE_SCHEDULE, holidayWeek({ isOpen: false })];
+            expect(getServiceHours(schedule, 'showers', MONDAY)).toBeNull();
+        });
+    });
+
+    describe('buildServiceSlots', () => {
+        it('builds shower start times at the slot interval', () => {
+            expect(buildServiceSlots(holidayWeek({}))).toEqual(['09:00', '09:20', '09:40']);
+        });
+
+        it('builds laundry windows that end before closing', () => {
+            const saturday = getServiceHours(DEFAULT_SERVICE_SCHEDULE, 'laundry', new Date(2025, 11, 27, 12));
+            expect(buildServiceSlots(saturday)).toEqual([
+                '08:30 - 10:00',
+                '09:00 - 10:30',
+                '09:30 - 11:00',
+                '10:00 - 11:30',
+                '10:30 - 12:00',
+            ]);
+        });
+
+        it('uses custom slots as-is', () => {
+            const weekday = getServiceHours(DEFAULT_SERVICE_SCHEDULE, 'laundry', MONDAY);
+            expect(buildServiceSlots(weekday)).toHaveLength(5);
+            expect(buildServiceSlots(weekday)[2]).toBe('08:30 - 09:45');
+        });
+
+        it('returns no slots when closed', () => {
+            expect(buildServiceSlots(null)).toEqual([]);
+        });
+    });
+
+    describe('isServiceDay', () => {
+        it('is false only when every service is closed', () => {
+            const closed = (['meals', 'showers', 'laundry'] as const).map((service) =>
+                holidayWeek({ service, weekday: 3, isOpen: false })
+            );
+            const schedule = [...DEFAULT_SERVICE_SCHEDULE, ...closed];
+
+            expect(isServiceDay(DEFAULT_SERVICE_SCHEDULE, WEDNESDAY)).toBe(true);
+            expect(isServiceDay(schedule, WEDNESDAY)).toBe(false);
+            expect(isServiceDay(schedule, MONDAY)).toBe(true);
+        });
+    });
+
+    describe('resolveSiteSchedule', () => {
+        it('gives each site its own rows and falls back to the shared schedule', () => {
+            const schedule = [
+                ...DEFAULT_SERVICE_SCHEDULE,
+                holidayWeek({ siteId: 'site-sj', startsOn: null, endsOn: null, startTime: '10:00', endTime: '11:00' }),
+            ];
+
+            const sanJose = resolveSiteSchedule(schedule, 'site-sj');
+            expect(sanJose).toHaveLength(DEFAULT_SERVICE_SCHEDULE.length);
+            expect(getServiceHours(sanJose, 'showers', MONDAY)?.startTime).toBe('10:00');
+            expect(getServiceHours(sanJose, 'laundry', MONDAY)?.startTime).toBe('07:30');
+            expect(getServiceHours(resolveSiteSchedule(schedule, 'site-mv'), 'showers', MONDAY)?.startTime).toBe('07:30');
+        });
+
+        it('returns the schedule untouched when no site has its own hours', () => {
+            expect(resolveSiteSchedule(DEFAULT_SERVICE_SCHEDULE, 'site-sj')).toBe(DEFAULT_SERVICE_SCHEDULE);
+        });
+    });
+
+    describe('schedule-driven helpers', () => {
+        it('generates slots and capacity from the schedule passed in', () => {
+            const schedule = [...DEFAULT_SERVICE_SCHEDULE, holidayWeek({}), holidayWeek({ service: 'laundry', isOpen: false })];
+
+            expect(generateShowerSlots(MONDAY, schedule)).toEqual(['09:00', '09:20', '09:40']);
+            expect(getSlotCapacity('showers', MONDAY, schedule)).toBe(3);
+            expect(generateLaundrySlots(MONDAY, schedule)).toEqual([]);
+            expect(getSlotCapacity('laundry', MONDAY, schedule)).toBe(0);
+        });
+
+        it('derives meal service times from the schedule', () => {
+            const schedule = [...DEFAULT_SERVICE_SCHEDULE, holidayWeek({ service: 'meals', startTime: '11:30', endTime: '12:45' })];
+
+            expect(getMealServiceInfo(MONDAY, schedule)).toMatchObject({
+                startHour: 11,
+                startMinute: 30,
+                endHour: 12,
+                endMinute: 45,
+            });
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildStallBoard,
+    finishShowerChanges,
+    formatElapsed,
+    showerDurationStats,
+    stallCountFor,
+    startShowerChanges,
+    waitingShowers,
+    type StallShower,
+} from '../showerStalls';
+import { mapShowerRow } from '../mappers';
+
+const shower = (id: string, overrides: Partial<StallShower> = {}): StallShower => ({
+    id,
+    guestId: `g-${id}`,
+    status: 'booked',
+    time: null,
+    ...overrides,
+});
+
+describe('showerStalls', () => {
+    it('shows occupied, cleaning and free stalls', () => {
+        const board = buildStallBoard([
+            shower('a', { stallNumber: 1, startedAt: '2026-10-19T16:00:00Z' }),
+            shower('b', { status: 'done', stallNumber: 2, startedAt: '2026-10-19T15:30:00Z', finishedAt: '2026-10-19T15:45:00Z' }),
+            shower('c', { status: 'done', stallNumber: 3, startedAt: '2026-10-19T15:00:00Z', finishedAt: '2026-10-19T15:10:00Z', stallCleanedAt: '2026-10-19T15:12:00Z' }),
+        ], 4);
+
+        expect(board.map((s) => s.state)).toEqual(['occupied', 'cleaning', 'free', 'free']);
+        expect(board[0].shower?.id).toBe('a');
+        expect(board[1].shower?.id).toBe('b');
+    });
+
+    it('judges cleaning by the latest shower in the stall', () => {
+        const board = buildStallBoard([
+            shower('old', { status: 'done', stallNumber: 1, startedAt: '2026-10-19T15:00:00Z', finishedAt: '2026-10-19T15:10:00Z' }),
+            shower('new', { status: 'done', stallNumber: 1, startedAt: '2026-10-19T15:20:00Z', finishedAt: '2026-10-19T15:30:00Z', stallCleanedAt: '2026-10-19T15:31:00Z' }),
+        ], 1);
+
+        expect(board[0].state).toBe('free');
+    });
+
+    it('sizes the board from slot capacity or the highest stall used', () => {
+        expect(stallCountFor(2, [])).toBe(2);
+        expect(stallCountFor(2, [shower('a', { stallNumber: 3 })])).toBe(3);
+        expect(stallCountFor(0, [])).toBe(0);
+    });
+
+    it('lists waiting guests by slot time', () => {
+        const waiting = waitingShowers([
+            shower('late', { time: '09:30' }),
+            shower('started', { time: '08:00', stallNumber: 1, startedAt: '2026-10-19T15:00:00Z' }),
+            shower('early', { time: '08:30' }),
+            shower('waitlisted', { status: 'waitlisted' }),
+        ]);
+        expect(waiting.map((s) => s.id)).toEqual(['early', 'late']);
+    });
+
+    it('builds start and finish changes', () => {
+        const now = new Date('2026-10-19T16:00:00Z');
+        expect(startShowerChanges(2, now)).toEqual({
+            stallNumber: 2, startedAt: '2026-10-19T16:00:00.000Z', finishedAt: null, stallCleanedAt: null,
+        });
+        expect(finishShowerChanges(now)).toEqual({ status: 'done', finishedAt: '2026-10-19T16:00:00.000Z' });
+    });
+
+    it('summarizes shower durations overall and per stall', () => {
+        const stats = showerDurationStats([
+            shower('a', { stallNumber: 1, startedAt: '2026-10-19T15:00:00Z', finishedAt: '2026-10-19T15:10:00Z' }),
+            shower('b', { stallNumber: 1, startedAt: '2026-10-19T15:20:00Z', finishedAt: '2026-10-19T15:40:00Z' }),
+            shower('c', { stallNumber: 2, startedAt: '2026-10-19T15:00:00Z', finishedAt: '2026-10-19T15:15:00Z' }),
+            shower('untimed', { status: 'done' }),
+        ]);
+
+        expect(stats).toEqual({
+            count: 3,
+            averageMinutes: 15,
+            medianMinutes: 15,
+            longestMinutes: 20,
+            byStall: [
+                { stallNumber: 1, count: 2, averageMinutes: 15 },
+                { stallNumber: 2, count: 1, averageMinutes: 15 },
+            ],
+        });
+        expect(showerDurationStats([]).count).toBe(0);
+    });
+
+    it('formats elapsed time', () => {
+        expect(formatElapsed(754_000)).toBe('12:34');
+        expect(formatElapsed(-5)).toBe('0:00');
+    });
+
+    it('maps stall columns from shower rows', () => {
+        const mapped = mapShowerRow({
+            id: 's1',
+            guest_id: 'g1',
+            scheduled_for: '2026-10-19',
+            status: 'booked',
+            stall_number: 2,
+            started_at: '2026-10-19T16:00:00Z',
+            finished_at: null,
+            stall_cleaned_at: null,
+        });
+        expect(mapped).toEqual(expect.objectContaining({
+            stallNumber: 2,
+            startedAt: '2026-10-19T16:00:00Z',
+            finishedAt: null,
+            stallCleanedAt: null,
+        }));
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { filterBySite, sortSites, validateSite, type Site } from '../sites';
+
+const site = (overrides: Partial<Site>): Site => ({
+    id: 'mv',
+    name: 'Mountain View',
+    code: 'MV',
+    address: null,
+    isDefault: true,
+    active: true,
+    ...overrides,
+});
+
+const sites = [site({}), site({ id: 'sj', name: 'San Jose', code: 'SJ', isDefault: false })];
+
+describe('sites', () => {
+    it('lists the default site first, then by name', () => {
+        const sorted = sortSites([site({ id: 'a', name: 'Alviso', code: 'AL', isDefault: false }), ...sites]);
+        expect(sorted.map((s) => s.id)).toEqual(['mv', 'a', 'sj']);
+    });
+
+    it('validates names, codes and the default flag', () => {
+        expect(validateSite(site({ id: 'new', name: ' ' }), sites)).toBe('Site name is required');
+        expect(validateSite(site({ id: 'new', name: 'Gilroy', code: 'gil' }), sites)).toBe('Code must be 1-4 letters or digits');
+        expect(validateSite(site({ id: 'new', name: 'san jose', code: 'SJ2' }), sites)).toBe('san jose already exists');
+        expect(validateSite(site({ id: 'new', name: 'Gilroy', code: 'SJ' }), sites)).toBe('Code SJ is already used');
+        expect(validateSite(site({ active: false }), sites)).toBe('The default site must stay active');
+        expect(validateSite(site({ id: 'new', name: 'Gilroy', code: 'GIL', isDefault: false }), sites)).toBeNull();
+        expect(validateSite(sites[1], sites)).toBeNull();
+    });
+
+    it('filters records to a site, counting untagged records toward the default', () => {
+        const records = [
+            { id: 'r1', siteId: 'mv' },
+            { id: 'r2', siteId: 'sj' },
+            { id: 'r3', siteId: null },
+        ];
+
+        expect(filterBySite(records, null)).toBe(records);
+        expect(filterBySite(records, 'sj', 'mv').map((r) => r.id)).toEqual(['r2']);
+        expect(filterBySite(records, 'mv', 'mv').map((r) => r.id)).toEqual(['r1', 'r3']);
+        // Same input, same output, so memoized consumers don't recompute
+        expect(filterBySite(records, 'sj', 'mv')).toBe(filterBySite(records, 'sj', 'mv'));
+    });
+});
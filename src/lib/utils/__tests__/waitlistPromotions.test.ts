@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { nextWaitlistPosition, promotionMessage, promotionReason } from '../waitlistPromotions';
+import { mapShowerRow, mapWaitlistPromotionRow } from '../mappers';
+
+describe('waitlistPromotions', () => {
+    it('places a new guest after the last one waiting that day', () => {
+        const records = [
+            { status: 'waitlisted', date: '2026-10-19T19:00:00.000Z', waitlistPosition: 1 },
+            { status: 'waitlisted', date: '2026-10-19T19:00:00.000Z', waitlistPosition: 3 },
+            { status: 'booked', date: '2026-10-19T19:00:00.000Z', waitlistPosition: 7 },
+            { status: 'waitlisted', date: '2026-10-20T19:00:00.000Z', waitlistPosition: 9 },
+        ];
+        expect(nextWaitlistPosition(records, '2026-10-19')).toBe(4);
+        expect(nextWaitlistPosition(records, '2026-10-21')).toBe(1);
+    });
+
+    it('counts unnumbered waitlist entries from the start', () => {
+        expect(nextWaitlistPosition([{ status: 'waitlisted', date: '2026-10-19T19:00:00.000Z' }], '2026-10-19')).toBe(1);
+    });
+
+    it('describes a promotion', () => {
+        expect(promotionMessage('Johnny', { slotLabel: '09:30' })).toBe('Johnny moved off the waitlist to 9:30 AM');
+        expect(promotionReason({ freedStatus: 'no_show' })).toBe('a no-show');
+        expect(promotionReason({ freedStatus: 'cancelled' })).toBe('a cancellation');
+        expect(promotionReason({ freedStatus: 'other' })).toBe('a freed slot');
+    });
+
+    it('maps promotion rows and shower waitlist positions', () => {
+        expect(mapWaitlistPromotionRow({
+            id: 'wp1',
+            service_type: 'shower',
+            record_id: 's2',
+            guest_id: 'g2',
+            freed_record_id: 's1',
+            freed_status: 'cancelled',
+            scheduled_for: '2026-10-19',
+            slot_label: '09:00',
+            promoted_at: '2026-10-19T16:00:00Z',
+        })).toEqual({
+            id: 'wp1',
+            serviceType: 'shower',
+            recordId: 's2',
+            guestId: 'g2',
+            freedRecordId: 's1',
+            freedStatus: 'cancelled',
+            serviceDate: '2026-10-19',
+            slotLabel: '09:00',
+            promotedAt: '2026-10-19T16:00:00Z',
+        });
+        expect(mapShowerRow({ id: 's3', guest_id: 'g3', scheduled_for: '2026-10-19', status: 'waitlisted', waitlist_position: 2 }).waitlistPosition).toBe(2);
+    });
+});
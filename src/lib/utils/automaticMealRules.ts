@@ -0,0 +1,59 @@
+// Recurring bulk meal entries (mirrors public.automatic_meal_rules)
+
+import type { MealTypeEnum } from '@/types/database';
+import { WEEKDAY_NAMES } from './serviceSchedule';
+
+export type AutomaticMealType = Exclude<MealTypeEnum, 'guest'>;
+
+export interface AutomaticMealRule {
+    id?: string;
+    weekday: number;                 // 0 = Sunday
+    mealType: AutomaticMealType;
+    quantity: number;
+    note: string | null;
+    startsOn: string | null;         // YYYY-MM-DD, null = no start limit
+    endsOn: string | null;           // YYYY-MM-DD, null = open-ended
+    active: boolean;
+    effectiveFrom?: string | null;   // YYYY-MM-DD, set by the database when the rule is created or changed
+}
+
+// A meal_attendance row recorded by a rule
+export interface AutomaticMealEntry {
+    id: string;
+    mealType: AutomaticMealType;
+    quantity: number;
+    servedOn: string;
+    note: string | null;
+    ruleId: string | null;
+    recordedAt: string | null;
+}
+
+// Same labels the Meals page uses for bulk entries
+export const AUTOMATIC_MEAL_TYPES: { value: AutomaticMealType; label: string }[] = [
+    { value: 'rv', label: 'RV Meals' },
+    { value: 'lunch_bag', label: 'Lunch Bags' },
+    { value: 'day_worker', label: 'Day Worker' },
+    { value: 'extra', label: 'Extra Meals' },
+    { value: 'shelter', label: 'Shelter' },
+    { value: 'united_effort', label: 'United Effort' },
+];
+
+export const mealTypeLabel = (mealType: string) =>
+    AUTOMATIC_MEAL_TYPES.find((t) => t.value === mealType)?.label || mealType;
+
+// "100 RV Meals every Monday"
+export const describeRule = (rule: Pick<AutomaticMealRule, 'weekday' | 'mealType' | 'quantity'>) =>
+    `${rule.quantity} ${mealTypeLabel(rule.mealType)} every ${WEEKDAY_NAMES[rule.weekday]}`;
+
+// Whether a rule records anything on a YYYY-MM-DD date (ignores closures).
+// Days before the rule took effect are never backfilled.
+export const ruleAppliesOn = (rule: AutomaticMealRule, dateKey: string) =>
+    rule.active &&
+    new Date(`${dateKey}T12:00:00`).getDay() === rule.weekday &&
+    (!rule.effectiveFrom || dateKey >= rule.effectiveFrom) &&
+    (!rule.startsOn || dateKey >= rule.startsOn) &&
+    (!rule.endsOn || dateKey <= rule.endsOn);
+
+// Rules in weekday order, then by meal type label
+export const sortRules = (rules: AutomaticMealRule[]) =>
+    [...rules].sort((a, b) => a.weekday - b.weekday || mealTypeLabel(a.mealType).localeCompare(mealTypeLabel(b.mealType)));
@@ -0,0 +1,95 @@
+// Parts and labor logged against a bicycle repair (bicycle_repairs.parts, mechanic_name, labor_minutes)
+
+export interface BicycleRepairPart {
+    name: string;
+    quantity: number;
+    unitCost: number;            // dollars per unit
+}
+
+// Shape stored in the bicycle_repairs.parts jsonb array
+export interface BicycleRepairPartRow {
+    name: string;
+    quantity: number;
+    unit_cost: number;
+}
+
+// Suggestions for the part name field; mechanics can type anything
+export const COMMON_BICYCLE_PARTS = [
+    'Tube',
+    'Tire',
+    'Chain',
+    'Brake Pads',
+    'Brake Cable',
+    'Shifter Cable',
+    'Cable Housing',
+    'Grips',
+    'Pedals',
+    'Seat',
+    'Kickstand',
+    'Lights',
+    'Lock',
+    'Patch Kit',
+];
+
+const toNumber = (value: unknown) => {
+    const num = Number(value);
+    return Number.isFinite(num) ? num : 0;
+};
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/** Read the jsonb parts column, dropping anything malformed. */
+export function mapPartsFromRow(value: unknown): BicycleRepairPart[] {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((p) => p && typeof p.name === 'string' && p.name.trim())
+        .map((p) => ({
+            name: p.name.trim(),
+            quantity: Math.max(1, Math.round(toNumber(p.quantity)) || 1),
+            unitCost: Math.max(0, roundCents(toNumber(p.unit_cost ?? p.unitCost))),
+        }));
+}
+
+export const partsToRow = (parts: BicycleRepairPart[]): BicycleRepairPartRow[] =>
+    parts.map((p) => ({ name: p.name, quantity: p.quantity, unit_cost: p.unitCost }));
+
+export const partsCost = (parts: BicycleRepairPart[] | null | undefined) =>
+    roundCents((parts || []).reduce((sum, p) => sum + p.quantity * p.unitCost, 0));
+
+export const formatPartsCost = (cost: number) =>
+    cost.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+// "2× Tube, Chain"
+export const describeParts = (parts: BicycleRepairPart[] | null | undefined) =>
+    (parts || []).map((p) => (p.quantity > 1 ? `${p.quantity}× ${p.name}` : p.name)).join(', ');
+
+// 75 -> "1h 15m", 40 -> "40m"
+export function formatLaborMinutes(minutes: number | null | undefined): string {
+    const total = Math.max(0, Math.round(minutes || 0));
+    const hours = Math.floor(total / 60);
+    const rest = total % 60;
+    if (hours === 0) return `${rest}m`;
+    return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+/** Parts cost and labor hours per month (YYYY-MM) for completed repairs. */
+export function monthlyPartsAndLabor(
+    records: { date: string; status: string; parts?: BicycleRepairPart[]; laborMinutes?: number | null }[]
+): Map<string, { partsCost: number; laborHours: number }> {
+    const months = new Map<string, { partsCost: number; laborMinutes: number }>();
+    for (const record of records) {
+        if (record.status !== 'done' || !record.date) continue;
+        const d = new Date(record.date);
+        const month = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+        const totals = months.get(month) || { partsCost: 0, laborMinutes: 0 };
+        totals.partsCost += partsCost(record.parts);
+        totals.laborMinutes += record.laborMinutes || 0;
+        months.set(month, totals);
+    }
+    return new Map(
+        [...months.entries()].map(([month, t]) => [
+            month,
+            { partsCost: roundCents(t.partsCost), laborHours: Math.round((t.laborMinutes / 60) * 10) / 10 },
+        ])
+    );
+}
@@ -117,3 +117,57 @@ export const findPotentialDuplicates = (firstName: string, lastName: string, gue
 
     return potentialDuplicates.sort((a, b) => b.confidence - a.confidence);
 };
+
+export interface DuplicateCandidate<T extends DuplicateGuest = DuplicateGuest> {
+    a: T;
+    b: T;
+    reason: string;
+    confidence: number;
+}
+
+/**
+ * Order-independent key for a pair of guests
+ */
+export const duplicatePairKey = (idA: string, idB: string): string =>
+    idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+
+/**
+ * Scan the whole guest list for likely duplicate pairs
+ * Guests are only compared within the same last-name initial to keep the scan fast
+ * @param guests - All guests
+ * @param options.minConfidence - Drop pairs below this confidence
+ * @param options.excludePairs - Pair keys (see duplicatePairKey) already reviewed
+ * @returns Pairs sorted by confidence, highest first
+ */
+export const findDuplicateCandidates = <T extends DuplicateGuest>(
+    guests: T[],
+    { minConfidence = 0, excludePairs }: { minConfidence?: number; excludePairs?: Set<string> } = {}
+): DuplicateCandidate<T>[] => {
+    if (!guests || guests.length < 2) return [];
+
+    const groups = new Map<string, T[]>();
+    for (const guest of guests) {
+        if (!guest?.firstName || !guest?.lastName) continue;
+        const initial = guest.lastName.trim().charAt(0).toLowerCase();
+        if (!groups.has(initial)) groups.set(initial, []);
+        groups.get(initial)!.push(guest);
+    }
+
+    const pairs = new Map<string, DuplicateCandidate<T>>();
+    for (const group of groups.values()) {
+        for (const guest of group) {
+            const others = group.filter((other) => other.id !== guest.id);
+            // Preferred-name matches only work one way, so each guest is checked against the rest
+            for (const match of findPotentialDuplicates(guest.firstName!, guest.lastName!, others)) {
+                if (match.confidence < minConfidence) continue;
+                const key = duplicatePairKey(guest.id, match.guest.id);
+                if (excludePairs?.has(key)) continue;
+                const existing = pairs.get(key);
+                if (existing && existing.confidence >= match.confidence) continue;
+                pairs.set(key, { a: guest, b: match.guest as T, reason: match.reason, confidence: match.confidence });
+            }
+        }
+    }
+
+    return Array.from(pairs.values()).sort((x, y) => y.confidence - x.confidence);
+};
@@ -0,0 +1,67 @@
+// Ban history (guest_bans): each ban issued, its per-service scope, and when
+// it ended or was lifted. The guests row only mirrors the current ban.
+
+import { computeIsGuestBanned } from './normalizers';
+
+export interface GuestBan {
+    id: string;
+    guestId: string;
+    reason: string;
+    bannedFromBicycle: boolean;
+    bannedFromMeals: boolean;
+    bannedFromShower: boolean;
+    bannedFromLaundry: boolean;
+    issuedBy: string | null;
+    startsAt: string;
+    endsAt: string;
+    liftedAt: string | null;
+    liftedBy: string | null;
+    createdAt?: string;
+}
+
+export type GuestBanState = 'active' | 'scheduled' | 'expired' | 'lifted';
+
+export const banState = (ban: GuestBan, now: number = Date.now()): GuestBanState => {
+    if (ban.liftedAt) return 'lifted';
+    if (new Date(ban.endsAt).getTime() <= now) return 'expired';
+    if (new Date(ban.startsAt).getTime() > now) return 'scheduled';
+    return 'active';
+};
+
+type GuestBanScope = Pick<GuestBan, 'bannedFromBicycle' | 'bannedFromMeals' | 'bannedFromShower' | 'bannedFromLaundry'>;
+
+const SCOPE_LABELS: { key: keyof GuestBanScope; label: string }[] = [
+    { key: 'bannedFromMeals', label: 'Meals' },
+    { key: 'bannedFromShower', label: 'Showers' },
+    { key: 'bannedFromLaundry', label: 'Laundry' },
+    { key: 'bannedFromBicycle', label: 'Bicycle' },
+];
+
+// "Meals, Showers", or "All services" for a blanket ban
+export const banScopeLabel = (ban: GuestBanScope) => {
+    const scoped = SCOPE_LABELS.filter(({ key }) => ban[key]).map(({ label }) => label);
+    return scoped.length > 0 ? scoped.join(', ') : 'All services';
+};
+
+/**
+ * Whether the guest's current ban still applies. isBanned is computed when the
+ * row is mapped, so re-check bannedUntil to drop bans that expired since.
+ */
+export const isGuestBanActive = (guest: { isBanned?: boolean; bannedUntil?: string | null }) =>
+    guest.bannedUntil !== undefined ? computeIsGuestBanned(guest.bannedUntil) : Boolean(guest.isBanned);
+
+// A ban with no program flags set covers every program, meals included
+export const isGuestBannedFromMeals = (guest: {
+    isBanned?: boolean;
+    bannedUntil?: string | null;
+    bannedFromMeals?: boolean;
+    bannedFromShower?: boolean;
+    bannedFromLaundry?: boolean;
+    bannedFromBicycle?: boolean;
+}) =>
+    isGuestBanActive(guest) &&
+    Boolean(guest.bannedFromMeals || (!guest.bannedFromShower && !guest.bannedFromLaundry && !guest.bannedFromBicycle));
+
+// Newest ban first
+export const sortBansNewestFirst = (bans: GuestBan[]) =>
+    [...bans].sort((a, b) => b.startsAt.localeCompare(a.startsAt));
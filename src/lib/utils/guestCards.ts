@@ -0,0 +1,84 @@
+import { openPrintDialog } from './laundryBags';
+
+export interface GuestCardGuest {
+    guestId: string;
+    firstName?: string;
+    lastName?: string;
+    preferredName?: string;
+    name?: string;
+}
+
+export interface GuestCard {
+    code: string;           // external_id, encoded in the QR code
+    displayName: string;    // preferred name when set
+    legalName: string | null; // shown underneath when it differs from the display name
+}
+
+// Wallet size (ID-1 / CR80), landscape
+const CARD_WIDTH_MM = 85.6;
+const CARD_HEIGHT_MM = 54;
+
+export const toGuestCard = (guest: GuestCardGuest): GuestCard => {
+    const legalName = `${guest.firstName || ''} ${guest.lastName || ''}`.trim() || guest.name || '';
+    const displayName = guest.preferredName?.trim() || legalName;
+    return {
+        code: guest.guestId.trim(),
+        displayName,
+        legalName: legalName && legalName !== displayName ? legalName : null,
+    };
+};
+
+/**
+ * Print one wallet-size card per page: preferred name on the left, a QR code
+ * of the guest's external_id on the right for check-in to scan.
+ */
+export const printGuestCards = async (cards: GuestCard[]) => {
+    if (cards.length === 0) return;
+
+    // Dynamic imports keep jspdf and the QR encoder out of the main bundle
+    const [{ default: jsPDF }, QRCode] = await Promise.all([import('jspdf'), import('qrcode')]);
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: [CARD_HEIGHT_MM, CARD_WIDTH_MM] });
+    const margin = 5;
+    const qrSize = CARD_HEIGHT_MM - margin * 2 - 6;
+    const qrLeft = CARD_WIDTH_MM - margin - qrSize;
+    const textWidth = qrLeft - margin * 2;
+
+    cards.forEach((card, index) => {
+        if (index > 0) doc.addPage();
+
+        doc.setTextColor(17, 24, 39);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(8);
+        doc.text("HOPE'S CORNER", margin, margin + 3);
+
+        doc.setFontSize(16);
+        const nameLines = doc.splitTextToSize(card.displayName, textWidth).slice(0, 2);
+        doc.text(nameLines, margin, margin + 13);
+        if (card.legalName) {
+            doc.setFont('helvetica', 'normal');
+            doc.setFontSize(8);
+            doc.text(doc.splitTextToSize(card.legalName, textWidth)[0], margin, margin + 13 + nameLines.length * 6);
+        }
+
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7);
+        doc.text('GUEST ID', margin, CARD_HEIGHT_MM - margin - 5);
+        doc.setFont('courier', 'bold');
+        doc.setFontSize(10);
+        doc.text(card.code, margin, CARD_HEIGHT_MM - margin);
+
+        // QR code, drawn module by module with its quiet zone inside qrSize
+        const { modules } = QRCode.create(card.code, { errorCorrectionLevel: 'M' });
+        const moduleSize = qrSize / (modules.size + 8);
+        const qrTop = (CARD_HEIGHT_MM - qrSize) / 2;
+        doc.setFillColor(0, 0, 0);
+        for (let row = 0; row < modules.size; row++) {
+            for (let col = 0; col < modules.size; col++) {
+                if (!modules.get(row, col)) continue;
+                doc.rect(qrLeft + (col + 4) * moduleSize, qrTop + (row + 4) * moduleSize, moduleSize, moduleSize, 'F');
+            }
+        }
+    });
+
+    openPrintDialog(doc, cards.length === 1 ? `guest-card-${cards[0].code}.pdf` : 'guest-cards.pdf');
+};
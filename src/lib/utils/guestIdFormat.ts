@@ -0,0 +1,74 @@
+// Guest ID format (app_settings.guest_id_format): how new guests' external_id
+// is built. Existing IDs are never rewritten when the format changes.
+
+export interface GuestIdFormat {
+    prefix: string;       // e.g. "G"
+    siteCode: string;     // e.g. "MV"; empty for none
+    checkDigit: boolean;  // append a check character that catches mistyped IDs
+}
+
+export const DEFAULT_GUEST_ID_FORMAT: GuestIdFormat = {
+    prefix: 'G',
+    siteCode: '',
+    checkDigit: false,
+};
+
+const MAX_CODE_LENGTH = 4;
+const CODE_PATTERN = /^[A-Z0-9]*$/;
+const ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const normalizeCode = (value: unknown, fallback: string) =>
+    typeof value === 'string' ? value.trim().toUpperCase() : fallback;
+
+// Fill gaps in a stored format (older rows, partial JSON) with the defaults
+export const normalizeGuestIdFormat = (value?: Partial<GuestIdFormat> | null): GuestIdFormat => ({
+    prefix: normalizeCode(value?.prefix, DEFAULT_GUEST_ID_FORMAT.prefix),
+    siteCode: normalizeCode(value?.siteCode, DEFAULT_GUEST_ID_FORMAT.siteCode),
+    checkDigit: typeof value?.checkDigit === 'boolean' ? value.checkDigit : DEFAULT_GUEST_ID_FORMAT.checkDigit,
+});
+
+export const validateGuestIdFormat = (format: GuestIdFormat): string | null => {
+    if (!format.prefix) return 'Prefix is required';
+    if (!CODE_PATTERN.test(format.prefix) || format.prefix.length > MAX_CODE_LENGTH) {
+        return `Prefix must be 1-${MAX_CODE_LENGTH} letters or digits`;
+    }
+    if (!CODE_PATTERN.test(format.siteCode) || format.siteCode.length > MAX_CODE_LENGTH) {
+        return `Site code must be up to ${MAX_CODE_LENGTH} letters or digits`;
+    }
+    return null;
+};
+
+/**
+ * Luhn mod 36 check character over the letters and digits of an ID.
+ * Catches any single mistyped character and most swapped neighbours.
+ */
+export const computeCheckCharacter = (value: string): string => {
+    const codes = value.toUpperCase().split('').map((c) => ALPHABET.indexOf(c)).filter((code) => code >= 0);
+    let factor = 2;
+    let sum = 0;
+    for (let i = codes.length - 1; i >= 0; i--) {
+        const addend = factor * codes[i];
+        sum += Math.floor(addend / ALPHABET.length) + (addend % ALPHABET.length);
+        factor = factor === 2 ? 1 : 2;
+    }
+    return ALPHABET[(ALPHABET.length - (sum % ALPHABET.length)) % ALPHABET.length];
+};
+
+export const hasValidCheckCharacter = (id: string): boolean => {
+    const trimmed = id.trim().toUpperCase();
+    return trimmed.length > 1 && computeCheckCharacter(trimmed.slice(0, -1)) === trimmed.slice(-1);
+};
+
+// e.g. G + MV + base-36 time + 3 random digits (+ check character)
+export const buildGuestId = (format: GuestIdFormat, now = Date.now(), random = Math.random()): string => {
+    const body =
+        format.prefix +
+        format.siteCode +
+        now.toString(36).toUpperCase() +
+        Math.floor(random * 1000).toString().padStart(3, '0');
+    return format.checkDigit ? body + computeCheckCharacter(body) : body;
+};
+
+// A sample ID for settings screens
+export const exampleGuestId = (format: GuestIdFormat) =>
+    buildGuestId(format, Date.UTC(2026, 0, 1), 0.042);
@@ -0,0 +1,87 @@
+// Guest merges (mirrors public.guest_merges and the merge_guests() payload)
+
+export interface GuestMerge {
+    id: string;
+    keptGuestId: string;
+    mergedGuestId: string;
+    mergedGuestName: string;
+    movedRecordCount: number;
+    mergedBy: string | null;
+    mergedAt: string;
+    undoUntil: string;
+    undoneAt: string | null;
+}
+
+export interface MergeableGuest {
+    id: string;
+    firstName?: string;
+    lastName?: string;
+    preferredName?: string;
+    housingStatus?: string;
+    age?: string;
+    gender?: string;
+    location?: string;
+    notes?: string;
+    bicycleDescription?: string;
+    photoPath?: string | null;
+    createdAt?: string;
+}
+
+export type MergeFieldKey = Exclude<keyof MergeableGuest, 'id' | 'createdAt'>;
+
+export type MergeFieldSource = 'kept' | 'merged';
+
+export type MergeFieldSelection = Record<MergeFieldKey, MergeFieldSource>;
+
+export const MERGE_FIELDS: { key: MergeFieldKey; label: string; column: string }[] = [
+    { key: 'firstName', label: 'First Name', column: 'first_name' },
+    { key: 'lastName', label: 'Last Name', column: 'last_name' },
+    { key: 'preferredName', label: 'Preferred Name', column: 'preferred_name' },
+    { key: 'housingStatus', label: 'Housing Status', column: 'housing_status' },
+    { key: 'age', label: 'Age Group', column: 'age_group' },
+    { key: 'gender', label: 'Gender', column: 'gender' },
+    { key: 'location', label: 'Location', column: 'location' },
+    { key: 'notes', label: 'Notes', column: 'notes' },
+    { key: 'bicycleDescription', label: 'Bicycle', column: 'bicycle_description' },
+    { key: 'photoPath', label: 'Photo', column: 'photo_path' },
+];
+
+export const getMergeFieldValue = (guest: MergeableGuest, key: MergeFieldKey): string =>
+    (guest[key] || '').trim();
+
+// Fields where the two records disagree, in display order
+export const getDifferingMergeFields = (kept: MergeableGuest, merged: MergeableGuest) =>
+    MERGE_FIELDS.filter(({ key }) => getMergeFieldValue(kept, key) !== getMergeFieldValue(merged, key));
+
+// Keep the kept record's values, filling its blanks from the duplicate
+export const getDefaultMergeSelection = (kept: MergeableGuest, merged: MergeableGuest): MergeFieldSelection =>
+    Object.fromEntries(
+        MERGE_FIELDS.map(({ key }) => [
+            key,
+            !getMergeFieldValue(kept, key) && getMergeFieldValue(merged, key) ? 'merged' : 'kept',
+        ])
+    ) as MergeFieldSelection;
+
+/**
+ * Build the p_fields argument for merge_guests(): only values taken from the
+ * duplicate are sent; everything else stays as the kept guest has it
+ */
+export const buildMergeFieldsPayload = (
+    kept: MergeableGuest,
+    merged: MergeableGuest,
+    selection: Partial<MergeFieldSelection>
+): Record<string, string | null> => {
+    const payload: Record<string, string | null> = {};
+    for (const { key, column } of getDifferingMergeFields(kept, merged)) {
+        if (selection[key] !== 'merged') continue;
+        payload[column] = getMergeFieldValue(merged, key) || null;
+    }
+    return payload;
+};
+
+// The record entered first is the one staff usually keep
+export const orderMergePair = <T extends MergeableGuest>(a: T, b: T): [T, T] =>
+    (b.createdAt || '') < (a.createdAt || '') ? [b, a] : [a, b];
+
+export const isMergeUndoable = (merge: Pick<GuestMerge, 'undoneAt' | 'undoUntil'>, now = Date.now()) =>
+    !merge.undoneAt && new Date(merge.undoUntil).getTime() > now;
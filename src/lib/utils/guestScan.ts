@@ -0,0 +1,19 @@
+// Scanned guest cards: the QR code (or a barcode printed from the same ID)
+// carries the guest's external_id.
+
+// Hand-held scanners configured to send an AIM symbology identifier prefix it
+// to the code, e.g. "]Q1" for QR or "]C0" for Code 128
+const SYMBOLOGY_PREFIX = /^\][A-Za-z][0-9A-Za-z]/;
+
+export const normalizeScannedCode = (value: string): string =>
+    value.trim().replace(SYMBOLOGY_PREFIX, '').replace(/\s+/g, '').toUpperCase();
+
+/**
+ * The guest a scanned or typed card code belongs to. Matching is exact apart
+ * from case and whitespace, so a partial or misread code never picks a guest.
+ */
+export const findGuestByScannedCode = <T extends { guestId?: string | null }>(guests: T[], value: string): T | null => {
+    const code = normalizeScannedCode(value);
+    if (!code) return null;
+    return guests.find((guest) => (guest.guestId || '').trim().toUpperCase() === code) || null;
+};
@@ -0,0 +1,182 @@
+// Everything a guest has received, merged into one chronological list
+
+import { pacificDateStringFrom } from './date';
+import { mealTypeLabel } from './automaticMealRules';
+
+export type TimelineCategory =
+    | 'meal'
+    | 'shower'
+    | 'laundry'
+    | 'bicycle'
+    | 'haircut'
+    | 'holiday'
+    | 'item'
+    | 'warning'
+    | 'reminder'
+    | 'waiver';
+
+export const TIMELINE_CATEGORIES: { value: TimelineCategory; label: string }[] = [
+    { value: 'meal', label: 'Meals' },
+    { value: 'shower', label: 'Showers' },
+    { value: 'laundry', label: 'Laundry' },
+    { value: 'bicycle', label: 'Bicycle' },
+    { value: 'haircut', label: 'Haircuts' },
+    { value: 'holiday', label: 'Holiday' },
+    { value: 'item', label: 'Items' },
+    { value: 'warning', label: 'Warnings' },
+    { value: 'reminder', label: 'Reminders' },
+    { value: 'waiver', label: 'Waivers' },
+];
+
+// Categories that mean the guest came in for a service (warnings etc. do not)
+const VISIT_CATEGORIES = new Set<TimelineCategory>(['meal', 'shower', 'laundry', 'bicycle', 'haircut', 'holiday', 'item']);
+
+export interface TimelineEvent {
+    id: string;                  // "<category>:<row id>[:<suffix>]"
+    category: TimelineCategory;
+    occurredAt: string;          // ISO timestamp used for ordering
+    dateKey: string;             // Pacific YYYY-MM-DD
+    title: string;
+    detail?: string | null;
+}
+
+type Row = Record<string, any>;
+
+// Raw rows per source table, all filtered to one guest
+export interface GuestTimelineRows {
+    meal_attendance?: Row[];
+    shower_reservations?: Row[];
+    laundry_bookings?: Row[];
+    bicycle_repairs?: Row[];
+    haircut_visits?: Row[];
+    holiday_visits?: Row[];
+    items_distributed?: Row[];
+    guest_warnings?: Row[];
+    guest_reminders?: Row[];
+    service_waivers?: Row[];
+}
+
+export const TIMELINE_SOURCES = [
+    'meal_attendance',
+    'shower_reservations',
+    'laundry_bookings',
+    'bicycle_repairs',
+    'haircut_visits',
+    'holiday_visits',
+    'items_distributed',
+    'guest_warnings',
+    'guest_reminders',
+    'service_waivers',
+] as const satisfies readonly (keyof GuestTimelineRows)[];
+
+// When each source's event happened; a guest's rows are paged through newest first by it
+export const TIMELINE_ORDER_COLUMNS: Record<(typeof TIMELINE_SOURCES)[number], string> = {
+    meal_attendance: 'recorded_at',
+    shower_reservations: 'created_at',
+    laundry_bookings: 'created_at',
+    bicycle_repairs: 'requested_at',
+    haircut_visits: 'served_at',
+    holiday_visits: 'served_at',
+    items_distributed: 'distributed_at',
+    guest_warnings: 'created_at',
+    guest_reminders: 'created_at',
+    service_waivers: 'signed_at',
+};
+
+// Date-only columns are pinned to midday so they land on the right Pacific day
+const fromDate = (date: string | null | undefined) => (date ? `${date.slice(0, 10)}T20:00:00.000Z` : null);
+
+const titleCase = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, (c) => c.toUpperCase());
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+function event(
+    category: TimelineCategory,
+    id: string,
+    occurredAt: string | null | undefined,
+    title: string,
+    detail?: string | null
+): TimelineEvent | null {
+    if (!occurredAt) return null;
+    return { id: `${category}:${id}`, category, occurredAt, dateKey: pacificDateStringFrom(occurredAt), title, detail: detail || null };
+}
+
+/** Merge a guest's rows from every service table, newest first. */
+export function buildGuestTimeline(rows: GuestTimelineRows): TimelineEvent[] {
+    const events: (TimelineEvent | null)[] = [];
+
+    for (const r of rows.meal_attendance || []) {
+        const type = r.meal_type || 'guest';
+        const label = type === 'guest' ? 'Meal' : mealTypeLabel(type);
+        events.push(event('meal', r.id, fromDate(r.served_on) || r.recorded_at, type === 'guest' ? plural(r.quantity || 1, label.toLowerCase()) : `${r.quantity || 1} ${label}`, r.notes));
+    }
+    for (const r of rows.shower_reservations || []) {
+        events.push(event('shower', r.id, fromDate(r.scheduled_for) || r.created_at, 'Shower', [r.scheduled_time, titleCase(r.status || '')].filter(Boolean).join(' · ')));
+    }
+    for (const r of rows.laundry_bookings || []) {
+        events.push(event('laundry', r.id, fromDate(r.scheduled_for) || r.created_at, `${titleCase(r.laundry_type || 'onsite')} laundry`, [r.bag_number && `Bag ${r.bag_number}`, titleCase(r.status || '')].filter(Boolean).join(' · ')));
+    }
+    for (const r of rows.bicycle_repairs || []) {
+        const types: string[] = r.repair_types?.length ? r.repair_types : [r.repair_type].filter(Boolean);
+        events.push(event('bicycle', r.id, r.requested_at, 'Bicycle repair', [types.join(', '), titleCase(r.status || '')].filter(Boolean).join(' · ')));
+    }
+    for (const r of rows.haircut_visits || []) {
+        events.push(event('haircut', r.id, r.served_at || fromDate(r.service_date), 'Haircut'));
+    }
+    for (const r of rows.holiday_visits || []) {
+        events.push(event('holiday', r.id, r.served_at || fromDate(r.visit_date), 'Holiday service'));
+    }
+    for (const r of rows.items_distributed || []) {
+        events.push(event('item', r.id, r.distributed_at, titleCase(r.item_key || 'Item')));
+    }
+    for (const r of rows.guest_warnings || []) {
+        events.push(event('warning', r.id, r.created_at, r.active === false ? 'Warning (cleared)' : 'Warning', r.message));
+    }
+    for (const r of rows.guest_reminders || []) {
+        events.push(event('reminder', r.id, r.created_at, 'Reminder added', r.message));
+        if (r.dismissed_at) {
+            const dismissed = event('reminder', r.id, r.dismissed_at, 'Reminder dismissed', r.message);
+            if (dismissed) events.push({ ...dismissed, id: `${dismissed.id}:dismissed` });
+        }
+    }
+    for (const r of rows.service_waivers || []) {
+        const service = titleCase(r.service_type || '');
+        events.push(event('waiver', r.id, r.signed_at, `${service} waiver signed`));
+        if (r.dismissed_at) {
+            const dismissed = event('waiver', r.id, r.dismissed_at, `${service} waiver dismissed`, r.dismissed_reason);
+            if (dismissed) events.push({ ...dismissed, id: `${dismissed.id}:dismissed` });
+        }
+    }
+
+    return (events.filter(Boolean) as TimelineEvent[]).sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
+}
+
+export interface TimelineFilter {
+    categories?: TimelineCategory[];   // empty or missing = all
+    from?: string;                     // YYYY-MM-DD inclusive
+    to?: string;                       // YYYY-MM-DD inclusive
+}
+
+export const filterTimeline = (events: TimelineEvent[], { categories, from, to }: TimelineFilter) =>
+    events.filter((e) =>
+        (!categories?.length || categories.includes(e.category)) &&
+        (!from || e.dateKey >= from) &&
+        (!to || e.dateKey <= to)
+    );
+
+/**
+ * Days the guest came in for a service, counted per month (YYYY-MM),
+ * oldest first. Several services on one day count as one visit.
+ */
+export function monthlyVisitCounts(events: TimelineEvent[]): { month: string; visits: number }[] {
+    const daysByMonth = new Map<string, Set<string>>();
+    for (const e of events) {
+        if (!VISIT_CATEGORIES.has(e.category)) continue;
+        const month = e.dateKey.slice(0, 7);
+        if (!daysByMonth.has(month)) daysByMonth.set(month, new Set());
+        daysByMonth.get(month)!.add(e.dateKey);
+    }
+    return [...daysByMonth.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, days]) => ({ month, visits: days.size }));
+}
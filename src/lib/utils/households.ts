@@ -0,0 +1,57 @@
+// Households (mirrors public.households and public.household_members)
+
+import type { HouseholdRole } from '@/types/database';
+
+export type { HouseholdRole };
+
+export interface Household {
+    id: string;
+    name: string;
+    headGuestId: string | null;
+    // Base meals per day for all members together; null = per-guest limits only
+    mealAllowance: number | null;
+    notes?: string | null;
+    createdAt?: string;
+}
+
+export interface HouseholdMember {
+    id: string;
+    householdId: string;
+    guestId: string;
+    role: HouseholdRole;
+    createdAt?: string;
+}
+
+export const HOUSEHOLD_ROLES: HouseholdRole[] = ['head', 'partner', 'child', 'parent', 'relative', 'other'];
+
+export const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, string> = {
+    head: 'Head of household',
+    partner: 'Partner',
+    child: 'Child',
+    parent: 'Parent',
+    relative: 'Relative',
+    other: 'Other',
+};
+
+// Head first, then by role, keeping insertion order within a role
+export const sortHouseholdMembers = <T extends Pick<HouseholdMember, 'role'>>(members: T[]) =>
+    [...members].sort((a, b) => HOUSEHOLD_ROLES.indexOf(a.role) - HOUSEHOLD_ROLES.indexOf(b.role));
+
+/**
+ * Unduplicated households among the given guests: every household with at
+ * least one of them counts once, and a guest outside any household counts as
+ * a household of one.
+ */
+export function countUnduplicatedHouseholds(
+    guestIds: Iterable<string>,
+    householdIdByGuest: ReadonlyMap<string, string>
+): number {
+    const households = new Set<string>();
+    let singles = 0;
+    for (const guestId of guestIds) {
+        const householdId = householdIdByGuest.get(guestId);
+        if (householdId) households.add(householdId);
+        else singles++;
+    }
+    return households.size + singles;
+}
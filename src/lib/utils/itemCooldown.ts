@@ -0,0 +1,88 @@
+// Per-guest cooldown rules for items in the item catalog
+
+export type ItemCooldownType = 'rolling_days' | 'weekly_reset' | 'monthly_cap' | 'unlimited';
+
+export interface ItemCooldownPolicy {
+    cooldownType: ItemCooldownType;
+    cooldownDays?: number | null;    // rolling_days: days after the last distribution
+    resetWeekday?: number | null;    // weekly_reset: 0 = Sunday ... 6 = Saturday
+    monthlyLimit?: number | null;    // monthly_cap: distributions per calendar month
+}
+
+export interface ItemAvailability {
+    available: boolean;
+    nextAvailable?: Date;
+    daysRemaining?: number;
+}
+
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const startOfDay = (date: Date) => {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+    return d;
+};
+
+/**
+ * Decide whether a guest can receive an item again.
+ * `history` holds the guest's previous distributions of this item (any order).
+ */
+export function getItemAvailability(
+    policy: ItemCooldownPolicy,
+    history: Date[],
+    now: Date = new Date()
+): ItemAvailability {
+    if (policy.cooldownType === 'unlimited' || history.length === 0) {
+        return { available: true };
+    }
+
+    const today = startOfDay(now);
+    let nextAvailable: Date | null = null;
+
+    if (policy.cooldownType === 'monthly_cap') {
+        const limit = policy.monthlyLimit ?? 0;
+        const givenThisMonth = history.filter(
+            (d) => d.getFullYear() === now.getFullYear() && d.getMonth() === now.getMonth()
+        ).length;
+        if (limit > 0 && givenThisMonth < limit) {
+            return { available: true };
+        }
+        nextAvailable = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+    } else {
+        const last = startOfDay(new Date(Math.max(...history.map((d) => d.getTime()))));
+
+        if (policy.cooldownType === 'weekly_reset') {
+            // Available again on the next reset weekday strictly after the last distribution
+            const resetDay = policy.resetWeekday ?? 1;
+            let daysUntilReset = (resetDay - last.getDay() + 7) % 7;
+            if (daysUntilReset === 0) daysUntilReset = 7;
+            nextAvailable = new Date(last);
+            nextAvailable.setDate(last.getDate() + daysUntilReset);
+        } else {
+            nextAvailable = new Date(last);
+            nextAvailable.setDate(last.getDate() + (policy.cooldownDays ?? 0));
+            nextAvailable.setHours(0, 0, 0, 0);
+        }
+    }
+
+    if (today < nextAvailable) {
+        const diffDays = Math.ceil((nextAvailable.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+        return { available: false, nextAvailable, daysRemaining: diffDays };
+    }
+
+    return { available: true };
+}
+
+// Short label for a policy, e.g. "15 Days", "Weekly (Mon)", "2 / Month"
+export function describeCooldown(policy: ItemCooldownPolicy): string {
+    switch (policy.cooldownType) {
+        case 'rolling_days':
+            return `${policy.cooldownDays ?? 0} Days`;
+        case 'weekly_reset':
+            return `Weekly (${WEEKDAY_SHORT[policy.resetWeekday ?? 1]})`;
+        case 'monthly_cap':
+            return `${policy.monthlyLimit ?? 0} / Month`;
+        default:
+            return 'Unlimited';
+    }
+}
@@ -0,0 +1,161 @@
+import { pacificDateStringFrom } from './date';
+import { encodeCode128 } from './code128';
+import type { jsPDF } from 'jspdf';
+
+export interface LaundryBagRecord {
+    id: string;
+    guestId: string;
+    date: string;
+    status: string;
+    bagNumber?: string;
+    laundryType?: string;
+    time?: string | null;
+}
+
+export interface LaundryBagTag {
+    code: string;
+    bagNumber: string;
+    guestName: string;
+    slot: string | null;
+    laundryType: 'onsite' | 'offsite';
+    dateKey: string;
+}
+
+const TAG_PREFIX = 'LB';
+const TAG_PATTERN = /^LB-?(\d{8})-(.+)$/i;
+
+const ONSITE_FLOW = ['waiting', 'washer', 'dryer', 'done', 'picked_up'];
+const OFFSITE_FLOW = ['pending', 'transported', 'returned', 'offsite_picked_up'];
+const FINISHED_STATUSES = new Set(['picked_up', 'offsite_picked_up', 'cancelled']);
+
+const isOffsite = (record: Pick<LaundryBagRecord, 'laundryType'>) => record.laundryType === 'offsite';
+
+// Suggested bag number for a service day: one past the highest numeric bag this device has seen.
+// assign_laundry_bag_number() picks the final number on the server.
+export const nextBagNumber = (records: LaundryBagRecord[], dateKey: string): string => {
+    const highest = records.reduce((max, record) => {
+        if (pacificDateStringFrom(record.date) !== dateKey) return max;
+        const bag = String(record.bagNumber ?? '').trim();
+        return /^\d+$/.test(bag) ? Math.max(max, Number(bag)) : max;
+    }, 0);
+    return String(highest + 1);
+};
+
+// e.g. ("2026-10-19", "7") -> "LB-20261019-7"
+export const formatBagTagCode = (dateKey: string, bagNumber: string) =>
+    `${TAG_PREFIX}-${dateKey.replace(/-/g, '')}-${bagNumber.trim()}`;
+
+// A scanned tag carries its service day; a typed bag number alone has none
+export const parseBagTagCode = (value: string): { dateKey: string | null; bagNumber: string } | null => {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    const match = trimmed.match(TAG_PATTERN);
+    if (!match) return { dateKey: null, bagNumber: trimmed.replace(/^#/, '') };
+    const [, digits, bagNumber] = match;
+    return { dateKey: `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6)}`, bagNumber: bagNumber.trim() };
+};
+
+/**
+ * Find the booking a tag belongs to. Typed bag numbers match today's bookings first,
+ * then the most recent unfinished booking from an earlier day.
+ */
+export const findLaundryByTag = <T extends LaundryBagRecord>(records: T[], value: string, today: string): T | null => {
+    const parsed = parseBagTagCode(value);
+    if (!parsed) return null;
+    const bag = parsed.bagNumber.toLowerCase();
+    const matches = records.filter(
+        (r) => r.status !== 'cancelled' && String(r.bagNumber ?? '').trim().toLowerCase() === bag
+    );
+
+    if (parsed.dateKey) {
+        return matches.find((r) => pacificDateStringFrom(r.date) === parsed.dateKey) || null;
+    }
+
+    const todays = matches.find((r) => pacificDateStringFrom(r.date) === today);
+    if (todays) return todays;
+    return matches
+        .filter((r) => !FINISHED_STATUSES.has(r.status))
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0] || null;
+};
+
+// The status a scan moves a booking to, or null once it has been picked up
+export const nextLaundryStatus = (record: Pick<LaundryBagRecord, 'status' | 'laundryType'>): string | null => {
+    const flow = isOffsite(record) ? OFFSITE_FLOW : ONSITE_FLOW;
+    // Older off-site bookings start as waiting rather than pending
+    const status = isOffsite(record) && record.status === 'waiting' ? 'pending' : record.status;
+    const index = flow.indexOf(status);
+    if (index === -1 || index === flow.length - 1) return null;
+    return flow[index + 1];
+};
+
+export const toBagTag = (record: LaundryBagRecord, guestName: string): LaundryBagTag => {
+    const dateKey = pacificDateStringFrom(record.date);
+    const bagNumber = String(record.bagNumber ?? '').trim();
+    return {
+        code: formatBagTagCode(dateKey, bagNumber),
+        bagNumber,
+        guestName,
+        slot: isOffsite(record) ? null : record.time || null,
+        laundryType: isOffsite(record) ? 'offsite' : 'onsite',
+        dateKey,
+    };
+};
+
+// Open a PDF in a new tab with the print dialog, or download it when pop-ups are blocked
+export const openPrintDialog = (doc: jsPDF, fileName: string) => {
+    doc.autoPrint();
+    const printWindow = window.open(doc.output('bloburl'), '_blank');
+    if (!printWindow) doc.save(fileName);
+};
+
+// Render one 4" x 2" tag per page and print them
+export const printBagTags = async (tags: LaundryBagTag[]) => {
+    if (tags.length === 0) return;
+
+    // Dynamic import of jspdf to avoid SSR issues
+    const { default: jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: [50.8, 101.6] });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const margin = 4;
+
+    tags.forEach((tag, index) => {
+        if (index > 0) doc.addPage();
+
+        doc.setTextColor(17, 24, 39);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(22);
+        doc.text(`#${tag.bagNumber}`, margin, margin + 8);
+
+        doc.setFontSize(9);
+        doc.text(tag.laundryType === 'offsite' ? 'OFF-SITE' : 'ON-SITE', pageWidth - margin, margin + 4, { align: 'right' });
+        doc.setFont('helvetica', 'normal');
+        const date = new Date(`${tag.dateKey}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+        doc.text(date, pageWidth - margin, margin + 9, { align: 'right' });
+
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(14);
+        doc.text(doc.splitTextToSize(tag.guestName, pageWidth - margin * 2)[0], margin, margin + 16);
+        if (tag.slot) {
+            doc.setFont('helvetica', 'normal');
+            doc.setFontSize(9);
+            doc.text(tag.slot, margin, margin + 21);
+        }
+
+        // Barcode, centred with quiet zones either side
+        const widths = encodeCode128(tag.code);
+        const modules = widths.reduce((sum, w) => sum + w, 0);
+        const moduleWidth = Math.min(0.33, (pageWidth - margin * 4) / modules);
+        let x = (pageWidth - modules * moduleWidth) / 2;
+        const barTop = margin + 25;
+        doc.setFillColor(0, 0, 0);
+        widths.forEach((width, i) => {
+            if (i % 2 === 0) doc.rect(x, barTop, width * moduleWidth, 12, 'F');
+            x += width * moduleWidth;
+        });
+
+        doc.setFontSize(8);
+        doc.text(tag.code, pageWidth / 2, barTop + 16, { align: 'center' });
+    });
+
+    openPrintDialog(doc, `laundry-tags-${tags[0].dateKey}.pdf`);
+};
@@ -0,0 +1,109 @@
+// Off-site laundry vendor runs (mirrors public.laundry_batches)
+
+import { openPrintDialog } from './laundryBags';
+
+export type LaundryBatchStatus = 'open' | 'transported' | 'returned';
+
+export interface LaundryBatch {
+    id: string;
+    serviceDate: string;               // YYYY-MM-DD
+    vendor: string;
+    status: LaundryBatchStatus;
+    transportedAt?: string | null;
+    returnedAt?: string | null;
+    createdAt?: string | null;
+}
+
+export interface LaundryBatchBooking {
+    id: string;
+    guestId: string;
+    status: string;
+    bagNumber?: string;
+    laundryType?: string;
+    batchId?: string | null;
+}
+
+export interface ManifestRow {
+    bagNumber: string;
+    guestId: string;
+    guestName: string;
+    status: string;
+}
+
+// Off-site bookings of the day that can still join a run
+export const unbatchedOffsiteBookings = <T extends LaundryBatchBooking>(bookings: T[]): T[] =>
+    bookings.filter(
+        (b) => b.laundryType === 'offsite' && !b.batchId && (b.status === 'pending' || b.status === 'waiting')
+    );
+
+export const bookingsInBatch = <T extends LaundryBatchBooking>(bookings: T[], batchId: string): T[] =>
+    bookings.filter((b) => b.batchId === batchId && b.status !== 'cancelled');
+
+// Bags still out after their batch came back
+export const missingFromBatch = <T extends LaundryBatchBooking>(batch: LaundryBatch, bookings: T[]): T[] =>
+    batch.status === 'returned'
+        ? bookingsInBatch(bookings, batch.id).filter((b) => b.status === 'transported')
+        : [];
+
+const compareBags = (a: ManifestRow, b: ManifestRow) =>
+    a.bagNumber.localeCompare(b.bagNumber, undefined, { numeric: true }) || a.guestName.localeCompare(b.guestName);
+
+/**
+ * Print a manifest listing each bag in the batch with its guest ID, plus
+ * columns for the vendor and staff to tick off on pickup and return.
+ */
+export const printBatchManifest = async (batch: LaundryBatch, rows: ManifestRow[]) => {
+    // Dynamic import of jspdf to avoid SSR issues
+    const { default: jsPDF } = await import('jspdf');
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'letter' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 18;
+    const columns = [
+        { title: 'Bag #', x: margin },
+        { title: 'Guest ID', x: margin + 22 },
+        { title: 'Guest', x: margin + 60 },
+        { title: 'Sent', x: pageWidth - margin - 34 },
+        { title: 'Returned', x: pageWidth - margin - 17 },
+    ];
+    const date = new Date(`${batch.serviceDate}T12:00:00`).toLocaleDateString('en-US', {
+        weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+    });
+
+    doc.setTextColor(17, 24, 39);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.text('Off-site Laundry Manifest', margin, margin + 4);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text(`${batch.vendor} · ${date} · ${rows.length} bag${rows.length === 1 ? '' : 's'}`, margin, margin + 11);
+
+    let y = margin + 22;
+    const drawHeader = () => {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(9);
+        columns.forEach((col) => doc.text(col.title, col.x, y));
+        doc.setDrawColor(156, 163, 175);
+        doc.line(margin, y + 2, pageWidth - margin, y + 2);
+        doc.setFont('helvetica', 'normal');
+        y += 8;
+    };
+    drawHeader();
+
+    [...rows].sort(compareBags).forEach((row) => {
+        if (y > pageHeight - margin) {
+            doc.addPage();
+            y = margin;
+            drawHeader();
+        }
+        doc.setFontSize(10);
+        doc.text(row.bagNumber || '—', columns[0].x, y);
+        doc.text(row.guestId || '—', columns[1].x, y);
+        doc.text(doc.splitTextToSize(row.guestName, columns[3].x - columns[2].x - 4)[0], columns[2].x, y);
+        doc.rect(columns[3].x + 2, y - 3.5, 4, 4);
+        doc.rect(columns[4].x + 4, y - 3.5, 4, 4);
+        y += 7;
+    });
+
+    openPrintDialog(doc, `laundry-manifest-${batch.serviceDate}-${batch.vendor.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.pdf`);
+};
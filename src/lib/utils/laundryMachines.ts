@@ -0,0 +1,62 @@
+// Washer and dryer registry (mirrors public.laundry_machines)
+
+export type LaundryMachineKind = 'washer' | 'dryer';
+
+export interface LaundryMachine {
+    id: string;
+    kind: LaundryMachineKind;
+    number: number;
+    cycleMinutes: number;
+    outOfService: boolean;
+    note?: string | null;
+}
+
+export interface MachineLoad {
+    id: string;
+    guestId: string;
+    status: string;
+    machineId?: string | null;
+    cycleStartedAt?: string | null;
+}
+
+export const DEFAULT_CYCLE_MINUTES: Record<LaundryMachineKind, number> = {
+    washer: 35,
+    dryer: 50,
+};
+
+export const isMachineStatus = (status: string): status is LaundryMachineKind =>
+    status === 'washer' || status === 'dryer';
+
+export const machineLabel = (machine: Pick<LaundryMachine, 'kind' | 'number'>) =>
+    `${machine.kind === 'washer' ? 'Washer' : 'Dryer'} ${machine.number}`;
+
+export const sortMachines = (machines: LaundryMachine[]) =>
+    [...machines].sort((a, b) => (a.kind === b.kind ? a.number - b.number : a.kind === 'washer' ? -1 : 1));
+
+// The load currently in a machine: a booking whose status matches the machine kind
+export const loadInMachine = <T extends MachineLoad>(machine: LaundryMachine, loads: T[]): T | null =>
+    loads.find((l) => l.machineId === machine.id && l.status === machine.kind) || null;
+
+// Milliseconds left in a load's cycle (negative once it should be finished), or null without a start time
+export const cycleRemainingMs = (load: MachineLoad, machine: LaundryMachine, now: number): number | null => {
+    if (!load.cycleStartedAt) return null;
+    const started = new Date(load.cycleStartedAt).getTime();
+    if (Number.isNaN(started)) return null;
+    return started + machine.cycleMinutes * 60_000 - now;
+};
+
+// e.g. 754000 -> "12:34"; finished cycles show how long ago they ended, e.g. "Done 3m ago"
+export const formatCycleRemaining = (ms: number) => {
+    if (ms <= 0) {
+        const overdue = Math.floor(-ms / 60_000);
+        return overdue < 1 ? 'Done' : `Done ${overdue}m ago`;
+    }
+    const totalSeconds = Math.ceil(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+// Next unused machine number for a kind
+export const nextMachineNumber = (machines: LaundryMachine[], kind: LaundryMachineKind) =>
+    machines.filter((m) => m.kind === kind).reduce((max, m) => Math.max(max, m.number), 0) + 1;
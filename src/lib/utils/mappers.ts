@@ -9,6 +9,7 @@ import {
   computeIsGuestBanned,
 } from "./normalizers";
 import { pacificDateStringFrom } from './date';
+import { mapPartsFromRow } from './bicycleRepairs';
 
 // Type for shower status in database
 type ShowerDbStatus = 'booked' | 'waitlisted' | 'done' | 'cancelled' | 'no_show' | null | undefined;
@@ -36,6 +37,7 @@ interface GuestRow {
   banned_from_shower?: boolean | null;
   banned_from_laundry?: boolean | null;
   banned_from_bicycle?: boolean | null;
+  photo_path?: string | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -49,6 +51,7 @@ interface MealRow {
   served_on?: string | null;
   recorded_at?: string | null;
   created_at?: string;
+  site_id?: string | null;
 }
 
 interface ShowerRow {
@@ -57,8 +60,14 @@ interface ShowerRow {
   scheduled_for?: string | null;
   scheduled_time?: string | null;
   status?: ShowerDbStatus;
+  stall_number?: number | null;
+  started_at?: string | null;
+  finished_at?: string | null;
+  stall_cleaned_at?: string | null;
+  waitlist_position?: number | null;
   created_at?: string;
   updated_at?: string;
+  site_id?: string | null;
 }
 
 interface LaundryRow {
@@ -69,8 +78,13 @@ interface LaundryRow {
   laundry_type: 'onsite' | 'offsite';
   bag_number?: string | null;
   status: string;
+  waitlist_position?: number | null;
+  batch_id?: string | null;
+  machine_id?: string | null;
+  cycle_started_at?: string | null;
   created_at?: string;
   updated_at?: string;
+  site_id?: string | null;
 }
 
 interface BicycleRow {
@@ -85,18 +99,24 @@ interface BicycleRow {
   priority?: number | null;
   completed_at?: string | null;
   updated_at?: string;
+  parts?: unknown;
+  mechanic_name?: string | null;
+  labor_minutes?: number | null;
+  site_id?: string | null;
 }
 
 interface HolidayRow {
   id: string;
   guest_id: string;
   served_at: string;
+  site_id?: string | null;
 }
 
 interface HaircutRow {
   id: string;
   guest_id: string;
   served_at: string;
+  site_id?: string | null;
 }
 
 interface ItemRow {
@@ -104,6 +124,7 @@ interface ItemRow {
   guest_id: string;
   item_key: string;
   distributed_at: string;
+  site_id?: string | null;
 }
 
 interface DonationRow {
@@ -138,6 +159,22 @@ interface GuestWarningRow {
   updated_at?: string;
 }
 
+interface GuestBanRow {
+  id: string;
+  guest_id: string;
+  reason?: string | null;
+  banned_from_bicycle?: boolean | null;
+  banned_from_meals?: boolean | null;
+  banned_from_shower?: boolean | null;
+  banned_from_laundry?: boolean | null;
+  issued_by?: string | null;
+  starts_at: string;
+  ends_at: string;
+  lifted_at?: string | null;
+  lifted_by?: string | null;
+  created_at?: string;
+}
+
 interface BlockedSlotRow {
   id: string;
   service_type: string;
@@ -159,7 +196,162 @@ interface GuestReminderRow {
   updated_at?: string;
 }
 
+interface AuditLogRow {
+  id: number | string;
+  occurred_at: string;
+  table_name: string;
+  record_id?: string | null;
+  action: 'insert' | 'update' | 'delete';
+  guest_id?: string | null;
+  actor_id?: string | null;
+  actor_email?: string | null;
+  actor_role?: string | null;
+  old_data?: Record<string, unknown> | null;
+  new_data?: Record<string, unknown> | null;
+}
+
+interface ItemCatalogRow {
+  key: string;
+  label: string;
+  icon?: string | null;
+  cooldown_type: 'rolling_days' | 'weekly_reset' | 'monthly_cap' | 'unlimited';
+  cooldown_days?: number | null;
+  reset_weekday?: number | null;
+  monthly_limit?: number | null;
+  active?: boolean | null;
+  sort_order?: number | null;
+  stock_on_hand?: number | null;
+  low_stock_threshold?: number | null;
+}
+
+interface BicycleRepairTypeRow {
+  key: string;
+  label: string;
+  category: 'repair' | 'maintenance' | 'accessory' | 'new_bicycle' | 'other';
+  default_priority?: number | null;
+  estimated_minutes?: number | null;
+  active?: boolean | null;
+  sort_order?: number | null;
+}
+
+interface ServiceScheduleRow {
+  id: string;
+  service: 'meals' | 'showers' | 'laundry';
+  weekday: number;
+  starts_on?: string | null;
+  ends_on?: string | null;
+  season_label?: string | null;
+  is_open: boolean;
+  start_time?: string | null;
+  end_time?: string | null;
+  slot_minutes?: number | null;
+  slot_duration_minutes?: number | null;
+  slot_capacity?: number | null;
+  custom_slots?: string[] | null;
+  site_id?: string | null;
+}
+
+interface AutomaticMealRuleRow {
+  id: string;
+  weekday: number;
+  meal_type: string;
+  quantity: number;
+  note?: string | null;
+  starts_on?: string | null;
+  ends_on?: string | null;
+  active?: boolean | null;
+  effective_from?: string | null;
+}
+
+interface AutomaticMealEntryRow {
+  id: string;
+  meal_type: string;
+  quantity: number;
+  served_on: string;
+  notes?: string | null;
+  automatic_rule_id: string | null;
+  recorded_at?: string | null;
+}
+
+interface ServiceClosureRow {
+  id: string;
+  closed_on: string;
+  service?: 'meals' | 'showers' | 'laundry' | null;
+  reason: string;
+  created_by?: string | null;
+  created_at?: string | null;
+}
+
 // Validation result type
+interface LaundryBatchRow {
+  id: string;
+  service_date: string;
+  vendor: string;
+  status: 'open' | 'transported' | 'returned';
+  transported_at?: string | null;
+  returned_at?: string | null;
+  created_at?: string | null;
+}
+
+interface WaitlistPromotionRow {
+  id: string;
+  service_type: 'shower' | 'laundry';
+  record_id: string;
+  guest_id?: string | null;
+  freed_record_id?: string | null;
+  freed_status: string;
+  scheduled_for: string;
+  slot_label: string;
+  promoted_at: string;
+}
+
+interface LaundryMachineRow {
+  id: string;
+  kind: 'washer' | 'dryer';
+  number: number;
+  cycle_minutes: number;
+  out_of_service?: boolean | null;
+  note?: string | null;
+}
+
+interface HouseholdRow {
+  id: string;
+  name: string;
+  head_guest_id?: string | null;
+  meal_allowance?: number | null;
+  notes?: string | null;
+  created_at?: string;
+}
+
+interface HouseholdMemberRow {
+  id: string;
+  household_id: string;
+  guest_id: string;
+  role?: string | null;
+  created_at?: string;
+}
+
+interface GuestMergeRow {
+  id: string;
+  kept_guest_id: string;
+  merged_guest_id: string;
+  merged_guest?: Partial<GuestRow> | null;
+  moved_rows?: Record<string, string[]> | null;
+  merged_by?: string | null;
+  merged_at: string;
+  undo_until: string;
+  undone_at?: string | null;
+}
+
+interface SiteRow {
+  id: string;
+  name: string;
+  code: string;
+  address?: string | null;
+  is_default?: boolean | null;
+  active?: boolean | null;
+}
+
 interface ValidationResult {
   isValid: boolean;
   issues: string[];
@@ -306,6 +498,7 @@ export const mapGuestRow = (row: GuestRow) => {
     bannedFromMeals: row.banned_from_meals || false,
     bannedFromShower: row.banned_from_shower || false,
     bannedFromLaundry: row.banned_from_laundry || false,
+    photoPath: row.photo_path || null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     docId: row.id,
@@ -335,6 +528,7 @@ export const mapMealRow = (row: MealRow) => {
     servedOn: row.served_on,
     createdAt: row.created_at,
     type: row.meal_type,
+    siteId: row.site_id || null,
   };
 };
 
@@ -357,6 +551,12 @@ export const mapShowerRow = (row: ShowerRow) => {
     date: effectiveTimestamp,
     dateKey: pacificDateStringFrom(effectiveTimestamp),
     status: mapShowerStatusToApp(row.status),
+    stallNumber: row.stall_number ?? null,
+    startedAt: row.started_at || null,
+    finishedAt: row.finished_at || null,
+    stallCleanedAt: row.stall_cleaned_at || null,
+    waitlistPosition: row.waitlist_position ?? null,
+    siteId: row.site_id || null,
     createdAt: row.created_at,
     lastUpdated: row.updated_at,
   };
@@ -384,6 +584,11 @@ export const mapLaundryRow = (row: LaundryRow) => {
     date: effectiveTimestamp,
     dateKey: pacificDateStringFrom(effectiveTimestamp),
     status: row.status,
+    batchId: row.batch_id || null,
+    machineId: row.machine_id || null,
+    cycleStartedAt: row.cycle_started_at || null,
+    waitlistPosition: row.waitlist_position ?? null,
+    siteId: row.site_id || null,
     createdAt: row.created_at,
     lastUpdated: row.updated_at,
   };
@@ -405,6 +610,10 @@ export const mapBicycleRow = (row: BicycleRow) => {
     priority: row.priority || 0,
     doneAt: row.completed_at || undefined,
     lastUpdated: row.updated_at,
+    parts: mapPartsFromRow(row.parts),
+    mechanicName: row.mechanic_name || null,
+    laborMinutes: row.labor_minutes ?? null,
+    siteId: row.site_id || null,
   };
 };
 
@@ -416,6 +625,7 @@ export const mapHolidayRow = (row: HolidayRow) => {
     date: effectiveTimestamp,
     dateKey: pacificDateStringFrom(effectiveTimestamp),
     type: "holiday",
+    siteId: row.site_id || null,
   };
 };
 
@@ -427,6 +637,7 @@ export const mapHaircutRow = (row: HaircutRow) => {
     date: effectiveTimestamp,
     dateKey: pacificDateStringFrom(effectiveTimestamp),
     type: "haircut",
+    siteId: row.site_id || null,
   };
 };
 
@@ -435,6 +646,7 @@ export const mapItemRow = (row: ItemRow) => ({
   guestId: row.guest_id,
   item: row.item_key,
   date: row.distributed_at,
+  siteId: row.site_id || null,
 });
 
 export const mapDonationRow = (row: DonationRow) => {
@@ -471,6 +683,22 @@ export const mapGuestWarningRow = (row: GuestWarningRow) => ({
   updatedAt: row.updated_at,
 });
 
+export const mapGuestBanRow = (row: GuestBanRow) => ({
+  id: row.id,
+  guestId: row.guest_id,
+  reason: row.reason || "",
+  bannedFromBicycle: row.banned_from_bicycle || false,
+  bannedFromMeals: row.banned_from_meals || false,
+  bannedFromShower: row.banned_from_shower || false,
+  bannedFromLaundry: row.banned_from_laundry || false,
+  issuedBy: row.issued_by || null,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  liftedAt: row.lifted_at || null,
+  liftedBy: row.lifted_by || null,
+  createdAt: row.created_at,
+});
+
 export const mapBlockedSlotRow = (row: BlockedSlotRow) => ({
   id: row.id,
   serviceType: row.service_type,
@@ -492,6 +720,170 @@ export const mapGuestReminderRow = (row: GuestReminderRow) => ({
   updatedAt: row.updated_at,
 });
 
+export const mapItemCatalogRow = (row: ItemCatalogRow) => ({
+  key: row.key,
+  label: row.label,
+  icon: row.icon || 'package',
+  cooldownType: row.cooldown_type,
+  cooldownDays: row.cooldown_days ?? null,
+  resetWeekday: row.reset_weekday ?? null,
+  monthlyLimit: row.monthly_limit ?? null,
+  active: row.active !== false,
+  sortOrder: Number(row.sort_order) || 0,
+  stockOnHand: row.stock_on_hand ?? null,
+  lowStockThreshold: row.low_stock_threshold ?? 5,
+});
+
+export const mapBicycleRepairTypeRow = (row: BicycleRepairTypeRow) => ({
+  key: row.key,
+  label: row.label,
+  category: row.category || 'repair',
+  defaultPriority: row.default_priority ?? 0,
+  estimatedMinutes: row.estimated_minutes ?? null,
+  active: row.active !== false,
+  sortOrder: Number(row.sort_order) || 0,
+});
+
+export const mapAuditLogRow = (row: AuditLogRow) => ({
+  id: String(row.id),
+  occurredAt: row.occurred_at,
+  tableName: row.table_name,
+  recordId: row.record_id || null,
+  action: row.action,
+  guestId: row.guest_id || null,
+  actorId: row.actor_id || null,
+  actorEmail: row.actor_email || null,
+  actorRole: row.actor_role || null,
+  oldData: row.old_data || null,
+  newData: row.new_data || null,
+});
+
+export const mapServiceScheduleRow = (row: ServiceScheduleRow) => ({
+  id: row.id,
+  service: row.service,
+  weekday: Number(row.weekday),
+  startsOn: row.starts_on || null,
+  endsOn: row.ends_on || null,
+  seasonLabel: row.season_label || null,
+  isOpen: row.is_open !== false,
+  // Postgres time comes back as HH:MM:SS
+  startTime: row.start_time ? row.start_time.slice(0, 5) : null,
+  endTime: row.end_time ? row.end_time.slice(0, 5) : null,
+  slotMinutes: row.slot_minutes ?? null,
+  slotDurationMinutes: row.slot_duration_minutes ?? null,
+  slotCapacity: Number(row.slot_capacity) || 1,
+  customSlots: row.custom_slots || [],
+  siteId: row.site_id || null,
+});
+
+export const mapServiceClosureRow = (row: ServiceClosureRow) => ({
+  id: row.id,
+  closedOn: row.closed_on,
+  service: row.service || null,
+  reason: row.reason,
+  createdBy: row.created_by || null,
+  createdAt: row.created_at || null,
+});
+
+export const mapLaundryBatchRow = (row: LaundryBatchRow) => ({
+  id: row.id,
+  serviceDate: row.service_date,
+  vendor: row.vendor,
+  status: row.status,
+  transportedAt: row.transported_at || null,
+  returnedAt: row.returned_at || null,
+  createdAt: row.created_at || null,
+});
+
+export const mapLaundryMachineRow = (row: LaundryMachineRow) => ({
+  id: row.id,
+  kind: row.kind,
+  number: Number(row.number),
+  cycleMinutes: Number(row.cycle_minutes),
+  outOfService: Boolean(row.out_of_service),
+  note: row.note || null,
+});
+
+export const mapHouseholdRow = (row: HouseholdRow) => ({
+  id: row.id,
+  name: row.name,
+  headGuestId: row.head_guest_id || null,
+  mealAllowance: row.meal_allowance == null ? null : Number(row.meal_allowance),
+  notes: row.notes || null,
+  createdAt: row.created_at,
+});
+
+export const mapHouseholdMemberRow = (row: HouseholdMemberRow) => ({
+  id: row.id,
+  householdId: row.household_id,
+  guestId: row.guest_id,
+  role: row.role || "other",
+  createdAt: row.created_at,
+});
+
+export const mapGuestMergeRow = (row: GuestMergeRow) => {
+  const merged = row.merged_guest || {};
+  return {
+    id: row.id,
+    keptGuestId: row.kept_guest_id,
+    mergedGuestId: row.merged_guest_id,
+    mergedGuestName: toTitleCase(
+      merged.full_name || `${merged.first_name || ""} ${merged.last_name || ""}`.trim(),
+    ),
+    movedRecordCount: Object.values(row.moved_rows || {}).reduce(
+      (sum, ids) => sum + (ids?.length || 0),
+      0,
+    ),
+    mergedBy: row.merged_by || null,
+    mergedAt: row.merged_at,
+    undoUntil: row.undo_until,
+    undoneAt: row.undone_at || null,
+  };
+};
+
+export const mapSiteRow = (row: SiteRow) => ({
+  id: row.id,
+  name: row.name,
+  code: row.code,
+  address: row.address || null,
+  isDefault: Boolean(row.is_default),
+  active: row.active !== false,
+});
+
+export const mapWaitlistPromotionRow = (row: WaitlistPromotionRow) => ({
+  id: row.id,
+  serviceType: row.service_type,
+  recordId: row.record_id,
+  guestId: row.guest_id || null,
+  freedRecordId: row.freed_record_id || null,
+  freedStatus: row.freed_status,
+  serviceDate: row.scheduled_for,
+  slotLabel: row.slot_label,
+  promotedAt: row.promoted_at,
+});
+
+export const mapAutomaticMealRuleRow = (row: AutomaticMealRuleRow) => ({
+  id: row.id,
+  weekday: Number(row.weekday),
+  mealType: row.meal_type,
+  quantity: Number(row.quantity),
+  note: row.note || null,
+  startsOn: row.starts_on || null,
+  endsOn: row.ends_on || null,
+  active: row.active !== false,
+  effectiveFrom: row.effective_from || null,
+});
+
+export const mapAutomaticMealEntryRow = (row: AutomaticMealEntryRow) => ({
+  id: row.id,
+  mealType: row.meal_type,
+  quantity: Number(row.quantity),
+  servedOn: row.served_on,
+  note: row.notes || null,
+  ruleId: row.automatic_rule_id,
+  recordedAt: row.recorded_at || null,
+});
+
 interface DailyNoteRow {
   id: string;
   note_date: string;
@@ -1,17 +1,27 @@
-export function getMealServiceInfo(date: Date = new Date()) {
-    const dayOfWeek = date.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-
-    const serviceSchedule: Record<number, { startHour: number; startMinute: number; endHour: number; endMinute: number; } | null> = {
-        0: null, // Sunday - no service
-        1: { startHour: 8, startMinute: 0, endHour: 9, endMinute: 0 }, // Monday
-        2: null, // Tuesday - no service
-        3: { startHour: 8, startMinute: 0, endHour: 9, endMinute: 0 }, // Wednesday
-        4: null, // Thursday - no service
-        5: { startHour: 7, startMinute: 30, endHour: 8, endMinute: 30 }, // Friday
-        6: { startHour: 8, startMinute: 0, endHour: 10, endMinute: 0 }, // Saturday
+import {
+    DEFAULT_SERVICE_SCHEDULE,
+    getServiceHours,
+    toMinutes,
+    type ServiceScheduleEntry,
+} from '@/lib/utils/serviceSchedule';
+import { getServiceClosure, type ServiceClosure } from '@/lib/utils/serviceClosures';
+
+// Callers pass the site's schedule and closures from their stores; the defaults are the built-in hours and no closures
+export function getMealServiceInfo(
+    date: Date = new Date(),
+    schedule: ServiceScheduleEntry[] = DEFAULT_SERVICE_SCHEDULE
+) {
+    const hours = getServiceHours(schedule, 'meals', date);
+    if (!hours || !hours.startTime || !hours.endTime) return null;
+
+    const start = toMinutes(hours.startTime);
+    const end = toMinutes(hours.endTime);
+    return {
+        startHour: Math.floor(start / 60),
+        startMinute: start % 60,
+        endHour: Math.floor(end / 60),
+        endMinute: end % 60,
     };
-
-    return serviceSchedule[dayOfWeek];
 }
 
 export function formatTime(hour: number, minute: number): string {
@@ -41,7 +51,7 @@ export function formatTimeRemaining(minutes: number): string {
 }
 
 export interface MealServiceStatus {
-    type: 'no-service' | 'before-service' | 'during-service' | 'ended';
+    type: 'no-service' | 'closed' | 'before-service' | 'during-service' | 'ended';
     message: string | null;
     timeRemaining: number | null;
     startsAt?: string;
@@ -50,8 +60,22 @@ export interface MealServiceStatus {
     elapsed?: number;
 }
 
-export function getMealServiceStatus(now: Date = new Date()): MealServiceStatus {
-    const serviceInfo = getMealServiceInfo(now);
+export function getMealServiceStatus(
+    now: Date = new Date(),
+    schedule: ServiceScheduleEntry[] = DEFAULT_SERVICE_SCHEDULE,
+    closures: ServiceClosure[] = []
+): MealServiceStatus {
+    const closure = getServiceClosure(closures, 'meals', now);
+    const serviceInfo = getMealServiceInfo(now, schedule);
+
+    // Closed for a holiday (only worth showing on days meals would run)
+    if (closure && serviceInfo) {
+        return {
+            type: 'closed',
+            message: `Meals closed today: ${closure.reason}`,
+            timeRemaining: null,
+        };
+    }
 
     // No service today
     if (!serviceInfo) {
@@ -0,0 +1,96 @@
+// Repeat no-show policy (app_settings.no_show_policy): too many shower no-shows
+// in a rolling window limits a guest to the waitlist for a while.
+
+import { pacificDateStringFrom } from './date';
+
+export interface NoShowPolicy {
+    enabled: boolean;
+    threshold: number;        // no-shows within the window that trigger the policy
+    windowDays: number;
+    restrictionDays: number;  // how long the guest stays waitlist-only
+}
+
+export interface NoShowStanding {
+    count: number;                    // no-shows in the window ending today
+    restricted: boolean;
+    restrictedUntil: string | null;   // YYYY-MM-DD the guest can book again
+}
+
+interface NoShowRecord {
+    guestId: string;
+    status: string;
+    date: string;
+    dateKey?: string;
+}
+
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = {
+    enabled: true,
+    threshold: 3,
+    windowDays: 30,
+    restrictionDays: 7,
+};
+
+const CLEAR_STANDING: NoShowStanding = { count: 0, restricted: false, restrictedUntil: null };
+
+const positiveInt = (value: unknown, fallback: number) => {
+    const n = Number(value);
+    return Number.isInteger(n) && n > 0 ? n : fallback;
+};
+
+// Fill gaps in a stored policy (older rows, partial JSON) with the defaults
+export const normalizeNoShowPolicy = (value?: Partial<NoShowPolicy> | null): NoShowPolicy => ({
+    enabled: typeof value?.enabled === 'boolean' ? value.enabled : DEFAULT_NO_SHOW_POLICY.enabled,
+    threshold: positiveInt(value?.threshold, DEFAULT_NO_SHOW_POLICY.threshold),
+    windowDays: positiveInt(value?.windowDays, DEFAULT_NO_SHOW_POLICY.windowDays),
+    restrictionDays: positiveInt(value?.restrictionDays, DEFAULT_NO_SHOW_POLICY.restrictionDays),
+});
+
+export const validateNoShowPolicy = (policy: NoShowPolicy): string | null => {
+    if (!Number.isInteger(policy.threshold) || policy.threshold < 1) return 'No-show limit must be at least 1';
+    if (!Number.isInteger(policy.windowDays) || policy.windowDays < 1) return 'Window must be at least 1 day';
+    if (!Number.isInteger(policy.restrictionDays) || policy.restrictionDays < 1) return 'Waitlist-only period must be at least 1 day';
+    return null;
+};
+
+export const describeNoShowPolicy = (policy: NoShowPolicy) =>
+    `${policy.threshold} no-show${policy.threshold === 1 ? '' : 's'} in ${policy.windowDays} days → waitlist only for ${policy.restrictionDays} day${policy.restrictionDays === 1 ? '' : 's'}`;
+
+// YYYY-MM-DD plus a number of days
+export const addDays = (dateKey: string, days: number) => {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+/**
+ * A guest's no-show count and whether the policy currently limits them to the
+ * waitlist. Each no-show that brings the guest to the threshold within the
+ * window starts a restriction of restrictionDays from that day.
+ */
+export const guestNoShowStanding = (
+    records: NoShowRecord[],
+    guestId: string,
+    policy: NoShowPolicy,
+    today: string
+): NoShowStanding => {
+    if (!policy.enabled || !guestId) return CLEAR_STANDING;
+
+    const days = records
+        .filter((r) => r.guestId === guestId && r.status === 'no_show')
+        .map((r) => r.dateKey || pacificDateStringFrom(r.date))
+        .filter((d) => d <= today)
+        .sort();
+    if (days.length === 0) return CLEAR_STANDING;
+
+    const windowStart = addDays(today, -(policy.windowDays - 1));
+    const count = days.filter((d) => d >= windowStart).length;
+
+    let restrictedUntil: string | null = null;
+    for (let i = 0; i < days.length; i++) {
+        const since = addDays(days[i], -(policy.windowDays - 1));
+        const inWindow = days.slice(0, i + 1).filter((d) => d >= since).length;
+        if (inWindow >= policy.threshold) restrictedUntil = addDays(days[i], policy.restrictionDays);
+    }
+
+    const restricted = restrictedUntil !== null && today < restrictedUntil;
+    return { count, restricted, restrictedUntil: restricted ? restrictedUntil : null };
+};
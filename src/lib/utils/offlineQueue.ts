@@ -0,0 +1,131 @@
+// Durable queue of inserts made while the network was down (IndexedDB)
+
+import { MAX_BASE_MEALS_PER_DAY, MAX_EXTRA_MEALS_PER_DAY, MAX_TOTAL_MEALS_PER_DAY } from '@/lib/constants/constants';
+
+export type QueueableTable = 'meal_attendance' | 'shower_reservations' | 'laundry_bookings' | 'items_distributed';
+
+export interface QueuedMutation {
+    id: string;                          // client-generated row id, also the queue key
+    seq: number;                         // replay order
+    table: QueueableTable;
+    payload: Record<string, unknown>;    // row to insert, including id
+    label: string;                       // shown when the change cannot be synced
+    queuedAt: string;
+    attempts: number;
+    lastError?: string | null;
+}
+
+const DB_NAME = 'hopes-corner-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+// Used where IndexedDB is unavailable (server render, tests, private windows)
+const memoryQueue = new Map<string, QueuedMutation>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.error('Failed to open offline queue:', request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const runTransaction = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+    const db = await openDb();
+    if (!db) return undefined;
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const bySeq = (a: QueuedMutation, b: QueuedMutation) => a.seq - b.seq;
+
+export async function readQueuedMutations(): Promise<QueuedMutation[]> {
+    const stored = await runTransaction('readonly', (store) => store.getAll() as IDBRequest<QueuedMutation[]>);
+    return (stored ?? [...memoryQueue.values()]).sort(bySeq);
+}
+
+export async function writeQueuedMutation(mutation: QueuedMutation): Promise<void> {
+    memoryQueue.set(mutation.id, mutation);
+    await runTransaction('readwrite', (store) => store.put(mutation));
+}
+
+export async function removeQueuedMutation(id: string): Promise<void> {
+    memoryQueue.delete(id);
+    await runTransaction('readwrite', (store) => store.delete(id));
+}
+
+let lastSeq = 0;
+
+// Strictly increasing even when two mutations are queued in the same millisecond
+export const nextQueueSeq = () => {
+    lastSeq = Math.max(lastSeq + 1, Date.now());
+    return lastSeq;
+};
+
+export const newClientId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+    // RFC 4122 v4 fallback for older browsers
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+        const r = (Math.random() * 16) | 0;
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    });
+};
+
+// True when a request failed because the device is offline rather than being rejected
+export const isNetworkError = (error: unknown): boolean => {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+    const message = (error as { message?: string } | null)?.message || '';
+    return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+// A duplicate primary key means an earlier replay already reached the server
+export const isAlreadyApplied = (error: { code?: string; message?: string } | null) =>
+    error?.code === '23505' && /_pkey/.test(error.message || '');
+
+/**
+ * Meal limit check for a queued meal against what the server already has for
+ * that guest and day (another device may have served them while offline).
+ * Returns the reason it cannot be synced, or null.
+ */
+export function mealLimitConflict(
+    existing: { meal_type: string; quantity: number }[],
+    payload: Record<string, unknown>
+): string | null {
+    const mealType = (payload.meal_type as string | undefined) || 'guest';
+    if (mealType !== 'guest' && mealType !== 'extra') return null;
+
+    const quantity = Number(payload.quantity) || 1;
+    const base = existing.filter((m) => m.meal_type === 'guest').reduce((sum, m) => sum + m.quantity, 0);
+    const extra = existing.filter((m) => m.meal_type === 'extra').reduce((sum, m) => sum + m.quantity, 0);
+
+    if (mealType === 'guest' && base + quantity > MAX_BASE_MEALS_PER_DAY) {
+        return `guest already had ${base} base meal${base !== 1 ? 's' : ''} that day`;
+    }
+    if (mealType === 'extra' && extra + quantity > MAX_EXTRA_MEALS_PER_DAY) {
+        return `guest already had ${extra} extra meal${extra !== 1 ? 's' : ''} that day`;
+    }
+    if (base + extra + quantity > MAX_TOTAL_MEALS_PER_DAY) {
+        return `guest already had ${base + extra} meals that day`;
+    }
+    return null;
+}
@@ -0,0 +1,49 @@
+// Holiday and one-off closures (mirrors public.service_closures)
+
+import { SCHEDULED_SERVICES, toDateKey, type ScheduledService } from './serviceSchedule';
+
+export interface ServiceClosure {
+    id: string;
+    closedOn: string;                  // YYYY-MM-DD
+    service: ScheduledService | null;  // null closes every service that day
+    reason: string;
+    createdBy?: string | null;
+    createdAt?: string | null;
+}
+
+const toKey = (date: Date | string) => (typeof date === 'string' ? date.slice(0, 10) : toDateKey(date));
+
+/**
+ * Closure in effect for a service on a date, or null when open.
+ * A full-day closure wins over a closure of the single service.
+ */
+export function getServiceClosure(
+    closures: ServiceClosure[],
+    service: ScheduledService,
+    date: Date | string
+): ServiceClosure | null {
+    const dateKey = toKey(date);
+    const matches = closures.filter((c) => c.closedOn === dateKey && (c.service === null || c.service === service));
+    return matches.find((c) => c.service === null) || matches[0] || null;
+}
+
+// Closures on a date; with a service, only those that close it
+export const getClosuresOn = (closures: ServiceClosure[], date: Date | string, service?: ScheduledService) => {
+    const dateKey = toKey(date);
+    return closures.filter((c) => c.closedOn === dateKey && (!service || c.service === null || c.service === service));
+};
+
+export const describeClosure = (closure: ServiceClosure) =>
+    `${closure.service ? SCHEDULED_SERVICES.find((s) => s.value === closure.service)?.label : 'All services'} closed: ${closure.reason}`;
+
+// Every YYYY-MM-DD from first to last inclusive (for multi-day closures)
+export function closureDateRange(first: string, last: string): string[] {
+    const dates: string[] = [];
+    const current = new Date(`${first}T12:00:00`);
+    const end = new Date(`${last || first}T12:00:00`);
+    while (current <= end) {
+        dates.push(toDateKey(current));
+        current.setDate(current.getDate() + 1);
+    }
+    return dates;
+}
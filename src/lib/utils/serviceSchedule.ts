@@ -0,0 +1,152 @@
+// Weekly service hours with seasonal overrides (mirrors public.service_schedule)
+
+export type ScheduledService = 'meals' | 'showers' | 'laundry';
+
+export interface ServiceScheduleEntry {
+    id?: string;
+    service: ScheduledService;
+    weekday: number;                    // 0 = Sunday ... 6 = Saturday
+    startsOn: string | null;            // YYYY-MM-DD; null for the regular weekly row
+    endsOn: string | null;
+    seasonLabel: string | null;
+    isOpen: boolean;
+    startTime: string | null;           // HH:MM
+    endTime: string | null;
+    slotMinutes: number | null;         // minutes between slot start times
+    slotDurationMinutes: number | null; // laundry: length of each window
+    slotCapacity: number;
+    customSlots: string[];              // hand-picked slot labels, used as-is when present
+    siteId?: string | null;             // null rows are shared by every site
+}
+
+export const SCHEDULED_SERVICES: { value: ScheduledService; label: string }[] = [
+    { value: 'meals', label: 'Meals' },
+    { value: 'showers', label: 'Showers' },
+    { value: 'laundry', label: 'Laundry' },
+];
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const LEGACY_WEEKDAY_LAUNDRY_SLOTS = ['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45'];
+
+const weekly = (
+    service: ScheduledService,
+    weekday: number,
+    hours: Partial<ServiceScheduleEntry> | null
+): ServiceScheduleEntry => ({
+    service,
+    weekday,
+    startsOn: null,
+    endsOn: null,
+    seasonLabel: null,
+    isOpen: hours !== null,
+    startTime: null,
+    endTime: null,
+    slotMinutes: null,
+    slotDurationMinutes: null,
+    slotCapacity: 1,
+    customSlots: [],
+    ...hours,
+});
+
+const WEEKDAY_SHOWERS = { startTime: '07:30', endTime: '12:30', slotMinutes: 30, slotCapacity: 2 };
+const WEEKDAY_LAUNDRY = { startTime: '07:30', endTime: '11:45', slotMinutes: 30, customSlots: LEGACY_WEEKDAY_LAUNDRY_SLOTS };
+
+// Used until the schedule loads (and offline); mirrors the service_schedule seed in database/schema.sql
+export const DEFAULT_SERVICE_SCHEDULE: ServiceScheduleEntry[] = [
+    weekly('meals', 0, null),
+    weekly('meals', 1, { startTime: '08:00', endTime: '09:00' }),
+    weekly('meals', 2, null),
+    weekly('meals', 3, { startTime: '08:00', endTime: '09:00' }),
+    weekly('meals', 4, null),
+    weekly('meals', 5, { startTime: '07:30', endTime: '08:30' }),
+    weekly('meals', 6, { startTime: '08:00', endTime: '10:00' }),
+    ...[0, 1, 2, 3, 4, 5].map((day) => weekly('showers', day, WEEKDAY_SHOWERS)),
+    weekly('showers', 6, { startTime: '08:30', endTime: '13:30', slotMinutes: 30, slotCapacity: 2 }),
+    ...[0, 1, 2, 3, 4, 5].map((day) => weekly('laundry', day, WEEKDAY_LAUNDRY)),
+    weekly('laundry', 6, { startTime: '08:30', endTime: '12:00', slotMinutes: 30, slotDurationMinutes: 90 }),
+];
+
+const dayKey = (entry: ServiceScheduleEntry) => `${entry.service}:${entry.weekday}:${entry.startsOn || ''}`;
+
+/**
+ * The schedule one site runs on: its own rows, plus the shared rows it hasn't
+ * overridden for the same service, weekday and season. Mirrors the site
+ * fallback in public.service_hours_for.
+ */
+export function resolveSiteSchedule(entries: ServiceScheduleEntry[], siteId: string | null): ServiceScheduleEntry[] {
+    if (!entries.some((entry) => entry.siteId)) return entries;
+    const own = siteId ? entries.filter((entry) => entry.siteId === siteId) : [];
+    const overridden = new Set(own.map(dayKey));
+    return [
+        ...own,
+        ...entries.filter((entry) => !entry.siteId && !overridden.has(dayKey(entry))),
+    ];
+}
+
+// Local calendar date as YYYY-MM-DD (callers build dates at local noon)
+export const toDateKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + (minutes || 0);
+};
+
+const fromMinutes = (total: number) =>
+    `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+
+/**
+ * Hours in effect for a service on a date: a seasonal override covering the
+ * date wins over the weekly row. Returns null when the service is closed.
+ */
+export function getServiceHours(
+    schedule: ServiceScheduleEntry[],
+    service: ScheduledService,
+    date: Date
+): ServiceScheduleEntry | null {
+    const weekday = date.getDay();
+    const dateKey = toDateKey(date);
+
+    const candidates = schedule.filter((entry) =>
+        entry.service === service &&
+        entry.weekday === weekday &&
+        (!entry.startsOn || (entry.startsOn <= dateKey && (!entry.endsOn || dateKey <= entry.endsOn)))
+    );
+    // Latest-starting season first, regular weekly row last
+    candidates.sort((a, b) => (b.startsOn || '').localeCompare(a.startsOn || ''));
+
+    const hours = candidates[0];
+    if (!hours || !hours.isOpen || !hours.startTime || !hours.endTime) return null;
+    return hours;
+}
+
+/**
+ * Slot labels for a day's hours: "HH:MM" start times for showers,
+ * "HH:MM - HH:MM" windows for laundry. Matches public.service_slot_labels.
+ */
+export function buildServiceSlots(hours: ServiceScheduleEntry | null): string[] {
+    if (!hours || !hours.startTime || !hours.endTime) return [];
+    if (hours.customSlots.length > 0) return [...hours.customSlots];
+
+    const start = toMinutes(hours.startTime);
+    const end = toMinutes(hours.endTime);
+    const step = hours.slotMinutes || 30;
+    const slots: string[] = [];
+
+    if (hours.service === 'laundry') {
+        const length = hours.slotDurationMinutes || step;
+        for (let t = start; t + length <= end; t += step) {
+            slots.push(`${fromMinutes(t)} - ${fromMinutes(t + length)}`);
+        }
+    } else {
+        for (let t = start; t < end; t += step) {
+            slots.push(fromMinutes(t));
+        }
+    }
+    return slots;
+}
+
+// Whether any service runs on a date (a season can close every service for a holiday week)
+export const isServiceDay = (schedule: ServiceScheduleEntry[], date: Date) =>
+    SCHEDULED_SERVICES.some(({ value }) => getServiceHours(schedule, value, date) !== null);
@@ -1,57 +1,24 @@
 
-export const generateShowerSlots = (date: Date = new Date()) => {
-    const dayOfWeek = date.getDay();
-    const slots = [];
-
-    // Monday and Wednesday (day 1 or 3) and all other days EXCEPT Saturday
-    if (dayOfWeek !== 6) {
-        // 07:30 AM to 12:30 PM (exclusive), every 30 minutes
-        const start = 7.5 * 60; // 07:30
-        const end = 12.5 * 60; // 12:30
-        for (let t = start; t < end; t += 30) {
-            const hours = Math.floor(t / 60);
-            const minutes = t % 60;
-            const time = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-            slots.push(time);
-        }
-    } else {
-        // Saturday (day 6): 08:30 AM to 01:30 PM, every 30 minutes
-        const start = 8.5 * 60; // 08:30
-        const end = 13.5 * 60; // 13:30
-        for (let t = start; t < end; t += 30) {
-            const hours = Math.floor(t / 60);
-            const minutes = t % 60;
-            const time = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
-            slots.push(time);
-        }
-    }
-
-    return slots;
-};
-
-export const generateLaundrySlots = (date: Date = new Date()) => {
-    const dayOfWeek = date.getDay();
-
-    // Saturday (day 6)
-    if (dayOfWeek === 6) {
-        return [
-            "08:30 - 10:00",
-            "09:00 - 10:30",
-            "09:30 - 11:00",
-            "10:00 - 11:30",
-            "10:30 - 12:00",
-        ];
-    }
-
-    // Monday, Wednesday, and all other days
-    return [
-        "07:30 - 08:30",
-        "08:00 - 09:00",
-        "08:30 - 09:45",
-        "09:00 - 10:15",
-        "09:30 - 11:45",
-    ];
-};
+import {
+    buildServiceSlots,
+    DEFAULT_SERVICE_SCHEDULE,
+    getServiceHours,
+    type ServiceScheduleEntry,
+} from '@/lib/utils/serviceSchedule';
+
+// Callers pass the site's schedule (see useServiceSchedule); the built-in hours are only a fallback
+export const generateShowerSlots = (date: Date = new Date(), schedule: ServiceScheduleEntry[] = DEFAULT_SERVICE_SCHEDULE) =>
+    buildServiceSlots(getServiceHours(schedule, 'showers', date));
+
+export const generateLaundrySlots = (date: Date = new Date(), schedule: ServiceScheduleEntry[] = DEFAULT_SERVICE_SCHEDULE) =>
+    buildServiceSlots(getServiceHours(schedule, 'laundry', date));
+
+// Guests allowed per slot on a date (0 when the service is closed)
+export const getSlotCapacity = (
+    service: 'showers' | 'laundry',
+    date: Date = new Date(),
+    schedule: ServiceScheduleEntry[] = DEFAULT_SERVICE_SCHEDULE
+) => getServiceHours(schedule, service, date)?.slotCapacity ?? 0;
 
 import { formatPacificTimeString } from '@/lib/utils/date';
 
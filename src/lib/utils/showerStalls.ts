@@ -0,0 +1,129 @@
+// Shower stall occupancy and timing (stall_number / started_at / finished_at / stall_cleaned_at)
+
+export interface StallShower {
+    id: string;
+    guestId: string;
+    status: string;
+    time?: string | null;
+    stallNumber?: number | null;
+    startedAt?: string | null;
+    finishedAt?: string | null;
+    stallCleanedAt?: string | null;
+}
+
+export type StallState = 'free' | 'occupied' | 'cleaning';
+
+export interface ShowerStall<T extends StallShower = StallShower> {
+    number: number;
+    state: StallState;
+    shower: T | null;   // guest in the stall, or the last guest while it is being cleaned
+}
+
+export interface ShowerDurationStats {
+    count: number;
+    averageMinutes: number | null;
+    medianMinutes: number | null;
+    longestMinutes: number | null;
+    byStall: { stallNumber: number; count: number; averageMinutes: number }[];
+}
+
+const ACTIVE_STATUSES = new Set(['booked', 'awaiting']);
+
+export const isInStall = (shower: StallShower) =>
+    Boolean(shower.stallNumber && shower.startedAt && !shower.finishedAt) && ACTIVE_STATUSES.has(shower.status);
+
+export const needsCleaning = (shower: StallShower) =>
+    Boolean(shower.stallNumber && shower.finishedAt && !shower.stallCleanedAt);
+
+// Changes for each step of a shower; pass to updateShowerStall
+export const startShowerChanges = (stallNumber: number, now = new Date()) => ({
+    stallNumber,
+    startedAt: now.toISOString(),
+    finishedAt: null,
+    stallCleanedAt: null,
+});
+
+export const finishShowerChanges = (now = new Date()) => ({
+    status: 'done',
+    finishedAt: now.toISOString(),
+});
+
+export const stallCleanedChanges = (now = new Date()) => ({
+    stallCleanedAt: now.toISOString(),
+});
+
+// Number of stalls to show: the day's shower slot capacity, or more if staff used a higher stall
+export const stallCountFor = (slotCapacity: number, showers: StallShower[]) =>
+    Math.max(slotCapacity, ...showers.map((s) => s.stallNumber || 0));
+
+/**
+ * Current state of every stall from one day's showers. A stall is occupied while a
+ * started shower has not finished, and being cleaned after its latest shower
+ * finished until someone marks it clean.
+ */
+export const buildStallBoard = <T extends StallShower>(showers: T[], stallCount: number): ShowerStall<T>[] =>
+    Array.from({ length: stallCount }, (_, i) => {
+        const number = i + 1;
+        const inStall = showers.filter((s) => s.stallNumber === number);
+        const occupant = inStall.find(isInStall);
+        if (occupant) return { number, state: 'occupied', shower: occupant };
+
+        const last = inStall
+            .filter((s) => s.finishedAt)
+            .sort((a, b) => (b.finishedAt || '').localeCompare(a.finishedAt || ''))[0];
+        if (last && needsCleaning(last)) return { number, state: 'cleaning', shower: last };
+
+        return { number, state: 'free', shower: null };
+    });
+
+// Guests booked but not yet in a stall, earliest slot first (the first one is called next)
+export const waitingShowers = <T extends StallShower>(showers: T[]): T[] =>
+    showers
+        .filter((s) => ACTIVE_STATUSES.has(s.status) && !s.startedAt)
+        .sort((a, b) => (a.time || '99:99').localeCompare(b.time || '99:99'));
+
+export const showerDurationMinutes = (shower: StallShower): number | null => {
+    if (!shower.startedAt || !shower.finishedAt) return null;
+    const minutes = (new Date(shower.finishedAt).getTime() - new Date(shower.startedAt).getTime()) / 60_000;
+    return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+};
+
+// e.g. 754000 -> "12:34"
+export const formatElapsed = (ms: number) => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const showerDurationStats = (showers: StallShower[]): ShowerDurationStats => {
+    const timed = showers
+        .map((s) => ({ stallNumber: s.stallNumber || 0, minutes: showerDurationMinutes(s) }))
+        .filter((t): t is { stallNumber: number; minutes: number } => t.minutes !== null);
+
+    if (timed.length === 0) {
+        return { count: 0, averageMinutes: null, medianMinutes: null, longestMinutes: null, byStall: [] };
+    }
+
+    const sorted = timed.map((t) => t.minutes).sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+
+    const stalls = new Map<number, number[]>();
+    timed.forEach((t) => stalls.set(t.stallNumber, [...(stalls.get(t.stallNumber) || []), t.minutes]));
+
+    return {
+        count: timed.length,
+        averageMinutes: round1(sorted.reduce((sum, m) => sum + m, 0) / sorted.length),
+        medianMinutes: round1(median),
+        longestMinutes: round1(sorted[sorted.length - 1]),
+        byStall: Array.from(stalls.entries())
+            .filter(([stallNumber]) => stallNumber > 0)
+            .sort(([a], [b]) => a - b)
+            .map(([stallNumber, minutes]) => ({
+                stallNumber,
+                count: minutes.length,
+                averageMinutes: round1(minutes.reduce((sum, m) => sum + m, 0) / minutes.length),
+            })),
+    };
+};
@@ -0,0 +1,63 @@
+// Service locations (mirrors public.sites)
+
+export interface Site {
+    id: string;
+    name: string;
+    code: string;          // short code, e.g. "MV"
+    address: string | null;
+    isDefault: boolean;    // where records without a site belong
+    active: boolean;       // inactive sites keep their history but can't be picked
+}
+
+export interface SiteScoped {
+    siteId?: string | null;
+}
+
+const CODE_PATTERN = /^[A-Z0-9]{1,4}$/;
+
+// Default site first, then by name
+export const sortSites = (sites: Site[]) =>
+    [...sites].sort((a, b) => (a.isDefault === b.isDefault ? a.name.localeCompare(b.name) : a.isDefault ? -1 : 1));
+
+export const getDefaultSite = (sites: Site[]) => sites.find((s) => s.isDefault) || sites[0] || null;
+
+// Return an error message for an invalid draft, or null when it can be saved
+export const validateSite = (draft: Site, existing: Site[]): string | null => {
+    const name = draft.name.trim();
+    if (!name) return 'Site name is required';
+    if (!CODE_PATTERN.test(draft.code)) return 'Code must be 1-4 letters or digits';
+    const others = existing.filter((s) => s.id !== draft.id);
+    if (others.some((s) => s.name.trim().toLowerCase() === name.toLowerCase())) return `${name} already exists`;
+    if (others.some((s) => s.code === draft.code)) return `Code ${draft.code} is already used`;
+    if (draft.isDefault && !draft.active) return 'The default site must stay active';
+    return null;
+};
+
+// Filtered copies are cached per array so components keep stable references between renders
+const filterCache = new WeakMap<object, Map<string, unknown[]>>();
+
+/**
+ * Records from one site; a null siteId means every site (rolled up). Records
+ * with no site yet (queued offline before sites loaded) count toward the
+ * default site. Returns the same array for the same input so memoized
+ * consumers don't recompute.
+ */
+export const filterBySite = <T extends SiteScoped>(
+    records: T[],
+    siteId: string | null,
+    defaultSiteId: string | null = null
+): T[] => {
+    if (!siteId || !Array.isArray(records)) return records;
+    let bySite = filterCache.get(records);
+    if (!bySite) {
+        bySite = new Map();
+        filterCache.set(records, bySite);
+    }
+    const key = `${siteId}:${defaultSiteId ?? ''}`;
+    let filtered = bySite.get(key) as T[] | undefined;
+    if (!filtered) {
+        filtered = records.filter((record) => (record.siteId || defaultSiteId) === siteId);
+        bySite.set(key, filtered);
+    }
+    return filtered;
+};
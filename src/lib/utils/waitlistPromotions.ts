@@ -0,0 +1,39 @@
+// Waitlist auto-promotion log (mirrors public.waitlist_promotions)
+
+import { formatSlotLabel } from './serviceSlots';
+import { pacificDateStringFrom } from './date';
+
+export interface WaitlistPromotion {
+    id: string;
+    serviceType: 'shower' | 'laundry';
+    recordId: string;                  // booking that came off the waitlist
+    guestId: string | null;
+    freedRecordId: string | null;      // booking whose cancellation or no-show freed the slot
+    freedStatus: string;
+    serviceDate: string;               // YYYY-MM-DD
+    slotLabel: string;
+    promotedAt: string;
+}
+
+interface WaitlistRecord {
+    status: string;
+    date: string;
+    waitlistPosition?: number | null;
+}
+
+// Position for a new waitlist entry: one past the last guest already waiting that day
+export const nextWaitlistPosition = (records: WaitlistRecord[], serviceDate: string) =>
+    records
+        .filter((r) => r.status === 'waitlisted' && pacificDateStringFrom(r.date) === serviceDate)
+        .reduce((max, r) => Math.max(max, r.waitlistPosition || 0), 0) + 1;
+
+const FREED_REASONS: Record<string, string> = {
+    cancelled: 'a cancellation',
+    no_show: 'a no-show',
+};
+
+export const promotionReason = (promotion: Pick<WaitlistPromotion, 'freedStatus'>) =>
+    FREED_REASONS[promotion.freedStatus] || 'a freed slot';
+
+export const promotionMessage = (guestName: string, promotion: Pick<WaitlistPromotion, 'slotLabel'>) =>
+    `${guestName} moved off the waitlist to ${formatSlotLabel(promotion.slotLabel)}`;
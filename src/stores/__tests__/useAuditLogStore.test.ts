@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useAuditLogStore, AUDIT_LOG_PAGE_SIZE } from '../useAuditLogStore';
+import { toast } from 'react-hot-toast';
+
+// Chainable query builder that records every call and resolves with `result`
+const { calls, result } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    result: { data: [] as unknown[] | null, error: null as unknown },
+}));
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'limit', 'eq', 'ilike', 'gte', 'lt'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(result);
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    toast: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const ROW = {
+    id: 42,
+    occurred_at: '2026-10-01T17:00:00Z',
+    table_name: 'shower_reservations',
+    record_id: 'shower-1',
+    action: 'delete',
+    guest_id: 'guest-1',
+    actor_id: 'user-1',
+    actor_email: 'staff@example.com',
+    actor_role: 'staff',
+    old_data: { id: 'shower-1', status: 'booked' },
+    new_data: null,
+};
+
+describe('useAuditLogStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        result.data = [];
+        result.error = null;
+        useAuditLogStore.setState({ entries: [], filters: {}, loading: false });
+    });
+
+    it('loads the newest entries and maps rows to camelCase', async () => {
+        result.data = [ROW];
+
+        await useAuditLogStore.getState().fetchEntries();
+
+        expect(calls).toContainEqual(['from', ['audit_log']]);
+        expect(calls).toContainEqual(['order', ['occurred_at', { ascending: false }]]);
+        expect(calls).toContainEqual(['limit', [AUDIT_LOG_PAGE_SIZE]]);
+        expect(useAuditLogStore.getState().entries).toEqual([
+            expect.objectContaining({
+                id: '42',
+                tableName: 'shower_reservations',
+                action: 'delete',
+                guestId: 'guest-1',
+                actorEmail: 'staff@example.com',
+                oldData: { id: 'shower-1', status: 'booked' },
+                newData: null,
+            }),
+        ]);
+        expect(useAuditLogStore.getState().loading).toBe(false);
+    });
+
+    it('applies guest, user, record type and date filters', async () => {
+        useAuditLogStore.getState().setFilters({
+            guestId: 'guest-1',
+            actorEmail: ' staff ',
+            tableName: 'guests',
+            since: '2026-10-01',
+            until: '2026-10-31',
+        });
+
+        await useAuditLogStore.getState().fetchEntries();
+
+        expect(calls).toContainEqual(['eq', ['guest_id', 'guest-1']]);
+        expect(calls).toContainEqual(['ilike', ['actor_email', '%staff%']]);
+        expect(calls).toContainEqual(['eq', ['table_name', 'guests']]);
+        expect(calls).toContainEqual(['gte', ['occurred_at', '2026-10-01']]);
+        // `until` is inclusive of the whole day
+        expect(calls).toContainEqual(['lt', ['occurred_at', '2026-11-01']]);
+    });
+
+    it('skips filters that are not set', async () => {
+        await useAuditLogStore.getState().fetchEntries();
+
+        const methods = calls.map(([method]) => method);
+        expect(methods).not.toContain('eq');
+        expect(methods).not.toContain('ilike');
+        expect(methods).not.toContain('gte');
+        expect(methods).not.toContain('lt');
+    });
+
+    it('shows an error toast and keeps existing entries when the query fails', async () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        useAuditLogStore.setState({ entries: [{ id: 'old' } as never] });
+        result.error = { message: 'permission denied' };
+
+        await useAuditLogStore.getState().fetchEntries();
+
+        expect(toast.error).toHaveBeenCalledWith('Failed to load audit log');
+        expect(useAuditLogStore.getState().entries).toEqual([{ id: 'old' }]);
+        expect(useAuditLogStore.getState().loading).toBe(false);
+        errorSpy.mockRestore();
+    });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useAutomaticMealRulesStore } from '../useAutomaticMealRulesStore';
+import type { AutomaticMealRule } from '@/lib/utils/automaticMealRules';
+import toast from 'react-hot-toast';
+
+const { calls, result } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    result: { data: [] as unknown, error: null as unknown },
+}));
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'upsert', 'not', 'limit', 'single'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(result);
+            return builder;
+        },
+        rpc: (fn: string) => {
+            calls.push(['rpc', [fn]]);
+            return Promise.resolve(result);
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const MONDAY_RV: AutomaticMealRule = {
+    id: 'r1',
+    weekday: 1,
+    mealType: 'rv',
+    quantity: 100,
+    note: 'Automatic Entry (Mon)',
+    startsOn: null,
+    endsOn: null,
+    active: true,
+};
+
+describe('useAutomaticMealRulesStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        result.data = [];
+        result.error = null;
+        useAutomaticMealRulesStore.setState({ rules: [], history: [], isLoading: false, isLoaded: false });
+    });
+
+    it('loads rules and maps them to camelCase', async () => {
+        result.data = [
+            { id: 'r2', weekday: 6, meal_type: 'lunch_bag', quantity: 100, note: null, active: true },
+            { id: 'r1', weekday: 1, meal_type: 'rv', quantity: 100, note: 'Automatic Entry (Mon)', active: true, effective_from: '2025-01-01' },
+        ];
+
+        await useAutomaticMealRulesStore.getState().ensureLoaded();
+
+        expect(calls).toContainEqual(['from', ['automatic_meal_rules']]);
+        const { rules, isLoaded } = useAutomaticMealRulesStore.getState();
+        expect(isLoaded).toBe(true);
+        expect(rules[0]).toEqual({ ...MONDAY_RV, effectiveFrom: '2025-01-01' });
+        expect(rules[1]).toMatchObject({ id: 'r2', weekday: 6, mealType: 'lunch_bag' });
+    });
+
+    it('saves a new rule without an id and keeps the returned row', async () => {
+        result.data = { id: 'r9', weekday: 3, meal_type: 'rv', quantity: 40, note: null, starts_on: '2025-06-01', active: true };
+
+        const ok = await useAutomaticMealRulesStore.getState().saveRule({
+            ...MONDAY_RV,
+            id: undefined,
+            weekday: 3,
+            quantity: 40,
+            note: '  ',
+            startsOn: '2025-06-01',
+        });
+
+        expect(ok).toBe(true);
+        expect(calls).toContainEqual([
+            'upsert',
+            [{ weekday: 3, meal_type: 'rv', quantity: 40, note: null, starts_on: '2025-06-01', ends_on: null, active: true }],
+        ]);
+        expect(useAutomaticMealRulesStore.getState().rules).toEqual([
+            expect.objectContaining({ id: 'r9', weekday: 3, startsOn: '2025-06-01' }),
+        ]);
+    });
+
+    it('keeps the rules when a save fails', async () => {
+        useAutomaticMealRulesStore.setState({ rules: [MONDAY_RV] });
+        result.data = null;
+        result.error = { message: 'permission denied' };
+
+        const ok = await useAutomaticMealRulesStore.getState().saveRule({ ...MONDAY_RV, active: false });
+
+        expect(ok).toBe(false);
+        expect(useAutomaticMealRulesStore.getState().rules).toEqual([MONDAY_RV]);
+        expect(toast.error).toHaveBeenCalledWith('Failed to save rule');
+    });
+
+    it('loads recent entries created by rules', async () => {
+        result.data = [
+            { id: 'm1', meal_type: 'rv', quantity: 100, served_on: '2025-01-06', notes: 'Automatic Entry (Mon)', automatic_rule_id: 'r1' },
+        ];
+
+        await useAutomaticMealRulesStore.getState().loadHistory();
+
+        expect(calls).toContainEqual(['not', ['automatic_rule_id', 'is', null]]);
+        expect(useAutomaticMealRulesStore.getState().history).toEqual([
+            { id: 'm1', mealType: 'rv', quantity: 100, servedOn: '2025-01-06', note: 'Automatic Entry (Mon)', ruleId: 'r1', recordedAt: null },
+        ]);
+    });
+
+    it('records due meals on demand and reports how many were added', async () => {
+        // The history reload afterwards sees the same mocked result
+        const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        result.data = 2;
+
+        const count = await useAutomaticMealRulesStore.getState().recordDueMeals();
+
+        expect(calls).toContainEqual(['rpc', ['record_automatic_meals']]);
+        expect(count).toBe(2);
+        expect(calls).toContainEqual(['from', ['meal_attendance']]);
+        consoleSpy.mockRestore();
+    });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+    useBicycleRepairTypesStore,
+    DEFAULT_BICYCLE_REPAIR_TYPES,
+    toRepairTypeKey,
+    type BicycleRepairType,
+} from '../useBicycleRepairTypesStore';
+import toast from 'react-hot-toast';
+
+const { calls, result } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    result: { data: [] as unknown[] | null, error: null as unknown },
+}));
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'upsert'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(result);
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const BOTTOM_BRACKET: BicycleRepairType = {
+    key: 'bottom_bracket',
+    label: 'Bottom Bracket',
+    category: 'repair',
+    defaultPriority: 1,
+    estimatedMinutes: 40,
+    active: true,
+    sortOrder: 25,
+};
+
+describe('useBicycleRepairTypesStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        result.data = [];
+        result.error = null;
+        useBicycleRepairTypesStore.setState({ types: DEFAULT_BICYCLE_REPAIR_TYPES, isLoading: false, isLoaded: false });
+    });
+
+    it('loads repair types and maps them to camelCase', async () => {
+        result.data = [
+            { key: 'flat_tire', label: 'Flat Tire', category: 'repair', default_priority: 0, estimated_minutes: 15, active: true, sort_order: 20 },
+            { key: 'lock', label: 'Lock', category: 'accessory', default_priority: 3, estimated_minutes: null, active: false, sort_order: 5 },
+        ];
+
+        await useBicycleRepairTypesStore.getState().ensureLoaded();
+
+        expect(calls).toContainEqual(['from', ['bicycle_repair_types']]);
+        const { types, isLoaded } = useBicycleRepairTypesStore.getState();
+        expect(isLoaded).toBe(true);
+        expect(types.map((t) => t.key)).toEqual(['lock', 'flat_tire']);
+        expect(types[0]).toMatchObject({ category: 'accessory', defaultPriority: 3, estimatedMinutes: null, active: false });
+        expect(useBicycleRepairTypesStore.getState().getActiveTypes().map((t) => t.key)).toEqual(['flat_tire']);
+    });
+
+    it('keeps the defaults when the table is empty or fails to load', async () => {
+        await useBicycleRepairTypesStore.getState().ensureLoaded();
+        expect(useBicycleRepairTypesStore.getState().types).toEqual(DEFAULT_BICYCLE_REPAIR_TYPES);
+
+        result.error = { message: 'boom' };
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await useBicycleRepairTypesStore.getState().ensureLoaded({ force: true });
+        expect(useBicycleRepairTypesStore.getState().types).toEqual(DEFAULT_BICYCLE_REPAIR_TYPES);
+    });
+
+    it('upserts a type by key with snake_case columns', async () => {
+        const ok = await useBicycleRepairTypesStore.getState().saveType(BOTTOM_BRACKET);
+
+        expect(ok).toBe(true);
+        expect(calls).toContainEqual(['upsert', [{
+            key: 'bottom_bracket',
+            label: 'Bottom Bracket',
+            category: 'repair',
+            default_priority: 1,
+            estimated_minutes: 40,
+            active: true,
+            sort_order: 25,
+        }, { onConflict: 'key' }]]);
+        expect(useBicycleRepairTypesStore.getState().types[2].key).toBe('bottom_bracket');
+    });
+
+    it('rolls back a failed save', async () => {
+        result.error = { message: 'denied' };
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        const ok = await useBicycleRepairTypesStore.getState().saveType(BOTTOM_BRACKET);
+
+        expect(ok).toBe(false);
+        expect(useBicycleRepairTypesStore.getState().types).toEqual(DEFAULT_BICYCLE_REPAIR_TYPES);
+        expect(toast.error).toHaveBeenCalledWith('Failed to save repair type');
+    });
+
+    it('resolves stored labels, including retired and renamed types', () => {
+        useBicycleRepairTypesStore.setState({
+            types: [
+                { ...DEFAULT_BICYCLE_REPAIR_TYPES[1], label: 'Flat Tyre' },
+                { ...DEFAULT_BICYCLE_REPAIR_TYPES[14], active: false },
+            ],
+        });
+        const { resolveType } = useBicycleRepairTypesStore.getState();
+
+        expect(resolveType('flat tyre')?.key).toBe('flat_tire');
+        expect(resolveType('Flat Tire')?.label).toBe('Flat Tyre');
+        expect(resolveType('Lock')?.active).toBe(false);
+        expect(resolveType('Spoke Repair')).toBeUndefined();
+    });
+
+    it('recognises new bicycles by category with a fallback for unknown labels', () => {
+        const { isNewBicycleType } = useBicycleRepairTypesStore.getState();
+        expect(isNewBicycleType('New Bicycle')).toBe(true);
+        expect(isNewBicycleType('Flat Tire')).toBe(false);
+        expect(isNewBicycleType('Donated new bike')).toBe(true);
+    });
+
+    it('derives keys from labels', () => {
+        expect(toRepairTypeKey(' Basket/Rack ')).toBe('basket_rack');
+    });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useGuestMergeStore } from '../useGuestMergeStore';
+import { useGuestsStore } from '../useGuestsStore';
+import { useMealsStore } from '../useMealsStore';
+import { useServicesStore } from '../useServicesStore';
+import { useRemindersStore } from '../useRemindersStore';
+import { useHouseholdsStore } from '../useHouseholdsStore';
+import toast from 'react-hot-toast';
+
+const { calls, results } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    results: [] as { data: unknown; error: unknown }[],
+}));
+
+const nextResult = () => results.shift() || { data: null, error: null };
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        rpc: (name: string, args: unknown) => {
+            calls.push(['rpc', [name, args]]);
+            return Promise.resolve(nextResult());
+        },
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'limit'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(nextResult());
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const guestRow = (id: string, first: string, last: string) => ({
+    id,
+    external_id: `G-${id}`,
+    first_name: first,
+    last_name: last,
+    full_name: `${first} ${last}`,
+    age_group: 'Adult 18-59',
+    gender: 'Male',
+    housing_status: 'Unhoused',
+    location: 'Mountain View',
+});
+
+const mergeRow = {
+    id: 'm1',
+    kept_guest_id: 'g1',
+    merged_guest_id: 'g2',
+    merged_guest: guestRow('g2', 'Bob', 'Smith'),
+    moved_rows: { 'meal_attendance.guest_id': ['meal-1'] },
+    merged_by: 'staff@example.org',
+    merged_at: '2026-10-19T12:00:00Z',
+    undo_until: '2026-10-20T12:00:00Z',
+};
+
+const reloads = {
+    warnings: vi.fn(),
+    proxies: vi.fn(),
+    meals: vi.fn(),
+    services: vi.fn(),
+    reminders: vi.fn(),
+    households: vi.fn(),
+};
+
+describe('useGuestMergeStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        results.length = 0;
+        useGuestMergeStore.setState({ recentMerges: [], dismissedPairs: [], isLoading: false });
+        useGuestsStore.setState({
+            guests: [
+                { id: 'g1', firstName: 'Robert', lastName: 'Smith' },
+                { id: 'g2', firstName: 'Bob', lastName: 'Smith' },
+                { id: 'g3', firstName: 'Maria', lastName: 'Lopez' },
+            ] as any,
+            guestBans: [{ id: 'b1', guestId: 'g2' }] as any,
+            loadGuestWarningsFromSupabase: reloads.warnings,
+            loadGuestProxiesFromSupabase: reloads.proxies,
+        });
+        useMealsStore.setState({ ensureLoaded: reloads.meals });
+        useServicesStore.setState({ ensureLoaded: reloads.services });
+        useRemindersStore.setState({ loadFromSupabase: reloads.reminders });
+        useHouseholdsStore.setState({ ensureLoaded: reloads.households });
+    });
+
+    it('loads the most recent merges', async () => {
+        results.push({ data: [mergeRow], error: null });
+
+        await useGuestMergeStore.getState().loadRecentMerges();
+
+        expect(calls).toContainEqual(['from', ['guest_merges']]);
+        expect(useGuestMergeStore.getState().recentMerges).toEqual([
+            expect.objectContaining({ id: 'm1', mergedGuestName: 'Bob Smith', movedRecordCount: 1 }),
+        ]);
+    });
+
+    it('merges through the database and drops the duplicate locally', async () => {
+        results.push({ data: { merge: mergeRow, kept: guestRow('g1', 'Robert', 'Smith') }, error: null });
+
+        const merge = await useGuestMergeStore.getState().mergeGuests('g1', 'g2', { notes: 'Uses a walker' }, 'staff@example.org');
+
+        expect(merge?.id).toBe('m1');
+        expect(calls).toContainEqual(['rpc', ['merge_guests', {
+            p_keep_id: 'g1',
+            p_merge_id: 'g2',
+            p_fields: { notes: 'Uses a walker' },
+            p_merged_by: 'staff@example.org',
+        }]]);
+        const guests = useGuestsStore.getState();
+        expect(guests.guests.map((g) => g.id)).toEqual(['g1', 'g3']);
+        expect(guests.guests[0].guestId).toBe('G-g1');
+        expect(guests.guestBans).toEqual([]);
+        expect(useGuestMergeStore.getState().recentMerges[0].id).toBe('m1');
+        Object.values(reloads).forEach((reload) => expect(reload).toHaveBeenCalled());
+        expect(reloads.meals).toHaveBeenCalledWith({ force: true });
+    });
+
+    it('shows why the database refused a merge', async () => {
+        results.push({ data: null, error: { message: 'Both guests have a shower booking on 2026-10-19; cancel one before merging' } });
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await useGuestMergeStore.getState().mergeGuests('g1', 'g2', {})).toBeNull();
+        expect(toast.error).toHaveBeenCalledWith('Merge failed: Both guests have a shower booking on 2026-10-19; cancel one before merging');
+        expect(useGuestsStore.getState().guests).toHaveLength(3);
+        expect(reloads.meals).not.toHaveBeenCalled();
+        error.mockRestore();
+    });
+
+    it('restores the duplicate on undo', async () => {
+        useGuestMergeStore.setState({ recentMerges: [{ id: 'm1', keptGuestId: 'g1', mergedGuestId: 'g2', undoneAt: null } as any] });
+        useGuestsStore.setState({ guests: [{ id: 'g1', firstName: 'Robert', lastName: 'Smith' }] as any });
+        results.push({ data: { kept: guestRow('g1', 'Robert', 'Smith'), restored: guestRow('g2', 'Bob', 'Smith') }, error: null });
+
+        expect(await useGuestMergeStore.getState().undoMerge('m1')).toBe(true);
+
+        expect(calls).toContainEqual(['rpc', ['undo_guest_merge', { p_merge_id: 'm1' }]]);
+        expect(useGuestsStore.getState().guests.map((g) => g.id)).toEqual(['g1', 'g2']);
+        expect(useGuestMergeStore.getState().recentMerges[0].undoneAt).not.toBeNull();
+    });
+
+    it('remembers pairs marked as different guests in either order', () => {
+        useGuestMergeStore.getState().dismissPair('g2', 'g1');
+        useGuestMergeStore.getState().dismissPair('g1', 'g2');
+        expect(useGuestMergeStore.getState().dismissedPairs).toEqual(['g1:g2']);
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { useGuestPhotosStore } from '../useGuestPhotosStore';
+import { useGuestsStore } from '../useGuestsStore';
+import {
+    createLocalGuestPhotoStorage,
+    setGuestPhotoStorage,
+    type GuestPhotoStorage,
+} from '@/lib/supabase/guestPhotos';
+
+const photo = () => new Blob(['x'], { type: 'image/jpeg' });
+
+describe('useGuestPhotosStore', () => {
+    let storage: GuestPhotoStorage;
+    let updateGuest: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useRealTimers();
+        storage = createLocalGuestPhotoStorage();
+        setGuestPhotoStorage(storage);
+        useGuestPhotosStore.setState({ urls: {} });
+        updateGuest = vi.fn(async (id: string, updates: { photoPath?: string | null }) => {
+            useGuestsStore.setState((state) => ({
+                guests: state.guests.map((g) => (g.id === id ? { ...g, ...updates } : g)),
+            }));
+            return true;
+        });
+        useGuestsStore.setState({
+            guests: [{ id: 'g1', name: 'Ana Lopez', photoPath: null }] as never,
+            updateGuest: updateGuest as never,
+        });
+    });
+
+    it('uploads a photo, saves its path on the guest and caches a URL', async () => {
+        expect(await useGuestPhotosStore.getState().saveGuestPhoto('g1', photo())).toBe(true);
+
+        const path = useGuestsStore.getState().guests[0].photoPath!;
+        expect(path).toMatch(/^g1\//);
+        expect(updateGuest).toHaveBeenCalledWith('g1', { photoPath: path });
+        expect(useGuestPhotosStore.getState().getPhotoUrl(path)).toMatch(/^data:image\/jpeg/);
+    });
+
+    it('removes the replaced photo from storage', async () => {
+        await storage.upload('g1/old.jpg', photo());
+        useGuestsStore.setState({ guests: [{ id: 'g1', name: 'Ana Lopez', photoPath: 'g1/old.jpg' }] as never });
+
+        await useGuestPhotosStore.getState().saveGuestPhoto('g1', photo());
+        expect(await storage.getUrls(['g1/old.jpg'])).toEqual({});
+    });
+
+    it('deletes the upload again when the guest record cannot be updated', async () => {
+        updateGuest.mockResolvedValueOnce(false);
+        const remove = vi.spyOn(storage, 'remove');
+
+        expect(await useGuestPhotosStore.getState().saveGuestPhoto('g1', photo())).toBe(false);
+        expect(remove).toHaveBeenCalledWith([expect.stringMatching(/^g1\//)]);
+    });
+
+    it('fails without touching the guest when the upload fails', async () => {
+        vi.spyOn(storage, 'upload').mockRejectedValueOnce(new Error('offline'));
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await useGuestPhotosStore.getState().saveGuestPhoto('g1', photo())).toBe(false);
+        expect(updateGuest).not.toHaveBeenCalled();
+        error.mockRestore();
+    });
+
+    it('removes a guest photo and forgets its URL', async () => {
+        await useGuestPhotosStore.getState().saveGuestPhoto('g1', photo());
+        const path = useGuestsStore.getState().guests[0].photoPath!;
+
+        expect(await useGuestPhotosStore.getState().removeGuestPhoto('g1')).toBe(true);
+        expect(updateGuest).toHaveBeenLastCalledWith('g1', { photoPath: null });
+        expect(useGuestPhotosStore.getState().urls[path]).toBeUndefined();
+        expect(await storage.getUrls([path])).toEqual({});
+    });
+
+    it('batches URL requests made together into one storage call', async () => {
+        vi.useFakeTimers();
+        const getUrls = vi.spyOn(storage, 'getUrls');
+
+        useGuestPhotosStore.getState().requestPhotoUrls(['g1/a.jpg']);
+        useGuestPhotosStore.getState().requestPhotoUrls(['g2/b.jpg', 'g1/a.jpg']);
+        await vi.runAllTimersAsync();
+
+        expect(getUrls).toHaveBeenCalledTimes(1);
+        expect(getUrls).toHaveBeenCalledWith(['g1/a.jpg', 'g2/b.jpg']);
+        vi.useRealTimers();
+    });
+
+    it('treats expired URLs as missing', () => {
+        useGuestPhotosStore.setState({ urls: { 'g1/a.jpg': { url: 'https://old', expiresAt: Date.now() - 1 } } });
+        expect(useGuestPhotosStore.getState().getPhotoUrl('g1/a.jpg')).toBeNull();
+    });
+});
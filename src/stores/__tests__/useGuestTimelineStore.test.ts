@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useGuestTimelineStore } from '../useGuestTimelineStore';
+import toast from 'react-hot-toast';
+
+const { calls, results } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    results: {} as Record<string, { data: unknown[] | null; error: unknown }>,
+}));
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            let range: [number, number] | null = null;
+            ['select', 'eq', 'order', 'range'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, [table, ...args]]);
+                    if (method === 'range') range = args as [number, number];
+                    return builder;
+                };
+            });
+            // Serve the requested page of the table's rows, as PostgREST does
+            builder.then = (resolve: (value: unknown) => unknown) => {
+                const { data, error } = results[table] || { data: [], error: null };
+                return resolve({ data: data && range ? data.slice(range[0], range[1] + 1) : data, error });
+            };
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+describe('useGuestTimelineStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        for (const key of Object.keys(results)) delete results[key];
+        useGuestTimelineStore.setState({ timelines: {}, loadingGuestId: null });
+    });
+
+    it('loads every source for the guest into one timeline', async () => {
+        results.meal_attendance = { data: [{ id: 'm1', quantity: 1, served_on: '2025-01-06' }], error: null };
+        results.haircut_visits = { data: [{ id: 'h1', served_at: '2025-01-07T18:00:00Z' }], error: null };
+
+        await useGuestTimelineStore.getState().loadTimeline('g1');
+
+        expect(calls.filter(([method]) => method === 'from')).toHaveLength(10);
+        expect(calls.filter(([method]) => method === 'eq').every(([, args]) => args[1] === 'guest_id' && args[2] === 'g1')).toBe(true);
+        expect(calls).toContainEqual(['order', ['meal_attendance', 'recorded_at', { ascending: false, nullsFirst: false }]]);
+        const { timelines, loadingGuestId } = useGuestTimelineStore.getState();
+        expect(loadingGuestId).toBeNull();
+        expect(timelines.g1.map((e) => e.id)).toEqual(['haircut:h1', 'meal:m1']);
+    });
+
+    it('pages through guests with more history than one response holds', async () => {
+        const meals = Array.from({ length: 1001 }, (_, i) => ({
+            id: `m${i}`,
+            quantity: 1,
+            served_on: `2020-01-${String((i % 28) + 1).padStart(2, '0')}`,
+        }));
+        results.meal_attendance = { data: meals, error: null };
+
+        await useGuestTimelineStore.getState().loadTimeline('g1');
+
+        expect(calls).toContainEqual(['range', ['meal_attendance', 0, 999]]);
+        expect(calls).toContainEqual(['range', ['meal_attendance', 1000, 1999]]);
+        expect(useGuestTimelineStore.getState().timelines.g1).toHaveLength(1001);
+    });
+
+    it('keeps what loaded when one source fails', async () => {
+        const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+        results.meal_attendance = { data: [{ id: 'm1', quantity: 1, served_on: '2025-01-06' }], error: null };
+        results.service_waivers = { data: null, error: { message: 'permission denied' } };
+
+        await useGuestTimelineStore.getState().loadTimeline('g1');
+
+        expect(useGuestTimelineStore.getState().timelines.g1).toHaveLength(1);
+        expect(toast.error).toHaveBeenCalledWith("Some of this guest's history could not be loaded");
+        consoleSpy.mockRestore();
+    });
+});
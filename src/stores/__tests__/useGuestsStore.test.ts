@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { useGuestsStore } from '../useGuestsStore';
+import { useSettingsStore } from '../useSettingsStore';
+import { hasValidCheckCharacter } from '@/lib/utils/guestIdFormat';
 
 // 1. Define Mock Supabase
 const mockSupabase = {
@@ -9,6 +11,9 @@ const mockSupabase = {
     delete: vi.fn().mockReturnThis(),
     select: vi.fn().mockReturnThis(),
     eq: vi.fn().mockReturnThis(),
+    is: vi.fn().mockReturnThis(),
+    gt: vi.fn().mockReturnThis(),
+    order: vi.fn().mockResolvedValue({ data: [], error: null }),
     or: vi.fn().mockResolvedValue({ error: null }),
     single: vi.fn().mockResolvedValue({
         data: {
@@ -82,6 +87,8 @@ describe('useGuestsStore', () => {
         mockSupabase.delete.mockReturnThis();
         mockSupabase.select.mockReturnThis();
         mockSupabase.eq.mockReturnThis();
+        mockSupabase.is.mockReturnThis();
+        mockSupabase.gt.mockReturnThis();
 
         // Reset specific mocks with logic
         mockSupabase.single.mockReset();
@@ -94,6 +101,7 @@ describe('useGuestsStore', () => {
             guests: [],
             guestProxies: [],
             warnings: [],
+            guestBans: [],
         });
     });
 
@@ -110,6 +118,25 @@ describe('useGuestsStore', () => {
             const { generateGuestId } = useGuestsStore.getState();
             expect(generateGuestId()).toMatch(/^G[A-Z0-9]+\d{3}$/);
         });
+
+        it('follows the configured format', () => {
+            useSettingsStore.setState({ guestIdFormat: { prefix: 'HC', siteCode: 'MV', checkDigit: true } });
+            const id = useGuestsStore.getState().generateGuestId();
+            useSettingsStore.setState({ guestIdFormat: { prefix: 'G', siteCode: '', checkDigit: false } });
+
+            expect(id).toMatch(/^HCMV[A-Z0-9]+\d{3}[A-Z0-9]$/);
+            expect(hasValidCheckCharacter(id)).toBe(true);
+        });
+
+        it('does not reuse an existing guest ID', () => {
+            const now = vi.spyOn(Date, 'now').mockReturnValue(1760000000000);
+            const random = vi.spyOn(Math, 'random').mockReturnValueOnce(0.5).mockReturnValue(0.25);
+            useGuestsStore.setState({ guests: [{ id: 'g1', guestId: 'G' + (1760000000000).toString(36).toUpperCase() + '500' }] as any });
+
+            expect(useGuestsStore.getState().generateGuestId()).toMatch(/250$/);
+            now.mockRestore();
+            random.mockRestore();
+        });
     });
 
     describe('syncGuests', () => {
@@ -208,12 +235,59 @@ describe('useGuestsStore', () => {
         });
 
         describe('banGuest', () => {
+            const banRow = {
+                id: 'ban-1',
+                guest_id: 'g1',
+                reason: 'R',
+                banned_from_shower: true,
+                issued_by: 'staff@example.com',
+                starts_at: '2099-01-01T00:00:00Z',
+                ends_at: '2099-02-01T00:00:00Z',
+            };
+
             it('bans guest successfully', async () => {
                 mockSupabase.single.mockResolvedValueOnce({ data: { id: 'g1' }, error: null });
                 await useGuestsStore.getState().banGuest('g1', { reason: 'R', bannedUntil: '2025-01-01' });
                 // Implicit success check
             });
 
+            it('records the ban in guest_bans and mirrors it on the guest', async () => {
+                useGuestsStore.setState({ guests: [createMockGuest({ id: 'g1' })] });
+                mockSupabase.single.mockResolvedValueOnce({ data: banRow, error: null });
+
+                const result = await useGuestsStore.getState().banGuest('g1', {
+                    banReason: 'R',
+                    bannedUntil: '2099-02-01',
+                    bannedFromShower: true,
+                    issuedBy: 'staff@example.com',
+                });
+
+                expect(result).toBe(true);
+                expect(mockSupabase.from).toHaveBeenCalledWith('guest_bans');
+                expect(mockSupabase.insert).toHaveBeenCalledWith(expect.objectContaining({
+                    guest_id: 'g1',
+                    reason: 'R',
+                    banned_from_shower: true,
+                    issued_by: 'staff@example.com',
+                }));
+                const guest = useGuestsStore.getState().guests[0];
+                expect(guest.isBanned).toBe(true);
+                expect(guest.bannedUntil).toBe('2099-02-01T00:00:00Z');
+                expect(guest.bannedFromShower).toBe(true);
+                expect(useGuestsStore.getState().getBansForGuest('g1')).toHaveLength(1);
+            });
+
+            it('updates the current ban row instead of adding one', async () => {
+                useGuestsStore.setState({ guests: [createMockGuest({ id: 'g1' })] });
+                mockSupabase.single.mockResolvedValueOnce({ data: banRow, error: null });
+
+                await useGuestsStore.getState().banGuest('g1', { banId: 'ban-1', banReason: 'R', bannedUntil: '2099-02-01' });
+
+                expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({ reason: 'R' }));
+                expect(mockSupabase.eq).toHaveBeenCalledWith('id', 'ban-1');
+                expect(mockSupabase.insert).not.toHaveBeenCalled();
+            });
+
             it('throws if bannedUntil missing', async () => {
                 useGuestsStore.setState({ guests: [createMockGuest({ id: 'g1' })] });
                 await expect(useGuestsStore.getState().banGuest('g1', { reason: 'R' } as any)).rejects.toThrow('Ban end time is required');
@@ -232,12 +306,47 @@ describe('useGuestsStore', () => {
                 await useGuestsStore.getState().clearGuestBan('g1');
             });
 
+            it('lifts active bans without deleting them and clears the guest', async () => {
+                useGuestsStore.setState({
+                    guests: [createMockGuest({ id: 'g1', isBanned: true, bannedUntil: '2099-02-01T00:00:00Z' })],
+                });
+                mockSupabase.select.mockResolvedValueOnce({
+                    data: [{ id: 'ban-1', guest_id: 'g1', starts_at: '2099-01-01T00:00:00Z', ends_at: '2099-02-01T00:00:00Z', lifted_at: '2099-01-02T00:00:00Z', lifted_by: 'admin@example.com' }],
+                    error: null,
+                });
+
+                await useGuestsStore.getState().clearGuestBan('g1', { liftedBy: 'admin@example.com' });
+
+                expect(mockSupabase.update).toHaveBeenCalledWith(expect.objectContaining({ lifted_by: 'admin@example.com' }));
+                expect(mockSupabase.delete).not.toHaveBeenCalled();
+                expect(mockSupabase.is).toHaveBeenCalledWith('lifted_at', null);
+                expect(useGuestsStore.getState().guests[0].isBanned).toBe(false);
+                expect(useGuestsStore.getState().getBansForGuest('g1')[0].liftedBy).toBe('admin@example.com');
+            });
+
             it('handles Supabase error', async () => {
-                mockSupabase.single.mockResolvedValueOnce({ data: null, error: { message: 'Clear failed' } });
+                mockSupabase.select.mockResolvedValueOnce({ data: null, error: { message: 'Clear failed' } });
                 await expect(useGuestsStore.getState().clearGuestBan('g1')).rejects.toThrow('Unable to clear ban');
             });
         });
 
+        describe('loadGuestBans', () => {
+            it('loads ban history for one guest, newest first', async () => {
+                mockSupabase.order.mockResolvedValueOnce({
+                    data: [
+                        { id: 'ban-1', guest_id: 'g1', starts_at: '2025-01-01T00:00:00Z', ends_at: '2025-02-01T00:00:00Z' },
+                        { id: 'ban-2', guest_id: 'g1', starts_at: '2025-06-01T00:00:00Z', ends_at: '2025-07-01T00:00:00Z' },
+                    ],
+                    error: null,
+                });
+
+                await useGuestsStore.getState().loadGuestBans('g1');
+
+                expect(mockSupabase.eq).toHaveBeenCalledWith('guest_id', 'g1');
+                expect(useGuestsStore.getState().getBansForGuest('g1').map((b) => b.id)).toEqual(['ban-2', 'ban-1']);
+            });
+        });
+
         describe('linkGuests', () => {
             it('links guests successfully', async () => {
                 mockSupabase.single.mockResolvedValueOnce({ data: { id: 'p1', guest_id: 'g1', proxy_id: 'g2' }, error: null });
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useHouseholdsStore } from '../useHouseholdsStore';
+import toast from 'react-hot-toast';
+
+const { calls, results } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    results: [] as { data: unknown; error: unknown }[],
+}));
+
+const nextResult = () => results.shift() || { data: null, error: null };
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'insert', 'update', 'delete', 'eq'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.single = () => Promise.resolve(nextResult());
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(nextResult());
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const household = { id: 'h1', name: 'Lopez Household', headGuestId: 'g1', mealAllowance: 4, notes: null };
+const head = { id: 'm1', householdId: 'h1', guestId: 'g1', role: 'head' as const };
+const child = { id: 'm2', householdId: 'h1', guestId: 'g2', role: 'child' as const };
+
+describe('useHouseholdsStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        results.length = 0;
+        useHouseholdsStore.setState({ households: [], members: [], isLoaded: false, isLoading: false });
+    });
+
+    it('loads households and their members', async () => {
+        results.push(
+            { data: [{ id: 'h1', name: 'Lopez Household', head_guest_id: 'g1', meal_allowance: 4 }], error: null },
+            { data: [{ id: 'm1', household_id: 'h1', guest_id: 'g1', role: 'head' }], error: null },
+        );
+
+        await useHouseholdsStore.getState().ensureLoaded();
+
+        const state = useHouseholdsStore.getState();
+        expect(state.isLoaded).toBe(true);
+        expect(state.households[0]).toEqual(expect.objectContaining({ id: 'h1', mealAllowance: 4 }));
+        expect(state.members).toEqual([expect.objectContaining({ guestId: 'g1', role: 'head' })]);
+    });
+
+    it('creates a household with the guest as head', async () => {
+        results.push(
+            { data: { id: 'h1', name: 'Lopez Household', meal_allowance: 4 }, error: null },
+            { data: { id: 'm1', household_id: 'h1', guest_id: 'g1', role: 'head' }, error: null },
+        );
+
+        const created = await useHouseholdsStore.getState().createHousehold({ name: ' Lopez Household ', mealAllowance: 4 }, 'g1');
+
+        expect(created).toEqual(expect.objectContaining({ id: 'h1', headGuestId: 'g1' }));
+        expect(calls).toContainEqual(['insert', [{ name: 'Lopez Household', meal_allowance: 4, notes: null }]]);
+        expect(calls).toContainEqual(['insert', [{ household_id: 'h1', guest_id: 'g1', role: 'head' }]]);
+        expect(useHouseholdsStore.getState().getHouseholdForGuest('g1')?.household.headGuestId).toBe('g1');
+    });
+
+    it('removes the new household when the head already belongs to another', async () => {
+        results.push(
+            { data: { id: 'h1', name: 'Lopez Household' }, error: null },
+            { data: null, error: { code: '23505' } },
+        );
+
+        const created = await useHouseholdsStore.getState().createHousehold({ name: 'Lopez Household' }, 'g1');
+
+        expect(created).toBeNull();
+        expect(toast.error).toHaveBeenCalledWith('That guest already belongs to a household');
+        expect(calls).toContainEqual(['delete', []]);
+        expect(useHouseholdsStore.getState().households).toEqual([]);
+    });
+
+    it('steps the current head down before promoting another member', async () => {
+        useHouseholdsStore.setState({ households: [household], members: [head, child] });
+
+        expect(await useHouseholdsStore.getState().setMemberRole('m2', 'head')).toBe(true);
+
+        const updates = calls.filter(([method]) => method === 'update').map(([, args]) => args[0]);
+        expect(updates).toEqual([{ role: 'other' }, { role: 'head' }]);
+        const state = useHouseholdsStore.getState();
+        expect(state.members.map((m) => m.role)).toEqual(['other', 'head']);
+        expect(state.households[0].headGuestId).toBe('g2');
+    });
+
+    it('clears the head when the head leaves the household', async () => {
+        useHouseholdsStore.setState({ households: [household], members: [head, child] });
+
+        expect(await useHouseholdsStore.getState().removeMember('m1')).toBe(true);
+
+        const state = useHouseholdsStore.getState();
+        expect(state.members).toEqual([child]);
+        expect(state.households[0].headGuestId).toBeNull();
+    });
+
+    it('keeps the allowance when the update fails', async () => {
+        useHouseholdsStore.setState({ households: [household], members: [head] });
+        results.push({ data: null, error: { message: 'denied' } });
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        expect(await useHouseholdsStore.getState().updateHousehold('h1', { mealAllowance: 2 })).toBe(false);
+        expect(useHouseholdsStore.getState().households[0].mealAllowance).toBe(4);
+        expect(toast.error).toHaveBeenCalledWith('Failed to update household');
+        error.mockRestore();
+    });
+
+    it('deletes a household and its memberships', async () => {
+        useHouseholdsStore.setState({ households: [household], members: [head, child] });
+
+        expect(await useHouseholdsStore.getState().deleteHousehold('h1')).toBe(true);
+        expect(useHouseholdsStore.getState().getHouseholdForGuest('g2')).toBeNull();
+    });
+});
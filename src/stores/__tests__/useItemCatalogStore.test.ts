@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useItemCatalogStore, DEFAULT_ITEM_CATALOG, toItemKey, type CatalogItem } from '../useItemCatalogStore';
+import toast from 'react-hot-toast';
+
+const { calls, result } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    result: { data: [] as unknown[] | null, error: null as unknown },
+}));
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'upsert', 'insert'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(result);
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const PONCHO: CatalogItem = {
+    key: 'rain_poncho',
+    label: 'Rain Poncho',
+    icon: 'umbrella',
+    cooldownType: 'monthly_cap',
+    cooldownDays: null,
+    resetWeekday: null,
+    monthlyLimit: 2,
+    active: true,
+    sortOrder: 15,
+    stockOnHand: null,
+    lowStockThreshold: 5,
+};
+
+describe('useItemCatalogStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        result.data = [];
+        result.error = null;
+        useItemCatalogStore.setState({ items: DEFAULT_ITEM_CATALOG, isLoading: false, isLoaded: false });
+    });
+
+    it('loads catalog rows and maps them to camelCase', async () => {
+        result.data = [
+            { key: 'socks', label: 'Socks', icon: 'package', cooldown_type: 'unlimited', cooldown_days: null, reset_weekday: null, monthly_limit: null, active: true, sort_order: 5 },
+            { key: 'tent', label: 'Tent', icon: 'tent', cooldown_type: 'rolling_days', cooldown_days: 45, reset_weekday: null, monthly_limit: null, active: false, sort_order: 30 },
+        ];
+
+        await useItemCatalogStore.getState().ensureLoaded();
+
+        expect(calls).toContainEqual(['from', ['item_catalog']]);
+        const { items, isLoaded } = useItemCatalogStore.getState();
+        expect(isLoaded).toBe(true);
+        expect(items.map((i) => i.key)).toEqual(['socks', 'tent']);
+        expect(items[1]).toMatchObject({ cooldownType: 'rolling_days', cooldownDays: 45, active: false, sortOrder: 30 });
+        expect(useItemCatalogStore.getState().getActiveItems().map((i) => i.key)).toEqual(['socks']);
+    });
+
+    it('keeps the default catalog when the table is empty', async () => {
+        await useItemCatalogStore.getState().ensureLoaded();
+
+        expect(useItemCatalogStore.getState().items).toEqual(DEFAULT_ITEM_CATALOG);
+        expect(useItemCatalogStore.getState().isLoaded).toBe(true);
+    });
+
+    it('skips reloading once loaded unless forced', async () => {
+        useItemCatalogStore.setState({ isLoaded: true });
+
+        await useItemCatalogStore.getState().ensureLoaded();
+        expect(calls).toHaveLength(0);
+
+        await useItemCatalogStore.getState().ensureLoaded({ force: true });
+        expect(calls).toContainEqual(['from', ['item_catalog']]);
+    });
+
+    it('upserts an item by key and keeps it in sort order', async () => {
+        const ok = await useItemCatalogStore.getState().saveItem(PONCHO);
+
+        expect(ok).toBe(true);
+        expect(calls).toContainEqual([
+            'upsert',
+            [
+                expect.objectContaining({ key: 'rain_poncho', cooldown_type: 'monthly_cap', monthly_limit: 2, cooldown_days: null }),
+                { onConflict: 'key' },
+            ],
+        ]);
+        const keys = useItemCatalogStore.getState().items.map((i) => i.key);
+        expect(keys.indexOf('rain_poncho')).toBe(keys.indexOf('tshirt') + 1);
+    });
+
+    it('rolls back and notifies when saving fails', async () => {
+        result.error = { message: 'permission denied' };
+
+        const ok = await useItemCatalogStore.getState().saveItem(PONCHO);
+
+        expect(ok).toBe(false);
+        expect(useItemCatalogStore.getState().items).toEqual(DEFAULT_ITEM_CATALOG);
+        expect(toast.error).toHaveBeenCalledWith('Failed to save item');
+    });
+
+    it('records a restock and starts tracking an untracked item', async () => {
+        const ok = await useItemCatalogStore.getState().recordStockChange({
+            itemKey: 'tent',
+            delta: 12,
+            reason: 'donation',
+            donor: ' REI ',
+        });
+
+        expect(ok).toBe(true);
+        expect(calls).toContainEqual(['from', ['item_stock_movements']]);
+        expect(calls).toContainEqual([
+            'insert',
+            [{ item_key: 'tent', delta: 12, reason: 'donation', donor: 'REI', note: null }],
+        ]);
+        expect(useItemCatalogStore.getState().getItem('tent')?.stockOnHand).toBe(12);
+    });
+
+    it('rolls back the count when a stock change fails', async () => {
+        result.error = { message: 'permission denied' };
+
+        const ok = await useItemCatalogStore.getState().recordStockChange({ itemKey: 'tent', delta: 3, reason: 'adjustment' });
+
+        expect(ok).toBe(false);
+        expect(useItemCatalogStore.getState().getItem('tent')?.stockOnHand).toBeNull();
+        expect(toast.error).toHaveBeenCalledWith('Failed to update stock');
+    });
+
+    it('mirrors distributions only for tracked items', () => {
+        useItemCatalogStore.setState({
+            items: DEFAULT_ITEM_CATALOG.map((i) => (i.key === 'jacket' ? { ...i, stockOnHand: 1 } : i)),
+        });
+        const { applyStockChange } = useItemCatalogStore.getState();
+
+        applyStockChange('jacket', -1);
+        applyStockChange('tent', -1);
+
+        expect(useItemCatalogStore.getState().getItem('jacket')?.stockOnHand).toBe(0);
+        expect(useItemCatalogStore.getState().getItem('tent')?.stockOnHand).toBeNull();
+    });
+
+    it('lists active items at or below their low-stock threshold, emptiest first', () => {
+        useItemCatalogStore.setState({
+            items: DEFAULT_ITEM_CATALOG.map((i) => {
+                if (i.key === 'jacket') return { ...i, stockOnHand: 4 };
+                if (i.key === 'tent') return { ...i, stockOnHand: 0 };
+                if (i.key === 'backpack') return { ...i, stockOnHand: 20 };
+                if (i.key === 'shoes') return { ...i, stockOnHand: 0 };
+                return i;
+            }),
+        });
+
+        expect(useItemCatalogStore.getState().getLowStockItems().map((i) => i.key)).toEqual(['tent', 'jacket']);
+    });
+
+    it('labels known and unknown keys', () => {
+        const { getItemLabel } = useItemCatalogStore.getState();
+
+        expect(getItemLabel('sleeping_bag')).toBe('Sleeping Bag');
+        expect(getItemLabel('hand_warmers')).toBe('hand warmers');
+    });
+
+    it('derives keys from labels', () => {
+        expect(toItemKey('  Rain Poncho! ')).toBe('rain_poncho');
+        expect(toItemKey('T-Shirt (XL)')).toBe('t_shirt_xl');
+    });
+});
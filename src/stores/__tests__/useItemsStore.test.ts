@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { useItemsStore } from '../useItemsStore';
+import { useItemCatalogStore, DEFAULT_ITEM_CATALOG } from '../useItemCatalogStore';
 
 // Mock Supabase client
 const mockSelect = vi.fn();
@@ -176,6 +177,17 @@ describe('useItemsStore', () => {
             const state = useItemsStore.getState();
             expect(state.distributedItems.length).toBe(1);
         });
+
+        it('takes a tracked item out of stock', async () => {
+            useItemCatalogStore.setState({
+                items: DEFAULT_ITEM_CATALOG.map((i) => (i.key === 'tshirt' ? { ...i, stockOnHand: 5 } : i)),
+            });
+
+            await useItemsStore.getState().giveItem('g1', 'tshirt');
+
+            expect(useItemCatalogStore.getState().getItem('tshirt')?.stockOnHand).toBe(4);
+            useItemCatalogStore.setState({ items: DEFAULT_ITEM_CATALOG });
+        });
     });
 
     describe('getLastGivenDate', () => {
@@ -451,6 +463,25 @@ describe('useItemsStore', () => {
             expect(state.isLoading).toBe(false);
         });
 
+        it('puts an undone tracked item back in stock', async () => {
+            useItemCatalogStore.setState({
+                items: DEFAULT_ITEM_CATALOG.map((i) => (i.key === 'tshirt' ? { ...i, stockOnHand: 4 } : i)),
+            });
+            useItemsStore.setState({
+                distributedItems: [
+                    { id: 'item-to-undo', guestId: 'g1', itemKey: 'tshirt', distributedAt: new Date().toISOString(), createdAt: new Date().toISOString() },
+                ],
+            });
+            mockDelete.mockReturnValue({
+                eq: vi.fn().mockResolvedValueOnce({ error: null }),
+            });
+
+            await useItemsStore.getState().undoItem('item-to-undo');
+
+            expect(useItemCatalogStore.getState().getItem('tshirt')?.stockOnHand).toBe(5);
+            useItemCatalogStore.setState({ items: DEFAULT_ITEM_CATALOG });
+        });
+
         it('removes only the specified item from distributedItems', async () => {
             // Setup initial state with multiple items
             useItemsStore.setState({
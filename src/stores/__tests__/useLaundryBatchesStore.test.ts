@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useLaundryBatchesStore } from '../useLaundryBatchesStore';
+import { useServicesStore } from '../useServicesStore';
+import toast from 'react-hot-toast';
+
+const { calls, results } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    results: [] as { data: unknown; error: unknown }[],
+}));
+
+const nextResult = () => results.shift() || { data: null, error: null };
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'limit', 'insert', 'update', 'delete', 'eq', 'in', 'single'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(nextResult());
+            return builder;
+        },
+        rpc: (fn: string, args: unknown) => {
+            calls.push(['rpc', [fn, args]]);
+            return Promise.resolve(nextResult());
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const batchRow = (status: string) => ({
+    id: 'batch-1',
+    service_date: '2026-10-19',
+    vendor: 'Clean Co',
+    status,
+    transported_at: status === 'open' ? null : '2026-10-19T17:00:00Z',
+    returned_at: status === 'returned' ? '2026-10-20T17:00:00Z' : null,
+    created_at: '2026-10-19T16:00:00Z',
+});
+
+const booking = (id: string, status: string, batchId: string | null = null) => ({
+    id,
+    guestId: `g-${id}`,
+    date: '2026-10-19T19:00:00Z',
+    status,
+    laundryType: 'offsite',
+    bagNumber: id,
+    batchId,
+});
+
+describe('useLaundryBatchesStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        results.length = 0;
+        useLaundryBatchesStore.setState({ batches: [], isLoading: false, isLoaded: false });
+        useServicesStore.setState({ laundryRecords: [] });
+    });
+
+    it('loads batches newest first', async () => {
+        results.push({
+            data: [
+                { ...batchRow('returned'), id: 'old', service_date: '2026-10-12' },
+                batchRow('open'),
+            ],
+            error: null,
+        });
+
+        await useLaundryBatchesStore.getState().ensureLoaded();
+
+        const { batches, isLoaded } = useLaundryBatchesStore.getState();
+        expect(isLoaded).toBe(true);
+        expect(batches.map((b) => b.id)).toEqual(['batch-1', 'old']);
+        expect(batches[0]).toMatchObject({ serviceDate: '2026-10-19', vendor: 'Clean Co', status: 'open' });
+    });
+
+    it('creates a batch and attaches the selected bookings', async () => {
+        useServicesStore.setState({ laundryRecords: [booking('1', 'pending'), booking('2', 'pending')] });
+        results.push({ data: batchRow('open'), error: null }, { data: null, error: null });
+
+        const batch = await useLaundryBatchesStore.getState().createBatch('2026-10-19', ' Clean Co ', ['1']);
+
+        expect(batch?.id).toBe('batch-1');
+        expect(calls).toContainEqual(['insert', [{ service_date: '2026-10-19', vendor: 'Clean Co' }]]);
+        expect(calls).toContainEqual(['update', [{ batch_id: 'batch-1' }]]);
+        expect(calls).toContainEqual(['in', ['id', ['1']]]);
+        expect(useServicesStore.getState().laundryRecords.map((r) => r.batchId)).toEqual(['batch-1', null]);
+    });
+
+    it('removes the batch again when bookings cannot be attached', async () => {
+        results.push({ data: batchRow('open'), error: null }, { data: null, error: { message: 'denied' } });
+
+        const batch = await useLaundryBatchesStore.getState().createBatch('2026-10-19', 'Clean Co', ['1']);
+
+        expect(batch).toBeNull();
+        expect(calls).toContainEqual(['delete', []]);
+        expect(useLaundryBatchesStore.getState().batches).toEqual([]);
+        expect(toast.error).toHaveBeenCalledWith('Failed to add bags to batch');
+    });
+
+    it('marks a batch transported along with its waiting bookings', async () => {
+        useLaundryBatchesStore.setState({ batches: [{ id: 'batch-1', serviceDate: '2026-10-19', vendor: 'Clean Co', status: 'open' }] });
+        useServicesStore.setState({ laundryRecords: [booking('1', 'pending', 'batch-1'), booking('2', 'pending')] });
+        results.push({ data: batchRow('transported'), error: null });
+
+        expect(await useLaundryBatchesStore.getState().markTransported('batch-1')).toBe(true);
+
+        expect(calls).toContainEqual(['rpc', ['advance_laundry_batch', { p_batch_id: 'batch-1', p_status: 'transported' }]]);
+        expect(useLaundryBatchesStore.getState().batches[0].status).toBe('transported');
+        expect(useServicesStore.getState().laundryRecords.map((r) => r.status)).toEqual(['transported', 'pending']);
+    });
+
+    it('leaves bags that did not come back as transported', async () => {
+        useLaundryBatchesStore.setState({ batches: [{ id: 'batch-1', serviceDate: '2026-10-19', vendor: 'Clean Co', status: 'transported' }] });
+        useServicesStore.setState({
+            laundryRecords: [booking('1', 'transported', 'batch-1'), booking('2', 'transported', 'batch-1')],
+        });
+        results.push({ data: batchRow('returned'), error: null });
+
+        expect(await useLaundryBatchesStore.getState().markReturned('batch-1', ['1'])).toBe(true);
+
+        expect(calls).toContainEqual(['rpc', ['advance_laundry_batch', { p_batch_id: 'batch-1', p_status: 'returned', p_returned_ids: ['1'] }]]);
+        expect(useServicesStore.getState().laundryRecords.map((r) => r.status)).toEqual(['returned', 'transported']);
+    });
+
+    it('keeps the batch unchanged when the status change fails', async () => {
+        useLaundryBatchesStore.setState({ batches: [{ id: 'batch-1', serviceDate: '2026-10-19', vendor: 'Clean Co', status: 'open' }] });
+        results.push({ data: null, error: { message: 'Cannot mark a returned batch as transported' } });
+
+        expect(await useLaundryBatchesStore.getState().markTransported('batch-1')).toBe(false);
+
+        expect(useLaundryBatchesStore.getState().batches[0].status).toBe('open');
+        expect(toast.error).toHaveBeenCalledWith('Failed to mark batch transported');
+    });
+
+    it('deletes an open batch and releases its bookings', async () => {
+        useLaundryBatchesStore.setState({ batches: [{ id: 'batch-1', serviceDate: '2026-10-19', vendor: 'Clean Co', status: 'open' }] });
+        useServicesStore.setState({ laundryRecords: [booking('1', 'pending', 'batch-1')] });
+
+        expect(await useLaundryBatchesStore.getState().deleteBatch('batch-1')).toBe(true);
+
+        expect(calls).toContainEqual(['eq', ['status', 'open']]);
+        expect(useLaundryBatchesStore.getState().batches).toEqual([]);
+        expect(useServicesStore.getState().laundryRecords[0].batchId).toBeNull();
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useLaundryMachinesStore } from '../useLaundryMachinesStore';
+import toast from 'react-hot-toast';
+
+const { calls, results } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    results: [] as { data: unknown; error: unknown }[],
+}));
+
+const nextResult = () => results.shift() || { data: null, error: null };
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'upsert'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(nextResult());
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const washer = { id: 'w1', kind: 'washer' as const, number: 1, cycleMinutes: 35, outOfService: false, note: null };
+
+describe('useLaundryMachinesStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        results.length = 0;
+        useLaundryMachinesStore.setState({ machines: [], isLoading: false, isLoaded: false });
+    });
+
+    it('loads machines washers first', async () => {
+        results.push({
+            data: [
+                { id: 'd1', kind: 'dryer', number: 1, cycle_minutes: 50, out_of_service: false, note: null },
+                { id: 'w2', kind: 'washer', number: 2, cycle_minutes: 35, out_of_service: true, note: 'Leaks' },
+            ],
+            error: null,
+        });
+
+        await useLaundryMachinesStore.getState().ensureLoaded();
+
+        const { machines, isLoaded } = useLaundryMachinesStore.getState();
+        expect(isLoaded).toBe(true);
+        expect(machines.map((m) => m.id)).toEqual(['w2', 'd1']);
+        expect(useLaundryMachinesStore.getState().getAvailableMachines('washer')).toEqual([]);
+    });
+
+    it('saves a machine as a snake_case upsert', async () => {
+        const ok = await useLaundryMachinesStore.getState().saveMachine({ ...washer, note: '  ' });
+
+        expect(ok).toBe(true);
+        expect(calls).toContainEqual(['upsert', [
+            { id: 'w1', kind: 'washer', number: 1, cycle_minutes: 35, out_of_service: false, note: null },
+            { onConflict: 'id' },
+        ]]);
+        expect(useLaundryMachinesStore.getState().machines).toHaveLength(1);
+    });
+
+    it('rolls back and explains a duplicate machine number', async () => {
+        useLaundryMachinesStore.setState({ machines: [washer] });
+        results.push({ data: null, error: { code: '23505', message: 'duplicate key' } });
+
+        const ok = await useLaundryMachinesStore.getState().saveMachine({ ...washer, id: 'w-new' });
+
+        expect(ok).toBe(false);
+        expect(useLaundryMachinesStore.getState().machines).toEqual([washer]);
+        expect(toast.error).toHaveBeenCalledWith('That machine number is already taken');
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useServiceClosuresStore } from '../useServiceClosuresStore';
+import type { ServiceClosure } from '@/lib/utils/serviceClosures';
+import toast from 'react-hot-toast';
+
+const { calls, result } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    result: { data: [] as unknown[] | null, error: null as unknown },
+}));
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'insert', 'delete', 'eq'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(result);
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const THANKSGIVING: ServiceClosure = {
+    id: 'c1',
+    closedOn: '2025-11-27',
+    service: null,
+    reason: 'Thanksgiving',
+    createdBy: null,
+    createdAt: null,
+};
+
+describe('useServiceClosuresStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        result.data = [];
+        result.error = null;
+        useServiceClosuresStore.setState({ closures: [], isLoading: false, isLoaded: false });
+    });
+
+    it('loads closures and maps them to camelCase', async () => {
+        result.data = [
+            { id: 'c1', closed_on: '2025-11-27', service: null, reason: 'Thanksgiving' },
+            { id: 'c2', closed_on: '2025-12-01', service: 'showers', reason: 'Plumbing repair', created_by: 'user-1' },
+        ];
+
+        await useServiceClosuresStore.getState().ensureLoaded();
+
+        expect(calls).toContainEqual(['from', ['service_closures']]);
+        const { closures, isLoaded } = useServiceClosuresStore.getState();
+        expect(isLoaded).toBe(true);
+        expect(closures[0]).toEqual(THANKSGIVING);
+        expect(closures[1]).toMatchObject({ closedOn: '2025-12-01', service: 'showers', createdBy: 'user-1' });
+    });
+
+    it('inserts one row per closed day and keeps closures in date order', async () => {
+        useServiceClosuresStore.setState({ closures: [{ ...THANKSGIVING, closedOn: '2025-12-31', id: 'c9' }] });
+        result.data = [
+            { id: 'c1', closed_on: '2025-11-27', service: null, reason: 'Thanksgiving' },
+            { id: 'c2', closed_on: '2025-11-28', service: null, reason: 'Thanksgiving' },
+        ];
+
+        const ok = await useServiceClosuresStore.getState().addClosures({
+            dates: ['2025-11-27', '2025-11-28'],
+            service: null,
+            reason: ' Thanksgiving ',
+        });
+
+        expect(ok).toBe(true);
+        expect(calls).toContainEqual([
+            'insert',
+            [[
+                { closed_on: '2025-11-27', service: null, reason: 'Thanksgiving' },
+                { closed_on: '2025-11-28', service: null, reason: 'Thanksgiving' },
+            ]],
+        ]);
+        expect(useServiceClosuresStore.getState().closures.map((c) => c.id)).toEqual(['c1', 'c2', 'c9']);
+    });
+
+    it('explains a duplicate closure', async () => {
+        result.error = { code: '23505', message: 'duplicate key value' };
+
+        const ok = await useServiceClosuresStore.getState().addClosures({ dates: ['2025-11-27'], service: null, reason: 'Thanksgiving' });
+
+        expect(ok).toBe(false);
+        expect(toast.error).toHaveBeenCalledWith('That day is already closed');
+        expect(useServiceClosuresStore.getState().closures).toEqual([]);
+    });
+
+    it('removes a closure and restores it when the delete fails', async () => {
+        useServiceClosuresStore.setState({ closures: [THANKSGIVING] });
+
+        expect(await useServiceClosuresStore.getState().removeClosure('c1')).toBe(true);
+        expect(calls).toContainEqual(['eq', ['id', 'c1']]);
+        expect(useServiceClosuresStore.getState().closures).toEqual([]);
+
+        useServiceClosuresStore.setState({ closures: [THANKSGIVING] });
+        result.error = { message: 'permission denied' };
+
+        expect(await useServiceClosuresStore.getState().removeClosure('c1')).toBe(false);
+        expect(useServiceClosuresStore.getState().closures).toEqual([THANKSGIVING]);
+        expect(toast.error).toHaveBeenCalledWith('Failed to remove closure');
+    });
+});
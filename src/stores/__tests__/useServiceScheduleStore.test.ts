@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useServiceScheduleStore } from '../useServiceScheduleStore';
+import { DEFAULT_SERVICE_SCHEDULE, type ServiceScheduleEntry } from '@/lib/utils/serviceSchedule';
+import toast from 'react-hot-toast';
+
+const { calls, result } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    result: { data: [] as unknown[] | null, error: null as unknown },
+}));
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'upsert', 'delete', 'eq', 'is'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(result);
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const WINTER_MONDAY: ServiceScheduleEntry = {
+    service: 'showers',
+    weekday: 1,
+    startsOn: '2025-12-01',
+    endsOn: '2026-02-28',
+    seasonLabel: 'Winter',
+    isOpen: true,
+    startTime: '08:00',
+    endTime: '11:00',
+    slotMinutes: 30,
+    slotDurationMinutes: null,
+    slotCapacity: 3,
+    customSlots: [],
+};
+
+const WINTER_ROW = {
+    id: 'season-1',
+    service: 'showers',
+    weekday: 1,
+    starts_on: '2025-12-01',
+    ends_on: '2026-02-28',
+    season_label: 'Winter',
+    is_open: true,
+    start_time: '08:00:00',
+    end_time: '11:00:00',
+    slot_minutes: 30,
+    slot_duration_minutes: null,
+    slot_capacity: 3,
+    custom_slots: null,
+};
+
+describe('useServiceScheduleStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        result.data = [];
+        result.error = null;
+        useServiceScheduleStore.setState({ entries: DEFAULT_SERVICE_SCHEDULE, isLoading: false, isLoaded: false });
+    });
+
+    it('loads schedule rows and maps them to camelCase', async () => {
+        result.data = [WINTER_ROW];
+
+        await useServiceScheduleStore.getState().ensureLoaded();
+
+        expect(calls).toContainEqual(['from', ['service_schedule']]);
+        const { entries, isLoaded } = useServiceScheduleStore.getState();
+        expect(isLoaded).toBe(true);
+        expect(entries).toEqual([{ ...WINTER_MONDAY, id: 'season-1', siteId: null }]);
+    });
+
+    it('keeps the default schedule when the table is empty', async () => {
+        await useServiceScheduleStore.getState().ensureLoaded();
+
+        expect(useServiceScheduleStore.getState().entries).toEqual(DEFAULT_SERVICE_SCHEDULE);
+        expect(useServiceScheduleStore.getState().isLoaded).toBe(true);
+    });
+
+    it('upserts whole days and picks up the saved ids', async () => {
+        result.data = [WINTER_ROW];
+
+        const ok = await useServiceScheduleStore.getState().saveEntries([WINTER_MONDAY]);
+
+        expect(ok).toBe(true);
+        expect(calls).toContainEqual([
+            'upsert',
+            [
+                [expect.objectContaining({ site_id: null, service: 'showers', weekday: 1, starts_on: '2025-12-01', slot_capacity: 3, custom_slots: null })],
+                { onConflict: 'site_id,service,weekday,starts_on' },
+            ],
+        ]);
+        const { entries } = useServiceScheduleStore.getState();
+        expect(entries).toHaveLength(DEFAULT_SERVICE_SCHEDULE.length + 1);
+        expect(entries.find((e) => e.startsOn === '2025-12-01')?.id).toBe('season-1');
+    });
+
+    it('rolls back and notifies when saving fails', async () => {
+        result.error = { message: 'permission denied' };
+
+        const ok = await useServiceScheduleStore.getState().saveEntries([WINTER_MONDAY]);
+
+        expect(ok).toBe(false);
+        expect(useServiceScheduleStore.getState().entries).toEqual(DEFAULT_SERVICE_SCHEDULE);
+        expect(toast.error).toHaveBeenCalledWith('Failed to save schedule');
+    });
+
+    it('deletes every day of a season', async () => {
+        useServiceScheduleStore.setState({ entries: [...DEFAULT_SERVICE_SCHEDULE, WINTER_MONDAY] });
+
+        const ok = await useServiceScheduleStore.getState().deleteSeason('showers', '2025-12-01');
+
+        expect(ok).toBe(true);
+        expect(calls).toContainEqual(['eq', ['service', 'showers']]);
+        expect(calls).toContainEqual(['eq', ['starts_on', '2025-12-01']]);
+        expect(calls).toContainEqual(['is', ['site_id', null]]);
+        expect(useServiceScheduleStore.getState().entries).toEqual(DEFAULT_SERVICE_SCHEDULE);
+    });
+
+    it('keeps one site\'s season separate from the shared one', async () => {
+        const siteSeason = { ...WINTER_MONDAY, siteId: 'site-sj', slotCapacity: 1 };
+        useServiceScheduleStore.setState({ entries: [...DEFAULT_SERVICE_SCHEDULE, WINTER_MONDAY] });
+
+        await useServiceScheduleStore.getState().saveEntries([siteSeason]);
+        expect(calls).toContainEqual([
+            'upsert',
+            [[expect.objectContaining({ site_id: 'site-sj', slot_capacity: 1 })], { onConflict: 'site_id,service,weekday,starts_on' }],
+        ]);
+        expect(useServiceScheduleStore.getState().entries).toContainEqual(WINTER_MONDAY);
+
+        calls.length = 0;
+        await useServiceScheduleStore.getState().deleteSeason('showers', '2025-12-01', 'site-sj');
+        expect(calls).toContainEqual(['eq', ['site_id', 'site-sj']]);
+        expect(useServiceScheduleStore.getState().entries).toContainEqual(WINTER_MONDAY);
+        expect(useServiceScheduleStore.getState().entries).not.toContainEqual(siteSeason);
+    });
+
+    it('restores the season when deleting fails', async () => {
+        result.error = { message: 'permission denied' };
+        useServiceScheduleStore.setState({ entries: [...DEFAULT_SERVICE_SCHEDULE, WINTER_MONDAY] });
+
+        const ok = await useServiceScheduleStore.getState().deleteSeason('showers', '2025-12-01');
+
+        expect(ok).toBe(false);
+        expect(useServiceScheduleStore.getState().entries).toContainEqual(WINTER_MONDAY);
+        expect(toast.error).toHaveBeenCalledWith('Failed to delete season');
+    });
+});
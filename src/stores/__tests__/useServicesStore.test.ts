@@ -14,6 +14,7 @@ const mockSupabase = {
     order: vi.fn().mockReturnThis(),
     limit: vi.fn().mockReturnThis(),
     single: vi.fn().mockResolvedValue({ data: { id: 'new-id' }, error: null }),
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
 };
 
 vi.mock('@/lib/supabase/client', () => ({
@@ -99,6 +100,7 @@ describe('useServicesStore', () => {
 
         mockSupabase.single.mockReset();
         mockSupabase.single.mockResolvedValue({ data: { id: 'new-id' }, error: null });
+        mockSupabase.rpc.mockResolvedValue({ data: null, error: null });
     });
 
     describe('initial state', () => {
@@ -698,6 +700,20 @@ describe('useServicesStore', () => {
                     expect(useServicesStore.getState().showerRecords[0].status).toBe('waitlisted');
                 });
 
+                it('numbers a new waitlist entry after the guests already waiting', async () => {
+                    useServicesStore.setState({
+                        showerRecords: [createMockShowerRecord({ id: 'w0', status: 'waitlisted', date: '2025-01-04T20:00:00.000Z', waitlistPosition: 2 })],
+                    });
+                    mockSupabase.single.mockResolvedValueOnce({ data: { id: 'w1', status: 'waitlisted', waitlist_position: 3 }, error: null });
+
+                    await useServicesStore.getState().addShowerWaitlist('g1', '2025-01-04');
+
+                    expect(mockSupabase.insert).toHaveBeenCalledWith(expect.objectContaining({
+                        status: 'waitlisted',
+                        waitlist_position: 3,
+                    }));
+                });
+
                 it('throws error when guestId is missing in addShowerRecord', async () => {
                     await expect(useServicesStore.getState().addShowerRecord('')).rejects.toThrow('Guest ID is required');
                 });
@@ -769,6 +785,21 @@ describe('useServicesStore', () => {
                     const records = useServicesStore.getState().laundryRecords;
                     expect(records.length).toBeGreaterThanOrEqual(1);
                 });
+
+                it('queues a laundry waitlist entry for an onsite slot after the guests already waiting', async () => {
+                    useServicesStore.setState({
+                        laundryRecords: [createMockLaundryRecord({ id: 'w0', status: 'waitlisted', date: '2025-01-04T20:00:00.000Z', waitlistPosition: 1 })],
+                    });
+                    mockSupabase.single.mockResolvedValueOnce({ data: { id: 'w1', status: 'waitlisted', waitlist_position: 2 }, error: null });
+
+                    await useServicesStore.getState().addLaundryWaitlist('g1', '2025-01-04');
+
+                    expect(mockSupabase.insert).toHaveBeenCalledWith(expect.objectContaining({
+                        laundry_type: 'onsite',
+                        status: 'waitlisted',
+                        waitlist_position: 2,
+                    }));
+                });
                 it('updates laundry status successfully', async () => {
                     useServicesStore.setState({ laundryRecords: [createMockLaundryRecord({ id: 'l1', status: 'waiting' })] });
                     mockSupabase.eq.mockResolvedValueOnce({ error: null });
@@ -776,12 +807,59 @@ describe('useServicesStore', () => {
                     expect(useServicesStore.getState().laundryRecords[0].status).toBe('washing');
                 });
 
+                it('takes the bag number the server assigns', async () => {
+                    useServicesStore.setState({ laundryRecords: [createMockLaundryRecord({ id: 'l1', bagNumber: '' })] });
+                    mockSupabase.rpc.mockResolvedValueOnce({ data: { id: 'l1', bag_number: '14' }, error: null });
+
+                    const bagNumber = await useServicesStore.getState().assignLaundryBagNumber('l1');
+
+                    expect(mockSupabase.rpc).toHaveBeenCalledWith('assign_laundry_bag_number', { p_booking_id: 'l1' });
+                    expect(bagNumber).toBe('14');
+                    expect(useServicesStore.getState().laundryRecords[0].bagNumber).toBe('14');
+                });
+
+                it('leaves the bag number empty when the server cannot assign one', async () => {
+                    useServicesStore.setState({ laundryRecords: [createMockLaundryRecord({ id: 'l1', bagNumber: '' })] });
+                    mockSupabase.rpc.mockResolvedValueOnce({ data: null, error: { message: 'permission denied' } });
+
+                    expect(await useServicesStore.getState().assignLaundryBagNumber('l1')).toBeNull();
+                    expect(useServicesStore.getState().laundryRecords[0].bagNumber).toBe('');
+                });
+
                 it('updates laundry bag number successfully', async () => {
                     useServicesStore.setState({ laundryRecords: [createMockLaundryRecord({ id: 'l1', bagNumber: '1' })] });
                     mockSupabase.eq.mockResolvedValueOnce({ error: null });
                     await useServicesStore.getState().updateLaundryBagNumber('l1', '2');
                     expect(useServicesStore.getState().laundryRecords[0].bagNumber).toBe('2');
                 });
+
+                it('records the machine and cycle start when a load goes into a washer', async () => {
+                    useServicesStore.setState({ laundryRecords: [createMockLaundryRecord({ id: 'l1', status: 'waiting' })] });
+                    mockSupabase.update.mockClear();
+                    mockSupabase.eq.mockResolvedValueOnce({ error: null });
+
+                    await useServicesStore.getState().updateLaundryStatus('l1', 'washer', 'machine-1');
+
+                    expect(mockSupabase.update).toHaveBeenCalledWith({
+                        status: 'washer',
+                        machine_id: 'machine-1',
+                        cycle_started_at: expect.any(String),
+                    });
+                    const record = useServicesStore.getState().laundryRecords[0];
+                    expect(record.machineId).toBe('machine-1');
+                    expect(record.cycleStartedAt).toBeTruthy();
+                });
+
+                it('clears the machine when a load is moved without one', async () => {
+                    useServicesStore.setState({ laundryRecords: [createMockLaundryRecord({ id: 'l1', status: 'washer', machineId: 'machine-1' })] });
+                    mockSupabase.update.mockClear();
+                    mockSupabase.eq.mockResolvedValueOnce({ error: null });
+
+                    await useServicesStore.getState().updateLaundryStatus('l1', 'dryer', null);
+
+                    expect(mockSupabase.update).toHaveBeenCalledWith({ status: 'dryer', machine_id: null, cycle_started_at: null });
+                    expect(useServicesStore.getState().laundryRecords[0].machineId).toBeNull();
+                });
             });
         });
 
@@ -800,6 +878,23 @@ describe('useServicesStore', () => {
                 expect(useServicesStore.getState().bicycleRecords[0].doneAt).toBeDefined();
             });
 
+            it('saves parts, mechanic and labor with database column names', async () => {
+                useServicesStore.setState({ bicycleRecords: [createMockBicycleRecord({ id: 'b1', status: 'in_progress' }) as any] });
+                mockSupabase.update.mockClear();
+                const parts = [{ name: 'Tube', quantity: 2, unitCost: 6.5 }];
+
+                await useServicesStore.getState().updateBicycleRecord('b1', { parts, mechanicName: 'Sam', laborMinutes: 45 });
+
+                expect(mockSupabase.update).toHaveBeenCalledWith({
+                    parts: [{ name: 'Tube', quantity: 2, unit_cost: 6.5 }],
+                    mechanic_name: 'Sam',
+                    labor_minutes: 45,
+                });
+                const record = useServicesStore.getState().bicycleRecords[0];
+                expect(record.parts).toEqual(parts);
+                expect(record.laborMinutes).toBe(45);
+            });
+
             it('deletes a bicycle record successfully', async () => {
                 useServicesStore.setState({ bicycleRecords: [createMockBicycleRecord({ id: 'b1' })] });
                 await useServicesStore.getState().deleteBicycleRecord('b1');
@@ -934,6 +1029,44 @@ describe('useServicesStore', () => {
                 expect(useServicesStore.getState().laundryRecords[0].status).toBe('waiting');
             });
 
+            it('saves stall changes with database column names', async () => {
+                useServicesStore.setState({ showerRecords: [createMockShowerRecord({ id: 's1', status: 'booked' })] });
+                mockSupabase.update.mockClear();
+                mockSupabase.eq.mockResolvedValueOnce({ error: null });
+
+                const success = await useServicesStore.getState().updateShowerStall('s1', {
+                    status: 'done',
+                    stallNumber: 2,
+                    finishedAt: '2025-01-06T09:00:00Z',
+                });
+
+                expect(success).toBe(true);
+                expect(mockSupabase.update).toHaveBeenCalledWith({
+                    status: 'done',
+                    stall_number: 2,
+                    finished_at: '2025-01-06T09:00:00Z',
+                });
+                expect(useServicesStore.getState().showerRecords[0]).toEqual(expect.objectContaining({
+                    status: 'done',
+                    stallNumber: 2,
+                    finishedAt: '2025-01-06T09:00:00Z',
+                }));
+            });
+
+            it('reverts updateShowerStall on failure', async () => {
+                useServicesStore.setState({ showerRecords: [createMockShowerRecord({ id: 's1', status: 'booked' })] });
+                mockSupabase.eq.mockResolvedValueOnce({ error: { message: 'duplicate key' } });
+
+                const success = await useServicesStore.getState().updateShowerStall('s1', {
+                    stallNumber: 1,
+                    startedAt: '2025-01-06T08:00:00Z',
+                });
+
+                expect(success).toBe(false);
+                expect(useServicesStore.getState().showerRecords[0].stallNumber).toBeUndefined();
+                expect(useServicesStore.getState().showerRecords[0].startedAt).toBeUndefined();
+            });
+
             it('returns false when updating status of non-existent laundry record', async () => {
                 const success = await useServicesStore.getState().updateLaundryStatus('non-existent', 'washing');
                 expect(success).toBe(false);
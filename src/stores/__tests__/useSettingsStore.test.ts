@@ -120,7 +120,74 @@ describe('useSettingsStore', () => {
         });
     });
 
+    describe('updateNoShowPolicy', () => {
+        const policy = { enabled: true, threshold: 2, windowDays: 14, restrictionDays: 3 };
+
+        it('saves the policy to app_settings', async () => {
+            const ok = await useSettingsStore.getState().updateNoShowPolicy(policy);
+
+            expect(ok).toBe(true);
+            expect(mockUpsert).toHaveBeenCalledWith({ id: 'global', no_show_policy: policy });
+            expect(useSettingsStore.getState().noShowPolicy).toEqual(policy);
+        });
+
+        it('restores the previous policy when saving fails', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => { });
+            mockUpsert.mockResolvedValueOnce({ error: { message: 'Save failed' } });
+            const previous = useSettingsStore.getState().noShowPolicy;
+
+            const ok = await useSettingsStore.getState().updateNoShowPolicy(policy);
+
+            expect(ok).toBe(false);
+            expect(useSettingsStore.getState().noShowPolicy).toEqual(previous);
+        });
+    });
+
+    describe('updateGuestIdFormat', () => {
+        const format = { prefix: 'HC', siteCode: 'MV', checkDigit: true };
+
+        it('saves the format to app_settings', async () => {
+            expect(await useSettingsStore.getState().updateGuestIdFormat(format)).toBe(true);
+            expect(mockUpsert).toHaveBeenCalledWith({ id: 'global', guest_id_format: format });
+            expect(useSettingsStore.getState().guestIdFormat).toEqual(format);
+        });
+
+        it('restores the previous format when saving fails', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => { });
+            mockUpsert.mockResolvedValueOnce({ error: { message: 'Save failed' } });
+            const previous = useSettingsStore.getState().guestIdFormat;
+
+            expect(await useSettingsStore.getState().updateGuestIdFormat(format)).toBe(false);
+            expect(useSettingsStore.getState().guestIdFormat).toEqual(previous);
+        });
+    });
+
     describe('loadSettings', () => {
+        it('loads the no-show policy, filling missing fields with defaults', async () => {
+            mockSingle.mockResolvedValueOnce({
+                data: { targets: null, no_show_policy: { enabled: false, threshold: 4 } },
+                error: null,
+            });
+
+            await useSettingsStore.getState().loadSettings();
+
+            expect(mockSelect).toHaveBeenCalledWith('targets, no_show_policy, guest_id_format');
+            expect(useSettingsStore.getState().noShowPolicy).toEqual({
+                enabled: false, threshold: 4, windowDays: 30, restrictionDays: 7,
+            });
+        });
+
+        it('loads the guest ID format', async () => {
+            mockSingle.mockResolvedValueOnce({
+                data: { targets: null, guest_id_format: { prefix: 'hc', siteCode: 'mv' } },
+                error: null,
+            });
+
+            await useSettingsStore.getState().loadSettings();
+
+            expect(useSettingsStore.getState().guestIdFormat).toEqual({ prefix: 'HC', siteCode: 'MV', checkDigit: false });
+        });
+
         it('loads settings from Supabase', async () => {
             mockSingle.mockResolvedValueOnce({
                 data: {
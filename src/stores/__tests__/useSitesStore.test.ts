@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { siteIdForInsert, useSitesStore } from '../useSitesStore';
+import toast from 'react-hot-toast';
+
+const { calls, results } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    results: [] as { data: unknown; error: unknown }[],
+}));
+
+const nextResult = () => results.shift() || { data: null, error: null };
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'upsert', 'update', 'eq'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(nextResult());
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const mountainView = { id: 'mv', name: 'Mountain View', code: 'MV', address: null, isDefault: true, active: true };
+const sanJose = { id: 'sj', name: 'San Jose', code: 'SJ', address: '1 Main St', isDefault: false, active: true };
+
+describe('useSitesStore', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        results.length = 0;
+        useSitesStore.setState({ sites: [], currentSiteId: null, reportSiteId: null, isLoading: false, isLoaded: false });
+    });
+
+    it('loads sites and starts a new device at the default site', async () => {
+        results.push({
+            data: [
+                { id: 'sj', name: 'San Jose', code: 'SJ', address: '1 Main St', is_default: false, active: true },
+                { id: 'mv', name: 'Mountain View', code: 'MV', address: null, is_default: true, active: true },
+            ],
+            error: null,
+        });
+
+        await useSitesStore.getState().ensureLoaded();
+
+        const { sites, currentSiteId, isLoaded } = useSitesStore.getState();
+        expect(isLoaded).toBe(true);
+        expect(sites).toEqual([mountainView, sanJose]);
+        expect(currentSiteId).toBe('mv');
+        expect(siteIdForInsert()).toBe('mv');
+    });
+
+    it('keeps the site a device picked, unless it was retired', async () => {
+        useSitesStore.setState({ currentSiteId: 'sj', reportSiteId: 'gone' });
+        results.push({ data: [{ id: 'mv', name: 'Mountain View', code: 'MV', is_default: true }, { id: 'sj', name: 'San Jose', code: 'SJ', is_default: false }], error: null });
+        await useSitesStore.getState().ensureLoaded();
+        expect(useSitesStore.getState().currentSiteId).toBe('sj');
+        expect(useSitesStore.getState().reportSiteId).toBeNull();
+
+        results.push({ data: [{ id: 'mv', name: 'Mountain View', code: 'MV', is_default: true }, { id: 'sj', name: 'San Jose', code: 'SJ', is_default: false, active: false }], error: null });
+        await useSitesStore.getState().ensureLoaded({ force: true });
+        expect(useSitesStore.getState().currentSiteId).toBe('mv');
+    });
+
+    it('leaves site_id to the database default until sites load', () => {
+        expect(siteIdForInsert()).toBeUndefined();
+    });
+
+    it('releases the old default before saving a new one', async () => {
+        useSitesStore.setState({ sites: [mountainView, sanJose] });
+
+        const ok = await useSitesStore.getState().saveSite({ ...sanJose, isDefault: true });
+
+        expect(ok).toBe(true);
+        expect(calls).toContainEqual(['update', [{ is_default: false }]]);
+        expect(calls).toContainEqual(['eq', ['id', 'mv']]);
+        expect(calls).toContainEqual([
+            'upsert',
+            [expect.objectContaining({ id: 'sj', is_default: true, address: '1 Main St' }), { onConflict: 'id' }],
+        ]);
+        const { sites } = useSitesStore.getState();
+        expect(sites.map((s) => [s.id, s.isDefault])).toEqual([['sj', true], ['mv', false]]);
+    });
+
+    it('rolls back and explains a duplicate name or code', async () => {
+        useSitesStore.setState({ sites: [mountainView] });
+        results.push({ data: null, error: { code: '23505', message: 'duplicate key' } });
+
+        const ok = await useSitesStore.getState().saveSite({ ...sanJose, code: 'MV' });
+
+        expect(ok).toBe(false);
+        expect(useSitesStore.getState().sites).toEqual([mountainView]);
+        expect(toast.error).toHaveBeenCalledWith('That site name or code is already taken');
+    });
+});
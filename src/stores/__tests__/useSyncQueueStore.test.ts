@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { registerSyncRollback, useSyncQueueStore } from '../useSyncQueueStore';
+import { readQueuedMutations, removeQueuedMutation } from '@/lib/utils/offlineQueue';
+import toast from 'react-hot-toast';
+
+// Each awaited query resolves with the next queued response
+const { calls, responses } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    responses: [] as { data?: unknown; error?: unknown }[],
+}));
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'insert', 'eq', 'neq', 'single'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) =>
+                resolve({ data: null, error: null, ...(responses.shift() || {}) });
+            return builder;
+        },
+    }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+    default: {
+        success: vi.fn(),
+        error: vi.fn(),
+    },
+}));
+
+const NETWORK_ERROR = { message: 'TypeError: Failed to fetch', code: '' };
+
+const meal = (id: string) => ({ id, guest_id: 'g1', quantity: 1, served_on: '2025-01-06' });
+const shower = (id: string) => ({ id, guest_id: 'g2', scheduled_for: '2025-01-06', status: 'booked' });
+
+const goOffline = () => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+describe('useSyncQueueStore', () => {
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        calls.length = 0;
+        responses.length = 0;
+        for (const m of await readQueuedMutations()) await removeQueuedMutation(m.id);
+        useSyncQueueStore.setState({ pending: [], isSyncing: false, isHydrated: false });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('inserts directly while online', async () => {
+        responses.push({ data: { ...meal('m1'), created_at: 'now' } });
+
+        const result = await useSyncQueueStore.getState().insertOrQueue('meal_attendance', meal('m1'), 'Meal');
+
+        expect(result).toEqual({ data: { ...meal('m1'), created_at: 'now' }, error: null, queued: false });
+        expect(useSyncQueueStore.getState().pending).toEqual([]);
+    });
+
+    it('returns server rejections without queueing them', async () => {
+        responses.push({ error: { code: '42501', message: 'permission denied' } });
+
+        const result = await useSyncQueueStore.getState().insertOrQueue('meal_attendance', meal('m1'), 'Meal');
+
+        expect(result.queued).toBe(false);
+        expect(result.error).toMatchObject({ code: '42501' });
+        expect(useSyncQueueStore.getState().pending).toEqual([]);
+    });
+
+    it('queues inserts durably when offline or the request cannot reach the server', async () => {
+        goOffline();
+        const offline = await useSyncQueueStore.getState().insertOrQueue('meal_attendance', meal('m1'), 'Meal');
+        vi.restoreAllMocks();
+
+        responses.push({ error: NETWORK_ERROR });
+        const dropped = await useSyncQueueStore.getState().insertOrQueue('shower_reservations', shower('s1'), 'Shower');
+
+        expect(offline).toEqual({ data: meal('m1'), error: null, queued: true });
+        expect(dropped.queued).toBe(true);
+        expect(useSyncQueueStore.getState().pending.map((m) => m.id)).toEqual(['m1', 's1']);
+
+        useSyncQueueStore.setState({ pending: [] });
+        await useSyncQueueStore.getState().hydrate();
+        expect(useSyncQueueStore.getState().pending.map((m) => m.id)).toEqual(['m1', 's1']);
+    });
+
+    it('replays queued inserts in order once back online', async () => {
+        goOffline();
+        await useSyncQueueStore.getState().insertOrQueue('meal_attendance', meal('m1'), 'Meal');
+        await useSyncQueueStore.getState().insertOrQueue('shower_reservations', shower('s1'), 'Shower');
+        vi.restoreAllMocks();
+        calls.length = 0;
+
+        responses.push({ data: [] }, {}, {});
+        await useSyncQueueStore.getState().flush();
+
+        const inserts = calls.filter(([method]) => method === 'insert').map(([, args]) => (args[0] as { id: string }).id);
+        expect(inserts).toEqual(['m1', 's1']);
+        expect(useSyncQueueStore.getState().pending).toEqual([]);
+        expect(await readQueuedMutations()).toEqual([]);
+        expect(toast.success).toHaveBeenCalledWith('Synced 2 offline changes');
+    });
+
+    it('stops at the first network failure and keeps the rest in order', async () => {
+        goOffline();
+        await useSyncQueueStore.getState().insertOrQueue('shower_reservations', shower('s1'), 'Shower');
+        await useSyncQueueStore.getState().insertOrQueue('shower_reservations', shower('s2'), 'Shower');
+        vi.restoreAllMocks();
+
+        responses.push({ error: NETWORK_ERROR });
+        await useSyncQueueStore.getState().flush();
+
+        const { pending } = useSyncQueueStore.getState();
+        expect(pending.map((m) => m.id)).toEqual(['s1', 's2']);
+        expect(pending[0]).toMatchObject({ attempts: 1, lastError: NETWORK_ERROR.message });
+        expect(toast.success).not.toHaveBeenCalled();
+    });
+
+    it('treats a change that already reached the server as synced', async () => {
+        goOffline();
+        await useSyncQueueStore.getState().insertOrQueue('shower_reservations', shower('s1'), 'Shower');
+        vi.restoreAllMocks();
+
+        responses.push({ error: { code: '23505', message: 'duplicate key value violates unique constraint "shower_reservations_pkey"' } });
+        await useSyncQueueStore.getState().flush();
+
+        expect(useSyncQueueStore.getState().pending).toEqual([]);
+        expect(toast.error).not.toHaveBeenCalled();
+    });
+
+    it('drops a meal that would break the meal limits and rolls it back', async () => {
+        const rollback = vi.fn();
+        registerSyncRollback('meal_attendance', rollback);
+        goOffline();
+        await useSyncQueueStore.getState().insertOrQueue('meal_attendance', { ...meal('m1'), quantity: 2 }, 'Meal');
+        vi.restoreAllMocks();
+        calls.length = 0;
+
+        // Another device already served this guest while we were offline
+        responses.push({ data: [{ meal_type: 'guest', quantity: 1 }] });
+        await useSyncQueueStore.getState().flush();
+
+        expect(calls.some(([method]) => method === 'insert')).toBe(false);
+        expect(rollback).toHaveBeenCalledWith('m1');
+        expect(toast.error).toHaveBeenCalledWith('Meal was not synced: guest already had 1 base meal that day');
+        expect(useSyncQueueStore.getState().pending).toEqual([]);
+    });
+
+    it('keeps a queued meal whose earlier attempt committed before the response was lost', async () => {
+        const rollback = vi.fn();
+        registerSyncRollback('meal_attendance', rollback);
+        goOffline();
+        await useSyncQueueStore.getState().insertOrQueue('meal_attendance', { ...meal('m1'), quantity: 2 }, 'Meal');
+        vi.restoreAllMocks();
+        calls.length = 0;
+
+        // The limit check leaves out the row itself; the replayed insert then hits its primary key
+        responses.push(
+            { data: [] },
+            { error: { code: '23505', message: 'duplicate key value violates unique constraint "meal_attendance_pkey"' } }
+        );
+        await useSyncQueueStore.getState().flush();
+
+        expect(calls).toContainEqual(['neq', ['id', 'm1']]);
+        expect(calls.some(([method]) => method === 'insert')).toBe(true);
+        expect(rollback).not.toHaveBeenCalled();
+        expect(toast.error).not.toHaveBeenCalled();
+        expect(toast.success).toHaveBeenCalledWith('Synced 1 offline change');
+        expect(useSyncQueueStore.getState().pending).toEqual([]);
+    });
+
+    it('drops a change the server rejects and moves on to the next one', async () => {
+        const rollback = vi.fn();
+        registerSyncRollback('shower_reservations', rollback);
+        goOffline();
+        await useSyncQueueStore.getState().insertOrQueue('shower_reservations', shower('s1'), 'Shower');
+        await useSyncQueueStore.getState().insertOrQueue('shower_reservations', shower('s2'), 'Shower');
+        vi.restoreAllMocks();
+
+        responses.push({ error: { code: 'P0001', message: 'Showers are closed on 2025-01-06' } }, {});
+        await useSyncQueueStore.getState().flush();
+
+        expect(rollback).toHaveBeenCalledWith('s1');
+        expect(rollback).not.toHaveBeenCalledWith('s2');
+        expect(toast.error).toHaveBeenCalledWith('Shower was not synced: Showers are closed on 2025-01-06');
+        expect(toast.success).toHaveBeenCalledWith('Synced 1 offline change');
+        expect(useSyncQueueStore.getState().pending).toEqual([]);
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useWaitlistPromotionsStore } from '../useWaitlistPromotionsStore';
+import type { WaitlistPromotion } from '@/lib/utils/waitlistPromotions';
+
+const { calls, results } = vi.hoisted(() => ({
+    calls: [] as [string, unknown[]][],
+    results: [] as { data: unknown; error: unknown }[],
+}));
+
+const nextResult = () => results.shift() || { data: null, error: null };
+
+vi.mock('@/lib/supabase/client', () => ({
+    createClient: () => ({
+        from: (table: string) => {
+            calls.push(['from', [table]]);
+            const builder: Record<string, unknown> = {};
+            ['select', 'order', 'limit'].forEach((method) => {
+                builder[method] = (...args: unknown[]) => {
+                    calls.push([method, args]);
+                    return builder;
+                };
+            });
+            builder.then = (resolve: (value: unknown) => unknown) => resolve(nextResult());
+            return builder;
+        },
+    }),
+}));
+
+const promotion = (id: string, overrides: Partial<WaitlistPromotion> = {}): WaitlistPromotion => ({
+    id,
+    serviceType: 'shower',
+    recordId: `s-${id}`,
+    guestId: `g-${id}`,
+    freedRecordId: null,
+    freedStatus: 'cancelled',
+    serviceDate: '2026-10-19',
+    slotLabel: '09:00',
+    promotedAt: '2026-10-19T16:00:00Z',
+    ...overrides,
+});
+
+describe('useWaitlistPromotionsStore', () => {
+    beforeEach(() => {
+        calls.length = 0;
+        results.length = 0;
+        useWaitlistPromotionsStore.setState({ promotions: [], isLoading: false, isLoaded: false });
+    });
+
+    it('loads promotions newest first', async () => {
+        results.push({
+            data: [
+                { id: 'a', service_type: 'shower', record_id: 's1', guest_id: 'g1', freed_record_id: 's0', freed_status: 'no_show', scheduled_for: '2026-10-19', slot_label: '08:00', promoted_at: '2026-10-19T15:00:00Z' },
+                { id: 'b', service_type: 'shower', record_id: 's2', guest_id: 'g2', freed_record_id: 's3', freed_status: 'cancelled', scheduled_for: '2026-10-19', slot_label: '09:00', promoted_at: '2026-10-19T16:00:00Z' },
+            ],
+            error: null,
+        });
+
+        await useWaitlistPromotionsStore.getState().ensureLoaded();
+
+        const { promotions, isLoaded } = useWaitlistPromotionsStore.getState();
+        expect(isLoaded).toBe(true);
+        expect(calls).toContainEqual(['from', ['waitlist_promotions']]);
+        expect(promotions.map((p) => p.id)).toEqual(['b', 'a']);
+        expect(promotions[1]).toEqual(expect.objectContaining({ recordId: 's1', freedStatus: 'no_show', slotLabel: '08:00' }));
+    });
+
+    it('keeps the loaded list when the query fails', async () => {
+        useWaitlistPromotionsStore.setState({ promotions: [promotion('a')] });
+        results.push({ data: null, error: { message: 'boom' } });
+
+        await useWaitlistPromotionsStore.getState().ensureLoaded();
+
+        expect(useWaitlistPromotionsStore.getState().promotions).toHaveLength(1);
+        expect(useWaitlistPromotionsStore.getState().isLoaded).toBe(false);
+    });
+
+    it('receives each realtime promotion once', () => {
+        const store = useWaitlistPromotionsStore.getState();
+        expect(store.receivePromotion(promotion('a'))).toBe(true);
+        expect(store.receivePromotion(promotion('a'))).toBe(false);
+        expect(store.receivePromotion(promotion('b', { serviceDate: '2026-10-20', promotedAt: '2026-10-20T16:00:00Z' }))).toBe(true);
+
+        expect(useWaitlistPromotionsStore.getState().promotions.map((p) => p.id)).toEqual(['b', 'a']);
+        expect(useWaitlistPromotionsStore.getState().getPromotionsForDate('2026-10-19').map((p) => p.id)).toEqual(['a']);
+    });
+});
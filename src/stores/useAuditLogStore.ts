@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { createClient } from '@/lib/supabase/client';
+import { mapAuditLogRow } from '@/lib/utils/mappers';
+import { toast } from 'react-hot-toast';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export const AUDITED_TABLES = [
+    'guests',
+    'meal_attendance',
+    'shower_reservations',
+    'laundry_bookings',
+    'bicycle_repairs',
+    'donations',
+    'guest_warnings',
+    'service_waivers',
+] as const;
+
+export type AuditedTable = typeof AUDITED_TABLES[number];
+
+export interface AuditLogEntry {
+    id: string;
+    occurredAt: string;
+    tableName: string;
+    recordId: string | null;
+    action: AuditAction;
+    guestId: string | null;
+    actorId: string | null;
+    actorEmail: string | null;
+    actorRole: string | null;
+    oldData: Record<string, unknown> | null;
+    newData: Record<string, unknown> | null;
+}
+
+export interface AuditLogFilters {
+    guestId?: string;
+    actorEmail?: string;
+    tableName?: AuditedTable;
+    since?: string; // YYYY-MM-DD, inclusive
+    until?: string; // YYYY-MM-DD, inclusive
+}
+
+// Newest entries only; narrow the filters to look further back
+export const AUDIT_LOG_PAGE_SIZE = 200;
+
+interface AuditLogState {
+    entries: AuditLogEntry[];
+    filters: AuditLogFilters;
+    loading: boolean;
+
+    setFilters: (filters: AuditLogFilters) => void;
+    fetchEntries: () => Promise<void>;
+}
+
+// Add one day to a YYYY-MM-DD string so `until` covers the whole day
+const nextDay = (date: string) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString().slice(0, 10);
+};
+
+export const useAuditLogStore = create<AuditLogState>((set, get) => ({
+    entries: [],
+    filters: {},
+    loading: false,
+
+    setFilters: (filters) => set({ filters }),
+
+    fetchEntries: async () => {
+        const supabase = createClient();
+        const { guestId, actorEmail, tableName, since, until } = get().filters;
+        set({ loading: true });
+        try {
+            let query = supabase
+                .from('audit_log')
+                .select('*')
+                .order('occurred_at', { ascending: false })
+                .limit(AUDIT_LOG_PAGE_SIZE);
+
+            if (guestId) query = query.eq('guest_id', guestId);
+            if (actorEmail?.trim()) query = query.ilike('actor_email', `%${actorEmail.trim()}%`);
+            if (tableName) query = query.eq('table_name', tableName);
+            if (since) query = query.gte('occurred_at', since);
+            if (until) query = query.lt('occurred_at', nextDay(until));
+
+            const { data, error } = await query;
+            if (error) throw error;
+
+            set({ entries: (data || []).map(mapAuditLogRow) as AuditLogEntry[] });
+        } catch (error) {
+            console.error('Error fetching audit log:', error);
+            toast.error('Failed to load audit log');
+        } finally {
+            set({ loading: false });
+        }
+    },
+}));
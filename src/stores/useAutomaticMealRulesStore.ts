@@ -0,0 +1,141 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapAutomaticMealEntryRow, mapAutomaticMealRuleRow } from '@/lib/utils/mappers';
+import { sortRules, type AutomaticMealEntry, type AutomaticMealRule } from '@/lib/utils/automaticMealRules';
+import toast from 'react-hot-toast';
+
+// How many recent automatic entries the history view shows
+const HISTORY_LIMIT = 100;
+
+const toRow = (rule: AutomaticMealRule) => ({
+    ...(rule.id ? { id: rule.id } : {}),
+    weekday: rule.weekday,
+    meal_type: rule.mealType,
+    quantity: rule.quantity,
+    note: rule.note?.trim() || null,
+    starts_on: rule.startsOn || null,
+    ends_on: rule.endsOn || null,
+    active: rule.active,
+});
+
+interface AutomaticMealRulesState {
+    rules: AutomaticMealRule[];
+    history: AutomaticMealEntry[];
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    saveRule: (rule: AutomaticMealRule) => Promise<boolean>;
+    loadHistory: () => Promise<void>;
+    recordDueMeals: () => Promise<number | null>;
+}
+
+export const useAutomaticMealRulesStore = create<AutomaticMealRulesState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                rules: [],
+                history: [],
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('automatic_meal_rules')
+                            .select('*')
+                            .order('weekday', { ascending: true });
+
+                        if (error) {
+                            console.error('Failed to load automatic meal rules from Supabase:', error);
+                            return;
+                        }
+
+                        const mapped = sortRules((data || []).map(mapAutomaticMealRuleRow) as AutomaticMealRule[]);
+                        set((state) => {
+                            state.rules = mapped;
+                            state.isLoaded = true;
+                        });
+                    } catch (error) {
+                        console.error('Error loading automatic meal rules:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                // Insert a new rule or update an existing one; rules are deactivated, not deleted,
+                // so the history keeps pointing at them
+                saveRule: async (rule) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase
+                        .from('automatic_meal_rules')
+                        .upsert(toRow(rule))
+                        .select()
+                        .single();
+
+                    if (error || !data) {
+                        console.error('Failed to save automatic meal rule:', error);
+                        toast.error('Failed to save rule');
+                        return false;
+                    }
+
+                    const saved = mapAutomaticMealRuleRow(data) as AutomaticMealRule;
+                    set((state) => {
+                        state.rules = sortRules([...state.rules.filter((r) => r.id !== saved.id), saved]);
+                    });
+                    return true;
+                },
+
+                loadHistory: async () => {
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('meal_attendance')
+                            .select('id, meal_type, quantity, served_on, notes, automatic_rule_id, recorded_at')
+                            .not('automatic_rule_id', 'is', null)
+                            .order('served_on', { ascending: false })
+                            .limit(HISTORY_LIMIT);
+
+                        if (error) {
+                            console.error('Failed to load automatic meal history:', error);
+                            return;
+                        }
+
+                        const mapped = (data || []).map(mapAutomaticMealEntryRow) as AutomaticMealEntry[];
+                        set((state) => { state.history = mapped; });
+                    } catch (error) {
+                        console.error('Error loading automatic meal history:', error);
+                    }
+                },
+
+                // Run the daily job now; returns how many entries were recorded, or null on failure
+                recordDueMeals: async () => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase.rpc('record_automatic_meals');
+
+                    if (error) {
+                        console.error('Failed to record automatic meals:', error);
+                        toast.error('Failed to record automatic meals');
+                        return null;
+                    }
+
+                    await get().loadHistory();
+                    return Number(data) || 0;
+                },
+            })),
+            {
+                name: 'hopes-corner-automatic-meal-rules',
+                partialize: (state) => ({ rules: state.rules }),
+            }
+        ),
+        { name: 'AutomaticMealRulesStore' }
+    )
+);
@@ -0,0 +1,178 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapBicycleRepairTypeRow } from '@/lib/utils/mappers';
+import toast from 'react-hot-toast';
+
+export type BicycleRepairCategory = 'repair' | 'maintenance' | 'accessory' | 'new_bicycle' | 'other';
+
+export const BICYCLE_REPAIR_CATEGORIES: { value: BicycleRepairCategory; label: string }[] = [
+    { value: 'repair', label: 'Repair' },
+    { value: 'maintenance', label: 'Maintenance' },
+    { value: 'accessory', label: 'Accessory' },
+    { value: 'new_bicycle', label: 'New Bicycle' },
+    { value: 'other', label: 'Other (needs notes)' },
+];
+
+export interface BicycleRepairType {
+    key: string;
+    label: string;               // stored in bicycle_repairs.repair_types
+    category: BicycleRepairCategory;
+    defaultPriority: number;     // lower numbers sort first on the board
+    estimatedMinutes: number | null;
+    active: boolean;             // retired types still resolve for old repairs but are not offered
+    sortOrder: number;
+}
+
+const type = (
+    key: string,
+    label: string,
+    category: BicycleRepairCategory,
+    estimatedMinutes: number | null,
+    sortOrder: number
+): BicycleRepairType => ({ key, label, category, defaultPriority: 0, estimatedMinutes, active: true, sortOrder });
+
+// Used until the catalog loads (and offline); mirrors the bicycle_repair_types seed in database/schema.sql
+export const DEFAULT_BICYCLE_REPAIR_TYPES: BicycleRepairType[] = [
+    type('new_bicycle', 'New Bicycle', 'new_bicycle', null, 10),
+    type('flat_tire', 'Flat Tire', 'repair', 15, 20),
+    type('brake_adjustment', 'Brake Adjustment', 'maintenance', 15, 30),
+    type('gear_adjustment', 'Gear Adjustment', 'maintenance', 20, 40),
+    type('chain_replacement', 'Chain Replacement', 'repair', 20, 50),
+    type('wheel_truing', 'Wheel Truing', 'repair', 30, 60),
+    type('basic_tune_up', 'Basic Tune Up', 'maintenance', 45, 70),
+    type('drivetrain_cleaning', 'Drivetrain Cleaning', 'maintenance', 30, 80),
+    type('cable_replacement', 'Cable Replacement', 'repair', 20, 90),
+    type('headset_adjustment', 'Headset Adjustment', 'maintenance', 15, 100),
+    type('seat_adjustment', 'Seat Adjustment', 'maintenance', 5, 110),
+    type('kickstand', 'Kickstand', 'accessory', 10, 120),
+    type('basket_rack', 'Basket/Rack', 'accessory', 15, 130),
+    type('bike_lights', 'Bike Lights', 'accessory', 5, 140),
+    type('lock', 'Lock', 'accessory', 5, 150),
+    type('new_tube', 'New Tube', 'repair', 15, 160),
+    type('new_tire', 'New Tire', 'repair', 20, 170),
+    type('other', 'Other', 'other', null, 1000),
+];
+
+const sortTypes = (types: BicycleRepairType[]) =>
+    [...types].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+
+const toRow = (repairType: BicycleRepairType) => ({
+    key: repairType.key,
+    label: repairType.label.trim(),
+    category: repairType.category,
+    default_priority: repairType.defaultPriority,
+    estimated_minutes: repairType.estimatedMinutes,
+    active: repairType.active,
+    sort_order: repairType.sortOrder,
+});
+
+// Turn a label into a catalog key, e.g. "Basket/Rack" -> "basket_rack"
+export const toRepairTypeKey = (label: string) =>
+    label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+interface BicycleRepairTypesState {
+    types: BicycleRepairType[];
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    saveType: (repairType: BicycleRepairType) => Promise<boolean>;
+
+    getActiveTypes: () => BicycleRepairType[];
+    resolveType: (value: string) => BicycleRepairType | undefined;
+    isNewBicycleType: (value: string) => boolean;
+}
+
+export const useBicycleRepairTypesStore = create<BicycleRepairTypesState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                types: DEFAULT_BICYCLE_REPAIR_TYPES,
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('bicycle_repair_types')
+                            .select('*')
+                            .order('sort_order', { ascending: true });
+
+                        if (error) {
+                            console.error('Failed to load bicycle repair types from Supabase:', error);
+                            return;
+                        }
+
+                        // An empty table means the migration has not been seeded; keep the defaults
+                        if (data && data.length > 0) {
+                            const mapped = sortTypes(data.map(mapBicycleRepairTypeRow) as BicycleRepairType[]);
+                            set((state) => { state.types = mapped; });
+                        }
+                        set((state) => { state.isLoaded = true; });
+                    } catch (error) {
+                        console.error('Error loading bicycle repair types:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                // Insert or update a type (optimistic, rolled back on failure)
+                saveType: async (repairType) => {
+                    const supabase = createClient();
+                    const originalTypes = get().types;
+
+                    set((state) => {
+                        state.types = sortTypes([
+                            ...state.types.filter((t) => t.key !== repairType.key),
+                            repairType,
+                        ]);
+                    });
+
+                    const { error } = await supabase
+                        .from('bicycle_repair_types')
+                        .upsert(toRow(repairType), { onConflict: 'key' });
+
+                    if (error) {
+                        console.error('Failed to save bicycle repair type:', error);
+                        set((state) => { state.types = originalTypes; });
+                        toast.error('Failed to save repair type');
+                        return false;
+                    }
+
+                    return true;
+                },
+
+                getActiveTypes: () => get().types.filter((t) => t.active),
+
+                // Repairs store labels; match the label first, then the key it was created from
+                resolveType: (value) => {
+                    if (!value) return undefined;
+                    const label = value.trim().toLowerCase();
+                    const key = toRepairTypeKey(value);
+                    const { types } = get();
+                    return types.find((t) => t.label.toLowerCase() === label) || types.find((t) => t.key === key);
+                },
+
+                isNewBicycleType: (value) => {
+                    const resolved = get().resolveType(value);
+                    if (resolved) return resolved.category === 'new_bicycle';
+                    const lower = (value || '').toLowerCase();
+                    return lower.includes('new bicycle') || lower.includes('new bike');
+                },
+            })),
+            {
+                name: 'hopes-corner-bicycle-repair-types',
+                partialize: (state) => ({ types: state.types }),
+            }
+        ),
+        { name: 'BicycleRepairTypesStore' }
+    )
+);
@@ -0,0 +1,158 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapGuestMergeRow, mapGuestRow } from '@/lib/utils/mappers';
+import { duplicatePairKey } from '@/lib/utils/duplicateDetection';
+import { clearSearchIndexCache } from '@/lib/utils/flexibleNameSearch';
+import type { GuestMerge } from '@/lib/utils/guestMerge';
+import { useGuestsStore, type Guest } from './useGuestsStore';
+import { useMealsStore } from './useMealsStore';
+import { useServicesStore } from './useServicesStore';
+import { useRemindersStore } from './useRemindersStore';
+import { useHouseholdsStore } from './useHouseholdsStore';
+import toast from 'react-hot-toast';
+
+const RECENT_MERGES_LIMIT = 20;
+
+// Records moved between guests on the server; reload whatever the app keeps in memory
+const refreshMovedRecords = async () => {
+    const guests = useGuestsStore.getState();
+    await Promise.all([
+        guests.loadGuestWarningsFromSupabase(),
+        guests.loadGuestProxiesFromSupabase(),
+        useMealsStore.getState().ensureLoaded({ force: true }),
+        useServicesStore.getState().ensureLoaded({ force: true }),
+        useRemindersStore.getState().loadFromSupabase(),
+        useHouseholdsStore.getState().ensureLoaded({ force: true }),
+    ]);
+};
+
+interface GuestMergeState {
+    recentMerges: GuestMerge[];
+    // Pairs staff marked as different people, so the scan stops suggesting them
+    dismissedPairs: string[];
+    isLoading: boolean;
+
+    loadRecentMerges: () => Promise<void>;
+    mergeGuests: (
+        keptGuestId: string,
+        mergedGuestId: string,
+        fields: Record<string, string | null>,
+        mergedBy?: string | null
+    ) => Promise<GuestMerge | null>;
+    undoMerge: (mergeId: string) => Promise<boolean>;
+    dismissPair: (guestIdA: string, guestIdB: string) => void;
+}
+
+export const useGuestMergeStore = create<GuestMergeState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                recentMerges: [],
+                dismissedPairs: [],
+                isLoading: false,
+
+                loadRecentMerges: async () => {
+                    if (get().isLoading) return;
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('guest_merges')
+                            .select('*')
+                            .order('merged_at', { ascending: false })
+                            .limit(RECENT_MERGES_LIMIT);
+
+                        if (error) {
+                            console.error('Failed to load guest merges from Supabase:', error);
+                            return;
+                        }
+
+                        set((state) => {
+                            state.recentMerges = (data || []).map(mapGuestMergeRow);
+                        });
+                    } catch (error) {
+                        console.error('Error loading guest merges:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                mergeGuests: async (keptGuestId, mergedGuestId, fields, mergedBy = null) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase.rpc('merge_guests', {
+                        p_keep_id: keptGuestId,
+                        p_merge_id: mergedGuestId,
+                        p_fields: fields,
+                        p_merged_by: mergedBy,
+                    });
+
+                    if (error || !data) {
+                        console.error('Failed to merge guests:', error);
+                        // Same-day booking conflicts come back as readable messages
+                        toast.error(error?.message ? `Merge failed: ${error.message}` : 'Failed to merge guests');
+                        return null;
+                    }
+
+                    const merge = mapGuestMergeRow(data.merge);
+                    const kept = mapGuestRow(data.kept) as Guest;
+                    set((state) => {
+                        state.recentMerges = [merge, ...state.recentMerges].slice(0, RECENT_MERGES_LIMIT);
+                    });
+                    useGuestsStore.setState((state) => {
+                        state.guests = state.guests
+                            .filter((g) => g.id !== mergedGuestId)
+                            .map((g) => (g.id === keptGuestId ? kept : g));
+                        // Ban history is cached per guest; drop both so it reloads
+                        state.guestBans = state.guestBans.filter((b) => b.guestId !== keptGuestId && b.guestId !== mergedGuestId);
+                    });
+                    clearSearchIndexCache();
+                    await refreshMovedRecords();
+                    return merge;
+                },
+
+                undoMerge: async (mergeId) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase.rpc('undo_guest_merge', { p_merge_id: mergeId });
+
+                    if (error || !data) {
+                        console.error('Failed to undo guest merge:', error);
+                        toast.error(error?.message ? `Undo failed: ${error.message}` : 'Failed to undo merge');
+                        return false;
+                    }
+
+                    const kept = mapGuestRow(data.kept) as Guest;
+                    const restored = mapGuestRow(data.restored) as Guest;
+                    set((state) => {
+                        const merge = state.recentMerges.find((m) => m.id === mergeId);
+                        if (merge) merge.undoneAt = new Date().toISOString();
+                    });
+                    useGuestsStore.setState((state) => {
+                        state.guests = [
+                            ...state.guests.filter((g) => g.id !== restored.id).map((g) => (g.id === kept.id ? kept : g)),
+                            restored,
+                        ];
+                        state.guestBans = state.guestBans.filter((b) => b.guestId !== kept.id && b.guestId !== restored.id);
+                    });
+                    clearSearchIndexCache();
+                    await refreshMovedRecords();
+                    return true;
+                },
+
+                dismissPair: (guestIdA, guestIdB) => {
+                    const key = duplicatePairKey(guestIdA, guestIdB);
+                    set((state) => {
+                        if (!state.dismissedPairs.includes(key)) state.dismissedPairs.push(key);
+                    });
+                },
+            })),
+            {
+                name: 'hopes-corner-guest-merges',
+                partialize: (state) => ({ dismissedPairs: state.dismissedPairs }),
+            }
+        ),
+        { name: 'GuestMergeStore' }
+    )
+);
@@ -0,0 +1,131 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import {
+    getGuestPhotoStorage,
+    guestPhotoPath,
+    GUEST_PHOTO_URL_TTL_SECONDS,
+} from '@/lib/supabase/guestPhotos';
+import { useGuestsStore } from './useGuestsStore';
+
+// Refresh a signed URL a few minutes before Storage stops honouring it
+const URL_LIFETIME_MS = (GUEST_PHOTO_URL_TTL_SECONDS - 5 * 60) * 1000;
+const BATCH_DELAY_MS = 20;
+
+// Guest cards ask for their own photo; requests made together share one Storage call
+const queuedPaths = new Set<string>();
+const inFlightPaths = new Set<string>();
+let batchTimer: ReturnType<typeof setTimeout> | null = null;
+
+interface PhotoUrl {
+    url: string;
+    expiresAt: number;
+}
+
+interface GuestPhotosState {
+    urls: Record<string, PhotoUrl>;
+
+    requestPhotoUrls: (paths: string[]) => void;
+    loadPhotoUrls: (paths: string[]) => Promise<void>;
+    getPhotoUrl: (path?: string | null) => string | null;
+    saveGuestPhoto: (guestId: string, photo: Blob) => Promise<boolean>;
+    removeGuestPhoto: (guestId: string) => Promise<boolean>;
+}
+
+export const useGuestPhotosStore = create<GuestPhotosState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                urls: {},
+
+                requestPhotoUrls: (paths) => {
+                    paths
+                        .filter((path) => path && !get().getPhotoUrl(path) && !inFlightPaths.has(path))
+                        .forEach((path) => queuedPaths.add(path));
+                    if (queuedPaths.size === 0 || batchTimer) return;
+
+                    batchTimer = setTimeout(() => {
+                        batchTimer = null;
+                        const batch = Array.from(queuedPaths);
+                        queuedPaths.clear();
+                        get().loadPhotoUrls(batch);
+                    }, BATCH_DELAY_MS);
+                },
+
+                loadPhotoUrls: async (paths) => {
+                    if (paths.length === 0) return;
+                    paths.forEach((path) => inFlightPaths.add(path));
+
+                    try {
+                        const urls = await getGuestPhotoStorage().getUrls(paths);
+                        const expiresAt = Date.now() + URL_LIFETIME_MS;
+                        set((state) => {
+                            Object.entries(urls).forEach(([path, url]) => {
+                                state.urls[path] = { url, expiresAt };
+                            });
+                        });
+                    } catch (error) {
+                        console.error('Failed to load guest photos:', error);
+                    } finally {
+                        paths.forEach((path) => inFlightPaths.delete(path));
+                    }
+                },
+
+                getPhotoUrl: (path) => {
+                    if (!path) return null;
+                    const cached = get().urls[path];
+                    return cached && cached.expiresAt > Date.now() ? cached.url : null;
+                },
+
+                saveGuestPhoto: async (guestId, photo) => {
+                    const storage = getGuestPhotoStorage();
+                    const previousPath = useGuestsStore.getState().guests.find((g) => g.id === guestId)?.photoPath;
+                    const path = guestPhotoPath(guestId);
+
+                    try {
+                        await storage.upload(path, photo);
+                    } catch (error) {
+                        console.error('Failed to upload guest photo:', error);
+                        return false;
+                    }
+
+                    const saved = await useGuestsStore.getState().updateGuest(guestId, { photoPath: path });
+                    if (!saved) {
+                        await storage.remove([path]).catch(() => undefined);
+                        return false;
+                    }
+
+                    if (previousPath) {
+                        await storage.remove([previousPath]).catch((error) => {
+                            console.error('Failed to remove replaced guest photo:', error);
+                        });
+                    }
+                    await get().loadPhotoUrls([path]);
+                    return true;
+                },
+
+                removeGuestPhoto: async (guestId) => {
+                    const previousPath = useGuestsStore.getState().guests.find((g) => g.id === guestId)?.photoPath;
+                    if (!previousPath) return true;
+
+                    const saved = await useGuestsStore.getState().updateGuest(guestId, { photoPath: null });
+                    if (!saved) return false;
+
+                    await getGuestPhotoStorage().remove([previousPath]).catch((error) => {
+                        console.error('Failed to remove guest photo:', error);
+                    });
+                    set((state) => {
+                        delete state.urls[previousPath];
+                    });
+                    return true;
+                },
+            })),
+            {
+                name: 'hopes-corner-guest-photos',
+                // Signed URLs expire; fetch fresh ones each session
+                partialize: () => ({}),
+            }
+        ),
+        { name: 'GuestPhotosStore' }
+    )
+);
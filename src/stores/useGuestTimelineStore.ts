@@ -0,0 +1,72 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { fetchAllPaginated } from '@/lib/utils/supabasePagination';
+import {
+    buildGuestTimeline,
+    TIMELINE_ORDER_COLUMNS,
+    TIMELINE_SOURCES,
+    type GuestTimelineRows,
+    type TimelineEvent,
+} from '@/lib/utils/guestTimeline';
+import toast from 'react-hot-toast';
+
+interface GuestTimelineState {
+    timelines: Record<string, TimelineEvent[]>;
+    loadingGuestId: string | null;
+
+    loadTimeline: (guestId: string) => Promise<void>;
+}
+
+// Full history is fetched per guest on demand; the service stores only keep recent weeks
+export const useGuestTimelineStore = create<GuestTimelineState>()(
+    devtools(
+        immer((set) => ({
+            timelines: {},
+            loadingGuestId: null,
+
+            loadTimeline: async (guestId: string) => {
+                set((state) => { state.loadingGuestId = guestId; });
+
+                try {
+                    const supabase = createClient();
+                    // Paged so long-time guests aren't cut off at the API's row limit
+                    const results = await Promise.allSettled(
+                        TIMELINE_SOURCES.map((table) =>
+                            fetchAllPaginated(supabase, {
+                                table,
+                                orderBy: TIMELINE_ORDER_COLUMNS[table],
+                                ascending: false,
+                                filters: [{ column: 'guest_id', op: 'eq', value: guestId }],
+                            })
+                        )
+                    );
+
+                    const rows: GuestTimelineRows = {};
+                    const failed: string[] = [];
+                    results.forEach((result, index) => {
+                        const table = TIMELINE_SOURCES[index];
+                        if (result.status === 'rejected') {
+                            console.error(`Failed to load ${table} for guest timeline:`, result.reason);
+                            failed.push(table);
+                            return;
+                        }
+                        rows[table] = result.value;
+                    });
+
+                    if (failed.length > 0) toast.error('Some of this guest\'s history could not be loaded');
+
+                    const timeline = buildGuestTimeline(rows);
+                    set((state) => { state.timelines[guestId] = timeline; });
+                } catch (error) {
+                    console.error('Error loading guest timeline:', error);
+                    toast.error('Failed to load guest history');
+                } finally {
+                    set((state) => { state.loadingGuestId = null; });
+                }
+            },
+        })),
+        { name: 'GuestTimelineStore' }
+    )
+);
@@ -20,14 +20,18 @@ import {
 import {
     mapGuestRow,
     mapGuestProxyRow,
-    mapGuestWarningRow
+    mapGuestWarningRow,
+    mapGuestBanRow
 } from '@/lib/utils/mappers';
+import { sortBansNewestFirst, type GuestBan } from '@/lib/utils/guestBans';
 import {
     HOUSING_STATUSES,
     AGE_GROUPS,
     GENDERS,
 } from '@/lib/constants/constants';
 import { clearSearchIndexCache } from '@/lib/utils/flexibleNameSearch';
+import { buildGuestId, normalizeGuestIdFormat } from '@/lib/utils/guestIdFormat';
+import { useSettingsStore } from './useSettingsStore';
 
 const GUEST_IMPORT_CHUNK_SIZE = 100;
 const MAX_LINKED_GUESTS = 3;
@@ -53,6 +57,7 @@ export interface Guest {
     bannedFromMeals: boolean;
     bannedFromShower: boolean;
     bannedFromLaundry: boolean;
+    photoPath?: string | null;
     createdAt: string;
     updatedAt: string;
     docId?: string;
@@ -94,6 +99,7 @@ interface GuestsState {
     guests: Guest[];
     guestProxies: GuestProxy[];
     warnings: GuestWarning[];
+    guestBans: GuestBan[];
     isLoaded: boolean;
     isLoading: boolean;
     lastLoadedAt?: string;
@@ -106,7 +112,9 @@ interface GuestsState {
     updateGuest: (id: string, updates: any) => Promise<boolean>;
     removeGuest: (id: string) => Promise<void>;
     banGuest: (guestId: string, options: any) => Promise<boolean>;
-    clearGuestBan: (guestId: string) => Promise<boolean>;
+    clearGuestBan: (guestId: string, options?: { liftedBy?: string | null }) => Promise<boolean>;
+    loadGuestBans: (guestId: string) => Promise<void>;
+    getBansForGuest: (guestId: string) => GuestBan[];
     ensureLoaded: (options?: { force?: boolean; since?: string }) => Promise<void>;
     loadFromSupabase: () => Promise<void>;
     loadGuestWarningsFromSupabase: () => Promise<void>;
@@ -132,6 +140,7 @@ export const useGuestsStore = create<GuestsState>()(
                 guests: [],
                 guestProxies: [],
                 warnings: [],
+                guestBans: [],
                 isLoaded: false,
                 isLoading: false,
                 lastLoadedAt: undefined,
@@ -144,13 +153,11 @@ export const useGuestsStore = create<GuestsState>()(
                 },
 
                 generateGuestId: () => {
-                    return (
-                        'G' +
-                        Date.now().toString(36).toUpperCase() +
-                        Math.floor(Math.random() * 1000)
-                            .toString()
-                            .padStart(3, '0')
-                    );
+                    const format = normalizeGuestIdFormat(useSettingsStore.getState().guestIdFormat);
+                    const taken = new Set(get().guests.map((g) => g.guestId));
+                    let id = buildGuestId(format);
+                    while (taken.has(id)) id = buildGuestId(format);
+                    return id;
                 },
 
                 // Actions
@@ -251,6 +258,7 @@ export const useGuestsStore = create<GuestsState>()(
                     if (updates.notes !== undefined) payload.notes = updates.notes;
                     if (updates.bicycleDescription !== undefined) payload.bicycle_description = normalizeBicycleDescription(updates.bicycleDescription);
                     if (updates.guestId !== undefined) payload.external_id = updates.guestId;
+                    if (updates.photoPath !== undefined) payload.photo_path = updates.photoPath;
 
                     // Optimistic update
                     set((state) => {
@@ -297,6 +305,7 @@ export const useGuestsStore = create<GuestsState>()(
                         state.guests = state.guests.filter((g) => g.id !== id);
                         state.guestProxies = state.guestProxies.filter(p => p.guestId !== id && p.proxyId !== id);
                         state.warnings = state.warnings.filter(w => w.guestId !== id);
+                        state.guestBans = state.guestBans.filter(b => b.guestId !== id);
                     });
                     clearSearchIndexCache();
 
@@ -374,6 +383,7 @@ export const useGuestsStore = create<GuestsState>()(
                             supabase.from('items_distributed').update({ guest_id: toGuestId }).eq('guest_id', fromGuestId),
                             supabase.from('guest_reminders').update({ guest_id: toGuestId }).eq('guest_id', fromGuestId),
                             supabase.from('guest_warnings').update({ guest_id: toGuestId }).eq('guest_id', fromGuestId),
+                            supabase.from('guest_bans').update({ guest_id: toGuestId }).eq('guest_id', fromGuestId),
                             supabase.from('guest_proxies').update({ guest_id: toGuestId }).eq('guest_id', fromGuestId),
                             supabase.from('guest_proxies').update({ proxy_id: toGuestId }).eq('proxy_id', fromGuestId),
                             // Also update meal pickups where this guest picked up meals for others
@@ -412,6 +422,7 @@ export const useGuestsStore = create<GuestsState>()(
                             state.guests = state.guests.filter((g) => g.id !== guestId);
                             state.guestProxies = state.guestProxies.filter(p => p.guestId !== guestId && p.proxyId !== guestId);
                             state.warnings = state.warnings.filter(w => w.guestId !== guestId);
+                            state.guestBans = state.guestBans.filter(b => b.guestId !== guestId);
                         });
                         clearSearchIndexCache();
 
@@ -442,83 +453,133 @@ export const useGuestsStore = create<GuestsState>()(
                     if (!target) return false;
 
                     const {
+                        banId,
                         bannedUntil,
                         banReason = '',
                         bannedFromBicycle = false,
                         bannedFromMeals = false,
                         bannedFromShower = false,
                         bannedFromLaundry = false,
+                        issuedBy = null,
                     } = options;
 
                     const normalizedUntil = normalizeDateInputToISO(bannedUntil);
                     if (!normalizedUntil) throw new Error('Ban end time is required.');
 
-                    const payload = {
-                        ban_reason: banReason || null,
-                        banned_until: normalizedUntil,
-                        banned_at: new Date().toISOString(),
+                    const scope = {
+                        reason: banReason || null,
+                        ends_at: normalizedUntil,
                         banned_from_bicycle: bannedFromBicycle,
                         banned_from_meals: bannedFromMeals,
                         banned_from_shower: bannedFromShower,
                         banned_from_laundry: bannedFromLaundry,
                     };
 
-                    const { data, error } = await supabase
-                        .from('guests')
-                        .update(payload)
-                        .eq('id', guestId)
-                        .select()
-                        .single();
+                    // Updating keeps the current history row; a new ban adds one.
+                    // A trigger copies the current ban onto the guests row.
+                    const query = banId
+                        ? supabase.from('guest_bans').update(scope).eq('id', banId)
+                        : supabase.from('guest_bans').insert({ ...scope, guest_id: guestId, issued_by: issuedBy });
+
+                    const { data, error } = await query.select().single();
 
                     if (error) {
                         console.error('Failed to update ban in Supabase:', error);
                         throw new Error('Unable to update ban status.');
                     }
 
-                    const mapped = mapGuestRow(data);
+                    const ban = mapGuestBanRow(data) as GuestBan;
                     set((state) => {
+                        state.guestBans = sortBansNewestFirst([ban, ...state.guestBans.filter((b) => b.id !== ban.id)]);
                         const index = state.guests.findIndex((g) => g.id === guestId);
                         if (index !== -1) {
-                            state.guests[index] = mapped as any;
+                            state.guests[index] = {
+                                ...state.guests[index],
+                                banReason: ban.reason,
+                                bannedAt: ban.startsAt,
+                                bannedUntil: ban.endsAt,
+                                isBanned: computeIsGuestBanned(ban.endsAt),
+                                bannedFromBicycle: ban.bannedFromBicycle,
+                                bannedFromMeals: ban.bannedFromMeals,
+                                bannedFromShower: ban.bannedFromShower,
+                                bannedFromLaundry: ban.bannedFromLaundry,
+                            };
                         }
                     });
                     return true;
                 },
 
-                clearGuestBan: async (guestId) => {
+                clearGuestBan: async (guestId, { liftedBy = null } = {}) => {
                     const supabase = createClient();
-                    const payload = {
-                        ban_reason: null,
-                        banned_until: null,
-                        banned_at: null,
-                        banned_from_bicycle: false,
-                        banned_from_meals: false,
-                        banned_from_shower: false,
-                        banned_from_laundry: false,
-                    };
+                    const now = new Date().toISOString();
 
+                    // Lifting marks the ban rather than deleting it, so it stays in the history
                     const { data, error } = await supabase
-                        .from('guests')
-                        .update(payload)
-                        .eq('id', guestId)
-                        .select()
-                        .single();
+                        .from('guest_bans')
+                        .update({ lifted_at: now, lifted_by: liftedBy })
+                        .eq('guest_id', guestId)
+                        .is('lifted_at', null)
+                        .gt('ends_at', now)
+                        .select();
 
                     if (error) {
                         console.error('Failed to clear ban in Supabase:', error);
                         throw new Error('Unable to clear ban.');
                     }
 
-                    const mapped = mapGuestRow(data);
+                    const lifted = ((data || []) as any[]).map(mapGuestBanRow) as GuestBan[];
                     set((state) => {
+                        lifted.forEach((ban) => {
+                            const index = state.guestBans.findIndex((b) => b.id === ban.id);
+                            if (index !== -1) state.guestBans[index] = ban;
+                            else state.guestBans.push(ban);
+                        });
+                        state.guestBans = sortBansNewestFirst(state.guestBans);
                         const index = state.guests.findIndex((g) => g.id === guestId);
                         if (index !== -1) {
-                            state.guests[index] = mapped as any;
+                            state.guests[index] = {
+                                ...state.guests[index],
+                                banReason: '',
+                                bannedAt: null,
+                                bannedUntil: null,
+                                isBanned: false,
+                                bannedFromBicycle: false,
+                                bannedFromMeals: false,
+                                bannedFromShower: false,
+                                bannedFromLaundry: false,
+                            };
                         }
                     });
                     return true;
                 },
 
+                loadGuestBans: async (guestId) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase
+                        .from('guest_bans')
+                        .select('*')
+                        .eq('guest_id', guestId)
+                        .order('starts_at', { ascending: false });
+
+                    if (error) {
+                        console.error('Failed to load ban history from Supabase:', error);
+                        return;
+                    }
+
+                    const bans = (data || []).map(mapGuestBanRow) as GuestBan[];
+                    set((state) => {
+                        state.guestBans = sortBansNewestFirst([
+                            ...state.guestBans.filter((b) => b.guestId !== guestId),
+                            ...bans,
+                        ]);
+                    });
+                },
+
+                getBansForGuest: (guestId) => {
+                    const { guestBans } = get();
+                    return (guestBans || []).filter((b) => b.guestId === guestId);
+                },
+
                 ensureLoaded: async ({ force = false }: { force?: boolean; since?: string } = {}) => {
                     if (!force && get().isLoaded) return;
                     if (get().isLoading) return;
@@ -0,0 +1,265 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapHouseholdMemberRow, mapHouseholdRow } from '@/lib/utils/mappers';
+import {
+    sortHouseholdMembers,
+    type Household,
+    type HouseholdMember,
+    type HouseholdRole,
+} from '@/lib/utils/households';
+import toast from 'react-hot-toast';
+
+interface HouseholdInput {
+    name: string;
+    mealAllowance?: number | null;
+    notes?: string | null;
+}
+
+interface HouseholdsState {
+    households: Household[];
+    members: HouseholdMember[];
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    createHousehold: (input: HouseholdInput, headGuestId: string) => Promise<Household | null>;
+    updateHousehold: (id: string, updates: Partial<HouseholdInput>) => Promise<boolean>;
+    deleteHousehold: (id: string) => Promise<boolean>;
+    addMember: (householdId: string, guestId: string, role: HouseholdRole) => Promise<boolean>;
+    setMemberRole: (memberId: string, role: HouseholdRole) => Promise<boolean>;
+    removeMember: (memberId: string) => Promise<boolean>;
+
+    getHouseholdForGuest: (guestId: string) => { household: Household; members: HouseholdMember[] } | null;
+    getHouseholdIdByGuest: () => Map<string, string>;
+}
+
+export const useHouseholdsStore = create<HouseholdsState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                households: [],
+                members: [],
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const [householdsResult, membersResult] = await Promise.all([
+                            supabase.from('households').select('*').order('name', { ascending: true }),
+                            supabase.from('household_members').select('*').order('created_at', { ascending: true }),
+                        ]);
+
+                        if (householdsResult.error || membersResult.error) {
+                            console.error('Failed to load households from Supabase:', householdsResult.error || membersResult.error);
+                            return;
+                        }
+
+                        set((state) => {
+                            state.households = (householdsResult.data || []).map(mapHouseholdRow);
+                            state.members = (membersResult.data || []).map(mapHouseholdMemberRow) as HouseholdMember[];
+                            state.isLoaded = true;
+                        });
+                    } catch (error) {
+                        console.error('Error loading households:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                createHousehold: async (input, headGuestId) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase
+                        .from('households')
+                        .insert({
+                            name: input.name.trim(),
+                            meal_allowance: input.mealAllowance ?? null,
+                            notes: input.notes?.trim() || null,
+                        })
+                        .select()
+                        .single();
+
+                    if (error || !data) {
+                        console.error('Failed to create household:', error);
+                        toast.error('Failed to create household');
+                        return null;
+                    }
+
+                    const household = mapHouseholdRow(data);
+                    set((state) => { state.households.push(household); });
+
+                    if (!(await get().addMember(household.id, headGuestId, 'head'))) {
+                        await supabase.from('households').delete().eq('id', household.id);
+                        set((state) => {
+                            state.households = state.households.filter((h) => h.id !== household.id);
+                        });
+                        return null;
+                    }
+
+                    return { ...household, headGuestId };
+                },
+
+                updateHousehold: async (id, updates) => {
+                    const payload: Record<string, unknown> = {};
+                    if (updates.name !== undefined) payload.name = updates.name.trim();
+                    if (updates.mealAllowance !== undefined) payload.meal_allowance = updates.mealAllowance;
+                    if (updates.notes !== undefined) payload.notes = updates.notes?.trim() || null;
+
+                    const supabase = createClient();
+                    const { error } = await supabase.from('households').update(payload).eq('id', id);
+
+                    if (error) {
+                        console.error('Failed to update household:', error);
+                        toast.error('Failed to update household');
+                        return false;
+                    }
+
+                    set((state) => {
+                        const household = state.households.find((h) => h.id === id);
+                        if (!household) return;
+                        if (updates.name !== undefined) household.name = updates.name.trim();
+                        if (updates.mealAllowance !== undefined) household.mealAllowance = updates.mealAllowance;
+                        if (updates.notes !== undefined) household.notes = updates.notes?.trim() || null;
+                    });
+                    return true;
+                },
+
+                deleteHousehold: async (id) => {
+                    const supabase = createClient();
+                    const { error } = await supabase.from('households').delete().eq('id', id);
+
+                    if (error) {
+                        console.error('Failed to delete household:', error);
+                        toast.error('Failed to delete household');
+                        return false;
+                    }
+
+                    // Members cascade in the database
+                    set((state) => {
+                        state.households = state.households.filter((h) => h.id !== id);
+                        state.members = state.members.filter((m) => m.householdId !== id);
+                    });
+                    return true;
+                },
+
+                addMember: async (householdId, guestId, role) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase
+                        .from('household_members')
+                        .insert({ household_id: householdId, guest_id: guestId, role })
+                        .select()
+                        .single();
+
+                    if (error || !data) {
+                        console.error('Failed to add household member:', error);
+                        toast.error(error?.code === '23505' ? 'That guest already belongs to a household' : 'Failed to add household member');
+                        return false;
+                    }
+
+                    const member = mapHouseholdMemberRow(data) as HouseholdMember;
+                    set((state) => {
+                        state.members.push(member);
+                        if (role === 'head') {
+                            const household = state.households.find((h) => h.id === householdId);
+                            if (household) household.headGuestId = guestId;
+                        }
+                    });
+                    return true;
+                },
+
+                setMemberRole: async (memberId, role) => {
+                    const member = get().members.find((m) => m.id === memberId);
+                    if (!member || member.role === role) return true;
+                    const supabase = createClient();
+
+                    // One head per household: step the current head down first
+                    const currentHead = role === 'head'
+                        ? get().members.find((m) => m.householdId === member.householdId && m.role === 'head')
+                        : undefined;
+                    if (currentHead) {
+                        const { error } = await supabase
+                            .from('household_members')
+                            .update({ role: 'other' })
+                            .eq('id', currentHead.id);
+                        if (error) {
+                            console.error('Failed to change head of household:', error);
+                            toast.error('Failed to change head of household');
+                            return false;
+                        }
+                    }
+
+                    const { error } = await supabase
+                        .from('household_members')
+                        .update({ role })
+                        .eq('id', memberId);
+
+                    if (error) {
+                        console.error('Failed to update household member:', error);
+                        toast.error('Failed to update household member');
+                        if (!currentHead) return false;
+                        await supabase.from('household_members').update({ role: 'head' }).eq('id', currentHead.id);
+                        return false;
+                    }
+
+                    set((state) => {
+                        state.members.forEach((m) => {
+                            if (currentHead && m.id === currentHead.id) m.role = 'other';
+                            if (m.id === memberId) m.role = role;
+                        });
+                        const household = state.households.find((h) => h.id === member.householdId);
+                        if (!household) return;
+                        if (role === 'head') household.headGuestId = member.guestId;
+                        else if (household.headGuestId === member.guestId) household.headGuestId = null;
+                    });
+                    return true;
+                },
+
+                removeMember: async (memberId) => {
+                    const member = get().members.find((m) => m.id === memberId);
+                    if (!member) return true;
+
+                    const supabase = createClient();
+                    const { error } = await supabase.from('household_members').delete().eq('id', memberId);
+
+                    if (error) {
+                        console.error('Failed to remove household member:', error);
+                        toast.error('Failed to remove household member');
+                        return false;
+                    }
+
+                    set((state) => {
+                        state.members = state.members.filter((m) => m.id !== memberId);
+                        const household = state.households.find((h) => h.id === member.householdId);
+                        if (household?.headGuestId === member.guestId) household.headGuestId = null;
+                    });
+                    return true;
+                },
+
+                getHouseholdForGuest: (guestId) => {
+                    const { households, members } = get();
+                    const membership = members.find((m) => m.guestId === guestId);
+                    const household = membership && households.find((h) => h.id === membership.householdId);
+                    if (!household) return null;
+                    return {
+                        household,
+                        members: sortHouseholdMembers(members.filter((m) => m.householdId === household.id)),
+                    };
+                },
+
+                getHouseholdIdByGuest: () => new Map(get().members.map((m) => [m.guestId, m.householdId])),
+            })),
+            {
+                name: 'hopes-corner-households',
+                partialize: (state) => ({ households: state.households, members: state.members }),
+            }
+        ),
+        { name: 'HouseholdsStore' }
+    )
+);
@@ -0,0 +1,203 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapItemCatalogRow } from '@/lib/utils/mappers';
+import type { ItemCooldownPolicy } from '@/lib/utils/itemCooldown';
+import toast from 'react-hot-toast';
+
+export interface CatalogItem extends ItemCooldownPolicy {
+    key: string;
+    label: string;
+    icon: string;               // key into ITEM_ICONS
+    active: boolean;            // inactive items keep their cooldown but are not offered
+    sortOrder: number;
+    stockOnHand: number | null;    // null = stock is not tracked for this item
+    lowStockThreshold: number;
+}
+
+// Restocks and recounts entered by staff; distributions and undos are recorded by the database
+export type StockChangeReason = 'donation' | 'adjustment';
+
+export interface StockChange {
+    itemKey: string;
+    delta: number;
+    reason: StockChangeReason;
+    donor?: string;
+    note?: string;
+}
+
+// Used until the catalog loads (and offline); mirrors the item_catalog seed in database/schema.sql
+export const DEFAULT_ITEM_CATALOG: CatalogItem[] = [
+    { key: 'tshirt', label: 'T-Shirt', icon: 'shirt', cooldownType: 'weekly_reset', cooldownDays: null, resetWeekday: 1, monthlyLimit: null, active: true, sortOrder: 10, stockOnHand: null, lowStockThreshold: 5 },
+    { key: 'jacket', label: 'Jacket', icon: 'jacket', cooldownType: 'rolling_days', cooldownDays: 15, resetWeekday: null, monthlyLimit: null, active: true, sortOrder: 20, stockOnHand: null, lowStockThreshold: 5 },
+    { key: 'tent', label: 'Tent', icon: 'tent', cooldownType: 'rolling_days', cooldownDays: 30, resetWeekday: null, monthlyLimit: null, active: true, sortOrder: 30, stockOnHand: null, lowStockThreshold: 5 },
+    { key: 'sleeping_bag', label: 'Sleeping Bag', icon: 'package', cooldownType: 'rolling_days', cooldownDays: 30, resetWeekday: null, monthlyLimit: null, active: true, sortOrder: 40, stockOnHand: null, lowStockThreshold: 5 },
+    { key: 'backpack', label: 'Backpack', icon: 'package', cooldownType: 'rolling_days', cooldownDays: 30, resetWeekday: null, monthlyLimit: null, active: true, sortOrder: 50, stockOnHand: null, lowStockThreshold: 5 },
+    { key: 'flipflops', label: 'Flip Flops', icon: 'footprints', cooldownType: 'rolling_days', cooldownDays: 30, resetWeekday: null, monthlyLimit: null, active: true, sortOrder: 60, stockOnHand: null, lowStockThreshold: 5 },
+    { key: 'flip_flops', label: 'Flip Flops (legacy)', icon: 'footprints', cooldownType: 'rolling_days', cooldownDays: 30, resetWeekday: null, monthlyLimit: null, active: false, sortOrder: 61, stockOnHand: null, lowStockThreshold: 5 },
+    { key: 'shoes', label: 'Shoes', icon: 'footprints', cooldownType: 'rolling_days', cooldownDays: 30, resetWeekday: null, monthlyLimit: null, active: false, sortOrder: 70, stockOnHand: null, lowStockThreshold: 5 },
+    { key: 'blanket', label: 'Blanket', icon: 'package', cooldownType: 'rolling_days', cooldownDays: 30, resetWeekday: null, monthlyLimit: null, active: false, sortOrder: 80, stockOnHand: null, lowStockThreshold: 5 },
+];
+
+const sortItems = (items: CatalogItem[]) =>
+    [...items].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+
+const toRow = (item: CatalogItem) => ({
+    key: item.key,
+    label: item.label.trim(),
+    icon: item.icon,
+    cooldown_type: item.cooldownType,
+    cooldown_days: item.cooldownType === 'rolling_days' ? item.cooldownDays : null,
+    reset_weekday: item.cooldownType === 'weekly_reset' ? item.resetWeekday : null,
+    monthly_limit: item.cooldownType === 'monthly_cap' ? item.monthlyLimit : null,
+    active: item.active,
+    sort_order: item.sortOrder,
+    low_stock_threshold: item.lowStockThreshold,
+});
+
+// Turn a label into a catalog key, e.g. "Rain Poncho" -> "rain_poncho"
+export const toItemKey = (label: string) =>
+    label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+interface ItemCatalogState {
+    items: CatalogItem[];
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    saveItem: (item: CatalogItem) => Promise<boolean>;
+    recordStockChange: (change: StockChange) => Promise<boolean>;
+    applyStockChange: (itemKey: string, delta: number) => void;
+
+    getItem: (key: string) => CatalogItem | undefined;
+    getActiveItems: () => CatalogItem[];
+    getItemLabel: (key: string) => string;
+    getLowStockItems: () => CatalogItem[];
+}
+
+export const useItemCatalogStore = create<ItemCatalogState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                items: DEFAULT_ITEM_CATALOG,
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    const supabase = createClient();
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const { data, error } = await supabase
+                            .from('item_catalog')
+                            .select('*')
+                            .order('sort_order', { ascending: true });
+
+                        if (error) {
+                            console.error('Failed to load item catalog from Supabase:', error);
+                            return;
+                        }
+
+                        // An empty table means the migration has not been seeded; keep the defaults
+                        if (data && data.length > 0) {
+                            const mapped = sortItems(data.map(mapItemCatalogRow) as CatalogItem[]);
+                            set((state) => { state.items = mapped; });
+                        }
+                        set((state) => { state.isLoaded = true; });
+                    } catch (error) {
+                        console.error('Error loading item catalog:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                // Insert or update an item (optimistic, rolled back on failure)
+                saveItem: async (item) => {
+                    const supabase = createClient();
+                    const originalItems = get().items;
+
+                    set((state) => {
+                        state.items = sortItems([
+                            ...state.items.filter((i) => i.key !== item.key),
+                            item,
+                        ]);
+                    });
+
+                    const { error } = await supabase
+                        .from('item_catalog')
+                        .upsert(toRow(item), { onConflict: 'key' });
+
+                    if (error) {
+                        console.error('Failed to save catalog item:', error);
+                        set((state) => { state.items = originalItems; });
+                        toast.error('Failed to save item');
+                        return false;
+                    }
+
+                    return true;
+                },
+
+                // Record a restock or recount (optimistic, rolled back on failure)
+                recordStockChange: async ({ itemKey, delta, reason, donor, note }) => {
+                    if (!delta) return true;
+                    const supabase = createClient();
+                    const originalItems = get().items;
+
+                    set((state) => {
+                        const item = state.items.find((i) => i.key === itemKey);
+                        if (item) item.stockOnHand = (item.stockOnHand ?? 0) + delta;
+                    });
+
+                    const { error } = await supabase
+                        .from('item_stock_movements')
+                        .insert({
+                            item_key: itemKey,
+                            delta,
+                            reason,
+                            donor: donor?.trim() || null,
+                            note: note?.trim() || null,
+                        });
+
+                    if (error) {
+                        console.error('Failed to record stock change:', error);
+                        set((state) => { state.items = originalItems; });
+                        toast.error('Failed to update stock');
+                        return false;
+                    }
+
+                    return true;
+                },
+
+                // Mirror a stock movement the database already applied (distribution or undo)
+                applyStockChange: (itemKey, delta) => {
+                    set((state) => {
+                        const item = state.items.find((i) => i.key === itemKey);
+                        if (item && item.stockOnHand !== null) {
+                            item.stockOnHand = Math.max(0, item.stockOnHand + delta);
+                        }
+                    });
+                },
+
+                getItem: (key) => get().items.find((i) => i.key === key),
+
+                getActiveItems: () => get().items.filter((i) => i.active),
+
+                getItemLabel: (key) => get().getItem(key)?.label || key.replace(/_/g, ' '),
+
+                getLowStockItems: () =>
+                    get().items
+                        .filter((i) => i.active && i.stockOnHand !== null && i.stockOnHand <= i.lowStockThreshold)
+                        .sort((a, b) => (a.stockOnHand ?? 0) - (b.stockOnHand ?? 0)),
+            })),
+            {
+                name: 'hopes-corner-item-catalog',
+                partialize: (state) => ({ items: state.items }),
+            }
+        ),
+        { name: 'ItemCatalogStore' }
+    )
+);
@@ -5,6 +5,11 @@ import { persist, devtools } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import { createClient } from '@/lib/supabase/client';
 import { todayPacificDateString } from '@/lib/utils/date';
+import { getItemAvailability } from '@/lib/utils/itemCooldown';
+import { newClientId } from '@/lib/utils/offlineQueue';
+import { useItemCatalogStore } from './useItemCatalogStore';
+import { registerSyncRollback, useSyncQueueStore } from './useSyncQueueStore';
+import { siteIdForInsert } from './useSitesStore';
 
 export interface DistributedItem {
     id: string;
@@ -76,19 +81,20 @@ export const useItemsStore = create<ItemsState>()(
 
             giveItem: async (guestId: string, itemKey: string) => {
                 set({ isLoading: true, error: null });
-                const supabase = createClient();
                 const now = new Date().toISOString();
 
                 try {
-                    const { data, error } = await supabase
-                        .from('items_distributed')
-                        .insert({
+                    const { data, error } = await useSyncQueueStore.getState().insertOrQueue(
+                        'items_distributed',
+                        {
+                            id: newClientId(),
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             item_key: itemKey,
                             distributed_at: now
-                        })
-                        .select()
-                        .single();
+                        },
+                        'Item'
+                    );
 
                     if (error) throw error;
 
@@ -97,13 +103,15 @@ export const useItemsStore = create<ItemsState>()(
                         guestId: data.guest_id,
                         itemKey: data.item_key,
                         distributedAt: data.distributed_at,
-                        createdAt: data.created_at,
+                        createdAt: data.created_at || now,
                     };
 
                     set((state) => {
                         state.distributedItems.unshift(newItem);
                         state.isLoading = false;
                     });
+                    // The database trigger takes one out of stock (once the row syncs, if queued)
+                    useItemCatalogStore.getState().applyStockChange(itemKey, -1);
 
                     return newItem;
                 } catch (err: any) {
@@ -116,6 +124,7 @@ export const useItemsStore = create<ItemsState>()(
             undoItem: async (itemId: string) => {
                 set({ isLoading: true, error: null });
                 const supabase = createClient();
+                const undone = get().distributedItems.find((item) => item.id === itemId);
 
                 try {
                     const { error } = await supabase
@@ -131,6 +140,9 @@ export const useItemsStore = create<ItemsState>()(
                         );
                         state.isLoading = false;
                     });
+                    if (undone) {
+                        useItemCatalogStore.getState().applyStockChange(undone.itemKey, 1);
+                    }
 
                     return true;
                 } catch (err: any) {
@@ -151,61 +163,29 @@ export const useItemsStore = create<ItemsState>()(
             },
 
             checkAvailability: (guestId: string, itemKey: string) => {
-                const lastDate = get().getLastGivenDate(guestId, itemKey);
-
-                if (!lastDate) {
+                // Items missing from the catalog (socks, hygiene kits, ...) have no limit
+                const catalogItem = useItemCatalogStore.getState().getItem(itemKey);
+                if (!catalogItem) {
                     return { available: true };
                 }
 
-                // Logic ported from AppContext.jsx
-                const last = new Date(lastDate);
-                last.setHours(0, 0, 0, 0);
-
-                let nextAvailable: Date | null = null;
-                const now = new Date();
-                now.setHours(0, 0, 0, 0);
-
-                if (itemKey === 'tshirt') {
-                    // Weekly reset on Monday
-                    const day = last.getDay(); // 0 is Sunday
-                    // Calculate days until next Monday (1)
-                    // If today is Monday (1), days until next Mon is 7.
-                    let daysUntilNextMon = (8 - day) % 7;
-                    if (daysUntilNextMon === 0) daysUntilNextMon = 7;
-
-                    const next = new Date(last);
-                    next.setDate(last.getDate() + daysUntilNextMon);
-                    nextAvailable = next;
-                } else if (itemKey === 'jacket') {
-                    // 15 days cooldown for jackets
-                    const next = new Date(last);
-                    next.setDate(last.getDate() + 15);
-                    next.setHours(0, 0, 0, 0);
-                    nextAvailable = next;
-                } else if (['sleeping_bag', 'backpack', 'tent', 'flipflops', 'flip_flops', 'shoes', 'blanket'].includes(itemKey)) {
-                    // 30 days cooldown for big ticket items
-                    const next = new Date(last);
-                    next.setDate(last.getDate() + 30);
-                    next.setHours(0, 0, 0, 0);
-                    nextAvailable = next;
-                } else {
-                    // Default to always available for other items (socks, hygiene kits, etc.)
-                    // Or implement daily limit? Old app didn't specify others.
-                    // Assuming others are daily or unlimited. 
-                    // Let's assume unlimited/daily for now unless specified.
-                    // Actually, if it's not in the list, old app returned null availability date which meant "return true" (available).
-                    return { available: true };
-                }
-
-                if (nextAvailable && now < nextAvailable) {
-                    const diffTime = Math.abs(nextAvailable.getTime() - now.getTime());
-                    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-                    return { available: false, nextAvailable, daysRemaining: diffDays };
-                }
+                const history = get().distributedItems
+                    .filter(i => i.guestId === guestId && i.itemKey === itemKey)
+                    .map(i => new Date(i.distributedAt));
 
-                return { available: true };
+                return getItemAvailability(catalogItem, history);
             }
         })),
         { name: 'ItemsStore' }
     )
 );
+
+// Put back an item given offline whose record was rejected when replayed
+registerSyncRollback('items_distributed', (id) => {
+    const item = useItemsStore.getState().distributedItems.find((i) => i.id === id);
+    if (!item) return;
+    useItemsStore.setState((state) => {
+        state.distributedItems = state.distributedItems.filter((i) => i.id !== id);
+    });
+    useItemCatalogStore.getState().applyStockChange(item.itemKey, 1);
+});
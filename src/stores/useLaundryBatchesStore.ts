@@ -0,0 +1,198 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapLaundryBatchRow } from '@/lib/utils/mappers';
+import type { LaundryBatch } from '@/lib/utils/laundryBatches';
+import { useServicesStore } from './useServicesStore';
+import toast from 'react-hot-toast';
+
+const byNewest = (a: LaundryBatch, b: LaundryBatch) =>
+    b.serviceDate.localeCompare(a.serviceDate) || (b.createdAt || '').localeCompare(a.createdAt || '');
+
+// Reflect a batch change on the loaded bookings until realtime catches up
+const patchBookings = (
+    match: (record: { id: string; status: string; batchId?: string | null }) => boolean,
+    changes: { status?: string; batchId?: string | null }
+) => {
+    useServicesStore.setState((state) => {
+        state.laundryRecords.forEach((record) => {
+            if (match(record)) Object.assign(record, changes);
+        });
+    });
+};
+
+interface LaundryBatchesState {
+    batches: LaundryBatch[];
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    createBatch: (serviceDate: string, vendor: string, bookingIds: string[]) => Promise<LaundryBatch | null>;
+    markTransported: (batchId: string) => Promise<boolean>;
+    markReturned: (batchId: string, returnedIds: string[]) => Promise<boolean>;
+    deleteBatch: (batchId: string) => Promise<boolean>;
+
+    getBatchesForDate: (serviceDate: string) => LaundryBatch[];
+}
+
+export const useLaundryBatchesStore = create<LaundryBatchesState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                batches: [],
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('laundry_batches')
+                            .select('*')
+                            .order('service_date', { ascending: false })
+                            .limit(200);
+
+                        if (error) {
+                            console.error('Failed to load laundry batches from Supabase:', error);
+                            return;
+                        }
+
+                        const mapped = (data || []).map(mapLaundryBatchRow) as LaundryBatch[];
+                        set((state) => {
+                            state.batches = mapped.sort(byNewest);
+                            state.isLoaded = true;
+                        });
+                    } catch (error) {
+                        console.error('Error loading laundry batches:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                // Create a run and attach the bookings; the run is removed again if they cannot be attached
+                createBatch: async (serviceDate, vendor, bookingIds) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase
+                        .from('laundry_batches')
+                        .insert({ service_date: serviceDate, vendor: vendor.trim() })
+                        .select()
+                        .single();
+
+                    if (error || !data) {
+                        console.error('Failed to create laundry batch:', error);
+                        toast.error('Failed to create batch');
+                        return null;
+                    }
+
+                    const batch = mapLaundryBatchRow(data) as LaundryBatch;
+                    const { error: assignError } = await supabase
+                        .from('laundry_bookings')
+                        .update({ batch_id: batch.id })
+                        .in('id', bookingIds);
+
+                    if (assignError) {
+                        console.error('Failed to add bags to laundry batch:', assignError);
+                        await supabase.from('laundry_batches').delete().eq('id', batch.id);
+                        toast.error('Failed to add bags to batch');
+                        return null;
+                    }
+
+                    set((state) => {
+                        state.batches = [batch, ...state.batches].sort(byNewest);
+                    });
+                    patchBookings((r) => bookingIds.includes(r.id), { batchId: batch.id });
+                    return batch;
+                },
+
+                markTransported: async (batchId) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase.rpc('advance_laundry_batch', {
+                        p_batch_id: batchId,
+                        p_status: 'transported',
+                    });
+
+                    if (error || !data) {
+                        console.error('Failed to mark laundry batch transported:', error);
+                        toast.error('Failed to mark batch transported');
+                        return false;
+                    }
+
+                    const updated = mapLaundryBatchRow(data) as LaundryBatch;
+                    set((state) => {
+                        state.batches = state.batches.map((b) => (b.id === batchId ? updated : b));
+                    });
+                    patchBookings(
+                        (r) => r.batchId === batchId && (r.status === 'pending' || r.status === 'waiting'),
+                        { status: 'transported' }
+                    );
+                    return true;
+                },
+
+                // Bags left out of returnedIds stay transported and show as missing
+                markReturned: async (batchId, returnedIds) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase.rpc('advance_laundry_batch', {
+                        p_batch_id: batchId,
+                        p_status: 'returned',
+                        p_returned_ids: returnedIds,
+                    });
+
+                    if (error || !data) {
+                        console.error('Failed to mark laundry batch returned:', error);
+                        toast.error('Failed to mark batch returned');
+                        return false;
+                    }
+
+                    const updated = mapLaundryBatchRow(data) as LaundryBatch;
+                    set((state) => {
+                        state.batches = state.batches.map((b) => (b.id === batchId ? updated : b));
+                    });
+                    patchBookings(
+                        (r) => r.batchId === batchId && r.status === 'transported' && returnedIds.includes(r.id),
+                        { status: 'returned' }
+                    );
+                    return true;
+                },
+
+                // Only open runs can be removed; their bags go back to unbatched
+                deleteBatch: async (batchId) => {
+                    const supabase = createClient();
+                    const originalBatches = get().batches;
+
+                    set((state) => {
+                        state.batches = state.batches.filter((b) => b.id !== batchId);
+                    });
+
+                    const { error } = await supabase
+                        .from('laundry_batches')
+                        .delete()
+                        .eq('id', batchId)
+                        .eq('status', 'open');
+
+                    if (error) {
+                        console.error('Failed to delete laundry batch:', error);
+                        set((state) => { state.batches = originalBatches; });
+                        toast.error('Failed to delete batch');
+                        return false;
+                    }
+
+                    patchBookings((r) => r.batchId === batchId, { batchId: null });
+                    return true;
+                },
+
+                getBatchesForDate: (serviceDate) => get().batches.filter((b) => b.serviceDate === serviceDate),
+            })),
+            {
+                name: 'hopes-corner-laundry-batches',
+                partialize: (state) => ({ batches: state.batches }),
+            }
+        ),
+        { name: 'LaundryBatchesStore' }
+    )
+);
@@ -0,0 +1,102 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapLaundryMachineRow } from '@/lib/utils/mappers';
+import { sortMachines, type LaundryMachine, type LaundryMachineKind } from '@/lib/utils/laundryMachines';
+import toast from 'react-hot-toast';
+
+const toRow = (machine: LaundryMachine) => ({
+    id: machine.id,
+    kind: machine.kind,
+    number: machine.number,
+    cycle_minutes: machine.cycleMinutes,
+    out_of_service: machine.outOfService,
+    note: machine.note?.trim() || null,
+});
+
+interface LaundryMachinesState {
+    machines: LaundryMachine[];
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    saveMachine: (machine: LaundryMachine) => Promise<boolean>;
+
+    getAvailableMachines: (kind: LaundryMachineKind) => LaundryMachine[];
+}
+
+export const useLaundryMachinesStore = create<LaundryMachinesState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                machines: [],
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('laundry_machines')
+                            .select('*')
+                            .order('number', { ascending: true });
+
+                        if (error) {
+                            console.error('Failed to load laundry machines from Supabase:', error);
+                            return;
+                        }
+
+                        const mapped = sortMachines((data || []).map(mapLaundryMachineRow) as LaundryMachine[]);
+                        set((state) => {
+                            state.machines = mapped;
+                            state.isLoaded = true;
+                        });
+                    } catch (error) {
+                        console.error('Error loading laundry machines:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                // Insert or update a machine (optimistic, rolled back on failure)
+                saveMachine: async (machine) => {
+                    const supabase = createClient();
+                    const originalMachines = get().machines;
+
+                    set((state) => {
+                        state.machines = sortMachines([
+                            ...state.machines.filter((m) => m.id !== machine.id),
+                            machine,
+                        ]);
+                    });
+
+                    const { error } = await supabase
+                        .from('laundry_machines')
+                        .upsert(toRow(machine), { onConflict: 'id' });
+
+                    if (error) {
+                        console.error('Failed to save laundry machine:', error);
+                        set((state) => { state.machines = originalMachines; });
+                        toast.error(error.code === '23505' ? 'That machine number is already taken' : 'Failed to save machine');
+                        return false;
+                    }
+
+                    return true;
+                },
+
+                getAvailableMachines: (kind) => get().machines.filter((m) => m.kind === kind && !m.outOfService),
+            })),
+            {
+                name: 'hopes-corner-laundry-machines',
+                partialize: (state) => ({ machines: state.machines }),
+            }
+        ),
+        { name: 'LaundryMachinesStore' }
+    )
+);
@@ -14,7 +14,11 @@ import {
     mapHaircutRow,
 } from '@/lib/utils/mappers';
 import { todayPacificDateString, pacificDateStringFrom, parsePacificDateParts } from '@/lib/utils/date';
+import { newClientId } from '@/lib/utils/offlineQueue';
 import { MAX_BASE_MEALS_PER_DAY, MAX_EXTRA_MEALS_PER_DAY, MAX_TOTAL_MEALS_PER_DAY } from '@/lib/constants/constants';
+import { registerSyncRollback, useSyncQueueStore } from './useSyncQueueStore';
+import { useHouseholdsStore } from './useHouseholdsStore';
+import { siteIdForInsert } from './useSitesStore';
 
 const OPERATIONAL_WINDOW_DAYS = 45;
 
@@ -27,6 +31,7 @@ const getOperationalSince = () => {
 export interface MealRecord {
     id: string;
     guestId: string;
+    siteId?: string | null;
     pickedUpByGuestId?: string | null;
     pickedUpByProxyId?: string | null;
     count: number;
@@ -42,6 +47,7 @@ export interface MealRecord {
 interface HolidayRecord {
     id: string;
     guestId: string;
+    siteId?: string | null;
     date: string;
     dateKey?: string;
     type: 'holiday';
@@ -50,6 +56,7 @@ interface HolidayRecord {
 interface HaircutRecord {
     id: string;
     guestId: string;
+    siteId?: string | null;
     date: string;
     dateKey?: string;
     type: 'haircut';
@@ -91,6 +98,7 @@ interface MealsState {
 
     /** Returns today's base meal count, extra meal count, and total for a specific guest. */
     getTodayMealCountsForGuest: (guestId: string, serviceDate?: string) => { baseMeals: number; extraMeals: number; totalMeals: number };
+    getHouseholdMealUsage: (guestId: string, serviceDate?: string) => { used: number; allowance: number } | null;
 
     ensureLoaded: (options?: { force?: boolean; since?: string }) => Promise<void>;
     loadFromSupabase: () => Promise<void>;
@@ -149,6 +157,19 @@ export const useMealsStore = create<MealsState>()(
                         return { baseMeals, extraMeals, totalMeals: baseMeals + extraMeals };
                     },
 
+                    // Base meals today across the guest's household, when it has a combined allowance
+                    getHouseholdMealUsage: (guestId: string, serviceDate?: string) => {
+                        const membership = useHouseholdsStore.getState().getHouseholdForGuest(guestId);
+                        const allowance = membership?.household.mealAllowance;
+                        if (!membership || !allowance) return null;
+
+                        const used = membership.members.reduce(
+                            (sum, m) => sum + get().getTodayMealCountsForGuest(m.guestId, serviceDate).baseMeals,
+                            0
+                        );
+                        return { used, allowance };
+                    },
+
                     // Meal Actions
                     addMealRecord: async (guestId: string, quantity = 1, pickedUpByGuestId: string | null = null, serviceDate?: string) => {
                         if (!guestId) throw new Error('Guest ID is required');
@@ -163,28 +184,30 @@ export const useMealsStore = create<MealsState>()(
                         if (totalMeals + quantity > MAX_TOTAL_MEALS_PER_DAY) {
                             throw new Error(`Guest already has ${totalMeals} total meal${totalMeals !== 1 ? 's' : ''} today (max ${MAX_TOTAL_MEALS_PER_DAY})`);
                         }
-                        const supabase = createClient();
-
-                        const payload: any = {
+                        const householdMeals = get().getHouseholdMealUsage(guestId, targetDate);
+                        if (householdMeals && householdMeals.used + quantity > householdMeals.allowance) {
+                            throw new Error(`Household already has ${householdMeals.used} meal${householdMeals.used !== 1 ? 's' : ''} today (allowance ${householdMeals.allowance})`);
+                        }
+                        const payload = {
+                            id: newClientId(),
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             quantity,
                             served_on: targetDate,
                             recorded_at: new Date().toISOString(),
                             picked_up_by_guest_id: pickedUpByGuestId || null,
                         };
 
-                        const { data, error } = await supabase
-                            .from('meal_attendance')
-                            .insert(payload)
-                            .select()
-                            .single();
+                        const { data, error } = await useSyncQueueStore.getState()
+                            .insertOrQueue('meal_attendance', payload, 'Meal');
 
                         if (error) {
                             console.error('Failed to add meal record to Supabase:', error);
-                            throw new Error('Unable to save meal record');
+                            // The database holds households to their allowance even when this device hasn't loaded them
+                            throw new Error(error.code === 'P0001' ? error.message : 'Unable to save meal record');
                         }
 
-                        const mapped = mapMealRow(data);
+                        const mapped = mapMealRow({ meal_type: 'guest', ...data });
                         set((state) => {
                             state.mealRecords.push(mapped);
                         });
@@ -244,6 +267,7 @@ export const useMealsStore = create<MealsState>()(
 
                         const payload = {
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             quantity,
                             served_on: todayStr,
                             meal_type: 'rv',
@@ -297,21 +321,18 @@ export const useMealsStore = create<MealsState>()(
                             throw new Error(`Guest has reached the daily meal limit of ${MAX_TOTAL_MEALS_PER_DAY}`);
                         }
 
-                        const supabase = createClient();
-
                         const payload = {
+                            id: newClientId(),
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             quantity,
                             served_on: todayStr,
                             meal_type: 'extra',
                             recorded_at: new Date().toISOString(),
                         };
 
-                        const { data, error } = await supabase
-                            .from('meal_attendance')
-                            .insert(payload)
-                            .select()
-                            .single();
+                        const { data, error } = await useSyncQueueStore.getState()
+                            .insertOrQueue('meal_attendance', payload, 'Extra meal');
 
                         if (error) {
                             console.error('Failed to add Extra meal record:', error);
@@ -338,13 +359,14 @@ export const useMealsStore = create<MealsState>()(
 
                     // Bulk Meal Actions (Day Worker, Shelter, Lunch Bags, United Effort)
                     addBulkMealRecord: async (mealType: string, quantity: number, label?: string, deduplicationKey?: string, date?: string) => {
-                        const supabase = createClient();
                         const targetDate = date || todayPacificDateString();
 
                         // For bulk entries, we use a system/placeholder guest_id or null if schema allows
                         // Using a special 'system' entry approach with null guest_id
                         const payload = {
+                            id: newClientId(),
                             guest_id: null, // Bulk entries don't have a specific guest
+                            site_id: siteIdForInsert(),
                             quantity,
                             served_on: targetDate,
                             meal_type: mealType,
@@ -353,11 +375,8 @@ export const useMealsStore = create<MealsState>()(
                             deduplication_key: deduplicationKey || null,
                         };
 
-                        const { data, error } = await supabase
-                            .from('meal_attendance')
-                            .insert(payload)
-                            .select()
-                            .single();
+                        const { data, error } = await useSyncQueueStore.getState()
+                            .insertOrQueue('meal_attendance', payload, label || 'Meal entry');
 
                         if (error) {
                             // If unique violation (duplicate key), just ignore/return null (idempotent)
@@ -430,6 +449,7 @@ export const useMealsStore = create<MealsState>()(
 
                         const payload = {
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             served_at: new Date().toISOString(),
                         };
 
@@ -482,6 +502,7 @@ export const useMealsStore = create<MealsState>()(
 
                         const payload = {
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             served_at: new Date().toISOString(),
                         };
 
@@ -575,31 +596,20 @@ export const useMealsStore = create<MealsState>()(
 
                     // Automation
                     checkAndAddAutomaticMeals: async () => {
-                        const today = new Date();
-                        const dayOfWeek = today.getDay(); // 0=Sun, 1=Mon, ..., 6=Sat
-                        const todayStr = todayPacificDateString();
-                        const { rvMealRecords, dayWorkerMealRecords, lunchBagRecords, addBulkMealRecord } = get();
-
-                        const todaysRv = rvMealRecords.filter(r => pacificDateStringFrom(r.date) === todayStr);
-                        const todaysDayWorker = dayWorkerMealRecords.filter(r => pacificDateStringFrom(r.date) === todayStr);
-                        const todaysLunchBags = lunchBagRecords.filter(r => pacificDateStringFrom(r.date) === todayStr);
-
-                        // Schedule Logic (from older app's automaticMealEntries.js)
-                        // Mon (1): 100 RV
-                        // Wed (3): 40 RV
-                        // Thu (4): 100 RV
-                        // Sat (6): 100 Lunch Bags, 100 RV, 50 Day Worker
-
-                        if (dayOfWeek === 1) { // Mon
-                            if (todaysRv.length === 0) await addBulkMealRecord('rv', 100, 'Automatic Entry (Mon)', `rv_${todayStr}`);
-                        } else if (dayOfWeek === 3) { // Wed
-                            if (todaysRv.length === 0) await addBulkMealRecord('rv', 40, 'Automatic Entry (Wed)', `rv_${todayStr}`);
-                        } else if (dayOfWeek === 4) { // Thu
-                            if (todaysRv.length === 0) await addBulkMealRecord('rv', 100, 'Automatic Entry (Thu)', `rv_${todayStr}`);
-                        } else if (dayOfWeek === 6) { // Sat
-                            if (todaysLunchBags.length === 0) await addBulkMealRecord('lunch_bag', 100, 'Automatic Entry (Sat)', `lunch_bag_${todayStr}`);
-                            if (todaysRv.length === 0) await addBulkMealRecord('rv', 100, 'Automatic Entry (Sat)', `rv_${todayStr}`);
-                            if (todaysDayWorker.length === 0) await addBulkMealRecord('day_worker', 50, 'Automatic Entry (Sat)', `day_worker_${todayStr}`);
+                        // Rules live in automatic_meal_rules; the database records whatever is
+                        // due (including days nobody opened the app) and skips closed days
+                        try {
+                            const supabase = createClient();
+                            const { data, error } = await supabase.rpc('record_automatic_meals');
+
+                            if (error) {
+                                console.error('Failed to record automatic meals:', error);
+                                return;
+                            }
+
+                            if (Number(data) > 0) await get().ensureLoaded({ force: true });
+                        } catch (error) {
+                            console.error('Error recording automatic meals:', error);
                         }
                     },
 
@@ -696,3 +706,16 @@ export const useMealsStore = create<MealsState>()(
         { name: 'MealsStore' }
     )
 );
+
+// Drop a meal that was recorded offline but rejected when replayed
+registerSyncRollback('meal_attendance', (id) => {
+    useMealsStore.setState((state) => {
+        state.mealRecords = state.mealRecords.filter((r) => r.id !== id);
+        state.extraMealRecords = state.extraMealRecords.filter((r) => r.id !== id);
+        state.rvMealRecords = state.rvMealRecords.filter((r) => r.id !== id);
+        state.dayWorkerMealRecords = state.dayWorkerMealRecords.filter((r) => r.id !== id);
+        state.shelterMealRecords = state.shelterMealRecords.filter((r) => r.id !== id);
+        state.unitedEffortMealRecords = state.unitedEffortMealRecords.filter((r) => r.id !== id);
+        state.lunchBagRecords = state.lunchBagRecords.filter((r) => r.id !== id);
+    });
+});
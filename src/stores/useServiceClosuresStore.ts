@@ -0,0 +1,113 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapServiceClosureRow } from '@/lib/utils/mappers';
+import type { ServiceClosure } from '@/lib/utils/serviceClosures';
+import type { ScheduledService } from '@/lib/utils/serviceSchedule';
+import toast from 'react-hot-toast';
+
+export interface NewClosure {
+    dates: string[];                   // YYYY-MM-DD, one row per day
+    service: ScheduledService | null;  // null closes every service
+    reason: string;
+}
+
+const byDate = (a: ServiceClosure, b: ServiceClosure) =>
+    a.closedOn.localeCompare(b.closedOn) || (a.service || '').localeCompare(b.service || '');
+
+interface ServiceClosuresState {
+    closures: ServiceClosure[];
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    addClosures: (closure: NewClosure) => Promise<boolean>;
+    removeClosure: (id: string) => Promise<boolean>;
+}
+
+export const useServiceClosuresStore = create<ServiceClosuresState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                closures: [],
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('service_closures')
+                            .select('*')
+                            .order('closed_on', { ascending: true });
+
+                        if (error) {
+                            console.error('Failed to load service closures from Supabase:', error);
+                            return;
+                        }
+
+                        const mapped = (data || []).map(mapServiceClosureRow) as ServiceClosure[];
+                        set((state) => {
+                            state.closures = mapped;
+                            state.isLoaded = true;
+                        });
+                    } catch (error) {
+                        console.error('Error loading service closures:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                addClosures: async ({ dates, service, reason }) => {
+                    const supabase = createClient();
+                    const { data, error } = await supabase
+                        .from('service_closures')
+                        .insert(dates.map((closedOn) => ({ closed_on: closedOn, service, reason: reason.trim() })))
+                        .select();
+
+                    if (error) {
+                        console.error('Failed to add closure:', error);
+                        toast.error(error.code === '23505' ? 'That day is already closed' : 'Failed to add closure');
+                        return false;
+                    }
+
+                    const added = (data || []).map(mapServiceClosureRow) as ServiceClosure[];
+                    set((state) => {
+                        state.closures = [...state.closures, ...added].sort(byDate);
+                    });
+                    return true;
+                },
+
+                removeClosure: async (id) => {
+                    const supabase = createClient();
+                    const originalClosures = get().closures;
+
+                    set((state) => {
+                        state.closures = state.closures.filter((c) => c.id !== id);
+                    });
+
+                    const { error } = await supabase.from('service_closures').delete().eq('id', id);
+
+                    if (error) {
+                        console.error('Failed to remove closure:', error);
+                        set((state) => { state.closures = originalClosures; });
+                        toast.error('Failed to remove closure');
+                        return false;
+                    }
+                    return true;
+                },
+            })),
+            {
+                name: 'hopes-corner-service-closures',
+                partialize: (state) => ({ closures: state.closures }),
+            }
+        ),
+        { name: 'ServiceClosuresStore' }
+    )
+);
@@ -0,0 +1,154 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapServiceScheduleRow } from '@/lib/utils/mappers';
+import {
+    DEFAULT_SERVICE_SCHEDULE,
+    type ScheduledService,
+    type ServiceScheduleEntry,
+} from '@/lib/utils/serviceSchedule';
+import toast from 'react-hot-toast';
+
+const toRow = (entry: ServiceScheduleEntry) => ({
+    site_id: entry.siteId || null,
+    service: entry.service,
+    weekday: entry.weekday,
+    starts_on: entry.startsOn,
+    ends_on: entry.endsOn,
+    season_label: entry.seasonLabel?.trim() || null,
+    is_open: entry.isOpen,
+    start_time: entry.startTime,
+    end_time: entry.endTime,
+    slot_minutes: entry.slotMinutes,
+    slot_duration_minutes: entry.slotDurationMinutes,
+    slot_capacity: entry.slotCapacity,
+    custom_slots: entry.customSlots.length > 0 ? entry.customSlots : null,
+});
+
+const sameDay = (a: ServiceScheduleEntry, b: ServiceScheduleEntry) =>
+    a.service === b.service && a.weekday === b.weekday && a.startsOn === b.startsOn &&
+    (a.siteId || null) === (b.siteId || null);
+
+interface ServiceScheduleState {
+    entries: ServiceScheduleEntry[];
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    saveEntries: (entries: ServiceScheduleEntry[]) => Promise<boolean>;
+    // Deletes the season rows owned by siteId (null for the shared schedule)
+    deleteSeason: (service: ScheduledService, startsOn: string, siteId?: string | null) => Promise<boolean>;
+}
+
+export const useServiceScheduleStore = create<ServiceScheduleState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                entries: DEFAULT_SERVICE_SCHEDULE,
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('service_schedule')
+                            .select('*')
+                            .order('service', { ascending: true })
+                            .order('weekday', { ascending: true });
+
+                        if (error) {
+                            console.error('Failed to load service schedule from Supabase:', error);
+                            return;
+                        }
+
+                        // An empty table means the migration has not been seeded; keep the defaults
+                        if (data && data.length > 0) {
+                            const mapped = data.map(mapServiceScheduleRow) as ServiceScheduleEntry[];
+                            set((state) => { state.entries = mapped; });
+                        }
+                        set((state) => { state.isLoaded = true; });
+                    } catch (error) {
+                        console.error('Error loading service schedule:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                // Insert or update whole days (optimistic, rolled back on failure)
+                saveEntries: async (entries) => {
+                    const supabase = createClient();
+                    const originalEntries = get().entries;
+
+                    set((state) => {
+                        state.entries = [
+                            ...state.entries.filter((existing) => !entries.some((e) => sameDay(existing, e))),
+                            ...entries,
+                        ];
+                    });
+
+                    const { data, error } = await supabase
+                        .from('service_schedule')
+                        .upsert(entries.map(toRow), { onConflict: 'site_id,service,weekday,starts_on' })
+                        .select();
+
+                    if (error) {
+                        console.error('Failed to save service schedule:', error);
+                        set((state) => { state.entries = originalEntries; });
+                        toast.error('Failed to save schedule');
+                        return false;
+                    }
+
+                    // Pick up ids assigned to new season rows
+                    const saved = (data || []).map(mapServiceScheduleRow) as ServiceScheduleEntry[];
+                    if (saved.length > 0) {
+                        set((state) => {
+                            state.entries = [
+                                ...state.entries.filter((existing) => !saved.some((e) => sameDay(existing, e))),
+                                ...saved,
+                            ];
+                        });
+                    }
+                    return true;
+                },
+
+                deleteSeason: async (service, startsOn, siteId = null) => {
+                    const supabase = createClient();
+                    const originalEntries = get().entries;
+
+                    set((state) => {
+                        state.entries = state.entries.filter(
+                            (e) => !(e.service === service && e.startsOn === startsOn && (e.siteId || null) === siteId)
+                        );
+                    });
+
+                    const query = supabase
+                        .from('service_schedule')
+                        .delete()
+                        .eq('service', service)
+                        .eq('starts_on', startsOn);
+                    const { error } = await (siteId ? query.eq('site_id', siteId) : query.is('site_id', null));
+
+                    if (error) {
+                        console.error('Failed to delete season:', error);
+                        set((state) => { state.entries = originalEntries; });
+                        toast.error('Failed to delete season');
+                        return false;
+                    }
+                    return true;
+                },
+            })),
+            {
+                name: 'hopes-corner-service-schedule',
+                partialize: (state) => ({ entries: state.entries }),
+            }
+        ),
+        { name: 'ServiceScheduleStore' }
+    )
+);
@@ -17,6 +17,11 @@ import {
     mapShowerStatusToDb,
 } from '@/lib/utils/mappers';
 import { todayPacificDateString, pacificDateStringFrom } from '@/lib/utils/date';
+import { newClientId } from '@/lib/utils/offlineQueue';
+import { partsToRow, type BicycleRepairPart } from '@/lib/utils/bicycleRepairs';
+import { nextWaitlistPosition } from '@/lib/utils/waitlistPromotions';
+import { registerSyncRollback, useSyncQueueStore } from './useSyncQueueStore';
+import { siteIdForInsert } from './useSitesStore';
 
 const OPERATIONAL_WINDOW_DAYS = 45;
 
@@ -29,18 +34,27 @@ const getOperationalSince = () => {
 interface ShowerRecord {
     id: string;
     guestId: string;
+    siteId?: string | null;
     time?: string | null;
     scheduledFor?: string | null;
     date: string;
     dateKey?: string;
     status: string;
+    stallNumber?: number | null;
+    startedAt?: string | null;
+    finishedAt?: string | null;
+    stallCleanedAt?: string | null;
+    waitlistPosition?: number | null;
     createdAt?: string;
     lastUpdated?: string;
 }
 
+export type ShowerStallUpdate = Partial<Pick<ShowerRecord, 'status' | 'stallNumber' | 'startedAt' | 'finishedAt' | 'stallCleanedAt'>>;
+
 interface LaundryRecord {
     id: string;
     guestId: string;
+    siteId?: string | null;
     time?: string | null;
     laundryType?: string;
     washType?: string; // App-side compatibility
@@ -49,6 +63,10 @@ interface LaundryRecord {
     date: string;
     dateKey?: string;
     status: string;
+    batchId?: string | null;
+    machineId?: string | null;
+    cycleStartedAt?: string | null;
+    waitlistPosition?: number | null;
     createdAt?: string;
     lastUpdated?: string;
 }
@@ -56,6 +74,7 @@ interface LaundryRecord {
 interface BicycleRecord {
     id: string;
     guestId: string;
+    siteId?: string | null;
     date: string;
     dateKey?: string;
     type: string;
@@ -69,11 +88,15 @@ interface BicycleRecord {
     lastUpdated?: string;
     returnedAt?: string | null;
     createdAt?: string;
+    parts: BicycleRepairPart[];
+    mechanicName: string | null;
+    laborMinutes: number | null;
 }
 
 interface HaircutRecord {
     id: string;
     guestId: string;
+    siteId?: string | null;
     date: string;
     dateKey?: string;
     type: string;
@@ -83,6 +106,7 @@ interface HaircutRecord {
 interface HolidayRecord {
     id: string;
     guestId: string;
+    siteId?: string | null;
     date: string;
     dateKey?: string;
     type: string;
@@ -105,9 +129,11 @@ interface ServicesState {
     addLaundryRecord: (guestId: string, washType: string, slotLabel?: string, bagNumber?: string, serviceDate?: string, initialStatus?: string) => Promise<LaundryRecord | Partial<LaundryRecord>>;
     addLaundryWaitlist: (guestId: string, serviceDate?: string) => Promise<LaundryRecord | Partial<LaundryRecord>>;
     deleteLaundryRecord: (recordId: string) => Promise<void>;
-    updateLaundryStatus: (recordId: string, status: string) => Promise<boolean>;
+    updateLaundryStatus: (recordId: string, status: string, machineId?: string | null) => Promise<boolean>;
     updateLaundryBagNumber: (recordId: string, bagNumber: string) => Promise<boolean>;
+    assignLaundryBagNumber: (recordId: string) => Promise<string | null>;
     updateShowerStatus: (recordId: string, status: string) => Promise<boolean>;
+    updateShowerStall: (recordId: string, updates: ShowerStallUpdate) => Promise<boolean>;
     cancelMultipleShowers: (recordIds: string[]) => Promise<boolean>;
     cancelMultipleLaundry: (recordIds: string[]) => Promise<boolean>;
     addBicycleRecord: (guestId: string, repairOptions?: any) => Promise<BicycleRecord | Partial<BicycleRecord>>;
@@ -147,20 +173,18 @@ export const useServicesStore = create<ServicesState>()(
                     addShowerRecord: async (guestId: string, time: string | null = null, serviceDate?: string, initialStatus: 'booked' | 'done' = 'booked') => {
                         if (!guestId) throw new Error('Guest ID is required');
                         const targetDate = serviceDate || todayPacificDateString();
-                        const supabase = createClient();
 
                         const payload = {
+                            id: newClientId(),
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             scheduled_for: targetDate,
                             scheduled_time: time,
                             status: initialStatus,
                         };
 
-                        const { data, error } = await supabase
-                            .from('shower_reservations')
-                            .insert(payload)
-                            .select()
-                            .single();
+                        const { data, error } = await useSyncQueueStore.getState()
+                            .insertOrQueue('shower_reservations', payload, 'Shower');
 
                         if (error) {
                             console.error('Failed to add shower record to Supabase:', error);
@@ -181,8 +205,10 @@ export const useServicesStore = create<ServicesState>()(
 
                         const payload = {
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             scheduled_for: targetDate,
                             status: 'waitlisted',
+                            waitlist_position: nextWaitlistPosition(get().showerRecords, targetDate),
                         };
 
                         const { data, error } = await supabase
@@ -232,10 +258,11 @@ export const useServicesStore = create<ServicesState>()(
                         if (!washType) throw new Error('Wash type is required');
 
                         const targetDate = serviceDate || todayPacificDateString();
-                        const supabase = createClient();
 
                         const payload = {
+                            id: newClientId(),
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             laundry_type: washType.toLowerCase(),
                             slot_label: slotLabel,
                             bag_number: bagNumber,
@@ -243,11 +270,8 @@ export const useServicesStore = create<ServicesState>()(
                             status: initialStatus || (washType.toLowerCase() === 'offsite' ? 'pending' : 'waiting'),
                         };
 
-                        const { data, error } = await supabase
-                            .from('laundry_bookings')
-                            .insert(payload)
-                            .select()
-                            .single();
+                        const { data, error } = await useSyncQueueStore.getState()
+                            .insertOrQueue('laundry_bookings', payload, 'Laundry');
 
                         if (error) {
                             console.error('Failed to add laundry record to Supabase:', error);
@@ -268,8 +292,12 @@ export const useServicesStore = create<ServicesState>()(
 
                         const payload = {
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             scheduled_for: targetDate,
+                            // Waitlisted guests wait for an onsite slot, which they get on promotion
+                            laundry_type: 'onsite',
                             status: 'waitlisted',
+                            waitlist_position: nextWaitlistPosition(get().laundryRecords, targetDate),
                         };
 
                         const { data, error } = await supabase
@@ -313,22 +341,31 @@ export const useServicesStore = create<ServicesState>()(
                         }
                     },
 
-                    updateLaundryStatus: async (recordId: string, status: string) => {
+                    // Passing a machine (or null for none) also restarts the cycle clock
+                    updateLaundryStatus: async (recordId: string, status: string, machineId?: string | null) => {
                         const { laundryRecords } = get();
                         const target = laundryRecords.find((r) => r.id === recordId);
                         if (!target) return false;
 
+                        const machineChanges = machineId === undefined ? null : {
+                            machineId,
+                            cycleStartedAt: machineId ? new Date().toISOString() : null,
+                        };
+
                         set((state) => {
                             const index = state.laundryRecords.findIndex((r) => r.id === recordId);
                             if (index !== -1) {
                                 state.laundryRecords[index].status = status;
+                                if (machineChanges) Object.assign(state.laundryRecords[index], machineChanges);
                             }
                         });
 
                         const supabase = createClient();
                         const { error } = await supabase
                             .from('laundry_bookings')
-                            .update({ status })
+                            .update(machineChanges
+                                ? { status, machine_id: machineChanges.machineId, cycle_started_at: machineChanges.cycleStartedAt }
+                                : { status })
                             .eq('id', recordId);
 
                         if (error) {
@@ -336,7 +373,11 @@ export const useServicesStore = create<ServicesState>()(
                             // Revert
                             set((state) => {
                                 const index = state.laundryRecords.findIndex((r) => r.id === recordId);
-                                if (index !== -1) state.laundryRecords[index].status = target.status;
+                                if (index !== -1) {
+                                    state.laundryRecords[index].status = target.status;
+                                    state.laundryRecords[index].machineId = target.machineId;
+                                    state.laundryRecords[index].cycleStartedAt = target.cycleStartedAt;
+                                }
                             });
                             return false;
                         }
@@ -373,6 +414,26 @@ export const useServicesStore = create<ServicesState>()(
                         return true;
                     },
 
+                    // The server picks the day's next bag number so two devices never hand out the same one
+                    assignLaundryBagNumber: async (recordId: string) => {
+                        const supabase = createClient();
+                        const { data, error } = await supabase.rpc('assign_laundry_bag_number', {
+                            p_booking_id: recordId,
+                        });
+
+                        if (error || !data?.bag_number) {
+                            console.error('Failed to assign laundry bag number:', error);
+                            return null;
+                        }
+
+                        const bagNumber = String(data.bag_number);
+                        set((state) => {
+                            const index = state.laundryRecords.findIndex((r) => r.id === recordId);
+                            if (index !== -1) state.laundryRecords[index].bagNumber = bagNumber;
+                        });
+                        return bagNumber;
+                    },
+
                     updateShowerStatus: async (recordId: string, status: string) => {
                         const { showerRecords } = get();
                         const target = showerRecords.find((r) => r.id === recordId);
@@ -405,6 +466,49 @@ export const useServicesStore = create<ServicesState>()(
                         return true;
                     },
 
+                    // Stall assignment, start/finish times and cleaning (see lib/utils/showerStalls)
+                    updateShowerStall: async (recordId: string, updates: ShowerStallUpdate) => {
+                        const { showerRecords } = get();
+                        const target = showerRecords.find((r) => r.id === recordId);
+                        if (!target) return false;
+
+                        set((state) => {
+                            const index = state.showerRecords.findIndex((r) => r.id === recordId);
+                            if (index !== -1) Object.assign(state.showerRecords[index], updates);
+                        });
+
+                        const payload: Record<string, unknown> = {};
+                        if (updates.status !== undefined) payload.status = mapShowerStatusToDb(updates.status as any);
+                        if (updates.stallNumber !== undefined) payload.stall_number = updates.stallNumber;
+                        if (updates.startedAt !== undefined) payload.started_at = updates.startedAt;
+                        if (updates.finishedAt !== undefined) payload.finished_at = updates.finishedAt;
+                        if (updates.stallCleanedAt !== undefined) payload.stall_cleaned_at = updates.stallCleanedAt;
+
+                        const supabase = createClient();
+                        const { error } = await supabase
+                            .from('shower_reservations')
+                            .update(payload)
+                            .eq('id', recordId);
+
+                        if (error) {
+                            console.error('Failed to update shower stall:', error);
+                            // Revert
+                            set((state) => {
+                                const index = state.showerRecords.findIndex((r) => r.id === recordId);
+                                if (index !== -1) {
+                                    const record = state.showerRecords[index];
+                                    record.status = target.status;
+                                    record.stallNumber = target.stallNumber;
+                                    record.startedAt = target.startedAt;
+                                    record.finishedAt = target.finishedAt;
+                                    record.stallCleanedAt = target.stallCleanedAt;
+                                }
+                            });
+                            return false;
+                        }
+                        return true;
+                    },
+
                     // End Service Day - Cancel Multiple Actions
                     cancelMultipleShowers: async (recordIds: string[]) => {
                         if (!recordIds.length) return true;
@@ -499,6 +603,7 @@ export const useServicesStore = create<ServicesState>()(
                         const supabase = createClient();
                         const payload = {
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             repair_type: repairType,
                             repair_types: repairTypes || [repairType],
                             notes,
@@ -552,6 +657,12 @@ export const useServicesStore = create<ServicesState>()(
                         Object.keys(updates).forEach((key) => {
                             if (key === 'completedRepairs') {
                                 payload.completed_repairs = updates[key];
+                            } else if (key === 'parts') {
+                                payload.parts = partsToRow(updates[key] || []);
+                            } else if (key === 'mechanicName') {
+                                payload.mechanic_name = updates[key];
+                            } else if (key === 'laborMinutes') {
+                                payload.labor_minutes = updates[key];
                             } else {
                                 payload[key] = updates[key];
                             }
@@ -611,6 +722,7 @@ export const useServicesStore = create<ServicesState>()(
 
                         const payload = {
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             served_at: new Date().toISOString(), // Use exact timestamp for uniqueness if needed, or date string based on logic
                             service_date: todayStr
                         };
@@ -663,6 +775,7 @@ export const useServicesStore = create<ServicesState>()(
 
                         const payload = {
                             guest_id: guestId,
+                            site_id: siteIdForInsert(),
                             visit_date: todayStr, // Holiday visits usually keyed by date
                             served_at: new Date().toISOString()
                         };
@@ -837,3 +950,16 @@ export const useServicesStore = create<ServicesState>()(
         { name: 'ServicesStore' }
     )
 );
+
+// Drop a booking that was made offline but rejected when replayed (full slot, closed day, ...)
+registerSyncRollback('shower_reservations', (id) => {
+    useServicesStore.setState((state) => {
+        state.showerRecords = state.showerRecords.filter((r) => r.id !== id);
+    });
+});
+
+registerSyncRollback('laundry_bookings', (id) => {
+    useServicesStore.setState((state) => {
+        state.laundryRecords = state.laundryRecords.filter((r) => r.id !== id);
+    });
+});
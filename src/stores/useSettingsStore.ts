@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { createClient } from '@/lib/supabase/client';
+import { DEFAULT_NO_SHOW_POLICY, normalizeNoShowPolicy, type NoShowPolicy } from '@/lib/utils/noShowPolicy';
+import { DEFAULT_GUEST_ID_FORMAT, normalizeGuestIdFormat, type GuestIdFormat } from '@/lib/utils/guestIdFormat';
 
 interface Targets {
     monthlyMeals: number;
@@ -20,7 +22,11 @@ interface Targets {
 
 interface SettingsState {
     targets: Targets;
+    noShowPolicy: NoShowPolicy;
+    guestIdFormat: GuestIdFormat;
     updateTargets: (newTargets: Partial<Targets>) => Promise<void>;
+    updateNoShowPolicy: (policy: NoShowPolicy) => Promise<boolean>;
+    updateGuestIdFormat: (format: GuestIdFormat) => Promise<boolean>;
     loadSettings: () => Promise<void>;
 }
 
@@ -44,6 +50,8 @@ export const useSettingsStore = create<SettingsState>()(
     persist(
         (set, get) => ({
             targets: DEFAULT_TARGETS,
+            noShowPolicy: DEFAULT_NO_SHOW_POLICY,
+            guestIdFormat: DEFAULT_GUEST_ID_FORMAT,
 
             updateTargets: async (newTargets) => {
                 const updated = { ...get().targets, ...newTargets };
@@ -59,14 +67,54 @@ export const useSettingsStore = create<SettingsState>()(
                 }
             },
 
+            updateNoShowPolicy: async (policy) => {
+                const previous = get().noShowPolicy;
+                set({ noShowPolicy: policy });
+
+                const supabase = createClient();
+                const { error } = await supabase
+                    .from('app_settings')
+                    .upsert({ id: 'global', no_show_policy: policy });
+
+                if (error) {
+                    console.error('Failed to save no-show policy to Supabase:', error);
+                    set({ noShowPolicy: previous });
+                    return false;
+                }
+                return true;
+            },
+
+            updateGuestIdFormat: async (format) => {
+                const previous = get().guestIdFormat;
+                set({ guestIdFormat: format });
+
+                const supabase = createClient();
+                const { error } = await supabase
+                    .from('app_settings')
+                    .upsert({ id: 'global', guest_id_format: format });
+
+                if (error) {
+                    console.error('Failed to save guest ID format to Supabase:', error);
+                    set({ guestIdFormat: previous });
+                    return false;
+                }
+                return true;
+            },
+
             loadSettings: async () => {
                 const supabase = createClient();
                 const { data, error } = await supabase
                     .from('app_settings')
-                    .select('targets')
+                    .select('targets, no_show_policy, guest_id_format')
                     .eq('id', 'global')
                     .single();
 
+                if (data?.no_show_policy) {
+                    set({ noShowPolicy: normalizeNoShowPolicy(data.no_show_policy) });
+                }
+                if (data?.guest_id_format) {
+                    set({ guestIdFormat: normalizeGuestIdFormat(data.guest_id_format) });
+                }
                 if (data && data.targets) {
                     set({ targets: data.targets });
                 } else if (error && error.code !== 'PGRST116') {
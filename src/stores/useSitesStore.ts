@@ -0,0 +1,156 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapSiteRow } from '@/lib/utils/mappers';
+import { getDefaultSite, sortSites, type Site } from '@/lib/utils/sites';
+import toast from 'react-hot-toast';
+
+const toRow = (site: Site) => ({
+    id: site.id,
+    name: site.name.trim(),
+    code: site.code,
+    address: site.address?.trim() || null,
+    is_default: site.isDefault,
+    active: site.active,
+});
+
+interface SitesState {
+    sites: Site[];
+    // Where this device is working today; new service records are tagged with it
+    currentSiteId: string | null;
+    // Dashboard report filter; null rolls every site up together
+    reportSiteId: string | null;
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    saveSite: (site: Site) => Promise<boolean>;
+    setCurrentSite: (siteId: string) => void;
+    setReportSite: (siteId: string | null) => void;
+
+    getActiveSites: () => Site[];
+    getCurrentSite: () => Site | null;
+}
+
+export const useSitesStore = create<SitesState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                sites: [],
+                currentSiteId: null,
+                reportSiteId: null,
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('sites')
+                            .select('*')
+                            .order('name', { ascending: true });
+
+                        if (error) {
+                            console.error('Failed to load sites from Supabase:', error);
+                            return;
+                        }
+
+                        const mapped = sortSites((data || []).map(mapSiteRow) as Site[]);
+                        set((state) => {
+                            state.sites = mapped;
+                            state.isLoaded = true;
+                            // A device that has never picked a site (or whose site was retired) works at the default one
+                            const current = mapped.find((s) => s.id === state.currentSiteId);
+                            if (!current || !current.active) {
+                                state.currentSiteId = getDefaultSite(mapped.filter((s) => s.active))?.id ?? null;
+                            }
+                            if (state.reportSiteId && !mapped.some((s) => s.id === state.reportSiteId)) {
+                                state.reportSiteId = null;
+                            }
+                        });
+                    } catch (error) {
+                        console.error('Error loading sites:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                // Insert or update a site (optimistic, rolled back on failure)
+                saveSite: async (site) => {
+                    const supabase = createClient();
+                    const originalSites = get().sites;
+                    const previousDefault = originalSites.find((s) => s.isDefault && s.id !== site.id);
+
+                    set((state) => {
+                        state.sites = sortSites([
+                            ...state.sites
+                                .filter((s) => s.id !== site.id)
+                                .map((s) => (site.isDefault ? { ...s, isDefault: false } : s)),
+                            site,
+                        ]);
+                    });
+
+                    // Only one default is allowed, so release the old one first
+                    if (site.isDefault && previousDefault) {
+                        const { error } = await supabase
+                            .from('sites')
+                            .update({ is_default: false })
+                            .eq('id', previousDefault.id);
+
+                        if (error) {
+                            console.error('Failed to change default site:', error);
+                            set((state) => { state.sites = originalSites; });
+                            toast.error('Failed to change default site');
+                            return false;
+                        }
+                    }
+
+                    const { error } = await supabase
+                        .from('sites')
+                        .upsert(toRow(site), { onConflict: 'id' });
+
+                    if (error) {
+                        console.error('Failed to save site:', error);
+                        set((state) => { state.sites = originalSites; });
+                        toast.error(error.code === '23505' ? 'That site name or code is already taken' : 'Failed to save site');
+                        return false;
+                    }
+
+                    return true;
+                },
+
+                setCurrentSite: (siteId) => {
+                    set((state) => { state.currentSiteId = siteId; });
+                },
+
+                setReportSite: (siteId) => {
+                    set((state) => { state.reportSiteId = siteId; });
+                },
+
+                getActiveSites: () => get().sites.filter((s) => s.active),
+                getCurrentSite: () => get().sites.find((s) => s.id === get().currentSiteId) || null,
+            })),
+            {
+                name: 'hopes-corner-sites',
+                partialize: (state) => ({
+                    sites: state.sites,
+                    currentSiteId: state.currentSiteId,
+                    reportSiteId: state.reportSiteId,
+                }),
+            }
+        ),
+        { name: 'SitesStore' }
+    )
+);
+
+/**
+ * site_id for a new service record. Left undefined until sites have loaded so
+ * the database default (the default site) applies rather than an explicit null.
+ */
+export const siteIdForInsert = () => useSitesStore.getState().currentSiteId ?? undefined;
@@ -0,0 +1,180 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import {
+    isAlreadyApplied,
+    isNetworkError,
+    mealLimitConflict,
+    nextQueueSeq,
+    readQueuedMutations,
+    removeQueuedMutation,
+    writeQueuedMutation,
+    type QueueableTable,
+    type QueuedMutation,
+} from '@/lib/utils/offlineQueue';
+import toast from 'react-hot-toast';
+
+export interface InsertResult {
+    data: any;
+    error: any;
+    queued: boolean;  // true when the row was queued for later and data is the local payload
+}
+
+// Stores register how to drop a local record whose queued insert was rejected
+const rollbacks = new Map<QueueableTable, (id: string) => void>();
+
+export const registerSyncRollback = (table: QueueableTable, rollback: (id: string) => void) => {
+    rollbacks.set(table, rollback);
+};
+
+interface SyncQueueState {
+    pending: QueuedMutation[];
+    isSyncing: boolean;
+    isHydrated: boolean;
+
+    hydrate: () => Promise<void>;
+    insertOrQueue: (table: QueueableTable, payload: Record<string, unknown> & { id: string }, label: string) => Promise<InsertResult>;
+    flush: () => Promise<void>;
+}
+
+export const useSyncQueueStore = create<SyncQueueState>()(
+    devtools(
+        immer((set, get) => {
+            const enqueue = async (table: QueueableTable, payload: Record<string, unknown> & { id: string }, label: string) => {
+                const mutation: QueuedMutation = {
+                    id: payload.id,
+                    seq: nextQueueSeq(),
+                    table,
+                    payload,
+                    label,
+                    queuedAt: new Date().toISOString(),
+                    attempts: 0,
+                };
+                set((state) => { state.pending.push(mutation); });
+                try {
+                    await writeQueuedMutation(mutation);
+                } catch (error) {
+                    console.error('Failed to persist queued change:', error);
+                }
+            };
+
+            const dequeue = async (id: string) => {
+                set((state) => { state.pending = state.pending.filter((m) => m.id !== id); });
+                await removeQueuedMutation(id).catch((error) => console.error('Failed to remove queued change:', error));
+            };
+
+            // Reason a queued meal can no longer be recorded, or null. The queued row itself
+            // is left out: an earlier attempt may have committed before its response was lost,
+            // and the insert below then reports it as already applied.
+            const checkMealLimits = async (mutation: QueuedMutation): Promise<string | null> => {
+                const { guest_id: guestId, served_on: servedOn } = mutation.payload;
+                if (mutation.table !== 'meal_attendance' || !guestId) return null;
+
+                const supabase = createClient();
+                const { data, error } = await supabase
+                    .from('meal_attendance')
+                    .select('meal_type, quantity')
+                    .eq('guest_id', guestId)
+                    .eq('served_on', servedOn)
+                    .neq('id', mutation.payload.id);
+                if (error) throw error;
+                return mealLimitConflict(data || [], mutation.payload);
+            };
+
+            return {
+                pending: [],
+                isSyncing: false,
+                isHydrated: false,
+
+                hydrate: async () => {
+                    try {
+                        const queued = await readQueuedMutations();
+                        set((state) => {
+                            state.pending = queued;
+                            state.isHydrated = true;
+                        });
+                    } catch (error) {
+                        console.error('Error loading queued changes:', error);
+                    }
+                },
+
+                // Insert a row, or queue it when the device is offline so the caller can
+                // treat it as saved. Other errors are returned for the caller to handle.
+                insertOrQueue: async (table, payload, label) => {
+                    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+                        await enqueue(table, payload, label);
+                        return { data: payload, error: null, queued: true };
+                    }
+
+                    const supabase = createClient();
+                    const { data, error } = await supabase.from(table).insert(payload).select().single();
+
+                    if (error && isNetworkError(error)) {
+                        await enqueue(table, payload, label);
+                        return { data: payload, error: null, queued: true };
+                    }
+                    return { data, error, queued: false };
+                },
+
+                // Replay queued inserts in the order they were made
+                flush: async () => {
+                    if (get().isSyncing || get().pending.length === 0) return;
+                    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+                    set((state) => { state.isSyncing = true; });
+                    let synced = 0;
+
+                    try {
+                        const supabase = createClient();
+                        for (const mutation of [...get().pending]) {
+                            let rejection: string | null;
+                            let error: any = null;
+                            try {
+                                rejection = await checkMealLimits(mutation);
+                                if (!rejection) {
+                                    ({ error } = await supabase.from(mutation.table).insert(mutation.payload));
+                                }
+                            } catch (thrown) {
+                                rejection = null;
+                                error = thrown;
+                            }
+
+                            if (error && isNetworkError(error)) {
+                                set((state) => {
+                                    const queued = state.pending.find((m) => m.id === mutation.id);
+                                    if (queued) {
+                                        queued.attempts += 1;
+                                        queued.lastError = error.message || null;
+                                    }
+                                });
+                                break; // still offline; keep this and everything after it in order
+                            }
+
+                            // A duplicate deduplication key (automatic meals, lunch bags) was already recorded
+                            const duplicate = error?.code === '23505' && Boolean(mutation.payload.deduplication_key);
+
+                            if (!rejection && error && !isAlreadyApplied(error) && !duplicate) {
+                                rejection = error.message || 'rejected by the server';
+                            }
+
+                            if (rejection) {
+                                console.error(`Queued change ${mutation.id} was rejected:`, rejection);
+                                rollbacks.get(mutation.table)?.(mutation.id);
+                                toast.error(`${mutation.label} was not synced: ${rejection}`);
+                            } else {
+                                synced += 1;
+                            }
+                            await dequeue(mutation.id);
+                        }
+                    } finally {
+                        set((state) => { state.isSyncing = false; });
+                    }
+
+                    if (synced > 0) toast.success(`Synced ${synced} offline change${synced !== 1 ? 's' : ''}`);
+                },
+            };
+        }),
+        { name: 'SyncQueueStore' }
+    )
+);
@@ -0,0 +1,78 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import { immer } from 'zustand/middleware/immer';
+import { createClient } from '@/lib/supabase/client';
+import { mapWaitlistPromotionRow } from '@/lib/utils/mappers';
+import type { WaitlistPromotion } from '@/lib/utils/waitlistPromotions';
+
+const byNewest = (a: WaitlistPromotion, b: WaitlistPromotion) => b.promotedAt.localeCompare(a.promotedAt);
+
+interface WaitlistPromotionsState {
+    promotions: WaitlistPromotion[];
+    isLoading: boolean;
+    isLoaded: boolean;
+
+    ensureLoaded: (options?: { force?: boolean }) => Promise<void>;
+    // Add a promotion that arrived over realtime; returns false if it was already known
+    receivePromotion: (promotion: WaitlistPromotion) => boolean;
+
+    getPromotionsForDate: (serviceDate: string) => WaitlistPromotion[];
+}
+
+export const useWaitlistPromotionsStore = create<WaitlistPromotionsState>()(
+    devtools(
+        persist(
+            immer((set, get) => ({
+                promotions: [],
+                isLoading: false,
+                isLoaded: false,
+
+                ensureLoaded: async ({ force = false }: { force?: boolean } = {}) => {
+                    if (!force && get().isLoaded) return;
+                    if (get().isLoading) return;
+
+                    set((state) => { state.isLoading = true; });
+
+                    try {
+                        const supabase = createClient();
+                        const { data, error } = await supabase
+                            .from('waitlist_promotions')
+                            .select('*')
+                            .order('promoted_at', { ascending: false })
+                            .limit(200);
+
+                        if (error) {
+                            console.error('Failed to load waitlist promotions from Supabase:', error);
+                            return;
+                        }
+
+                        const mapped = (data || []).map(mapWaitlistPromotionRow) as WaitlistPromotion[];
+                        set((state) => {
+                            state.promotions = mapped.sort(byNewest);
+                            state.isLoaded = true;
+                        });
+                    } catch (error) {
+                        console.error('Error loading waitlist promotions:', error);
+                    } finally {
+                        set((state) => { state.isLoading = false; });
+                    }
+                },
+
+                receivePromotion: (promotion) => {
+                    if (get().promotions.some((p) => p.id === promotion.id)) return false;
+                    set((state) => {
+                        state.promotions = [promotion, ...state.promotions].sort(byNewest);
+                    });
+                    return true;
+                },
+
+                getPromotionsForDate: (serviceDate) => get().promotions.filter((p) => p.serviceDate === serviceDate),
+            })),
+            {
+                name: 'hopes-corner-waitlist-promotions',
+                partialize: (state) => ({ promotions: state.promotions }),
+            }
+        ),
+        { name: 'WaitlistPromotionsStore' }
+    )
+);
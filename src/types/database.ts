@@ -4,7 +4,7 @@
 export type GenderEnum = 'Male' | 'Female' | 'Unknown' | 'Non-binary';
 export type AgeGroupEnum = 'Adult 18-59' | 'Senior 60+' | 'Child 0-17';
 export type HousingStatusEnum = 'Unhoused' | 'Housed' | 'Temp. shelter' | 'RV or vehicle';
-export type LaundryStatusEnum = 'waiting' | 'washer' | 'dryer' | 'done' | 'picked_up' | 'pending' | 'transported' | 'returned' | 'offsite_picked_up';
+export type LaundryStatusEnum = 'waiting' | 'washer' | 'dryer' | 'done' | 'picked_up' | 'pending' | 'transported' | 'returned' | 'offsite_picked_up' | 'waitlisted' | 'cancelled' | 'no_show';
 export type BicycleRepairStatusEnum = 'pending' | 'in_progress' | 'done';
 export type DonationTypeEnum = 'Protein' | 'Carbs' | 'Vegetables' | 'Fruit' | 'Veggie Protein' | 'Deli Foods' | 'Pastries' | 'School Lunch';
 export type LaPlazaCategoryEnum = 'Bakery' | 'Beverages' | 'Dairy' | 'Meat' | 'Mix' | 'Nonfood' | 'Prepared/Perishable' | 'Produce';
@@ -33,6 +33,7 @@ export interface Guest {
     banned_from_shower?: boolean;
     banned_from_laundry?: boolean;
     banned_from_bicycle?: boolean;
+    photo_path?: string | null;
     created_at: string;
     updated_at: string;
 }
@@ -46,6 +47,7 @@ export interface MealAttendance {
     served_on: string;
     recorded_at: string;
     notes?: string;
+    site_id: string;
     created_at: string;
     updated_at: string;
 }
@@ -57,7 +59,12 @@ export interface ShowerReservation {
     scheduled_time?: string;
     status: ShowerStatusEnum;
     waitlist_position?: number;
+    stall_number?: number | null;
+    started_at?: string | null;
+    finished_at?: string | null;
+    stall_cleaned_at?: string | null;
     note?: string;
+    site_id: string;
     created_at: string;
     updated_at: string;
 }
@@ -70,7 +77,12 @@ export interface LaundryBooking {
     laundry_type: 'onsite' | 'offsite';
     bag_number?: string;
     status: LaundryStatusEnum;
+    waitlist_position?: number;
+    batch_id?: string | null;
+    machine_id?: string | null;
+    cycle_started_at?: string | null;
     note?: string;
+    site_id: string;
     created_at: string;
     updated_at: string;
 }
@@ -87,12 +99,17 @@ export interface BicycleRepair {
     priority: number;
     completed_at?: string;
     updated_at: string;
+    parts: { name: string; quantity: number; unit_cost: number }[];
+    mechanic_name?: string;
+    labor_minutes?: number;
+    site_id: string;
 }
 
 export interface HolidayVisit {
     id: string;
     guest_id: string;
     served_at: string;
+    site_id: string;
     created_at: string;
 }
 
@@ -100,6 +117,7 @@ export interface HaircutVisit {
     id: string;
     guest_id: string;
     served_at: string;
+    site_id: string;
     created_at: string;
 }
 
@@ -108,6 +126,7 @@ export interface ItemDistributed {
     guest_id: string;
     item_key: string;
     distributed_at: string;
+    site_id: string;
     created_at: string;
 }
 
@@ -174,6 +193,71 @@ export interface GuestWarning {
     expires_at?: string;
 }
 
+export interface GuestBan {
+    id: string;
+    guest_id: string;
+    reason: string | null;
+    banned_from_bicycle: boolean;
+    banned_from_meals: boolean;
+    banned_from_shower: boolean;
+    banned_from_laundry: boolean;
+    issued_by: string | null;
+    starts_at: string;
+    ends_at: string;
+    lifted_at: string | null;
+    lifted_by: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export type HouseholdRole = 'head' | 'partner' | 'child' | 'parent' | 'relative' | 'other';
+
+export interface Household {
+    id: string;
+    name: string;
+    head_guest_id: string | null;
+    meal_allowance: number | null;
+    notes: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface HouseholdMember {
+    id: string;
+    household_id: string;
+    guest_id: string;
+    role: HouseholdRole;
+    created_at: string;
+}
+
+export interface Site {
+    id: string;
+    name: string;
+    code: string;
+    address: string | null;
+    is_default: boolean;
+    active: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface GuestMerge {
+    id: string;
+    kept_guest_id: string;
+    merged_guest_id: string;
+    merged_guest: Guest;
+    kept_guest_before: Guest;
+    moved_rows: Record<string, string[]>;
+    converted_meal_ids: string[];
+    dismissed_waiver_ids: string[];
+    removed_proxies: GuestProxy[];
+    removed_household_member: HouseholdMember | null;
+    merged_by: string | null;
+    merged_at: string;
+    undo_until: string;
+    undone_at: string | null;
+}
+
 export interface DailyNote {
     id: string;
     note_date: string;
@@ -237,6 +321,12 @@ export interface AppSettings {
         monthlyHolidays: number;
         yearlyHolidays: number;
     };
+    no_show_policy: {
+        enabled: boolean;
+        threshold: number;
+        windowDays: number;
+        restrictionDays: number;
+    };
     created_at: string;
     updated_at: string;
 }
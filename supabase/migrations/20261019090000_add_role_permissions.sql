@@ -0,0 +1,168 @@
+-- Fine-grained role permissions enforced by RLS.
+-- Replaces the blanket "manage" policies on guests and donations and the open
+-- insert/delete policies on blocked_slots with permission-gated ones.
+
+drop policy if exists "Authenticated users can manage guests" on public.guests;
+drop policy if exists "Authenticated users can insert guests" on public.guests;
+create policy "Authenticated users can insert guests"
+  on public.guests for insert
+  to authenticated, anon
+  with check (true);
+
+drop policy if exists "Authenticated users can update guests" on public.guests;
+create policy "Authenticated users can update guests"
+  on public.guests for update
+  to authenticated, anon
+  using (true)
+  with check (true);
+
+drop policy if exists "Authenticated users can manage donations" on public.donations;
+drop policy if exists "Authenticated users can insert donations" on public.donations;
+create policy "Authenticated users can insert donations"
+  on public.donations for insert
+  to authenticated, anon
+  with check (true);
+
+drop policy if exists "Enable insert access for authenticated users" on public.blocked_slots;
+drop policy if exists "Enable delete access for authenticated users" on public.blocked_slots;
+
+-- Keep the seed in sync with ROLE_PERMISSIONS in src/lib/auth/permissions.ts.
+-- reports.export is enforced in the app only (exports read data every role can already select).
+create table if not exists public.role_permissions (
+  role text not null check (role in ('checkin', 'staff', 'admin', 'board')),
+  permission text not null,
+  created_at timestamptz not null default now(),
+  primary key (role, permission)
+);
+
+insert into public.role_permissions (role, permission) values
+  ('admin', 'guests.ban'),
+  ('admin', 'guests.delete'),
+  ('admin', 'donations.edit'),
+  ('admin', 'slots.block'),
+  ('admin', 'reports.export'),
+  ('admin', 'users.manage'),
+  ('staff', 'guests.ban'),
+  ('staff', 'donations.edit'),
+  ('staff', 'slots.block'),
+  ('staff', 'reports.export'),
+  ('board', 'reports.export')
+on conflict (role, permission) do nothing;
+
+alter table public.role_permissions enable row level security;
+
+drop policy if exists "Authenticated users can view role permissions" on public.role_permissions;
+create policy "Authenticated users can view role permissions"
+  on public.role_permissions for select
+  to authenticated
+  using (true);
+
+-- Role of the calling user: profiles.role, else the same email-prefix rule as inferRole()
+create or replace function public.current_app_role()
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  profile_role text;
+  email text;
+begin
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  select p.role into profile_role from public.profiles p where p.id = auth.uid();
+  if profile_role is not null then
+    return profile_role;
+  end if;
+
+  email := lower(coalesce(auth.jwt() ->> 'email', ''));
+  if email like 'admin%' then return 'admin'; end if;
+  if email like 'board%' then return 'board'; end if;
+  if email like 'checkin%' then return 'checkin'; end if;
+  return 'staff';
+end;
+$$;
+
+create or replace function public.has_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.role_permissions rp
+    where rp.role = public.current_app_role()
+      and rp.permission = p_permission
+  );
+$$;
+
+comment on function public.has_permission(text) is 'True when the calling user''s role grants the permission in role_permissions';
+
+-- Guests: deleting requires guests.delete; changing ban columns requires guests.ban
+drop policy if exists "Users with guests.delete can delete guests" on public.guests;
+create policy "Users with guests.delete can delete guests"
+  on public.guests for delete
+  to authenticated
+  using (public.has_permission('guests.delete'));
+
+create or replace function public.enforce_guest_ban_permission()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  if (new.banned_until, new.banned_at, new.ban_reason,
+      new.banned_from_bicycle, new.banned_from_meals,
+      new.banned_from_shower, new.banned_from_laundry)
+     is distinct from
+     (old.banned_until, old.banned_at, old.ban_reason,
+      old.banned_from_bicycle, old.banned_from_meals,
+      old.banned_from_shower, old.banned_from_laundry)
+     and not public.has_permission('guests.ban') then
+    raise exception using
+      errcode = '42501',
+      message = 'Your role is not allowed to ban or unban guests';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_guests_ban_permission on public.guests;
+create trigger trg_guests_ban_permission
+before update on public.guests
+for each row execute function public.enforce_guest_ban_permission();
+
+-- Donations: editing or deleting existing records requires donations.edit
+drop policy if exists "Users with donations.edit can update donations" on public.donations;
+create policy "Users with donations.edit can update donations"
+  on public.donations for update
+  to authenticated
+  using (public.has_permission('donations.edit'))
+  with check (public.has_permission('donations.edit'));
+
+drop policy if exists "Users with donations.edit can delete donations" on public.donations;
+create policy "Users with donations.edit can delete donations"
+  on public.donations for delete
+  to authenticated
+  using (public.has_permission('donations.edit'));
+
+-- Blocked slots: blocking and unblocking require slots.block
+drop policy if exists "Users with slots.block can block slots" on public.blocked_slots;
+create policy "Users with slots.block can block slots"
+  on public.blocked_slots for insert
+  to authenticated
+  with check (public.has_permission('slots.block'));
+
+drop policy if exists "Users with slots.block can unblock slots" on public.blocked_slots;
+create policy "Users with slots.block can unblock slots"
+  on public.blocked_slots for delete
+  to authenticated
+  using (public.has_permission('slots.block'));
@@ -0,0 +1,102 @@
+-- Server-side audit log for guest and service mutations.
+-- Rows are written by triggers and readable by roles with audit.view.
+
+insert into public.role_permissions (role, permission) values
+  ('admin', 'audit.view')
+on conflict (role, permission) do nothing;
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  occurred_at timestamptz not null default now(),
+  table_name text not null,
+  record_id text,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  guest_id uuid, -- no FK: history must outlive deleted guests
+  actor_id uuid,
+  actor_email text,
+  actor_role text,
+  old_data jsonb,
+  new_data jsonb
+);
+
+create index if not exists idx_audit_log_occurred_at
+  on public.audit_log (occurred_at desc);
+
+create index if not exists idx_audit_log_guest
+  on public.audit_log (guest_id, occurred_at desc);
+
+create index if not exists idx_audit_log_actor
+  on public.audit_log (actor_id, occurred_at desc);
+
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Users with audit.view can read audit log" on public.audit_log;
+create policy "Users with audit.view can read audit log"
+  on public.audit_log for select
+  to authenticated
+  using (public.has_permission('audit.view'));
+
+create or replace function public.log_audit_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end;
+  new_row jsonb := case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end;
+  row_data jsonb := coalesce(new_row, old_row);
+  claims jsonb := auth.jwt();
+begin
+  -- Skip updates that only touched updated_at
+  if tg_op = 'UPDATE' and (old_row - 'updated_at') = (new_row - 'updated_at') then
+    return null;
+  end if;
+
+  insert into public.audit_log (
+    table_name, record_id, action, guest_id,
+    actor_id, actor_email, actor_role, old_data, new_data
+  ) values (
+    tg_table_name,
+    row_data ->> 'id',
+    lower(tg_op),
+    case when tg_table_name = 'guests'
+      then (row_data ->> 'id')::uuid
+      else (row_data ->> 'guest_id')::uuid
+    end,
+    auth.uid(),
+    claims ->> 'email',
+    coalesce(public.current_app_role(), claims ->> 'role'),
+    old_row,
+    new_row
+  );
+
+  return null;
+end;
+$$;
+
+comment on function public.log_audit_event() is 'Trigger function recording row changes with the acting user into audit_log';
+
+do $$
+declare
+  audited_table text;
+begin
+  foreach audited_table in array array[
+    'guests',
+    'meal_attendance',
+    'shower_reservations',
+    'laundry_bookings',
+    'bicycle_repairs',
+    'donations',
+    'guest_warnings',
+    'service_waivers'
+  ]
+  loop
+    execute format('drop trigger if exists trg_%s_audit on public.%I', audited_table, audited_table);
+    execute format(
+      'create trigger trg_%s_audit after insert or update or delete on public.%I '
+      'for each row execute function public.log_audit_event()',
+      audited_table, audited_table
+    );
+  end loop;
+end $$;
@@ -0,0 +1,60 @@
+-- Configurable item-distribution catalog with cooldown rules.
+-- Editable by roles with settings.manage.
+
+insert into public.role_permissions (role, permission) values
+  ('admin', 'settings.manage'),
+  ('staff', 'settings.manage')
+on conflict (role, permission) do nothing;
+
+create table if not exists public.item_catalog (
+  key text primary key check (key ~ '^[a-z0-9_]+$'),
+  label text not null,
+  icon text not null default 'package',
+  cooldown_type text not null default 'rolling_days'
+    check (cooldown_type in ('rolling_days', 'weekly_reset', 'monthly_cap', 'unlimited')),
+  cooldown_days integer check (cooldown_days > 0),
+  reset_weekday smallint check (reset_weekday between 0 and 6), -- 0 = Sunday
+  monthly_limit integer check (monthly_limit > 0),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint item_catalog_policy_complete check (
+    (cooldown_type <> 'rolling_days' or cooldown_days is not null)
+    and (cooldown_type <> 'weekly_reset' or reset_weekday is not null)
+    and (cooldown_type <> 'monthly_cap' or monthly_limit is not null)
+  )
+);
+
+drop trigger if exists trg_item_catalog_updated_at on public.item_catalog;
+create trigger trg_item_catalog_updated_at
+before update on public.item_catalog
+for each row execute function public.touch_updated_at();
+
+-- Seed mirrors the rules that used to be hard-coded in useItemsStore.checkAvailability
+insert into public.item_catalog (key, label, icon, cooldown_type, cooldown_days, reset_weekday, active, sort_order) values
+  ('tshirt', 'T-Shirt', 'shirt', 'weekly_reset', null, 1, true, 10),
+  ('jacket', 'Jacket', 'jacket', 'rolling_days', 15, null, true, 20),
+  ('tent', 'Tent', 'tent', 'rolling_days', 30, null, true, 30),
+  ('sleeping_bag', 'Sleeping Bag', 'package', 'rolling_days', 30, null, true, 40),
+  ('backpack', 'Backpack', 'package', 'rolling_days', 30, null, true, 50),
+  ('flipflops', 'Flip Flops', 'footprints', 'rolling_days', 30, null, true, 60),
+  ('flip_flops', 'Flip Flops (legacy)', 'footprints', 'rolling_days', 30, null, false, 61),
+  ('shoes', 'Shoes', 'footprints', 'rolling_days', 30, null, false, 70),
+  ('blanket', 'Blanket', 'package', 'rolling_days', 30, null, false, 80)
+on conflict (key) do nothing;
+
+alter table public.item_catalog enable row level security;
+
+drop policy if exists "Authenticated users can view item catalog" on public.item_catalog;
+create policy "Authenticated users can view item catalog"
+  on public.item_catalog for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage item catalog" on public.item_catalog;
+create policy "Users with settings.manage can manage item catalog"
+  on public.item_catalog for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
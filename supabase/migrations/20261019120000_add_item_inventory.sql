@@ -0,0 +1,111 @@
+-- Item stock levels with a restock/distribution ledger.
+-- Restocks and recounts require inventory.manage.
+
+insert into public.role_permissions (role, permission) values
+  ('admin', 'inventory.manage'),
+  ('staff', 'inventory.manage')
+on conflict (role, permission) do nothing;
+
+alter table public.item_catalog
+  add column if not exists stock_on_hand integer,
+  add column if not exists low_stock_threshold integer not null default 5
+    check (low_stock_threshold >= 0);
+
+create table if not exists public.item_stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  item_key text not null references public.item_catalog(key) on update cascade,
+  delta integer not null check (delta <> 0),
+  reason text not null check (reason in ('donation', 'adjustment', 'distribution', 'undo')),
+  donor text,
+  note text,
+  distribution_id uuid,            -- items_distributed row (no FK: undo deletes it)
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists item_stock_movements_item_idx
+  on public.item_stock_movements (item_key, created_at desc);
+
+-- Apply each movement to the catalog; the first restock or recount starts tracking
+create or replace function public.apply_item_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.item_catalog
+     set stock_on_hand = coalesce(stock_on_hand, 0) + new.delta
+   where key = new.item_key;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_item_stock_movements_apply on public.item_stock_movements;
+create trigger trg_item_stock_movements_apply
+after insert on public.item_stock_movements
+for each row execute function public.apply_item_stock_movement();
+
+-- Take one item out of stock per distribution and refuse it when none are left
+create or replace function public.track_item_distribution_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_stock integer;
+begin
+  if tg_op = 'INSERT' then
+    select stock_on_hand into current_stock
+      from public.item_catalog
+     where key = new.item_key
+       for update;
+
+    if current_stock is null then
+      return new;
+    end if;
+    if current_stock <= 0 then
+      raise exception 'Out of stock: %', new.item_key;
+    end if;
+
+    insert into public.item_stock_movements (item_key, delta, reason, distribution_id)
+    values (new.item_key, -1, 'distribution', new.id);
+    return new;
+  end if;
+
+  -- Rows removed by a guest delete cascade are gone with the guest, not back on the shelf
+  if not exists (select 1 from public.guests where id = old.guest_id) then
+    return old;
+  end if;
+
+  if exists (select 1 from public.item_catalog where key = old.item_key and stock_on_hand is not null) then
+    insert into public.item_stock_movements (item_key, delta, reason, distribution_id)
+    values (old.item_key, 1, 'undo', old.id);
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists trg_items_distributed_stock on public.items_distributed;
+create trigger trg_items_distributed_stock
+after insert or delete on public.items_distributed
+for each row execute function public.track_item_distribution_stock();
+
+alter table public.item_stock_movements enable row level security;
+
+drop policy if exists "Authenticated users can view item stock movements" on public.item_stock_movements;
+create policy "Authenticated users can view item stock movements"
+  on public.item_stock_movements for select
+  to authenticated
+  using (true);
+
+-- Distribution and undo rows come from the trigger above; staff only record restocks and recounts
+drop policy if exists "Users with inventory.manage can record stock changes" on public.item_stock_movements;
+create policy "Users with inventory.manage can record stock changes"
+  on public.item_stock_movements for insert
+  to authenticated
+  with check (
+    public.has_permission('inventory.manage')
+    and reason in ('donation', 'adjustment')
+  );
@@ -0,0 +1,328 @@
+-- Editable weekly service schedule with seasonal overrides.
+-- Slot helpers and capacity triggers now read their hours and capacity from it.
+-- Requires PostgreSQL 15+ (unique nulls not distinct).
+
+create table if not exists public.service_schedule (
+  id uuid primary key default gen_random_uuid(),
+  service text not null check (service in ('meals', 'showers', 'laundry')),
+  weekday smallint not null check (weekday between 0 and 6), -- 0 = Sunday
+  starts_on date,
+  ends_on date,
+  season_label text,
+  is_open boolean not null default true,
+  start_time time,
+  end_time time,
+  slot_minutes integer check (slot_minutes > 0),            -- minutes between slot start times
+  slot_duration_minutes integer check (slot_duration_minutes > 0), -- laundry: length of each window
+  slot_capacity integer not null default 1 check (slot_capacity > 0),
+  custom_slots text[],                                      -- hand-picked slot labels, used as-is
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint service_schedule_season_range check (
+    (starts_on is null) = (ends_on is null) and (ends_on is null or ends_on >= starts_on)
+  ),
+  constraint service_schedule_open_hours check (
+    not is_open or (start_time is not null and end_time is not null and end_time > start_time)
+  ),
+  constraint service_schedule_unique_day unique nulls not distinct (service, weekday, starts_on)
+);
+
+drop trigger if exists trg_service_schedule_updated_at on public.service_schedule;
+create trigger trg_service_schedule_updated_at
+before update on public.service_schedule
+for each row execute function public.touch_updated_at();
+
+-- Seed mirrors the hours that used to be hard-coded in mealServiceTime.ts and serviceSlots.ts
+insert into public.service_schedule
+  (service, weekday, is_open, start_time, end_time, slot_minutes, slot_duration_minutes, slot_capacity, custom_slots) values
+  ('meals', 0, false, null, null, null, null, 1, null),
+  ('meals', 1, true, '08:00', '09:00', null, null, 1, null),
+  ('meals', 2, false, null, null, null, null, 1, null),
+  ('meals', 3, true, '08:00', '09:00', null, null, 1, null),
+  ('meals', 4, false, null, null, null, null, 1, null),
+  ('meals', 5, true, '07:30', '08:30', null, null, 1, null),
+  ('meals', 6, true, '08:00', '10:00', null, null, 1, null),
+  ('showers', 0, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 1, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 2, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 3, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 4, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 5, true, '07:30', '12:30', 30, null, 2, null),
+  ('showers', 6, true, '08:30', '13:30', 30, null, 2, null),
+  ('laundry', 0, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 1, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 2, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 3, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 4, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 5, true, '07:30', '11:45', 30, null, 1, array['07:30 - 08:30', '08:00 - 09:00', '08:30 - 09:45', '09:00 - 10:15', '09:30 - 11:45']),
+  ('laundry', 6, true, '08:30', '12:00', 30, 90, 1, null)
+on conflict on constraint service_schedule_unique_day do nothing;
+
+-- Effective hours for a service on a date (seasonal override first, then the weekly row)
+create or replace function public.service_hours_for(p_service text, p_date date)
+returns public.service_schedule
+language sql
+stable
+as $$
+  select s.*
+    from public.service_schedule s
+   where s.service = p_service
+     and s.weekday = extract(dow from p_date)::int
+     and (s.starts_on is null or p_date between s.starts_on and s.ends_on)
+   order by s.starts_on desc nulls last
+   limit 1;
+$$;
+
+-- Slot labels offered on a date: "HH:MM" for showers, "HH:MM - HH:MM" windows for laundry
+create or replace function public.service_slot_labels(p_service text, p_date date)
+returns setof text
+language plpgsql
+stable
+as $$
+declare
+  hours public.service_schedule;
+  start_min integer;
+  end_min integer;
+  step integer;
+  window_min integer;
+  m integer;
+begin
+  hours := public.service_hours_for(p_service, p_date);
+  if hours.id is null or not hours.is_open then
+    return;
+  end if;
+
+  if coalesce(array_length(hours.custom_slots, 1), 0) > 0 then
+    return query select unnest(hours.custom_slots);
+    return;
+  end if;
+
+  start_min := extract(hour from hours.start_time)::int * 60 + extract(minute from hours.start_time)::int;
+  end_min := extract(hour from hours.end_time)::int * 60 + extract(minute from hours.end_time)::int;
+  step := coalesce(hours.slot_minutes, 30);
+  window_min := coalesce(hours.slot_duration_minutes, step);
+
+  m := start_min;
+  if p_service = 'laundry' then
+    while m + window_min <= end_min loop
+      return next to_char(make_time(m / 60, m % 60, 0), 'HH24:MI')
+        || ' - ' || to_char(make_time((m + window_min) / 60, (m + window_min) % 60, 0), 'HH24:MI');
+      m := m + step;
+    end loop;
+  else
+    while m < end_min loop
+      return next to_char(make_time(m / 60, m % 60, 0), 'HH24:MI');
+      m := m + step;
+    end loop;
+  end if;
+end;
+$$;
+
+alter table public.service_schedule enable row level security;
+
+drop policy if exists "Authenticated users can view service schedule" on public.service_schedule;
+create policy "Authenticated users can view service schedule"
+  on public.service_schedule for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage service schedule" on public.service_schedule;
+create policy "Users with settings.manage can manage service schedule"
+  on public.service_schedule for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
+
+-- SHOWER SLOT CAPACITY CONSTRAINT
+-- Limits guests per slot to the slot_capacity in service_schedule (2 if unset)
+create or replace function public.check_shower_slot_capacity()
+returns trigger as $$
+declare
+    slot_count integer;
+    max_capacity integer;
+begin
+    -- Only check for new bookings and status changes to active statuses
+    if new.status in ('booked', 'waitlisted') then
+        -- Rows already holding this slot (e.g. notes edits) do not take another spot
+        if tg_op = 'UPDATE' and old.status = 'booked'
+           and old.scheduled_for = new.scheduled_for
+           and old.scheduled_time is not distinct from new.scheduled_time then
+            return new;
+        end if;
+
+        max_capacity := coalesce(
+            (public.service_hours_for('showers', new.scheduled_for)).slot_capacity,
+            2
+        );
+
+        -- Count existing active bookings for this slot
+        select count(*) into slot_count
+        from public.shower_reservations
+        where scheduled_for = new.scheduled_for
+          and scheduled_time = new.scheduled_time
+          and scheduled_time is not null
+          and status in ('booked')
+          and id != coalesce(new.id, '00000000-0000-0000-0000-000000000000'::uuid);
+        
+        -- For new 'booked' records, check capacity
+        if new.status = 'booked' and slot_count >= max_capacity then
+            raise exception 'Shower slot % on % is at full capacity (% of % slots taken)', 
+                new.scheduled_time, new.scheduled_for, slot_count, max_capacity
+                using errcode = 'P0001';
+        end if;
+    end if;
+    
+    return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_shower_slot_capacity on public.shower_reservations;
+create trigger trg_shower_slot_capacity
+before insert or update on public.shower_reservations
+for each row execute function public.check_shower_slot_capacity();
+
+comment on function public.check_shower_slot_capacity() is 
+'Trigger function to enforce the scheduled number of guests per shower time slot. Prevents race conditions when multiple staff book simultaneously.';
+
+-- LAUNDRY SLOT CAPACITY CONSTRAINT  
+-- Limits guests per onsite slot to the slot_capacity in service_schedule (2 if unset)
+create or replace function public.check_laundry_slot_capacity()
+returns trigger as $$
+declare
+    slot_count integer;
+    max_capacity integer;
+begin
+    -- Only check for onsite laundry with a slot
+    if new.laundry_type = 'onsite' and new.slot_label is not null then
+        -- Only check active statuses
+        if new.status in ('waiting', 'washer', 'dryer') then
+            -- Moving a load through washer/dryer keeps the spot it already holds
+            if tg_op = 'UPDATE' and old.status in ('waiting', 'washer', 'dryer')
+               and old.laundry_type = 'onsite'
+               and old.scheduled_for = new.scheduled_for
+               and old.slot_label is not distinct from new.slot_label then
+                return new;
+            end if;
+
+            max_capacity := coalesce(
+                (public.service_hours_for('laundry', new.scheduled_for)).slot_capacity,
+                2
+            );
+
+            -- Count existing active bookings for this slot
+            select count(*) into slot_count
+            from public.laundry_bookings
+            where scheduled_for = new.scheduled_for
+              and slot_label = new.slot_label
+              and laundry_type = 'onsite'
+              and status in ('waiting', 'washer', 'dryer')
+              and id != coalesce(new.id, '00000000-0000-0000-0000-000000000000'::uuid);
+            
+            if slot_count >= max_capacity then
+                raise exception 'Laundry slot % on % is at full capacity (% of % slots taken)', 
+                    new.slot_label, new.scheduled_for, slot_count, max_capacity
+                    using errcode = 'P0001';
+            end if;
+        end if;
+    end if;
+    
+    return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_laundry_slot_capacity on public.laundry_bookings;
+create trigger trg_laundry_slot_capacity
+before insert or update on public.laundry_bookings
+for each row execute function public.check_laundry_slot_capacity();
+
+comment on function public.check_laundry_slot_capacity() is 
+'Trigger function to enforce the scheduled number of guests per onsite laundry slot. Prevents race conditions when multiple staff book simultaneously.';
+
+-- HELPER FUNCTION: Get available shower slots
+-- Returns the scheduled slots for a date with remaining capacity
+drop function if exists public.get_available_shower_slots(date, integer);
+create or replace function public.get_available_shower_slots(
+    check_date date,
+    max_per_slot integer default null -- defaults to the scheduled slot_capacity
+)
+returns table (
+    slot_time text,
+    current_count bigint,
+    available_spots integer
+) as $$
+declare
+    capacity integer := coalesce(
+        max_per_slot,
+        (public.service_hours_for('showers', check_date)).slot_capacity,
+        2
+    );
+begin
+    return query
+    with all_slots as (
+        select labels.time_slot
+        from public.service_slot_labels('showers', check_date) as labels(time_slot)
+    ),
+    booked_slots as (
+        select 
+            scheduled_time,
+            count(*) as booked_count
+        from public.shower_reservations
+        where scheduled_for = check_date
+          and status in ('booked')
+          and scheduled_time is not null
+        group by scheduled_time
+    )
+    select 
+        all_slots.time_slot as slot_time,
+        coalesce(booked_slots.booked_count, 0) as current_count,
+        (capacity - coalesce(booked_slots.booked_count, 0))::integer as available_spots
+    from all_slots
+    left join booked_slots on all_slots.time_slot = booked_slots.scheduled_time
+    order by all_slots.time_slot;
+end;
+$$ language plpgsql;
+
+-- HELPER FUNCTION: Get available laundry slots
+-- Returns the scheduled onsite slots for a date with remaining capacity
+drop function if exists public.get_available_laundry_slots(date, integer);
+create or replace function public.get_available_laundry_slots(
+    check_date date,
+    max_per_slot integer default null -- defaults to the scheduled slot_capacity
+)
+returns table (
+    slot_label text,
+    current_count bigint,
+    available_spots integer
+) as $$
+declare
+    capacity integer := coalesce(
+        max_per_slot,
+        (public.service_hours_for('laundry', check_date)).slot_capacity,
+        2
+    );
+begin
+    return query
+    with all_slots as (
+        select labels.time_slot
+        from public.service_slot_labels('laundry', check_date) as labels(time_slot)
+    ),
+    booked_slots as (
+        select 
+            lb.slot_label as slot,
+            count(*) as booked_count
+        from public.laundry_bookings lb
+        where lb.scheduled_for = check_date
+          and lb.laundry_type = 'onsite'
+          and lb.status in ('waiting', 'washer', 'dryer')
+          and lb.slot_label is not null
+        group by lb.slot_label
+    )
+    select 
+        all_slots.time_slot as slot_label,
+        coalesce(booked_slots.booked_count, 0) as current_count,
+        (capacity - coalesce(booked_slots.booked_count, 0))::integer as available_spots
+    from all_slots
+    left join booked_slots on all_slots.time_slot = booked_slots.slot
+    order by all_slots.time_slot;
+end;
+$$ language plpgsql;
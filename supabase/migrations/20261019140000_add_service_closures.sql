@@ -0,0 +1,165 @@
+-- Holiday and closure calendar. A closure row with no service closes every
+-- service that day. Closed days reject shower and laundry bookings and offer no slots.
+-- Requires PostgreSQL 15+ (unique nulls not distinct).
+
+create table if not exists public.service_closures (
+  id uuid primary key default gen_random_uuid(),
+  closed_on date not null,
+  service text check (service in ('meals', 'showers', 'laundry')),
+  reason text not null check (length(trim(reason)) > 0),
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  constraint service_closures_unique_day unique nulls not distinct (closed_on, service)
+);
+
+create index if not exists idx_service_closures_closed_on
+  on public.service_closures(closed_on);
+
+-- Closure in effect for a service on a date (a full-day closure wins)
+create or replace function public.service_closure_for(p_service text, p_date date)
+returns public.service_closures
+language sql
+stable
+as $$
+  select c.*
+    from public.service_closures c
+   where c.closed_on = p_date
+     and (c.service is null or c.service = p_service)
+   order by c.service nulls first
+   limit 1;
+$$;
+
+-- Rejects bookings on closed days; TG_ARGV[0] names the service
+create or replace function public.reject_closed_service_booking()
+returns trigger
+language plpgsql
+as $$
+declare
+  closure public.service_closures;
+begin
+  if tg_op = 'UPDATE' and old.scheduled_for is not distinct from new.scheduled_for then
+    return new;
+  end if;
+
+  closure := public.service_closure_for(tg_argv[0], new.scheduled_for);
+  if closure.id is not null then
+    raise exception '% closed on %: %', initcap(tg_argv[0]), new.scheduled_for, closure.reason
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_shower_reservations_closed on public.shower_reservations;
+create trigger trg_shower_reservations_closed
+before insert or update of scheduled_for on public.shower_reservations
+for each row execute function public.reject_closed_service_booking('showers');
+
+drop trigger if exists trg_laundry_bookings_closed on public.laundry_bookings;
+create trigger trg_laundry_bookings_closed
+before insert or update of scheduled_for on public.laundry_bookings
+for each row execute function public.reject_closed_service_booking('laundry');
+
+alter table public.service_closures enable row level security;
+
+drop policy if exists "Authenticated users can view service closures" on public.service_closures;
+create policy "Authenticated users can view service closures"
+  on public.service_closures for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with slots.block can manage service closures" on public.service_closures;
+create policy "Users with slots.block can manage service closures"
+  on public.service_closures for all
+  to authenticated
+  using (public.has_permission('slots.block'))
+  with check (public.has_permission('slots.block'));
+
+-- HELPER FUNCTION: Get available shower slots
+-- Returns the scheduled slots for a date with remaining capacity (none on closed days)
+create or replace function public.get_available_shower_slots(
+    check_date date,
+    max_per_slot integer default null -- defaults to the scheduled slot_capacity
+)
+returns table (
+    slot_time text,
+    current_count bigint,
+    available_spots integer
+) as $$
+declare
+    capacity integer := coalesce(
+        max_per_slot,
+        (public.service_hours_for('showers', check_date)).slot_capacity,
+        2
+    );
+begin
+    return query
+    with all_slots as (
+        select labels.time_slot
+        from public.service_slot_labels('showers', check_date) as labels(time_slot)
+        where (public.service_closure_for('showers', check_date)).id is null
+    ),
+    booked_slots as (
+        select 
+            scheduled_time,
+            count(*) as booked_count
+        from public.shower_reservations
+        where scheduled_for = check_date
+          and status in ('booked')
+          and scheduled_time is not null
+        group by scheduled_time
+    )
+    select 
+        all_slots.time_slot as slot_time,
+        coalesce(booked_slots.booked_count, 0) as current_count,
+        (capacity - coalesce(booked_slots.booked_count, 0))::integer as available_spots
+    from all_slots
+    left join booked_slots on all_slots.time_slot = booked_slots.scheduled_time
+    order by all_slots.time_slot;
+end;
+$$ language plpgsql;
+
+-- HELPER FUNCTION: Get available laundry slots
+-- Returns the scheduled onsite slots for a date with remaining capacity (none on closed days)
+create or replace function public.get_available_laundry_slots(
+    check_date date,
+    max_per_slot integer default null -- defaults to the scheduled slot_capacity
+)
+returns table (
+    slot_label text,
+    current_count bigint,
+    available_spots integer
+) as $$
+declare
+    capacity integer := coalesce(
+        max_per_slot,
+        (public.service_hours_for('laundry', check_date)).slot_capacity,
+        2
+    );
+begin
+    return query
+    with all_slots as (
+        select labels.time_slot
+        from public.service_slot_labels('laundry', check_date) as labels(time_slot)
+        where (public.service_closure_for('laundry', check_date)).id is null
+    ),
+    booked_slots as (
+        select 
+            lb.slot_label as slot,
+            count(*) as booked_count
+        from public.laundry_bookings lb
+        where lb.scheduled_for = check_date
+          and lb.laundry_type = 'onsite'
+          and lb.status in ('waiting', 'washer', 'dryer')
+          and lb.slot_label is not null
+        group by lb.slot_label
+    )
+    select 
+        all_slots.time_slot as slot_label,
+        coalesce(booked_slots.booked_count, 0) as current_count,
+        (capacity - coalesce(booked_slots.booked_count, 0))::integer as available_spots
+    from all_slots
+    left join booked_slots on all_slots.time_slot = booked_slots.slot
+    order by all_slots.time_slot;
+end;
+$$ language plpgsql;
@@ -0,0 +1,113 @@
+-- Admin-editable automatic bulk meal rules replacing the hard-coded weekday
+-- entries, with a scheduled, idempotent record_automatic_meals() job that
+-- catches up on missed days and links each entry to the rule that created it.
+
+create table if not exists public.automatic_meal_rules (
+  id uuid primary key default gen_random_uuid(),
+  weekday smallint not null check (weekday between 0 and 6), -- 0 = Sunday
+  meal_type public.meal_type_enum not null check (meal_type <> 'guest'),
+  quantity smallint not null check (quantity > 0),
+  note text,
+  starts_on date,
+  ends_on date,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint automatic_meal_rules_range check (ends_on is null or starts_on is null or ends_on >= starts_on)
+);
+
+drop trigger if exists trg_automatic_meal_rules_updated_at on public.automatic_meal_rules;
+create trigger trg_automatic_meal_rules_updated_at
+before update on public.automatic_meal_rules
+for each row execute function public.touch_updated_at();
+
+-- Seed mirrors the entries that used to be hard-coded in checkAndAddAutomaticMeals
+insert into public.automatic_meal_rules (weekday, meal_type, quantity, note)
+select v.weekday, v.meal_type::public.meal_type_enum, v.quantity, v.note
+  from (values
+    (1, 'rv', 100, 'Automatic Entry (Mon)'),
+    (3, 'rv', 40, 'Automatic Entry (Wed)'),
+    (4, 'rv', 100, 'Automatic Entry (Thu)'),
+    (6, 'lunch_bag', 100, 'Automatic Entry (Sat)'),
+    (6, 'rv', 100, 'Automatic Entry (Sat)'),
+    (6, 'day_worker', 50, 'Automatic Entry (Sat)')
+  ) as v(weekday, meal_type, quantity, note)
+ where not exists (select 1 from public.automatic_meal_rules);
+
+-- Which rule created an automatic entry (null for entries made by hand)
+alter table public.meal_attendance
+  add column if not exists automatic_rule_id uuid references public.automatic_meal_rules(id) on delete set null;
+
+create index if not exists meal_attendance_automatic_rule_idx
+  on public.meal_attendance (automatic_rule_id, served_on desc)
+  where automatic_rule_id is not null;
+
+-- Record every rule due from p_days_back days ago through p_through.
+-- Skips closed days and days with no service scheduled; returns rows inserted.
+create or replace function public.record_automatic_meals(
+  p_through date default (now() at time zone 'America/Los_Angeles')::date,
+  p_days_back integer default 7
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  insert into public.meal_attendance
+    (guest_id, meal_type, quantity, served_on, notes, deduplication_key, automatic_rule_id)
+  select null, r.meal_type, r.quantity, d.day, coalesce(nullif(trim(r.note), ''), 'Automatic Entry'),
+         'auto_' || r.id::text || '_' || d.day::text, r.id
+    from generate_series(p_through - p_days_back, p_through, interval '1 day') as g(ts)
+   cross join lateral (select g.ts::date as day) d
+    join public.automatic_meal_rules r
+      on r.active
+     and r.weekday = extract(dow from d.day)::int
+     and (r.starts_on is null or d.day >= r.starts_on)
+     and (r.ends_on is null or d.day <= r.ends_on)
+   where (public.service_closure_for('meals', d.day)).id is null
+     and exists (
+       select 1 from unnest(array['meals', 'showers', 'laundry']) as s(service)
+        where (public.service_hours_for(s.service, d.day)).is_open
+     )
+     -- Entries the app recorded before rules existed used "<meal_type>_<date>" keys
+     and not exists (
+       select 1 from public.meal_attendance m
+        where m.deduplication_key = r.meal_type::text || '_' || d.day::text
+     )
+  on conflict (deduplication_key) do nothing;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+comment on function public.record_automatic_meals(date, integer) is 'Inserts due automatic meal entries (idempotent); run daily by pg_cron and on app start';
+
+grant execute on function public.record_automatic_meals(date, integer) to authenticated;
+
+-- Daily at 15:15 UTC (early morning Pacific) when pg_cron is available
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('record-automatic-meals', '15 15 * * *', 'select public.record_automatic_meals()');
+  end if;
+end;
+$$;
+
+alter table public.automatic_meal_rules enable row level security;
+
+drop policy if exists "Authenticated users can view automatic meal rules" on public.automatic_meal_rules;
+create policy "Authenticated users can view automatic meal rules"
+  on public.automatic_meal_rules for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage automatic meal rules" on public.automatic_meal_rules;
+create policy "Users with settings.manage can manage automatic meal rules"
+  on public.automatic_meal_rules for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
@@ -0,0 +1,15 @@
+-- Parts consumed, mechanic name and minutes spent per bicycle repair so the
+-- Kanban can show parts used and reports can total parts cost and labor hours.
+
+alter table public.bicycle_repairs
+  add column if not exists parts jsonb not null default '[]'::jsonb,
+  add column if not exists mechanic_name text,
+  add column if not exists labor_minutes integer;
+
+alter table public.bicycle_repairs
+  drop constraint if exists bicycle_repairs_parts_is_array,
+  add constraint bicycle_repairs_parts_is_array check (jsonb_typeof(parts) = 'array');
+
+alter table public.bicycle_repairs
+  drop constraint if exists bicycle_repairs_labor_minutes_check,
+  add constraint bicycle_repairs_labor_minutes_check check (labor_minutes is null or labor_minutes >= 0);
@@ -0,0 +1,85 @@
+-- Managed bicycle repair type catalog (label, category, default priority,
+-- estimated minutes, active flag) replacing the hard-coded list in the booking
+-- modal. Renames carry through to existing repairs; retired types still resolve.
+
+create table if not exists public.bicycle_repair_types (
+  key text primary key check (key ~ '^[a-z0-9_]+$'),
+  label text not null,
+  category text not null default 'repair'
+    check (category in ('repair', 'maintenance', 'accessory', 'new_bicycle', 'other')),
+  default_priority integer not null default 0,
+  estimated_minutes integer check (estimated_minutes >= 0),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists bicycle_repair_types_label_key
+  on public.bicycle_repair_types (lower(label));
+
+drop trigger if exists trg_bicycle_repair_types_updated_at on public.bicycle_repair_types;
+create trigger trg_bicycle_repair_types_updated_at
+before update on public.bicycle_repair_types
+for each row execute function public.touch_updated_at();
+
+-- Seed mirrors the list that used to be hard-coded in BicycleRepairBookingModal
+insert into public.bicycle_repair_types (key, label, category, estimated_minutes, sort_order) values
+  ('new_bicycle', 'New Bicycle', 'new_bicycle', null, 10),
+  ('flat_tire', 'Flat Tire', 'repair', 15, 20),
+  ('brake_adjustment', 'Brake Adjustment', 'maintenance', 15, 30),
+  ('gear_adjustment', 'Gear Adjustment', 'maintenance', 20, 40),
+  ('chain_replacement', 'Chain Replacement', 'repair', 20, 50),
+  ('wheel_truing', 'Wheel Truing', 'repair', 30, 60),
+  ('basic_tune_up', 'Basic Tune Up', 'maintenance', 45, 70),
+  ('drivetrain_cleaning', 'Drivetrain Cleaning', 'maintenance', 30, 80),
+  ('cable_replacement', 'Cable Replacement', 'repair', 20, 90),
+  ('headset_adjustment', 'Headset Adjustment', 'maintenance', 15, 100),
+  ('seat_adjustment', 'Seat Adjustment', 'maintenance', 5, 110),
+  ('kickstand', 'Kickstand', 'accessory', 10, 120),
+  ('basket_rack', 'Basket/Rack', 'accessory', 15, 130),
+  ('bike_lights', 'Bike Lights', 'accessory', 5, 140),
+  ('lock', 'Lock', 'accessory', 5, 150),
+  ('new_tube', 'New Tube', 'repair', 15, 160),
+  ('new_tire', 'New Tire', 'repair', 20, 170),
+  ('other', 'Other', 'other', null, 1000)
+on conflict (key) do nothing;
+
+-- Repairs store type labels, so carry a rename through to existing repairs
+create or replace function public.rename_bicycle_repair_type()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.label is distinct from old.label then
+    update public.bicycle_repairs
+       set repair_types = array_replace(repair_types, old.label, new.label),
+           completed_repairs = array_replace(completed_repairs, old.label, new.label),
+           repair_type = case when repair_type = old.label then new.label else repair_type end
+     where old.label = any(repair_types) or repair_type = old.label;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_bicycle_repair_types_rename on public.bicycle_repair_types;
+create trigger trg_bicycle_repair_types_rename
+after update of label on public.bicycle_repair_types
+for each row execute function public.rename_bicycle_repair_type();
+
+alter table public.bicycle_repair_types enable row level security;
+
+drop policy if exists "Authenticated users can view bicycle repair types" on public.bicycle_repair_types;
+create policy "Authenticated users can view bicycle repair types"
+  on public.bicycle_repair_types for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage bicycle repair types" on public.bicycle_repair_types;
+create policy "Users with settings.manage can manage bicycle repair types"
+  on public.bicycle_repair_types for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
@@ -0,0 +1,90 @@
+-- Off-site laundry vendor batches: group a day's off-site bags into a run,
+-- move the run and its bookings through transported/returned together, and
+-- leave bags that did not come back flagged as transported.
+
+create table if not exists public.laundry_batches (
+  id uuid primary key default gen_random_uuid(),
+  service_date date not null,
+  vendor text not null check (length(trim(vendor)) > 0),
+  status text not null default 'open' check (status in ('open', 'transported', 'returned')),
+  transported_at timestamptz,
+  returned_at timestamptz,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_laundry_batches_service_date
+  on public.laundry_batches(service_date desc);
+
+drop trigger if exists trg_laundry_batches_updated_at on public.laundry_batches;
+create trigger trg_laundry_batches_updated_at
+before update on public.laundry_batches
+for each row execute function public.touch_updated_at();
+
+alter table public.laundry_bookings
+  add column if not exists batch_id uuid references public.laundry_batches(id) on delete set null;
+
+create index if not exists laundry_batch_id_idx
+  on public.laundry_bookings (batch_id)
+  where batch_id is not null;
+
+-- Mark a batch transported or returned along with its bookings. On return,
+-- p_returned_ids lists the bags that came back (null means all of them).
+create or replace function public.advance_laundry_batch(
+  p_batch_id uuid,
+  p_status text,
+  p_returned_ids uuid[] default null
+)
+returns public.laundry_batches
+language plpgsql
+as $$
+declare
+  batch public.laundry_batches;
+begin
+  select * into batch from public.laundry_batches where id = p_batch_id for update;
+  if batch.id is null then
+    raise exception 'Laundry batch % not found', p_batch_id using errcode = 'P0002';
+  end if;
+
+  if p_status = 'transported' and batch.status = 'open' then
+    update public.laundry_bookings
+       set status = 'transported'
+     where batch_id = p_batch_id
+       and status in ('pending', 'waiting');
+    update public.laundry_batches
+       set status = 'transported', transported_at = now()
+     where id = p_batch_id
+    returning * into batch;
+  elsif p_status = 'returned' and batch.status = 'transported' then
+    update public.laundry_bookings
+       set status = 'returned'
+     where batch_id = p_batch_id
+       and status = 'transported'
+       and (p_returned_ids is null or id = any(p_returned_ids));
+    update public.laundry_batches
+       set status = 'returned', returned_at = now()
+     where id = p_batch_id
+    returning * into batch;
+  else
+    raise exception 'Cannot mark a % batch as %', batch.status, p_status using errcode = 'P0001';
+  end if;
+
+  return batch;
+end;
+$$;
+
+alter table public.laundry_batches enable row level security;
+
+drop policy if exists "Authenticated users can view laundry batches" on public.laundry_batches;
+create policy "Authenticated users can view laundry batches"
+  on public.laundry_batches for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Authenticated users can manage laundry batches" on public.laundry_batches;
+create policy "Authenticated users can manage laundry batches"
+  on public.laundry_batches for all
+  to authenticated, anon
+  using (true)
+  with check (true);
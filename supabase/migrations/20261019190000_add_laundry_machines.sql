@@ -0,0 +1,39 @@
+-- Washer and dryer registry (number, cycle length, out-of-service flag) and
+-- the machine and cycle start recorded on on-site loads, for per-machine
+-- countdowns on the laundry board.
+
+create table if not exists public.laundry_machines (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('washer', 'dryer')),
+  number smallint not null check (number > 0),
+  cycle_minutes smallint not null check (cycle_minutes > 0),
+  out_of_service boolean not null default false,
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint laundry_machines_unique_number unique (kind, number)
+);
+
+drop trigger if exists trg_laundry_machines_updated_at on public.laundry_machines;
+create trigger trg_laundry_machines_updated_at
+before update on public.laundry_machines
+for each row execute function public.touch_updated_at();
+
+alter table public.laundry_bookings
+  add column if not exists machine_id uuid references public.laundry_machines(id) on delete set null,
+  add column if not exists cycle_started_at timestamptz;
+
+alter table public.laundry_machines enable row level security;
+
+drop policy if exists "Authenticated users can view laundry machines" on public.laundry_machines;
+create policy "Authenticated users can view laundry machines"
+  on public.laundry_machines for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage laundry machines" on public.laundry_machines;
+create policy "Users with settings.manage can manage laundry machines"
+  on public.laundry_machines for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
@@ -0,0 +1,14 @@
+-- Shower stall tracking: the stall a guest is in, start and finish times, and
+-- when the stall was cleaned afterwards, for the live stall board and
+-- shower duration stats.
+
+alter table public.shower_reservations
+  add column if not exists stall_number smallint check (stall_number > 0),
+  add column if not exists started_at timestamptz,
+  add column if not exists finished_at timestamptz,
+  add column if not exists stall_cleaned_at timestamptz;
+
+-- A stall holds one guest at a time
+create unique index if not exists shower_stall_in_use
+  on public.shower_reservations (scheduled_for, stall_number)
+  where stall_number is not null and started_at is not null and finished_at is null;
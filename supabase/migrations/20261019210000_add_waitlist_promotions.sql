@@ -0,0 +1,93 @@
+-- Waitlist auto-promotion: when a booked shower is cancelled or marked
+-- no-show, the next waitlisted guest for that day takes the freed slot,
+-- and every promotion is logged for the timeline and cross-device toasts.
+
+create table if not exists public.waitlist_promotions (
+  id uuid primary key default gen_random_uuid(),
+  service_type text not null default 'shower' check (service_type in ('shower', 'laundry')),
+  record_id uuid not null,          -- booking that came off the waitlist
+  guest_id uuid references public.guests(id) on delete cascade,
+  freed_record_id uuid,             -- booking that was cancelled or marked no-show
+  freed_status text not null,
+  scheduled_for date not null,
+  slot_label text not null,
+  promoted_at timestamptz not null default now()
+);
+
+create index if not exists waitlist_promotions_date_idx
+  on public.waitlist_promotions (scheduled_for desc, promoted_at desc);
+
+alter table public.waitlist_promotions enable row level security;
+
+drop policy if exists "Authenticated users can view waitlist promotions" on public.waitlist_promotions;
+create policy "Authenticated users can view waitlist promotions"
+  on public.waitlist_promotions for select
+  to authenticated, anon
+  using (true);
+
+-- Rows are only written by promote_shower_waitlist()
+create or replace function public.promote_shower_waitlist()
+returns trigger as $$
+declare
+    candidate record;
+begin
+    if old.status <> 'booked' or new.status not in ('cancelled', 'no_show')
+       or old.scheduled_time is null then
+        return new;
+    end if;
+
+    -- A blocked slot is not offered to anyone
+    if exists (
+        select 1 from public.blocked_slots
+        where service_type = 'shower'
+          and date = old.scheduled_for::text
+          and slot_time = old.scheduled_time
+    ) then
+        return new;
+    end if;
+
+    for candidate in
+        select id, guest_id
+        from public.shower_reservations
+        where scheduled_for = old.scheduled_for
+          and status = 'waitlisted'
+        order by waitlist_position nulls last, created_at
+        for update skip locked
+    loop
+        begin
+            -- Capacity and ban checks run in the row triggers; a refusal moves on to the next guest
+            update public.shower_reservations
+            set status = 'booked',
+                scheduled_time = old.scheduled_time,
+                waitlist_position = null
+            where id = candidate.id;
+
+            insert into public.waitlist_promotions
+                (service_type, record_id, guest_id, freed_record_id, freed_status, scheduled_for, slot_label)
+            values
+                ('shower', candidate.id, candidate.guest_id, old.id, new.status::text, old.scheduled_for, old.scheduled_time);
+
+            return new;
+        exception when raise_exception then
+            continue;
+        end;
+    end loop;
+
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_shower_waitlist_promotion on public.shower_reservations;
+create trigger trg_shower_waitlist_promotion
+after update of status on public.shower_reservations
+for each row execute function public.promote_shower_waitlist();
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and tablename = 'waitlist_promotions'
+  ) then
+    alter publication supabase_realtime add table public.waitlist_promotions;
+  end if;
+end $$;
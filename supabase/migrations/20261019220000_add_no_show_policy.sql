@@ -0,0 +1,15 @@
+-- No-show policy: how many shower no-shows within a rolling window put a
+-- guest on waitlist-only, and for how long.
+
+alter table public.app_settings
+  add column if not exists no_show_policy jsonb not null default jsonb_build_object(
+    'enabled', true,
+    'threshold', 3,
+    'windowDays', 30,
+    'restrictionDays', 7
+  );
+
+-- Counting no-shows per guest over a date range
+create index if not exists shower_no_show_idx
+  on public.shower_reservations (guest_id, scheduled_for)
+  where status = 'no_show';
@@ -0,0 +1,175 @@
+-- Ban history: bans move to guest_bans (scope, reason, issued by, start/end,
+-- lifted by) instead of being overwritten on the guests row. The guard
+-- trigger checks active rows there, so expired bans stop applying on their
+-- own, and the guests ban columns become a trigger-maintained copy of the
+-- current ban.
+
+create table if not exists public.guest_bans (
+  id uuid primary key default gen_random_uuid(),
+  guest_id uuid not null references public.guests(id) on delete cascade,
+  reason text,
+  -- All four false means a blanket ban from every service
+  banned_from_bicycle boolean not null default false,
+  banned_from_meals boolean not null default false,
+  banned_from_shower boolean not null default false,
+  banned_from_laundry boolean not null default false,
+  issued_by text,
+  starts_at timestamptz not null default now(),
+  ends_at timestamptz not null,
+  lifted_at timestamptz,
+  lifted_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint guest_bans_window_valid check (ends_at > starts_at)
+);
+
+create index if not exists guest_bans_guest_idx
+  on public.guest_bans (guest_id, starts_at desc);
+
+create index if not exists guest_bans_active_idx
+  on public.guest_bans (guest_id, ends_at)
+  where lifted_at is null;
+
+drop trigger if exists trg_guest_bans_updated_at on public.guest_bans;
+create trigger trg_guest_bans_updated_at
+before update on public.guest_bans
+for each row execute function public.touch_updated_at();
+
+alter table public.guest_bans enable row level security;
+
+drop policy if exists "Authenticated users can view guest bans" on public.guest_bans;
+create policy "Authenticated users can view guest bans"
+  on public.guest_bans for select
+  to authenticated
+  using (true);
+
+-- No delete policy: lifting a ban sets lifted_at so the history survives
+drop policy if exists "Users with guests.ban can issue bans" on public.guest_bans;
+create policy "Users with guests.ban can issue bans"
+  on public.guest_bans for insert
+  to authenticated
+  with check (public.has_permission('guests.ban'));
+
+drop policy if exists "Users with guests.ban can update bans" on public.guest_bans;
+create policy "Users with guests.ban can update bans"
+  on public.guest_bans for update
+  to authenticated
+  using (public.has_permission('guests.ban'))
+  with check (public.has_permission('guests.ban'));
+
+-- Copy the guest's latest unlifted, unexpired ban onto the guests row so
+-- guest lists keep their ban columns; an empty result clears them
+create or replace function public.sync_guest_current_ban()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_ban public.guest_bans%rowtype;
+begin
+  select * into current_ban
+  from public.guest_bans
+  where guest_id = new.guest_id
+    and lifted_at is null
+    and ends_at > now()
+  order by starts_at desc
+  limit 1;
+
+  update public.guests
+  set ban_reason = current_ban.reason,
+      banned_at = current_ban.starts_at,
+      banned_until = current_ban.ends_at,
+      banned_from_bicycle = coalesce(current_ban.banned_from_bicycle, false),
+      banned_from_meals = coalesce(current_ban.banned_from_meals, false),
+      banned_from_shower = coalesce(current_ban.banned_from_shower, false),
+      banned_from_laundry = coalesce(current_ban.banned_from_laundry, false)
+  where id = new.guest_id;
+
+  return null;
+end;
+$$;
+
+-- Existing bans (current and expired) become the first history rows.
+-- Runs before the sync trigger exists so guests rows are left as they are.
+insert into public.guest_bans (
+  guest_id, reason,
+  banned_from_bicycle, banned_from_meals, banned_from_shower, banned_from_laundry,
+  starts_at, ends_at
+)
+select g.id, nullif(g.ban_reason, ''),
+       coalesce(g.banned_from_bicycle, false), coalesce(g.banned_from_meals, false),
+       coalesce(g.banned_from_shower, false), coalesce(g.banned_from_laundry, false),
+       coalesce(g.banned_at, g.created_at), g.banned_until
+from public.guests g
+where g.banned_until is not null
+  and g.banned_until > coalesce(g.banned_at, g.created_at)
+  and not exists (select 1 from public.guest_bans b where b.guest_id = g.id);
+
+drop trigger if exists trg_guest_bans_sync_guest on public.guest_bans;
+create trigger trg_guest_bans_sync_guest
+after insert or update on public.guest_bans
+for each row execute function public.sync_guest_current_ban();
+
+create or replace function public.ensure_guest_not_banned()
+returns trigger as $$
+declare
+  active_ban record;
+  guest_name text;
+  service_label text;
+  normalized_service text;
+  service_key text;
+  is_blanket boolean;
+begin
+  if new.guest_id is null then
+    return new;
+  end if;
+
+  service_label := CASE WHEN TG_NARGS > 0 THEN TG_ARGV[0] ELSE NULL END;
+  normalized_service := lower(trim(coalesce(service_label, '')));
+  service_key := case
+    when normalized_service in ('meals', 'meal service', 'meal') then 'meals'
+    when normalized_service in ('shower', 'showers', 'shower booking', 'shower bookings') then 'showers'
+    when normalized_service in ('laundry', 'laundry booking', 'laundry bookings') then 'laundry'
+    when normalized_service in ('bicycle repairs', 'bicycle repair', 'bicycle') then 'bicycle repairs'
+    else null
+  end;
+
+  -- Bans come from guest_bans history; lifted and expired rows never block
+  for active_ban in
+    select b.reason, b.ends_at,
+           b.banned_from_bicycle, b.banned_from_meals,
+           b.banned_from_shower, b.banned_from_laundry
+    from public.guest_bans b
+    where b.guest_id = new.guest_id
+      and b.lifted_at is null
+      and b.starts_at <= now()
+      and b.ends_at > now()
+    order by b.ends_at desc
+  loop
+    -- No program flags means a blanket ban from every service
+    is_blanket := not (active_ban.banned_from_bicycle or active_ban.banned_from_meals
+      or active_ban.banned_from_shower or active_ban.banned_from_laundry);
+
+    if is_blanket
+       or (service_key = 'meals' and active_ban.banned_from_meals)
+       or (service_key = 'showers' and active_ban.banned_from_shower)
+       or (service_key = 'laundry' and active_ban.banned_from_laundry)
+       or (service_key = 'bicycle repairs' and active_ban.banned_from_bicycle) then
+      select g.full_name into guest_name from public.guests g where g.id = new.guest_id;
+
+      raise exception using
+        message = format(
+          'Guest %s is banned from %s until %s',
+          coalesce(guest_name, new.guest_id::text),
+          case when is_blanket then 'services' else service_key end,
+          to_char(active_ban.ends_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI"Z"')
+        ),
+        detail = coalesce(active_ban.reason, ''),
+        hint = 'Update the guest''s ban settings or wait until it expires.';
+    end if;
+  end loop;
+
+  return new;
+end;
+$$ language plpgsql;
@@ -0,0 +1,24 @@
+-- Guest identification photos in a private storage bucket.
+-- Viewing and taking photos require guests.photos.
+
+insert into public.role_permissions (role, permission) values
+  ('admin', 'guests.photos'),
+  ('staff', 'guests.photos')
+on conflict (role, permission) do nothing;
+
+alter table public.guests
+  add column if not exists photo_path text;
+
+comment on column public.guests.photo_path is 'Object path of the guest''s identification photo in the guest-photos storage bucket';
+
+-- Private bucket: photos are served through short-lived signed URLs
+insert into storage.buckets (id, name, public)
+values ('guest-photos', 'guest-photos', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Users with guests.photos can manage guest photos" on storage.objects;
+create policy "Users with guests.photos can manage guest photos"
+  on storage.objects for all
+  to authenticated
+  using (bucket_id = 'guest-photos' and public.has_permission('guests.photos'))
+  with check (bucket_id = 'guest-photos' and public.has_permission('guests.photos'));
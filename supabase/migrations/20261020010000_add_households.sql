@@ -0,0 +1,94 @@
+-- Households: families and other groups served together, with a head of
+-- household, member roles and an optional combined daily meal allowance.
+-- guest_proxies stays as-is for pickup partners.
+
+create table if not exists public.households (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  head_guest_id uuid references public.guests(id) on delete set null,
+  -- Base meals per day for all members together; null = per-guest limits only
+  meal_allowance integer,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint households_name_present check (length(trim(name)) > 0),
+  constraint households_meal_allowance_positive check (meal_allowance is null or meal_allowance > 0)
+);
+
+create table if not exists public.household_members (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references public.households(id) on delete cascade,
+  guest_id uuid not null references public.guests(id) on delete cascade,
+  role text not null default 'other',
+  created_at timestamptz not null default now(),
+  constraint household_members_role_valid check (role in ('head', 'partner', 'child', 'parent', 'relative', 'other')),
+  constraint household_members_one_household unique (guest_id)
+);
+
+create index if not exists household_members_household_idx
+  on public.household_members (household_id);
+
+create unique index if not exists household_members_one_head_idx
+  on public.household_members (household_id)
+  where role = 'head';
+
+drop trigger if exists trg_households_updated_at on public.households;
+create trigger trg_households_updated_at
+before update on public.households
+for each row execute function public.touch_updated_at();
+
+-- Keep households.head_guest_id in step with the member flagged as head
+create or replace function public.sync_household_head()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (TG_OP in ('UPDATE', 'DELETE')) and old.role = 'head' then
+    update public.households
+    set head_guest_id = null
+    where id = old.household_id and head_guest_id = old.guest_id;
+  end if;
+
+  if (TG_OP in ('INSERT', 'UPDATE')) and new.role = 'head' then
+    update public.households
+    set head_guest_id = new.guest_id
+    where id = new.household_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_household_members_sync_head on public.household_members;
+create trigger trg_household_members_sync_head
+after insert or update or delete on public.household_members
+for each row execute function public.sync_household_head();
+
+alter table public.households enable row level security;
+alter table public.household_members enable row level security;
+
+drop policy if exists "Authenticated users can view households" on public.households;
+create policy "Authenticated users can view households"
+  on public.households for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated users can manage households" on public.households;
+create policy "Authenticated users can manage households"
+  on public.households for all
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "Authenticated users can view household members" on public.household_members;
+create policy "Authenticated users can view household members"
+  on public.household_members for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Authenticated users can manage household members" on public.household_members;
+create policy "Authenticated users can manage household members"
+  on public.household_members for all
+  to authenticated
+  using (true)
+  with check (true);
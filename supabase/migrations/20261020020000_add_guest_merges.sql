@@ -0,0 +1,364 @@
+-- Guest merges: fold a duplicate guest record into the one staff keep.
+-- merge_guests() moves every record of the duplicate onto the kept guest and
+-- logs what it moved in guest_merges; undo_guest_merge() reverses it within
+-- 24 hours.
+
+-- Re-pointed history must not trip the ban guard
+create or replace function public.ensure_guest_not_banned()
+returns trigger as $$
+declare
+  active_ban record;
+  guest_name text;
+  service_label text;
+  normalized_service text;
+  service_key text;
+  is_blanket boolean;
+begin
+  if new.guest_id is null then
+    return new;
+  end if;
+
+  -- merge_guests re-points past records; moving history is not a new visit
+  if TG_OP = 'UPDATE' and current_setting('app.guest_merge', true) = 'on' then
+    return new;
+  end if;
+
+  service_label := CASE WHEN TG_NARGS > 0 THEN TG_ARGV[0] ELSE NULL END;
+  normalized_service := lower(trim(coalesce(service_label, '')));
+  service_key := case
+    when normalized_service in ('meals', 'meal service', 'meal') then 'meals'
+    when normalized_service in ('shower', 'showers', 'shower booking', 'shower bookings') then 'showers'
+    when normalized_service in ('laundry', 'laundry booking', 'laundry bookings') then 'laundry'
+    when normalized_service in ('bicycle repairs', 'bicycle repair', 'bicycle') then 'bicycle repairs'
+    else null
+  end;
+
+  -- Bans come from guest_bans history; lifted and expired rows never block
+  for active_ban in
+    select b.reason, b.ends_at,
+           b.banned_from_bicycle, b.banned_from_meals,
+           b.banned_from_shower, b.banned_from_laundry
+    from public.guest_bans b
+    where b.guest_id = new.guest_id
+      and b.lifted_at is null
+      and b.starts_at <= now()
+      and b.ends_at > now()
+    order by b.ends_at desc
+  loop
+    -- No program flags means a blanket ban from every service
+    is_blanket := not (active_ban.banned_from_bicycle or active_ban.banned_from_meals
+      or active_ban.banned_from_shower or active_ban.banned_from_laundry);
+
+    if is_blanket
+       or (service_key = 'meals' and active_ban.banned_from_meals)
+       or (service_key = 'showers' and active_ban.banned_from_shower)
+       or (service_key = 'laundry' and active_ban.banned_from_laundry)
+       or (service_key = 'bicycle repairs' and active_ban.banned_from_bicycle) then
+      select g.full_name into guest_name from public.guests g where g.id = new.guest_id;
+
+      raise exception using
+        message = format(
+          'Guest %s is banned from %s until %s',
+          coalesce(guest_name, new.guest_id::text),
+          case when is_blanket then 'services' else service_key end,
+          to_char(active_ban.ends_at at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI"Z"')
+        ),
+        detail = coalesce(active_ban.reason, ''),
+        hint = 'Update the guest''s ban settings or wait until it expires.';
+    end if;
+  end loop;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create table if not exists public.guest_merges (
+  id uuid primary key default gen_random_uuid(),
+  kept_guest_id uuid not null references public.guests(id) on delete cascade,
+  merged_guest_id uuid not null,           -- the deleted duplicate
+  merged_guest jsonb not null,             -- its guests row as it was
+  kept_guest_before jsonb not null,        -- the kept guests row before field changes
+  moved_rows jsonb not null default '{}',  -- {"table.column": [ids]} re-pointed rows
+  converted_meal_ids uuid[] not null default '{}',    -- same-day guest meals turned into extras
+  dismissed_waiver_ids uuid[] not null default '{}',  -- active waivers the kept guest already had
+  removed_proxies jsonb not null default '[]',        -- links that would have become duplicates or self-links
+  removed_household_member jsonb,                     -- membership dropped when both were in a household
+  merged_by text,
+  merged_at timestamptz not null default now(),
+  undo_until timestamptz not null default now() + interval '24 hours',
+  undone_at timestamptz
+);
+
+create index if not exists guest_merges_merged_at_idx
+  on public.guest_merges (merged_at desc);
+
+alter table public.guest_merges enable row level security;
+
+-- Rows are only written by merge_guests() and undo_guest_merge()
+drop policy if exists "Users with guests.delete can view guest merges" on public.guest_merges;
+create policy "Users with guests.delete can view guest merges"
+  on public.guest_merges for select
+  to authenticated
+  using (public.has_permission('guests.delete'));
+
+create or replace function public.merge_guests(
+  p_keep_id uuid,
+  p_merge_id uuid,
+  p_fields jsonb default '{}',
+  p_merged_by text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  kept public.guests%rowtype;
+  duplicate public.guests%rowtype;
+  target text;
+  moved_ids jsonb;
+  moved jsonb := '{}';
+  converted uuid[];
+  dismissed uuid[];
+  proxies jsonb;
+  membership jsonb;
+  clash date;
+  merge_id uuid;
+begin
+  if not public.has_permission('guests.delete') then
+    raise exception 'Merging guests requires the guests.delete permission';
+  end if;
+  if p_keep_id = p_merge_id then
+    raise exception 'Cannot merge a guest into itself';
+  end if;
+
+  select * into kept from public.guests where id = p_keep_id for update;
+  select * into duplicate from public.guests where id = p_merge_id for update;
+  if kept.id is null or duplicate.id is null then
+    raise exception 'Guest not found';
+  end if;
+
+  -- One shower and one laundry booking per guest per day: staff pick which to keep
+  select s.scheduled_for into clash
+  from public.shower_reservations s
+  join public.shower_reservations k on k.scheduled_for = s.scheduled_for and k.guest_id = p_keep_id
+  where s.guest_id = p_merge_id
+  limit 1;
+  if clash is not null then
+    raise exception 'Both guests have a shower booking on %; cancel one before merging', clash;
+  end if;
+
+  select l.scheduled_for into clash
+  from public.laundry_bookings l
+  join public.laundry_bookings k on k.scheduled_for = l.scheduled_for and k.guest_id = p_keep_id
+  where l.guest_id = p_merge_id
+  limit 1;
+  if clash is not null then
+    raise exception 'Both guests have a laundry booking on %; cancel one before merging', clash;
+  end if;
+
+  perform set_config('app.guest_merge', 'on', true);
+
+  -- A second primary meal on the same day was still served; keep it as an extra
+  with changed as (
+    update public.meal_attendance m
+    set meal_type = 'extra'
+    where m.guest_id = p_merge_id
+      and m.meal_type = 'guest'
+      and exists (
+        select 1 from public.meal_attendance k
+        where k.guest_id = p_keep_id and k.meal_type = 'guest' and k.served_on = m.served_on
+      )
+    returning m.id
+  )
+  select coalesce(array_agg(id), '{}') into converted from changed;
+
+  -- The kept guest's active waiver wins; the duplicate's is kept as dismissed
+  with changed as (
+    update public.service_waivers w
+    set dismissed_at = now(),
+        dismissed_reason = 'Merged duplicate guest record'
+    where w.guest_id = p_merge_id
+      and w.dismissed_at is null
+      and exists (
+        select 1 from public.service_waivers k
+        where k.guest_id = p_keep_id and k.service_type = w.service_type and k.dismissed_at is null
+      )
+    returning w.id
+  )
+  select coalesce(array_agg(id), '{}') into dismissed from changed;
+
+  -- Links between the two guests, or to someone the kept guest is already linked with
+  select coalesce(jsonb_agg(to_jsonb(p)), '[]') into proxies
+  from public.guest_proxies p
+  where (p.guest_id = p_merge_id and (p.proxy_id = p_keep_id or p.proxy_id in (
+          select proxy_id from public.guest_proxies where guest_id = p_keep_id)))
+     or (p.proxy_id = p_merge_id and (p.guest_id = p_keep_id or p.guest_id in (
+          select guest_id from public.guest_proxies where proxy_id = p_keep_id)));
+  delete from public.guest_proxies
+  where id in (select (value->>'id')::uuid from jsonb_array_elements(proxies));
+
+  -- A guest belongs to one household; the kept guest's membership wins
+  select to_jsonb(h) into membership
+  from public.household_members h
+  where h.guest_id = p_merge_id
+    and exists (select 1 from public.household_members k where k.guest_id = p_keep_id);
+  if membership is not null then
+    delete from public.household_members where id = (membership->>'id')::uuid;
+  end if;
+
+  foreach target in array array[
+    'meal_attendance.guest_id',
+    'meal_attendance.picked_up_by_guest_id',
+    'shower_reservations.guest_id',
+    'laundry_bookings.guest_id',
+    'bicycle_repairs.guest_id',
+    'holiday_visits.guest_id',
+    'haircut_visits.guest_id',
+    'items_distributed.guest_id',
+    'guest_warnings.guest_id',
+    'guest_reminders.guest_id',
+    'guest_bans.guest_id',
+    'service_waivers.guest_id',
+    'waitlist_promotions.guest_id',
+    'guest_proxies.guest_id',
+    'guest_proxies.proxy_id',
+    'household_members.guest_id'
+  ] loop
+    execute format(
+      'with moved as (update public.%I set %I = $1 where %I = $2 returning id) '
+      'select coalesce(jsonb_agg(id), ''[]'') from moved',
+      split_part(target, '.', 1), split_part(target, '.', 2), split_part(target, '.', 2)
+    ) into moved_ids using p_keep_id, p_merge_id;
+    if jsonb_array_length(moved_ids) > 0 then
+      moved := moved || jsonb_build_object(target, moved_ids);
+    end if;
+  end loop;
+
+  update public.guests g
+  set first_name = coalesce(p_fields->>'first_name', g.first_name),
+      last_name = coalesce(p_fields->>'last_name', g.last_name),
+      full_name = trim(coalesce(p_fields->>'first_name', g.first_name) || ' ' || coalesce(p_fields->>'last_name', g.last_name)),
+      preferred_name = case when p_fields ? 'preferred_name' then p_fields->>'preferred_name' else g.preferred_name end,
+      housing_status = coalesce((p_fields->>'housing_status')::public.housing_status_enum, g.housing_status),
+      age_group = coalesce((p_fields->>'age_group')::public.age_group_enum, g.age_group),
+      gender = coalesce((p_fields->>'gender')::public.gender_enum, g.gender),
+      location = coalesce(p_fields->>'location', g.location),
+      notes = case when p_fields ? 'notes' then p_fields->>'notes' else g.notes end,
+      bicycle_description = case when p_fields ? 'bicycle_description' then p_fields->>'bicycle_description' else g.bicycle_description end,
+      photo_path = case when p_fields ? 'photo_path' then p_fields->>'photo_path' else g.photo_path end
+  where g.id = p_keep_id;
+
+  delete from public.guests where id = p_merge_id;
+
+  insert into public.guest_merges (
+    kept_guest_id, merged_guest_id, merged_guest, kept_guest_before, moved_rows,
+    converted_meal_ids, dismissed_waiver_ids, removed_proxies, removed_household_member, merged_by
+  ) values (
+    p_keep_id, p_merge_id, to_jsonb(duplicate), to_jsonb(kept), moved,
+    converted, dismissed, proxies, membership, p_merged_by
+  )
+  returning id into merge_id;
+
+  perform set_config('app.guest_merge', 'off', true);
+
+  return jsonb_build_object(
+    'merge', (select to_jsonb(m) from public.guest_merges m where m.id = merge_id),
+    'kept', (select to_jsonb(g) from public.guests g where g.id = p_keep_id)
+  );
+end;
+$$;
+
+comment on function public.merge_guests(uuid, uuid, jsonb, text) is 'Moves every record of p_merge_id onto p_keep_id, applies p_fields to the kept guest and deletes the duplicate; undo with undo_guest_merge()';
+
+create or replace function public.undo_guest_merge(p_merge_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  m public.guest_merges%rowtype;
+  before public.guests%rowtype;
+  moved record;
+begin
+  if not public.has_permission('guests.delete') then
+    raise exception 'Undoing a merge requires the guests.delete permission';
+  end if;
+
+  select * into m from public.guest_merges where id = p_merge_id for update;
+  if m.id is null then
+    raise exception 'Merge not found';
+  end if;
+  if m.undone_at is not null then
+    raise exception 'This merge was already undone';
+  end if;
+  if m.undo_until <= now() then
+    raise exception 'The undo window for this merge has closed';
+  end if;
+
+  perform set_config('app.guest_merge', 'on', true);
+
+  insert into public.guests
+  select * from jsonb_populate_record(null::public.guests, m.merged_guest);
+
+  -- Only rows moved by the merge go back; records added since stay with the kept guest
+  for moved in select key, value from jsonb_each(m.moved_rows) loop
+    execute format(
+      'update public.%I set %I = $1 where id = any($2)',
+      split_part(moved.key, '.', 1), split_part(moved.key, '.', 2)
+    ) using m.merged_guest_id, array(select jsonb_array_elements_text(moved.value))::uuid[];
+  end loop;
+
+  update public.meal_attendance set meal_type = 'guest' where id = any(m.converted_meal_ids);
+  update public.service_waivers
+  set dismissed_at = null, dismissed_reason = null
+  where id = any(m.dismissed_waiver_ids);
+
+  insert into public.guest_proxies
+  select * from jsonb_populate_recordset(null::public.guest_proxies, m.removed_proxies)
+  on conflict do nothing;
+
+  if m.removed_household_member is not null then
+    insert into public.household_members
+    select * from jsonb_populate_record(null::public.household_members, m.removed_household_member);
+  end if;
+
+  -- Field choices and the ban copy (bans moved back above) return to their old values
+  before := jsonb_populate_record(null::public.guests, m.kept_guest_before);
+  update public.guests g
+  set first_name = before.first_name,
+      last_name = before.last_name,
+      full_name = before.full_name,
+      preferred_name = before.preferred_name,
+      housing_status = before.housing_status,
+      age_group = before.age_group,
+      gender = before.gender,
+      location = before.location,
+      notes = before.notes,
+      bicycle_description = before.bicycle_description,
+      photo_path = before.photo_path,
+      ban_reason = before.ban_reason,
+      banned_at = before.banned_at,
+      banned_until = before.banned_until,
+      banned_from_bicycle = before.banned_from_bicycle,
+      banned_from_meals = before.banned_from_meals,
+      banned_from_shower = before.banned_from_shower,
+      banned_from_laundry = before.banned_from_laundry
+  where g.id = m.kept_guest_id;
+
+  update public.guest_merges set undone_at = now() where id = m.id;
+
+  perform set_config('app.guest_merge', 'off', true);
+
+  return jsonb_build_object(
+    'kept', (select to_jsonb(g) from public.guests g where g.id = m.kept_guest_id),
+    'restored', (select to_jsonb(g) from public.guests g where g.id = m.merged_guest_id)
+  );
+end;
+$$;
+
+comment on function public.undo_guest_merge(uuid) is 'Restores the duplicate removed by merge_guests() and moves its records back, within the merge''s undo window';
+
+grant execute on function public.merge_guests(uuid, uuid, jsonb, text) to authenticated;
+grant execute on function public.undo_guest_merge(uuid) to authenticated;
@@ -0,0 +1,9 @@
+-- Guest ID format: admins configure the prefix, site code and check character
+-- used when the app generates external_id for new guests.
+
+alter table public.app_settings
+  add column if not exists guest_id_format jsonb not null default jsonb_build_object(
+    'prefix', 'G',
+    'siteCode', '',
+    'checkDigit', false
+  );
@@ -0,0 +1,435 @@
+-- Sites: the main site plus pop-up locations. Service records are tagged
+-- with the site they happened at, schedules can be overridden per site, and
+-- slot capacity is counted per site.
+
+create table if not exists public.sites (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  code text not null,
+  address text,
+  is_default boolean not null default false,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint sites_name_present check (length(trim(name)) > 0),
+  constraint sites_code_format check (code ~ '^[A-Z0-9]{1,4}$'),
+  constraint sites_unique_name unique (name),
+  constraint sites_unique_code unique (code)
+);
+
+-- At most one default site
+create unique index if not exists sites_one_default_idx
+  on public.sites (is_default)
+  where is_default;
+
+drop trigger if exists trg_sites_updated_at on public.sites;
+create trigger trg_sites_updated_at
+before update on public.sites
+for each row execute function public.touch_updated_at();
+
+insert into public.sites (name, code, is_default)
+select 'Mountain View', 'MV', true
+ where not exists (select 1 from public.sites);
+
+-- The site records belong to when the app does not say (falls back to the oldest site)
+create or replace function public.default_site_id()
+returns uuid
+language sql
+stable
+as $$
+  select id from public.sites order by is_default desc, created_at limit 1;
+$$;
+
+alter table public.meal_attendance
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.shower_reservations
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.laundry_bookings
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.bicycle_repairs
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.haircut_visits
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.holiday_visits
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+alter table public.items_distributed
+  add column if not exists site_id uuid default public.default_site_id() references public.sites(id);
+
+-- Everything recorded before sites existed happened at the main site
+update public.meal_attendance set site_id = public.default_site_id() where site_id is null;
+update public.shower_reservations set site_id = public.default_site_id() where site_id is null;
+update public.laundry_bookings set site_id = public.default_site_id() where site_id is null;
+update public.bicycle_repairs set site_id = public.default_site_id() where site_id is null;
+update public.haircut_visits set site_id = public.default_site_id() where site_id is null;
+update public.holiday_visits set site_id = public.default_site_id() where site_id is null;
+update public.items_distributed set site_id = public.default_site_id() where site_id is null;
+
+alter table public.meal_attendance alter column site_id set not null;
+alter table public.shower_reservations alter column site_id set not null;
+alter table public.laundry_bookings alter column site_id set not null;
+alter table public.bicycle_repairs alter column site_id set not null;
+alter table public.haircut_visits alter column site_id set not null;
+alter table public.holiday_visits alter column site_id set not null;
+alter table public.items_distributed alter column site_id set not null;
+
+create index if not exists meal_attendance_site_idx on public.meal_attendance (site_id, served_on desc);
+create index if not exists shower_reservations_site_idx on public.shower_reservations (site_id, scheduled_for desc);
+create index if not exists laundry_bookings_site_idx on public.laundry_bookings (site_id, scheduled_for desc);
+create index if not exists bicycle_repairs_site_idx on public.bicycle_repairs (site_id, requested_at desc);
+create index if not exists haircut_visits_site_idx on public.haircut_visits (site_id, served_at desc);
+create index if not exists holiday_visits_site_idx on public.holiday_visits (site_id, served_at desc);
+create index if not exists items_distributed_site_idx on public.items_distributed (site_id, distributed_at desc);
+
+-- Each site numbers its own stalls, so stall 1 can be in use at every site
+drop index if exists public.shower_stall_in_use;
+create unique index shower_stall_in_use
+  on public.shower_reservations (site_id, scheduled_for, stall_number)
+  where stall_number is not null and started_at is not null and finished_at is null;
+
+-- Waitlisted guests only take a slot freed at their own site
+create or replace function public.promote_shower_waitlist()
+returns trigger as $$
+declare
+    candidate record;
+begin
+    if old.status <> 'booked' or new.status not in ('cancelled', 'no_show')
+       or old.scheduled_time is null then
+        return new;
+    end if;
+
+    -- A blocked slot is not offered to anyone
+    if exists (
+        select 1 from public.blocked_slots
+        where service_type = 'shower'
+          and date = old.scheduled_for::text
+          and slot_time = old.scheduled_time
+    ) then
+        return new;
+    end if;
+
+    for candidate in
+        select id, guest_id
+        from public.shower_reservations
+        where scheduled_for = old.scheduled_for
+          and site_id = old.site_id
+          and status = 'waitlisted'
+        order by waitlist_position nulls last, created_at
+        for update skip locked
+    loop
+        begin
+            -- Capacity and ban checks run in the row triggers; a refusal moves on to the next guest
+            update public.shower_reservations
+            set status = 'booked',
+                scheduled_time = old.scheduled_time,
+                waitlist_position = null
+            where id = candidate.id;
+
+            insert into public.waitlist_promotions
+                (service_type, record_id, guest_id, freed_record_id, freed_status, scheduled_for, slot_label)
+            values
+                ('shower', candidate.id, candidate.guest_id, old.id, new.status::text, old.scheduled_for, old.scheduled_time);
+
+            return new;
+        exception when raise_exception then
+            continue;
+        end;
+    end loop;
+
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Per-site hours: null site_id rows are the shared schedule every site starts from
+alter table public.service_schedule
+  add column if not exists site_id uuid references public.sites(id) on delete cascade;
+
+alter table public.service_schedule drop constraint if exists service_schedule_unique_day;
+alter table public.service_schedule
+  add constraint service_schedule_unique_day unique nulls not distinct (site_id, service, weekday, starts_on);
+
+-- Effective hours for a service on a date at a site: seasonal override
+-- first, then the weekly row; at each level the site's own row wins over
+-- the shared one
+drop function if exists public.service_hours_for(text, date);
+create or replace function public.service_hours_for(p_service text, p_date date, p_site_id uuid default null)
+returns public.service_schedule
+language sql
+stable
+as $$
+  select s.*
+    from public.service_schedule s
+   where s.service = p_service
+     and s.weekday = extract(dow from p_date)::int
+     and (s.starts_on is null or p_date between s.starts_on and s.ends_on)
+     and (s.site_id is null or s.site_id = p_site_id)
+   order by s.starts_on desc nulls last, s.site_id nulls last
+   limit 1;
+$$;
+
+drop function if exists public.service_slot_labels(text, date);
+create or replace function public.service_slot_labels(p_service text, p_date date, p_site_id uuid default null)
+returns setof text
+language plpgsql
+stable
+as $$
+declare
+  hours public.service_schedule;
+  start_min integer;
+  end_min integer;
+  step integer;
+  window_min integer;
+  m integer;
+begin
+  hours := public.service_hours_for(p_service, p_date, p_site_id);
+  if hours.id is null or not hours.is_open then
+    return;
+  end if;
+
+  if coalesce(array_length(hours.custom_slots, 1), 0) > 0 then
+    return query select unnest(hours.custom_slots);
+    return;
+  end if;
+
+  start_min := extract(hour from hours.start_time)::int * 60 + extract(minute from hours.start_time)::int;
+  end_min := extract(hour from hours.end_time)::int * 60 + extract(minute from hours.end_time)::int;
+  step := coalesce(hours.slot_minutes, 30);
+  window_min := coalesce(hours.slot_duration_minutes, step);
+
+  m := start_min;
+  if p_service = 'laundry' then
+    while m + window_min <= end_min loop
+      return next to_char(make_time(m / 60, m % 60, 0), 'HH24:MI')
+        || ' - ' || to_char(make_time((m + window_min) / 60, (m + window_min) % 60, 0), 'HH24:MI');
+      m := m + step;
+    end loop;
+  else
+    while m < end_min loop
+      return next to_char(make_time(m / 60, m % 60, 0), 'HH24:MI');
+      m := m + step;
+    end loop;
+  end if;
+end;
+$$;
+
+alter table public.sites enable row level security;
+
+drop policy if exists "Authenticated users can view sites" on public.sites;
+create policy "Authenticated users can view sites"
+  on public.sites for select
+  to authenticated, anon
+  using (true);
+
+drop policy if exists "Users with settings.manage can manage sites" on public.sites;
+create policy "Users with settings.manage can manage sites"
+  on public.sites for all
+  to authenticated
+  using (public.has_permission('settings.manage'))
+  with check (public.has_permission('settings.manage'));
+
+-- Slot capacity checks and availability helpers, now per site
+-- SHOWER SLOT CAPACITY CONSTRAINT
+-- Limits guests per slot at a site to the site's slot_capacity in service_schedule (2 if unset)
+create or replace function public.check_shower_slot_capacity()
+returns trigger as $$
+declare
+    slot_count integer;
+    max_capacity integer;
+begin
+    -- Only check for new bookings and status changes to active statuses
+    if new.status in ('booked', 'waitlisted') then
+        -- Rows already holding this slot (e.g. notes edits) do not take another spot
+        if tg_op = 'UPDATE' and old.status = 'booked'
+           and old.scheduled_for = new.scheduled_for
+           and old.scheduled_time is not distinct from new.scheduled_time
+           and old.site_id is not distinct from new.site_id then
+            return new;
+        end if;
+
+        max_capacity := coalesce(
+            (public.service_hours_for('showers', new.scheduled_for, new.site_id)).slot_capacity,
+            2
+        );
+
+        -- Count existing active bookings for this slot at the same site
+        select count(*) into slot_count
+        from public.shower_reservations
+        where scheduled_for = new.scheduled_for
+          and site_id is not distinct from new.site_id
+          and scheduled_time = new.scheduled_time
+          and scheduled_time is not null
+          and status in ('booked')
+          and id != coalesce(new.id, '00000000-0000-0000-0000-000000000000'::uuid);
+        
+        -- For new 'booked' records, check capacity
+        if new.status = 'booked' and slot_count >= max_capacity then
+            raise exception 'Shower slot % on % is at full capacity (% of % slots taken)', 
+                new.scheduled_time, new.scheduled_for, slot_count, max_capacity
+                using errcode = 'P0001';
+        end if;
+    end if;
+    
+    return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_shower_slot_capacity on public.shower_reservations;
+create trigger trg_shower_slot_capacity
+before insert or update on public.shower_reservations
+for each row execute function public.check_shower_slot_capacity();
+
+comment on function public.check_shower_slot_capacity() is 
+'Trigger function to enforce the scheduled number of guests per shower time slot. Prevents race conditions when multiple staff book simultaneously.';
+
+-- LAUNDRY SLOT CAPACITY CONSTRAINT  
+-- Limits guests per onsite slot at a site to the site's slot_capacity in service_schedule (2 if unset)
+create or replace function public.check_laundry_slot_capacity()
+returns trigger as $$
+declare
+    slot_count integer;
+    max_capacity integer;
+begin
+    -- Only check for onsite laundry with a slot
+    if new.laundry_type = 'onsite' and new.slot_label is not null then
+        -- Only check active statuses
+        if new.status in ('waiting', 'washer', 'dryer') then
+            -- Moving a load through washer/dryer keeps the spot it already holds
+            if tg_op = 'UPDATE' and old.status in ('waiting', 'washer', 'dryer')
+               and old.laundry_type = 'onsite'
+               and old.scheduled_for = new.scheduled_for
+               and old.slot_label is not distinct from new.slot_label
+               and old.site_id is not distinct from new.site_id then
+                return new;
+            end if;
+
+            max_capacity := coalesce(
+                (public.service_hours_for('laundry', new.scheduled_for, new.site_id)).slot_capacity,
+                2
+            );
+
+            -- Count existing active bookings for this slot at the same site
+            select count(*) into slot_count
+            from public.laundry_bookings
+            where scheduled_for = new.scheduled_for
+              and site_id is not distinct from new.site_id
+              and slot_label = new.slot_label
+              and laundry_type = 'onsite'
+              and status in ('waiting', 'washer', 'dryer')
+              and id != coalesce(new.id, '00000000-0000-0000-0000-000000000000'::uuid);
+            
+            if slot_count >= max_capacity then
+                raise exception 'Laundry slot % on % is at full capacity (% of % slots taken)', 
+                    new.slot_label, new.scheduled_for, slot_count, max_capacity
+                    using errcode = 'P0001';
+            end if;
+        end if;
+    end if;
+    
+    return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_laundry_slot_capacity on public.laundry_bookings;
+create trigger trg_laundry_slot_capacity
+before insert or update on public.laundry_bookings
+for each row execute function public.check_laundry_slot_capacity();
+
+comment on function public.check_laundry_slot_capacity() is 
+'Trigger function to enforce the scheduled number of guests per onsite laundry slot. Prevents race conditions when multiple staff book simultaneously.';
+
+-- HELPER FUNCTION: Get available shower slots
+-- Returns a site's scheduled slots for a date with remaining capacity (none on closed days)
+drop function if exists public.get_available_shower_slots(date, integer);
+create or replace function public.get_available_shower_slots(
+    check_date date,
+    max_per_slot integer default null, -- defaults to the scheduled slot_capacity
+    p_site_id uuid default null        -- defaults to the default site
+)
+returns table (
+    slot_time text,
+    current_count bigint,
+    available_spots integer
+) as $$
+declare
+    site uuid := coalesce(p_site_id, public.default_site_id());
+    capacity integer := coalesce(
+        max_per_slot,
+        (public.service_hours_for('showers', check_date, site)).slot_capacity,
+        2
+    );
+begin
+    return query
+    with all_slots as (
+        select labels.time_slot
+        from public.service_slot_labels('showers', check_date, site) as labels(time_slot)
+        where (public.service_closure_for('showers', check_date)).id is null
+    ),
+    booked_slots as (
+        select 
+            scheduled_time,
+            count(*) as booked_count
+        from public.shower_reservations
+        where scheduled_for = check_date
+          and site_id = site
+          and status in ('booked')
+          and scheduled_time is not null
+        group by scheduled_time
+    )
+    select 
+        all_slots.time_slot as slot_time,
+        coalesce(booked_slots.booked_count, 0) as current_count,
+        (capacity - coalesce(booked_slots.booked_count, 0))::integer as available_spots
+    from all_slots
+    left join booked_slots on all_slots.time_slot = booked_slots.scheduled_time
+    order by all_slots.time_slot;
+end;
+$$ language plpgsql;
+
+-- HELPER FUNCTION: Get available laundry slots
+-- Returns a site's scheduled onsite slots for a date with remaining capacity (none on closed days)
+drop function if exists public.get_available_laundry_slots(date, integer);
+create or replace function public.get_available_laundry_slots(
+    check_date date,
+    max_per_slot integer default null, -- defaults to the scheduled slot_capacity
+    p_site_id uuid default null        -- defaults to the default site
+)
+returns table (
+    slot_label text,
+    current_count bigint,
+    available_spots integer
+) as $$
+declare
+    site uuid := coalesce(p_site_id, public.default_site_id());
+    capacity integer := coalesce(
+        max_per_slot,
+        (public.service_hours_for('laundry', check_date, site)).slot_capacity,
+        2
+    );
+begin
+    return query
+    with all_slots as (
+        select labels.time_slot
+        from public.service_slot_labels('laundry', check_date, site) as labels(time_slot)
+        where (public.service_closure_for('laundry', check_date)).id is null
+    ),
+    booked_slots as (
+        select 
+            lb.slot_label as slot,
+            count(*) as booked_count
+        from public.laundry_bookings lb
+        where lb.scheduled_for = check_date
+          and lb.site_id = site
+          and lb.laundry_type = 'onsite'
+          and lb.status in ('waiting', 'washer', 'dryer')
+          and lb.slot_label is not null
+        group by lb.slot_label
+    )
+    select 
+        all_slots.time_slot as slot_label,
+        coalesce(booked_slots.booked_count, 0) as current_count,
+        (capacity - coalesce(booked_slots.booked_count, 0))::integer as available_spots
+    from all_slots
+    left join booked_slots on all_slots.time_slot = booked_slots.slot
+    order by all_slots.time_slot;
+end;
+$$ language plpgsql;
+
@@ -0,0 +1,69 @@
+-- Laundry waitlist: guests can wait for an onsite laundry slot, and when a
+-- waiting onsite load is cancelled or marked no-show the next waitlisted
+-- guest for that day and site takes the freed slot. Promotions are logged in
+-- waitlist_promotions alongside shower promotions.
+
+alter type public.laundry_status_enum add value if not exists 'waitlisted';
+alter type public.laundry_status_enum add value if not exists 'cancelled';
+alter type public.laundry_status_enum add value if not exists 'no_show';
+
+alter table public.laundry_bookings
+  add column if not exists waitlist_position smallint;
+
+create or replace function public.promote_laundry_waitlist()
+returns trigger as $$
+declare
+    candidate record;
+begin
+    if old.status <> 'waiting' or new.status not in ('cancelled', 'no_show')
+       or old.laundry_type <> 'onsite' or old.slot_label is null then
+        return new;
+    end if;
+
+    -- A blocked slot is not offered to anyone
+    if exists (
+        select 1 from public.blocked_slots
+        where service_type = 'laundry'
+          and date = old.scheduled_for::text
+          and slot_time = old.slot_label
+    ) then
+        return new;
+    end if;
+
+    for candidate in
+        select id, guest_id
+        from public.laundry_bookings
+        where scheduled_for = old.scheduled_for
+          and site_id = old.site_id
+          and status = 'waitlisted'
+        order by waitlist_position nulls last, created_at
+        for update skip locked
+    loop
+        begin
+            -- Capacity and ban checks run in the row triggers; a refusal moves on to the next guest
+            update public.laundry_bookings
+            set status = 'waiting',
+                laundry_type = 'onsite',
+                slot_label = old.slot_label,
+                waitlist_position = null
+            where id = candidate.id;
+
+            insert into public.waitlist_promotions
+                (service_type, record_id, guest_id, freed_record_id, freed_status, scheduled_for, slot_label)
+            values
+                ('laundry', candidate.id, candidate.guest_id, old.id, new.status::text, old.scheduled_for, old.slot_label);
+
+            return new;
+        exception when raise_exception then
+            continue;
+        end;
+    end loop;
+
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_laundry_waitlist_promotion on public.laundry_bookings;
+create trigger trg_laundry_waitlist_promotion
+after update of status on public.laundry_bookings
+for each row execute function public.promote_laundry_waitlist();
@@ -0,0 +1,60 @@
+-- Laundry bag numbers are assigned on the server, one sequence per service
+-- day, and a bag number can only be used once a day.
+
+-- Existing duplicates get a suffix so the unique index can be built
+with dupes as (
+  select id, row_number() over (partition by scheduled_for, bag_number order by created_at, id) as n
+  from public.laundry_bookings
+  where bag_number is not null and bag_number <> ''
+)
+update public.laundry_bookings lb
+   set bag_number = lb.bag_number || '-' || dupes.n
+  from dupes
+ where dupes.id = lb.id and dupes.n > 1;
+
+-- Tags print as LB-<date>-<bag>, so a bag number is only used once a day across every site
+create unique index if not exists laundry_bag_number_per_day
+  on public.laundry_bookings (scheduled_for, bag_number)
+  where bag_number is not null and bag_number <> '';
+
+-- Give a booking the next numeric bag number for its day. Bookings that already
+-- have a bag keep it, so a retried call is harmless.
+create or replace function public.assign_laundry_bag_number(p_booking_id uuid)
+returns public.laundry_bookings
+language plpgsql
+as $$
+declare
+  booking public.laundry_bookings;
+  next_bag integer;
+begin
+  select * into booking from public.laundry_bookings where id = p_booking_id;
+  if booking.id is null then
+    raise exception 'Laundry booking % not found', p_booking_id using errcode = 'P0002';
+  end if;
+
+  if coalesce(booking.bag_number, '') <> '' then
+    return booking;
+  end if;
+
+  -- One assignment per day at a time, so two devices never hand out the same number
+  perform pg_advisory_xact_lock(hashtext('laundry_bag_number'), booking.scheduled_for - date '2000-01-01');
+
+  select coalesce(max(bag_number::integer), 0) + 1 into next_bag
+  from public.laundry_bookings
+  where scheduled_for = booking.scheduled_for
+    and bag_number ~ '^\d{1,9}$';
+
+  update public.laundry_bookings
+     set bag_number = next_bag::text
+   where id = p_booking_id
+     and coalesce(bag_number, '') = ''
+  returning * into booking;
+
+  -- Another device numbered it while we waited for the lock
+  if booking.id is null then
+    select * into booking from public.laundry_bookings where id = p_booking_id;
+  end if;
+
+  return booking;
+end;
+$$;
@@ -0,0 +1,53 @@
+-- Enforce the combined household meal allowance in the database, so it
+-- holds on every device whether or not households have loaded there.
+
+-- Hold a household to its combined daily meal allowance. Only guest meals
+-- count, the same base meals the app adds up across the household's members.
+create or replace function public.check_household_meal_allowance()
+returns trigger
+language plpgsql
+as $$
+declare
+  member_household uuid;
+  allowance integer;
+  used integer;
+begin
+  if new.meal_type <> 'guest' or new.guest_id is null then
+    return new;
+  end if;
+
+  select h.id, h.meal_allowance into member_household, allowance
+  from public.household_members hm
+  join public.households h on h.id = hm.household_id
+  where hm.guest_id = new.guest_id;
+
+  if allowance is null then
+    return new;
+  end if;
+
+  -- Check-ins for the same household wait their turn so two devices can't both take the last meal
+  perform 1 from public.households where id = member_household for update;
+
+  select coalesce(sum(m.quantity), 0) into used
+  from public.meal_attendance m
+  join public.household_members hm on hm.guest_id = m.guest_id
+  where hm.household_id = member_household
+    and m.served_on = new.served_on
+    and m.meal_type = 'guest'
+    and m.id <> new.id;
+
+  if used + new.quantity > allowance then
+    raise exception 'Household already has % meal% on % (allowance %)',
+      used, case when used = 1 then '' else 's' end, new.served_on, allowance
+      using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Merges move meals between guests, so guest_id changes are left out
+drop trigger if exists trg_meal_attendance_household_allowance on public.meal_attendance;
+create trigger trg_meal_attendance_household_allowance
+before insert or update of quantity, served_on, meal_type on public.meal_attendance
+for each row execute function public.check_household_meal_allowance();
@@ -0,0 +1,85 @@
+-- Automatic meal rules only record meals from the day they take effect: the
+-- day they were created, or the day their weekday, meal type or quantity last
+-- changed or they were switched back on. Before this the catch-up window
+-- backfilled new rules and rewrote past days after an edit.
+
+-- First day a rule records meals. Set when the rule is created and again when
+-- what it records changes, so the catch-up never backfills or rewrites earlier days.
+alter table public.automatic_meal_rules
+  add column if not exists effective_from date;
+
+update public.automatic_meal_rules
+   set effective_from = (created_at at time zone 'America/Los_Angeles')::date
+ where effective_from is null;
+
+alter table public.automatic_meal_rules
+  alter column effective_from set default (now() at time zone 'America/Los_Angeles')::date,
+  alter column effective_from set not null;
+
+create or replace function public.set_automatic_meal_rule_effective_from()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT'
+     or new.weekday is distinct from old.weekday
+     or new.meal_type is distinct from old.meal_type
+     or new.quantity is distinct from old.quantity
+     or (new.active and not old.active) then
+    new.effective_from := (now() at time zone 'America/Los_Angeles')::date;
+  else
+    new.effective_from := old.effective_from;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_automatic_meal_rules_effective_from on public.automatic_meal_rules;
+create trigger trg_automatic_meal_rules_effective_from
+before insert or update on public.automatic_meal_rules
+for each row execute function public.set_automatic_meal_rule_effective_from();
+
+-- Record every rule due from p_days_back days ago through p_through.
+-- Skips closed days and days with no service scheduled; returns rows inserted.
+create or replace function public.record_automatic_meals(
+  p_through date default (now() at time zone 'America/Los_Angeles')::date,
+  p_days_back integer default 7
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  insert into public.meal_attendance
+    (guest_id, meal_type, quantity, served_on, notes, deduplication_key, automatic_rule_id)
+  select null, r.meal_type, r.quantity, d.day, coalesce(nullif(trim(r.note), ''), 'Automatic Entry'),
+         'auto_' || r.id::text || '_' || d.day::text, r.id
+    from generate_series(p_through - p_days_back, p_through, interval '1 day') as g(ts)
+   cross join lateral (select g.ts::date as day) d
+    join public.automatic_meal_rules r
+      on r.active
+     and r.weekday = extract(dow from d.day)::int
+     and d.day >= r.effective_from
+     and (r.starts_on is null or d.day >= r.starts_on)
+     and (r.ends_on is null or d.day <= r.ends_on)
+   where (public.service_closure_for('meals', d.day)).id is null
+     and exists (
+       select 1 from unnest(array['meals', 'showers', 'laundry']) as s(service)
+        where (public.service_hours_for(s.service, d.day)).is_open
+     )
+     -- Entries the app recorded before rules existed used "<meal_type>_<date>" keys
+     and not exists (
+       select 1 from public.meal_attendance m
+        where m.deduplication_key = r.meal_type::text || '_' || d.day::text
+     )
+  on conflict (deduplication_key) do nothing;
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+comment on function public.record_automatic_meals(date, integer) is 'Inserts due automatic meal entries (idempotent); run daily by pg_cron and on app start';
@@ -128,24 +128,38 @@ if (typeof (globalThis as any).ResizeObserver === 'undefined') {
 }
 
 // Mock Supabase client
-vi.mock("@/lib/supabase/client", () => ({
-  createClient: () => ({
-    from: vi.fn(() => ({
-      select: vi.fn().mockReturnThis(),
-      insert: vi.fn().mockReturnThis(),
-      update: vi.fn().mockReturnThis(),
-      delete: vi.fn().mockReturnThis(),
-      eq: vi.fn().mockReturnThis(),
-      single: vi.fn(),
-    })),
-    auth: {
-      getSession: vi.fn(),
-      getUser: vi.fn(),
-      signInWithPassword: vi.fn(),
-      signOut: vi.fn(),
+vi.mock("@/lib/supabase/client", () => {
+  let accessToken: string | null = null;
+  const listeners = new Set<() => void>();
+  return {
+    setSupabaseAccessToken: vi.fn((token: string | null | undefined) => {
+      accessToken = token || null;
+      listeners.forEach((listener) => listener());
+    }),
+    getSupabaseAccessToken: () => accessToken,
+    subscribeToSupabaseAccessToken: (listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
     },
-  }),
-}));
+    createClient: () => ({
+      from: vi.fn(() => ({
+        select: vi.fn().mockReturnThis(),
+        insert: vi.fn().mockReturnThis(),
+        update: vi.fn().mockReturnThis(),
+        delete: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockReturnThis(),
+        single: vi.fn(),
+      })),
+      auth: {
+        getSession: vi.fn(),
+        getUser: vi.fn(),
+        signInWithPassword: vi.fn(),
+        signOut: vi.fn(),
+      },
+    }),
+  };
+});
 
 // Suppress console errors in tests (optional, can be removed if needed)
 const originalError = console.error;